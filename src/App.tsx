@@ -27,8 +27,12 @@ const Settings = lazy(() => import("./pages/Settings"));
 const Auth = lazy(() => import("./pages/Auth"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const Notifications = lazy(() => import("./pages/Notifications"));
+const Approvals = lazy(() => import("./pages/Approvals"));
 const Tasks = lazy(() => import("./pages/Tasks"));
 const StickyHeaderTest = lazy(() => import("./pages/StickyHeaderTest"));
+const Unsubscribe = lazy(() => import("./pages/Unsubscribe"));
+const MeetingResponse = lazy(() => import("./pages/MeetingResponse"));
+const BookMeeting = lazy(() => import("./pages/BookMeeting"));
 
 // Build version for cache busting on deployments
 const CACHE_BUSTER = 'v1.0.0';
@@ -152,6 +156,7 @@ const useAppSetup = (isAuthenticated: boolean) => {
         scheduleImport(() => import("./pages/Tasks"));
         scheduleImport(() => import("./pages/Settings"));
         scheduleImport(() => import("./pages/Notifications"));
+        scheduleImport(() => import("./pages/Approvals"));
       };
       
       // Start prefetching after initial render settles
@@ -230,6 +235,24 @@ const AppRouter = () => (
           <StickyHeaderTest />
         </Suspense>
       } />
+      {/* Public page for the unsubscribe link in marketing emails */}
+      <Route path="/unsubscribe" element={
+        <Suspense fallback={<PageLoader />}>
+          <Unsubscribe />
+        </Suspense>
+      } />
+      {/* Public page for the RSVP links in calendar invites */}
+      <Route path="/meeting-response" element={
+        <Suspense fallback={<PageLoader />}>
+          <MeetingResponse />
+        </Suspense>
+      } />
+      {/* Public booking pages where prospects schedule a meeting with a user */}
+      <Route path="/book/:slug" element={
+        <Suspense fallback={<PageLoader />}>
+          <BookMeeting />
+        </Suspense>
+      } />
       <Route path="/auth" element={
         <Suspense fallback={<PageLoader />}>
           <AuthRoute>
@@ -273,6 +296,11 @@ const AppRouter = () => (
           <Notifications />
         </ProtectedRoute>
       } />
+      <Route path="/approvals" element={
+        <ProtectedRoute>
+          <Approvals />
+        </ProtectedRoute>
+      } />
       <Route path="/tasks" element={
         <ProtectedRoute>
           <Tasks />
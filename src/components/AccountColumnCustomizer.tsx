@@ -19,6 +19,8 @@ interface AccountColumnCustomizerProps {
   onColumnsChange: (columns: AccountColumnConfig[]) => void;
   onSave?: (columns: AccountColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Built-in columns plus any custom field columns; defaults to defaultAccountColumns
+  defaultColumns?: AccountColumnConfig[];
 }
 
 export const defaultAccountColumns: AccountColumnConfig[] = [
@@ -45,12 +47,13 @@ export const AccountColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  defaultColumns = defaultAccountColumns,
 }: AccountColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>(() => {
     const existingFields = new Set(columns.map(c => c.field));
-    const missingColumns = defaultAccountColumns.filter(dc => !existingFields.has(dc.field));
+    const missingColumns = defaultColumns.filter(dc => !existingFields.has(dc.field));
     const validColumns = columns.filter(c => 
-      defaultAccountColumns.some(dc => dc.field === c.field)
+      defaultColumns.some(dc => dc.field === c.field)
     );
     return [...validColumns, ...missingColumns];
   });
@@ -59,9 +62,9 @@ export const AccountColumnCustomizer = ({
   useEffect(() => {
     if (open) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultAccountColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = defaultColumns.filter(dc => !existingFields.has(dc.field));
       const validColumns = columns.filter(c => 
-        defaultAccountColumns.some(dc => dc.field === c.field)
+        defaultColumns.some(dc => dc.field === c.field)
       );
       setLocalColumns([...validColumns, ...missingColumns]);
     }
@@ -83,7 +86,7 @@ export const AccountColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultAccountColumns);
+    setLocalColumns(defaultColumns);
   };
 
   return (
@@ -5,7 +5,9 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { ApprovalRequiredError, useApprovalWorkflow } from "@/hooks/useApprovalWorkflow";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFieldForm } from "@/hooks/useCustomFields";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -17,6 +19,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { X, ChevronDown } from "lucide-react";
 import { Account } from "./AccountTable";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
 import { regions, regionCountries } from "@/utils/countryData";
 
@@ -78,10 +81,12 @@ const companyTypes = ["OEM", "Tier-1", "Tier-2", "Startup", "Enterprise", "SMB",
 export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated }: AccountModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
+  const { submitIfApprovalRequired, assertCreateAllowed } = useApprovalWorkflow();
   const [loading, setLoading] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [availableCountries, setAvailableCountries] = useState<string[]>([]);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
+  const customFields = useCustomFieldForm('account', account);
   
   // Merge modal state
   const [mergeModalOpen, setMergeModalOpen] = useState(false);
@@ -200,6 +205,8 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
   };
 
   const onSubmit = async (data: AccountFormData) => {
+    if (!customFields.validate()) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -247,26 +254,43 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         phone: data.phone || null,
         modified_by: user.data.user.id,
         account_owner: data.account_owner || user.data.user.id,
+        custom_fields: customFields.getPayload(),
       };
 
       if (account) {
-        const { error } = await supabase
-          .from('accounts')
-          .update({
-            ...accountData,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', account.id);
+        const approval = await submitIfApprovalRequired({
+          entityType: 'accounts',
+          entityId: account.id,
+          changes: accountData,
+          existing: account as unknown as Record<string, unknown>,
+          recordName: account.company_name,
+        });
 
-        if (error) throw error;
+        if (approval.pendingApproval) {
+          toast({
+            title: "Approval Required",
+            description: `Change submitted for approval (${approval.workflowName})`,
+          });
+        } else {
+          const { error } = await supabase
+            .from('accounts')
+            .update({
+              ...accountData,
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', account.id);
 
-        await logUpdate('accounts', account.id, accountData, account);
+          if (error) throw error;
 
-        toast({
-          title: "Success",
-          description: "Account updated successfully",
-        });
+          await logUpdate('accounts', account.id, accountData, account);
+
+          toast({
+            title: "Success",
+            description: "Account updated successfully",
+          });
+        }
       } else {
+        await assertCreateAllowed('accounts', accountData);
         const { data: newAccount, error } = await supabase
           .from('accounts')
           .insert({
@@ -296,7 +320,9 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
     } catch (error) {
       toast({
         title: "Error",
-        description: account ? "Failed to update account" : "Failed to create account",
+        description: error instanceof ApprovalRequiredError
+          ? error.message
+          : account ? "Failed to update account" : "Failed to create account",
         variant: "destructive",
       });
     } finally {
@@ -627,6 +653,13 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              fields={customFields.fields}
+              values={customFields.values}
+              errors={customFields.errors}
+              onChange={customFields.setValue}
+            />
+
             <FormField
               control={form.control}
               name="notes"
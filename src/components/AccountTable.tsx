@@ -5,6 +5,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
@@ -17,6 +18,8 @@ import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X,
 import { RowActionsDropdown, Edit, Trash2 } from "./RowActionsDropdown";
 import { AccountModal } from "./AccountModal";
 import { AccountColumnCustomizer, AccountColumnConfig, defaultAccountColumns } from "./AccountColumnCustomizer";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { CustomFieldValues, getColumnValue, parseCustomFieldColumn } from "@/utils/customFieldUtils";
 import { AccountStatusFilter } from "./AccountStatusFilter";
 import { AccountDeleteConfirmDialog } from "./AccountDeleteConfirmDialog";
 import { AccountDetailModal } from "./accounts/AccountDetailModal";
@@ -53,6 +56,7 @@ export interface Account {
   deal_count?: number;
   contact_count?: number;
   lead_count?: number;
+  custom_fields?: CustomFieldValues;
 }
 interface AccountTableProps {
   showColumnCustomizer: boolean;
@@ -88,14 +92,19 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
-  // Column preferences hook
+  // Column preferences hook - admin-defined custom fields are offered as optional columns
+  const {
+    customColumns,
+    getField: getCustomField
+  } = useCustomFields('account');
+  const accountColumns = useMemo(() => [...defaultAccountColumns, ...customColumns], [customColumns]);
   const {
     columns,
     saveColumns,
     isSaving
   } = useColumnPreferences({
     moduleName: 'accounts',
-    defaultColumns: defaultAccountColumns
+    defaultColumns: accountColumns
   });
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>(columns);
 
@@ -275,8 +284,8 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     }
     if (sortField) {
       filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Account] || '';
-        const bValue = b[sortField as keyof Account] || '';
+        const aValue = getColumnValue(a, sortField) || '';
+        const bValue = getColumnValue(b, sortField) || '';
 
         // Handle numeric sorting for counts
         if (typeof aValue === 'number' && typeof bValue === 'number') {
@@ -655,6 +664,11 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : parseCustomFieldColumn(column.field) ? (
+                            <CustomFieldCell
+                              field={getCustomField(parseCustomFieldColumn(column.field))}
+                              value={getColumnValue(account, column.field)}
+                            />
                           ) : (
                             account[column.field as keyof Account] ? (
                               <span title={account[column.field as keyof Account]?.toString()} className="truncate block">{account[column.field as keyof Account]?.toString()}</span>
@@ -737,7 +751,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       setEditingAccount(null);
     }} />
 
-      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} />
+      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} defaultColumns={accountColumns} />
 
       <AccountDeleteConfirmDialog open={showDeleteDialog} onConfirm={handleDelete} onCancel={() => {
       setShowDeleteDialog(false);
@@ -8,9 +8,16 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Users, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Mail, Send, Loader2, Users, X, Clock, CheckCircle2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { renderEmail, TemplateContext } from "@/utils/emailTemplateEngine";
+import { fetchRecordContexts, fetchSenderContext, nameContext, recordKey } from "@/utils/emailTemplateContext";
+import { ScheduleSendFields } from "@/components/email/ScheduleSendFields";
+import { defaultSchedule, formatScheduledTime, ScheduleValue, scheduleToDate, validateSchedule } from "@/utils/scheduledSend";
+import { BULK_SEND_RATES, useBulkEmailJob } from "@/hooks/useBulkEmailJobs";
+import { fetchSuppressions, normalizeEmail, SUPPRESSION_REASON_LABELS, SuppressionReason } from "@/utils/emailSuppressions";
 
 export interface BulkEmailRecipient {
   id: string;
@@ -26,6 +33,9 @@ interface EmailTemplate {
   body: string;
 }
 
+// Keeps each insert request well under the API's payload limit for long campaigns
+const RECIPIENT_INSERT_CHUNK = 500;
+
 interface BulkEmailModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -41,13 +51,20 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
   const [subject, setSubject] = useState("");
   const [body, setBody] = useState("");
   const [isSending, setIsSending] = useState(false);
-  const [sendProgress, setSendProgress] = useState({ sent: 0, total: 0 });
+  const [ratePerMinute, setRatePerMinute] = useState("30");
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [suppressions, setSuppressions] = useState<Map<string, SuppressionReason>>(new Map());
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleValue>(() => defaultSchedule());
+  const job = useBulkEmailJob(jobId);
+  const jobFinished = job?.status === 'completed' || job?.status === 'cancelled';
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
   
   // Filter recipients with valid emails
   const validRecipients = recipients.filter(r => r.email);
   const invalidRecipients = recipients.filter(r => !r.email);
+  const suppressedCount = validRecipients.filter(r => suppressions.has(normalizeEmail(r.email!))).length;
 
   useEffect(() => {
     if (open) {
@@ -55,10 +72,37 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       setSelectedTemplate("");
       setSubject("");
       setBody("");
-      setSendProgress({ sent: 0, total: 0 });
+      setJobId(null);
+      setScheduleEnabled(false);
+      setSchedule(defaultSchedule());
     }
   }, [open]);
 
+  // Suppressed addresses are shown up front and queued as skipped; send-email would refuse them anyway
+  const recipientEmails = validRecipients.map(r => r.email).join(',');
+  useEffect(() => {
+    setSuppressions(new Map());
+    if (!open || !recipientEmails) return;
+
+    let cancelled = false;
+    fetchSuppressions(recipientEmails.split(','))
+      .then(suppressed => {
+        if (!cancelled) setSuppressions(suppressed);
+      })
+      .catch(error => console.error('Error checking suppression list:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, recipientEmails]);
+
+  // The job keeps polling after the dialog closes, so the list still refreshes when it finishes
+  const notifiedJobRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!jobFinished || notifiedJobRef.current === jobId) return;
+    notifiedJobRef.current = jobId;
+    onEmailsSent?.();
+  }, [jobFinished, jobId, onEmailsSent]);
+
   const fetchTemplates = async () => {
     try {
       const { data, error } = await supabase
@@ -89,12 +133,6 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     }
   };
 
-  const replaceVariables = (text: string, recipient: BulkEmailRecipient) => {
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipient.name || '')
-      .replace(/\{\{name\}\}/g, recipient.name || '');
-  };
-
   const handleSendBulkEmail = async () => {
     if (validRecipients.length === 0) {
       toast({
@@ -114,57 +152,168 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       return;
     }
 
+    if (suppressedCount === validRecipients.length) {
+      toast({
+        title: "No recipients to email",
+        description: "Every selected address is on the suppression list",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const scheduleProblem = scheduleEnabled ? validateSchedule(schedule) : null;
+    if (scheduleProblem) {
+      toast({
+        title: "Check the send time",
+        description: scheduleProblem,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSending(true);
-    setSendProgress({ sent: 0, total: validRecipients.length });
-    
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const recipient of validRecipients) {
-      try {
-        const personalizedSubject = replaceVariables(subject.trim(), recipient);
-        const personalizedBody = replaceVariables(body.trim(), recipient);
-
-        // Pass entityType and entityId so send-email creates the email_history record
-        // with proper association - no need to create a duplicate record client-side
-        const { data, error } = await supabase.functions.invoke('send-email', {
-          body: {
-            to: recipient.email,
-            toName: recipient.name,
-            subject: personalizedSubject,
-            body: personalizedBody,
-            from: senderEmail,
-            entityType: recipient.type,
-            entityId: recipient.id,
-          },
-        });
 
+    // Template values for every recipient up front, so each email renders without extra queries
+    let recordContexts: Record<string, TemplateContext> = {};
+    let senderContext: TemplateContext = { sender_email: senderEmail };
+    try {
+      [recordContexts, senderContext] = await Promise.all([
+        fetchRecordContexts(validRecipients.map(r => ({ type: r.type, id: r.id }))),
+        fetchSenderContext(user?.id, senderEmail),
+      ]);
+    } catch (error) {
+      console.error('Error loading template variables:', error);
+    }
+
+    const personalize = (recipient: BulkEmailRecipient) =>
+      renderEmail(subject.trim(), body.trim(), {
+        ...nameContext(recipient.name, recipient.email),
+        ...recordContexts[recordKey({ type: recipient.type, id: recipient.id })],
+        ...senderContext,
+      });
+
+    if (scheduleEnabled) {
+      await scheduleBulkEmail(personalize);
+      return;
+    }
+
+    await queueBulkEmail(personalize);
+  };
+
+  // Sending happens in process-bulk-email-jobs at the chosen rate, so the tab can be closed once queued
+  const queueBulkEmail = async (personalize: (recipient: BulkEmailRecipient) => { subject: string; body: string }) => {
+    let queuedJobId: string | null = null;
+
+    try {
+      const { data: job, error: jobError } = await supabase
+        .from('bulk_email_jobs')
+        .insert({
+          subject: subject.trim(),
+          sender_email: senderEmail,
+          rate_per_minute: Number(ratePerMinute),
+          total_count: validRecipients.length,
+          created_by: user?.id,
+        })
+        .select('id')
+        .single();
+
+      if (jobError) throw jobError;
+      queuedJobId = job.id;
+
+      const seen = new Set<string>();
+      const rows = validRecipients.map(recipient => {
+        const email = recipient.email!.trim();
+        const duplicate = seen.has(normalizeEmail(email));
+        seen.add(normalizeEmail(email));
+        const suppressed = suppressions.get(normalizeEmail(email));
+        const rendered = personalize(recipient);
+        return {
+          job_id: job.id,
+          recipient_email: email,
+          recipient_name: recipient.name,
+          entity_type: recipient.type,
+          entity_id: recipient.id,
+          subject: rendered.subject,
+          body: rendered.body,
+          ...(suppressed
+            ? { status: 'skipped', skip_reason: SUPPRESSION_REASON_LABELS[suppressed] }
+            : duplicate ? { status: 'skipped', skip_reason: 'Duplicate address in this send' } : {}),
+        };
+      });
+
+      for (let i = 0; i < rows.length; i += RECIPIENT_INSERT_CHUNK) {
+        const { error } = await supabase.from('bulk_email_recipients').insert(rows.slice(i, i + RECIPIENT_INSERT_CHUNK));
         if (error) throw error;
+      }
 
-        successCount++;
-      } catch (error) {
-        console.error(`Failed to send email to ${recipient.email}:`, error);
-        failCount++;
+      // Start right away rather than waiting for the next scheduled run; progress is polled below
+      supabase.functions.invoke('process-bulk-email-jobs', { body: { jobId: job.id } }).catch(error => {
+        console.error('Error starting bulk email job:', error);
+      });
+
+      setJobId(job.id);
+      toast({
+        title: "Bulk email queued",
+        description: `${validRecipients.length} emails will be sent at up to ${ratePerMinute} per minute`,
+      });
+    } catch (error) {
+      console.error('Failed to queue bulk email:', error);
+      // Don't leave a half-inserted job for the processor to pick up
+      if (queuedJobId) {
+        await supabase.from('bulk_email_jobs').delete().eq('id', queuedJobId);
       }
-      
-      setSendProgress(prev => ({ ...prev, sent: prev.sent + 1 }));
+      toast({
+        title: "Failed to queue emails",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSending(false);
     }
+  };
 
-    setIsSending(false);
+  // Each recipient gets a rendered row in the send-later queue; the batch can be cancelled together
+  const scheduleBulkEmail = async (personalize: (recipient: BulkEmailRecipient) => { subject: string; body: string }) => {
+    const scheduledAt = scheduleToDate(schedule)!.toISOString();
+    const batchId = crypto.randomUUID();
+
+    try {
+      const sendable = validRecipients.filter(r => !suppressions.has(normalizeEmail(r.email!)));
+      const { error } = await supabase.from('scheduled_emails').insert(
+        sendable.map(recipient => {
+          const rendered = personalize(recipient);
+          return {
+            recipient_email: recipient.email!,
+            recipient_name: recipient.name,
+            sender_email: senderEmail,
+            subject: rendered.subject,
+            body: rendered.body,
+            entity_type: recipient.type,
+            entity_id: recipient.id,
+            scheduled_at: scheduledAt,
+            timezone: schedule.timezone,
+            batch_id: batchId,
+            created_by: user?.id,
+          };
+        })
+      );
+
+      if (error) throw error;
 
-    if (successCount > 0) {
       toast({
-        title: "Bulk email completed",
-        description: `Successfully sent ${successCount} emails${failCount > 0 ? `, ${failCount} failed` : ''}`,
+        title: "Bulk email scheduled",
+        description: `${sendable.length} emails will be sent ${formatScheduledTime(scheduledAt, schedule.timezone)}${suppressedCount > 0 ? `; ${suppressedCount} suppressed address(es) left out` : ''}`,
       });
-      onEmailsSent?.();
       onOpenChange(false);
-    } else {
+    } catch (error) {
+      console.error('Failed to schedule bulk email:', error);
       toast({
-        title: "Failed to send emails",
-        description: "All emails failed to send. Please try again.",
+        title: "Failed to schedule emails",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsSending(false);
     }
   };
 
@@ -196,6 +345,11 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
                 {invalidRecipients.length} recipient(s) have no email address and will be skipped.
               </p>
             )}
+            {suppressedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {suppressedCount} recipient(s) unsubscribed, hard-bounced or are otherwise on the suppression list and will be skipped.
+              </p>
+            )}
           </div>
 
           <div className="p-3 bg-muted/50 rounded-lg">
@@ -219,7 +373,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              Use {"{{name}}"} or {"{{contact_name}}"} to personalize each email.
+              Variables such as {"{{first_name|there}}"}, {"{{account_name}}"} or {"{{deal_stage}}"} are filled in for each recipient.
             </p>
           </div>
 
@@ -244,36 +398,79 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             />
           </div>
 
-          {isSending && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch id="bulk-schedule-send" checked={scheduleEnabled} onCheckedChange={setScheduleEnabled} disabled={!!jobId} />
+              <Label htmlFor="bulk-schedule-send">Schedule for later</Label>
+            </div>
+            {scheduleEnabled && <ScheduleSendFields value={schedule} onChange={setSchedule} disabled={isSending} />}
+          </div>
+
+          {!scheduleEnabled && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-send-rate">Sending rate</Label>
+              <Select value={ratePerMinute} onValueChange={setRatePerMinute} disabled={isSending || !!jobId}>
+                <SelectTrigger id="bulk-send-rate" className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BULK_SEND_RATES.map(rate => (
+                    <SelectItem key={rate} value={String(rate)}>{rate} emails per minute</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Emails are sent from the server, so you can close this dialog once they're queued.
+                Progress and the delivery report are under Settings → Email Center → Bulk Sends.
+              </p>
+            </div>
+          )}
+
+          {jobId && (
             <div className="p-3 bg-muted/50 rounded-lg">
               <div className="flex items-center justify-between mb-2">
-                <span className="text-sm">Sending emails...</span>
+                <span className="text-sm flex items-center gap-2">
+                  {jobFinished ? <CheckCircle2 className="h-4 w-4 text-green-600" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+                  {jobFinished ? "Bulk send finished" : job?.resume_at ? "Paused by Microsoft throttling, resuming shortly..." : "Sending emails..."}
+                </span>
                 <span className="text-sm text-muted-foreground">
-                  {sendProgress.sent} / {sendProgress.total}
+                  {(job?.sent_count || 0) + (job?.failed_count || 0) + (job?.skipped_count || 0)} / {job?.total_count || validRecipients.length}
                 </span>
               </div>
               <div className="w-full bg-secondary rounded-full h-2">
-                <div 
+                <div
                   className="bg-primary h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(sendProgress.sent / sendProgress.total) * 100}%` }}
+                  style={{
+                    width: `${job?.total_count ? ((job.sent_count + job.failed_count + job.skipped_count) / job.total_count) * 100 : 0}%`,
+                  }}
                 />
               </div>
+              {job && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {job.sent_count} sent · {job.failed_count} failed · {job.skipped_count} skipped
+                </p>
+              )}
             </div>
           )}
 
           <div className="flex justify-end gap-2 pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
-              Cancel
+              {jobId ? "Close" : "Cancel"}
             </Button>
             <Button 
               onClick={handleSendBulkEmail} 
-              disabled={validRecipients.length === 0 || isSending}
+              disabled={validRecipients.length === 0 || isSending || !!jobId}
               className="gap-2"
             >
               {isSending ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Sending...
+                  {scheduleEnabled ? "Scheduling..." : "Queueing..."}
+                </>
+              ) : scheduleEnabled ? (
+                <>
+                  <Clock className="h-4 w-4" />
+                  Schedule for {validRecipients.length} Recipients
                 </>
               ) : (
                 <>
@@ -19,6 +19,8 @@ interface ContactColumnCustomizerProps {
   onColumnsChange: (columns: ContactColumnConfig[]) => void;
   onSave?: (columns: ContactColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Built-in columns plus any custom field columns; defaults to defaultContactColumns
+  defaultColumns?: ContactColumnConfig[];
 }
 
 // Updated default columns - removed redundant fields (region, industry, website are in Account; engagement metrics are in detail view)
@@ -43,6 +45,7 @@ export const ContactColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  defaultColumns = defaultContactColumns,
 }: ContactColumnCustomizerProps) => {
   // Initialize local columns only when dialog opens
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>([]);
@@ -52,11 +55,11 @@ export const ContactColumnCustomizer = ({
   useEffect(() => {
     if (open && !isInitialized) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultContactColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = defaultColumns.filter(dc => !existingFields.has(dc.field));
       
       // Filter out invalid columns that are not in the default columns list
       const validColumns = columns.filter(c => 
-        defaultContactColumns.some(dc => dc.field === c.field)
+        defaultColumns.some(dc => dc.field === c.field)
       );
       
       if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -71,7 +74,7 @@ export const ContactColumnCustomizer = ({
     if (!open) {
       setIsInitialized(false);
     }
-  }, [open, columns, isInitialized]);
+  }, [open, columns, isInitialized, defaultColumns]);
 
   const handleVisibilityChange = (field: string, visible: boolean) => {
     const updatedColumns = localColumns.map(col =>
@@ -89,7 +92,7 @@ export const ContactColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultContactColumns);
+    setLocalColumns(defaultColumns);
   };
 
   return (
@@ -6,6 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFieldForm } from "@/hooks/useCustomFields";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -16,6 +17,7 @@ import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { X, ChevronDown, Plus, Loader2 } from "lucide-react";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
 import { AccountModal } from "./AccountModal";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -70,6 +72,7 @@ interface Contact {
   contact_source?: string;
   description?: string;
   tags?: string[];
+  custom_fields?: unknown;
 }
 
 interface Account {
@@ -112,6 +115,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [accountModalOpen, setAccountModalOpen] = useState(false);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
+  const customFields = useCustomFieldForm('contact', contact);
   
   // Merge modal state
   const [mergeModalOpen, setMergeModalOpen] = useState(false);
@@ -221,6 +225,8 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
   }, [contact, form]);
 
   const onSubmit = async (data: ContactFormData) => {
+    if (!customFields.validate()) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -270,6 +276,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         created_by: user.data.user.id,
         modified_by: user.data.user.id,
         contact_owner: data.contact_owner || user.data.user.id,
+        custom_fields: customFields.getPayload(),
       };
 
       if (contact) {
@@ -597,6 +604,13 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              fields={customFields.fields}
+              values={customFields.values}
+              errors={customFields.errors}
+              onChange={customFields.setValue}
+            />
+
             <FormField
               control={form.control}
               name="description"
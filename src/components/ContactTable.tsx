@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -19,6 +20,8 @@ import { ContactDeleteConfirmDialog } from "./ContactDeleteConfirmDialog";
 
 import { ContactModal } from "./ContactModal";
 import { ContactColumnCustomizer, ContactColumnConfig, defaultContactColumns } from "./ContactColumnCustomizer";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { CustomFieldValues, getColumnValue, parseCustomFieldColumn } from "@/utils/customFieldUtils";
 import { ContactDetailModal } from "./contacts/ContactDetailModal";
 import { AccountDetailModalById } from "./accounts/AccountDetailModalById";
 import { SendEmailModal } from "./SendEmailModal";
@@ -65,6 +68,7 @@ interface Contact {
   email_opens?: number;
   engagement_score?: number;
   last_contacted_at?: string;
+  custom_fields?: CustomFieldValues;
 }
 
 interface ContactTableProps {
@@ -100,9 +104,11 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   // Column preferences hook
+  const { customColumns, getField: getCustomField } = useCustomFields('contact');
+  const contactColumns = useMemo(() => [...defaultContactColumns, ...customColumns], [customColumns]);
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'contacts',
-    defaultColumns: defaultContactColumns,
+    defaultColumns: contactColumns,
   });
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>(columns);
 
@@ -319,8 +325,8 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     // Apply sorting
     if (sortField) {
       filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Contact] || '';
-        const bValue = b[sortField as keyof Contact] || '';
+        const aValue = getColumnValue(a, sortField) || '';
+        const bValue = getColumnValue(b, sortField) || '';
 
         if (typeof aValue === 'number' && typeof bValue === 'number') {
           return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
@@ -512,7 +518,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       if (!dateValue) return '-';
       return formatDateTimeStandard(dateValue as string);
     }
-    return contact[columnField as keyof Contact] || '-';
+    return contact[columnField as Exclude<keyof Contact, 'custom_fields'>] || '-';
   };
 
   return (
@@ -758,6 +764,11 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                           ) : (
                             <span className="text-center text-muted-foreground w-full block">-</span>
                           )
+                        ) : parseCustomFieldColumn(column.field) ? (
+                          <CustomFieldCell
+                            field={getCustomField(parseCustomFieldColumn(column.field))}
+                            value={getColumnValue(contact, column.field)}
+                          />
                         ) : (
                           getDisplayValue(contact, column.field) && getDisplayValue(contact, column.field) !== '-' ? (
                             <span className="truncate block" title={String(getDisplayValue(contact, column.field))}>
@@ -898,6 +909,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSaving}
+        defaultColumns={contactColumns}
       />
 
       <ContactDeleteConfirmDialog
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -9,6 +9,9 @@ import {
 import { Upload, Download, Columns } from "lucide-react";
 import { Deal } from "@/types/deal";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { ImportFileInput } from "@/components/shared/ImportFileInput";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
+import type { ParsedCSV } from "@/utils/csvParser";
 
 interface DealActionsDropdownProps {
   deals: Deal[];
@@ -40,46 +43,55 @@ export const DealActionsDropdown = ({
     }
   };
 
-  const handleImportClick = () => {
-    const input = document.createElement('input');
-    input.type = 'file';
-    input.accept = '.csv';
-    input.onchange = async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        try {
-          await handleImport(file);
-        } catch (error) {
-          console.error('Import failed:', error);
-        }
-      }
-    };
-    input.click();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<{ file: File; sheet?: string } | null>(null);
+
+  const handleImportMapped = async (data: ParsedCSV) => {
+    if (!pendingImport) return;
+    const { file, sheet } = pendingImport;
+    setPendingImport(null);
+    try {
+      await handleImport(file, sheet, data);
+    } catch (error) {
+      console.error('Import failed:', error);
+    }
   };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="sm">
-          Actions
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="bg-popover border z-50">
-        <DropdownMenuItem onClick={handleImportClick}>
-          <Upload className="w-4 h-4 mr-2" />
-          Import
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={handleExportClick}>
-          <Download className="w-4 h-4 mr-2" />
-          Export {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
-        </DropdownMenuItem>
-        {showColumns && onColumnCustomize && (
-          <DropdownMenuItem onClick={onColumnCustomize}>
-            <Columns className="w-4 h-4 mr-2" />
-            Columns
+    <>
+      <ImportFileInput ref={fileInputRef} onFileSelected={(file, sheet) => setPendingImport({ file, sheet })} />
+      {pendingImport && (
+        <ImportMappingDialog
+          file={pendingImport.file}
+          sheet={pendingImport.sheet}
+          tableName="deals"
+          onCancel={() => setPendingImport(null)}
+          onConfirm={handleImportMapped}
+        />
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            Actions
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-popover border z-50">
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleExportClick}>
+            <Download className="w-4 h-4 mr-2" />
+            Export {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
           </DropdownMenuItem>
-        )}
-      </DropdownMenuContent>
-    </DropdownMenu>
+          {showColumns && onColumnCustomize && (
+            <DropdownMenuItem onClick={onColumnCustomize}>
+              <Columns className="w-4 h-4 mr-2" />
+              Columns
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
   );
 };
@@ -3,9 +3,12 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Deal, STAGE_COLORS } from "@/types/deal";
+import { Deal } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { format } from "date-fns";
 import { Trash2, XCircle } from "lucide-react";
+import { ConvertedAmount } from "@/components/deals/ConvertedAmount";
+import { getDealRateDate } from "@/utils/currencyConversion";
 
 interface DealCardProps {
   deal: Deal;
@@ -33,10 +36,13 @@ export const DealCard = ({
     return `${symbols[currency as keyof typeof symbols] || '€'}${amount.toLocaleString()}`;
   };
 
+  const { openStages, dropStage } = usePipelineStages();
+  const isLastOpenStage = openStages.length > 0 && openStages[openStages.length - 1].stage_name === deal.stage;
+
   const handleMoveToDropped = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onStageChange) {
-      onStageChange(deal.id, 'Dropped');
+    if (onStageChange && dropStage) {
+      onStageChange(deal.id, dropStage);
     }
   };
 
@@ -55,13 +61,13 @@ export const DealCard = ({
             {deal.project_name || 'Untitled Deal'}
           </CardTitle>
           <div className="flex items-center gap-1">
-            {!selectionMode && deal.stage === 'Offered' && onStageChange && (
+            {!selectionMode && isLastOpenStage && dropStage && onStageChange && (
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={handleMoveToDropped}
                 className="opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 h-6 w-6 bg-amber-50 hover:bg-amber-100 text-amber-700"
-                title="Move to Dropped"
+                title={`Move to ${dropStage}`}
               >
                 <XCircle className="w-3 h-3" />
               </Button>
@@ -134,8 +140,9 @@ export const DealCard = ({
         {deal.total_contract_value && (
           <div className="flex items-center justify-between pt-2 border-t border-border/30">
             <span className="text-xs text-muted-foreground font-medium">Value:</span>
-            <p className="font-bold text-sm text-primary">
+            <p className="font-bold text-sm text-primary text-right">
               {formatCurrency(deal.total_contract_value, deal.currency_type)}
+              <ConvertedAmount amount={deal.total_contract_value} currency={deal.currency_type} date={getDealRateDate(deal)} />
             </p>
           </div>
         )}
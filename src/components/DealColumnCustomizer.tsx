@@ -19,6 +19,8 @@ interface DealColumnCustomizerProps {
   onColumnsChange: (columns: DealColumnConfig[]) => void;
   onSave?: (columns: DealColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Built-in columns plus any custom field columns; defaults to defaultDealColumns
+  defaultColumns?: DealColumnConfig[];
 }
 
 // Removed region column - available from linked Account/Customer
@@ -46,6 +48,7 @@ export const DealColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  defaultColumns = defaultDealColumns,
 }: DealColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<DealColumnConfig[]>(columns);
 
@@ -70,7 +73,7 @@ export const DealColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultDealColumns);
+    setLocalColumns(defaultColumns);
   };
 
   return (
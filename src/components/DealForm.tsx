@@ -5,19 +5,28 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Deal, DealStage, getNextStage, getFinalStageOptions, getStageIndex, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { useToast } from "@/hooks/use-toast";
 import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum } from "./deal-form/validation";
 import { DealStageForm } from "./deal-form/DealStageForm";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
-import { Plus, ListTodo } from "lucide-react";
+import { Plus, ListTodo, ClipboardCheck, History } from "lucide-react";
+import { ApprovalSubmissionResult, isPendingApproval } from "@/hooks/useApprovalWorkflow";
+import { ApprovalHistoryPanel } from "@/components/approvals/ApprovalHistoryPanel";
+import { RecordChangeHistory } from "@/components/shared/RecordChangeHistory";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { normalizeCustomFieldValues, parseCustomFieldColumn, toCustomFieldColumn, validateCustomFields } from "@/utils/customFieldUtils";
+import { getStageColorStyle } from "@/utils/statusBadgeUtils";
+import { ConvertedAmount } from "@/components/deals/ConvertedAmount";
+import { getDealRateDate } from "@/utils/currencyConversion";
 
 interface DealFormProps {
   deal: Deal | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (dealData: Partial<Deal>) => Promise<void>;
+  onSave: (dealData: Partial<Deal>) => Promise<ApprovalSubmissionResult | void>;
   onRefresh?: () => Promise<void>;
   isCreating?: boolean;
   initialStage?: DealStage;
@@ -28,10 +37,14 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   const [formData, setFormData] = useState<Partial<Deal>>({});
   const [loading, setLoading] = useState(false);
   const [showPreviousStages, setShowPreviousStages] = useState(false);
+  const [showApprovalHistory, setShowApprovalHistory] = useState(false);
+  const [showChangeHistory, setShowChangeHistory] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [showValidationErrors, setShowValidationErrors] = useState(false);
   const [linkedTasksCount, setLinkedTasksCount] = useState(0);
   const { toast } = useToast();
+  const { stageNames, openStages, getStage, getStageColor, isActiveStage, getNextStage, getStageChangeUpdates } = usePipelineStages();
+  const { fields: customFields } = useCustomFields('deal');
 
   // NEW: Track current user id for default Lead Owner
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -87,6 +100,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       // Set default values for new deals
       const defaultData: Partial<Deal> = {
         stage: initialStage,
+        probability: getStage(initialStage)?.stage_probability,
         currency_type: 'EUR', // Default to EUR
         quarterly_revenue_q1: 0,
         quarterly_revenue_q2: 0,
@@ -97,7 +111,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       setShowValidationErrors(false);
     }
     setShowPreviousStages(false);
-  }, [deal, isCreating, initialStage, isOpen]);
+  }, [deal, isCreating, initialStage, isOpen, getStage]);
 
   // Fetch linked tasks count for this deal
   useEffect(() => {
@@ -125,7 +139,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   }, [deal?.id, isOpen, isCreating]);
 
-  const currentStage = formData.stage || 'Lead';
+  const currentStage = formData.stage || openStages[0]?.stage_name || 'Lead';
 
   // No field errors since validation is removed
   useEffect(() => {
@@ -139,6 +153,12 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     console.log(`Current formData before update:`, formData);
     
     setFormData(prev => {
+      // Custom field columns are stored inside the custom_fields JSON
+      const customFieldName = parseCustomFieldColumn(field);
+      if (customFieldName) {
+        return { ...prev, custom_fields: { ...prev.custom_fields, [customFieldName]: value } };
+      }
+
       const updated = { ...prev };
       // Use type assertion to bypass strict type checking for dynamic assignment
       (updated as any)[field] = value;
@@ -153,6 +173,21 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Custom fields are the only ones validated on save; keep the form open until they fit their types
+    const customFieldErrors = validateCustomFields(customFields, formData.custom_fields || {});
+    if (Object.keys(customFieldErrors).length > 0) {
+      setFieldErrors(Object.fromEntries(
+        Object.entries(customFieldErrors).map(([name, message]) => [toCustomFieldColumn(name), message])
+      ));
+      toast({
+        title: "Check custom fields",
+        description: Object.values(customFieldErrors)[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -164,19 +199,23 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       const saveData = {
         ...formData,
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
+        custom_fields: normalizeCustomFieldValues(customFields, formData.custom_fields || {}),
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
       console.log("Save data:", saveData);
       
-      await onSave(saveData);
+      const result = await onSave(saveData);
       
       console.log("Save successful");
-      toast({
-        title: "Success",
-        description: isCreating ? "Deal created successfully" : "Deal updated successfully",
-      });
+      // Parked changes are already announced by the approval check
+      if (!isPendingApproval(result)) {
+        toast({
+          title: "Success",
+          description: isCreating ? "Deal created successfully" : "Deal updated successfully",
+        });
+      }
       
       if (onRefresh) {
         await onRefresh();
@@ -207,18 +246,20 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         
         const updatedData = {
           ...formData,
-          stage: nextStage,
+          ...getStageChangeUpdates(formData, nextStage),
           deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
           modified_at: new Date().toISOString(),
           modified_by: deal?.created_by || formData.created_by
         };
         
-        await onSave(updatedData);
+        const result = await onSave(updatedData);
         
-        toast({
-          title: "Success",
-          description: `Deal moved to ${nextStage} stage`,
-        });
+        if (!isPendingApproval(result)) {
+          toast({
+            title: "Success",
+            description: `Deal moved to ${nextStage} stage`,
+          });
+        }
         
         onClose();
         if (onRefresh) {
@@ -245,19 +286,22 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: finalStage,
+        ...getStageChangeUpdates(formData, finalStage),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
-      setFormData(updatedData);
-      await onSave(updatedData);
+      const result = await onSave(updatedData);
       
-      toast({
-        title: "Success",
-        description: `Deal moved to ${finalStage} stage`,
-      });
+      // The form keeps the current stage until a parked move is approved
+      if (!isPendingApproval(result)) {
+        setFormData(updatedData);
+        toast({
+          title: "Success",
+          description: `Deal moved to ${finalStage} stage`,
+        });
+      }
       
       onClose();
       if (onRefresh) {
@@ -283,19 +327,22 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: targetStage,
+        ...getStageChangeUpdates(formData, targetStage),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
-      setFormData(updatedData);
-      await onSave(updatedData);
+      const result = await onSave(updatedData);
       
-      toast({
-        title: "Success",
-        description: `Deal moved to ${targetStage} stage`,
-      });
+      // The form keeps the current stage until a parked move is approved
+      if (!isPendingApproval(result)) {
+        setFormData(updatedData);
+        toast({
+          title: "Success",
+          description: `Deal moved to ${targetStage} stage`,
+        });
+      }
       
       onClose();
       if (onRefresh) {
@@ -313,10 +360,9 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   };
 
-  // Allow movement to any stage - no restrictions
+  // Allow movement to any active pipeline stage - no restrictions
   const getAvailableStagesForMoveTo = (): DealStage[] => {
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return allStages.filter(stage => stage !== currentStage);
+    return stageNames.filter(stage => stage !== currentStage);
   };
 
   // No validation - always allow movement and saving
@@ -370,8 +416,9 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
                 {isCreating ? 'Create New Deal' : formData.project_name || 'Edit Deal'}
               </DialogTitle>
               <div className="flex items-center gap-2 mt-2">
-                <Badge variant="outline" className="text-sm px-3 py-1">
+                <Badge variant="outline" className="text-sm px-3 py-1" style={getStageColorStyle(getStageColor(currentStage))}>
                   {currentStage}
+                  {!isActiveStage(currentStage) && ' (inactive)'}
                 </Badge>
                 {!isCreating && (
                   <Button 
@@ -386,6 +433,28 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
                     {showPreviousStages ? 'Hide Previous Stages' : 'Show All Stages'}
                   </Button>
                 )}
+                {!isCreating && deal?.id && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowApprovalHistory(!showApprovalHistory)}
+                  >
+                    <ClipboardCheck className="h-4 w-4 mr-2" />
+                    {showApprovalHistory ? 'Hide Approval History' : 'Approval History'}
+                  </Button>
+                )}
+                {!isCreating && deal?.id && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowChangeHistory(!showChangeHistory)}
+                  >
+                    <History className="h-4 w-4 mr-2" />
+                    {showChangeHistory ? 'Hide Change History' : 'Change History'}
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -405,6 +474,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
                   ? `${getCurrencySymbol(formData.currency_type)}${formData.total_contract_value.toLocaleString()}`
                   : '-'}
               </p>
+              <ConvertedAmount amount={formData.total_contract_value} currency={formData.currency_type} date={getDealRateDate(formData)} />
             </div>
             <div>
               <p className="text-xs text-muted-foreground">Probability</p>
@@ -424,6 +494,27 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         <form onSubmit={handleSubmit} className="flex flex-col flex-1 min-h-0">
           {/* Scrollable stages section */}
           <div className="flex-1 overflow-y-auto pr-2">
+            {showApprovalHistory && deal?.id && (
+              <div className="mb-4">
+                <h3 className="text-sm font-semibold mb-2">Approval History</h3>
+                <ApprovalHistoryPanel entityType="deals" entityId={deal.id} maxHeight="300px" />
+              </div>
+            )}
+            {showChangeHistory && deal?.id && (
+              <div className="mb-4">
+                <h3 className="text-sm font-semibold mb-2">Change History</h3>
+                {/* The form still holds the old values after a restore, so close it rather than let a save undo the restore */}
+                <RecordChangeHistory
+                  entityType="deals"
+                  entityId={deal.id}
+                  maxHeight="300px"
+                  onRestored={async () => {
+                    await onRefresh?.();
+                    onClose();
+                  }}
+                />
+              </div>
+            )}
             <DealStageForm
               formData={formData}
               onFieldChange={handleFieldChange}
@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useEmailSequences } from "@/hooks/useEmailSequences";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, Loader2 } from "lucide-react";
+import type { BulkEmailRecipient } from "@/components/BulkEmailModal";
+
+interface EnrollInSequenceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recipients: BulkEmailRecipient[];
+  onEnrolled?: () => void;
+}
+
+export const EnrollInSequenceModal = ({ open, onOpenChange, recipients, onEnrolled }: EnrollInSequenceModalProps) => {
+  const { toast } = useToast();
+  const { sequences, isLoading, enrollRecipients } = useEmailSequences();
+  const [selectedSequenceId, setSelectedSequenceId] = useState("");
+  const [isEnrolling, setIsEnrolling] = useState(false);
+
+  const availableSequences = sequences.filter(s => s.is_active && s.steps.length > 0);
+  const selectedSequence = availableSequences.find(s => s.id === selectedSequenceId);
+  const withoutEmail = recipients.filter(r => !r.email).length;
+
+  useEffect(() => {
+    if (open) setSelectedSequenceId("");
+  }, [open]);
+
+  const handleEnroll = async () => {
+    if (!selectedSequence) return;
+
+    setIsEnrolling(true);
+    try {
+      const { enrolled, skipped } = await enrollRecipients(selectedSequence, recipients);
+      toast({
+        title: "Enrollment complete",
+        description: skipped > 0
+          ? `${enrolled} enrolled in "${selectedSequence.name}", ${skipped} skipped (no email or already enrolled)`
+          : `${enrolled} enrolled in "${selectedSequence.name}"`,
+      });
+      onEnrolled?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error enrolling in sequence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to enroll in sequence",
+        variant: "destructive",
+      });
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Add to Sequence
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <p className="text-sm text-muted-foreground">
+            {recipients.length} selected{withoutEmail > 0 && `, ${withoutEmail} without an email address will be skipped`}.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Sequence</Label>
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading sequences...
+              </div>
+            ) : availableSequences.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No active sequences. Create one under Settings → Email Center → Sequences.
+              </p>
+            ) : (
+              <Select value={selectedSequenceId} onValueChange={setSelectedSequenceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a sequence..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableSequences.map(sequence => (
+                    <SelectItem key={sequence.id} value={sequence.id}>
+                      {sequence.name} ({sequence.steps.length} steps)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {selectedSequence && (
+            <p className="text-xs text-muted-foreground">
+              The first email is sent {selectedSequence.steps[0].wait_days === 0
+                ? 'on the next scheduled run'
+                : `after ${selectedSequence.steps[0].wait_days} day(s)`}. A reply or bounce stops the sequence for that recipient.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleEnroll} disabled={!selectedSequence || isEnrolling}>
+            {isEnrolling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enroll
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
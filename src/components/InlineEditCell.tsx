@@ -1,12 +1,12 @@
 
-import { useState } from "react";
+import { ReactNode, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Check, X, Edit3 } from "lucide-react";
-import { Deal, DealStage, DEAL_STAGES } from "@/types/deal";
+import { DEAL_STAGES } from "@/types/deal";
 
 interface InlineEditCellProps {
   value: any;
@@ -17,6 +17,7 @@ interface InlineEditCellProps {
   options?: string[];
   userOptions?: Array<{ id: string; full_name: string | null }>;
   currencyType?: string;
+  secondaryValue?: ReactNode;
 }
 
 export const InlineEditCell = ({ 
@@ -27,7 +28,8 @@ export const InlineEditCell = ({
   type = 'text',
   options = [],
   userOptions = [],
-  currencyType = 'EUR'
+  currencyType = 'EUR',
+  secondaryValue
 }: InlineEditCellProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(value || '');
@@ -114,7 +116,10 @@ export const InlineEditCell = ({
         }}
         title="Click to edit"
       >
-        <span className={`truncate ${isEmpty ? 'text-muted-foreground' : 'flex-1'}`}>{displayValue}</span>
+        <span className={`truncate ${isEmpty ? 'text-muted-foreground' : 'flex-1'}`}>
+          {displayValue}
+          {!isEmpty && secondaryValue}
+        </span>
         {!isEmpty && <Edit3 className="w-3 h-3 opacity-0 group-hover:opacity-100 transition-opacity ml-1 text-muted-foreground flex-shrink-0" />}
       </div>
     );
@@ -193,7 +198,7 @@ export const InlineEditCell = ({
               <SelectValue placeholder="Select stage" />
             </SelectTrigger>
             <SelectContent>
-              {DEAL_STAGES.map(stage => (
+              {(options.length > 0 ? options : DEAL_STAGES).map(stage => (
                 <SelectItem key={stage} value={stage}>
                   {stage}
                 </SelectItem>
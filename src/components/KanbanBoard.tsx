@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { DealCard } from "./DealCard";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -12,10 +12,13 @@ import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter"
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { ApprovalSubmissionResult, isPendingApproval } from "@/hooks/useApprovalWorkflow";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getStageColorStyle } from "@/utils/statusBadgeUtils";
 
 interface KanbanBoardProps {
   deals: Deal[];
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<ApprovalSubmissionResult | void>;
   onDealClick: (deal: Deal) => void;
   onCreateDeal: (stage: DealStage) => void;
   onDeleteDeals: (dealIds: string[]) => void;
@@ -49,6 +52,8 @@ export const KanbanBoard = ({
     probabilityRange: [0, 100],
   });
   const { toast } = useToast();
+  const { activeStages, openStages, isLostStage, isActiveStage, getStageColor, getStageChangeUpdates } = usePipelineStages();
+  const entryStage = openStages[0]?.stage_name;
 
   // Get owner IDs for display names
   const ownerIds = useMemo(() => {
@@ -129,17 +134,19 @@ export const KanbanBoard = ({
     return filteredDeals.filter(deal => deal.stage === stage);
   };
 
-  const getVisibleStages = () => {
-    const leadDeals = getDealsByStage('Lead');
-    const lostDeals = getDealsByStage('Lost');
-    const droppedDeals = getDealsByStage('Dropped');
-    
-    return DEAL_STAGES.filter(stage => {
-      if (stage === 'Lead') return leadDeals.length > 0;
-      if (stage === 'Lost') return lostDeals.length > 0;
-      if (stage === 'Dropped') return droppedDeals.length > 0;
-      return true;
-    });
+  const getVisibleStages = (): DealStage[] => {
+    const configuredStages = activeStages
+      .map(s => s.stage_name)
+      .filter(stage => {
+        // Entry and lost columns only show once they hold deals
+        if (stage === entryStage || isLostStage(stage)) return getDealsByStage(stage).length > 0;
+        return true;
+      });
+
+    // Deals left on a deactivated or deleted stage stay visible until they are moved on
+    const retiredStages = [...new Set(deals.map(d => d.stage))].filter(stage => stage && !isActiveStage(stage));
+
+    return [...configuredStages, ...retiredStages];
   };
 
   const onDragStart = (start: any) => {
@@ -168,17 +175,17 @@ export const KanbanBoard = ({
         description: `Moving to ${newStage} stage`,
       });
       
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
+      const updates = getStageChangeUpdates(deal, newStage);
       
-      await onUpdateDeal(draggableId, updates);
+      const approval = await onUpdateDeal(draggableId, updates);
       
-      toast({
-        title: "Deal Moved",
-        description: `Successfully moved to ${newStage} stage`,
-      });
+      // A parked move stays in its current column until approved
+      if (!isPendingApproval(approval)) {
+        toast({
+          title: "Deal Moved",
+          description: `Successfully moved to ${newStage} stage`,
+        });
+      }
     } catch (error) {
       console.error("Error updating deal stage:", error);
       toast({
@@ -248,17 +255,17 @@ export const KanbanBoard = ({
     try {
       console.log(`Card action: Moving deal ${dealId} to stage ${newStage}`);
       
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
+      const deal = deals.find(d => d.id === dealId);
+      const updates = deal ? getStageChangeUpdates(deal, newStage) : { stage: newStage };
       
-      await onUpdateDeal(dealId, updates);
+      const approval = await onUpdateDeal(dealId, updates);
       
-      toast({
-        title: "Deal Updated",
-        description: `Deal moved to ${newStage} stage`,
-      });
+      if (!isPendingApproval(approval)) {
+        toast({
+          title: "Deal Updated",
+          description: `Deal moved to ${newStage} stage`,
+        });
+      }
     } catch (error) {
       console.error("Error updating deal stage:", error);
       toast({
@@ -364,7 +371,11 @@ export const KanbanBoard = ({
                 const allSelected = selectedInStage === stageDeals.length && stageDeals.length > 0;
                 
                 return (
-                  <div key={stage} className={`p-2 rounded-lg border-2 ${STAGE_COLORS[stage]} transition-all hover:shadow-md`}>
+                  <div
+                    key={stage}
+                    className="p-2 rounded-lg border-2 transition-all hover:shadow-md"
+                    style={getStageColorStyle(getStageColor(stage))}
+                  >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 min-w-0 flex-1">
                         {selectionMode && (
@@ -375,6 +386,9 @@ export const KanbanBoard = ({
                           />
                         )}
                         <h3 className="font-semibold text-sm truncate">{stage}</h3>
+                        {!isActiveStage(stage) && (
+                          <span className="text-[10px] uppercase tracking-wide opacity-75 flex-shrink-0">Inactive</span>
+                        )}
                       </div>
                       <div className="flex items-center gap-2 flex-shrink-0">
                         <span className="text-xs font-medium whitespace-nowrap">
@@ -383,7 +397,7 @@ export const KanbanBoard = ({
                             <span className="text-primary ml-1">({selectedInStage})</span>
                           )}
                         </span>
-                        {stage === 'Lead' && (
+                        {stage === entryStage && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -414,7 +428,7 @@ export const KanbanBoard = ({
                 
                 return (
                   <div key={stage} className="flex flex-col min-w-0">
-                    <Droppable droppableId={stage}>
+                    <Droppable droppableId={stage} isDropDisabled={!isActiveStage(stage)}>
                       {(provided, snapshot) => (
                         <div
                           ref={provided.innerRef}
@@ -19,6 +19,8 @@ interface LeadColumnCustomizerProps {
   onColumnsChange: (columns: LeadColumnConfig[]) => void;
   onSave?: (columns: LeadColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Built-in columns plus any custom field columns; defaults to defaultLeadColumns
+  defaultColumns?: LeadColumnConfig[];
 }
 
 export const defaultLeadColumns: LeadColumnConfig[] = [
@@ -41,17 +43,18 @@ export const LeadColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  defaultColumns = defaultLeadColumns,
 }: LeadColumnCustomizerProps) => {
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
 
   // Sync local columns when props change, merging new columns if they don't exist
   useEffect(() => {
     const existingFields = new Set(columns.map(c => c.field));
-    const missingColumns = defaultLeadColumns.filter(dc => !existingFields.has(dc.field));
+    const missingColumns = defaultColumns.filter(dc => !existingFields.has(dc.field));
     
     // Filter out invalid columns that are not in the default columns list
     const validColumns = columns.filter(c => 
-      defaultLeadColumns.some(dc => dc.field === c.field)
+      defaultColumns.some(dc => dc.field === c.field)
     );
     
     if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -59,7 +62,7 @@ export const LeadColumnCustomizer = ({
     } else {
       setLocalColumns(columns);
     }
-  }, [columns]);
+  }, [columns, defaultColumns]);
 
   const handleVisibilityChange = (field: string, visible: boolean) => {
     const updatedColumns = localColumns.map(col => 
@@ -77,7 +80,7 @@ export const LeadColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultLeadColumns);
+    setLocalColumns(defaultColumns);
   };
 
   return (
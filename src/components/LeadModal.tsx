@@ -5,7 +5,9 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { ApprovalRequiredError, useApprovalWorkflow } from "@/hooks/useApprovalWorkflow";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFieldForm } from "@/hooks/useCustomFields";
 import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -16,6 +18,7 @@ import { Button } from "@/components/ui/button";
 import { Plus, Loader2 } from "lucide-react";
 import { LEAD_SOURCES } from "@/utils/leadStatusUtils";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
 import { AccountModal } from "./AccountModal";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -49,6 +52,7 @@ interface Lead {
   contact_source?: string;
   description?: string;
   lead_status?: string;
+  custom_fields?: unknown;
 }
 
 interface Account {
@@ -73,11 +77,13 @@ interface LeadModalProps {
 export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
+  const { submitIfApprovalRequired, assertCreateAllowed } = useApprovalWorkflow();
   const [loading, setLoading] = useState(false);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [accountModalOpen, setAccountModalOpen] = useState(false);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
+  const customFields = useCustomFieldForm('lead', lead);
   
   // Merge modal state
   const [mergeModalOpen, setMergeModalOpen] = useState(false);
@@ -207,6 +213,8 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
   }, [lead, form]);
 
   const onSubmit = async (data: LeadFormData) => {
+    if (!customFields.validate()) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -252,9 +260,28 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: data.description || null,
         modified_by: user.data.user.id,
         contact_owner: data.contact_owner || user.data.user.id,
+        custom_fields: customFields.getPayload(),
       };
 
       if (lead) {
+        const approval = await submitIfApprovalRequired({
+          entityType: 'leads',
+          entityId: lead.id,
+          changes: baseLeadData,
+          existing: lead as unknown as Record<string, unknown>,
+          recordName: lead.lead_name,
+        });
+
+        if (approval.pendingApproval) {
+          toast({
+            title: "Approval Required",
+            description: `Change submitted for approval (${approval.workflowName})`,
+          });
+          onSuccess();
+          onOpenChange(false);
+          return;
+        }
+
         console.log('Updating lead with data:', { ...baseLeadData, modified_time: new Date().toISOString() });
         
         const { data: updatedLead, error } = await supabase
@@ -289,6 +316,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         };
         
         console.log('Creating new lead with data:', newLeadData);
+        await assertCreateAllowed('leads', newLeadData);
         
         const { data: newLead, error } = await supabase
           .from('leads')
@@ -316,7 +344,9 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
     } catch (error) {
       toast({
         title: "Error",
-        description: lead ? "Failed to update lead" : "Failed to create lead",
+        description: error instanceof ApprovalRequiredError
+          ? error.message
+          : lead ? "Failed to update lead" : "Failed to create lead",
         variant: "destructive",
       });
     } finally {
@@ -583,6 +613,13 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
               />
             </div>
 
+            <CustomFieldsSection
+              fields={customFields.fields}
+              values={customFields.values}
+              errors={customFields.errors}
+              onChange={customFields.setValue}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -6,6 +6,7 @@ import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
@@ -18,6 +19,8 @@ import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Cal
 import { RowActionsDropdown, Edit, Trash2, Mail, RefreshCw } from "./RowActionsDropdown";
 import { LeadModal } from "./LeadModal";
 import { LeadColumnCustomizer, LeadColumnConfig, defaultLeadColumns } from "./LeadColumnCustomizer";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { CustomFieldValues, getColumnValue, parseCustomFieldColumn } from "@/utils/customFieldUtils";
 import { LeadStatusFilter } from "./LeadStatusFilter";
 import { ConvertToDealModal } from "./ConvertToDealModal";
 import { LeadDeleteConfirmDialog } from "./LeadDeleteConfirmDialog";
@@ -60,6 +63,7 @@ interface Lead {
   modified_by?: string;
   country?: string | null;
   industry?: string | null;
+  custom_fields?: CustomFieldValues;
 }
 
 // Use defaultLeadColumns from LeadColumnCustomizer (imported above)
@@ -158,10 +162,12 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   
   // viewId effect is moved below the leads query
   
-  // Column preferences hook
+  // Column preferences hook - admin-defined custom fields are offered as optional columns
+  const { customColumns, getField: getCustomField } = useCustomFields('lead');
+  const leadColumns = useMemo(() => [...defaultLeadColumns, ...customColumns], [customColumns]);
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'leads',
-    defaultColumns: defaultLeadColumns,
+    defaultColumns: leadColumns,
   });
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>(columns);
   
@@ -289,8 +295,8 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     // Apply sorting
     if (sortField) {
       filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Lead] || '';
-        const bValue = b[sortField as keyof Lead] || '';
+        const aValue = getColumnValue(a, sortField) || '';
+        const bValue = getColumnValue(b, sortField) || '';
         const comparison = aValue.toString().localeCompare(bValue.toString());
         return sortDirection === 'asc' ? comparison : -comparison;
       });
@@ -716,10 +722,15 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : parseCustomFieldColumn(column.field) ? (
+                            <CustomFieldCell
+                              field={getCustomField(parseCustomFieldColumn(column.field))}
+                              value={getColumnValue(lead, column.field)}
+                            />
                           ) : (
                             lead[column.field as keyof Lead] ? (
                               <span className="truncate block" title={lead[column.field as keyof Lead]?.toString()}>
-                                {lead[column.field as keyof Lead]}
+                                {lead[column.field as keyof Lead]?.toString()}
                               </span>
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
@@ -853,6 +864,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         onColumnsChange={setLocalColumns} 
         onSave={saveColumns} 
         isSaving={isSaving} 
+        defaultColumns={leadColumns}
       />
 
       <ConvertToDealModal 
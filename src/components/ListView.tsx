@@ -6,13 +6,16 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { Search, Filter, X, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Briefcase, Edit3 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RowActionsDropdown, Edit, Trash2, CheckSquare } from "./RowActionsDropdown";
 import { format } from "date-fns";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { DealColumnCustomizer, DealColumnConfig, defaultDealColumns } from "./DealColumnCustomizer";
+import { CustomFieldCell } from "./shared/CustomFieldCell";
+import { getColumnValue, parseCustomFieldColumn } from "@/utils/customFieldUtils";
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
 import { InlineEditCell } from "./InlineEditCell";
@@ -21,19 +24,23 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { HighlightedText } from "./shared/HighlightedText";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { getDealStageColor } from "@/utils/statusBadgeUtils";
+import { ApprovalSubmissionResult, isPendingApproval } from "@/hooks/useApprovalWorkflow";
+import { ConvertedAmount } from "@/components/deals/ConvertedAmount";
+import { getDealRateDate } from "@/utils/currencyConversion";
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
 interface ListViewProps {
   deals: Deal[];
   onDealClick: (deal: Deal) => void;
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => void;
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<ApprovalSubmissionResult | void>;
   onDeleteDeals: (dealIds: string[]) => void;
   onImportDeals: (deals: Partial<Deal>[]) => void;
   initialStageFilter?: string;
@@ -49,6 +56,7 @@ export const ListView = ({
   initialStageFilter = 'all',
   onSelectionChange
 }: ListViewProps) => {
+  const { stageNames } = usePipelineStages();
   const [searchTerm, setSearchTerm] = useState("");
   const [leadOwnerFilter, setLeadOwnerFilter] = useState("all");
   const [filters, setFilters] = useState<AdvancedFilterState>(() => ({
@@ -105,6 +113,10 @@ export const ListView = ({
     gcTime: 30 * 60 * 1000,
   });
 
+  // Admin-defined custom fields are offered as optional columns
+  const { customColumns, getField: getCustomField } = useCustomFields('deal');
+  const dealColumns = useMemo(() => [...defaultDealColumns, ...customColumns], [customColumns]);
+
   // Use column preferences hook for database persistence
   const { 
     columns: savedColumns, 
@@ -113,7 +125,7 @@ export const ListView = ({
     isLoading: columnsLoading 
   } = useColumnPreferences({
     moduleName: 'deals',
-    defaultColumns: defaultDealColumns,
+    defaultColumns: dealColumns,
   });
 
   // Local state for optimistic updates
@@ -322,11 +334,13 @@ export const ListView = ({
     }
     
     try {
-      await onUpdateDeal(dealId, { [field]: value });
-      toast({
-        title: "Deal updated",
-        description: "Field updated successfully",
-      });
+      const result = await onUpdateDeal(dealId, { [field]: value });
+      if (!isPendingApproval(result)) {
+        toast({
+          title: "Deal updated",
+          description: "Field updated successfully",
+        });
+      }
     } catch (error) {
       toast({
         title: "Update failed",
@@ -348,6 +362,9 @@ export const ListView = ({
   };
 
   const getFieldOptions = (field: string): string[] => {
+    if (field === 'stage') {
+      return stageNames;
+    }
     if (field === 'handoff_status') {
       return ['Not Started', 'In Progress', 'Complete'];
     }
@@ -440,8 +457,8 @@ export const ListView = ({
              matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
     })
     .sort((a, b) => {
-      const aValue = a[sortBy as keyof Deal];
-      const bValue = b[sortBy as keyof Deal];
+      const aValue = getColumnValue(a, sortBy);
+      const bValue = getColumnValue(b, sortBy);
 
       // Handle null/undefined - push to end
       if (aValue == null && bValue == null) return 0;
@@ -696,6 +713,11 @@ export const ListView = ({
                             <Edit3 className="w-3 h-3 text-muted-foreground" />
                           </button>
                         </div>
+                      ) : parseCustomFieldColumn(column.field) ? (
+                        <CustomFieldCell
+                          field={getCustomField(parseCustomFieldColumn(column.field))}
+                          value={getColumnValue(deal, column.field)}
+                        />
                       ) : (
                         <InlineEditCell
                           value={deal[column.field as keyof Deal]}
@@ -706,6 +728,13 @@ export const ListView = ({
                           options={getFieldOptions(column.field)}
                           userOptions={allProfiles}
                           currencyType={deal.currency_type}
+                          secondaryValue={getFieldType(column.field) === 'currency' && (
+                            <ConvertedAmount
+                              amount={Number(deal[column.field as keyof Deal]) || 0}
+                              currency={deal.currency_type}
+                              date={getDealRateDate(deal)}
+                            />
+                          )}
                         />
                       )}
                     </TableCell>
@@ -795,6 +824,7 @@ export const ListView = ({
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSavingColumns}
+        defaultColumns={dealColumns}
       />
 
       <DeleteConfirmDialog
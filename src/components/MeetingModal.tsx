@@ -1,9 +1,10 @@
 import { useState, useEffect, useMemo, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
-import { toZonedTime, fromZonedTime } from "date-fns-tz";
+import { toZonedTime, fromZonedTime, formatInTimeZone } from "date-fns-tz";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,13 +13,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { Video, Loader2, CalendarIcon, XCircle, X, Plus, User } from "lucide-react";
+import { Video, Loader2, CalendarIcon, CalendarSearch, XCircle, X, Plus, User, Send } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Badge } from "@/components/ui/badge";
 import { MeetingOutcomeSelect } from "@/components/meetings/MeetingOutcomeSelect";
 import { MeetingConflictWarning } from "@/components/meetings/MeetingConflictWarning";
+import { MeetingSchedulingAssistant } from "@/components/meetings/MeetingSchedulingAssistant";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { getMeetingStatus } from "@/utils/meetingStatus";
+import { MeetingAttendee, MeetingInviteMethod, mergeMeetingAttendees, parseMeetingAttendees } from "@/utils/meetingInvites";
 
 
 // Comprehensive timezones (40 options, ordered by GMT offset)
@@ -291,6 +294,9 @@ interface Meeting {
   status: string;
   outcome?: string | null;
   notes?: string | null;
+  timezone?: string | null;
+  invite_method?: string | null;
+  invite_sent_at?: string | null;
 }
 interface Lead {
   id: string;
@@ -330,6 +336,8 @@ export const MeetingModal = ({
   const [leads, setLeads] = useState<Lead[]>([]);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [showParticipantsInput, setShowParticipantsInput] = useState(false);
+  const [inviteMethod, setInviteMethod] = useState<MeetingInviteMethod>('teams');
+  const [showSchedulingAssistant, setShowSchedulingAssistant] = useState(false);
 
   // State for date/time selection
   const [timezone, setTimezone] = useState(getBrowserTimezone);
@@ -531,10 +539,16 @@ export const MeetingModal = ({
           const startValid = !Number.isNaN(start.getTime());
           const endValid = !Number.isNaN(end.getTime());
 
-          const safeStartDate = startValid ? start : toZonedTime(new Date(), timezone);
+          // Show the meeting in the timezone it was scheduled in
+          const meetingTimezone = meeting.timezone && TIMEZONES.some(tz => tz.value === meeting.timezone)
+            ? meeting.timezone
+            : getBrowserTimezone();
+          setTimezone(meetingTimezone);
+
+          const safeStartDate = toZonedTime(startValid ? start : new Date(), meetingTimezone);
           setStartDate(safeStartDate);
-          setStartTime(startValid ? format(start, "HH:mm") : "09:00");
-          setEndTime(endValid ? format(end, "HH:mm") : "10:00");
+          setStartTime(startValid ? formatInTimeZone(start, meetingTimezone, "HH:mm") : "09:00");
+          setEndTime(endValid ? formatInTimeZone(end, meetingTimezone, "HH:mm") : "10:00");
 
           const durationMs = startValid && endValid ? end.getTime() - start.getTime() : 60 * 60 * 1000;
           const durationMinutes = Math.max(15, Math.round(durationMs / (1000 * 60)));
@@ -555,15 +569,11 @@ export const MeetingModal = ({
           } else if (meeting.contact_id) {
             setLinkType('contact');
           }
-          if (meeting.attendees && Array.isArray(meeting.attendees)) {
-            const existingEmails = (meeting.attendees as {
-              email: string;
-            }[]).map(a => a.email).filter(Boolean);
-            setParticipants(existingEmails);
-            if (existingEmails.length > 0) setShowParticipantsInput(true);
-          } else {
-            setParticipants([]);
-          }
+          setInviteMethod(meeting.invite_method === 'ics' ? 'ics' : 'teams');
+          // Invites list the lead/contact as an attendee too; it's picked under Related To instead
+          const existingEmails = parseMeetingAttendees(meeting.attendees).filter(a => !a.related).map(a => a.email);
+          setParticipants(existingEmails);
+          if (existingEmails.length > 0) setShowParticipantsInput(true);
         } else {
           // Default: next available 30-min slot in user's timezone
           const browserTz = getBrowserTimezone();
@@ -589,6 +599,8 @@ export const MeetingModal = ({
           setEndTime(updateEndTimeFromDuration(format(defaultStart, "HH:mm"), 30));
           setDurationMode('duration');
           setTimezone(getBrowserTimezone());
+          setInviteMethod('teams');
+          setShowSchedulingAssistant(false);
           // Set initial link type based on passed props
           if (initialContactId) {
             setLinkType('contact');
@@ -735,10 +747,19 @@ export const MeetingModal = ({
       setCreatingTeamsMeeting(false);
     }
   };
+  // Emails the calendar invite (or its cancellation) for a meeting that doesn't use Teams
+  const sendIcsInvite = async (meetingId: string, method: 'REQUEST' | 'CANCEL', removedAttendees: MeetingAttendee[] = []) => {
+    const { data, error } = await supabase.functions.invoke('send-meeting-invite', {
+      body: { meetingId, method, removedAttendees },
+    });
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data as { sent: number; failed: { email: string; error: string }[] };
+  };
   const handleSubmit = async (
     e: React.FormEvent,
     joinUrlOverride?: string | null,
-    options?: { forceInsert?: boolean; syncTeams?: boolean }
+    options?: { forceInsert?: boolean; syncTeams?: boolean; sendInvite?: boolean }
   ) => {
     e.preventDefault();
     if (!formData.subject || !startDate) {
@@ -768,16 +789,16 @@ export const MeetingModal = ({
       const joinUrl = joinUrlOverride ?? formData.join_url ?? null;
 
       // Build attendees payload for Teams update (lead/contact + external participants)
-      const attendeesPayload: { email: string; name: string }[] = [];
+      const attendeesPayload: { email: string; name: string; related?: boolean }[] = [];
       if (linkType === "lead" && formData.lead_id) {
         const lead = leads.find((l) => l.id === formData.lead_id);
         if (lead?.email) {
-          attendeesPayload.push({ email: lead.email, name: lead.lead_name });
+          attendeesPayload.push({ email: lead.email, name: lead.lead_name, related: true });
         }
       } else if (linkType === "contact" && formData.contact_id) {
         const contact = contacts.find((c) => c.id === formData.contact_id);
         if (contact?.email) {
-          attendeesPayload.push({ email: contact.email, name: contact.contact_name });
+          attendeesPayload.push({ email: contact.email, name: contact.contact_name, related: true });
         }
       }
       participants.forEach((email) => {
@@ -786,14 +807,43 @@ export const MeetingModal = ({
         }
       });
 
+      if (options?.sendInvite && attendeesPayload.length === 0) {
+        toast({
+          title: "Missing attendees",
+          description: "The selected Lead/Contact has no email address. Add a participant to send the invite to.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       const isUpdate = !!(meeting?.id && meeting.id.trim() !== "") && !options?.forceInsert;
+      const startIso = buildISODateTime(startDate, startTime);
+      const endIso = buildEndISODateTime(startDate, endTime);
+
+      // Invite attendees keep their RSVP state in the attendees JSON; Teams meetings only list participants
+      let attendees: MeetingAttendee[] | null =
+        participants.length > 0 ? participants.map((email) => ({ email, name: email.split("@")[0] })) : null;
+      let removedAttendees: MeetingAttendee[] = [];
+      if (inviteMethod === "ics") {
+        const previousAttendees = isUpdate ? parseMeetingAttendees(meeting!.attendees) : [];
+        const timeChanged = isUpdate && (
+          new Date(meeting!.start_time).getTime() !== new Date(startIso).getTime() ||
+          new Date(meeting!.end_time).getTime() !== new Date(endIso).getTime()
+        );
+        attendees = mergeMeetingAttendees(attendeesPayload, previousAttendees, timeChanged);
+        removedAttendees = previousAttendees
+          .filter((a) => !attendeesPayload.some((p) => p.email.toLowerCase() === a.email.toLowerCase()))
+          .map(({ email, name }) => ({ email, name }));
+      }
 
       const meetingData = {
         subject: formData.subject,
         description: formData.description || null,
-        start_time: buildISODateTime(startDate, startTime),
-        end_time: buildEndISODateTime(startDate, endTime),
+        start_time: startIso,
+        end_time: endIso,
+        timezone,
         join_url: joinUrl,
+        invite_method: inviteMethod === "ics" ? "ics" : joinUrl ? "teams" : null,
         lead_id:
           linkType === "lead" && formData.lead_id && formData.lead_id.trim() !== ""
             ? formData.lead_id
@@ -802,10 +852,7 @@ export const MeetingModal = ({
           linkType === "contact" && formData.contact_id && formData.contact_id.trim() !== ""
             ? formData.contact_id
             : null,
-        attendees:
-          participants.length > 0
-            ? participants.map((email) => ({ email, name: email.split("@")[0] }))
-            : null,
+        attendees: attendees as unknown as Json,
         status: options?.forceInsert ? "scheduled" : formData.status,
         outcome: formData.outcome || null,
       };
@@ -817,7 +864,7 @@ export const MeetingModal = ({
             meetingId: meeting!.id,
             joinUrl,
             subject: meetingData.subject,
-            attendees: attendeesPayload,
+            attendees: attendeesPayload.map(({ email, name }) => ({ email, name })),
             startTime: meetingData.start_time,
             endTime: meetingData.end_time,
             timezone,
@@ -827,19 +874,49 @@ export const MeetingModal = ({
         if (teamsError) throw teamsError;
       }
 
+      let savedMeetingId = meeting?.id;
       if (isUpdate) {
         const { error } = await supabase
           .from("meetings")
           .update(meetingData)
           .eq("id", meeting!.id);
         if (error) throw error;
-        toast({ title: "Success", description: "Meeting saved" });
+        if (!options?.sendInvite) toast({ title: "Success", description: "Meeting saved" });
       } else {
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from("meetings")
-          .insert([{ ...meetingData, created_by: user?.id }]);
+          .insert([{ ...meetingData, created_by: user?.id }])
+          .select("id")
+          .single();
         if (error) throw error;
-        toast({ title: "Success", description: "Meeting created" });
+        savedMeetingId = created.id;
+        if (!options?.sendInvite) toast({ title: "Success", description: "Meeting created" });
+      }
+
+      if (options?.sendInvite && savedMeetingId) {
+        // The meeting is saved either way; a failed send can be retried with Send Update
+        try {
+          const result = await sendIcsInvite(savedMeetingId, "REQUEST", removedAttendees);
+          if (result.failed.length > 0) {
+            toast({
+              title: result.sent > 0 ? "Some invites not sent" : "Invite not sent",
+              description: `${result.failed.map((f) => f.email).join(", ")}: ${result.failed[0].error}`,
+              variant: "destructive",
+            });
+          } else {
+            toast({
+              title: isUpdate ? "Update Sent" : "Invite Sent",
+              description: `Calendar invite sent to ${result.sent} attendee${result.sent === 1 ? "" : "s"}`,
+            });
+          }
+        } catch (inviteError) {
+          console.error("Error sending meeting invite:", inviteError);
+          toast({
+            title: "Meeting saved, invite not sent",
+            description: inviteError instanceof Error ? inviteError.message : "Failed to send the calendar invite",
+            variant: "destructive",
+          });
+        }
       }
 
       onSuccess();
@@ -856,6 +933,10 @@ export const MeetingModal = ({
     }
   };
   const handleCancelMeeting = async () => {
+    if (meeting?.id && meeting.invite_method === 'ics') {
+      await handleCancelIcsMeeting(meeting.id, !!meeting.invite_sent_at);
+      return;
+    }
     if (!meeting?.id || !meeting?.join_url) {
       toast({
         title: "Cannot cancel",
@@ -899,6 +980,40 @@ export const MeetingModal = ({
       setCancellingMeeting(false);
     }
   };
+  const handleCancelIcsMeeting = async (meetingId: string, inviteSent: boolean) => {
+    setCancellingMeeting(true);
+    try {
+      const { error } = await supabase.from('meetings').update({
+        status: 'cancelled'
+      }).eq('id', meetingId);
+      if (error) throw error;
+
+      const result = inviteSent ? await sendIcsInvite(meetingId, 'CANCEL') : null;
+      if (result && result.failed.length > 0) {
+        toast({
+          title: "Meeting Cancelled",
+          description: `The cancellation could not be sent to ${result.failed.map(f => f.email).join(", ")}`,
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Meeting Cancelled",
+          description: inviteSent ? "Attendees have been sent a cancellation" : "The meeting has been cancelled"
+        });
+      }
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error cancelling meeting:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel meeting",
+        variant: "destructive"
+      });
+    } finally {
+      setCancellingMeeting(false);
+    }
+  };
   const formatDisplayTime = (time: string) => {
     const [h, m] = time.split(":");
     const hour = parseInt(h);
@@ -919,14 +1034,25 @@ export const MeetingModal = ({
       });
     }
   };
+  // A slot picked in the scheduling assistant keeps the chosen duration
+  const handleSlotSelected = (start: Date) => {
+    setStartDate(toZonedTime(start, timezone));
+    handleStartTimeChange(formatInTimeZone(start, timezone, "HH:mm"));
+  };
+  const addParticipantEmail = (email: string) => {
+    setParticipants(prev => prev.includes(email) ? prev : [...prev, email]);
+    setShowParticipantsInput(true);
+  };
   const selectedTimezone = TIMEZONES.find(tz => tz.value === timezone);
 
   const isPersistedMeeting = !!(meeting?.id && meeting.id.trim() !== "");
   const effectiveStatus = meeting ? getMeetingStatus(meeting) : "scheduled";
   const canCancel =
     isPersistedMeeting &&
-    !!meeting?.join_url &&
+    (!!meeting?.join_url || meeting?.invite_method === "ics") &&
     (effectiveStatus === "scheduled" || effectiveStatus === "ongoing");
+  // Once invites have gone out, attendees' calendars can only be updated the same way
+  const inviteMethodLocked = isPersistedMeeting && !!(meeting?.invite_sent_at || meeting?.invite_method === "teams" || (meeting?.join_url && !meeting?.invite_method));
 
   return <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-lg p-5">
@@ -1072,6 +1198,15 @@ export const MeetingModal = ({
             </div>
           </div>
 
+          {/* Scheduling Assistant - Collapsible */}
+          <div className="flex justify-end -mt-2">
+            <Button type="button" variant="ghost" size="sm" className="h-5 px-1.5 text-xs gap-1 text-muted-foreground hover:text-foreground" onClick={() => setShowSchedulingAssistant(!showSchedulingAssistant)}>
+              <CalendarSearch className="h-3 w-3" />
+              {showSchedulingAssistant ? "Hide Availability" : "Find a Time"}
+            </Button>
+          </div>
+          {showSchedulingAssistant && <MeetingSchedulingAssistant date={startDate} timezone={timezone} durationMinutes={parseInt(duration) || 30} participantEmails={participants} proposedStart={proposedStartTime} proposedEnd={proposedEndTime} excludeMeetingId={meeting?.id} onSelectSlot={handleSlotSelected} onAddParticipant={addParticipantEmail} />}
+
           {/* Conflict Warning */}
           {proposedStartTime && proposedEndTime && <MeetingConflictWarning startTime={proposedStartTime} endTime={proposedEndTime} excludeMeetingId={meeting?.id} />}
 
@@ -1163,6 +1298,32 @@ export const MeetingModal = ({
                 </div>}
             </div>}
 
+          {/* Invite method: Teams creates the online meeting and invites through Outlook;
+              a calendar invite emails an .ics file with RSVP links to every attendee */}
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium">Send Invite Via</Label>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center bg-muted rounded p-0.5 shrink-0">
+                <Button type="button" variant={inviteMethod === 'teams' ? 'secondary' : 'ghost'} size="sm" disabled={inviteMethodLocked} onClick={() => {
+                setInviteMethod('teams');
+                setFormData(prev => ({
+                  ...prev,
+                  join_url: meeting?.join_url || ''
+                }));
+              }} className="h-6 px-2.5 text-xs">
+                  Teams
+                </Button>
+                <Button type="button" variant={inviteMethod === 'ics' ? 'secondary' : 'ghost'} size="sm" disabled={inviteMethodLocked} onClick={() => setInviteMethod('ics')} className="h-6 px-2.5 text-xs">
+                  Calendar Invite
+                </Button>
+              </div>
+              {inviteMethod === 'ics' && <Input value={formData.join_url} onChange={e => setFormData(prev => ({
+              ...prev,
+              join_url: e.target.value
+            }))} placeholder="Meeting link or location (optional)" className="h-8 text-xs" />}
+            </div>
+          </div>
+
           {/* Description */}
           <div className="space-y-1.5">
             <Label htmlFor="description" className="text-xs font-medium">Agenda</Label>
@@ -1187,7 +1348,7 @@ export const MeetingModal = ({
                 </Button>}
             </div>
             <div className="flex gap-2">
-              {formData.join_url && (
+              {/^https?:\/\//i.test(formData.join_url) && (
                 <Button
                   type="button"
                   variant="outline"
@@ -1226,6 +1387,13 @@ export const MeetingModal = ({
                 return;
               }
 
+              // Calendar invite: save, then email the invite (a cancelled meeting is re-created as a new one)
+              if (inviteMethod === 'ics') {
+                const fakeEvent = { preventDefault: () => {} } as React.FormEvent;
+                await handleSubmit(fakeEvent, formData.join_url.trim() || null, { forceInsert: isCancelled, sendInvite: true });
+                return;
+              }
+
               let joinUrl = formData.join_url;
               let forceInsert = false;
               let syncTeams = false;
@@ -1244,8 +1412,8 @@ export const MeetingModal = ({
               const fakeEvent = { preventDefault: () => {} } as React.FormEvent;
               await handleSubmit(fakeEvent, joinUrl, { forceInsert, syncTeams });
             }}>
-                {loading || creatingTeamsMeeting ? <Loader2 className="h-3 w-3 animate-spin" /> : <Video className="h-3 w-3" />}
-                {loading ? "Saving..." : creatingTeamsMeeting ? "Creating..." : effectiveStatus === "completed" ? "Save" : effectiveStatus === "cancelled" || !formData.join_url ? "Create Meeting" : "Send"}
+                {loading || creatingTeamsMeeting ? <Loader2 className="h-3 w-3 animate-spin" /> : inviteMethod === 'ics' ? <Send className="h-3 w-3" /> : <Video className="h-3 w-3" />}
+                {loading ? "Saving..." : creatingTeamsMeeting ? "Creating..." : effectiveStatus === "completed" ? "Save" : inviteMethod === 'ics' ? (meeting?.invite_sent_at && effectiveStatus !== "cancelled" ? "Send Update" : "Send Invite") : effectiveStatus === "cancelled" || !formData.join_url ? "Create Meeting" : "Send"}
               </Button>
             </div>
           </div>
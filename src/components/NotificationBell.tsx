@@ -77,6 +77,10 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
       navigate('/deals');
     } else if (notification.notification_type === 'lead_update') {
       navigate('/leads');
+    } else if (notification.notification_type === 'backup_failed') {
+      navigate('/settings?tab=admin&section=backup');
+    } else if (notification.notification_type === 'meeting_response' || notification.notification_type === 'meeting_booked') {
+      navigate('/meetings');
     } else {
       // Default navigation
       navigate('/dashboard');
@@ -103,6 +107,8 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
         return '👤';
       case 'deal_update':
         return '💼';
+      case 'backup_failed':
+        return '💾';
       default:
         return '🔔';
     }
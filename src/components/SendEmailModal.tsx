@@ -7,8 +7,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Paperclip, X, FileIcon } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Mail, Send, Loader2, Paperclip, X, FileIcon, AlertTriangle, Clock, Ban } from "lucide-react";
 import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { ScheduleSendFields } from "@/components/email/ScheduleSendFields";
+import { defaultSchedule, formatScheduledTime, ScheduleValue, scheduleToDate, validateSchedule } from "@/utils/scheduledSend";
+import { renderEmail, TemplateContext } from "@/utils/emailTemplateEngine";
+import { fetchRecordContexts, fetchSenderContext, nameContext, recordKey, TemplateRecordRef } from "@/utils/emailTemplateContext";
+import { fetchSuppressions, SUPPRESSION_REASON_LABELS, SuppressionReason } from "@/utils/emailSuppressions";
 
 // Generic recipient interface that works with contacts, leads, and accounts
 export interface EmailRecipient {
@@ -51,7 +57,12 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
   const [body, setBody] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
+  const [unresolvedVariables, setUnresolvedVariables] = useState<string[]>([]);
+  const [scheduleEnabled, setScheduleEnabled] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleValue>(() => defaultSchedule());
+  const [suppression, setSuppression] = useState<SuppressionReason | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const templateContextRef = useRef<Promise<TemplateContext> | null>(null);
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
 
@@ -70,9 +81,29 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       setSubject("");
       setBody("");
       setAttachments([]);
+      setUnresolvedVariables([]);
+      setScheduleEnabled(false);
+      setSchedule(defaultSchedule());
+      templateContextRef.current = null;
     }
   }, [open]);
 
+  // send-email refuses suppressed addresses, so say so before anything is written
+  useEffect(() => {
+    setSuppression(null);
+    if (!open || !emailRecipient?.email) return;
+
+    let cancelled = false;
+    fetchSuppressions([emailRecipient.email])
+      .then(suppressed => {
+        if (!cancelled) setSuppression(suppressed.values().next().value ?? null);
+      })
+      .catch(error => console.error('Error checking suppression list:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, emailRecipient?.email]);
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files) {
@@ -137,30 +168,53 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
   };
 
-  const replaceVariables = (text: string, recipientData: EmailRecipient | null) => {
-    if (!recipientData) return text;
-    
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipientData.name || '')
-      .replace(/\{\{name\}\}/g, recipientData.name || '')
-      .replace(/\{\{company_name\}\}/g, recipientData.company_name || '')
-      .replace(/\{\{position\}\}/g, recipientData.position || '')
-      .replace(/\{\{email\}\}/g, recipientData.email || '');
+  // Loaded once per open; the linked record supplies account, deal and sender values
+  const loadTemplateContext = () => {
+    if (!templateContextRef.current) {
+      const record: TemplateRecordRef | null = contactId ? { type: 'contact', id: contactId }
+        : leadId ? { type: 'lead', id: leadId }
+        : accountId ? { type: 'account', id: accountId }
+        : null;
+
+      const baseContext: TemplateContext = {
+        ...nameContext(emailRecipient?.name, emailRecipient?.email),
+        company_name: emailRecipient?.company_name,
+        position: emailRecipient?.position,
+      };
+
+      templateContextRef.current = Promise.all([
+        record ? fetchRecordContexts([record]) : Promise.resolve({} as Record<string, TemplateContext>),
+        fetchSenderContext(user?.id, senderEmail),
+      ])
+        .then(([records, sender]) => ({
+          ...baseContext,
+          ...(record ? records[recordKey(record)] : {}),
+          ...sender,
+        }))
+        .catch((error) => {
+          console.error('Error loading template variables:', error);
+          return baseContext;
+        });
+    }
+    return templateContextRef.current;
   };
 
-  const handleTemplateSelect = (templateId: string) => {
+  const handleTemplateSelect = async (templateId: string) => {
     setSelectedTemplate(templateId);
     
     if (templateId === "none") {
       setSubject("");
       setBody("");
+      setUnresolvedVariables([]);
       return;
     }
 
     const template = templates.find(t => t.id === templateId);
     if (template) {
-      setSubject(replaceVariables(template.subject, emailRecipient));
-      setBody(replaceVariables(template.body, emailRecipient));
+      const rendered = renderEmail(template.subject, template.body, await loadTemplateContext());
+      setSubject(rendered.subject);
+      setBody(rendered.body);
+      setUnresolvedVariables(rendered.unresolved);
     }
   };
 
@@ -183,6 +237,16 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       return;
     }
 
+    const scheduleProblem = scheduleEnabled ? validateSchedule(schedule) : null;
+    if (scheduleProblem) {
+      toast({
+        title: "Check the send time",
+        description: scheduleProblem,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSending(true);
 
     try {
@@ -195,16 +259,46 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
         }))
       );
 
+      // Variables typed into the message after choosing a template are rendered too
+      const rendered = renderEmail(subject.trim(), body.trim(), await loadTemplateContext());
+
       // Determine entity type and id
       const entityType = contactId ? 'contact' : leadId ? 'lead' : accountId ? 'account' : undefined;
       const entityId = contactId || leadId || accountId || undefined;
 
+      if (scheduleEnabled) {
+        const scheduledAt = scheduleToDate(schedule)!.toISOString();
+        const { error } = await supabase.from('scheduled_emails').insert({
+          recipient_email: emailRecipient.email,
+          recipient_name: emailRecipient.name,
+          sender_email: senderEmail,
+          subject: rendered.subject,
+          body: rendered.body,
+          attachments: attachmentData,
+          entity_type: entityType,
+          entity_id: entityId,
+          scheduled_at: scheduledAt,
+          timezone: schedule.timezone,
+          created_by: user?.id,
+        });
+
+        if (error) throw error;
+
+        toast({
+          title: "Email Scheduled",
+          description: `Email to ${emailRecipient.name} will be sent ${formatScheduledTime(scheduledAt, schedule.timezone)}`,
+        });
+
+        onOpenChange(false);
+        return;
+      }
+
       const { data, error } = await supabase.functions.invoke('send-email', {
         body: {
           to: emailRecipient.email,
           toName: emailRecipient.name,
-          subject: subject.trim(),
-          body: body.trim(),
+          subject: rendered.subject,
+          body: rendered.body,
           from: senderEmail,
           attachments: attachmentData,
           entityType,
@@ -275,6 +369,18 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             </div>
           </div>
 
+          {suppression && (
+            <div className="flex items-start gap-2 p-3 rounded-lg border border-destructive/30 bg-destructive/5 text-sm">
+              <Ban className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">This address is on the suppression list ({SUPPRESSION_REASON_LABELS[suppression].toLowerCase()})</p>
+                <p className="text-xs text-muted-foreground">
+                  Emails to it are blocked. An admin or manager can remove it under Settings → Email Center → Suppressions.
+                </p>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="template">Email Template</Label>
             <Select value={selectedTemplate} onValueChange={handleTemplateSelect}>
@@ -314,6 +420,12 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
               onChange={setBody}
               placeholder="Email message..."
             />
+            {unresolvedVariables.length > 0 && (
+              <p className="flex items-center gap-1.5 text-xs text-amber-600">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                No value for {unresolvedVariables.map(v => `{{${v}}}`).join(', ')}; left blank.
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -371,19 +483,32 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             )}
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch id="schedule-send" checked={scheduleEnabled} onCheckedChange={setScheduleEnabled} />
+              <Label htmlFor="schedule-send">Schedule for later</Label>
+            </div>
+            {scheduleEnabled && <ScheduleSendFields value={schedule} onChange={setSchedule} disabled={isSending} />}
+          </div>
+
           <div className="flex justify-end gap-2 pt-4">
             <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
               Cancel
             </Button>
             <Button 
               onClick={handleSendEmail} 
-              disabled={!emailRecipient?.email || isSending}
+              disabled={!emailRecipient?.email || isSending || !!suppression}
               className="gap-2"
             >
               {isSending ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Sending...
+                  {scheduleEnabled ? "Scheduling..." : "Sending..."}
+                </>
+              ) : scheduleEnabled ? (
+                <>
+                  <Clock className="h-4 w-4" />
+                  Schedule Email
                 </>
               ) : (
                 <>
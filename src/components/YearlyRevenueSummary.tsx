@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TrendingUp, Target, Euro, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
+import { TrendingUp, Target, Wallet, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
 import { NotificationBell } from "@/components/NotificationBell";
 import { useYearlyRevenueData, useAvailableYears } from "@/hooks/useYearlyRevenueData";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { getCurrencySymbol } from "@/utils/formatUtils";
 interface YearlyRevenueSummaryProps {
   selectedYear?: number;
 }
@@ -39,12 +41,15 @@ const YearlyRevenueSummary = ({
     revenueData,
     isLoading: dataLoading
   } = useYearlyRevenueData(selectedYear);
+  const {
+    reportingCurrency
+  } = useExchangeRates();
   const [editingTarget, setEditingTarget] = useState(false);
   const [targetValue, setTargetValue] = useState('');
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: revenueData?.currency || reportingCurrency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
@@ -61,6 +66,7 @@ const YearlyRevenueSummary = ({
       } = await supabase.from('yearly_revenue_targets').upsert({
         year: selectedYear,
         total_target: Number(targetValue),
+        currency: reportingCurrency,
         created_by: user.id
       }, {
         onConflict: 'year'
@@ -128,6 +134,11 @@ const YearlyRevenueSummary = ({
   const totalCombined = (revenueData?.totalActual || 0) + (revenueData?.totalProjected || 0);
   const progressPercentage = getProgressPercentage(revenueData?.totalActual || 0, revenueData?.target || 0);
   return <div className="space-y-6">
+      {!!revenueData?.unconvertedDeals && <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/30 dark:text-amber-300">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {revenueData.unconvertedDeals} deal(s) are left out of these totals because no exchange rate converts their currency to {revenueData.currency}. Add the rate in Settings.
+        </div>}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="hover-scale">
@@ -153,7 +164,7 @@ const YearlyRevenueSummary = ({
           <CardContent>
             {editingTarget ? (
               <div className="flex items-center gap-1">
-                <span className="text-lg font-semibold">€</span>
+                <span className="text-lg font-semibold">{getCurrencySymbol(reportingCurrency)}</span>
                 <Input 
                   value={targetValue ? Number(targetValue).toLocaleString('en-US') : ''} 
                   onChange={e => {
@@ -176,7 +187,7 @@ const YearlyRevenueSummary = ({
         <Card className="hover-scale cursor-pointer" onClick={() => handleCardClick('actual')}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Actual Revenue</CardTitle>
-            <Euro className="w-4 h-4 text-green-600" />
+            <Wallet className="w-4 h-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
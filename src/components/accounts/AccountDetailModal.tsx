@@ -12,6 +12,7 @@ import { RelatedTasksSection } from "@/components/shared/RelatedTasksSection";
 import { Task } from "@/types/task";
 import { Building2, Globe, Phone, MapPin, Factory, Clock, Plus, ExternalLink, Mail, Pencil, ListTodo, History, Link2, Activity, User, UserPlus, Briefcase, Calendar, Loader2 } from "lucide-react";
 import { RecordChangeHistory } from "@/components/shared/RecordChangeHistory";
+import { EntityEmailHistory } from "@/components/shared/EntityEmailHistory";
 import { format } from "date-fns";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { AccountActivityTimeline } from "./AccountActivityTimeline";
@@ -302,7 +303,7 @@ export const AccountDetailModal = ({
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-5">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="overview" className="flex items-center gap-1">
                 <Building2 className="h-4 w-4" />
                 Overview
@@ -315,6 +316,10 @@ export const AccountDetailModal = ({
                 <ListTodo className="h-4 w-4" />
                 Tasks
               </TabsTrigger>
+              <TabsTrigger value="emails" className="flex items-center gap-1">
+                <Mail className="h-4 w-4" />
+                Emails
+              </TabsTrigger>
               <TabsTrigger value="activity" className="flex items-center gap-1">
                 <Activity className="h-4 w-4" />
                 Activity
@@ -510,12 +515,16 @@ export const AccountDetailModal = ({
               <RelatedTasksSection moduleType="accounts" recordId={account.id} recordName={account.company_name} refreshToken={tasksRefreshToken} onRequestCreateTask={handleRequestCreateTask} onRequestEditTask={handleRequestEditTask} />
             </TabsContent>
 
+            <TabsContent value="emails" className="mt-4">
+              <EntityEmailHistory entityType="account" entityId={account.id} />
+            </TabsContent>
+
             <TabsContent value="activity" className="mt-4" forceMount hidden={activeTab !== 'activity'}>
               <AccountActivityTimeline key={refreshKey} accountId={account.id} onAddActivity={() => setShowActivityLog(true)} />
             </TabsContent>
 
             <TabsContent value="history" className="mt-4" forceMount hidden={activeTab !== 'history'}>
-              <RecordChangeHistory entityType="accounts" entityId={account.id} maxHeight="400px" />
+              <RecordChangeHistory entityType="accounts" entityId={account.id} maxHeight="400px" onRestored={onUpdate} />
             </TabsContent>
           </Tabs>
         </DialogContent>
@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+
+interface ApprovalActionDialogProps {
+  open: boolean;
+  action: 'approved' | 'rejected';
+  recordName: string;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (comments: string) => Promise<void>;
+}
+
+export const ApprovalActionDialog = ({
+  open,
+  action,
+  recordName,
+  onOpenChange,
+  onConfirm,
+}: ApprovalActionDialogProps) => {
+  const [comments, setComments] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const isReject = action === 'rejected';
+
+  useEffect(() => {
+    if (open) setComments('');
+  }, [open]);
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      await onConfirm(comments.trim());
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open so the user can retry
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isReject ? 'Reject Change' : 'Approve Change'}</DialogTitle>
+          <DialogDescription>
+            {isReject
+              ? `The proposed change to ${recordName} will be discarded.`
+              : `Approve this step for ${recordName}. The change is applied once every step approves.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="approval-comments">Comments{isReject ? ' *' : ''}</Label>
+          <Textarea
+            id="approval-comments"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            placeholder={isReject ? 'Explain why this change is rejected' : 'Optional comments'}
+            rows={3}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button
+            variant={isReject ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={submitting || (isReject && !comments.trim())}
+          >
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isReject ? 'Reject' : 'Approve'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
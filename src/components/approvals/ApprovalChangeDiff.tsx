@@ -0,0 +1,57 @@
+import { ArrowRight } from 'lucide-react';
+
+interface ApprovalChangeDiffProps {
+  proposedChanges: Record<string, unknown>;
+  previousValues?: Record<string, unknown> | null;
+}
+
+// Bookkeeping fields that change on every save and add noise to the diff
+const hiddenFields = ['modified_at', 'modified_by', 'modified_time', 'updated_at'];
+
+const formatFieldName = (field: string): string => {
+  return field
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '(empty)';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+export const ApprovalChangeDiff = ({ proposedChanges, previousValues }: ApprovalChangeDiffProps) => {
+  const fields = Object.keys(proposedChanges).filter(field => !hiddenFields.includes(field));
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <div className="rounded-md border divide-y text-sm">
+      {fields.map(field => (
+        <div key={field} className="grid grid-cols-[160px_1fr] gap-2 px-3 py-2">
+          <span className="font-medium text-muted-foreground">{formatFieldName(field)}</span>
+          <div className="flex items-center gap-2 flex-wrap min-w-0">
+            <span className="line-through text-muted-foreground break-all">
+              {formatValue(previousValues?.[field])}
+            </span>
+            <ArrowRight className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+            <span className="font-medium break-all">{formatValue(proposedChanges[field])}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import { CheckCircle2, XCircle, Clock, Loader2, GitBranch } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { useRecordApprovalHistory, ApprovalRequest } from '@/hooks/useApprovalRequests';
+import { getStepRoleLabel } from '@/utils/approvalEngine';
+import { getApprovalStatusColor } from '@/utils/statusBadgeUtils';
+import { ApprovalChangeDiff } from './ApprovalChangeDiff';
+
+interface ApprovalHistoryPanelProps {
+  entityType: 'deals' | 'leads' | 'accounts';
+  entityId: string;
+  maxHeight?: string;
+}
+
+const formatTimestamp = (value?: string | null) =>
+  value ? format(new Date(value), 'dd MMM yyyy, HH:mm') : '-';
+
+const RequestSteps = ({ request, displayNames }: { request: ApprovalRequest; displayNames: Record<string, string> }) => {
+  const steps = request.workflow?.approval_steps || [];
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step, index) => {
+        const stepNumber = index + 1;
+        const action = request.actions.find(a => a.step_number === stepNumber);
+        const isCurrent = request.status === 'pending' && (request.current_step || 1) === stepNumber;
+
+        return (
+          <li key={stepNumber} className="flex items-start gap-2 text-sm">
+            {action?.action === 'approved' ? (
+              <CheckCircle2 className="h-4 w-4 text-emerald-600 mt-0.5 flex-shrink-0" />
+            ) : action?.action === 'rejected' ? (
+              <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+            ) : (
+              <Clock className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isCurrent ? 'text-amber-600' : 'text-muted-foreground/50'}`} />
+            )}
+            <div className="min-w-0">
+              <p>
+                <span className="font-medium">Step {stepNumber}</span>
+                <span className="text-muted-foreground"> · {getStepRoleLabel(step)}</span>
+              </p>
+              {action ? (
+                <p className="text-xs text-muted-foreground">
+                  {action.action === 'approved' ? 'Approved' : 'Rejected'} by {displayNames[action.approver_id] || 'Unknown User'} on {formatTimestamp(action.acted_at)}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {isCurrent ? 'Awaiting approval' : request.status === 'pending' ? 'Not started' : 'Skipped'}
+                </p>
+              )}
+              {action?.comments && (
+                <p className="text-xs mt-1 italic">"{action.comments}"</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export const ApprovalHistoryPanel = ({ entityType, entityId, maxHeight = '400px' }: ApprovalHistoryPanelProps) => {
+  const { requests, loading } = useRecordApprovalHistory(entityType, entityId);
+
+  const userIds = requests.flatMap(r => [r.submitted_by, ...r.actions.map(a => a.approver_id)]).filter(Boolean) as string[];
+  const { displayNames } = useUserDisplayNames(userIds);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <GitBranch className="h-10 w-10 mx-auto mb-3 opacity-50" />
+        <p className="text-sm">No approval requests for this record</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea style={{ maxHeight }} className="pr-2">
+      <div className="space-y-3">
+        {requests.map(request => (
+          <div key={request.id} className="rounded-lg border p-3 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium text-sm">{request.workflow?.name || 'Approval request'}</p>
+                <p className="text-xs text-muted-foreground">
+                  Submitted by {request.submitted_by ? displayNames[request.submitted_by] || 'Unknown User' : 'Unknown User'} on {formatTimestamp(request.submitted_at)}
+                </p>
+              </div>
+              <Badge variant="outline" className={`capitalize ${getApprovalStatusColor(request.status)}`}>
+                {request.status || 'pending'}
+              </Badge>
+            </div>
+            <ApprovalChangeDiff
+              proposedChanges={request.proposed_changes}
+              previousValues={request.previous_values}
+            />
+            <RequestSteps request={request} displayNames={displayNames} />
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
@@ -13,6 +13,7 @@ import { ContactEmailTracking } from './ContactEmailTracking';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
 import { RelatedTasksSection } from '@/components/shared/RelatedTasksSection';
+import { ScoreBreakdownCard } from '@/components/shared/ScoreBreakdownCard';
 import { SendEmailModal } from '@/components/SendEmailModal';
 import { AccountDetailModalById } from '@/components/accounts/AccountDetailModalById';
 import { MeetingModal } from '@/components/MeetingModal';
@@ -298,6 +299,8 @@ export const ContactDetailModal = ({
                 </div>
               </div>
 
+              <ScoreBreakdownCard entity="contact" recordId={contact.id} />
+
               {contact.description && <>
                   <Separator />
                   <div>
@@ -433,7 +436,7 @@ export const ContactDetailModal = ({
             </TabsContent>
 
             <TabsContent value="history" className="mt-4">
-              <RecordChangeHistory entityType="contacts" entityId={contact.id} maxHeight="400px" />
+              <RecordChangeHistory entityType="contacts" entityId={contact.id} maxHeight="400px" onRestored={onUpdate} />
             </TabsContent>
           </Tabs>
         </DialogContent>
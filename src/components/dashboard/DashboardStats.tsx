@@ -1,16 +1,28 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, Users, Euro } from "lucide-react";
+import { BarChart3, Users, Wallet } from "lucide-react";
 import { Deal } from "@/types/deal";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getDealRateDate } from "@/utils/currencyConversion";
+import { formatCurrency } from "@/utils/formatUtils";
 
 interface DashboardStatsProps {
   deals: Deal[];
 }
 
 export const DashboardStats = ({ deals }: DashboardStatsProps) => {
+  const { reportingCurrency, convert } = useExchangeRates();
+  const { isWonStage } = usePipelineStages();
   const totalDeals = deals.length;
-  const totalValue = deals.reduce((sum, deal) => sum + (deal.total_contract_value || 0), 0);
-  const wonDeals = deals.filter(deal => deal.stage === 'Won').length;
+  let unconverted = 0;
+  const totalValue = deals.reduce((sum, deal) => {
+    if (!deal.total_contract_value) return sum;
+    const value = convert(deal.total_contract_value, deal.currency_type, getDealRateDate(deal));
+    if (value === null) unconverted++;
+    return sum + (value ?? 0);
+  }, 0);
+  const wonDeals = deals.filter(deal => isWonStage(deal.stage)).length;
 
   return (
     <div className="w-full px-6 py-6">
@@ -28,12 +40,17 @@ export const DashboardStats = ({ deals }: DashboardStatsProps) => {
         <Card className="animate-fade-in hover-scale">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Total Value</CardTitle>
-            <Euro className="w-4 h-4 text-muted-foreground" />
+            <Wallet className="w-4 h-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              €{totalValue.toLocaleString()}
+              {formatCurrency(totalValue, reportingCurrency)}
             </div>
+            {unconverted > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Excludes {unconverted} deal(s) with no exchange rate to {reportingCurrency}
+              </p>
+            )}
           </CardContent>
         </Card>
         
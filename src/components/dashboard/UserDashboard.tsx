@@ -25,6 +25,9 @@ import { LeadModal } from "@/components/LeadModal";
 import { ContactModal } from "@/components/ContactModal";
 import { AccountModal } from "@/components/AccountModal";
 import { useTasks } from "@/hooks/useTasks";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { getDealRateDate } from "@/utils/currencyConversion";
 import { Task } from "@/types/task";
 import { EmptyState } from "@/components/shared/EmptyState";
 import { GlobalSearch } from "@/components/shared/GlobalSearch";
@@ -206,22 +209,9 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
     ...QUERY_OPTIONS,
   });
 
-  // Fetch user preferences for currency
-  const { data: userPreferences } = useQuery({
-    queryKey: ['user-preferences', user?.id],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const { data, error } = await supabase
-        .from('user_preferences')
-        .select('currency')
-        .eq('user_id', user.id)
-        .maybeSingle();
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user?.id,
-    ...QUERY_OPTIONS,
-  });
+  // Deal values are summed in the user's currency preference
+  const { rates, reportingCurrency: userCurrency, convert, isLoading: ratesLoading } = useExchangeRates();
+  const { stages, isWonStage, isLostStage, isFinalStage, loading: stagesLoading } = usePipelineStages();
 
   const { data: dashboardPrefs } = useQuery({
     queryKey: ['dashboard-prefs', user?.id],
@@ -501,32 +491,35 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Deals data - enhanced with stages RFQ, Offered, Won, Lost
   const { data: dealsData, isLoading: dealsLoading } = useQuery({
-    queryKey: ['user-deals-enhanced', user?.id],
+    queryKey: ['user-deals-enhanced', user?.id, userCurrency, rates, stages],
     queryFn: async () => {
-      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, deal_name, created_by, lead_owner, expected_closing_date');
+      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, currency_type, deal_name, created_by, lead_owner, expected_closing_date, signed_contract_date');
       if (error) throw error;
       const userDeals = (data || []).filter(d => d.created_by === user?.id || d.lead_owner === user?.id);
-      const activeDeals = userDeals.filter(d => !['Won', 'Lost', 'Dropped'].includes(d.stage));
-      const wonDeals = userDeals.filter(d => d.stage === 'Won');
-      const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
-      const wonValue = wonDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
+      const activeDeals = userDeals.filter(d => !isFinalStage(d.stage));
+      const wonDeals = userDeals.filter(d => isWonStage(d.stage));
+      const lostDeals = userDeals.filter(d => isLostStage(d.stage));
+      const toReporting = (d: typeof userDeals[number]) =>
+        convert(d.total_contract_value || 0, d.currency_type, getDealRateDate(d)) ?? 0;
+      const totalPipeline = activeDeals.reduce((sum, d) => sum + toReporting(d), 0);
+      const wonValue = wonDeals.reduce((sum, d) => sum + toReporting(d), 0);
       
       return {
         total: userDeals.length,
         active: activeDeals.length,
         won: wonDeals.length,
-        lost: userDeals.filter(d => d.stage === 'Lost').length,
+        lost: lostDeals.length,
         totalPipeline,
         wonValue,
         byStage: {
           rfq: userDeals.filter(d => d.stage === 'RFQ').length,
           offered: userDeals.filter(d => d.stage === 'Offered').length,
           won: wonDeals.length,
-          lost: userDeals.filter(d => d.stage === 'Lost').length,
+          lost: lostDeals.length,
         }
       };
     },
-    enabled: !!user?.id,
+    enabled: !!user?.id && !ratesLoading && !stagesLoading,
     ...QUERY_OPTIONS,
   });
 
@@ -884,8 +877,6 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
     enabled: !!user?.id && !!userProfiles
   });
 
-  const userCurrency = userPreferences?.currency || 'INR';
-  
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -895,7 +886,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
     }).format(amount);
   };
 
-  const isLoading = leadsLoading || contactsLoading || dealsLoading || accountsLoading;
+  const isLoading = leadsLoading || contactsLoading || dealsLoading || ratesLoading || accountsLoading;
 
   if (isLoading) {
     return (
@@ -1919,8 +1910,8 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
         onOpenChange={(open) => { setTaskModalOpen(open); if (!open) setSelectedTask(null); }}
         task={selectedTask}
         onSubmit={createTask}
-        onUpdate={async (taskId, updates, original) => {
-          const result = await updateTask(taskId, updates, original);
+        onUpdate={async (taskId, updates, original, scope) => {
+          const result = await updateTask(taskId, updates, original, scope);
           if (result) queryClient.invalidateQueries({ queryKey: ['user-task-reminders-enhanced', user?.id] });
           return result;
         }}
@@ -0,0 +1,44 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Deal } from "@/types/deal";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { toCustomFieldColumn } from "@/utils/customFieldUtils";
+import { FormFieldRenderer } from "./FormFieldRenderer";
+
+interface CustomFieldsStageFormProps {
+  formData: Partial<Deal>;
+  onFieldChange: (field: string, value: unknown) => void;
+  fieldErrors: Record<string, string>;
+}
+
+// Admin-defined deal fields, shown below the stage sections in every stage
+export const CustomFieldsStageForm = ({ formData, onFieldChange, fieldErrors }: CustomFieldsStageFormProps) => {
+  const { fields } = useCustomFields('deal');
+
+  if (fields.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg font-semibold">Additional Fields</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {fields.map(customField => {
+            const column = toCustomFieldColumn(customField.field_name);
+            return (
+              <div key={customField.id}>
+                <FormFieldRenderer
+                  field={column}
+                  value={formData.custom_fields?.[customField.field_name]}
+                  onChange={onFieldChange}
+                  error={fieldErrors[column]}
+                  customField={customField}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,11 +1,13 @@
 
-import { Deal, DealStage } from "@/types/deal";
+import { Deal, DealStage, BuiltInDealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { LeadStageForm } from "./LeadStageForm";
 import { DiscussionsStageForm } from "./DiscussionsStageForm";
 import { QualifiedStageForm } from "./QualifiedStageForm";
 import { RFQStageForm } from "./RFQStageForm";
 import { OfferedStageForm } from "./OfferedStageForm";
 import { FinalStageForm } from "./FinalStageForm";
+import { CustomFieldsStageForm } from "./CustomFieldsStageForm";
 
 interface DealStageFormProps {
   formData: Partial<Deal>;
@@ -24,15 +26,10 @@ export const DealStageForm = ({
   stage, 
   showPreviousStages 
 }: DealStageFormProps) => {
-  const getStageIndex = (stage: DealStage): number => {
-    const stages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return stages.indexOf(stage);
-  };
-
-  const currentStageIndex = getStageIndex(stage);
-  const isFinalStage = ['Won', 'Lost', 'Dropped'].includes(stage);
+  const { stages, getFormSection, isFinalStage } = usePipelineStages();
+  const currentSection = getFormSection(stage);
 
-  const renderStageComponent = (stageToRender: DealStage) => {
+  const renderStageComponent = (stageToRender: BuiltInDealStage) => {
     switch (stageToRender) {
       case 'Lead':
         return (
@@ -84,6 +81,7 @@ export const DealStageForm = ({
             onFieldChange={onFieldChange}
             fieldErrors={fieldErrors}
             stage={stageToRender}
+            title={stageToRender === stage ? undefined : `${stage} Stage`}
           />
         );
       default:
@@ -91,37 +89,36 @@ export const DealStageForm = ({
     }
   };
 
-  if (showPreviousStages) {
-    // Show all stages up to current stage
-    const stagesToShow: DealStage[] = [];
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
-    
-    if (isFinalStage) {
-      // For final stages, show all previous stages plus the final stage
-      stagesToShow.push(...allStages);
-      stagesToShow.push(stage);
-    } else {
-      // For regular stages, show all stages up to current
-      for (let i = 0; i <= currentStageIndex && i < allStages.length; i++) {
-        stagesToShow.push(allStages[i]);
+  // Sections of the open stages that come before the current one in pipeline order
+  const getPreviousSections = (): BuiltInDealStage[] => {
+    const sections: BuiltInDealStage[] = [];
+    for (const pipelineStage of stages) {
+      if (pipelineStage.stage_name === stage) break;
+      const section = getFormSection(pipelineStage.stage_name);
+      if (section && !isFinalStage(pipelineStage.stage_name) && !sections.includes(section)) {
+        sections.push(section);
       }
     }
+    return sections;
+  };
+
+  // Custom stages without a section of their own always show the sections before them
+  const sectionsToShow: BuiltInDealStage[] = showPreviousStages || !currentSection
+    ? [...getPreviousSections(), currentSection].filter((section, index, all) => section && all.indexOf(section) === index)
+    : [currentSection];
 
-    return (
-      <div className="space-y-6">
-        {stagesToShow.map(stageToRender => (
-          <div key={stageToRender}>
-            {renderStageComponent(stageToRender)}
-          </div>
-        ))}
-      </div>
-    );
-  } else {
-    // Show only current stage
-    return (
-      <div>
-        {renderStageComponent(stage)}
-      </div>
-    );
-  }
+  return (
+    <div className="space-y-6">
+      {sectionsToShow.map(section => (
+        <div key={section}>
+          {renderStageComponent(section)}
+        </div>
+      ))}
+      <CustomFieldsStageForm
+        formData={formData}
+        onFieldChange={onFieldChange}
+        fieldErrors={fieldErrors}
+      />
+    </div>
+  );
 };
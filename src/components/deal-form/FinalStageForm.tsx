@@ -9,9 +9,10 @@ interface FinalStageFormProps {
   onFieldChange: (field: string, value: any) => void;
   fieldErrors: Record<string, string>;
   stage: DealStage;
+  title?: string;
 }
 
-export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }: FinalStageFormProps) => {
+export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage, title }: FinalStageFormProps) => {
   // Auto-calculate total_revenue when quarterly revenues change (Won stage only)
   useEffect(() => {
     if (stage === 'Won') {
@@ -49,7 +50,7 @@ export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }:
   return (
     <Card>
       <CardHeader className="pb-4">
-        <CardTitle className="text-lg font-semibold">{stage} Stage</CardTitle>
+        <CardTitle className="text-lg font-semibold">{title || `${stage} Stage`}</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
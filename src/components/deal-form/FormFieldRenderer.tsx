@@ -12,6 +12,8 @@ import { Deal } from "@/types/deal";
 import { LeadSearchableDropdown } from "@/components/LeadSearchableDropdown";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
+import { CustomFieldInput } from "@/components/shared/CustomFieldInput";
+import { CustomFieldDefinition } from "@/utils/customFieldUtils";
 
 interface FormFieldRendererProps {
   field: string;
@@ -19,9 +21,11 @@ interface FormFieldRendererProps {
   onChange: (field: string, value: any) => void;
   onLeadSelect?: (lead: any) => void;
   error?: string;
+  // Admin-defined field; rendered by type instead of by field name
+  customField?: CustomFieldDefinition;
 }
 
-export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error }: FormFieldRendererProps) => {
+export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error, customField }: FormFieldRendererProps) => {
 
   const getFieldLabel = (field: string) => {
     const labels: Record<string, string> = {
@@ -210,6 +214,10 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
   });
 
   const renderField = () => {
+    if (customField) {
+      return <CustomFieldInput field={customField} value={value} onChange={(val) => onChange(field, val)} />;
+    }
+
     switch (field) {
       case 'account_id':
         return (
@@ -623,7 +631,11 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
 
   return (
     <div className="space-y-1.5">
-      <Label className="text-sm font-medium">{getFieldLabel(field)}</Label>
+      <Label className="text-sm font-medium">
+        {customField
+          ? `${customField.field_label}${customField.is_required && customField.field_type !== 'boolean' ? ' *' : ''}`
+          : getFieldLabel(field)}
+      </Label>
       {renderField()}
       {error && (
         <p className="text-xs text-destructive mt-1">{error}</p>
@@ -0,0 +1,32 @@
+import { cn } from '@/lib/utils';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { DEFAULT_DEAL_CURRENCY } from '@/utils/currencyConversion';
+import { formatCurrency } from '@/utils/formatUtils';
+
+interface ConvertedAmountProps {
+  amount: number | null | undefined;
+  currency?: string | null;
+  date?: string;
+  className?: string;
+}
+
+// Deal amount in the user's reporting currency, shown next to the original value
+export const ConvertedAmount = ({ amount, currency, date, className }: ConvertedAmountProps) => {
+  const { reportingCurrency, convert } = useExchangeRates();
+  const from = currency || DEFAULT_DEAL_CURRENCY;
+
+  if (!amount || from === reportingCurrency) return null;
+
+  const converted = convert(amount, from, date);
+
+  return (
+    <span
+      className={cn('block text-xs font-normal text-muted-foreground', className)}
+      title={converted === null ? undefined : `Converted from ${from} at the rate effective ${date || 'today'}`}
+    >
+      {converted === null
+        ? `No ${from} → ${reportingCurrency} rate`
+        : `≈ ${formatCurrency(converted, reportingCurrency)}`}
+    </span>
+  );
+};
@@ -6,7 +6,8 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
-import { getDealStageColor } from '@/utils/statusBadgeUtils';
+import { getStageColorStyle } from '@/utils/statusBadgeUtils';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
 
 interface StageChange {
@@ -26,6 +27,7 @@ export const DealStageHistory = ({ dealId }: DealStageHistoryProps) => {
   const [history, setHistory] = useState<StageChange[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('stages');
+  const { getStageColor } = usePipelineStages();
   
   const userIds = history.map(h => h.changed_by).filter(Boolean) as string[];
   const { displayNames } = useUserDisplayNames(userIds);
@@ -86,7 +88,7 @@ export const DealStageHistory = ({ dealId }: DealStageHistoryProps) => {
                     <div className="flex items-center gap-2">
                       {change.from_stage ? (
                         <>
-                          <Badge variant="outline" className={getDealStageColor(change.from_stage)}>
+                          <Badge variant="outline" style={getStageColorStyle(getStageColor(change.from_stage))}>
                             {change.from_stage}
                           </Badge>
                           <ArrowRight className="h-4 w-4 text-muted-foreground" />
@@ -94,7 +96,7 @@ export const DealStageHistory = ({ dealId }: DealStageHistoryProps) => {
                       ) : (
                         <span className="text-xs text-muted-foreground">Created as</span>
                       )}
-                      <Badge variant="outline" className={getDealStageColor(change.to_stage)}>
+                      <Badge variant="outline" style={getStageColorStyle(getStageColor(change.to_stage))}>
                         {change.to_stage}
                       </Badge>
                     </div>
@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Upload, Download } from "lucide-react";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { ImportFileInput } from "@/components/shared/ImportFileInput";
 import { Deal } from "@/types/deal";
 
 interface DealsImportExportProps {
@@ -19,12 +20,6 @@ const DealsImportExport = ({ deals, onImportComplete }: DealsImportExportProps)
     handleExportAll(deals);
   };
 
-  const importDeals = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      handleImport(file);
-    }
-  };
 
   return (
     <div className="flex gap-2">
@@ -33,13 +28,7 @@ const DealsImportExport = ({ deals, onImportComplete }: DealsImportExportProps)
         Export
       </Button>
       <div>
-        <input
-          type="file"
-          accept=".csv"
-          onChange={importDeals}
-          style={{ display: 'none' }}
-          id="deals-import"
-        />
+        <ImportFileInput id="deals-import" onFileSelected={handleImport} />
         <label htmlFor="deals-import">
           <Button variant="outline" size="sm" asChild>
             <span>
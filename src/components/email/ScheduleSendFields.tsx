@@ -0,0 +1,66 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock } from "lucide-react";
+import { formatLocalTime, getBrowserTimezone, ScheduleValue, scheduleToDate, timezoneOptions, validateSchedule } from "@/utils/scheduledSend";
+
+interface ScheduleSendFieldsProps {
+  value: ScheduleValue;
+  onChange: (value: ScheduleValue) => void;
+  disabled?: boolean;
+}
+
+// Date, time and recipient timezone for a send-later email
+export const ScheduleSendFields = ({ value, onChange, disabled }: ScheduleSendFieldsProps) => {
+  const sendAt = scheduleToDate(value);
+  const problem = validateSchedule(value);
+  const differentZone = value.timezone !== getBrowserTimezone();
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="grid grid-cols-[1fr_auto] gap-2 sm:grid-cols-[1fr_auto_1.5fr]">
+        <div className="space-y-1">
+          <Label htmlFor="schedule-date" className="text-xs text-muted-foreground">Date</Label>
+          <Input
+            id="schedule-date"
+            type="date"
+            value={value.date}
+            onChange={(e) => onChange({ ...value, date: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="schedule-time" className="text-xs text-muted-foreground">Time</Label>
+          <Input
+            id="schedule-time"
+            type="time"
+            value={value.time}
+            onChange={(e) => onChange({ ...value, time: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="col-span-2 space-y-1 sm:col-span-1">
+          <Label className="text-xs text-muted-foreground">Recipient's timezone</Label>
+          <Select value={value.timezone} onValueChange={(timezone) => onChange({ ...value, timezone })} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timezoneOptions(value.timezone).map(tz => (
+                <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {problem ? (
+        <p className="text-xs text-destructive">{problem}</p>
+      ) : sendAt && differentZone ? (
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          {formatLocalTime(sendAt)} your time
+        </p>
+      ) : null}
+    </div>
+  );
+};
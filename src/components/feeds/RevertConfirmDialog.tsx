@@ -14,18 +14,28 @@ interface RevertConfirmDialogProps {
   open: boolean;
   onConfirm: () => void;
   onCancel: () => void;
+  title?: string;
+  description?: string;
+  confirmLabel?: string;
 }
 
-export const RevertConfirmDialog = ({ open, onConfirm, onCancel }: RevertConfirmDialogProps) => {
+export const RevertConfirmDialog = ({
+  open,
+  onConfirm,
+  onCancel,
+  title = 'Confirm Revert',
+  description = 'Are you sure you want to revert changes for this record? This action cannot be undone.',
+  confirmLabel = 'Confirm Revert',
+}: RevertConfirmDialogProps) => {
   return (
     <AlertDialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
       <AlertDialogContent className="sm:max-w-md">
         <AlertDialogHeader>
           <AlertDialogTitle className="text-lg font-semibold">
-            Confirm Revert
+            {title}
           </AlertDialogTitle>
           <AlertDialogDescription className="text-muted-foreground">
-            Are you sure you want to revert changes for this record? This action cannot be undone.
+            {description}
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter className="flex gap-2">
@@ -39,7 +49,7 @@ export const RevertConfirmDialog = ({ open, onConfirm, onCancel }: RevertConfirm
             onClick={onConfirm}
             className="flex-1 bg-destructive text-destructive-foreground hover:bg-destructive/90"
           >
-            Confirm Revert
+            {confirmLabel}
           </AlertDialogAction>
         </AlertDialogFooter>
       </AlertDialogContent>
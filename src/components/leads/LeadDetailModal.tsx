@@ -15,7 +15,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
+import { ApprovalHistoryPanel } from '@/components/approvals/ApprovalHistoryPanel';
 import { RelatedTasksSection } from '@/components/shared/RelatedTasksSection';
+import { ScoreBreakdownCard } from '@/components/shared/ScoreBreakdownCard';
 import { SendEmailModal } from '@/components/SendEmailModal';
 import { LeadActivityTimeline } from './LeadActivityTimeline';
 import { LeadActivityLogModal } from './LeadActivityLogModal';
@@ -50,6 +52,7 @@ import {
   Briefcase,
   Loader2,
   MousePointer,
+  ClipboardCheck,
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -320,7 +323,7 @@ export const LeadDetailModal = ({
           </DialogHeader>
 
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-7">
+            <TabsList className="grid w-full grid-cols-8">
               <TabsTrigger value="overview" className="flex items-center gap-1">
                 <User className="h-4 w-4" />
                 Overview
@@ -349,6 +352,10 @@ export const LeadDetailModal = ({
                 <History className="h-4 w-4" />
                 History
               </TabsTrigger>
+              <TabsTrigger value="approvals" className="flex items-center gap-1">
+                <ClipboardCheck className="h-4 w-4" />
+                Approvals
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4 mt-4">
@@ -425,6 +432,8 @@ export const LeadDetailModal = ({
                 </Card>
               </div>
 
+              <ScoreBreakdownCard entity="lead" recordId={lead.id} />
+
               {lead.description && (
                 <Card>
                   <CardHeader className="pb-3">
@@ -697,7 +706,11 @@ export const LeadDetailModal = ({
             </TabsContent>
 
             <TabsContent value="history" className="mt-4">
-              <RecordChangeHistory entityType="leads" entityId={lead.id} maxHeight="400px" />
+              <RecordChangeHistory entityType="leads" entityId={lead.id} maxHeight="400px" onRestored={onUpdate} />
+            </TabsContent>
+
+            <TabsContent value="approvals" className="mt-4">
+              <ApprovalHistoryPanel entityType="leads" entityId={lead.id} maxHeight="400px" />
             </TabsContent>
           </Tabs>
         </DialogContent>
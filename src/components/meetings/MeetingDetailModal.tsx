@@ -36,6 +36,7 @@ import { format } from "date-fns";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { getMeetingStatus } from "@/utils/meetingStatus";
+import { MEETING_RSVP_LABELS, MeetingAttendee, MeetingRsvpResponse, parseMeetingAttendees } from "@/utils/meetingInvites";
 import { MeetingFollowUpsSection } from "./MeetingFollowUpsSection";
 import { RecordChangeHistory } from "@/components/shared/RecordChangeHistory";
 import { ContactDetailModal } from "@/components/contacts/ContactDetailModal";
@@ -121,6 +122,27 @@ const statusColors: Record<string, string> = {
   cancelled: 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400 border-gray-200 dark:border-gray-700',
 };
 
+const rsvpColors: Record<MeetingRsvpResponse, string> = {
+  needs_action: 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400 border-gray-200 dark:border-gray-700',
+  accepted: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800',
+  tentative: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800',
+  declined: 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300 border-red-200 dark:border-red-800',
+};
+
+// Only calendar-invite attendees have a response; Teams answers stay in Outlook
+const RsvpBadge = ({ attendee }: { attendee?: MeetingAttendee }) => {
+  if (!attendee?.response) return null;
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${rsvpColors[attendee.response]}`}
+      title={attendee.responded_at ? `Answered ${formatDateTimeStandard(attendee.responded_at)}` : undefined}
+    >
+      {MEETING_RSVP_LABELS[attendee.response]}
+    </Badge>
+  );
+};
+
 const outcomeConfig: Record<string, { label: string; icon: React.ReactNode; className: string }> = {
   successful: {
     label: "Successful",
@@ -270,9 +292,9 @@ export const MeetingDetailModal = ({
   if (!meeting) return null;
 
   const effectiveStatus = getMeetingStatus(meeting);
-  const attendeesList = meeting.attendees && Array.isArray(meeting.attendees) 
-    ? (meeting.attendees as { email: string; name?: string }[])
-    : [];
+  const allAttendees = parseMeetingAttendees(meeting.attendees);
+  const relatedAttendee = allAttendees.find(a => a.related);
+  const attendeesList = allAttendees.filter(a => !a.related);
 
   const getStatusBadge = () => {
     const label = effectiveStatus.charAt(0).toUpperCase() + effectiveStatus.slice(1);
@@ -403,12 +425,14 @@ export const MeetingDetailModal = ({
                       <div className="flex items-center gap-2 text-sm">
                         <Users className="h-4 w-4 text-muted-foreground" />
                         <span>Lead: {meeting.lead_name}</span>
+                        <RsvpBadge attendee={relatedAttendee} />
                       </div>
                     )}
                     {meeting.contact_name && (
                       <div className="flex items-center gap-2 text-sm">
                         <User className="h-4 w-4 text-muted-foreground" />
                         <span>Contact: {meeting.contact_name}</span>
+                        <RsvpBadge attendee={relatedAttendee} />
                       </div>
                     )}
                     {attendeesList.length > 0 && (
@@ -418,7 +442,8 @@ export const MeetingDetailModal = ({
                           {attendeesList.map((attendee, idx) => (
                             <div key={idx} className="text-sm flex items-center gap-2">
                               <User className="h-3 w-3 text-muted-foreground" />
-                              <span>{attendee.name || attendee.email}</span>
+                              <span title={attendee.email}>{attendee.name || attendee.email}</span>
+                              <RsvpBadge attendee={attendee} />
                             </div>
                           ))}
                         </div>
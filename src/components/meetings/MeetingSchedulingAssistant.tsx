@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react";
+import { addDays } from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useAttendeeAvailability } from "@/hooks/useAttendeeAvailability";
+import {
+  AttendeeSchedule,
+  findFreeSlots,
+  isBusy,
+  isWorking,
+  SLOT_STEP_MINUTES,
+  TimeInterval,
+  WORKING_HOURS,
+} from "@/utils/meetingAvailability";
+
+interface MeetingSchedulingAssistantProps {
+  date: Date | undefined; // wall-clock date in `timezone`, as held by MeetingModal
+  timezone: string;
+  durationMinutes: number;
+  participantEmails: string[];
+  proposedStart: string; // ISO
+  proposedEnd: string; // ISO
+  excludeMeetingId?: string;
+  onSelectSlot: (start: Date) => void;
+  onAddParticipant: (email: string) => void;
+}
+
+type CellState = 'free' | 'busy' | 'off';
+
+interface GridRow {
+  key: string;
+  label: string;
+  cells: { interval: TimeInterval; state: CellState; title: string }[];
+}
+
+// The grid shows 7:00 to 21:00 of the meeting's timezone; suggestions look two weeks ahead
+const GRID_START_HOUR = 7;
+const GRID_END_HOUR = 21;
+const CELLS_PER_ROW = ((GRID_END_HOUR - GRID_START_HOUR) * 60) / SLOT_STEP_MINUTES;
+const SEARCH_DAYS = 14;
+const WEEK_DAYS = 7;
+
+const cellColors: Record<CellState, string> = {
+  free: 'bg-emerald-100 dark:bg-emerald-900/30',
+  busy: 'bg-red-300 dark:bg-red-800/60',
+  off: 'bg-muted',
+};
+
+const cellState = (schedules: AttendeeSchedule[], interval: TimeInterval): CellState => {
+  if (schedules.some(schedule => isBusy(schedule, interval))) return 'busy';
+  if (schedules.some(schedule => !isWorking(schedule, interval))) return 'off';
+  return 'free';
+};
+
+const cellTitle = (schedules: AttendeeSchedule[], interval: TimeInterval, timezone: string) => {
+  const busyNames = schedules
+    .filter(schedule => isBusy(schedule, interval))
+    .map(schedule => {
+      const block = schedule.busy.find(b => b.start < interval.end && interval.start < b.end);
+      return `${schedule.name}: ${block?.title || 'Busy'}`;
+    });
+  const offNames = schedules.filter(schedule => !isWorking(schedule, interval)).map(s => `${s.name}: outside working hours`);
+  return [formatInTimeZone(interval.start, timezone, 'EEE d MMM, h:mm a'), ...busyNames, ...offNames].join('\n');
+};
+
+/**
+ * Free/busy of the organizer and any CRM users among the participants, with the next free
+ * slots that suit everyone. Clicking a free cell or a suggestion moves the meeting there.
+ */
+export const MeetingSchedulingAssistant = ({
+  date,
+  timezone,
+  durationMinutes,
+  participantEmails,
+  proposedStart,
+  proposedEnd,
+  excludeMeetingId,
+  onSelectSlot,
+  onAddParticipant,
+}: MeetingSchedulingAssistantProps) => {
+  const [view, setView] = useState<'day' | 'week'>('day');
+
+  // Midnight of the selected day in the meeting's timezone
+  const day = useMemo(() => (date && !Number.isNaN(date.getTime()) ? date : new Date()), [date]);
+  const dayStart = fromZonedTime(new Date(day.getFullYear(), day.getMonth(), day.getDate()), timezone).getTime();
+  const searchEnd = fromZonedTime(new Date(day.getFullYear(), day.getMonth(), day.getDate() + SEARCH_DAYS), timezone).getTime();
+
+  const { teamMembers, schedules, outlookError, isLoading, refresh } = useAttendeeAvailability(
+    participantEmails,
+    dayStart,
+    searchEnd,
+    excludeMeetingId
+  );
+
+  const rows = useMemo((): GridRow[] => {
+    const cellsFor = (dayOffset: number, rowSchedules: AttendeeSchedule[]) =>
+      Array.from({ length: CELLS_PER_ROW }, (_, index) => {
+        const start = fromZonedTime(
+          new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, GRID_START_HOUR, index * SLOT_STEP_MINUTES),
+          timezone
+        ).getTime();
+        const interval = { start, end: start + SLOT_STEP_MINUTES * 60 * 1000 };
+        return { interval, state: cellState(rowSchedules, interval), title: cellTitle(rowSchedules, interval, timezone) };
+      });
+
+    if (view === 'day') {
+      return schedules.map(schedule => ({ key: schedule.email, label: schedule.name, cells: cellsFor(0, [schedule]) }));
+    }
+
+    return Array.from({ length: WEEK_DAYS }, (_, offset) => {
+      const label = formatInTimeZone(
+        fromZonedTime(addDays(new Date(day.getFullYear(), day.getMonth(), day.getDate()), offset), timezone),
+        timezone,
+        'EEE d MMM'
+      );
+      return { key: String(offset), label, cells: cellsFor(offset, schedules) };
+    });
+  }, [schedules, view, day, timezone]);
+
+  const suggestions = useMemo(
+    () => findFreeSlots(schedules, Math.max(Date.now(), dayStart), searchEnd, durationMinutes),
+    [schedules, dayStart, searchEnd, durationMinutes]
+  );
+
+  const proposed = proposedStart && proposedEnd
+    ? { start: new Date(proposedStart).getTime(), end: new Date(proposedEnd).getTime() }
+    : null;
+
+  const included = new Set(participantEmails.map(e => e.toLowerCase()));
+  const addableMembers = teamMembers.filter(m => !included.has(m.email.toLowerCase()) && !schedules.some(s => s.email === m.email));
+
+  const hourLabels = Array.from({ length: (GRID_END_HOUR - GRID_START_HOUR) / 2 }, (_, i) => GRID_START_HOUR + i * 2);
+
+  return (
+    <div className="space-y-2 border-l-2 border-muted pl-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs font-medium">Scheduling Assistant</Label>
+        <div className="flex items-center gap-1">
+          <div className="flex items-center bg-muted rounded p-0.5">
+            <Button type="button" variant={view === 'day' ? 'secondary' : 'ghost'} size="sm" onClick={() => setView('day')} className="h-5 px-2 text-xs">
+              Day
+            </Button>
+            <Button type="button" variant={view === 'week' ? 'secondary' : 'ghost'} size="sm" onClick={() => setView('week')} className="h-5 px-2 text-xs">
+              Week
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => refresh()} title="Refresh">
+            <RefreshCw className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="space-y-0.5">
+            <div className="flex">
+              <div className="w-24 shrink-0" />
+              <div className="flex-1 grid text-[10px] text-muted-foreground" style={{ gridTemplateColumns: `repeat(${hourLabels.length}, 1fr)` }}>
+                {hourLabels.map(hour => <span key={hour}>{hour}:00</span>)}
+              </div>
+            </div>
+            {rows.map(row => (
+              <div key={row.key} className="flex items-center">
+                <div className="w-24 shrink-0 truncate text-[11px] pr-1" title={row.label}>{row.label}</div>
+                <div className="flex-1 flex h-4 rounded-sm overflow-hidden">
+                  {row.cells.map(cell => {
+                    const selected = proposed && cell.interval.start < proposed.end && proposed.start < cell.interval.end;
+                    const past = cell.interval.start < Date.now();
+                    return (
+                      <button
+                        key={cell.interval.start}
+                        type="button"
+                        title={cell.title}
+                        disabled={past}
+                        onClick={() => onSelectSlot(new Date(cell.interval.start))}
+                        className={cn(
+                          'flex-1 border-r border-background/60 last:border-r-0',
+                          cellColors[cell.state],
+                          selected && (cell.state === 'free' ? 'bg-primary' : 'bg-destructive'),
+                          past && 'opacity-40 cursor-not-allowed'
+                        )}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 text-[10px] text-muted-foreground">
+            <span className="flex items-center gap-1"><span className={cn('h-2 w-2 rounded-sm', cellColors.free)} />Free</span>
+            <span className="flex items-center gap-1"><span className={cn('h-2 w-2 rounded-sm', cellColors.busy)} />Busy</span>
+            <span className="flex items-center gap-1"><span className={cn('h-2 w-2 rounded-sm', cellColors.off)} />Outside working hours</span>
+            <span className="ml-auto">{timezone}</span>
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-[11px] text-muted-foreground">
+              Next free {durationMinutes}-minute slots within everyone's working hours ({WORKING_HOURS.start}:00–{WORKING_HOURS.end}:00 their time):
+            </p>
+            {suggestions.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(slot => (
+                  <Button key={slot.start} type="button" variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => onSelectSlot(new Date(slot.start))}>
+                    {formatInTimeZone(slot.start, timezone, 'EEE d MMM, h:mm a')}
+                  </Button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">No common free time in the next {SEARCH_DAYS} days</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {outlookError && <p className="text-[11px] text-amber-600">{outlookError}</p>}
+
+      {addableMembers.length > 0 && (
+        <Select value="" onValueChange={onAddParticipant}>
+          <SelectTrigger className="h-7 text-xs">
+            <SelectValue placeholder="Add a teammate to compare calendars" />
+          </SelectTrigger>
+          <SelectContent>
+            {addableMembers.map(member => (
+              <SelectItem key={member.id} value={member.email} className="text-xs">
+                {member.name} ({member.email})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
@@ -5,10 +5,12 @@ import { useAuth } from '@/hooks/useAuth';
 import { useThemePreferences } from '@/hooks/useThemePreferences';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { Loader2, User, Shield, Bell } from 'lucide-react';
+import { Loader2, User, Shield, Bell, CalendarClock } from 'lucide-react';
 import ProfileSection from './account/ProfileSection';
 import SecuritySection from './account/SecuritySection';
 import NotificationsSection from './account/NotificationsSection';
+import EmailSignatureSection from './account/EmailSignatureSection';
+import BookingPageSection from './account/BookingPageSection';
 
 interface ProfileData {
   full_name: string;
@@ -210,7 +212,7 @@ const AccountSettingsPage = () => {
   return (
     <div className="space-y-6 max-w-4xl pb-6">
       <Tabs defaultValue="profile" className="w-full">
-        <TabsList className="grid w-full grid-cols-3 max-w-md">
+        <TabsList className="grid w-full grid-cols-4 max-w-xl">
           <TabsTrigger value="profile" className="flex items-center gap-1.5 text-xs sm:text-sm">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">Profile</span>
@@ -223,6 +225,10 @@ const AccountSettingsPage = () => {
             <Bell className="h-4 w-4" />
             <span className="hidden sm:inline">Notifications</span>
           </TabsTrigger>
+          <TabsTrigger value="booking" className="flex items-center gap-1.5 text-xs sm:text-sm">
+            <CalendarClock className="h-4 w-4" />
+            <span className="hidden sm:inline">Booking Page</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="profile" className="mt-6 space-y-4">
@@ -243,6 +249,7 @@ const AccountSettingsPage = () => {
               </Button>
             </div>
           )}
+          <EmailSignatureSection userId={user?.id || ''} />
         </TabsContent>
 
         <TabsContent value="security" className="mt-6">
@@ -256,6 +263,10 @@ const AccountSettingsPage = () => {
             userId={user?.id || ''}
           />
         </TabsContent>
+
+        <TabsContent value="booking" className="mt-6">
+          <BookingPageSection userId={user?.id || ''} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -1,5 +1,5 @@
 import { useState, lazy, Suspense, useEffect } from 'react';
-import { Users, Lock, Database, Shield, Activity, FileText, Megaphone, History } from 'lucide-react';
+import { Users, Lock, Database, Shield, Activity, FileText, Megaphone, History, ListPlus, Gauge, ArrowRightLeft, FileUp } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -11,14 +11,19 @@ import SettingsLoadingSkeleton from './shared/SettingsLoadingSkeleton';
 const UserManagement = lazy(() => import('@/components/UserManagement'));
 const PageAccessSettings = lazy(() => import('@/components/settings/PageAccessSettings'));
 const BackupRestoreSettings = lazy(() => import('@/components/settings/BackupRestoreSettings'));
+const ImportHistorySettings = lazy(() => import('@/components/settings/ImportHistorySettings'));
 const AuditLogsSettings = lazy(() => import('@/components/settings/AuditLogsSettings'));
 const SystemStatusSettings = lazy(() => import('@/components/settings/SystemStatusSettings'));
 const ScheduledReportsSettings = lazy(() => import('@/components/settings/ScheduledReportsSettings'));
 const AnnouncementSettings = lazy(() => import('@/components/settings/AnnouncementSettings'));
+const CustomFieldsSettings = lazy(() => import('@/components/settings/CustomFieldsSettings'));
+const ScoringRulesSettings = lazy(() => import('@/components/settings/ScoringRulesSettings'));
+const ExchangeRatesSettings = lazy(() => import('@/components/settings/ExchangeRatesSettings'));
 
 const adminTabs = [
   { id: 'users', label: 'Users', icon: Users },
   { id: 'access', label: 'Access', icon: Lock },
+  { id: 'fields', label: 'Fields', icon: ListPlus },
   { id: 'logs', label: 'Logs', icon: History },
   { id: 'system', label: 'System', icon: Activity },
   { id: 'reports', label: 'Reports', icon: BarChart3 }
@@ -36,10 +41,14 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
     const sectionToTab: Record<string, string> = {
       'users': 'users',
       'page-access': 'access',
+      'custom-fields': 'fields',
+      'scoring': 'fields',
       'audit-logs': 'logs',
       'backup': 'system',
+      'import-history': 'system',
       'system-status': 'system',
       'scheduled-reports': 'reports',
+      'exchange-rates': 'reports',
       'announcements': 'reports'
     };
     return sectionToTab[section] || 'users';
@@ -83,7 +92,7 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
   return (
     <div className="space-y-6 max-w-6xl">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5 max-w-2xl">
+        <TabsList className="grid w-full grid-cols-6 max-w-3xl">
           {adminTabs.map(tab => {
             const Icon = tab.icon;
             return (
@@ -111,6 +120,20 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
           </SettingsCard>
         </TabsContent>
 
+        <TabsContent value="fields" className="mt-6 space-y-6">
+          <SettingsCard icon={ListPlus} title="Custom Fields" description="Define extra fields for leads, contacts, accounts and deals">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <CustomFieldsSettings />
+            </Suspense>
+          </SettingsCard>
+
+          <SettingsCard icon={Gauge} title="Lead & Contact Scoring" description="Configure how lead and contact scores are calculated">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <ScoringRulesSettings />
+            </Suspense>
+          </SettingsCard>
+        </TabsContent>
+
         <TabsContent value="logs" className="mt-6 space-y-6">
           <Suspense fallback={<SettingsLoadingSkeleton />}>
             <AuditLogsSettings />
@@ -124,6 +147,12 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
             </Suspense>
           </SettingsCard>
 
+          <SettingsCard icon={FileUp} title="Import History" description="Review lead and deal imports and roll back a mistaken one">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <ImportHistorySettings />
+            </Suspense>
+          </SettingsCard>
+
           <SettingsCard icon={Activity} title="System Status" description="Monitor system health, database stats, and storage usage">
             <Suspense fallback={<SettingsLoadingSkeleton />}>
               <SystemStatusSettings />
@@ -138,6 +167,12 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
             </Suspense>
           </SettingsCard>
 
+          <SettingsCard icon={ArrowRightLeft} title="Exchange Rates" description="Maintain the rates used to convert deal values into reporting currencies">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <ExchangeRatesSettings />
+            </Suspense>
+          </SettingsCard>
+
           <SettingsCard icon={Megaphone} title="Announcement Management" description="Create and manage system announcements">
             <Suspense fallback={<SettingsLoadingSkeleton />}>
               <AnnouncementSettings />
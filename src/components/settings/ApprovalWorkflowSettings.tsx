@@ -43,6 +43,7 @@ const entityTypes = [
 
 const conditionFields = {
   deals: [
+    { value: 'stage', label: 'Stage' },
     { value: 'total_revenue', label: 'Total Revenue' },
     { value: 'total_contract_value', label: 'Contract Value' },
     { value: 'probability', label: 'Probability (%)' },
@@ -167,6 +168,10 @@ const ApprovalWorkflowSettings = () => {
       toast.error('Workflow name is required');
       return;
     }
+    if (formData.approval_steps.length === 0) {
+      toast.error('A workflow needs at least one approval step');
+      return;
+    }
 
     setSaving(true);
     try {
@@ -14,6 +14,8 @@ import {
 import { format, subDays, startOfDay, endOfDay, isWithinInterval } from "date-fns";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RevertConfirmDialog } from "@/components/feeds/RevertConfirmDialog";
+import { RecordChangeHistory } from "@/components/shared/RecordChangeHistory";
+import { formatAuditSource, isTriggerAudited } from "@/utils/auditLog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -659,6 +661,11 @@ const AuditLogsSettings = () => {
       summaryItems.push({ label: 'Record Name', value: details.record_name });
     }
 
+    // Set on entries written by the database triggers
+    if (details.source) {
+      summaryItems.push({ label: 'Source', value: formatAuditSource(details.source) });
+    }
+
     // Add export/import info
     if (details.export_type) {
       summaryItems.push({ label: 'Export Type', value: details.export_type });
@@ -1145,6 +1152,19 @@ const AuditLogsSettings = () => {
                     </div>
                   </div>
                 )}
+
+                {/* Full version history of the record, with restore; the only way back to deleted records */}
+                {detailLog.resource_id && isTriggerAudited(detailLog.resource_type) && (
+                  <div>
+                    <Label className="text-xs text-muted-foreground mb-2 block">Version History</Label>
+                    <RecordChangeHistory
+                      entityType={detailLog.resource_type}
+                      entityId={detailLog.resource_id}
+                      maxHeight="300px"
+                      onRestored={fetchAuditLogs}
+                    />
+                  </div>
+                )}
               </div>
             </ScrollArea>
           )}
@@ -32,7 +32,6 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -41,6 +40,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import SettingsLoadingSkeleton from './shared/SettingsLoadingSkeleton';
+import RestoreBackupDialog from './RestoreBackupDialog';
 
 // Lazy load ModuleImportExport
 const ModuleImportExport = lazy(() => import('./ModuleImportExport'));
@@ -62,24 +62,31 @@ interface Backup {
 interface BackupSchedule {
   id?: string;
   frequency: string;
+  day_of_week: number;
   time_of_day: string;
+  retention_days: number;
   is_enabled: boolean;
-  next_run_at?: string;
+  next_run_at?: string | null;
+  last_run_at?: string | null;
+  last_status?: string | null;
+  last_error?: string | null;
 }
 
+const daysOfWeek = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
 const BackupRestoreSettings = () => {
   const [backups, setBackups] = useState<Backup[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  const [restoring, setRestoring] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
-  const [showRestoreDialog, setShowRestoreDialog] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<Backup | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [selectedBackup, setSelectedBackup] = useState<Backup | null>(null);
-  const [confirmText, setConfirmText] = useState('');
   const [schedule, setSchedule] = useState<BackupSchedule>({
     frequency: 'daily',
+    day_of_week: 0,
     time_of_day: '00:00',
+    retention_days: 30,
     is_enabled: false,
   });
   const [savingSchedule, setSavingSchedule] = useState(false);
@@ -134,9 +141,14 @@ const BackupRestoreSettings = () => {
         setSchedule({
           id: data.id,
           frequency: data.frequency || 'daily',
-          time_of_day: data.time_of_day || '00:00',
+          day_of_week: data.day_of_week ?? 0,
+          time_of_day: (data.time_of_day || '00:00').slice(0, 5),
+          retention_days: data.retention_days ?? 30,
           is_enabled: data.is_enabled || false,
           next_run_at: data.next_run_at,
+          last_run_at: data.last_run_at,
+          last_status: data.last_status,
+          last_error: data.last_error,
         });
       }
     } catch (error) {
@@ -150,8 +162,12 @@ const BackupRestoreSettings = () => {
     try {
       const scheduleData = {
         frequency: newSchedule.frequency,
+        day_of_week: newSchedule.frequency === 'weekly' ? newSchedule.day_of_week : null,
         time_of_day: newSchedule.time_of_day,
+        retention_days: newSchedule.retention_days,
         is_enabled: newSchedule.is_enabled,
+        // Cleared so the scheduler recalculates the next run in the owner's timezone
+        next_run_at: null,
         created_by: user?.id,
       };
 
@@ -163,6 +179,7 @@ const BackupRestoreSettings = () => {
           .eq('id', schedule.id);
         
         if (error) throw error;
+        setSchedule(prev => ({ ...prev, next_run_at: null }));
       } else {
         // Create new
         const { data, error } = await supabase
@@ -186,6 +203,12 @@ const BackupRestoreSettings = () => {
     }
   };
 
+  const updateSchedule = (changes: Partial<BackupSchedule>) => {
+    const updated = { ...schedule, ...changes };
+    setSchedule(updated);
+    handleSaveSchedule(updated);
+  };
+
   useEffect(() => {
     if (!roleLoading && isAdmin) {
       fetchBackups();
@@ -245,36 +268,6 @@ const BackupRestoreSettings = () => {
     }
   };
 
-  const handleRestoreClick = (backup: Backup) => {
-    setSelectedBackup(backup);
-    setConfirmText('');
-    setShowRestoreDialog(true);
-  };
-
-  const handleRestoreConfirm = async () => {
-    if (!selectedBackup || confirmText !== 'CONFIRM') return;
-
-    setRestoring(selectedBackup.id);
-    setShowRestoreDialog(false);
-
-    try {
-      const { data, error } = await supabase.functions.invoke('restore-backup', {
-        method: 'POST',
-        body: { backupId: selectedBackup.id }
-      });
-
-      if (error) throw error;
-
-      toast.success('Restore process initiated. This may take a few minutes.');
-    } catch (error: any) {
-      console.error('Error restoring backup:', error);
-      toast.error(error.message || 'Failed to restore backup');
-    } finally {
-      setRestoring(null);
-      setSelectedBackup(null);
-    }
-  };
-
   const handleDeleteClick = (backup: Backup) => {
     setSelectedBackup(backup);
     setShowDeleteDialog(true);
@@ -428,42 +421,104 @@ const BackupRestoreSettings = () => {
                   <Label htmlFor="scheduled-backup" className="text-base">Scheduled Backups</Label>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Automatically create daily backups at midnight
+                  Automatically create backups and remove them after the retention period
                 </p>
               </div>
               <Switch
                 id="scheduled-backup"
                 checked={schedule.is_enabled}
-                onCheckedChange={(checked) => {
-                  setSchedule(prev => ({ ...prev, is_enabled: checked }));
-                  handleSaveSchedule({ ...schedule, is_enabled: checked });
-                }}
+                onCheckedChange={(checked) => updateSchedule({ is_enabled: checked })}
               />
             </div>
             {schedule.is_enabled && (
-              <div className="mt-4 pt-4 border-t flex items-center gap-4">
-                <div className="flex items-center gap-2">
-                  <Label className="text-sm text-muted-foreground">Time:</Label>
-                  <Select
-                    value={schedule.time_of_day}
-                    onValueChange={(value) => {
-                      setSchedule(prev => ({ ...prev, time_of_day: value }));
-                      handleSaveSchedule({ ...schedule, time_of_day: value });
-                    }}
-                  >
-                    <SelectTrigger className="w-[120px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="00:00">12:00 AM</SelectItem>
-                      <SelectItem value="06:00">6:00 AM</SelectItem>
-                      <SelectItem value="12:00">12:00 PM</SelectItem>
-                      <SelectItem value="18:00">6:00 PM</SelectItem>
-                    </SelectContent>
-                  </Select>
+              <div className="mt-4 pt-4 border-t space-y-3">
+                <div className="flex flex-wrap items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Label className="text-sm text-muted-foreground">Frequency:</Label>
+                    <Select
+                      value={schedule.frequency}
+                      onValueChange={(value) => updateSchedule({ frequency: value })}
+                    >
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {schedule.frequency === 'weekly' && (
+                    <div className="flex items-center gap-2">
+                      <Label className="text-sm text-muted-foreground">Day:</Label>
+                      <Select
+                        value={schedule.day_of_week.toString()}
+                        onValueChange={(value) => updateSchedule({ day_of_week: parseInt(value) })}
+                      >
+                        <SelectTrigger className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {daysOfWeek.map((day, index) => (
+                            <SelectItem key={day} value={index.toString()}>{day}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Label className="text-sm text-muted-foreground">Time:</Label>
+                    <Select
+                      value={schedule.time_of_day}
+                      onValueChange={(value) => updateSchedule({ time_of_day: value })}
+                    >
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="00:00">12:00 AM</SelectItem>
+                        <SelectItem value="06:00">6:00 AM</SelectItem>
+                        <SelectItem value="12:00">12:00 PM</SelectItem>
+                        <SelectItem value="18:00">6:00 PM</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label className="text-sm text-muted-foreground">Keep for:</Label>
+                    <Select
+                      value={schedule.retention_days.toString()}
+                      onValueChange={(value) => updateSchedule({ retention_days: parseInt(value) })}
+                    >
+                      <SelectTrigger className="w-[120px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="7">7 days</SelectItem>
+                        <SelectItem value="14">14 days</SelectItem>
+                        <SelectItem value="30">30 days</SelectItem>
+                        <SelectItem value="90">90 days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {savingSchedule && (
+                    <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
+                  )}
                 </div>
-                {savingSchedule && (
-                  <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
+                <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                  {schedule.next_run_at && (
+                    <span>Next run: {format(new Date(schedule.next_run_at), 'dd/MM/yyyy, HH:mm')}</span>
+                  )}
+                  {schedule.last_run_at && (
+                    <span className="flex items-center gap-2">
+                      Last run: {format(new Date(schedule.last_run_at), 'dd/MM/yyyy, HH:mm')}
+                      <Badge variant={schedule.last_status === 'failed' ? 'destructive' : 'secondary'}>
+                        {schedule.last_status === 'failed' ? 'Failed' : 'Completed'}
+                      </Badge>
+                    </span>
+                  )}
+                </div>
+                {schedule.last_status === 'failed' && schedule.last_error && (
+                  <p className="text-sm text-destructive">{schedule.last_error}</p>
                 )}
               </div>
             )}
@@ -511,7 +566,7 @@ const BackupRestoreSettings = () => {
                       </span>
                       <span className="flex items-center gap-1">
                         <User className="h-3 w-3" />
-                        {backup.backup_type === 'manual' ? 'Manual' : 'Auto'}
+                        {backup.backup_type === 'manual' ? 'Manual' : 'Scheduled'}
                       </span>
                       <span>
                         {backup.tables_count} tables • {backup.records_count?.toLocaleString()} records
@@ -534,14 +589,9 @@ const BackupRestoreSettings = () => {
                     <Button 
                       variant="secondary" 
                       size="sm"
-                      onClick={() => handleRestoreClick(backup)}
-                      disabled={restoring === backup.id}
+                      onClick={() => setRestoreTarget(backup)}
                     >
-                      {restoring === backup.id ? (
-                        <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
-                      ) : (
-                        <Database className="h-4 w-4 mr-1" />
-                      )}
+                      <Database className="h-4 w-4 mr-1" />
                       Restore
                     </Button>
                     <Button 
@@ -565,45 +615,12 @@ const BackupRestoreSettings = () => {
         </Card>
       </div>
 
-      {/* Restore Confirmation Dialog */}
-      <AlertDialog open={showRestoreDialog} onOpenChange={setShowRestoreDialog}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="text-destructive">⚠️ Confirm Restore</AlertDialogTitle>
-            <AlertDialogDescription className="space-y-4">
-              <p>You are about to restore the database from backup:</p>
-              <p className="font-mono text-sm bg-muted p-2 rounded">{selectedBackup?.file_name}</p>
-              <div className="bg-destructive/10 border border-destructive/20 rounded p-3 text-sm">
-                <p className="font-semibold text-destructive">This action will:</p>
-                <ul className="list-disc list-inside mt-2 space-y-1">
-                  <li>Overwrite all current database tables</li>
-                  <li>Replace all storage files</li>
-                  <li>May cause brief downtime</li>
-                  <li>Cannot be undone</li>
-                </ul>
-              </div>
-              <div className="space-y-2">
-                <Label>Type "CONFIRM" to proceed:</Label>
-                <Input 
-                  value={confirmText}
-                  onChange={(e) => setConfirmText(e.target.value)}
-                  placeholder="CONFIRM"
-                />
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction 
-              onClick={handleRestoreConfirm}
-              disabled={confirmText !== 'CONFIRM'}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Restore Backup
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <RestoreBackupDialog
+        backup={restoreTarget}
+        open={!!restoreTarget}
+        onOpenChange={(open) => !open && setRestoreTarget(null)}
+        onRestored={fetchBackups}
+      />
 
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileBarChart, Loader2, RefreshCw, Send, X } from "lucide-react";
+import {
+  BULK_JOB_STATUS_LABELS,
+  BULK_RECIPIENT_RESULT_LABELS,
+  BulkEmailJob,
+  BulkEmailJobStatus,
+  BulkRecipientResult,
+  useBulkEmailJobs,
+  useBulkEmailRecipients,
+} from "@/hooks/useBulkEmailJobs";
+import { downloadCSV } from "@/utils/csvUtils";
+
+const jobStatusVariants: Record<BulkEmailJobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  processing: "default",
+  completed: "secondary",
+  cancelled: "outline",
+};
+
+const resultVariants: Record<BulkRecipientResult, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  sending: "default",
+  sent: "secondary",
+  bounced: "destructive",
+  failed: "destructive",
+  skipped: "outline",
+  cancelled: "outline",
+};
+
+const csvField = (value: string | number | null | undefined) => {
+  const str = String(value ?? '');
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const progressOf = (job: BulkEmailJob) =>
+  job.total_count ? Math.round(((job.sent_count + job.failed_count + job.skipped_count) / job.total_count) * 100) : 0;
+
+const RecipientReport = ({ job }: { job: BulkEmailJob }) => {
+  const { toast } = useToast();
+  const [resultFilter, setResultFilter] = useState<BulkRecipientResult | 'all'>('all');
+  const active = job.status === 'queued' || job.status === 'processing';
+  const { recipients, isLoading } = useBulkEmailRecipients(job.id, active);
+
+  const counts = recipients.reduce<Partial<Record<BulkRecipientResult, number>>>((acc, r) => {
+    acc[r.result] = (acc[r.result] || 0) + 1;
+    return acc;
+  }, {});
+  const shown = resultFilter === 'all' ? recipients : recipients.filter(r => r.result === resultFilter);
+
+  const handleExport = () => {
+    const rows = [
+      ['Recipient Email', 'Recipient Name', 'Record Type', 'Subject', 'Result', 'Detail', 'Attempts', 'Sent At'],
+      ...recipients.map(r => [
+        r.recipient_email,
+        r.recipient_name,
+        r.entity_type,
+        r.subject,
+        BULK_RECIPIENT_RESULT_LABELS[r.result],
+        r.detail,
+        r.attempt_count,
+        r.sent_at ? format(new Date(r.sent_at), 'yyyy-MM-dd HH:mm:ss') : '',
+      ]),
+    ];
+    const csv = rows.map(row => row.map(csvField).join(',')).join('\r\n');
+    const filename = `bulk-email-report-${format(new Date(job.created_at), 'yyyy-MM-dd-HHmm')}.csv`;
+
+    if (!downloadCSV(csv, filename)) {
+      toast({ title: "Export failed", description: "The report could not be downloaded", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {(Object.keys(BULK_RECIPIENT_RESULT_LABELS) as BulkRecipientResult[])
+          .filter(result => counts[result])
+          .map(result => (
+            <Badge key={result} variant={resultVariants[result]}>
+              {BULK_RECIPIENT_RESULT_LABELS[result]}: {counts[result]}
+            </Badge>
+          ))}
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={resultFilter} onValueChange={(v) => setResultFilter(v as BulkRecipientResult | 'all')}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All results</SelectItem>
+              {(Object.keys(BULK_RECIPIENT_RESULT_LABELS) as BulkRecipientResult[]).map(result => (
+                <SelectItem key={result} value={result}>{BULK_RECIPIENT_RESULT_LABELS[result]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={recipients.length === 0} className="gap-2">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <ScrollArea className="h-[420px] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Detail</TableHead>
+                <TableHead>Sent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-muted-foreground py-6">
+                    No recipients with this result
+                  </TableCell>
+                </TableRow>
+              ) : shown.map(r => (
+                <TableRow key={r.id}>
+                  <TableCell>
+                    <div className="text-sm font-medium">{r.recipient_name || r.recipient_email}</div>
+                    {r.recipient_name && <div className="text-xs text-muted-foreground">{r.recipient_email}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={resultVariants[r.result]}>{BULK_RECIPIENT_RESULT_LABELS[r.result]}</Badge>
+                  </TableCell>
+                  <TableCell className="max-w-[260px]">
+                    <p className="text-xs text-muted-foreground truncate" title={r.detail || undefined}>
+                      {r.detail || '—'}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {r.sent_at ? format(new Date(r.sent_at), 'dd/MM/yyyy HH:mm') : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+    </div>
+  );
+};
+
+const BulkEmailJobsSettings = () => {
+  const { toast } = useToast();
+  const { jobs, isLoading, refresh, cancelJob } = useBulkEmailJobs();
+  const [reportJobId, setReportJobId] = useState<string | null>(null);
+  const reportJob = jobs.find(j => j.id === reportJobId) || null;
+
+  const handleCancel = async (job: BulkEmailJob) => {
+    if (!confirm(`Stop this bulk send? Emails not yet sent to the remaining recipients will be cancelled.`)) return;
+
+    try {
+      const count = await cancelJob(job.id);
+      toast({ title: "Bulk send cancelled", description: `${count} pending email(s) cancelled` });
+    } catch (error) {
+      console.error('Error cancelling bulk send:', error);
+      toast({ title: "Error", description: "Failed to cancel bulk send", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Bulk emails are sent from the server at the rate chosen when sending, and pause automatically when
+          Microsoft throttles the mailbox. Open a send to see the result for each recipient.
+        </p>
+        <Button variant="outline" size="icon" onClick={refresh} title="Refresh" className="shrink-0">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <Send className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No bulk sends yet</p>
+              <p className="text-sm">Select leads or contacts and choose "Send Email" to start one</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Subject</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead className="w-[220px]">Progress</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => (
+                <TableRow key={job.id}>
+                  <TableCell className="max-w-[240px]">
+                    <div className="text-sm font-medium truncate">{job.subject}</div>
+                    <div className="text-xs text-muted-foreground">{job.sender_email} · {job.rate_per_minute}/min</div>
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {format(new Date(job.started_at || job.created_at), 'dd/MM/yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={progressOf(job)} className="h-2" />
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {job.sent_count} sent · {job.failed_count} failed · {job.skipped_count} skipped of {job.total_count}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={jobStatusVariants[job.status]}>{BULK_JOB_STATUS_LABELS[job.status]}</Badge>
+                    {job.last_error && job.status !== 'completed' && (
+                      <p className="text-xs text-muted-foreground mt-1 max-w-[200px] truncate" title={job.last_error}>
+                        {job.last_error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => setReportJobId(job.id)} title="Delivery report">
+                        <FileBarChart className="h-4 w-4" />
+                      </Button>
+                      {(job.status === 'queued' || job.status === 'processing') && (
+                        <Button variant="ghost" size="icon" onClick={() => handleCancel(job)} title="Cancel">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Dialog open={!!reportJob} onOpenChange={(open) => !open && setReportJobId(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">Delivery Report: {reportJob?.subject}</DialogTitle>
+          </DialogHeader>
+          {reportJob && <RecipientReport job={reportJob} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default BulkEmailJobsSettings;
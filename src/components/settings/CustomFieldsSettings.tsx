@@ -0,0 +1,405 @@
+import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ListPlus, Plus, Pencil, Trash2, RefreshCw, ChevronUp, ChevronDown } from 'lucide-react';
+import {
+  CUSTOM_FIELD_TYPE_LABELS,
+  CUSTOM_FIELD_TYPES,
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType,
+  getCustomFieldOptions,
+  toCustomFieldName,
+} from '@/utils/customFieldUtils';
+
+const entityTabs: { value: CustomFieldEntity; label: string }[] = [
+  { value: 'lead', label: 'Leads' },
+  { value: 'contact', label: 'Contacts' },
+  { value: 'account', label: 'Accounts' },
+  { value: 'deal', label: 'Deals' },
+];
+
+const emptyForm = {
+  field_label: '',
+  field_name: '',
+  field_type: 'text' as CustomFieldType,
+  options: '',
+  is_required: false,
+  is_visible: true,
+};
+
+const CustomFieldsSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [entity, setEntity] = useState<CustomFieldEntity>('lead');
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingField, setEditingField] = useState<CustomFieldDefinition | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchFields = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('crm_custom_fields')
+        .select('*')
+        .order('display_order')
+        .order('field_label');
+
+      if (error) throw error;
+
+      setFields((data || []).map(field => ({
+        id: field.id,
+        entity_type: field.entity_type as CustomFieldEntity,
+        field_name: field.field_name,
+        field_label: field.field_label,
+        field_type: (field.field_type || 'text') as CustomFieldType,
+        options: getCustomFieldOptions(field.field_options),
+        is_required: !!field.is_required,
+        is_visible: field.is_visible ?? true,
+        display_order: field.display_order ?? 0,
+      })));
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+      toast.error('Failed to load custom fields');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFields();
+  }, []);
+
+  // Forms, tables and CSV read definitions through the ['custom-fields', entity] query
+  const refresh = () => {
+    fetchFields();
+    queryClient.invalidateQueries({ queryKey: ['custom-fields'] });
+  };
+
+  const entityFields = fields.filter(f => f.entity_type === entity);
+  const hasOptions = formData.field_type === 'select' || formData.field_type === 'multiselect';
+
+  const handleOpenModal = (field?: CustomFieldDefinition) => {
+    if (field) {
+      setEditingField(field);
+      setFormData({
+        field_label: field.field_label,
+        field_name: field.field_name,
+        field_type: field.field_type,
+        options: field.options.join('\n'),
+        is_required: field.is_required,
+        is_visible: field.is_visible,
+      });
+    } else {
+      setEditingField(null);
+      setFormData(emptyForm);
+    }
+    setShowModal(true);
+  };
+
+  const handleLabelChange = (label: string) => {
+    // The field name follows the label until the field is saved; stored values are keyed by it
+    setFormData(prev => ({
+      ...prev,
+      field_label: label,
+      field_name: editingField ? prev.field_name : toCustomFieldName(label),
+    }));
+  };
+
+  const handleSave = async () => {
+    const label = formData.field_label.trim();
+    if (!label) {
+      toast.error('Field label is required');
+      return;
+    }
+    if (!/^[a-z][a-z0-9_]*$/.test(formData.field_name)) {
+      toast.error('Field name must start with a letter and contain only lowercase letters, numbers and underscores');
+      return;
+    }
+    if (!editingField && entityFields.some(f => f.field_name === formData.field_name)) {
+      toast.error('A field with this name already exists');
+      return;
+    }
+
+    const options = Array.from(new Set(formData.options.split('\n').map(o => o.trim()).filter(Boolean)));
+    if (hasOptions && options.length === 0) {
+      toast.error('Add at least one option');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        field_label: label,
+        field_type: formData.field_type,
+        field_options: hasOptions ? options : null,
+        is_required: formData.is_required,
+        is_visible: formData.is_visible,
+      };
+
+      if (editingField) {
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .update({ ...payload, updated_at: new Date().toISOString() })
+          .eq('id', editingField.id);
+
+        if (error) throw error;
+        toast.success('Custom field updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .insert({
+            ...payload,
+            entity_type: entity,
+            field_name: formData.field_name,
+            display_order: entityFields.length,
+            created_by: user?.id,
+          });
+
+        if (error) throw error;
+        toast.success('Custom field created successfully');
+      }
+
+      setShowModal(false);
+      refresh();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error('Failed to save custom field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (field: CustomFieldDefinition) => {
+    if (!confirm(`Delete "${field.field_label}"? Values already stored on records are kept but no longer shown.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('crm_custom_fields')
+        .delete()
+        .eq('id', field.id);
+
+      if (error) throw error;
+      toast.success('Custom field deleted');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error('Failed to delete custom field');
+    }
+  };
+
+  const handleToggleVisible = async (field: CustomFieldDefinition) => {
+    try {
+      const { error } = await supabase
+        .from('crm_custom_fields')
+        .update({ is_visible: !field.is_visible })
+        .eq('id', field.id);
+
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error toggling custom field:', error);
+      toast.error('Failed to update custom field');
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= entityFields.length) return;
+
+    const reordered = [...entityFields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      const results = await Promise.all(
+        reordered.map((field, i) =>
+          supabase.from('crm_custom_fields').update({ display_order: i }).eq('id', field.id)
+        )
+      );
+      const failed = results.find(r => r.error);
+      if (failed) throw failed.error;
+      refresh();
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      toast.error('Failed to reorder custom fields');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs value={entity} onValueChange={(v) => setEntity(v as CustomFieldEntity)}>
+          <TabsList>
+            {entityTabs.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <Button onClick={() => handleOpenModal()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Field
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : entityFields.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <ListPlus className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No custom fields yet</p>
+              <p className="text-sm">Fields added here appear in forms, optional table columns and CSV files</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {entityFields.map((field, index) => (
+            <Card key={field.id} className={!field.is_visible ? 'opacity-60' : ''}>
+              <CardContent className="py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h4 className="font-medium">{field.field_label}</h4>
+                      <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[field.field_type] || field.field_type}</Badge>
+                      {field.is_required && <Badge variant="secondary">Required</Badge>}
+                      {!field.is_visible && <Badge variant="secondary">Hidden</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground font-mono">{field.field_name}</p>
+                    {field.options.length > 0 && (
+                      <p className="text-sm text-muted-foreground mt-1">Options: {field.options.join(', ')}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                      <ChevronUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" disabled={index === entityFields.length - 1} onClick={() => handleMove(index, 1)}>
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                    <Switch checked={field.is_visible} onCheckedChange={() => handleToggleVisible(field)} />
+                    <Button variant="ghost" size="icon" onClick={() => handleOpenModal(field)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(field)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingField ? 'Edit Custom Field' : 'Create Custom Field'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="field_label">Label *</Label>
+              <Input
+                id="field_label"
+                value={formData.field_label}
+                onChange={(e) => handleLabelChange(e.target.value)}
+                placeholder="Renewal Date"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="field_name">Field Name</Label>
+              <Input
+                id="field_name"
+                value={formData.field_name}
+                onChange={(e) => setFormData({ ...formData, field_name: e.target.value })}
+                disabled={!!editingField}
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Used as the key for stored values and cannot be changed after creation
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={formData.field_type}
+                onValueChange={(v) => setFormData({ ...formData, field_type: v as CustomFieldType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>
+                      {CUSTOM_FIELD_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {hasOptions && (
+              <div className="space-y-2">
+                <Label htmlFor="field_options">Options *</Label>
+                <Textarea
+                  id="field_options"
+                  value={formData.options}
+                  onChange={(e) => setFormData({ ...formData, options: e.target.value })}
+                  placeholder="One option per line"
+                  rows={4}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={formData.is_required}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_required: checked })}
+                />
+                <Label>Required</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={formData.is_visible}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_visible: checked })}
+                />
+                <Label>Visible</Label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowModal(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editingField ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CustomFieldsSettings;
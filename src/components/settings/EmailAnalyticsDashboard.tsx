@@ -19,13 +19,20 @@ import {
   Cell,
   Legend,
 } from 'recharts';
-import { Mail, Eye, TrendingUp, Download } from 'lucide-react';
+import { Mail, Eye, TrendingUp, Download, MousePointerClick } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
 interface DailyStats {
   date: string;
   sent: number;
   opened: number;
+  clicked: number;
+}
+
+interface LinkStats {
+  url: string;
+  clicks: number;
+  emails: number;
 }
 
 interface StatusDistribution {
@@ -38,10 +45,13 @@ export const EmailAnalyticsDashboard = () => {
   const [dateRange, setDateRange] = useState('30');
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
   const [statusDistribution, setStatusDistribution] = useState<StatusDistribution[]>([]);
+  const [topLinks, setTopLinks] = useState<LinkStats[]>([]);
   const [totals, setTotals] = useState({
     totalSent: 0,
     totalOpened: 0,
     openRate: 0,
+    totalClicked: 0,
+    clickRate: 0,
   });
 
   useEffect(() => {
@@ -69,11 +79,14 @@ export const EmailAnalyticsDashboard = () => {
         // Calculate totals
         const totalSent = emails?.length || 0;
         const totalOpened = emails?.filter(e => e.open_count && e.open_count > 0).length || 0;
+        const totalClicked = emails?.filter(e => e.click_count && e.click_count > 0).length || 0;
 
         setTotals({
           totalSent,
           totalOpened,
           openRate: totalSent > 0 ? Math.round((totalOpened / totalSent) * 100) : 0,
+          totalClicked,
+          clickRate: totalSent > 0 ? Math.round((totalClicked / totalSent) * 100) : 0,
         });
 
         // Calculate daily stats
@@ -88,6 +101,7 @@ export const EmailAnalyticsDashboard = () => {
             date: format(date, 'dd MMM'),
             sent: dayEmails.length,
             opened: dayEmails.filter(e => e.open_count && e.open_count > 0).length,
+            clicked: dayEmails.filter(e => e.click_count && e.click_count > 0).length,
           };
         });
 
@@ -104,6 +118,31 @@ export const EmailAnalyticsDashboard = () => {
           Object.entries(statusCounts).map(([name, value]) => ({ name, value }))
         );
 
+        // Per-link clicks on emails sent in the range, excluding link scanners
+        const { data: clicks, error: clicksError } = await supabase
+          .from('email_link_clicks')
+          .select('url, email_history_id, email_history!inner(sent_by, sent_at)')
+          .eq('is_bot', false)
+          .eq('email_history.sent_by', user.data.user.id)
+          .gte('email_history.sent_at', startDate.toISOString())
+          .lte('email_history.sent_at', endDate.toISOString());
+
+        if (clicksError) throw clicksError;
+
+        const linkMap: Record<string, { clicks: number; emails: Set<string> }> = {};
+        (clicks || []).forEach(click => {
+          const entry = linkMap[click.url] || (linkMap[click.url] = { clicks: 0, emails: new Set() });
+          entry.clicks++;
+          entry.emails.add(click.email_history_id);
+        });
+
+        setTopLinks(
+          Object.entries(linkMap)
+            .map(([url, entry]) => ({ url, clicks: entry.clicks, emails: entry.emails.size }))
+            .sort((a, b) => b.clicks - a.clicks)
+            .slice(0, 10)
+        );
+
       } catch (error) {
         console.error('Error fetching analytics:', error);
       } finally {
@@ -120,7 +159,7 @@ export const EmailAnalyticsDashboard = () => {
   const getChartSummary = () => {
     const recentStats = dailyStats.slice(-7);
     const avgSent = recentStats.reduce((a, b) => a + b.sent, 0) / Math.max(recentStats.length, 1);
-    return `Email activity chart showing ${totals.totalSent} emails sent, ${totals.openRate}% open rate over ${dateRange} days. Average ${avgSent.toFixed(1)} emails sent per day in the last week.`;
+    return `Email activity chart showing ${totals.totalSent} emails sent, ${totals.openRate}% open rate, ${totals.clickRate}% click rate over ${dateRange} days. Average ${avgSent.toFixed(1)} emails sent per day in the last week.`;
   };
 
   if (loading) {
@@ -158,8 +197,8 @@ export const EmailAnalyticsDashboard = () => {
           <Button 
             variant="outline" 
             onClick={() => {
-              const headers = ["Date", "Sent", "Opened"];
-              const rows = dailyStats.map(stat => [stat.date, stat.sent, stat.opened]);
+              const headers = ["Date", "Sent", "Opened", "Clicked"];
+              const rows = dailyStats.map(stat => [stat.date, stat.sent, stat.opened, stat.clicked]);
               const csvContent = [
                 headers.join(","),
                 ...rows.map(row => row.join(","))
@@ -179,7 +218,7 @@ export const EmailAnalyticsDashboard = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-3">
@@ -221,6 +260,20 @@ export const EmailAnalyticsDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-indigo-100 dark:bg-indigo-900 rounded-lg">
+                <MousePointerClick className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{totals.clickRate}%</p>
+                <p className="text-xs text-muted-foreground">Click Rate ({totals.totalClicked})</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Charts */}
@@ -274,6 +327,14 @@ export const EmailAnalyticsDashboard = () => {
                     dot={false}
                     name="Opened"
                   />
+                  <Line 
+                    type="monotone" 
+                    dataKey="clicked" 
+                    stroke="#6366f1" 
+                    strokeWidth={2}
+                    dot={false}
+                    name="Clicked"
+                  />
                 </LineChart>
               </ResponsiveContainer>
             </div>
@@ -285,6 +346,7 @@ export const EmailAnalyticsDashboard = () => {
                   <th>Date</th>
                   <th>Sent</th>
                   <th>Opened</th>
+                  <th>Clicked</th>
                 </tr>
               </thead>
               <tbody>
@@ -293,6 +355,7 @@ export const EmailAnalyticsDashboard = () => {
                     <td>{stat.date}</td>
                     <td>{stat.sent}</td>
                     <td>{stat.opened}</td>
+                    <td>{stat.clicked}</td>
                   </tr>
                 ))}
               </tbody>
@@ -368,7 +431,7 @@ export const EmailAnalyticsDashboard = () => {
             <div 
               className="h-[250px]"
               role="img"
-              aria-label="Daily engagement bar chart showing sent and opened emails for the last 14 days"
+              aria-label="Daily engagement bar chart showing sent, opened and clicked emails for the last 14 days"
             >
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={dailyStats.slice(-14)}>
@@ -394,11 +457,47 @@ export const EmailAnalyticsDashboard = () => {
                   <Legend />
                   <Bar dataKey="sent" fill="#3b82f6" radius={[4, 4, 0, 0]} name="Sent" />
                   <Bar dataKey="opened" fill="#10b981" radius={[4, 4, 0, 0]} name="Opened" />
+                  <Bar dataKey="clicked" fill="#6366f1" radius={[4, 4, 0, 0]} name="Clicked" />
                 </BarChart>
               </ResponsiveContainer>
             </div>
           </CardContent>
         </Card>
+
+        {/* Top Links */}
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="text-base">Top Clicked Links</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {topLinks.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="pb-2 font-medium">Link</th>
+                    <th className="pb-2 font-medium text-right">Clicks</th>
+                    <th className="pb-2 font-medium text-right">Emails</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topLinks.map(link => (
+                    <tr key={link.url} className="border-t">
+                      <td className="py-2 pr-4 max-w-0 w-full">
+                        <a href={link.url} target="_blank" rel="noopener noreferrer" className="block truncate text-primary hover:underline">
+                          {link.url}
+                        </a>
+                      </td>
+                      <td className="py-2 text-right tabular-nums">{link.clicks}</td>
+                      <td className="py-2 pl-4 text-right tabular-nums">{link.emails}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="py-4 text-center text-sm text-muted-foreground">No link clicks in this period</p>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -36,6 +36,7 @@ interface EmailHistoryRecord {
   bounce_type: string | null;
   bounce_reason: string | null;
   bounced_at: string | null;
+  send_error: string | null;
   reply_count: number | null;
   replied_at: string | null;
   last_reply_at: string | null;
@@ -217,7 +218,7 @@ const EmailHistorySettings = () => {
     try {
       const { data, error } = await supabase
         .from('email_history')
-        .select('id, recipient_email, recipient_name, sender_email, subject, body, status, sent_at, sent_by, delivered_at, opened_at, open_count, unique_opens, is_valid_open, click_count, clicked_at, contact_id, lead_id, account_id, bounce_type, bounce_reason, bounced_at, reply_count, replied_at, last_reply_at')
+        .select('id, recipient_email, recipient_name, sender_email, subject, body, status, sent_at, sent_by, delivered_at, opened_at, open_count, unique_opens, is_valid_open, click_count, clicked_at, contact_id, lead_id, account_id, bounce_type, bounce_reason, bounced_at, send_error, reply_count, replied_at, last_reply_at')
         .eq('sent_by', user.id)
         .order('sent_at', { ascending: false });
 
@@ -901,6 +902,18 @@ const EmailHistorySettings = () => {
                 )}
               </div>
 
+              {selectedEmail.status === 'failed' && selectedEmail.send_error && (
+                <div className="p-4 bg-destructive/10 rounded-lg border border-destructive/20">
+                  <p className="font-semibold text-destructive">Sending Failed</p>
+                  <p className="text-sm text-muted-foreground">
+                    The mail server reported an error. The email may not have been delivered.
+                  </p>
+                  <pre className="text-xs bg-muted p-3 rounded mt-2 overflow-x-auto whitespace-pre-wrap break-words font-mono">
+                    {selectedEmail.send_error}
+                  </pre>
+                </div>
+              )}
+
               {/* User-friendly bounce info */}
               {selectedEmail.bounce_type && (() => {
                 const bounceInfo = getBounceExplanation(selectedEmail.bounce_type, selectedEmail.bounce_reason);
@@ -0,0 +1,392 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ListOrdered, Loader2, Pencil, Plus, Trash2, Users, X } from "lucide-react";
+import {
+  ENROLLMENT_STATUS_LABELS,
+  EmailSequence,
+  EnrollmentStatus,
+  SequenceInput,
+  useEmailSequences,
+  useSequenceEnrollments,
+} from "@/hooks/useEmailSequences";
+
+interface TemplateOption {
+  id: string;
+  name: string;
+}
+
+const statusVariants: Record<EnrollmentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  active: "default",
+  completed: "secondary",
+  replied: "secondary",
+  bounced: "destructive",
+  stopped: "outline",
+  failed: "destructive",
+};
+
+const emptyForm: SequenceInput = {
+  name: "",
+  description: "",
+  is_active: true,
+  steps: [{ template_id: "", wait_days: 0 }],
+};
+
+const EmailSequencesSettings = () => {
+  const { toast } = useToast();
+  const { sequences, isLoading, saveSequence, deleteSequence, setSequenceActive, stopEnrollment } = useEmailSequences();
+  const [templates, setTemplates] = useState<TemplateOption[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<EmailSequence | null>(null);
+  const [formData, setFormData] = useState<SequenceInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [viewingSequence, setViewingSequence] = useState<EmailSequence | null>(null);
+  const { enrollments, isLoading: enrollmentsLoading } = useSequenceEnrollments(viewingSequence?.id ?? null);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      const { data, error } = await supabase.from('email_templates').select('id, name').order('name');
+      if (error) {
+        console.error('Error fetching templates:', error);
+        return;
+      }
+      setTemplates(data || []);
+    };
+    fetchTemplates();
+  }, []);
+
+  const templateName = (id: string) => templates.find(t => t.id === id)?.name || 'Unknown template';
+
+  const handleOpenModal = (sequence?: EmailSequence) => {
+    if (sequence) {
+      setEditingSequence(sequence);
+      setFormData({
+        name: sequence.name,
+        description: sequence.description || "",
+        is_active: sequence.is_active,
+        steps: sequence.steps.map(step => ({ template_id: step.template_id, wait_days: step.wait_days })),
+      });
+    } else {
+      setEditingSequence(null);
+      setFormData(emptyForm);
+    }
+    setShowModal(true);
+  };
+
+  const updateStep = (index: number, updates: Partial<SequenceInput['steps'][number]>) => {
+    setFormData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...updates } : step)),
+    }));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setFormData(prev => {
+      const steps = [...prev.steps];
+      const target = index + direction;
+      if (target < 0 || target >= steps.length) return prev;
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...prev, steps };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast({ title: "Name required", description: "Please enter a sequence name", variant: "destructive" });
+      return;
+    }
+    if (formData.steps.length === 0 || formData.steps.some(step => !step.template_id)) {
+      toast({ title: "Template required", description: "Choose a template for every step", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveSequence(formData, editingSequence?.id);
+      toast({ title: "Success", description: editingSequence ? "Sequence updated successfully" : "Sequence created successfully" });
+      setShowModal(false);
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      toast({ title: "Error", description: "Failed to save sequence", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (sequence: EmailSequence) => {
+    if (!confirm(`Delete "${sequence.name}"? Its ${sequence.activeEnrollments} active enrollment(s) will stop.`)) return;
+
+    try {
+      await deleteSequence(sequence.id);
+      toast({ title: "Success", description: "Sequence deleted" });
+    } catch (error) {
+      console.error('Error deleting sequence:', error);
+      toast({ title: "Error", description: "Failed to delete sequence", variant: "destructive" });
+    }
+  };
+
+  const handleToggleActive = async (sequence: EmailSequence) => {
+    try {
+      await setSequenceActive(sequence.id, !sequence.is_active);
+    } catch (error) {
+      console.error('Error updating sequence:', error);
+      toast({ title: "Error", description: "Failed to update sequence", variant: "destructive" });
+    }
+  };
+
+  const handleStopEnrollment = async (enrollmentId: string) => {
+    try {
+      await stopEnrollment(enrollmentId);
+    } catch (error) {
+      console.error('Error stopping enrollment:', error);
+      toast({ title: "Error", description: "Failed to stop enrollment", variant: "destructive" });
+    }
+  };
+
+  const describeSteps = (sequence: EmailSequence) =>
+    sequence.steps
+      .map((step, index) => `${index + 1}. ${templateName(step.template_id)}${step.wait_days ? ` (+${step.wait_days}d)` : ''}`)
+      .join(' → ');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Sequences send a series of templates with a wait between steps. A reply or bounce stops the sequence for that recipient.
+          Enroll leads or contacts from the bulk actions on their pages.
+        </p>
+        <Button onClick={() => handleOpenModal()} className="shrink-0">
+          <Plus className="h-4 w-4 mr-2" />
+          New Sequence
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : sequences.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <ListOrdered className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No email sequences yet</p>
+              <p className="text-sm">Create a sequence to follow up automatically over several emails</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {sequences.map(sequence => (
+            <Card key={sequence.id} className={!sequence.is_active ? 'opacity-60' : ''}>
+              <CardContent className="py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h4 className="font-medium">{sequence.name}</h4>
+                      <Badge variant="outline">{sequence.steps.length} step(s)</Badge>
+                      {sequence.activeEnrollments > 0 && (
+                        <Badge variant="secondary">{sequence.activeEnrollments} active</Badge>
+                      )}
+                    </div>
+                    {sequence.description && (
+                      <p className="text-sm text-muted-foreground">{sequence.description}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1 truncate">{describeSteps(sequence)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch checked={sequence.is_active} onCheckedChange={() => handleToggleActive(sequence)} />
+                    <Button variant="ghost" size="icon" onClick={() => setViewingSequence(sequence)} title="Enrollments">
+                      <Users className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleOpenModal(sequence)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(sequence)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSequence ? 'Edit Sequence' : 'Create Sequence'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence_name">Name *</Label>
+              <Input
+                id="sequence_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. New lead follow-up"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence_description">Description</Label>
+              <Textarea
+                id="sequence_description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              {formData.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2 rounded-md border p-2">
+                  <span className="w-6 text-center text-sm font-medium text-muted-foreground">{index + 1}</span>
+                  <div className="flex items-center gap-1 text-sm text-muted-foreground shrink-0">
+                    Wait
+                    <Input
+                      type="number"
+                      min={0}
+                      value={step.wait_days}
+                      onChange={(e) => updateStep(index, { wait_days: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      className="h-8 w-16"
+                    />
+                    {index === 0 ? 'days, then send' : 'days after previous, then send'}
+                  </div>
+                  <Select value={step.template_id} onValueChange={(v) => updateStep(index, { template_id: v })}>
+                    <SelectTrigger className="h-8 flex-1">
+                      <SelectValue placeholder="Choose template..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveStep(index, 1)} disabled={index === formData.steps.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setFormData({ ...formData, steps: formData.steps.filter((_, i) => i !== index) })}
+                    disabled={formData.steps.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData({ ...formData, steps: [...formData.steps, { template_id: "", wait_days: 3 }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Step
+              </Button>
+              {editingSequence && editingSequence.activeEnrollments > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Active enrollments continue from their current step number with the updated steps.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowModal(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingSequence ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Enrollments */}
+      <Dialog open={!!viewingSequence} onOpenChange={(open) => !open && setViewingSequence(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Enrollments · {viewingSequence?.name}</DialogTitle>
+          </DialogHeader>
+          {enrollmentsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : enrollments.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No one is enrolled in this sequence yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Next Send</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {enrollments.map(enrollment => (
+                  <TableRow key={enrollment.id}>
+                    <TableCell>
+                      <div className="font-medium">{enrollment.recipient_name || enrollment.recipient_email}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {enrollment.lead_id ? 'Lead' : 'Contact'} · {enrollment.recipient_email}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[enrollment.status]} title={enrollment.last_error || undefined}>
+                        {ENROLLMENT_STATUS_LABELS[enrollment.status] || enrollment.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {enrollment.current_step} / {viewingSequence?.steps.length ?? 0} sent
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {enrollment.status === 'active' && enrollment.next_send_at
+                        ? format(new Date(enrollment.next_send_at), 'dd MMM yyyy HH:mm')
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      {enrollment.status === 'active' && (
+                        <Button variant="ghost" size="sm" onClick={() => handleStopEnrollment(enrollment.id)}>
+                          Stop
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EmailSequencesSettings;
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Ban, Loader2, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { EmailSuppression, useEmailSuppressions } from "@/hooks/useEmailSuppressions";
+import { SUPPRESSION_REASON_LABELS, SuppressionReason } from "@/utils/emailSuppressions";
+
+const reasonVariants: Record<SuppressionReason, "default" | "secondary" | "destructive" | "outline"> = {
+  unsubscribed: "secondary",
+  hard_bounce: "destructive",
+  manual: "outline",
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const EmailSuppressionsSettings = () => {
+  const { toast } = useToast();
+  const { isAdmin, isManager } = useUserRole();
+  const [reasonFilter, setReasonFilter] = useState<SuppressionReason | 'all'>('all');
+  const [search, setSearch] = useState("");
+  const { suppressions, isLoading, refresh, addSuppression, removeSuppression } = useEmailSuppressions(reasonFilter, search);
+  const [addOpen, setAddOpen] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [newNotes, setNewNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const canRemove = isAdmin || isManager;
+
+  const openAdd = () => {
+    setNewEmail("");
+    setNewNotes("");
+    setAddOpen(true);
+  };
+
+  const handleAdd = async () => {
+    if (!EMAIL_PATTERN.test(newEmail.trim())) {
+      toast({ title: "Invalid email", description: "Enter a single email address", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const added = await addSuppression(newEmail, newNotes);
+      toast(added
+        ? { title: "Address suppressed", description: `${newEmail.trim()} won't be emailed` }
+        : { title: "Already suppressed", description: `${newEmail.trim()} is already on the list` });
+      setAddOpen(false);
+    } catch (error) {
+      console.error('Error adding suppression:', error);
+      toast({ title: "Error", description: "Failed to add the address", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (suppression: EmailSuppression) => {
+    const warning = suppression.reason === 'unsubscribed'
+      ? `${suppression.email} unsubscribed. Only remove it if they asked to receive emails again. Continue?`
+      : `Allow emails to ${suppression.email} again?`;
+    if (!confirm(warning)) return;
+
+    try {
+      await removeSuppression(suppression);
+      toast({ title: "Address removed from the suppression list" });
+    } catch (error) {
+      console.error('Error removing suppression:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove the address",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Addresses here are never emailed. Recipients are added when they use the unsubscribe link in a bulk or
+          sequence email, or when an email to them hard-bounces.
+        </p>
+        <Button onClick={openAdd} className="gap-2 shrink-0">
+          <Plus className="h-4 w-4" />
+          Add Address
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 max-w-sm">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search addresses..."
+            className="pl-8"
+          />
+        </div>
+        <Select value={reasonFilter} onValueChange={(v) => setReasonFilter(v as SuppressionReason | 'all')}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All reasons</SelectItem>
+            {(Object.keys(SUPPRESSION_REASON_LABELS) as SuppressionReason[]).map(reason => (
+              <SelectItem key={reason} value={reason}>{SUPPRESSION_REASON_LABELS[reason]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={refresh} title="Refresh">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : suppressions.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <Ban className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{search.trim() || reasonFilter !== 'all' ? 'No matching addresses' : 'No suppressed addresses'}</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Notes</TableHead>
+                <TableHead>Since</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppressions.map(suppression => (
+                <TableRow key={suppression.id}>
+                  <TableCell className="text-sm font-medium">{suppression.email}</TableCell>
+                  <TableCell>
+                    <Badge variant={reasonVariants[suppression.reason]}>{SUPPRESSION_REASON_LABELS[suppression.reason]}</Badge>
+                  </TableCell>
+                  <TableCell className="max-w-[260px]">
+                    <p className="text-xs text-muted-foreground truncate" title={suppression.notes || undefined}>
+                      {suppression.notes || '—'}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {format(new Date(suppression.created_at), 'dd/MM/yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    {canRemove && (
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(suppression)} title="Remove">
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Suppress Address</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="suppress_email">Email *</Label>
+              <Input
+                id="suppress_email"
+                type="email"
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="name@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="suppress_notes">Notes</Label>
+              <Input
+                id="suppress_notes"
+                value={newNotes}
+                onChange={(e) => setNewNotes(e.target.value)}
+                placeholder="e.g. Asked by phone not to be emailed"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)}>Cancel</Button>
+            <Button onClick={handleAdd} disabled={saving || !newEmail.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Suppress
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EmailSuppressionsSettings;
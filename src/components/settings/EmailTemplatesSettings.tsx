@@ -16,6 +16,7 @@ import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip
 import { TablePagination } from "@/components/shared/TablePagination";
 import TemplatePreviewModal from "./email/TemplatePreviewModal";
 import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { TEMPLATE_VARIABLES, TemplateVariable } from "@/utils/emailTemplateEngine";
 
 interface EmailTemplate {
   id: string;
@@ -184,9 +185,12 @@ const EmailTemplatesSettings = () => {
       toast({ title: "Success", description: "Template deleted successfully" });
     } catch (error) {
       console.error('Delete error:', error);
+      const inSequence = (error as { code?: string })?.code === '23503';
       toast({
         title: "Error",
-        description: "Failed to delete template",
+        description: inSequence
+          ? "This template is used by an email sequence. Remove it from the sequence first."
+          : "Failed to delete template",
         variant: "destructive",
       });
     }
@@ -222,12 +226,10 @@ const EmailTemplatesSettings = () => {
     }
   };
 
-  const availableVariables = [
-    { variable: "{{contact_name}}", description: "Contact's full name" },
-    { variable: "{{company_name}}", description: "Company name" },
-    { variable: "{{position}}", description: "Contact's position" },
-    { variable: "{{email}}", description: "Contact's email" },
-  ];
+  const variableGroups = TEMPLATE_VARIABLES.reduce<Record<string, TemplateVariable[]>>((groups, v) => {
+    (groups[v.group] = groups[v.group] || []).push(v);
+    return groups;
+  }, {});
 
   if (loading) {
     return (
@@ -414,18 +416,30 @@ const EmailTemplatesSettings = () => {
                 placeholder="Write your email content here. Use variables like {{contact_name}} for personalization."
               />
               {/* Variable helper in modal */}
-              <div className="flex flex-wrap gap-2 pt-2">
-                <span className="text-xs text-muted-foreground">Insert variable:</span>
-                {availableVariables.map((v) => (
-                  <Badge 
-                    key={v.variable} 
-                    variant="outline" 
-                    className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors text-xs"
-                    onClick={() => setFormData(prev => ({ ...prev, body: prev.body + v.variable }))}
-                  >
-                    {v.variable}
-                  </Badge>
+              <div className="space-y-1.5 pt-2">
+                {Object.entries(variableGroups).map(([group, variables]) => (
+                  <div key={group} className="flex flex-wrap items-center gap-1.5">
+                    <span className="text-xs text-muted-foreground w-16">{group}:</span>
+                    {variables.map((v) => (
+                      <Tooltip key={v.name}>
+                        <TooltipTrigger asChild>
+                          <Badge 
+                            variant="outline" 
+                            className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors text-xs"
+                            onClick={() => setFormData(prev => ({ ...prev, body: prev.body + `{{${v.name}}}` }))}
+                          >
+                            {`{{${v.name}}}`}
+                          </Badge>
+                        </TooltipTrigger>
+                        <TooltipContent>{v.description}</TooltipContent>
+                      </Tooltip>
+                    ))}
+                  </div>
                 ))}
+                <p className="text-xs text-muted-foreground">
+                  Add a fallback with {"{{first_name|there}}"}. Show a section only when a value exists with{" "}
+                  {"{{#if deal_stage}}...{{else}}...{{/if}}"}, or when it is missing with {"{{#unless phone}}...{{/unless}}"}.
+                </p>
               </div>
             </div>
 
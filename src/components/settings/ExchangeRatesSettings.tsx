@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchExchangeRates, useExchangeRates } from '@/hooks/useExchangeRates';
+import { ExchangeRate, REPORTING_CURRENCIES } from '@/utils/currencyConversion';
+import { ArrowRightLeft, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react';
+
+const emptyForm = {
+  from_currency: 'EUR',
+  to_currency: 'INR',
+  rate: '',
+  effective_date: format(new Date(), 'yyyy-MM-dd'),
+  notes: '',
+};
+
+const ExchangeRatesSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { reportingCurrency } = useExchangeRates();
+  const [saving, setSaving] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: fetchExchangeRates,
+  });
+
+  // Totals, dashboards and deal views all read the shared exchange-rates query
+  const refreshRates = () => queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+
+  const handleOpenModal = (rate?: ExchangeRate) => {
+    if (rate) {
+      setEditingRate(rate);
+      setFormData({
+        from_currency: rate.from_currency,
+        to_currency: rate.to_currency,
+        rate: String(rate.rate),
+        effective_date: rate.effective_date,
+        notes: rate.notes || '',
+      });
+    } else {
+      setEditingRate(null);
+      setFormData(emptyForm);
+    }
+    setShowModal(true);
+  };
+
+  const handleSave = async () => {
+    const rate = parseFloat(formData.rate);
+    if (formData.from_currency === formData.to_currency) {
+      toast.error('Choose two different currencies');
+      return;
+    }
+    if (isNaN(rate) || rate <= 0) {
+      toast.error('Rate must be a positive number');
+      return;
+    }
+    if (!formData.effective_date) {
+      toast.error('Effective date is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const payload = {
+        from_currency: formData.from_currency,
+        to_currency: formData.to_currency,
+        rate,
+        effective_date: formData.effective_date,
+        notes: formData.notes.trim() || null,
+      };
+
+      if (editingRate) {
+        const { error } = await supabase
+          .from('exchange_rates')
+          .update(payload)
+          .eq('id', editingRate.id);
+
+        if (error) throw error;
+        toast.success('Exchange rate updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('exchange_rates')
+          .insert({ ...payload, created_by: user?.id });
+
+        if (error) throw error;
+        toast.success('Exchange rate added successfully');
+      }
+
+      setShowModal(false);
+      refreshRates();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      const code = (error as { code?: string })?.code;
+      toast.error(code === '23505'
+        ? 'A rate for this currency pair already exists on that date'
+        : 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.from_currency} → ${rate.to_currency} rate from ${rate.effective_date}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', rate.id);
+
+      if (error) throw error;
+      toast.success('Exchange rate deleted');
+      refreshRates();
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error('Failed to delete exchange rate');
+    }
+  };
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  // The rate in force today for each pair; older rows are kept for historical deals
+  const currentRateIds = new Set(
+    Object.values(
+      rates
+        .filter(rate => rate.effective_date <= today)
+        .reduce<Record<string, ExchangeRate>>((latest, rate) => {
+          const pair = `${rate.from_currency}-${rate.to_currency}`;
+          if (!latest[pair] || rate.effective_date > latest[pair].effective_date) latest[pair] = rate;
+          return latest;
+        }, {})
+    ).map(rate => rate.id)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Deal values are converted at the rate effective on the deal's signed or expected closing date.
+          Totals are shown in each user's currency preference (yours is {reportingCurrency}).
+        </p>
+        <Button onClick={() => handleOpenModal()} className="shrink-0">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rate
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : rates.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <ArrowRightLeft className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No exchange rates yet</p>
+              <p className="text-sm">Deals in other currencies are left out of totals until a rate is added</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Pair</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Effective</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.map(rate => (
+              <TableRow key={rate.id}>
+                <TableCell className="font-medium">
+                  {rate.from_currency} → {rate.to_currency}
+                  {currentRateIds.has(rate.id) && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  1 {rate.from_currency} = {rate.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })} {rate.to_currency}
+                </TableCell>
+                <TableCell>{rate.effective_date}</TableCell>
+                <TableCell className="text-muted-foreground">{rate.notes || '-'}</TableCell>
+                <TableCell>
+                  <div className="flex items-center justify-end gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => handleOpenModal(rate)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(rate)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingRate ? 'Edit Exchange Rate' : 'Add Exchange Rate'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>From</Label>
+                <Select
+                  value={formData.from_currency}
+                  onValueChange={(v) => setFormData({ ...formData, from_currency: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORTING_CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>To</Label>
+                <Select
+                  value={formData.to_currency}
+                  onValueChange={(v) => setFormData({ ...formData, to_currency: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORTING_CURRENCIES.map(currency => (
+                      <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rate_value">Rate *</Label>
+                <Input
+                  id="rate_value"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={formData.rate}
+                  onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                  placeholder="0.00"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_date">Effective from *</Label>
+                <Input
+                  id="rate_date"
+                  type="date"
+                  value={formData.effective_date}
+                  onChange={(e) => setFormData({ ...formData, effective_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              1 {formData.from_currency} = {formData.rate || '?'} {formData.to_currency}. The reverse direction uses the inverse rate.
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="rate_notes">Notes</Label>
+              <Input
+                id="rate_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="e.g. ECB reference rate"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowModal(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editingRate ? 'Update' : 'Add'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ExchangeRatesSettings;
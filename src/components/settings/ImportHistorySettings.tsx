@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { FileUp, Loader2, RefreshCw, Undo2 } from "lucide-react";
+import { ImportBatch, useImportBatches } from "@/hooks/useImportBatches";
+import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import type { ImportBatchStatus, ImportBatchTable } from "@/hooks/import-export/importBatch";
+
+const STATUS_LABELS: Record<ImportBatchStatus, string> = {
+  in_progress: 'In progress',
+  completed: 'Completed',
+  failed: 'Failed',
+  rolled_back: 'Rolled back',
+};
+
+const statusVariants: Record<ImportBatchStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  in_progress: "outline",
+  completed: "default",
+  failed: "destructive",
+  rolled_back: "secondary",
+};
+
+const MODULE_LABELS: Record<ImportBatchTable, string> = {
+  leads: 'Leads',
+  deals: 'Deals',
+};
+
+// An import still running after this long was cut off (the tab closed mid-import) and never counted its rows
+const ABANDONED_AFTER_MS = 60 * 60 * 1000;
+
+const isAbandoned = (batch: ImportBatch) => Date.now() - new Date(batch.created_at).getTime() > ABANDONED_AFTER_MS;
+
+const ImportHistorySettings = () => {
+  const { toast } = useToast();
+  const [moduleFilter, setModuleFilter] = useState<ImportBatchTable | 'all'>('all');
+  const { batches, isLoading, refresh, rollbackBatch } = useImportBatches(moduleFilter);
+  const userIds = batches.flatMap(batch => [batch.user_id, batch.rolled_back_by]).filter(Boolean) as string[];
+  const { displayNames } = useUserDisplayNames([...new Set(userIds)]);
+  const [confirmBatch, setConfirmBatch] = useState<ImportBatch | null>(null);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+  const handleRollback = async () => {
+    const batch = confirmBatch;
+    setConfirmBatch(null);
+    if (!batch) return;
+
+    setRollingBack(batch.id);
+    try {
+      const { deleted, restored, skipped } = await rollbackBatch(batch);
+      toast({
+        title: "Import rolled back",
+        description: `${deleted} ${MODULE_LABELS[batch.entity_type].toLowerCase()} removed, ${restored} restored`
+          + (skipped > 0 ? `. ${skipped} deleted, edited or re-imported since were left as they are.` : ''),
+      });
+    } catch (error) {
+      console.error('Error rolling back import:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to roll back the import",
+        variant: "destructive",
+      });
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Every lead and deal import is kept as a batch. Rolling one back deletes the records it created and
+          puts the records it updated back the way they were.
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <Select value={moduleFilter} onValueChange={(v) => setModuleFilter(v as ImportBatchTable | 'all')}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All modules</SelectItem>
+              {(Object.keys(MODULE_LABELS) as ImportBatchTable[]).map(module => (
+                <SelectItem key={module} value={module}>{MODULE_LABELS[module]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={refresh} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : batches.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <FileUp className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No imports yet</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Module</TableHead>
+                <TableHead>Imported By</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-right">Created</TableHead>
+                <TableHead className="text-right">Updated</TableHead>
+                <TableHead className="text-right">Rejected</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map(batch => {
+                const canRollBack = batch.status === 'in_progress'
+                  ? isAbandoned(batch)
+                  : batch.status !== 'rolled_back' && batch.created_count + batch.updated_count > 0;
+                return (
+                  <TableRow key={batch.id}>
+                    <TableCell className="text-sm font-medium max-w-[220px] truncate" title={batch.file_name || undefined}>
+                      {batch.file_name || '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">{MODULE_LABELS[batch.entity_type]}</TableCell>
+                    <TableCell className="text-sm">{displayNames[batch.user_id] || '—'}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(batch.created_at), 'dd/MM/yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell className="text-sm text-right">{batch.created_count}</TableCell>
+                    <TableCell className="text-sm text-right">{batch.updated_count}</TableCell>
+                    <TableCell className="text-sm text-right">{batch.error_count}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={statusVariants[batch.status]}
+                        title={batch.rolled_back_at
+                          ? `Rolled back ${format(new Date(batch.rolled_back_at), 'dd/MM/yyyy HH:mm')}${batch.rolled_back_by ? ` by ${displayNames[batch.rolled_back_by] || 'an admin'}` : ''}`
+                          : undefined}
+                      >
+                        {STATUS_LABELS[batch.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {canRollBack && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => setConfirmBatch(batch)}
+                          disabled={rollingBack !== null}
+                        >
+                          {rollingBack === batch.id
+                            ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            : <Undo2 className="h-4 w-4 mr-2" />}
+                          Roll Back
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <AlertDialog open={!!confirmBatch} onOpenChange={(open) => !open && setConfirmBatch(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Import</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmBatch && (
+                <>
+                  The {MODULE_LABELS[confirmBatch.entity_type].toLowerCase()} this import created will be deleted and the
+                  ones it updated restored to how they were before. Records edited or re-imported since the import are
+                  left as they are. This cannot be undone.
+                  <span className="block font-mono text-sm bg-muted p-2 rounded mt-2">{confirmBatch.file_name}</span>
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRollback}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ImportHistorySettings;
@@ -23,6 +23,9 @@ import { useAccountsImportExport } from '@/hooks/useAccountsImportExport';
 import { useDealsImportExport } from '@/hooks/useDealsImportExport';
 import { useMeetingsImportExport } from '@/hooks/useMeetingsImportExport';
 import { useTasksImportExport } from '@/hooks/useTasksImportExport';
+import { ImportFileInput } from '@/components/shared/ImportFileInput';
+import { ImportMappingDialog } from '@/components/shared/ImportMappingDialog';
+import type { ParsedCSV } from '@/utils/csvParser';
 
 interface ModuleConfig {
   id: string;
@@ -32,6 +35,10 @@ interface ModuleConfig {
   color: string;
 }
 
+// Modules whose import goes through the shared pipeline, which also reads .xlsx workbooks and
+// lets the user check the column mapping first
+const SPREADSHEET_MODULES = ['leads', 'contacts', 'deals'];
+
 const MODULES: ModuleConfig[] = [
   { id: 'leads', name: 'Leads', table: 'leads', icon: <FileText className="h-5 w-5" />, color: 'border-l-blue-500' },
   { id: 'contacts', name: 'Contacts', table: 'contacts', icon: <Users className="h-5 w-5" />, color: 'border-l-green-500' },
@@ -48,6 +55,7 @@ const ModuleImportExport = () => {
   const [activeImport, setActiveImport] = useState<string | null>(null);
   const [activeExport, setActiveExport] = useState<string | null>(null);
   const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+  const [pendingImport, setPendingImport] = useState<{ moduleId: string; file: File; sheet?: string } | null>(null);
 
   // Import/Export hooks
   const leadsHook = useSimpleLeadsImportExport(() => fetchCounts());
@@ -85,23 +93,23 @@ const ModuleImportExport = () => {
     fileInputRefs.current[moduleId]?.click();
   };
 
-  const handleFileChange = async (moduleId: string, file: File | null) => {
+  const handleFileChange = async (moduleId: string, file: File | null, sheet?: string, mapped?: ParsedCSV) => {
     if (!file) return;
 
     setActiveImport(moduleId);
     try {
       switch (moduleId) {
         case 'leads':
-          await leadsHook.handleImport(file);
+          await leadsHook.handleImport(file, sheet, mapped);
           break;
         case 'contacts':
-          await contactsHook.handleImport(file);
+          await contactsHook.handleImport(file, sheet, mapped);
           break;
         case 'accounts':
           await accountsHook.handleImport(file);
           break;
         case 'deals':
-          await dealsHook.handleImport(file);
+          await dealsHook.handleImport(file, sheet, mapped);
           break;
         case 'meetings':
           await meetingsHook.handleImport(file);
@@ -294,17 +302,37 @@ const ModuleImportExport = () => {
                 </div>
 
                 {/* Hidden file input */}
-                <input
-                  type="file"
-                  accept=".csv"
-                  className="hidden"
-                  ref={(el) => { fileInputRefs.current[module.id] = el; }}
-                  onChange={(e) => handleFileChange(module.id, e.target.files?.[0] || null)}
-                />
+                {SPREADSHEET_MODULES.includes(module.id) ? (
+                  <ImportFileInput
+                    ref={(el) => { fileInputRefs.current[module.id] = el; }}
+                    onFileSelected={(file, sheet) => setPendingImport({ moduleId: module.id, file, sheet })}
+                  />
+                ) : (
+                  <input
+                    type="file"
+                    accept=".csv"
+                    className="hidden"
+                    ref={(el) => { fileInputRefs.current[module.id] = el; }}
+                    onChange={(e) => handleFileChange(module.id, e.target.files?.[0] || null)}
+                  />
+                )}
               </CardContent>
             </Card>
           ))}
         </div>
+
+        {pendingImport && (
+          <ImportMappingDialog
+            file={pendingImport.file}
+            sheet={pendingImport.sheet}
+            tableName={pendingImport.moduleId}
+            onCancel={() => setPendingImport(null)}
+            onConfirm={(data) => {
+              setPendingImport(null);
+              handleFileChange(pendingImport.moduleId, pendingImport.file, pendingImport.sheet, data);
+            }}
+          />
+        )}
       </CardContent>
     </Card>
   );
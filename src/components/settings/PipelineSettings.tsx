@@ -5,7 +5,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
 import { 
@@ -48,6 +50,12 @@ interface PipelineStage {
   is_lost_stage: boolean;
 }
 
+interface StageReassignment {
+  stage: PipelineStage;
+  dealCount: number;
+  action: 'deactivate' | 'delete';
+}
+
 interface LeadStatus {
   id: string;
   status_name: string;
@@ -72,6 +80,7 @@ const colorOptions = [
 
 const PipelineSettings = () => {
   const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [stages, setStages] = useState<PipelineStage[]>([]);
@@ -84,6 +93,8 @@ const PipelineSettings = () => {
   const [statusToDelete, setStatusToDelete] = useState<LeadStatus | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
+  const [stageReassignment, setStageReassignment] = useState<StageReassignment | null>(null);
+  const [reassignTarget, setReassignTarget] = useState('');
   
   // Track initial state for unsaved changes detection
   const initialStagesRef = useRef<string>('');
@@ -143,6 +154,21 @@ const PipelineSettings = () => {
     }
   };
 
+  // Deals, the board and stage pickers all read the cached pipeline, so refresh it after any stage change
+  const invalidateStageQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['pipeline-stages'] });
+    queryClient.invalidateQueries({ queryKey: ['deals'] });
+  };
+
+  const countDealsInStage = async (stageName: string) => {
+    const { count, error } = await supabase
+      .from('deals')
+      .select('id', { count: 'exact', head: true })
+      .eq('stage', stageName);
+    if (error) throw error;
+    return count || 0;
+  };
+
   // Get colors already used by other stages (excluding current editing stage)
   const getUsedStageColors = () => {
     return stages
@@ -184,31 +210,18 @@ const PipelineSettings = () => {
     setValidationError(null);
 
     try {
-      if (editingStage?.id) {
-        const { error } = await supabase
-          .from('pipeline_stages')
-          .update(editingStage)
-          .eq('id', editingStage.id);
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('pipeline_stages')
-          .insert({
-            stage_name: editingStage?.stage_name,
-            stage_color: editingStage?.stage_color || '#3b82f6',
-            stage_probability: editingStage?.stage_probability || 0,
-            is_active: editingStage?.is_active ?? true,
-            is_won_stage: editingStage?.is_won_stage || false,
-            is_lost_stage: editingStage?.is_lost_stage || false,
-            stage_order: stages.length,
-          });
-        if (error) throw error;
+      // Deactivating a stage that still holds deals needs somewhere to move them first
+      const original = stages.find(s => s.id === editingStage?.id);
+      if (original?.is_active && editingStage?.is_active === false) {
+        const dealCount = await countDealsInStage(original.stage_name);
+        if (dealCount > 0) {
+          setReassignTarget('');
+          setStageReassignment({ stage: original, dealCount, action: 'deactivate' });
+          return;
+        }
       }
 
-      toast.success('Stage saved successfully');
-      setShowStageModal(false);
-      setEditingStage(null);
-      fetchData();
+      await persistStage();
     } catch (error) {
       console.error('Error saving stage:', error);
       toast.error('Failed to save stage');
@@ -217,6 +230,36 @@ const PipelineSettings = () => {
     }
   };
 
+  // Throws on failure so callers keep their dialogs open
+  const persistStage = async () => {
+    if (editingStage?.id) {
+      const { error } = await supabase
+        .from('pipeline_stages')
+        .update(editingStage)
+        .eq('id', editingStage.id);
+      if (error) throw error;
+    } else {
+      const { error } = await supabase
+        .from('pipeline_stages')
+        .insert({
+          stage_name: editingStage?.stage_name,
+          stage_color: editingStage?.stage_color || '#3b82f6',
+          stage_probability: editingStage?.stage_probability || 0,
+          is_active: editingStage?.is_active ?? true,
+          is_won_stage: editingStage?.is_won_stage || false,
+          is_lost_stage: editingStage?.is_lost_stage || false,
+          stage_order: stages.length,
+        });
+      if (error) throw error;
+    }
+
+    toast.success('Stage saved successfully');
+    setShowStageModal(false);
+    setEditingStage(null);
+    fetchData();
+    invalidateStageQueries();
+  };
+
   const saveStatus = async () => {
     const error = validateStageName(editingStatus?.status_name || '', false);
     if (error) {
@@ -259,22 +302,66 @@ const PipelineSettings = () => {
     }
   };
 
+  const deleteStage = async (stage: PipelineStage) => {
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .delete()
+      .eq('id', stage.id);
+    if (error) throw error;
+    toast.success('Stage deleted');
+    fetchData();
+    invalidateStageQueries();
+  };
+
   const confirmDeleteStage = async () => {
     if (!stageToDelete) return;
+    const stage = stageToDelete;
+    setStageToDelete(null);
     try {
-      const { error } = await supabase
-        .from('pipeline_stages')
-        .delete()
-        .eq('id', stageToDelete.id);
-      if (error) throw error;
-      toast.success('Stage deleted');
-      setStageToDelete(null);
-      fetchData();
+      const dealCount = await countDealsInStage(stage.stage_name);
+      if (dealCount > 0) {
+        setReassignTarget('');
+        setStageReassignment({ stage, dealCount, action: 'delete' });
+        return;
+      }
+      await deleteStage(stage);
     } catch (error) {
       toast.error('Failed to delete stage');
     }
   };
 
+  // Move the stage's deals to the chosen stage and deactivate/delete it in one call
+  const confirmStageReassignment = async () => {
+    if (!stageReassignment || !reassignTarget) return;
+    const { stage, action } = stageReassignment;
+
+    setSaving(true);
+    try {
+      const { data: movedCount, error } = await supabase.rpc('reassign_deal_stage', {
+        p_from_stage: stage.stage_name,
+        p_to_stage: reassignTarget,
+        p_retire: action,
+      });
+      if (error) throw error;
+      setStageReassignment(null);
+      toast.success(`Moved ${movedCount} deal${movedCount === 1 ? '' : 's'} to ${reassignTarget}`);
+
+      if (action === 'delete') {
+        toast.success('Stage deleted');
+        fetchData();
+        invalidateStageQueries();
+      } else {
+        // The stage is already inactive; this saves any other edits made alongside
+        await persistStage();
+      }
+    } catch (error) {
+      console.error('Error reassigning deals:', error);
+      toast.error('Failed to update stage');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const confirmDeleteStatus = async () => {
     if (!statusToDelete) return;
     try {
@@ -320,6 +407,7 @@ const PipelineSettings = () => {
       }
       
       toast.success('Stage order updated');
+      invalidateStageQueries();
     } catch (error) {
       console.error('Error updating stage order:', error);
       toast.error('Failed to update stage order');
@@ -796,6 +884,47 @@ const PipelineSettings = () => {
         description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Deals in this stage will need to be reassigned.`}
       />
 
+      {/* Stage Reassignment Dialog */}
+      <Dialog open={!!stageReassignment} onOpenChange={(open) => !open && setStageReassignment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move Deals Before {stageReassignment?.action === 'delete' ? 'Deleting' : 'Deactivating'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {stageReassignment?.dealCount} deal{stageReassignment?.dealCount === 1 ? ' is' : 's are'} in the "{stageReassignment?.stage.stage_name}" stage.
+              Choose the stage they should move to.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="reassign-stage">Move deals to</Label>
+              <Select value={reassignTarget} onValueChange={setReassignTarget}>
+                <SelectTrigger id="reassign-stage">
+                  <SelectValue placeholder="Select stage..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages
+                    .filter(s => s.is_active && s.id !== stageReassignment?.stage.id)
+                    .map(s => (
+                      <SelectItem key={s.id} value={s.stage_name}>
+                        {s.stage_name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStageReassignment(null)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmStageReassignment} disabled={saving || !reassignTarget}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move Deals
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <DeleteConfirmDialog
         open={!!statusToDelete}
         onOpenChange={(open) => !open && setStatusToDelete(null)}
@@ -0,0 +1,305 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from 'sonner';
+import { supabase } from "@/integrations/supabase/client";
+import { Eye, RefreshCw, Database } from "lucide-react";
+
+type RestoreStrategy = 'overwrite' | 'skip_existing' | 'only_missing';
+
+interface RestorableBackup {
+  id: string;
+  file_name: string;
+  manifest: { tables?: { name: string; row_count: number }[] } | null;
+}
+
+interface TableReport {
+  table: string;
+  backup_rows: number;
+  inserted: number;
+  overwritten: number;
+  deleted: number;
+  unchanged: number;
+  skipped: number;
+}
+
+interface RestoreBackupDialogProps {
+  backup: RestorableBackup | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+}
+
+const strategies: { value: RestoreStrategy; label: string; description: string }[] = [
+  {
+    value: 'overwrite',
+    label: 'Overwrite',
+    description: 'Tables match the backup exactly: changed rows are overwritten and rows created since are deleted.',
+  },
+  {
+    value: 'skip_existing',
+    label: 'Skip existing',
+    description: 'Rows that still exist keep their current values; deleted rows come back and rows created since are deleted.',
+  },
+  {
+    value: 'only_missing',
+    label: 'Only missing',
+    description: 'Only rows missing from the database are restored. Nothing is overwritten or deleted.',
+  },
+];
+
+// Quick selections for restoring one area of the CRM
+const entityGroups = [
+  { label: 'Deals', tables: ['deals', 'deal_stage_history', 'deal_action_items'] },
+  { label: 'Leads', tables: ['leads', 'lead_action_items'] },
+  { label: 'Accounts', tables: ['accounts'] },
+  { label: 'Contacts', tables: ['contacts'] },
+  { label: 'Users & Access', tables: ['profiles', 'user_roles', 'page_permissions'] },
+];
+
+const formatTableName = (name: string) =>
+  name.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+const RestoreBackupDialog = ({ backup, open, onOpenChange, onRestored }: RestoreBackupDialogProps) => {
+  const backupTables = useMemo(() => backup?.manifest?.tables || [], [backup]);
+  const [selectedTables, setSelectedTables] = useState<string[]>([]);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('overwrite');
+  const [preview, setPreview] = useState<TableReport[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [confirmText, setConfirmText] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setSelectedTables(backupTables.map(t => t.name));
+      setStrategy('overwrite');
+      setPreview(null);
+      setConfirmText('');
+    }
+  }, [open, backupTables]);
+
+  // Any change to the selection invalidates the dry-run report
+  const updateSelection = (tables: string[]) => {
+    setSelectedTables(tables);
+    setPreview(null);
+    setConfirmText('');
+  };
+
+  const toggleTable = (table: string, checked: boolean) => {
+    updateSelection(checked ? [...selectedTables, table] : selectedTables.filter(t => t !== table));
+  };
+
+  const selectGroup = (tables: string[]) => {
+    updateSelection(backupTables.map(t => t.name).filter(name => tables.includes(name)));
+  };
+
+  const invokeRestore = async (dryRun: boolean) => {
+    const { data, error } = await supabase.functions.invoke('restore-backup', {
+      method: 'POST',
+      body: { backupId: backup?.id, tables: selectedTables, strategy, dryRun }
+    });
+
+    if (error) throw error;
+    if (data?.error) throw new Error(data.error);
+    return data;
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      const data = await invokeRestore(true);
+      setPreview(data.tables || []);
+    } catch (error) {
+      console.error('Error previewing restore:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to preview restore');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    setRestoring(true);
+    try {
+      const data = await invokeRestore(false);
+      if (data.success) {
+        toast.success(`Restored ${data.restored_tables.length} table(s) from backup`);
+      } else {
+        toast.warning(data.message, { description: data.errors.slice(0, 3).join('\n') });
+      }
+      onOpenChange(false);
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore backup');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const totals = preview?.reduce(
+    (sum, r) => ({
+      inserted: sum.inserted + r.inserted,
+      overwritten: sum.overwritten + r.overwritten,
+      deleted: sum.deleted + r.deleted,
+    }),
+    { inserted: 0, overwritten: 0, deleted: 0 }
+  );
+  const hasChanges = !!totals && totals.inserted + totals.overwritten + totals.deleted > 0;
+  const busy = previewing || restoring;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !busy && onOpenChange(value)}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restore from Backup</DialogTitle>
+          <DialogDescription>
+            <span className="font-mono">{backup?.file_name}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Tables</Label>
+              <div className="flex flex-wrap gap-1">
+                {entityGroups.map(group => (
+                  <Button
+                    key={group.label}
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs"
+                    disabled={busy || !backupTables.some(t => group.tables.includes(t.name))}
+                    onClick={() => selectGroup(group.tables)}
+                  >
+                    {group.label}
+                  </Button>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={busy}
+                  onClick={() => updateSelection(backupTables.map(t => t.name))}
+                >
+                  All
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3 max-h-48 overflow-y-auto">
+              {backupTables.map(table => (
+                <label key={table.name} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedTables.includes(table.name)}
+                    disabled={busy}
+                    onCheckedChange={(checked) => toggleTable(table.name, checked === true)}
+                  />
+                  <span className="flex-1">{formatTableName(table.name)}</span>
+                  <span className="text-xs text-muted-foreground">{table.row_count.toLocaleString()}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Merge Strategy</Label>
+            <RadioGroup
+              value={strategy}
+              onValueChange={(value) => {
+                setStrategy(value as RestoreStrategy);
+                setPreview(null);
+                setConfirmText('');
+              }}
+              disabled={busy}
+            >
+              {strategies.map(option => (
+                <label key={option.value} className="flex items-start gap-3 rounded-md border p-3 cursor-pointer">
+                  <RadioGroupItem value={option.value} className="mt-0.5" />
+                  <div>
+                    <div className="text-sm font-medium">{option.label}</div>
+                    <div className="text-xs text-muted-foreground">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {preview && (
+            <div className="space-y-2">
+              <Label>Dry Run</Label>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Table</TableHead>
+                      <TableHead className="text-right">Insert</TableHead>
+                      <TableHead className="text-right">Overwrite</TableHead>
+                      <TableHead className="text-right">Delete</TableHead>
+                      <TableHead className="text-right">Unchanged</TableHead>
+                      <TableHead className="text-right">Skipped</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map(row => (
+                      <TableRow key={row.table}>
+                        <TableCell>{formatTableName(row.table)}</TableCell>
+                        <TableCell className="text-right">{row.inserted.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.overwritten.toLocaleString()}</TableCell>
+                        <TableCell className={`text-right ${row.deleted > 0 ? 'text-destructive font-medium' : ''}`}>
+                          {row.deleted.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground">{row.unchanged.toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{row.skipped.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {hasChanges ? (
+                <div className="space-y-2 pt-2">
+                  <Label>Type "CONFIRM" to restore:</Label>
+                  <Input
+                    value={confirmText}
+                    onChange={(e) => setConfirmText(e.target.value)}
+                    placeholder="CONFIRM"
+                    disabled={busy}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">The selected tables already match this backup.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          {!preview ? (
+            <Button onClick={handlePreview} disabled={busy || selectedTables.length === 0}>
+              {previewing ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+              Preview Changes
+            </Button>
+          ) : (
+            <Button
+              variant="destructive"
+              onClick={handleRestore}
+              disabled={busy || !hasChanges || confirmText !== 'CONFIRM'}
+            >
+              {restoring ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Database className="h-4 w-4 mr-2" />}
+              Restore
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestoreBackupDialog;
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, Loader2, Pencil, RefreshCw, Trash2, X } from "lucide-react";
+import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { ScheduleSendFields } from "@/components/email/ScheduleSendFields";
+import {
+  SCHEDULED_STATUS_LABELS,
+  ScheduledEmail,
+  ScheduledEmailStatus,
+  useScheduledEmails,
+} from "@/hooks/useScheduledEmails";
+import { formatLocalTime, formatScheduledTime, scheduleFromDate, ScheduleValue, scheduleToDate, validateSchedule } from "@/utils/scheduledSend";
+
+const statusVariants: Record<ScheduledEmailStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  sending: "secondary",
+  sent: "secondary",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+const EDITABLE_STATUSES: ScheduledEmailStatus[] = ['pending', 'failed', 'cancelled'];
+
+const ScheduledEmailsSettings = () => {
+  const { toast } = useToast();
+  const [statusFilter, setStatusFilter] = useState<ScheduledEmailStatus | 'all'>('pending');
+  const { emails, isLoading, refresh, updateScheduledEmail, cancelScheduledEmail, cancelBatch, deleteScheduledEmail } =
+    useScheduledEmails(statusFilter);
+  const [editingEmail, setEditingEmail] = useState<ScheduledEmail | null>(null);
+  const [editSubject, setEditSubject] = useState("");
+  const [editBody, setEditBody] = useState("");
+  const [editSchedule, setEditSchedule] = useState<ScheduleValue | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const batchSizes = emails.reduce<Record<string, number>>((sizes, email) => {
+    if (email.batch_id && email.status === 'pending') sizes[email.batch_id] = (sizes[email.batch_id] || 0) + 1;
+    return sizes;
+  }, {});
+
+  const handleEdit = (email: ScheduledEmail) => {
+    setEditingEmail(email);
+    setEditSubject(email.subject);
+    setEditBody(email.body || "");
+    // A failed or cancelled email starts from a fresh time in the future
+    setEditSchedule(
+      new Date(email.scheduled_at).getTime() > Date.now()
+        ? scheduleFromDate(email.scheduled_at, email.timezone)
+        : scheduleFromDate(new Date(Date.now() + 60 * 60 * 1000).toISOString(), email.timezone)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editingEmail || !editSchedule) return;
+
+    if (!editSubject.trim()) {
+      toast({ title: "Subject required", description: "Please enter an email subject", variant: "destructive" });
+      return;
+    }
+
+    const scheduleProblem = validateSchedule(editSchedule);
+    if (scheduleProblem) {
+      toast({ title: "Check the send time", description: scheduleProblem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await updateScheduledEmail(editingEmail.id, {
+        subject: editSubject.trim(),
+        body: editBody,
+        scheduled_at: scheduleToDate(editSchedule)!.toISOString(),
+        timezone: editSchedule.timezone,
+      });
+
+      if (!updated) {
+        toast({ title: "Not updated", description: "This email is already being sent", variant: "destructive" });
+      } else {
+        toast({ title: "Scheduled email updated" });
+      }
+      setEditingEmail(null);
+    } catch (error) {
+      console.error('Error updating scheduled email:', error);
+      toast({ title: "Error", description: "Failed to update scheduled email", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (email: ScheduledEmail) => {
+    try {
+      const cancelled = await cancelScheduledEmail(email.id);
+      toast(cancelled
+        ? { title: "Scheduled email cancelled" }
+        : { title: "Not cancelled", description: "This email is already being sent", variant: "destructive" });
+    } catch (error) {
+      console.error('Error cancelling scheduled email:', error);
+      toast({ title: "Error", description: "Failed to cancel scheduled email", variant: "destructive" });
+    }
+  };
+
+  const handleCancelBatch = async (email: ScheduledEmail) => {
+    if (!email.batch_id) return;
+    if (!confirm(`Cancel all ${batchSizes[email.batch_id]} scheduled emails from this bulk send?`)) return;
+
+    try {
+      const count = await cancelBatch(email.batch_id);
+      toast({ title: "Bulk send cancelled", description: `${count} scheduled email(s) cancelled` });
+    } catch (error) {
+      console.error('Error cancelling bulk send:', error);
+      toast({ title: "Error", description: "Failed to cancel bulk send", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (email: ScheduledEmail) => {
+    if (!confirm('Remove this email from the list?')) return;
+
+    try {
+      await deleteScheduledEmail(email.id);
+      toast({ title: "Scheduled email removed" });
+    } catch (error) {
+      console.error('Error deleting scheduled email:', error);
+      toast({ title: "Error", description: "Failed to remove scheduled email", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Emails scheduled from the send dialogs go out at the chosen time in the recipient's timezone.
+          Pending emails can be edited or cancelled until they are sent.
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as ScheduledEmailStatus | 'all')}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              {(Object.keys(SCHEDULED_STATUS_LABELS) as ScheduledEmailStatus[]).map(status => (
+                <SelectItem key={status} value={status}>{SCHEDULED_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={refresh} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : emails.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <CalendarClock className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No {statusFilter === 'all' ? '' : `${SCHEDULED_STATUS_LABELS[statusFilter].toLowerCase()} `}emails</p>
+              <p className="text-sm">Turn on "Schedule for later" when sending an email to queue it here</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Send Time</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-32" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map(email => (
+                <TableRow key={email.id}>
+                  <TableCell>
+                    <div className="text-sm font-medium">{email.recipient_name || email.recipient_email}</div>
+                    {email.recipient_name && <div className="text-xs text-muted-foreground">{email.recipient_email}</div>}
+                  </TableCell>
+                  <TableCell className="max-w-[240px]">
+                    <div className="text-sm truncate">{email.subject}</div>
+                    {email.batch_id && <Badge variant="outline" className="text-xs mt-0.5">Bulk send</Badge>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{formatScheduledTime(email.scheduled_at, email.timezone)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {email.sent_at ? `Sent ${formatLocalTime(email.sent_at)}` : `${formatLocalTime(email.scheduled_at)} your time`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[email.status]} title={email.last_error || undefined}>
+                      {SCHEDULED_STATUS_LABELS[email.status]}
+                    </Badge>
+                    {email.last_error && email.status !== 'sent' && (
+                      <p className="text-xs text-destructive mt-1 max-w-[200px] truncate" title={email.last_error}>
+                        {email.last_error}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      {EDITABLE_STATUSES.includes(email.status) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(email)}
+                          title={email.status === 'pending' ? 'Edit' : 'Edit and reschedule'}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {email.status === 'pending' && (
+                        <Button variant="ghost" size="icon" onClick={() => handleCancel(email)} title="Cancel">
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {email.status === 'pending' && email.batch_id && batchSizes[email.batch_id] > 1 && (
+                        <Button variant="ghost" size="sm" className="text-xs" onClick={() => handleCancelBatch(email)}>
+                          Cancel all {batchSizes[email.batch_id]}
+                        </Button>
+                      )}
+                      {(email.status === 'failed' || email.status === 'cancelled') && (
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(email)} title="Remove">
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <Dialog open={!!editingEmail} onOpenChange={(open) => !open && setEditingEmail(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editingEmail?.status === 'pending' ? 'Edit Scheduled Email' : 'Reschedule Email'}
+            </DialogTitle>
+          </DialogHeader>
+          {editingEmail && editSchedule && (
+            <div className="space-y-4 py-4">
+              <div className="p-3 bg-muted/50 rounded-lg">
+                <Label className="text-sm text-muted-foreground">To:</Label>
+                <p className="font-medium text-sm truncate">
+                  {editingEmail.recipient_name ? `${editingEmail.recipient_name} <${editingEmail.recipient_email}>` : editingEmail.recipient_email}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="scheduled_subject">Subject *</Label>
+                <Input id="scheduled_subject" value={editSubject} onChange={(e) => setEditSubject(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Message</Label>
+                <RichTextEditor value={editBody} onChange={setEditBody} placeholder="Email message..." />
+              </div>
+              <div className="space-y-2">
+                <Label>Send Time</Label>
+                <ScheduleSendFields value={editSchedule} onChange={setEditSchedule} disabled={saving} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingEmail(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingEmail?.status === 'pending' ? 'Save' : 'Reschedule'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScheduledEmailsSettings;
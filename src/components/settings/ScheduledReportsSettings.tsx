@@ -18,7 +18,8 @@ import {
   RefreshCw,
   Calendar,
   Clock,
-  Mail
+  Mail,
+  Send
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -34,6 +35,7 @@ interface ReportSchedule {
   filters: any;
   is_enabled: boolean;
   last_sent_at: string | null;
+  last_run_status: string | null;
   created_at: string;
 }
 
@@ -68,6 +70,7 @@ const ScheduledReportsSettings = () => {
   const [saving, setSaving] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<ReportSchedule | null>(null);
+  const [sendingId, setSendingId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     report_type: 'deals_summary',
@@ -211,6 +214,33 @@ const ScheduledReportsSettings = () => {
     }
   };
 
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setSendingId(schedule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-scheduled-reports', {
+        method: 'POST',
+        body: { scheduleId: schedule.id }
+      });
+
+      if (error) throw error;
+
+      const result = data?.results?.[0];
+      if (result?.status === 'sent') {
+        toast.success(`Report sent to ${result.sent} recipient(s)`);
+      } else if (result?.status === 'partial') {
+        toast.warning(`Report sent to ${result.sent} recipient(s), ${result.failed} failed`);
+      } else {
+        toast.error(result?.error || 'Failed to send report');
+      }
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      toast.error('Failed to send report');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
   const getFrequencyLabel = (schedule: ReportSchedule) => {
     switch (schedule.frequency) {
       case 'daily':
@@ -271,6 +301,11 @@ const ScheduledReportsSettings = () => {
                         {!schedule.is_enabled && (
                           <Badge variant="secondary">Disabled</Badge>
                         )}
+                        {schedule.last_run_status && schedule.last_run_status !== 'sent' && (
+                          <Badge variant="destructive">
+                            {schedule.last_run_status === 'partial' ? 'Partially delivered' : 'Last run failed'}
+                          </Badge>
+                        )}
                       </div>
                       <div className="flex items-center gap-4 text-sm text-muted-foreground">
                         <span className="flex items-center gap-1">
@@ -291,6 +326,17 @@ const ScheduledReportsSettings = () => {
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Send now"
+                      disabled={sendingId === schedule.id}
+                      onClick={() => handleSendNow(schedule)}
+                    >
+                      {sendingId === schedule.id
+                        ? <RefreshCw className="h-4 w-4 animate-spin" />
+                        : <Send className="h-4 w-4" />}
+                    </Button>
                     <Switch
                       checked={schedule.is_enabled}
                       onCheckedChange={() => handleToggleEnabled(schedule.id, schedule.is_enabled)}
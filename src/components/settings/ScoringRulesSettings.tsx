@@ -0,0 +1,428 @@
+import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { INDUSTRIES } from '@/utils/accountStatusUtils';
+import { regions } from '@/utils/countryData';
+import { Gauge, Plus, Pencil, Trash2, RefreshCw, Calculator } from 'lucide-react';
+import {
+  SCORING_RULE_TYPE_LABELS,
+  SCORING_RULE_TYPES,
+  ScoringEntity,
+  ScoringRule,
+  ScoringRuleType,
+  describeScoringRule,
+  isEventRule,
+} from '@/utils/scoringUtils';
+
+const entityLabels: Record<ScoringEntity, string> = {
+  both: 'Leads & Contacts',
+  lead: 'Leads',
+  contact: 'Contacts',
+};
+
+const emptyForm = {
+  name: '',
+  entity_type: 'both' as ScoringEntity,
+  rule_type: 'email_open' as ScoringRuleType,
+  match_value: '',
+  points: '5',
+  max_points: '',
+  decay_half_life_days: '',
+  is_active: true,
+};
+
+const ScoringRulesSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { stageNames } = usePipelineStages();
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [recalculating, setRecalculating] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<ScoringRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('scoring_rules')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+
+      setRules((data || []).map(rule => ({
+        id: rule.id,
+        name: rule.name,
+        entity_type: rule.entity_type as ScoringEntity,
+        rule_type: rule.rule_type as ScoringRuleType,
+        match_value: rule.match_value,
+        points: rule.points,
+        max_points: rule.max_points,
+        decay_half_life_days: rule.decay_half_life_days,
+        is_active: rule.is_active,
+      })));
+    } catch (error) {
+      console.error('Error fetching scoring rules:', error);
+      toast.error('Failed to load scoring rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const matchOptions: readonly string[] | null =
+    formData.rule_type === 'deal_stage' ? stageNames
+      : formData.rule_type === 'industry' ? INDUSTRIES
+        : formData.rule_type === 'region' ? regions
+          : null;
+
+  const handleOpenModal = (rule?: ScoringRule) => {
+    if (rule) {
+      setEditingRule(rule);
+      setFormData({
+        name: rule.name,
+        entity_type: rule.entity_type,
+        rule_type: rule.rule_type,
+        match_value: rule.match_value || '',
+        points: String(rule.points),
+        max_points: rule.max_points != null ? String(rule.max_points) : '',
+        decay_half_life_days: rule.decay_half_life_days != null ? String(rule.decay_half_life_days) : '',
+        is_active: rule.is_active,
+      });
+    } else {
+      setEditingRule(null);
+      setFormData(emptyForm);
+    }
+    setShowModal(true);
+  };
+
+  // Scores are stored on the records, so rule changes only show after a recalculation
+  const recalculateScores = async (silent = false) => {
+    setRecalculating(true);
+    try {
+      const { data, error } = await supabase.rpc('recalculate_all_scores');
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      if (!silent) toast.success(`Recalculated scores for ${data} records`);
+    } catch (error) {
+      console.error('Error recalculating scores:', error);
+      toast.error('Failed to recalculate scores');
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const name = formData.name.trim() || SCORING_RULE_TYPE_LABELS[formData.rule_type];
+    const points = parseInt(formData.points, 10);
+    if (isNaN(points) || points === 0) {
+      toast.error('Points must be a non-zero number');
+      return;
+    }
+    if (!isEventRule(formData.rule_type) && !formData.match_value.trim()) {
+      toast.error('Choose the value this rule matches');
+      return;
+    }
+
+    const maxPoints = formData.max_points ? parseInt(formData.max_points, 10) : null;
+    const halfLife = formData.decay_half_life_days ? parseInt(formData.decay_half_life_days, 10) : null;
+
+    setSaving(true);
+    try {
+      const payload = {
+        name,
+        entity_type: formData.entity_type,
+        rule_type: formData.rule_type,
+        match_value: isEventRule(formData.rule_type) ? null : formData.match_value.trim(),
+        points,
+        max_points: maxPoints && maxPoints > 0 ? maxPoints : null,
+        decay_half_life_days: isEventRule(formData.rule_type) && halfLife && halfLife > 0 ? halfLife : null,
+        is_active: formData.is_active,
+      };
+
+      if (editingRule) {
+        const { error } = await supabase
+          .from('scoring_rules')
+          .update(payload)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+        toast.success('Scoring rule updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('scoring_rules')
+          .insert({ ...payload, created_by: user?.id });
+
+        if (error) throw error;
+        toast.success('Scoring rule created successfully');
+      }
+
+      setShowModal(false);
+      fetchRules();
+      recalculateScores(true);
+    } catch (error) {
+      console.error('Error saving scoring rule:', error);
+      toast.error('Failed to save scoring rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: ScoringRule) => {
+    if (!confirm(`Delete "${rule.name}"? Scores will be recalculated without it.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('scoring_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      toast.success('Scoring rule deleted');
+      fetchRules();
+      recalculateScores(true);
+    } catch (error) {
+      console.error('Error deleting scoring rule:', error);
+      toast.error('Failed to delete scoring rule');
+    }
+  };
+
+  const handleToggleActive = async (rule: ScoringRule) => {
+    try {
+      const { error } = await supabase
+        .from('scoring_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+      recalculateScores(true);
+    } catch (error) {
+      console.error('Error toggling scoring rule:', error);
+      toast.error('Failed to update scoring rule');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Scores run from 0 to 100 and update when emails, meetings or deals change, and nightly for recency decay.
+        </p>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="outline" onClick={() => recalculateScores()} disabled={recalculating}>
+            {recalculating ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Calculator className="h-4 w-4 mr-2" />}
+            Recalculate Now
+          </Button>
+          <Button onClick={() => handleOpenModal()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : rules.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <Gauge className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No scoring rules yet</p>
+              <p className="text-sm">Add rules to score leads and contacts on engagement and fit</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {rules.map(rule => (
+            <Card key={rule.id} className={!rule.is_active ? 'opacity-60' : ''}>
+              <CardContent className="py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h4 className="font-medium">{rule.name}</h4>
+                      <Badge variant="outline">{SCORING_RULE_TYPE_LABELS[rule.rule_type] || rule.rule_type}</Badge>
+                      <Badge variant="secondary">{entityLabels[rule.entity_type]}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{describeScoringRule(rule)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch checked={rule.is_active} onCheckedChange={() => handleToggleActive(rule)} />
+                    <Button variant="ghost" size="icon" onClick={() => handleOpenModal(rule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Scoring Rule' : 'Create Scoring Rule'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Rule Type</Label>
+                <Select
+                  value={formData.rule_type}
+                  onValueChange={(v) => setFormData({ ...formData, rule_type: v as ScoringRuleType, match_value: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCORING_RULE_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>
+                        {SCORING_RULE_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={formData.entity_type}
+                  onValueChange={(v) => setFormData({ ...formData, entity_type: v as ScoringEntity })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(entityLabels) as ScoringEntity[]).map(entity => (
+                      <SelectItem key={entity} value={entity}>{entityLabels[entity]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule_name">Name</Label>
+              <Input
+                id="rule_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder={SCORING_RULE_TYPE_LABELS[formData.rule_type]}
+              />
+            </div>
+
+            {matchOptions && (
+              <div className="space-y-2">
+                <Label>{formData.rule_type === 'deal_stage' ? 'Stage' : formData.rule_type === 'industry' ? 'Industry' : 'Region or Country'} *</Label>
+                {formData.rule_type === 'region' ? (
+                  <Input
+                    value={formData.match_value}
+                    onChange={(e) => setFormData({ ...formData, match_value: e.target.value })}
+                    placeholder={matchOptions.join(', ')}
+                  />
+                ) : (
+                  <Select
+                    value={formData.match_value}
+                    onValueChange={(v) => setFormData({ ...formData, match_value: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {matchOptions.map(option => (
+                        <SelectItem key={option} value={option}>{option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_points">{isEventRule(formData.rule_type) ? 'Points per event' : 'Points'}</Label>
+                <Input
+                  id="rule_points"
+                  type="number"
+                  value={formData.points}
+                  onChange={(e) => setFormData({ ...formData, points: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_max">Max points</Label>
+                <Input
+                  id="rule_max"
+                  type="number"
+                  min={1}
+                  value={formData.max_points}
+                  onChange={(e) => setFormData({ ...formData, max_points: e.target.value })}
+                  placeholder="No cap"
+                />
+              </div>
+              {isEventRule(formData.rule_type) && (
+                <div className="space-y-2">
+                  <Label htmlFor="rule_decay">Half-life (days)</Label>
+                  <Input
+                    id="rule_decay"
+                    type="number"
+                    min={1}
+                    value={formData.decay_half_life_days}
+                    onChange={(e) => setFormData({ ...formData, decay_half_life_days: e.target.value })}
+                    placeholder="No decay"
+                  />
+                </div>
+              )}
+            </div>
+            {isEventRule(formData.rule_type) && (
+              <p className="text-xs text-muted-foreground">
+                With a half-life, an event's points halve every that many days, so recent engagement counts most.
+              </p>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowModal(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editingRule ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScoringRulesSettings;
@@ -0,0 +1,360 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, Copy, ExternalLink, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { getBrowserTimezone, timezoneOptions } from '@/utils/scheduledSend';
+import { toast } from 'sonner';
+
+interface BookingPageSectionProps {
+  userId: string;
+}
+
+interface AvailabilityRule {
+  day: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+interface BookingPageForm {
+  slug: string;
+  title: string;
+  description: string;
+  duration_minutes: number;
+  buffer_minutes: number;
+  max_per_day: number | null;
+  min_notice_hours: number;
+  max_days_ahead: number;
+  timezone: string;
+  availability: AvailabilityRule[];
+  is_active: boolean;
+}
+
+// Monday first, as people read a working week
+const WEEKDAYS = [
+  { day: 1, label: 'Monday' },
+  { day: 2, label: 'Tuesday' },
+  { day: 3, label: 'Wednesday' },
+  { day: 4, label: 'Thursday' },
+  { day: 5, label: 'Friday' },
+  { day: 6, label: 'Saturday' },
+  { day: 0, label: 'Sunday' },
+];
+
+const DURATIONS = [15, 20, 30, 45, 60, 90];
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+const defaultForm = (): BookingPageForm => ({
+  slug: '',
+  title: 'Intro call',
+  description: '',
+  duration_minutes: 30,
+  buffer_minutes: 0,
+  max_per_day: null,
+  min_notice_hours: 4,
+  max_days_ahead: 30,
+  timezone: getBrowserTimezone(),
+  availability: [1, 2, 3, 4, 5].map(day => ({ day, start: '09:00', end: '17:00' })),
+  is_active: true,
+});
+
+const toSlug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+/, '');
+
+const bookingUrl = (slug: string) => `${window.location.origin}/book/${slug}`;
+
+// The public /book/<slug> page where prospects schedule a meeting with this user
+const BookingPageSection = ({ userId }: BookingPageSectionProps) => {
+  const [form, setForm] = useState<BookingPageForm>(defaultForm);
+  const [savedSlug, setSavedSlug] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('booking_pages')
+      .select('slug, title, description, duration_minutes, buffer_minutes, max_per_day, min_notice_hours, max_days_ahead, timezone, availability, is_active')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        setLoading(false);
+        if (error) {
+          console.error('Error fetching booking page:', error);
+          return;
+        }
+        if (!data) return;
+        setForm({
+          ...data,
+          description: data.description || '',
+          availability: Array.isArray(data.availability) ? data.availability as unknown as AvailabilityRule[] : [],
+        });
+        setSavedSlug(data.slug);
+      });
+  }, [userId]);
+
+  const update = <K extends keyof BookingPageForm>(key: K, value: BookingPageForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const ruleFor = (day: number) => form.availability.find(rule => rule.day === day);
+
+  const setRule = (day: number, rule: AvailabilityRule | null) =>
+    setForm(prev => ({
+      ...prev,
+      availability: [...prev.availability.filter(r => r.day !== day), ...(rule ? [rule] : [])].sort((a, b) => a.day - b.day),
+    }));
+
+  const handleSave = async () => {
+    const slug = form.slug.replace(/-+$/, '');
+    if (!SLUG_PATTERN.test(slug)) {
+      toast.error('Choose a link name using lowercase letters, numbers and dashes');
+      return;
+    }
+    if (!form.title.trim()) {
+      toast.error('Give your booking page a title');
+      return;
+    }
+    if (form.availability.some(rule => rule.start >= rule.end)) {
+      toast.error('Each available day must end after it starts');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('booking_pages')
+        .upsert({
+          user_id: userId,
+          ...form,
+          slug,
+          title: form.title.trim(),
+          description: form.description.trim() || null,
+          availability: form.availability as unknown as Json,
+        }, { onConflict: 'user_id' });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('That link is already taken, try another');
+          return;
+        }
+        throw error;
+      }
+      setForm(prev => ({ ...prev, slug }));
+      setSavedSlug(slug);
+      toast.success('Booking page saved');
+    } catch (error) {
+      console.error('Error saving booking page:', error);
+      toast.error('Failed to save booking page');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!savedSlug) return;
+    try {
+      await navigator.clipboard.writeText(bookingUrl(savedSlug));
+      toast.success('Link copied');
+    } catch (error) {
+      console.error('Error copying booking link:', error);
+      toast.error('Failed to copy link');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="h-4 w-4" />
+            Booking Page
+          </span>
+          <span className="flex items-center gap-2 text-xs font-normal text-muted-foreground">
+            {form.is_active ? 'Accepting bookings' : 'Paused'}
+            <Switch checked={form.is_active} onCheckedChange={v => update('is_active', v)} />
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Prospects pick a free time on your calendar. The meeting is added to your meetings, linked to their contact or lead
+          (a new lead is created if they aren't in the CRM yet), and you get a notification.
+        </p>
+
+        {savedSlug && (
+          <div className="flex items-center gap-2 rounded-md bg-muted px-3 py-2 text-sm">
+            <span className="truncate flex-1">{bookingUrl(savedSlug)}</span>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={copyLink} title="Copy link">
+              <Copy className="h-3.5 w-3.5" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" asChild title="Open">
+              <a href={bookingUrl(savedSlug)} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-3.5 w-3.5" />
+              </a>
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="booking-slug" className="text-xs font-medium text-muted-foreground">Link</Label>
+            <div className="flex items-center">
+              <span className="text-xs text-muted-foreground mr-1">/book/</span>
+              <Input
+                id="booking-slug"
+                value={form.slug}
+                onChange={e => update('slug', toSlug(e.target.value))}
+                placeholder="jane-doe"
+                className="h-9"
+              />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="booking-title" className="text-xs font-medium text-muted-foreground">Title</Label>
+            <Input id="booking-title" value={form.title} onChange={e => update('title', e.target.value)} className="h-9" />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="booking-description" className="text-xs font-medium text-muted-foreground">Description</Label>
+          <Textarea
+            id="booking-description"
+            value={form.description}
+            onChange={e => update('description', e.target.value)}
+            placeholder="What the meeting is about"
+            rows={2}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium text-muted-foreground">Meeting length</Label>
+            <Select value={String(form.duration_minutes)} onValueChange={v => update('duration_minutes', Number(v))}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {DURATIONS.map(minutes => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="booking-buffer" className="text-xs font-medium text-muted-foreground">Buffer (minutes)</Label>
+            <Input
+              id="booking-buffer"
+              type="number"
+              min={0}
+              max={120}
+              value={form.buffer_minutes}
+              onChange={e => update('buffer_minutes', Math.min(120, Math.max(0, Number(e.target.value) || 0)))}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="booking-max" className="text-xs font-medium text-muted-foreground">Max per day</Label>
+            <Input
+              id="booking-max"
+              type="number"
+              min={1}
+              value={form.max_per_day ?? ''}
+              onChange={e => update('max_per_day', Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+              placeholder="No limit"
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="booking-notice" className="text-xs font-medium text-muted-foreground">Minimum notice (hours)</Label>
+            <Input
+              id="booking-notice"
+              type="number"
+              min={0}
+              value={form.min_notice_hours}
+              onChange={e => update('min_notice_hours', Math.max(0, Number(e.target.value) || 0))}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="booking-ahead" className="text-xs font-medium text-muted-foreground">Days ahead</Label>
+            <Input
+              id="booking-ahead"
+              type="number"
+              min={1}
+              max={90}
+              value={form.max_days_ahead}
+              onChange={e => update('max_days_ahead', Math.min(90, Math.max(1, Number(e.target.value) || 1)))}
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs font-medium text-muted-foreground">Timezone</Label>
+            <Select value={form.timezone} onValueChange={v => update('timezone', v)}>
+              <SelectTrigger className="h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {timezoneOptions(form.timezone).map(tz => (
+                  <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground">Available hours</Label>
+          {WEEKDAYS.map(({ day, label }) => {
+            const rule = ruleFor(day);
+            return (
+              <div key={day} className="flex items-center gap-3">
+                <Switch
+                  checked={!!rule}
+                  onCheckedChange={checked => setRule(day, checked ? { day, start: '09:00', end: '17:00' } : null)}
+                />
+                <span className="w-24 text-sm">{label}</span>
+                {rule ? (
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="time"
+                      value={rule.start}
+                      onChange={e => setRule(day, { ...rule, start: e.target.value })}
+                      className="h-8 w-28"
+                    />
+                    <span className="text-xs text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      value={rule.end}
+                      onChange={e => setRule(day, { ...rule, end: e.target.value })}
+                      className="h-8 w-28"
+                    />
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Unavailable</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Booking Page
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BookingPageSection;
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RichTextEditor } from '@/components/shared/RichTextEditor';
+import { PenLine, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+interface EmailSignatureSectionProps {
+  userId: string;
+}
+
+// The editor leaves markup such as <p><br></p> behind when cleared
+const isBlank = (html: string) => !html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+
+// Inserted into emails through the {{signature}} template variable
+const EmailSignatureSection = ({ userId }: EmailSignatureSectionProps) => {
+  const [signature, setSignature] = useState('');
+  const [savedSignature, setSavedSignature] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('user_preferences')
+      .select('email_signature')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching email signature:', error);
+          return;
+        }
+        setSignature(data?.email_signature || '');
+        setSavedSignature(data?.email_signature || '');
+      });
+  }, [userId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: userId,
+          email_signature: isBlank(signature) ? null : signature,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      setSavedSignature(signature);
+      toast.success('Email signature saved');
+    } catch (error) {
+      console.error('Error saving email signature:', error);
+      toast.error('Failed to save email signature');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <PenLine className="h-4 w-4" />
+          Email Signature
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Add <code className="bg-muted px-1 rounded">{'{{signature}}'}</code> to an email template to include it.
+        </p>
+        <RichTextEditor value={signature} onChange={setSignature} placeholder="Your name, title, phone..." />
+        {signature !== savedSignature && !(isBlank(signature) && isBlank(savedSignature)) && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Signature
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailSignatureSection;
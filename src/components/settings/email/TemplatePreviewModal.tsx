@@ -1,7 +1,15 @@
+import { useState, useEffect } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Eye, Mail } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle, Eye, Loader2, Mail } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { renderEmail, TemplateContext } from '@/utils/emailTemplateEngine';
+import { fetchRecordContexts, fetchSenderContext, recordKey, TemplateEntityType } from '@/utils/emailTemplateContext';
 
 interface TemplatePreviewModalProps {
   open: boolean;
@@ -13,31 +21,117 @@ interface TemplatePreviewModalProps {
   } | null;
 }
 
+type PreviewSource = 'sample' | TemplateEntityType;
+
+interface RecordOption {
+  id: string;
+  label: string;
+  detail: string | null;
+}
+
 // Sample data for preview
-const sampleData: Record<string, string> = {
-  '{{contact_name}}': 'John Doe',
-  '{{company_name}}': 'Acme Corporation',
-  '{{position}}': 'Sales Manager',
-  '{{email}}': 'john.doe@acme.com',
-  '{{phone}}': '+1 (555) 123-4567',
-  '{{website}}': 'www.acme.com',
-  '{{lead_name}}': 'Jane Smith',
-  '{{account_name}}': 'Enterprise Solutions Inc.',
+const sampleData: TemplateContext = {
+  name: 'John Doe',
+  first_name: 'John',
+  last_name: 'Doe',
+  contact_name: 'John Doe',
+  lead_name: 'Jane Smith',
+  email: 'john.doe@acme.com',
+  phone: '+1 (555) 123-4567',
+  position: 'Sales Manager',
+  company_name: 'Acme Corporation',
+  website: 'www.acme.com',
+  industry: 'Manufacturing',
+  account_name: 'Enterprise Solutions Inc.',
+  account_industry: 'Manufacturing',
+  account_website: 'www.enterprise-solutions.com',
+  account_country: 'Germany',
+  deal_name: 'ERP Rollout',
+  deal_stage: 'Qualified',
+  deal_value: '€120,000',
+  deal_closing_date: '30 Jun 2026',
+  today: '15 Jan 2026',
 };
 
-const renderWithVariables = (text: string): string => {
-  let rendered = text;
-  Object.entries(sampleData).forEach(([variable, value]) => {
-    rendered = rendered.replace(new RegExp(variable.replace(/[{}]/g, '\\$&'), 'g'), value);
-  });
-  return rendered;
+const recordSources: Record<TemplateEntityType, { table: 'leads' | 'contacts' | 'accounts'; nameColumn: string; label: string }> = {
+  lead: { table: 'leads', nameColumn: 'lead_name', label: 'Lead' },
+  contact: { table: 'contacts', nameColumn: 'contact_name', label: 'Contact' },
+  account: { table: 'accounts', nameColumn: 'company_name', label: 'Account' },
 };
 
 const TemplatePreviewModal = ({ open, onOpenChange, template }: TemplatePreviewModalProps) => {
+  const { user } = useAuth();
+  const [source, setSource] = useState<PreviewSource>('sample');
+  const [search, setSearch] = useState('');
+  const [recordOptions, setRecordOptions] = useState<RecordOption[]>([]);
+  const [selectedRecordId, setSelectedRecordId] = useState('');
+  const [senderContext, setSenderContext] = useState<TemplateContext>({});
+  const [recordContext, setRecordContext] = useState<TemplateContext | null>(null);
+  const [loadingRecord, setLoadingRecord] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSource('sample');
+    setSearch('');
+    setSelectedRecordId('');
+    setRecordContext(null);
+    fetchSenderContext(user?.id, user?.email || '').then(setSenderContext).catch((error) => {
+      console.error('Error loading sender details:', error);
+    });
+  }, [open, user?.id, user?.email]);
+
+  // Matching records for the picker
+  useEffect(() => {
+    if (!open || source === 'sample') return;
+    const { table, nameColumn } = recordSources[source];
+
+    const timeout = setTimeout(async () => {
+      let query = supabase
+        .from(table)
+        .select(`id, ${nameColumn}, email`)
+        .order(nameColumn)
+        .limit(20);
+      if (search.trim()) query = query.ilike(nameColumn, `%${search.trim()}%`);
+
+      const { data, error } = await query;
+      if (error) {
+        console.error('Error searching records:', error);
+        return;
+      }
+      setRecordOptions(((data || []) as unknown as Record<string, string | null>[]).map(row => ({
+        id: row.id as string,
+        label: row[nameColumn] || 'Unnamed',
+        detail: row.email,
+      })));
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [open, source, search]);
+
+  useEffect(() => {
+    if (source === 'sample' || !selectedRecordId) {
+      setRecordContext(null);
+      return;
+    }
+
+    const record = { type: source, id: selectedRecordId };
+    setLoadingRecord(true);
+    fetchRecordContexts([record])
+      .then(contexts => setRecordContext(contexts[recordKey(record)] || {}))
+      .catch((error) => {
+        console.error('Error loading record for preview:', error);
+        setRecordContext({});
+      })
+      .finally(() => setLoadingRecord(false));
+  }, [source, selectedRecordId]);
+
   if (!template) return null;
 
-  const renderedSubject = renderWithVariables(template.subject);
-  const renderedBody = renderWithVariables(template.body);
+  const context: TemplateContext = source === 'sample'
+    ? { ...sampleData, ...senderContext }
+    : { ...(recordContext || {}), ...senderContext };
+  const showRendered = source === 'sample' || !!recordContext;
+  const rendered = renderEmail(template.subject, template.body, context);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -48,35 +142,106 @@ const TemplatePreviewModal = ({ open, onOpenChange, template }: TemplatePreviewM
             Preview: {template.name}
           </DialogTitle>
           <DialogDescription>
-            See how your template looks with sample data
+            See how your template looks with sample data or a real record
           </DialogDescription>
         </DialogHeader>
 
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={source}
+            onValueChange={(value) => {
+              setSource(value as PreviewSource);
+              setSelectedRecordId('');
+              setRecordOptions([]);
+              setSearch('');
+            }}
+          >
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sample">Sample data</SelectItem>
+              <SelectItem value="lead">Lead</SelectItem>
+              <SelectItem value="contact">Contact</SelectItem>
+              <SelectItem value="account">Account</SelectItem>
+            </SelectContent>
+          </Select>
+          {source !== 'sample' && (
+            <>
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={`Search ${recordSources[source].label.toLowerCase()}s...`}
+                className="w-[180px]"
+              />
+              <Select value={selectedRecordId} onValueChange={setSelectedRecordId}>
+                <SelectTrigger className="flex-1 min-w-[180px]">
+                  <SelectValue placeholder={`Choose a ${recordSources[source].label.toLowerCase()}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {recordOptions.length === 0 ? (
+                    <div className="px-2 py-1.5 text-sm text-muted-foreground">No matches</div>
+                  ) : (
+                    recordOptions.map(option => (
+                      <SelectItem key={option.id} value={option.id}>
+                        {option.label}{option.detail ? ` (${option.detail})` : ''}
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+        </div>
+
+        {showRendered && (
+          rendered.unresolved.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-1.5 rounded-md border border-amber-200 bg-amber-50 dark:bg-amber-900/10 dark:border-amber-800/30 px-3 py-2 text-xs text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-3.5 w-3.5" />
+              Unresolved, will be left blank:
+              {rendered.unresolved.map(name => (
+                <Badge key={name} variant="outline" className="text-xs border-amber-300">{`{{${name}}}`}</Badge>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center gap-1.5 text-xs text-green-600">
+              <CheckCircle className="h-3.5 w-3.5" />
+              All variables resolved
+            </div>
+          )
+        )}
+
         <div className="flex-1 overflow-hidden">
-          <div className="border rounded-lg overflow-hidden bg-background">
-            {/* Email Header */}
-            <div className="border-b p-4 bg-muted/30">
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Mail className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm text-muted-foreground w-16">To:</span>
-                  <span className="text-sm">{sampleData['{{email}}']}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-sm text-muted-foreground ml-6 w-16">Subject:</span>
-                  <span className="text-sm font-medium">{renderedSubject}</span>
+          {!showRendered ? (
+            <div className="flex h-[200px] items-center justify-center rounded-lg border text-sm text-muted-foreground">
+              {loadingRecord ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Choose a record to preview with its data'}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden bg-background">
+              {/* Email Header */}
+              <div className="border-b p-4 bg-muted/30">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm text-muted-foreground w-16">To:</span>
+                    <span className="text-sm">{context.email || '-'}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground ml-6 w-16">Subject:</span>
+                    <span className="text-sm font-medium">{rendered.subject}</span>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Email Body */}
-            <ScrollArea className="h-[350px]">
-              <div 
-                className="p-4 text-sm prose prose-sm max-w-none dark:prose-invert [&_p]:mb-2 [&_ul]:list-disc [&_ul]:ml-4 [&_li]:mb-1 [&_br]:block"
-                dangerouslySetInnerHTML={{ __html: renderedBody }}
-              />
-            </ScrollArea>
-          </div>
+              {/* Email Body */}
+              <ScrollArea className="h-[300px]">
+                <div
+                  className="p-4 text-sm prose prose-sm max-w-none dark:prose-invert [&_p]:mb-2 [&_ul]:list-disc [&_ul]:ml-4 [&_li]:mb-1 [&_br]:block"
+                  dangerouslySetInnerHTML={{ __html: rendered.body }}
+                />
+              </ScrollArea>
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end pt-4 border-t mt-auto">
@@ -0,0 +1,17 @@
+import { CustomFieldDefinition, formatCustomFieldValue } from "@/utils/customFieldUtils";
+
+interface CustomFieldCellProps {
+  field: CustomFieldDefinition | null;
+  value: unknown;
+}
+
+// Table cell content for a custom field column
+export const CustomFieldCell = ({ field, value }: CustomFieldCellProps) => {
+  const text = field ? formatCustomFieldValue(field, value) : '';
+
+  if (!text) {
+    return <span className="text-center text-muted-foreground w-full block">-</span>;
+  }
+
+  return <span title={text} className="truncate block">{text}</span>;
+};
@@ -0,0 +1,127 @@
+import { format, parse, isValid } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { CustomFieldDefinition, CustomFieldValue } from "@/utils/customFieldUtils";
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+  disabled?: boolean;
+}
+
+// Renders the editor for a single admin-defined field based on its type
+export const CustomFieldInput = ({ field, value, onChange, disabled }: CustomFieldInputProps) => {
+  const placeholder = `Enter ${field.field_label.toLowerCase()}...`;
+
+  switch (field.field_type) {
+    case 'number':
+      return (
+        <Input
+          type="number"
+          step="any"
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+          placeholder={placeholder}
+          disabled={disabled}
+        />
+      );
+
+    case 'date': {
+      const parsed = typeof value === 'string' ? parse(value, 'yyyy-MM-dd', new Date()) : undefined;
+      const date = parsed && isValid(parsed) ? parsed : undefined;
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={disabled}
+              className={cn("w-full justify-start text-left font-normal", !date && "text-muted-foreground")}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {date ? format(date, "dd/MM/yyyy") : <span>Pick a date</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={date}
+              onSelect={(selected) => onChange(selected ? format(selected, "yyyy-MM-dd") : null)}
+              initialFocus
+              className={cn("p-3 pointer-events-auto")}
+            />
+          </PopoverContent>
+        </Popover>
+      );
+    }
+
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' ? value : ''}
+          onValueChange={(val) => onChange(val === '__none__' ? null : val)}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={`Select ${field.field_label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {!field.is_required && <SelectItem value="__none__">None</SelectItem>}
+            {field.options.map(option => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-4 gap-y-2 rounded-md border p-3">
+          {field.options.length === 0 && (
+            <span className="text-sm text-muted-foreground">No options configured</span>
+          )}
+          {field.options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option)}
+                disabled={disabled}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...selected, option] : selected.filter(o => o !== option))
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'boolean':
+      return (
+        <div className="flex h-10 items-center">
+          <Switch checked={value === true} onCheckedChange={onChange} disabled={disabled} />
+        </div>
+      );
+
+    default:
+      return (
+        <Input
+          value={value === null || value === undefined ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          disabled={disabled}
+        />
+      );
+  }
+};
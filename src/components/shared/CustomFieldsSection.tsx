@@ -0,0 +1,40 @@
+import { Label } from "@/components/ui/label";
+import { CustomFieldInput } from "@/components/shared/CustomFieldInput";
+import { CustomFieldDefinition, CustomFieldValue, CustomFieldValues } from "@/utils/customFieldUtils";
+
+interface CustomFieldsSectionProps {
+  fields: CustomFieldDefinition[];
+  values: CustomFieldValues;
+  errors?: Record<string, string>;
+  onChange: (fieldName: string, value: CustomFieldValue) => void;
+  disabled?: boolean;
+}
+
+// Admin-defined fields appended to the lead, contact and account forms
+export const CustomFieldsSection = ({ fields, values, errors = {}, onChange, disabled }: CustomFieldsSectionProps) => {
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <h4 className="text-sm font-medium text-muted-foreground">Additional Fields</h4>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {fields.map(field => (
+          <div key={field.id} className="space-y-2">
+            <Label className={errors[field.field_name] ? "text-destructive" : undefined}>
+              {field.field_label}{field.is_required && field.field_type !== 'boolean' ? ' *' : ''}
+            </Label>
+            <CustomFieldInput
+              field={field}
+              value={values[field.field_name]}
+              onChange={(value) => onChange(field.field_name, value)}
+              disabled={disabled}
+            />
+            {errors[field.field_name] && (
+              <p className="text-sm font-medium text-destructive">{errors[field.field_name]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -30,7 +30,13 @@ import {
   Info,
   Reply,
   Loader2,
+  MousePointerClick,
+  ExternalLink,
+  List,
+  MessagesSquare,
 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { EntityEmailThreads } from '@/components/shared/EntityEmailThreads';
 import {
   Dialog,
   DialogContent,
@@ -50,6 +56,8 @@ interface EmailHistoryItem {
   opened_at: string | null;
   open_count: number | null;
   unique_opens: number | null;
+  click_count: number | null;
+  clicked_at: string | null;
   bounce_type: string | null;
   bounce_reason: string | null;
   bounced_at: string | null;
@@ -71,6 +79,13 @@ interface EmailReply {
   subject: string | null;
 }
 
+interface LinkClickStats {
+  id: string;
+  url: string;
+  clicks: number;
+  lastClickedAt: string | null;
+}
+
 interface EntityEmailHistoryProps {
   entityType: 'contact' | 'lead' | 'account';
   entityId: string;
@@ -163,13 +178,15 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
   const [showTechnicalDetails, setShowTechnicalDetails] = useState(false);
   const [replies, setReplies] = useState<EmailReply[]>([]);
   const [loadingReplies, setLoadingReplies] = useState(false);
+  const [linkStats, setLinkStats] = useState<LinkClickStats[]>([]);
+  const [view, setView] = useState<'emails' | 'conversations'>('emails');
 
   const fetchEmails = async () => {
     setLoading(true);
     try {
       let query = supabase
         .from('email_history')
-        .select('id, subject, recipient_email, recipient_name, sender_email, body, status, sent_at, opened_at, open_count, unique_opens, bounce_type, bounce_reason, bounced_at, is_valid_open, reply_count, replied_at, last_reply_at, lead_id, contact_id, account_id')
+        .select('id, subject, recipient_email, recipient_name, sender_email, body, status, sent_at, opened_at, open_count, unique_opens, click_count, clicked_at, bounce_type, bounce_reason, bounced_at, is_valid_open, reply_count, replied_at, last_reply_at, lead_id, contact_id, account_id')
         .order('sent_at', { ascending: false });
 
       if (entityType === 'contact') {
@@ -264,6 +281,36 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
     }
   }, [selectedEmail]);
 
+  // Per-link clicks for the selected email; scanner clicks are stored but not counted
+  useEffect(() => {
+    if (!selectedEmail) {
+      setLinkStats([]);
+      return;
+    }
+
+    supabase
+      .from('email_links')
+      .select('id, url, position, email_link_clicks(clicked_at, is_bot)')
+      .eq('email_history_id', selectedEmail.id)
+      .order('position')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching link clicks:', error);
+          setLinkStats([]);
+          return;
+        }
+        setLinkStats((data || []).map(link => {
+          const clicks = (link.email_link_clicks || []).filter(c => !c.is_bot);
+          return {
+            id: link.id,
+            url: link.url,
+            clicks: clicks.length,
+            lastClickedAt: clicks.reduce<string | null>((latest, c) => (!latest || c.clicked_at > latest ? c.clicked_at : latest), null),
+          };
+        }));
+      });
+  }, [selectedEmail]);
+
   // Reset technical details view when dialog closes
   useEffect(() => {
     if (!selectedEmail) {
@@ -419,6 +466,28 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
     );
   }
 
+  const viewToggle = (
+    <div className="flex justify-end gap-1 mb-2">
+      <Button variant={view === 'emails' ? 'secondary' : 'ghost'} size="sm" className="h-7 gap-1 text-xs" onClick={() => setView('emails')}>
+        <List className="h-3.5 w-3.5" />
+        Emails
+      </Button>
+      <Button variant={view === 'conversations' ? 'secondary' : 'ghost'} size="sm" className="h-7 gap-1 text-xs" onClick={() => setView('conversations')}>
+        <MessagesSquare className="h-3.5 w-3.5" />
+        Conversations
+      </Button>
+    </div>
+  );
+
+  if (view === 'conversations') {
+    return (
+      <>
+        {viewToggle}
+        <EntityEmailThreads entityType={entityType} entityId={entityId} />
+      </>
+    );
+  }
+
   if (emails.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
@@ -430,6 +499,7 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
 
   return (
     <>
+      {viewToggle}
       <ScrollArea className="h-[300px] pr-4">
         <div className="space-y-3">
           {emails.map((email) => (
@@ -453,6 +523,12 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                         {format(new Date(email.sent_at), 'dd/MM/yyyy HH:mm')}
                       </span>
                       {getOpenCountDisplay(email)}
+                      {(email.click_count || 0) > 0 && (
+                        <span className="flex items-center gap-1 text-blue-600">
+                          <MousePointerClick className="h-3 w-3" />
+                          {email.click_count} {email.click_count === 1 ? 'click' : 'clicks'}
+                        </span>
+                      )}
                       {/* Reply count indicator */}
                       {email.reply_count && email.reply_count > 0 && (
                         <span className="flex items-center gap-1 text-purple-600">
@@ -523,6 +599,12 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                     <p className="text-sm mt-0.5">{format(new Date(selectedEmail.opened_at), 'dd/MM/yyyy HH:mm')}</p>
                   </div>
                 )}
+                {selectedEmail.clicked_at && !selectedEmail.bounce_type && (
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground">First Clicked</p>
+                    <p className="text-sm mt-0.5">{format(new Date(selectedEmail.clicked_at), 'dd/MM/yyyy HH:mm')}</p>
+                  </div>
+                )}
               </div>
 
               {/* Bounce Information - User Friendly */}
@@ -603,6 +685,15 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                       </div>
                     </CardContent>
                   </Card>
+                  <Card>
+                    <CardContent className="p-4 flex items-center gap-3">
+                      <MousePointerClick className="h-8 w-8 text-indigo-500" />
+                      <div>
+                        <p className="text-2xl font-bold">{selectedEmail.click_count || 0}</p>
+                        <p className="text-xs text-muted-foreground">Link Clicks</p>
+                      </div>
+                    </CardContent>
+                  </Card>
                   {(selectedEmail.open_count || 0) > (selectedEmail.unique_opens || 0) && (
                     <Card className="bg-yellow-50/50 dark:bg-yellow-900/10">
                       <CardContent className="p-4 flex items-center gap-3">
@@ -617,6 +708,35 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                 </div>
               )}
 
+              {/* Link Clicks Section */}
+              {linkStats.length > 0 && !selectedEmail.bounce_type && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <MousePointerClick className="h-4 w-4 text-indigo-500" />
+                    <h4 className="font-medium">Links</h4>
+                  </div>
+                  <div className="space-y-1">
+                    {linkStats.map(link => (
+                      <div key={link.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm">
+                        <a
+                          href={link.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 truncate text-primary hover:underline"
+                        >
+                          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                          <span className="truncate">{link.url}</span>
+                        </a>
+                        <span className="flex-shrink-0 text-xs text-muted-foreground">
+                          {link.clicks} {link.clicks === 1 ? 'click' : 'clicks'}
+                          {link.lastClickedAt && ` · last ${format(new Date(link.lastClickedAt), 'dd/MM/yyyy HH:mm')}`}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Replies Section */}
               {(selectedEmail.reply_count || 0) > 0 && (
                 <div className="space-y-3">
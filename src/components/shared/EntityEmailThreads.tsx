@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { RichTextEditor } from '@/components/shared/RichTextEditor';
+import { ChevronDown, Info, Loader2, Mail, MessagesSquare, Reply, Send } from 'lucide-react';
+import { EmailThread, fetchEntityThreads, replySubject, replyTarget, ThreadEntityType, ThreadMessage } from '@/utils/emailThreads';
+
+interface EntityEmailThreadsProps {
+  entityType: ThreadEntityType;
+  entityId: string;
+}
+
+// The rich text editor leaves markup such as <p><br></p> behind when cleared
+const isBlank = (html: string) => !html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+
+const MessageBubble = ({ message }: { message: ThreadMessage }) => {
+  const sent = message.direction === 'sent';
+  return (
+    <div className={`flex ${sent ? 'justify-end' : 'justify-start'}`}>
+      <div
+        className={`max-w-[85%] rounded-lg border p-3 ${
+          sent ? 'bg-primary/5 border-primary/20' : 'bg-purple-50/50 dark:bg-purple-900/10 border-purple-200 dark:border-purple-800/30'
+        }`}
+      >
+        <div className="flex items-center justify-between gap-4 mb-1.5 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground truncate">
+            {sent ? `${message.fromEmail} → ${message.toName || message.toEmail}` : message.fromName || message.fromEmail}
+          </span>
+          <span className="shrink-0">{format(new Date(message.at), 'dd/MM/yyyy HH:mm')}</span>
+        </div>
+        {message.html ? (
+          <div className="text-sm [&_p]:mb-1 [&_ul]:list-disc [&_ul]:ml-4" dangerouslySetInnerHTML={{ __html: message.html }} />
+        ) : (
+          <p className="text-sm whitespace-pre-wrap">{message.text || 'No preview available'}</p>
+        )}
+        {sent && message.status === 'bounced' && (
+          <Badge variant="destructive" className="mt-2 text-xs">Bounced</Badge>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const EntityEmailThreads = ({ entityType, entityId }: EntityEmailThreadsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openThread, setOpenThread] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const senderEmail = user?.email || 'noreply@acmecrm.com';
+
+  const { data: threads = [], isLoading } = useQuery({
+    queryKey: ['email-threads', entityType, entityId],
+    queryFn: () => fetchEntityThreads(entityType, entityId),
+    enabled: !!entityId,
+  });
+
+  const startReply = (thread: EmailThread) => {
+    setOpenThread(thread.key);
+    setReplyingTo(thread.key);
+    setReplyBody('');
+  };
+
+  const handleSendReply = async (thread: EmailThread) => {
+    const target = replyTarget(thread);
+    if (!target.to || isBlank(replyBody)) return;
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('send-email', {
+        body: {
+          to: target.to,
+          toName: target.toName || target.to,
+          subject: replySubject(thread.subject),
+          body: replyBody,
+          from: senderEmail,
+          entityType: thread.entity?.type,
+          entityId: thread.entity?.id,
+          replyToEmailId: target.replyToEmailId,
+          replyToReplyId: target.replyToReplyId,
+        },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast({ title: 'Reply sent', description: `Sent to ${target.toName || target.to}` });
+      setReplyingTo(null);
+      setReplyBody('');
+      queryClient.invalidateQueries({ queryKey: ['email-threads'] });
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast({
+        title: 'Failed to send reply',
+        description: error instanceof Error ? error.message : 'An error occurred while sending the reply',
+        variant: 'destructive',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <Skeleton key={i} className="h-16 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (threads.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+        <MessagesSquare className="h-10 w-10 mb-2 opacity-50" />
+        <p className="text-sm">No conversations with this {entityType} yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[400px] pr-4">
+      <div className="space-y-3">
+        {threads.map(thread => {
+          const received = thread.messages.filter(m => m.direction === 'received').length;
+          const target = replyTarget(thread);
+          const otherMailbox = thread.mailbox.toLowerCase() !== senderEmail.toLowerCase();
+
+          return (
+            <Collapsible
+              key={thread.key}
+              open={openThread === thread.key}
+              onOpenChange={(open) => setOpenThread(open ? thread.key : null)}
+            >
+              <Card>
+                <CollapsibleTrigger className="w-full text-left">
+                  <CardContent className="p-4 hover:bg-accent/50 transition-colors">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <Mail className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                          <span className="font-medium truncate">{thread.subject}</span>
+                        </div>
+                        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                          <span>{thread.messages.length} {thread.messages.length === 1 ? 'message' : 'messages'}</span>
+                          {received > 0 && (
+                            <span className="flex items-center gap-1 text-purple-600">
+                              <Reply className="h-3 w-3" />
+                              {received} {received === 1 ? 'reply' : 'replies'}
+                            </span>
+                          )}
+                          <span>Last activity {format(new Date(thread.lastActivityAt), 'dd/MM/yyyy HH:mm')}</span>
+                        </div>
+                      </div>
+                      <ChevronDown className={`h-4 w-4 text-muted-foreground transition-transform ${openThread === thread.key ? 'rotate-180' : ''}`} />
+                    </div>
+                  </CardContent>
+                </CollapsibleTrigger>
+
+                <CollapsibleContent>
+                  <div className="space-y-3 border-t p-4">
+                    {thread.messages.map(message => (
+                      <MessageBubble key={message.id} message={message} />
+                    ))}
+
+                    {replyingTo === thread.key ? (
+                      <div className="space-y-2 rounded-lg border p-3">
+                        <div className="text-xs text-muted-foreground">
+                          Reply to <span className="font-medium text-foreground">{target.toName || target.to}</span> from {senderEmail}
+                        </div>
+                        <RichTextEditor value={replyBody} onChange={setReplyBody} placeholder="Write your reply..." />
+                        {otherMailbox && (
+                          <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                            <Info className="h-3 w-3 shrink-0" />
+                            This conversation was started from {thread.mailbox}; in Outlook your reply starts a new conversation.
+                          </p>
+                        )}
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setReplyingTo(null)} disabled={sending}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleSendReply(thread)} disabled={sending || isBlank(replyBody)} className="gap-2">
+                            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                            Send Reply
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex justify-end">
+                        <Button variant="outline" size="sm" onClick={() => startReply(thread)} disabled={!target.to} className="gap-2">
+                          <Reply className="h-4 w-4" />
+                          Reply
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CollapsibleContent>
+              </Card>
+            </Collapsible>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+};
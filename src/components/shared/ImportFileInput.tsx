@@ -0,0 +1,109 @@
+import { forwardRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { IMPORT_FILE_ACCEPT, isImportFile, isSpreadsheetFile, listImportSheets } from "@/utils/importFile";
+
+interface ImportFileInputProps {
+  // Called with the chosen sheet for .xlsx workbooks
+  onFileSelected: (file: File, sheet?: string) => void;
+  disabled?: boolean;
+  id?: string;
+}
+
+/**
+ * Hidden file input for CSV and .xlsx imports. Open it by clicking it through the ref (or a label).
+ * When a workbook has more than one sheet the user is asked which one to import.
+ */
+export const ImportFileInput = forwardRef<HTMLInputElement, ImportFileInputProps>(({ onFileSelected, disabled, id }, ref) => {
+  const [workbook, setWorkbook] = useState<{ file: File; sheets: string[] } | null>(null);
+  const [sheet, setSheet] = useState('');
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!isImportFile(file)) {
+      toast({
+        title: "Invalid File Type",
+        description: "Please select a CSV or Excel (.xlsx) file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isSpreadsheetFile(file)) {
+      onFileSelected(file);
+      return;
+    }
+
+    try {
+      const sheets = await listImportSheets(file);
+      if (sheets.length === 0) throw new Error('The workbook has no sheets');
+      if (sheets.length === 1) {
+        onFileSelected(file, sheets[0]);
+        return;
+      }
+      setSheet(sheets[0]);
+      setWorkbook({ file, sheets });
+    } catch (error) {
+      console.error('Error reading workbook:', error);
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : "Could not read the workbook",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!workbook) return;
+    onFileSelected(workbook.file, sheet);
+    setWorkbook(null);
+  };
+
+  return (
+    <>
+      <input
+        ref={ref}
+        id={id}
+        type="file"
+        accept={IMPORT_FILE_ACCEPT}
+        onChange={handleChange}
+        className="hidden"
+        disabled={disabled}
+      />
+
+      <Dialog open={!!workbook} onOpenChange={(open) => !open && setWorkbook(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Choose a Sheet</DialogTitle>
+            <DialogDescription>{workbook?.file.name} has {workbook?.sheets.length} sheets. Which one should be imported?</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1.5">
+            <Label>Sheet</Label>
+            <Select value={sheet} onValueChange={setSheet}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workbook?.sheets.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWorkbook(null)}>Cancel</Button>
+            <Button onClick={handleConfirm} disabled={!sheet}>Import</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+});
+
+ImportFileInput.displayName = "ImportFileInput";
@@ -0,0 +1,495 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, ArrowLeft, CheckCircle2, Loader2, Plus, Save, Trash2, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useImportMappingProfiles } from "@/hooks/useImportMappingProfiles";
+import { loadCustomFieldsForTable } from "@/hooks/import-export/customFieldsCSV";
+import { LeadsCSVProcessor } from "@/hooks/import-export/leadsCSVProcessor";
+import { SimpleDealsCSVProcessor } from "@/hooks/import-export/simpleDealsCSVProcessor";
+import { countPreviewActions, type ImportPreview } from "@/hooks/import-export/importPreview";
+import { ImportPreviewStep } from "@/components/shared/ImportPreviewStep";
+import {
+  ColumnMapping,
+  IMPORT_TRANSFORMS,
+  ImportTargetField,
+  ImportTransform,
+  applyColumnMappings,
+  applyMappingProfile,
+  applyTransform,
+  findMatchingProfile,
+  getImportTargetFields,
+  suggestColumnMappings,
+  validateColumnMappings,
+} from "@/hooks/import-export/importMapping";
+import type { ParsedCSV } from "@/utils/csvParser";
+import { readImportFile } from "@/utils/importFile";
+
+interface ImportMappingDialogProps {
+  // The dialog is open while a file is set
+  file: File | null;
+  sheet?: string;
+  tableName: string;
+  onCancel: () => void;
+  // Called with the file rewritten to the chosen mapping, ready for the module's importer
+  onConfirm: (data: ParsedCSV) => void;
+}
+
+const SKIP = '__skip';
+const AUTOMATIC = '__automatic';
+const SAMPLE_SIZE = 3;
+
+// Modules whose importer can tell in advance which rows it will create, update or reject
+const PREVIEW_IMPORTERS: Record<string, () => { previewCSV: (csv: ParsedCSV) => Promise<ImportPreview> }> = {
+  leads: () => new LeadsCSVProcessor(),
+  deals: () => new SimpleDealsCSVProcessor(),
+};
+
+/**
+ * Shows how each column of an import file will be read before anything is written: the field it
+ * goes into, sample values and values that would be rejected. Mappings can be saved as named
+ * profiles; the profile saved from a file with the same columns is picked up automatically.
+ * For leads and deals a review step then lists what will happen to each row.
+ */
+export const ImportMappingDialog = ({ file, sheet, tableName, onCancel, onConfirm }: ImportMappingDialogProps) => {
+  const { profiles, isLoading: profilesLoading, saveProfile, deleteProfile } = useImportMappingProfiles(tableName);
+  const [data, setData] = useState<ParsedCSV | null>(null);
+  const [targets, setTargets] = useState<ImportTargetField[]>([]);
+  const [suggested, setSuggested] = useState<ColumnMapping[]>([]);
+  const [readProgress, setReadProgress] = useState(0);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [defaultValues, setDefaultValues] = useState<Record<string, string>>({});
+  const [profileId, setProfileId] = useState(AUTOMATIC);
+  const [profileName, setProfileName] = useState('');
+  const [initialised, setInitialised] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [readFailed, setReadFailed] = useState(false);
+  const [preview, setPreview] = useState<{ data: ParsedCSV; result: ImportPreview } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+
+    setData(null);
+    setReadProgress(0);
+    setReadFailed(false);
+    setInitialised(false);
+    setProfileId(AUTOMATIC);
+    setProfileName('');
+    setPreview(null);
+
+    const load = async () => {
+      try {
+        const [parsed, customFields] = await Promise.all([
+          readImportFile(file, { sheet, onProgress: (loaded, total) => setReadProgress(total > 0 ? (loaded / total) * 100 : 100) }),
+          loadCustomFieldsForTable(tableName),
+        ]);
+        if (cancelled) return;
+        if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+          throw new Error('The file must contain at least a header row and one data row');
+        }
+        setTargets(getImportTargetFields(tableName, customFields));
+        setSuggested(suggestColumnMappings(tableName, parsed.headers, customFields));
+        setData(parsed);
+      } catch (error) {
+        if (cancelled) return;
+        console.error('Error reading import file:', error);
+        toast({
+          title: "Import Error",
+          description: error instanceof Error ? error.message : "Could not read the file",
+          variant: "destructive",
+        });
+        setReadFailed(true);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, sheet, tableName]);
+
+  useEffect(() => {
+    if (readFailed) onCancel();
+  }, [readFailed, onCancel]);
+
+  // Start from the profile saved for a file like this one, or the automatic guess
+  useEffect(() => {
+    if (!data || profilesLoading || initialised) return;
+    const match = findMatchingProfile(profiles, data.headers);
+    if (match) {
+      setMappings(applyMappingProfile(match, suggested));
+      setDefaultValues(match.defaultValues);
+      setProfileId(match.id);
+      setProfileName(match.name);
+    } else {
+      setMappings(suggested);
+      setDefaultValues({});
+    }
+    setInitialised(true);
+  }, [data, profiles, profilesLoading, initialised, suggested]);
+
+  const validation = useMemo(
+    () => (data ? validateColumnMappings(tableName, data, mappings, defaultValues, targets) : null),
+    [tableName, data, mappings, defaultValues, targets]
+  );
+
+  const targetsByName = useMemo(() => new Map(targets.map(target => [target.name, target])), [targets]);
+
+  const samples = useMemo(
+    () => mappings.map((mapping, index) =>
+      (data?.rows || [])
+        .map(row => applyTransform(row[index] ?? '', mapping.transform))
+        .filter(value => value.trim() !== '')
+        .slice(0, SAMPLE_SIZE)
+    ),
+    [data, mappings]
+  );
+
+  const updateMapping = (index: number, changes: Partial<ColumnMapping>) => {
+    setMappings(current => current.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)));
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setMappings(applyMappingProfile(profile, suggested));
+      setDefaultValues(profile.defaultValues);
+      setProfileName(profile.name);
+    } else {
+      setMappings(suggested);
+      setDefaultValues({});
+      setProfileName('');
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    if (!data || !profileName.trim()) return;
+    setSaving(true);
+    try {
+      const id = await saveProfile({
+        name: profileName.trim(),
+        sourceHeaders: data.headers,
+        mappings,
+        defaultValues: Object.fromEntries(Object.entries(defaultValues).filter(([, value]) => value.trim() !== '')),
+      });
+      setProfileId(id);
+      toast({ title: "Profile Saved", description: `"${profileName.trim()}" will be used for files with these columns` });
+    } catch (error) {
+      console.error('Error saving mapping profile:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the mapping profile",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    try {
+      await deleteProfile(profile.id);
+      setProfileId(AUTOMATIC);
+      setProfileName('');
+      toast({ title: "Profile Deleted", description: `"${profile.name}" was removed` });
+    } catch (error) {
+      console.error('Error deleting mapping profile:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete the mapping profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (preview) {
+      onConfirm(preview.data);
+      return;
+    }
+    if (!data || !validation || validation.errors.length > 0) return;
+    const mapped = applyColumnMappings(data, mappings, defaultValues, targets);
+    const importer = PREVIEW_IMPORTERS[tableName];
+    if (!importer) {
+      onConfirm(mapped);
+      return;
+    }
+
+    setPreviewing(true);
+    try {
+      setPreview({ data: mapped, result: await importer().previewCSV(mapped) });
+    } catch (error) {
+      console.error('Error previewing import:', error);
+      toast({
+        title: "Import Error",
+        description: error instanceof Error ? error.message : "Could not check the rows against existing records",
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const availableDefaults = targets.filter(target => !(target.name in defaultValues));
+  const invalidRowTotal = validation
+    ? Object.values(validation.columnIssues).reduce((sum, issue) => sum + issue.invalidCount, 0)
+    : 0;
+  const previewCounts = preview ? countPreviewActions(preview.result) : null;
+  const importRowCount = previewCounts ? previewCounts.create + previewCounts.update : data?.rows.length;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{preview ? 'Review Import' : 'Map Columns'}</DialogTitle>
+          <DialogDescription>
+            {file?.name}{sheet ? ` · ${sheet}` : ''}{data ? ` · ${data.rows.length} rows` : ''}.{' '}
+            {preview
+              ? 'Nothing has been saved yet. Rejected rows are skipped when you import.'
+              : 'Check where each column goes before anything is imported.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview ? (
+          <ImportPreviewStep preview={preview.result} fileName={file?.name || 'import'} />
+        ) : !data || !initialised ? (
+          <div className="py-10 space-y-3">
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+            <Progress value={readProgress} className="h-2 max-w-sm mx-auto" />
+          </div>
+        ) : (
+          <div className="space-y-4 min-h-0 flex flex-col">
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1.5">
+                <Label className="text-xs">Mapping profile</Label>
+                <Select value={profileId} onValueChange={handleProfileChange}>
+                  <SelectTrigger className="w-52 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC}>Automatic</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="mapping-profile-name" className="text-xs">Save as</Label>
+                <Input
+                  id="mapping-profile-name"
+                  className="w-52 h-9"
+                  placeholder="e.g. Trade show export"
+                  value={profileName}
+                  onChange={e => setProfileName(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" size="sm" className="h-9" onClick={handleSaveProfile} disabled={!profileName.trim() || saving}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Profile
+              </Button>
+              {profileId !== AUTOMATIC && (
+                <Button variant="ghost" size="sm" className="h-9 text-destructive" onClick={handleDeleteProfile}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Profile
+                </Button>
+              )}
+            </div>
+
+            {validation && validation.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc pl-4 space-y-0.5">
+                    {validation.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <ScrollArea className="max-h-[45vh] border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs">Column</TableHead>
+                    <TableHead className="text-xs">Sample Values</TableHead>
+                    <TableHead className="text-xs w-56">Import Into</TableHead>
+                    <TableHead className="text-xs w-40">Transform</TableHead>
+                    <TableHead className="text-xs w-56">Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {mappings.map((mapping, index) => {
+                    const issue = validation?.columnIssues[mapping.source];
+                    return (
+                      <TableRow key={`${mapping.source}-${index}`}>
+                        <TableCell className="font-medium text-sm align-top">{mapping.source || `Column ${index + 1}`}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground align-top max-w-[220px]">
+                          {samples[index]?.length > 0
+                            ? samples[index].map((value, i) => <div key={i} className="truncate">{value}</div>)
+                            : <span className="italic">(empty)</span>}
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Select
+                            value={mapping.target ?? SKIP}
+                            onValueChange={value => updateMapping(index, { target: value === SKIP ? null : value })}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={SKIP}>Don't import</SelectItem>
+                              {targets.map(target => (
+                                <SelectItem key={target.name} value={target.name}>
+                                  {target.label}{target.required ? ' *' : ''}{target.customField ? ' (custom)' : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="align-top">
+                          <Select
+                            value={mapping.transform}
+                            onValueChange={value => updateMapping(index, { transform: value as ImportTransform })}
+                            disabled={!mapping.target}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {IMPORT_TRANSFORMS.map(transform => (
+                                <SelectItem key={transform.value} value={transform.value}>{transform.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-xs align-top">
+                          {!mapping.target ? (
+                            <span className="text-muted-foreground">Skipped</span>
+                          ) : issue ? (
+                            <span className="text-destructive">
+                              {issue.invalidCount} {issue.invalidCount === 1 ? 'row' : 'rows'}: {issue.message}
+                              {issue.example && <span className="block truncate text-muted-foreground">e.g. "{issue.example}"</span>}
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-green-600">
+                              <CheckCircle2 className="h-3.5 w-3.5" />
+                              OK
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm">Default Values</Label>
+                <Select
+                  value=""
+                  onValueChange={name => setDefaultValues(current => ({ ...current, [name]: '' }))}
+                  disabled={availableDefaults.length === 0}
+                >
+                  <SelectTrigger className="w-52 h-8 text-xs">
+                    <span className="flex items-center gap-1"><Plus className="h-3.5 w-3.5" />Add default value</span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableDefaults.map(target => (
+                      <SelectItem key={target.name} value={target.name}>{target.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {Object.keys(defaultValues).length === 0 ? (
+                <p className="text-xs text-muted-foreground">Used for a field when its column is empty or not in the file.</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {Object.entries(defaultValues).map(([name, value]) => {
+                    const target = targetsByName.get(name);
+                    const issue = validation?.defaultValueIssues[name];
+                    return (
+                      <div key={name} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm w-40 truncate">{target?.label || name}</span>
+                          {target?.options ? (
+                            <Select value={value} onValueChange={v => setDefaultValues(current => ({ ...current, [name]: v }))}>
+                              <SelectTrigger className="h-8 text-xs flex-1">
+                                <SelectValue placeholder="Choose a value" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {target.options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Input
+                              className="h-8 text-xs flex-1"
+                              value={value}
+                              onChange={e => setDefaultValues(current => ({ ...current, [name]: e.target.value }))}
+                            />
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setDefaultValues(current => {
+                              const next = { ...current };
+                              delete next[name];
+                              return next;
+                            })}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {issue && <p className="text-xs text-destructive pl-[10.5rem]">{issue}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          {preview ? (
+            <Button variant="ghost" className="mr-auto" onClick={() => setPreview(null)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Mapping
+            </Button>
+          ) : invalidRowTotal > 0 && (
+            <p className="text-xs text-muted-foreground mr-auto">Values flagged above will be rejected or left empty.</p>
+          )}
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          {!preview && PREVIEW_IMPORTERS[tableName] ? (
+            <Button onClick={handleConfirm} disabled={!data || !initialised || !validation || validation.errors.length > 0 || previewing}>
+              {previewing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Review {data ? `${data.rows.length} Rows` : ''}
+            </Button>
+          ) : (
+            <Button onClick={handleConfirm} disabled={!data || !initialised || !validation || validation.errors.length > 0 || importRowCount === 0}>
+              Import {importRowCount !== undefined ? `${importRowCount} Rows` : ''}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
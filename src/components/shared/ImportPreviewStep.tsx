@@ -0,0 +1,105 @@
+import { useMemo, useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { countPreviewActions, downloadErrorReport, type ImportPreview, type ImportRowAction } from "@/hooks/import-export/importPreview";
+
+interface ImportPreviewStepProps {
+  preview: ImportPreview;
+  fileName: string;
+}
+
+// Rows beyond this are counted but not listed
+const MAX_LISTED_ROWS = 500;
+
+const ACTIONS: { value: ImportRowAction; label: string; variant: "default" | "secondary" | "destructive" }[] = [
+  { value: 'create', label: 'Create', variant: 'default' },
+  { value: 'update', label: 'Update', variant: 'secondary' },
+  { value: 'reject', label: 'Rejected', variant: 'destructive' },
+];
+
+/**
+ * What an import will do to each row of the file: create a record, update an existing one or
+ * reject the row and why. Rejected rows can be downloaded to fix and import again.
+ */
+export const ImportPreviewStep = ({ preview, fileName }: ImportPreviewStepProps) => {
+  const [filter, setFilter] = useState<ImportRowAction | 'all'>('all');
+  const counts = useMemo(() => countPreviewActions(preview), [preview]);
+  const rows = useMemo(
+    () => (filter === 'all' ? preview.rows : preview.rows.filter(row => row.action === filter)),
+    [preview, filter]
+  );
+
+  const handleDownload = () => {
+    const rejected = preview.rows
+      .filter(row => row.action === 'reject')
+      .map(row => ({ rowNumber: row.rowNumber, row: row.row, reason: row.reason || 'Rejected' }));
+    downloadErrorReport(fileName, preview.headers, rejected);
+  };
+
+  return (
+    <div className="space-y-4 min-h-0 flex flex-col">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant={filter === 'all' ? 'secondary' : 'ghost'} size="sm" onClick={() => setFilter('all')}>
+          All {preview.rows.length}
+        </Button>
+        {ACTIONS.map(action => (
+          <Button
+            key={action.value}
+            variant={filter === action.value ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setFilter(action.value)}
+          >
+            {action.label} {counts[action.value]}
+          </Button>
+        ))}
+        {counts.reject > 0 && (
+          <Button variant="outline" size="sm" className="ml-auto" onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            Download Rejected Rows
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="max-h-[50vh] border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs w-16">Row</TableHead>
+              <TableHead className="text-xs">Record</TableHead>
+              <TableHead className="text-xs w-28">Action</TableHead>
+              <TableHead className="text-xs">Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.slice(0, MAX_LISTED_ROWS).map(row => {
+              const action = ACTIONS.find(a => a.value === row.action);
+              return (
+                <TableRow key={row.rowNumber}>
+                  <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                  <TableCell className="text-sm max-w-[260px] truncate">
+                    {row.label || <span className="italic text-muted-foreground">(no name)</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={action?.variant}>{action?.label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-destructive">{row.reason}</TableCell>
+                </TableRow>
+              );
+            })}
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-sm text-muted-foreground py-6">No rows</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+      {rows.length > MAX_LISTED_ROWS && (
+        <p className="text-xs text-muted-foreground">Showing the first {MAX_LISTED_ROWS} of {rows.length} rows.</p>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,29 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
-import { Edit2, Plus, Trash2, Clock, ChevronDown, ChevronRight, Loader2, History } from 'lucide-react';
+import { Edit2, Plus, Trash2, Clock, ChevronDown, ChevronRight, Loader2, History, Eye, GitCompare, RotateCcw } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { useApprovalWorkflow } from '@/hooks/useApprovalWorkflow';
+import { RevertConfirmDialog } from '@/components/feeds/RevertConfirmDialog';
+import { RecordVersionDialog, VersionColumn } from '@/components/shared/RecordVersionDialog';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import {
+  AuditedTable,
+  buildRecordVersions,
+  formatAuditFieldName,
+  formatAuditSource,
+  formatAuditValue,
+  isTriggerAudited,
+  RecordVersion,
+  restorePatch,
+} from '@/utils/auditLog';
+import { getApprovalRecordName, isApprovalEntityType } from '@/utils/approvalEngine';
 
 interface FieldChange {
   field: string;
@@ -29,6 +47,7 @@ interface HistoryRecord {
     deleted_data?: Record<string, any>;
     bulk_count?: number;
     module?: string;
+    source?: string;
   } | null;
 }
 
@@ -36,32 +55,12 @@ interface RecordChangeHistoryProps {
   entityType: string;
   entityId: string;
   maxHeight?: string;
+  onRestored?: () => void;
 }
 
-// Convert snake_case to Title Case
-const formatFieldName = (field: string): string => {
-  return field
-    .split('_')
-    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-    .join(' ');
-};
-
-// Format value for display
-const formatValue = (value: any): string => {
-  if (value === null || value === undefined || value === '') {
-    return '(empty)';
-  }
-  if (typeof value === 'boolean') {
-    return value ? 'Yes' : 'No';
-  }
-  if (Array.isArray(value)) {
-    return value.length > 0 ? value.join(', ') : '(empty)';
-  }
-  if (typeof value === 'object') {
-    return JSON.stringify(value);
-  }
-  return String(value);
-};
+// Versions are rebuilt from the whole log, so every page is read before anything is shown;
+// stopping early would leave older versions restoring from an incomplete replay
+const HISTORY_PAGE_SIZE = 1000;
 
 // Fields to exclude from display
 const excludedFields = [
@@ -72,11 +71,22 @@ const excludedFields = [
 export const RecordChangeHistory = ({ 
   entityType, 
   entityId, 
-  maxHeight = '400px' 
+  maxHeight = '400px',
+  onRestored
 }: RecordChangeHistoryProps) => {
   const [history, setHistory] = useState<HistoryRecord[]>([]);
+  const [current, setCurrent] = useState<Record<string, unknown> | null>(null);
   const [loading, setLoading] = useState(true);
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [viewing, setViewing] = useState<{ columns: VersionColumn[]; version?: RecordVersion } | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<RecordVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { toast } = useToast();
+  const { submitIfApprovalRequired } = useApprovalWorkflow();
+
+  // Point-in-time versions only exist for the tables the database audits
+  const versioned = isTriggerAudited(entityType);
 
   const userIds = history.map(h => h.user_id).filter(Boolean) as string[];
   const { displayNames } = useUserDisplayNames(userIds);
@@ -88,16 +98,32 @@ export const RecordChangeHistory = ({
   const fetchHistory = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('security_audit_log')
-        .select('id, action, created_at, user_id, details')
-        .eq('resource_type', entityType)
-        .eq('resource_id', entityId)
-        .order('created_at', { ascending: false })
-        .limit(50); // Limit initial load for better performance
-
-      if (error) throw error;
-      setHistory((data as HistoryRecord[]) || []);
+      const entries: HistoryRecord[] = [];
+      for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('security_audit_log')
+          .select('id, action, created_at, user_id, details')
+          .eq('resource_type', entityType)
+          .eq('resource_id', entityId)
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .range(from, from + HISTORY_PAGE_SIZE - 1);
+
+        if (error) throw error;
+        entries.push(...((data as HistoryRecord[]) || []));
+        if (!data || data.length < HISTORY_PAGE_SIZE) break;
+      }
+      setHistory(entries);
+
+      if (isTriggerAudited(entityType)) {
+        const { data: row, error: rowError } = await supabase
+          .from(entityType)
+          .select('*')
+          .eq('id', entityId)
+          .maybeSingle();
+        if (rowError) throw rowError;
+        setCurrent(row as Record<string, unknown> | null);
+      }
     } catch (error) {
       console.error('Error fetching record history:', error);
     } finally {
@@ -105,6 +131,93 @@ export const RecordChangeHistory = ({
     }
   };
 
+  const versions = useMemo(() => {
+    if (!versioned) return new Map<string, RecordVersion>();
+    return new Map(buildRecordVersions(history, current).map(version => [version.entry.id, version]));
+  }, [history, current, versioned]);
+
+  const versionLabel = (version: RecordVersion) =>
+    `${getActionLabel(version.entry.action)} · ${format(new Date(version.entry.created_at), 'dd/MM/yyyy HH:mm')}`;
+
+  const canRestore = (version: RecordVersion) =>
+    !!version.snapshot && (!current || Object.keys(restorePatch(current, version.snapshot)).length > 0);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev.slice(-1), id]);
+  };
+
+  const openComparison = () => {
+    // Older version on the left
+    const selected = compareIds
+      .map(id => versions.get(id))
+      .filter((v): v is RecordVersion => !!v)
+      .sort((a, b) => new Date(a.entry.created_at).getTime() - new Date(b.entry.created_at).getTime());
+    setViewing({ columns: selected.map(v => ({ label: versionLabel(v), snapshot: v.snapshot })) });
+  };
+
+  const handleRestore = async () => {
+    const target = restoreTarget;
+    if (!target?.snapshot || !isTriggerAudited(entityType)) return;
+
+    setRestoring(true);
+    try {
+      if (current) {
+        const patch = restorePatch(current, target.snapshot);
+
+        // A restore is an edit like any other, so it goes through the same approval workflows
+        if (isApprovalEntityType(entityType)) {
+          const approval = await submitIfApprovalRequired({
+            entityType,
+            entityId,
+            changes: patch,
+            existing: current,
+            recordName: getApprovalRecordName(entityType, current),
+          });
+
+          if (approval.pendingApproval) {
+            toast({
+              title: 'Approval Required',
+              description: `Restore submitted for approval (${approval.workflowName})`
+            });
+            setViewing(null);
+            return;
+          }
+        }
+
+        const { error } = await supabase
+          .from(entityType)
+          .update(patch)
+          .eq('id', entityId);
+        if (error) throw error;
+      } else {
+        // Deleted since: put the row back as it was at that version
+        const { error } = await supabase
+          .from(entityType)
+          .insert([{ ...target.snapshot, id: entityId } as TablesInsert<AuditedTable>]);
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Version restored',
+        description: `The record is back to how it was on ${format(new Date(target.entry.created_at), 'dd/MM/yyyy HH:mm')}`
+      });
+      setViewing(null);
+      setCompareIds([]);
+      await fetchHistory();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring record version:', error);
+      toast({
+        title: 'Error',
+        description: `Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive'
+      });
+    } finally {
+      setRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
   const toggleExpanded = (id: string) => {
     setExpandedItems(prev => {
       const next = new Set(prev);
@@ -224,82 +337,151 @@ export const RecordChangeHistory = ({
   }
 
   return (
-    <ScrollArea className={`h-[${maxHeight}]`} style={{ maxHeight }}>
-      <div className="relative pl-6 pr-2">
-        {/* Timeline line */}
-        <div className="absolute left-2 top-2 bottom-2 w-0.5 bg-border" />
+    <>
+      {versioned && versions.size > 1 && (
+        <div className="flex items-center justify-between gap-2 mb-3">
+          <p className="text-xs text-muted-foreground">
+            {current ? 'Tick two versions to compare them' : 'This record has been deleted. Restore a version to bring it back.'}
+          </p>
+          <Button variant="outline" size="sm" className="h-7 text-xs" disabled={compareIds.length !== 2} onClick={openComparison}>
+            <GitCompare className="h-3.5 w-3.5 mr-1" />
+            Compare ({compareIds.length}/2)
+          </Button>
+        </div>
+      )}
+      <ScrollArea className={`h-[${maxHeight}]`} style={{ maxHeight }}>
+        <div className="relative pl-6 pr-2">
+          {/* Timeline line */}
+          <div className="absolute left-2 top-2 bottom-2 w-0.5 bg-border" />
         
-        <div className="space-y-4">
-          {history.map((record) => {
-            const isExpanded = expandedItems.has(record.id);
-            const fieldChanges = getFieldChanges(record);
-            const hasDetails = fieldChanges.length > 0;
-
-            return (
-              <div key={record.id} className="relative">
-                {/* Timeline dot */}
-                <div className={`absolute -left-4 mt-1.5 w-5 h-5 rounded-full flex items-center justify-center ${getActionColor(record.action)}`}>
-                  {getActionIcon(record.action)}
-                </div>
+          <div className="space-y-4">
+            {history.map((record) => {
+              const isExpanded = expandedItems.has(record.id);
+              const fieldChanges = getFieldChanges(record);
+              const hasDetails = fieldChanges.length > 0;
+              const version = versions.get(record.id);
+
+              return (
+                <div key={record.id} className="relative">
+                  {/* Timeline dot */}
+                  <div className={`absolute -left-4 mt-1.5 w-5 h-5 rounded-full flex items-center justify-center ${getActionColor(record.action)}`}>
+                    {getActionIcon(record.action)}
+                  </div>
                 
-                <Collapsible open={isExpanded} onOpenChange={() => hasDetails && toggleExpanded(record.id)}>
-                  <div className="ml-4 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
-                    <CollapsibleTrigger asChild disabled={!hasDetails}>
-                      <div className={`flex items-start justify-between gap-2 ${hasDetails ? 'cursor-pointer' : ''}`}>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <p className="font-medium text-sm">{getActionLabel(record.action)}</p>
-                            {hasDetails && (
-                              isExpanded ? 
-                                <ChevronDown className="h-4 w-4 text-muted-foreground" /> :
-                                <ChevronRight className="h-4 w-4 text-muted-foreground" />
-                            )}
-                          </div>
-                          <p className="text-xs text-muted-foreground mt-0.5">
-                            by {record.user_id ? (displayNames[record.user_id] || 'Loading...') : 'System'}
-                          </p>
-                        </div>
-                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
-                          <span className="text-xs text-muted-foreground">
-                            {format(new Date(record.created_at), 'dd/MM/yyyy')}
-                          </span>
-                          <span className="text-xs text-muted-foreground">
-                            {format(new Date(record.created_at), 'HH:mm')}
-                          </span>
-                        </div>
-                      </div>
-                    </CollapsibleTrigger>
-
-                    <CollapsibleContent>
-                      {hasDetails && (
-                        <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
-                          {fieldChanges.map((change, idx) => (
-                            <div key={idx} className="flex items-start gap-2 text-sm">
-                              <span className="text-muted-foreground">•</span>
-                              <span className="font-medium text-muted-foreground min-w-[100px]">
-                                {formatFieldName(change.field)}:
-                              </span>
-                              {record.action === 'CREATE' ? (
-                                <span className="text-foreground">{formatValue(change.new)}</span>
-                              ) : (
-                                <span className="text-foreground">
-                                  <span className="text-muted-foreground line-through">{formatValue(change.old)}</span>
-                                  <span className="mx-2">→</span>
-                                  <span className="text-emerald-600 dark:text-emerald-400">{formatValue(change.new)}</span>
-                                </span>
+                  <Collapsible open={isExpanded} onOpenChange={() => hasDetails && toggleExpanded(record.id)}>
+                    <div className="ml-4 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
+                      <CollapsibleTrigger asChild disabled={!hasDetails}>
+                        <div className={`flex items-start justify-between gap-2 ${hasDetails ? 'cursor-pointer' : ''}`}>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <p className="font-medium text-sm">{getActionLabel(record.action)}</p>
+                              {hasDetails && (
+                                isExpanded ? 
+                                  <ChevronDown className="h-4 w-4 text-muted-foreground" /> :
+                                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
                               )}
                             </div>
-                          ))}
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              by {record.user_id ? (displayNames[record.user_id] || 'Loading...') : 'System'}
+                              {record.details?.source && record.details.source !== 'app' && ` · via ${formatAuditSource(record.details.source)}`}
+                            </p>
+                          </div>
+                          <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(record.created_at), 'dd/MM/yyyy')}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {format(new Date(record.created_at), 'HH:mm')}
+                            </span>
+                          </div>
+                        </div>
+                      </CollapsibleTrigger>
+
+                      {version && (
+                        <div className="flex items-center gap-1 mt-2">
+                          <label className="flex items-center gap-1.5 text-xs text-muted-foreground mr-auto cursor-pointer">
+                            <Checkbox
+                              checked={compareIds.includes(record.id)}
+                              onCheckedChange={() => toggleCompare(record.id)}
+                              className="h-3.5 w-3.5"
+                            />
+                            Compare
+                          </label>
+                          {version.snapshot && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => setViewing({ columns: [{ label: versionLabel(version), snapshot: version.snapshot }], version })}
+                            >
+                              <Eye className="h-3 w-3 mr-1" />
+                              View
+                            </Button>
+                          )}
+                          {canRestore(version) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              disabled={restoring}
+                              onClick={() => setRestoreTarget(version)}
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Restore
+                            </Button>
+                          )}
                         </div>
                       )}
-                    </CollapsibleContent>
-                  </div>
-                </Collapsible>
-              </div>
-            );
-          })}
+
+                      <CollapsibleContent>
+                        {hasDetails && (
+                          <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
+                            {fieldChanges.map((change, idx) => (
+                              <div key={idx} className="flex items-start gap-2 text-sm">
+                                <span className="text-muted-foreground">•</span>
+                                <span className="font-medium text-muted-foreground min-w-[100px]">
+                                  {formatAuditFieldName(change.field)}:
+                                </span>
+                                {record.action === 'CREATE' ? (
+                                  <span className="text-foreground">{formatAuditValue(change.new)}</span>
+                                ) : (
+                                  <span className="text-foreground">
+                                    <span className="text-muted-foreground line-through">{formatAuditValue(change.old)}</span>
+                                    <span className="mx-2">→</span>
+                                    <span className="text-emerald-600 dark:text-emerald-400">{formatAuditValue(change.new)}</span>
+                                  </span>
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </CollapsibleContent>
+                    </div>
+                  </Collapsible>
+                </div>
+              );
+            })}
+          </div>
         </div>
-      </div>
-    </ScrollArea>
+      </ScrollArea>
+
+      <RecordVersionDialog
+        open={!!viewing}
+        onOpenChange={open => !open && setViewing(null)}
+        versions={viewing?.columns || []}
+        onRestore={viewing?.version && canRestore(viewing.version) ? () => setRestoreTarget(viewing.version!) : undefined}
+      />
+
+      <RevertConfirmDialog
+        open={!!restoreTarget}
+        onConfirm={handleRestore}
+        onCancel={() => setRestoreTarget(null)}
+        title="Restore Version"
+        description={restoreTarget
+          ? `The record will be put back to how it was on ${format(new Date(restoreTarget.entry.created_at), 'dd/MM/yyyy HH:mm')}${current ? '' : ', undoing its deletion'}. The restore is itself recorded in the history.`
+          : ''}
+        confirmLabel="Restore"
+      />
+    </>
   );
 };
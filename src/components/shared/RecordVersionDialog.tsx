@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { diffRecordVersions, formatAuditFieldName, formatAuditValue } from '@/utils/auditLog';
+
+export interface VersionColumn {
+  label: string;
+  snapshot: Record<string, unknown> | null;
+}
+
+interface RecordVersionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // One version to view it in full, two to compare them side by side
+  versions: VersionColumn[];
+  onRestore?: () => void;
+}
+
+// Not useful to read in a version
+const HIDDEN_FIELDS = ['id'];
+
+export const RecordVersionDialog = ({ open, onOpenChange, versions, onRestore }: RecordVersionDialogProps) => {
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const comparing = versions.length === 2;
+
+  const changed = comparing ? new Set(diffRecordVersions(versions[0].snapshot, versions[1].snapshot)) : new Set<string>();
+  const fields = [...new Set(versions.flatMap(v => Object.keys(v.snapshot || {})))]
+    .filter(field => !HIDDEN_FIELDS.includes(field))
+    .filter(field => !comparing || !onlyDifferences || changed.has(field))
+    .sort();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={cn('max-h-[85vh]', comparing ? 'max-w-4xl' : 'max-w-2xl')}>
+        <DialogHeader>
+          <DialogTitle>{comparing ? 'Compare Versions' : versions[0]?.label}</DialogTitle>
+        </DialogHeader>
+
+        {comparing && (
+          <div className="flex items-center gap-2">
+            <Switch id="only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+            <Label htmlFor="only-differences" className="text-sm">Only show fields that differ ({changed.size})</Label>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[60vh]">
+          <div className="border rounded-lg overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-xs w-48">Field</TableHead>
+                  {comparing
+                    ? versions.map(version => <TableHead key={version.label} className="text-xs">{version.label}</TableHead>)
+                    : <TableHead className="text-xs">Value</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map(field => (
+                  <TableRow key={field} className={cn(comparing && changed.has(field) && 'bg-amber-50 dark:bg-amber-950/20')}>
+                    <TableCell className="font-medium text-sm align-top">{formatAuditFieldName(field)}</TableCell>
+                    {versions.map(version => (
+                      <TableCell key={version.label} className="text-sm align-top break-all">
+                        {version.snapshot ? formatAuditValue(version.snapshot[field]) : '(deleted)'}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                {fields.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={versions.length + 1} className="text-center text-sm text-muted-foreground">
+                      {comparing ? 'These versions are the same' : 'Nothing recorded for this version'}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </ScrollArea>
+
+        {onRestore && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={onRestore}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore This Version
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,102 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Gauge, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { getScoreBreakdown, getScoreColor, SCORING_RULE_TYPE_LABELS } from '@/utils/scoringUtils';
+
+interface ScoreBreakdownCardProps {
+  entity: 'lead' | 'contact';
+  recordId: string;
+}
+
+// Fetched separately because list views don't load the breakdown column
+export const ScoreBreakdownCard = ({ entity, recordId }: ScoreBreakdownCardProps) => {
+  const queryClient = useQueryClient();
+  const [recalculating, setRecalculating] = useState(false);
+  const queryKey = ['record-score', entity, recordId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const query = entity === 'contact'
+        ? supabase.from('contacts').select('score, score_breakdown, score_updated_at')
+        : supabase.from('leads').select('score, score_breakdown, score_updated_at');
+      const { data, error } = await query.eq('id', recordId).single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!recordId,
+  });
+
+  const handleRecalculate = async () => {
+    setRecalculating(true);
+    try {
+      const { error } = await supabase.rpc('calculate_record_score', { p_entity_type: entity, p_record_id: recordId });
+      if (error) throw error;
+      await queryClient.invalidateQueries({ queryKey });
+    } catch (error) {
+      console.error('Error recalculating score:', error);
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const score = data?.score ?? 0;
+  const breakdown = getScoreBreakdown(data?.score_breakdown);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            Score
+          </CardTitle>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleRecalculate} disabled={recalculating || isLoading}>
+            <RefreshCw className={`h-3.5 w-3.5 ${recalculating ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="h-16 animate-pulse rounded bg-muted" />
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <span className={`text-2xl font-semibold ${getScoreColor(score)}`}>{score}</span>
+              <Progress value={score} className="h-2 flex-1" />
+            </div>
+
+            {breakdown.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No scoring rules apply to this {entity} yet.</p>
+            ) : (
+              <div className="space-y-1.5">
+                {breakdown.map(item => (
+                  <div key={item.rule_id} className="flex items-center justify-between text-sm">
+                    <span>
+                      {item.name || SCORING_RULE_TYPE_LABELS[item.rule_type]}
+                      {item.count > 1 && <span className="text-muted-foreground"> ×{item.count}</span>}
+                    </span>
+                    <span className={item.points < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                      {item.points > 0 ? '+' : ''}{item.points}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {data?.score_updated_at && (
+              <p className="text-xs text-muted-foreground">
+                Updated {formatDistanceToNow(new Date(data.score_updated_at), { addSuffix: true })}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -31,9 +31,11 @@ import {
   Loader2,
   Plus,
   History,
+  Repeat,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { formatDateTimeStandard } from '@/utils/formatUtils';
+import { describeRecurrence, isRecurring } from '@/utils/taskRecurrence';
 
 interface TaskDetailModalProps {
   open: boolean;
@@ -225,6 +227,15 @@ export const TaskDetailModal = ({
                       {task.due_time && <span>at {task.due_time}</span>}
                     </div>
                   )}
+                  {isRecurring(task.recurrence) && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Repeat className="h-4 w-4 text-muted-foreground" />
+                      <span>{describeRecurrence(task.recurrence)}</span>
+                      {task.recurrence_end_date && (
+                        <span>until {format(new Date(task.recurrence_end_date), 'dd/MM/yyyy')}</span>
+                      )}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -39,6 +39,7 @@ import {
   ChevronRight,
   ListTodo,
   ExternalLink,
+  Repeat,
 } from 'lucide-react';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
@@ -47,6 +48,7 @@ import { RowActionsDropdown } from '@/components/RowActionsDropdown';
 import { HighlightedText } from '@/components/shared/HighlightedText';
 import { ClearFiltersButton } from '@/components/shared/ClearFiltersButton';
 import { getTaskStatusColor, getTaskPriorityColor, getModuleTypeColor, getTaskStatusLabel } from '@/utils/statusBadgeUtils';
+import { describeRecurrence, isRecurring } from '@/utils/taskRecurrence';
 
 interface TaskListViewProps {
   tasks: Task[];
@@ -484,6 +486,9 @@ export const TaskListView = ({
                           >
                             <HighlightedText text={task.title} highlight={searchTerm} />
                           </button>
+                          {isRecurring(task.recurrence) && (
+                            <Repeat className="inline h-3.5 w-3.5 ml-1.5 text-muted-foreground" aria-label={describeRecurrence(task.recurrence)} />
+                          )}
                         </TableCell>
                       )}
                       {visibleColumns.includes('status') && (
@@ -43,6 +43,10 @@ import { AccountModal } from '@/components/AccountModal';
 import { ContactModal } from '@/components/ContactModal';
 import { LeadModal } from '@/components/LeadModal';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { TaskRecurrenceEditor } from '@/components/tasks/TaskRecurrenceEditor';
+import { isRecurring, RecurrenceEditScope } from '@/utils/taskRecurrence';
 
 // Generate 30-minute time slots
 const generateTimeSlots = () => {
@@ -73,6 +77,8 @@ const taskSchema = z.object({
   lead_id: z.string().optional(),
   meeting_id: z.string().optional(),
   deal_id: z.string().optional(),
+  recurrence: z.string().optional(),
+  recurrence_end_date: z.string().optional(),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -82,7 +88,7 @@ interface TaskModalProps {
   onOpenChange: (open: boolean) => void;
   task?: Task | null;
   onSubmit: (data: CreateTaskData) => Promise<any>;
-  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task) => Promise<boolean>;
+  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task, scope?: RecurrenceEditScope) => Promise<boolean>;
   context?: TaskModalContext;
   nested?: boolean;
 }
@@ -106,6 +112,7 @@ export const TaskModal = ({
   const [meetings, setMeetings] = useState<{ id: string; subject: string; start_time: string }[]>([]);
   const [deals, setDeals] = useState<{ id: string; deal_name: string; stage: string }[]>([]);
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>('this');
 
   // Modal states for creating new entities
   const [accountModalOpen, setAccountModalOpen] = useState(false);
@@ -128,11 +135,14 @@ export const TaskModal = ({
       lead_id: '',
       meeting_id: '',
       deal_id: '',
+      recurrence: 'none',
+      recurrence_end_date: '',
     },
   });
 
   const selectedModule = form.watch('module_type');
   const isModuleLocked = context?.locked && context?.module;
+  const isSeriesTask = !!task && (isRecurring(task.recurrence) || !!task.parent_task_id);
 
   // Fetch current user's display name
   useEffect(() => {
@@ -170,6 +180,8 @@ export const TaskModal = ({
           lead_id: task.lead_id || '',
           meeting_id: task.meeting_id || '',
           deal_id: task.deal_id || '',
+          recurrence: task.recurrence || 'none',
+          recurrence_end_date: task.recurrence_end_date || '',
         });
       } else {
         form.reset({
@@ -186,8 +198,11 @@ export const TaskModal = ({
           lead_id: context?.module === 'leads' ? context?.recordId : '',
           meeting_id: context?.module === 'meetings' ? context?.recordId : '',
           deal_id: context?.module === 'deals' ? context?.recordId : '',
+          recurrence: 'none',
+          recurrence_end_date: '',
         });
       }
+      setEditScope('this');
     }
   }, [open, task, form, context]);
 
@@ -255,11 +270,13 @@ export const TaskModal = ({
         lead_id: data.lead_id || undefined,
         meeting_id: data.meeting_id || undefined,
         deal_id: data.deal_id || undefined,
+        recurrence: data.recurrence || 'none',
+        recurrence_end_date: isRecurring(data.recurrence) && data.recurrence_end_date ? data.recurrence_end_date : null,
       };
 
       let success = false;
       if (task && onUpdate) {
-        success = await onUpdate(task.id, taskData, task);
+        success = await onUpdate(task.id, taskData, task, isSeriesTask ? editScope : undefined);
       } else {
         const result = await onSubmit(taskData);
         success = result !== null && result !== undefined;
@@ -700,7 +717,43 @@ export const TaskModal = ({
                 />
               </div>
 
-              {/* Row 5: Description */}
+              {/* Row 5: Recurrence */}
+              <div className="space-y-3">
+                {isSeriesTask && (
+                  <div className="space-y-2">
+                    <Label>Apply changes to</Label>
+                    <RadioGroup
+                      value={editScope}
+                      onValueChange={(value) => setEditScope(value as RecurrenceEditScope)}
+                      className="flex gap-4"
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="this" id="scope-this" />
+                        <Label htmlFor="scope-this" className="font-normal cursor-pointer">This occurrence</Label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="future" id="scope-future" />
+                        <Label htmlFor="scope-future" className="font-normal cursor-pointer">This and all future occurrences</Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+                )}
+                <TaskRecurrenceEditor
+                  value={form.watch('recurrence') || 'none'}
+                  onChange={(value) => form.setValue('recurrence', value)}
+                  endDate={form.watch('recurrence_end_date') || ''}
+                  onEndDateChange={(value) => form.setValue('recurrence_end_date', value)}
+                  dueDate={form.watch('due_date')}
+                  disabled={isSeriesTask && editScope === 'this'}
+                />
+                {isSeriesTask && editScope === 'this' && (
+                  <p className="text-xs text-muted-foreground">
+                    Choose "This and all future occurrences" to change how the task repeats.
+                  </p>
+                )}
+              </div>
+
+              {/* Row 6: Description */}
               <FormField
                 control={form.control}
                 name="description"
@@ -719,7 +772,7 @@ export const TaskModal = ({
                 )}
               />
 
-              {/* Row 6: Created By (Read-only) */}
+              {/* Row 7: Created By (Read-only) */}
               <div className="pt-2 border-t border-border">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <User className="h-4 w-4" />
@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon, Repeat, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  formatRecurrenceRule,
+  isCustomRecurrence,
+  isRecurring,
+  parseRecurrence,
+} from '@/utils/taskRecurrence';
+
+interface TaskRecurrenceEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  endDate: string;
+  onEndDateChange: (value: string) => void;
+  dueDate?: string;
+  disabled?: boolean;
+}
+
+const UNIT_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'DAILY', label: 'day(s)' },
+  { value: 'WEEKLY', label: 'week(s)' },
+  { value: 'MONTHLY', label: 'month(s)' },
+  { value: 'YEARLY', label: 'year(s)' },
+];
+
+export const TaskRecurrenceEditor = ({
+  value,
+  onChange,
+  endDate,
+  onEndDateChange,
+  dueDate,
+  disabled = false,
+}: TaskRecurrenceEditorProps) => {
+  const [customSelected, setCustomSelected] = useState(false);
+  const [endCalendarOpen, setEndCalendarOpen] = useState(false);
+
+  const mode = customSelected || isCustomRecurrence(value) ? 'custom' : (isRecurring(value) ? value : 'none');
+  const rule: RecurrenceRule = parseRecurrence(value) || { freq: 'WEEKLY', interval: 1, byDay: [] };
+
+  const handleModeChange = (next: string) => {
+    if (next === 'custom') {
+      setCustomSelected(true);
+      const dueDay = dueDate ? new Date(dueDate).getDay() : new Date().getDay();
+      onChange(formatRecurrenceRule({ ...rule, byDay: rule.freq === 'WEEKLY' && rule.byDay.length ? rule.byDay : [dueDay] }));
+      return;
+    }
+
+    setCustomSelected(false);
+    onChange(next);
+    if (next === 'none') onEndDateChange('');
+  };
+
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    onChange(formatRecurrenceRule({ ...rule, ...changes }));
+  };
+
+  const toggleDay = (day: number) => {
+    const byDay = rule.byDay.includes(day) ? rule.byDay.filter(d => d !== day) : [...rule.byDay, day].sort((a, b) => a - b);
+    // A weekly rule needs at least one day
+    if (byDay.length > 0) updateRule({ byDay });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="flex items-center gap-1.5">
+            <Repeat className="h-3.5 w-3.5" />
+            Repeat
+          </Label>
+          <Select value={mode} onValueChange={handleModeChange} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="yearly">Yearly</SelectItem>
+              <SelectItem value="custom">Custom...</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {mode !== 'none' && (
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <div className="flex gap-2">
+              <Popover open={endCalendarOpen} onOpenChange={setEndCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={disabled}
+                    className={cn(
+                      "flex-1 justify-start text-left font-normal h-8",
+                      !endDate && "text-muted-foreground"
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {endDate ? format(new Date(endDate), 'MMM d, yyyy') : 'Never'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 pointer-events-auto" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={endDate ? new Date(endDate) : undefined}
+                    disabled={dueDate ? { before: new Date(dueDate) } : undefined}
+                    onSelect={(date) => {
+                      onEndDateChange(date ? format(date, 'yyyy-MM-dd') : '');
+                      setEndCalendarOpen(false);
+                    }}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+              {endDate && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  disabled={disabled}
+                  onClick={() => onEndDateChange('')}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {mode === 'custom' && (
+        <div className="rounded-md border p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm">Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              className="w-16 h-8"
+              value={rule.interval}
+              disabled={disabled}
+              onChange={(e) => updateRule({ interval: Math.min(99, Math.max(1, parseInt(e.target.value) || 1)) })}
+            />
+            <Select
+              value={rule.freq}
+              disabled={disabled}
+              onValueChange={(freq) => updateRule({
+                freq: freq as RecurrenceFrequency,
+                byDay: freq === 'WEEKLY' ? [dueDate ? new Date(dueDate).getDay() : new Date().getDay()] : [],
+              })}
+            >
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNIT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {rule.freq === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Button
+                  key={label}
+                  type="button"
+                  size="sm"
+                  variant={rule.byDay.includes(day) ? 'default' : 'outline'}
+                  className="h-7 w-11 text-xs"
+                  disabled={disabled}
+                  onClick={() => toggleDay(day)}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">{describeRecurrence(value)}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, type ParsedCSV } from '@/utils/csvParser';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
@@ -32,12 +32,12 @@ export class CSVProcessor {
     this.duplicateChecker = createDuplicateChecker(tableName);
   }
 
-  async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+  async processCSV(csv: string | ParsedCSV, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`CSVProcessor: Starting processing for table ${options.tableName}`);
     
     try {
       // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows } = typeof csv === 'string' ? CSVParser.parseCSV(csv) : csv;
       console.log(`CSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
@@ -0,0 +1,95 @@
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import {
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldValues,
+  formatCustomFieldValue,
+  getCustomFieldValues,
+  isEmptyCustomFieldValue,
+  parseCustomFieldInput,
+} from '@/utils/customFieldUtils';
+
+const TABLE_ENTITIES: Record<string, CustomFieldEntity> = {
+  leads: 'lead',
+  contacts: 'contact',
+  accounts: 'account',
+  deals: 'deal',
+};
+
+// "Renewal Date", "renewal_date" and "RENEWAL-DATE" all compare equal
+const normalizeHeader = (header: string) =>
+  header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Visible custom fields for a table; CSV import/export carries on without them if they cannot be loaded
+export const loadCustomFieldsForTable = async (tableName: string): Promise<CustomFieldDefinition[]> => {
+  const entity = TABLE_ENTITIES[tableName];
+  if (!entity) return [];
+
+  try {
+    const fields = await fetchCustomFields(entity);
+    return fields.filter(field => field.is_visible);
+  } catch (error) {
+    console.error(`customFieldsCSV: Failed to load custom fields for ${tableName}:`, error);
+    return [];
+  }
+};
+
+// Export columns are headed by the field label
+export const getCustomFieldHeaders = (fields: CustomFieldDefinition[]) => fields.map(field => field.field_label);
+
+export const getCustomFieldCells = (fields: CustomFieldDefinition[], record: { custom_fields?: unknown }) => {
+  const values = getCustomFieldValues(record);
+  return fields.map(field => formatCustomFieldValue(field, values[field.field_name], 'csv'));
+};
+
+// Maps CSV column indexes to custom fields by label or field name.
+// Built-in columns listed in reservedHeaders win over a custom field with the same name.
+export const mapCustomFieldHeaders = (
+  headers: string[],
+  fields: CustomFieldDefinition[],
+  reservedHeaders: string[] = []
+): Map<number, CustomFieldDefinition> => {
+  const reserved = new Set(reservedHeaders.map(normalizeHeader));
+  const mapping = new Map<number, CustomFieldDefinition>();
+
+  headers.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    if (!normalized || reserved.has(normalized)) return;
+
+    const field = fields.find(f => normalizeHeader(f.field_label) === normalized || f.field_name === normalized);
+    if (field) mapping.set(index, field);
+  });
+
+  return mapping;
+};
+
+// Typed values from the mapped cells of one row. Empty cells are skipped so updates keep the stored value;
+// a value that does not fit its field type throws.
+export const readCustomFieldValues = (
+  row: string[],
+  mapping: Map<number, CustomFieldDefinition>
+): CustomFieldValues => {
+  const values: CustomFieldValues = {};
+
+  mapping.forEach((field, index) => {
+    const value = parseCustomFieldInput(field, row[index] ?? '');
+    if (value !== null) values[field.field_name] = value;
+  });
+
+  return values;
+};
+
+export const hasCustomFieldValues = (values: CustomFieldValues) => Object.keys(values).length > 0;
+
+// Error for a new record left without a required custom field, or null. Updates keep the stored
+// value of an empty cell, so importers only check this before an insert.
+export const getMissingRequiredCustomFieldsError = (
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues
+): string | null => {
+  const missing = fields
+    .filter(field => field.is_required && field.field_type !== 'boolean' && isEmptyCustomFieldValue(values[field.field_name]))
+    .map(field => field.field_label);
+  if (missing.length === 0) return null;
+  return `${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} required`;
+};
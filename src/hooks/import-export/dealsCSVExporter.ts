@@ -1,5 +1,8 @@
 
 import { GenericCSVExporter } from './genericCSVExporter';
+import { loadCustomFieldsForTable } from './customFieldsCSV';
+import { fetchExchangeRates } from '@/hooks/useExchangeRates';
+import { convertAmount, getDealRateDate } from '@/utils/currencyConversion';
 
 // Exact field order as specified - Added account_id and contact_id
 const DEALS_EXPORT_FIELDS = [
@@ -15,6 +18,11 @@ const DEALS_EXPORT_FIELDS = [
   'rfq_received_date', 'proposal_due_date', 'rfq_status', 'account_id', 'contact_id'
 ];
 
+// Converted values appended after the original columns; import ignores them
+const REPORTING_EXPORT_FIELDS = [
+  'reporting_currency', 'total_contract_value_reporting', 'total_revenue_reporting'
+];
+
 export class DealsCSVExporter {
   private genericExporter: GenericCSVExporter;
 
@@ -22,7 +30,7 @@ export class DealsCSVExporter {
     this.genericExporter = new GenericCSVExporter();
   }
   
-  async exportToCSV(deals: any[], filename: string) {
+  async exportToCSV(deals: any[], filename: string, reportingCurrency?: string) {
     console.log('DealsCSVExporter: Starting export with standardized YYYY-MM-DD date format');
     
     if (!deals || deals.length === 0) {
@@ -30,7 +38,31 @@ export class DealsCSVExporter {
     }
 
     // Export deals directly without action items JSON
-    await this.genericExporter.exportToCSV(deals, filename, DEALS_EXPORT_FIELDS);
+    const customFields = await loadCustomFieldsForTable('deals');
+    if (!reportingCurrency) {
+      await this.genericExporter.exportToCSV(deals, filename, DEALS_EXPORT_FIELDS, customFields);
+      return;
+    }
+
+    const rates = await fetchExchangeRates();
+    const toReporting = (deal: (typeof deals)[number], amount: unknown) => {
+      if (amount === null || amount === undefined || amount === '') return '';
+      const converted = convertAmount(Number(amount), deal.currency_type, reportingCurrency, rates, getDealRateDate(deal));
+      return converted === null ? '' : Math.round(converted * 100) / 100;
+    };
+    const dealsWithReporting = deals.map(deal => ({
+      ...deal,
+      reporting_currency: reportingCurrency,
+      total_contract_value_reporting: toReporting(deal, deal.total_contract_value),
+      total_revenue_reporting: toReporting(deal, deal.total_revenue),
+    }));
+
+    await this.genericExporter.exportToCSV(
+      dealsWithReporting,
+      filename,
+      [...DEALS_EXPORT_FIELDS, ...REPORTING_EXPORT_FIELDS],
+      customFields
+    );
     console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
   }
 }
@@ -1,11 +1,23 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, type ParsedCSV } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition, CustomFieldValues, getCustomFieldValues } from '@/utils/customFieldUtils';
+import {
+  getMissingRequiredCustomFieldsError,
+  hasCustomFieldValues,
+  loadCustomFieldsForTable,
+  mapCustomFieldHeaders,
+  readCustomFieldValues,
+} from './customFieldsCSV';
+import { findExistingImportKeys } from './duplicateChecker';
+import type { ImportPreview, ImportRejectedRow } from './importPreview';
 
 export interface DealsProcessingOptions {
   userId: string;
+  // Import batch the created and updated deals are tagged with, so the import can be rolled back
+  batchId?: string;
   onProgress?: (processed: number, total: number) => void;
 }
 
@@ -14,16 +26,33 @@ export interface DealsProcessingResult {
   updateCount: number;
   errorCount: number;
   errors: string[];
+  rejectedRows: ImportRejectedRow[];
 }
 
+// Built-in deal columns; a custom field sharing one of these names is not read from the CSV
+const DEAL_COLUMNS = [
+  'id', 'deal_name', 'stage', 'probability', 'drop_reason', 'created_by', 'modified_by',
+  'created_at', 'modified_at', 'lead_name', 'lead_owner', 'project_name', 'customer_name',
+  'region', 'priority', 'internal_comment', 'expected_closing_date', 'customer_need',
+  'customer_challenges', 'relationship_strength', 'budget', 'business_value',
+  'decision_maker_level', 'is_recurring', 'start_date', 'end_date', 'currency_type',
+  'action_items', 'current_status', 'need_improvement', 'won_reason', 'lost_reason',
+  'total_contract_value', 'project_duration', 'quarterly_revenue_q1', 'quarterly_revenue_q2',
+  'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'closing',
+  'signed_contract_date', 'implementation_start_date', 'handoff_status',
+  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'account_id', 'contact_id'
+];
+
 export class DealsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFields: CustomFieldDefinition[] = [];
+  private customFieldMapping = new Map<number, CustomFieldDefinition>();
 
-  async processCSV(csvText: string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
+  async processCSV(csv: string | ParsedCSV, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
     console.log('DealsCSVProcessor: Starting processing with standardized YYYY-MM-DD date format');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows } = typeof csv === 'string' ? CSVParser.parseCSV(csv) : csv;
       console.log(`DealsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
@@ -35,11 +64,15 @@ export class DealsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      this.customFields = await loadCustomFieldsForTable('deals');
+      this.customFieldMapping = mapCustomFieldHeaders(headers, this.customFields, DEAL_COLUMNS);
+
       const result: DealsProcessingResult = {
         successCount: 0,
         updateCount: 0,
         errorCount: 0,
-        errors: []
+        errors: [],
+        rejectedRows: []
       };
 
       // Process rows in batches
@@ -52,6 +85,7 @@ export class DealsCSVProcessor {
         result.updateCount += batchResult.updateCount;
         result.errorCount += batchResult.errorCount;
         result.errors.push(...batchResult.errors);
+        result.rejectedRows.push(...batchResult.rejectedRows);
 
         if (options.onProgress) {
           options.onProgress(Math.min(i + batchSize, rows.length), rows.length);
@@ -67,6 +101,55 @@ export class DealsCSVProcessor {
     }
   }
 
+  /**
+   * What importing the file would do to each row, without saving anything: create a deal, update
+   * the deal with the same name, or reject the row and why
+   */
+  async previewCSV(csv: string | ParsedCSV): Promise<ImportPreview> {
+    const { headers, rows } = typeof csv === 'string' ? CSVParser.parseCSV(csv) : csv;
+    this.customFields = await loadCustomFieldsForTable('deals');
+    this.customFieldMapping = mapCustomFieldHeaders(headers, this.customFields, DEAL_COLUMNS);
+
+    const prepared = rows.map((row, index) => {
+      const rowObj: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        if (row[i] !== undefined) rowObj[header] = row[i];
+      });
+      return { row, rowObj, rowNumber: index + 2, deal: this.prepareDeal(rowObj, '') };
+    });
+    const existing = await findExistingImportKeys('deals', prepared.map(({ deal }) => deal.deal_name || ''));
+    // A later row with the same name updates the deal an earlier row created
+    const seen = new Set<string>();
+
+    return {
+      headers,
+      rows: prepared.map(({ row, rowObj, rowNumber, deal }) => {
+        const label = deal.deal_name || '';
+        const dateError = this.validateDateFormats(rowObj);
+        if (dateError) {
+          return { rowNumber, row, label, action: 'reject' as const, reason: dateError };
+        }
+        let customFieldValues: CustomFieldValues;
+        try {
+          customFieldValues = readCustomFieldValues(row, this.customFieldMapping);
+        } catch (error) {
+          return { rowNumber, row, label, action: 'reject' as const, reason: error instanceof Error ? error.message : 'Invalid custom field value' };
+        }
+        if (!deal.deal_name || deal.deal_name.trim() === '') {
+          return { rowNumber, row, label, action: 'reject' as const, reason: 'Deal name is required and cannot be empty' };
+        }
+
+        const isUpdate = existing.has(deal.deal_name) || seen.has(deal.deal_name);
+        const missingRequired = isUpdate ? null : getMissingRequiredCustomFieldsError(this.customFields, customFieldValues);
+        if (missingRequired) {
+          return { rowNumber, row, label, action: 'reject' as const, reason: missingRequired };
+        }
+        seen.add(deal.deal_name);
+        return { rowNumber, row, label, action: isUpdate ? 'update' as const : 'create' as const };
+      }),
+    };
+  }
+
   private async processBatch(
     rows: string[][],
     headers: string[],
@@ -78,12 +161,19 @@ export class DealsCSVProcessor {
       successCount: 0,
       updateCount: 0,
       errorCount: 0,
-      errors: []
+      errors: [],
+      rejectedRows: []
     };
 
     for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
       const row = rows[rowIndex];
       const actualRowNumber = batchOffset + rowIndex + 2; // +2 for header and 1-based indexing
+      // Messages carry the row number; the error report has its own column for it
+      const reject = (message: string) => {
+        result.errorCount++;
+        result.errors.push(`Row ${actualRowNumber}: ${message}`);
+        result.rejectedRows.push({ rowNumber: actualRowNumber, reason: message, row });
+      };
       
       try {
         // Convert row to object
@@ -95,10 +185,9 @@ export class DealsCSVProcessor {
         });
 
         // Validate date formats before processing
-        const dateValidationError = this.validateDateFormats(rowObj, actualRowNumber);
+        const dateValidationError = this.validateDateFormats(rowObj);
         if (dateValidationError) {
-          result.errorCount++;
-          result.errors.push(dateValidationError);
+          reject(dateValidationError);
           continue;
         }
 
@@ -107,11 +196,18 @@ export class DealsCSVProcessor {
 
         // Prepare deal record
         const dealRecord = this.prepareDeal(rowObj, options.userId);
+        if (options.batchId) {
+          dealRecord.import_batch_id = options.batchId;
+        }
+
+        const customFieldValues = readCustomFieldValues(row, this.customFieldMapping);
+        if (hasCustomFieldValues(customFieldValues)) {
+          dealRecord.custom_fields = customFieldValues;
+        }
 
         // Validate required fields - ensure deal_name is present and not empty
         if (!dealRecord.deal_name || dealRecord.deal_name.trim() === '') {
-          result.errorCount++;
-          result.errors.push(`Row ${actualRowNumber}: Deal name is required and cannot be empty`);
+          reject('Deal name is required and cannot be empty');
           console.error(`Row ${actualRowNumber}: Missing or empty deal_name:`, rowObj);
           continue;
         }
@@ -119,7 +215,7 @@ export class DealsCSVProcessor {
         // Check for existing deal by name
         const { data: existingDeals } = await supabase
           .from('deals')
-          .select('id')
+          .select('*')
           .eq('deal_name', dealRecord.deal_name)
           .limit(1);
 
@@ -128,18 +224,26 @@ export class DealsCSVProcessor {
         if (existingDeals && existingDeals.length > 0) {
           // Update existing deal
           dealId = existingDeals[0].id;
+          // Custom fields missing from the CSV keep their stored values
+          if (dealRecord.custom_fields) {
+            dealRecord.custom_fields = { ...getCustomFieldValues(existingDeals[0]), ...dealRecord.custom_fields };
+          }
           const { error: updateError } = await supabase
             .from('deals')
             .update(dealRecord)
             .eq('id', dealId);
 
           if (updateError) {
-            result.errorCount++;
-            result.errors.push(`Row ${actualRowNumber}: Update failed - ${updateError.message}`);
+            reject(`Update failed - ${updateError.message}`);
             continue;
           }
           result.updateCount++;
         } else {
+          const missingRequired = getMissingRequiredCustomFieldsError(this.customFields, customFieldValues);
+          if (missingRequired) {
+            reject(missingRequired);
+            continue;
+          }
           // Insert new deal
           const dealToInsert = {
             deal_name: dealRecord.deal_name,
@@ -183,6 +287,8 @@ export class DealsCSVProcessor {
             rfq_received_date: dealRecord.rfq_received_date,
             proposal_due_date: dealRecord.proposal_due_date,
             rfq_status: dealRecord.rfq_status,
+            custom_fields: dealRecord.custom_fields,
+            import_batch_id: dealRecord.import_batch_id,
             created_by: dealRecord.created_by,
             modified_by: dealRecord.modified_by,
             created_at: dealRecord.created_at,
@@ -196,8 +302,7 @@ export class DealsCSVProcessor {
             .single();
 
           if (insertError) {
-            result.errorCount++;
-            result.errors.push(`Row ${actualRowNumber}: Insert failed - ${insertError.message}`);
+            reject(`Insert failed - ${insertError.message}`);
             continue;
           }
           dealId = insertedDeal.id;
@@ -205,15 +310,14 @@ export class DealsCSVProcessor {
         }
 
       } catch (error: any) {
-        result.errorCount++;
-        result.errors.push(`Row ${actualRowNumber}: Processing error - ${error.message}`);
+        reject(`Processing error - ${error.message}`);
       }
     }
 
     return result;
   }
 
-  private validateDateFormats(rowObj: Record<string, any>, rowNumber: number): string | null {
+  private validateDateFormats(rowObj: Record<string, any>): string | null {
     const dateFields = [
       'expected_closing_date', 'start_date', 'end_date', 
       'signed_contract_date', 'implementation_start_date', 
@@ -224,7 +328,7 @@ export class DealsCSVProcessor {
       if (rowObj[field] && rowObj[field].trim() !== '') {
         const convertedDate = DateFormatUtils.convertDateForImport(rowObj[field]);
         if (convertedDate === null) {
-          return `Row ${rowNumber}: Invalid date format in field '${field}': '${rowObj[field]}'. Please use YYYY-MM-DD format.`;
+          return `Invalid date format in field '${field}': '${rowObj[field]}'. Please use YYYY-MM-DD format.`;
         }
       }
     }
@@ -130,3 +130,32 @@ export const createDuplicateChecker = (tableName: string) => {
     }
   };
 };
+
+const RECORD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isRecordId = (value: string) => RECORD_ID_PATTERN.test(value.trim());
+
+/**
+ * The keys, out of those given, that already belong to a stored record. The lead and deal importers
+ * update rather than insert when a row matches one: leads by ID, deals by exact deal name.
+ * Looked up in chunks, so previewing a large file takes a handful of queries rather than one per row.
+ */
+export const findExistingImportKeys = async (tableName: 'leads' | 'deals', keys: string[]): Promise<Set<string>> => {
+  const values = [...new Set(keys.map(key => key.trim()).filter(key => key !== '' && (tableName !== 'leads' || isRecordId(key))))];
+  const existing = new Set<string>();
+
+  for (let i = 0; i < values.length; i += 50) {
+    const chunk = values.slice(i, i + 50);
+    if (tableName === 'leads') {
+      const { data, error } = await supabase.from('leads').select('id').in('id', chunk);
+      if (error) throw error;
+      (data || []).forEach(lead => existing.add(lead.id));
+    } else {
+      const { data, error } = await supabase.from('deals').select('deal_name').in('deal_name', chunk);
+      if (error) throw error;
+      (data || []).forEach(deal => existing.add(deal.deal_name));
+    }
+  }
+
+  return existing;
+};
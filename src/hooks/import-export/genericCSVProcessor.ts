@@ -1,12 +1,20 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, type ParsedCSV } from '@/utils/csvParser';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
 import { LeadsCSVProcessor } from './leadsCSVProcessor';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition, getCustomFieldValues } from '@/utils/customFieldUtils';
+import {
+  getMissingRequiredCustomFieldsError,
+  hasCustomFieldValues,
+  loadCustomFieldsForTable,
+  mapCustomFieldHeaders,
+  readCustomFieldValues,
+} from './customFieldsCSV';
 
 export interface ProcessingOptions {
   tableName: string;
@@ -23,13 +31,13 @@ export interface ProcessingResult {
 }
 
 export class GenericCSVProcessor {
-  async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+  async processCSV(csv: string | ParsedCSV, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`GenericCSVProcessor: Starting processing for table ${options.tableName}`);
     
     // Use specialized processor for leads
     if (options.tableName === 'leads') {
       const leadsProcessor = new LeadsCSVProcessor();
-      const result = await leadsProcessor.processCSV(csvText, {
+      const result = await leadsProcessor.processCSV(csv, {
         userId: options.userId,
         onProgress: options.onProgress
       });
@@ -47,7 +55,7 @@ export class GenericCSVProcessor {
     
     try {
       // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows } = typeof csv === 'string' ? CSVParser.parseCSV(csv) : csv;
       console.log(`GenericCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
@@ -65,6 +73,10 @@ export class GenericCSVProcessor {
       });
       console.log('GenericCSVProcessor: Column mapping:', columnMap);
 
+      // Columns not mapped to a built-in field may belong to a custom field
+      const customFields = await loadCustomFieldsForTable(options.tableName);
+      const customFieldMapping = mapCustomFieldHeaders(headers, customFields, Object.keys(columnMap));
+
       // Collect user names from CSV for user fields
       const userNames = UserNameUtils.extractUserNames(rows, headers, UserNameUtils.USER_FIELDS);
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
@@ -82,7 +94,7 @@ export class GenericCSVProcessor {
       const batchSize = 50;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap);
+        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap, customFields, customFieldMapping);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -110,7 +122,9 @@ export class GenericCSVProcessor {
     headers: string[],
     columnMap: Record<string, string>,
     options: ProcessingOptions,
-    userIdMap: Record<string, string>
+    userIdMap: Record<string, string>,
+    customFields: CustomFieldDefinition[],
+    customFieldMapping: Map<number, CustomFieldDefinition>
   ): Promise<ProcessingResult> {
     
     const recordValidator = createRecordValidator(options.tableName);
@@ -143,6 +157,11 @@ export class GenericCSVProcessor {
           }
         });
 
+        const customFieldValues = readCustomFieldValues(row, customFieldMapping);
+        if (hasCustomFieldValues(customFieldValues)) {
+          rowObj.custom_fields = customFieldValues;
+        }
+
         // Validate record
         const isValid = recordValidator(rowObj);
         if (!isValid) {
@@ -157,7 +176,7 @@ export class GenericCSVProcessor {
         if (rowObj.id) {
           const { data: existing } = await supabase
             .from(options.tableName as any)
-            .select('id')
+            .select(customFieldMapping.size > 0 ? 'id, custom_fields' : 'id')
             .eq('id', rowObj.id)
             .single();
           
@@ -172,6 +191,11 @@ export class GenericCSVProcessor {
           
           // Remove id from update data to avoid conflicts
           delete updateData.id;
+
+          // Custom fields missing from the CSV keep their stored values
+          if (updateData.custom_fields) {
+            updateData.custom_fields = { ...getCustomFieldValues(existingRecord), ...updateData.custom_fields };
+          }
           
           const { error: updateError } = await supabase
             .from(options.tableName as any)
@@ -186,6 +210,13 @@ export class GenericCSVProcessor {
             console.log('Record updated successfully:', existingRecord.id);
           }
         } else {
+          const missingRequired = getMissingRequiredCustomFieldsError(customFields, customFieldValues);
+          if (missingRequired) {
+            result.errorCount++;
+            const rowPreview = rowObj.contact_name || rowObj.lead_name || rowObj.id || 'Unknown';
+            result.errors.push(`Insert failed for "${rowPreview}": ${missingRequired}`);
+            continue;
+          }
           // Insert new record
           const insertData = { ...rowObj };
           insertData.created_by = options.userId;
@@ -4,7 +4,8 @@ export const createHeaderMapper = (tableName: string) => {
   const config = getColumnConfig(tableName);
 
   return (header: string): string | null => {
-    const trimmedHeader = header.trim();
+    // Spreadsheet headers may carry a BOM or zero-width characters, or wrap onto several lines
+    const trimmedHeader = header.replace(/[\uFEFF\u200B]/g, '').replace(/\s+/g, ' ').trim();
     
     console.log(`Mapping header: "${trimmedHeader}"`);
     
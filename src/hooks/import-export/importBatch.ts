@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type ImportBatchTable = 'leads' | 'deals';
+
+export type ImportBatchStatus = 'in_progress' | 'completed' | 'failed' | 'rolled_back';
+
+export interface ImportBatchCounts {
+  successCount: number;
+  updateCount: number;
+  errorCount: number;
+}
+
+export const startImportBatch = async (
+  tableName: ImportBatchTable,
+  userId: string,
+  fileName: string,
+  totalRows: number
+): Promise<string> => {
+  const { data, error } = await supabase
+    .from('import_batches')
+    .insert({ user_id: userId, entity_type: tableName, file_name: fileName, total_rows: totalRows })
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+export const finishImportBatch = async (batchId: string, counts: ImportBatchCounts | null) => {
+  const { error } = await supabase
+    .from('import_batches')
+    .update({
+      status: counts ? 'completed' : 'failed',
+      created_count: counts?.successCount ?? 0,
+      updated_count: counts?.updateCount ?? 0,
+      error_count: counts?.errorCount ?? 0,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', batchId);
+  if (error) console.error('Error finishing import batch:', error);
+};
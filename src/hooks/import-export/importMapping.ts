@@ -0,0 +1,295 @@
+import type { ParsedCSV } from '@/utils/csvParser';
+import { DateFormatUtils } from '@/utils/dateFormatUtils';
+import { CustomFieldDefinition, parseCustomFieldInput } from '@/utils/customFieldUtils';
+import { getColumnConfig } from './columnConfig';
+import { createHeaderMapper } from './headerMapper';
+import { mapCustomFieldHeaders } from './customFieldsCSV';
+
+export type ImportTransform = 'none' | 'lowercase' | 'uppercase' | 'titlecase' | 'digits' | 'first_line';
+
+export const IMPORT_TRANSFORMS: { value: ImportTransform; label: string }[] = [
+  { value: 'none', label: 'As is' },
+  { value: 'titlecase', label: 'Title Case' },
+  { value: 'lowercase', label: 'lowercase' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'digits', label: 'Digits only' },
+  { value: 'first_line', label: 'First line only' },
+];
+
+export interface ColumnMapping {
+  source: string;
+  // Field the column is imported into; null leaves the column out
+  target: string | null;
+  transform: ImportTransform;
+}
+
+export interface ImportTargetField {
+  name: string;
+  label: string;
+  required: boolean;
+  options?: string[];
+  customField?: CustomFieldDefinition;
+}
+
+export interface ImportMappingProfile {
+  id: string;
+  name: string;
+  sourceHeaders: string[];
+  mappings: ColumnMapping[];
+  defaultValues: Record<string, string>;
+}
+
+export interface ColumnIssue {
+  invalidCount: number;
+  example: string;
+  message: string;
+}
+
+export interface MappingValidation {
+  // Problems that stop the import, such as a required field with nowhere to come from
+  errors: string[];
+  columnIssues: Record<string, ColumnIssue>;
+  defaultValueIssues: Record<string, string>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Deal number fields and their allowed range
+const NUMBER_RANGES: Record<string, { min: number; max?: number; integer?: boolean }> = {
+  probability: { min: 0, max: 100, integer: true },
+  priority: { min: 1, max: 5, integer: true },
+  project_duration: { min: 0, integer: true },
+  total_contract_value: { min: 0 },
+  quarterly_revenue_q1: { min: 0 },
+  quarterly_revenue_q2: { min: 0 },
+  quarterly_revenue_q3: { min: 0 },
+  quarterly_revenue_q4: { min: 0 },
+  total_revenue: { min: 0 },
+};
+
+const fieldLabel = (name: string) =>
+  name.split('_').map(word => (word === 'id' ? 'ID' : word.charAt(0).toUpperCase() + word.slice(1))).join(' ');
+
+export const getImportTargetFields = (tableName: string, customFields: CustomFieldDefinition[]): ImportTargetField[] => {
+  const config = getColumnConfig(tableName);
+  const builtIn: ImportTargetField[] = config.allowedColumns.map(name => ({
+    name,
+    label: fieldLabel(name),
+    required: config.required.includes(name),
+    options: config.enums[name],
+  }));
+
+  // A custom field sharing a built-in column's name is never read, so it is not offered
+  const custom = customFields
+    .filter(field => !config.allowedColumns.includes(field.field_name))
+    .map(field => ({
+      name: field.field_name,
+      label: field.field_label,
+      required: field.is_required,
+      options: field.options.length > 0 ? field.options : undefined,
+      customField: field,
+    }));
+
+  return [...builtIn, ...custom];
+};
+
+// The automatic guess for each column, from the same header matching the importers use
+export const suggestColumnMappings = (
+  tableName: string,
+  headers: string[],
+  customFields: CustomFieldDefinition[]
+): ColumnMapping[] => {
+  const headerMapper = createHeaderMapper(tableName);
+  const customMapping = mapCustomFieldHeaders(headers, customFields, getColumnConfig(tableName).allowedColumns);
+  const taken = new Set<string>();
+
+  return headers.map((source, index) => {
+    let target = headerMapper(source) || customMapping.get(index)?.field_name || null;
+    if (target && taken.has(target)) target = null;
+    if (target) taken.add(target);
+    return { source, target, transform: 'none' as ImportTransform };
+  });
+};
+
+/**
+ * Apply a saved profile to a file's columns. Columns the profile knows keep its target and
+ * transform; new columns fall back to the automatic guess.
+ */
+export const applyMappingProfile = (profile: ImportMappingProfile, suggested: ColumnMapping[]): ColumnMapping[] => {
+  const saved = new Map(profile.mappings.map(mapping => [mapping.source, mapping]));
+  const savedTargets = new Set(profile.mappings.map(mapping => mapping.target).filter(Boolean));
+
+  return suggested.map(mapping => {
+    const fromProfile = saved.get(mapping.source);
+    if (fromProfile) return { ...fromProfile };
+    return mapping.target && savedTargets.has(mapping.target) ? { ...mapping, target: null } : mapping;
+  });
+};
+
+// The profile saved from the file whose columns best match these headers, if any match well
+export const findMatchingProfile = (profiles: ImportMappingProfile[], headers: string[]): ImportMappingProfile | null => {
+  const current = new Set(headers.map(header => header.trim().toLowerCase()));
+  let best: ImportMappingProfile | null = null;
+  let bestScore = 0;
+
+  for (const profile of profiles) {
+    const saved = profile.sourceHeaders.map(header => header.trim().toLowerCase());
+    if (saved.length === 0) continue;
+    const shared = saved.filter(header => current.has(header)).length;
+    // Overlap relative to the larger of the two column sets, so a superset file is not a perfect match
+    const score = shared / Math.max(saved.length, current.size);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= 0.8 ? best : null;
+};
+
+export const applyTransform = (value: string, transform: ImportTransform): string => {
+  switch (transform) {
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'titlecase':
+      return value.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, separator: string, letter: string) => separator + letter.toUpperCase());
+    case 'digits':
+      return value.replace(/(?!^\+)[^\d]/g, '');
+    case 'first_line':
+      return value.split(/\r?\n/)[0].trim();
+    default:
+      return value;
+  }
+};
+
+// Why a value would be rejected or dropped for a field, or null when it is fine
+export const validateImportValue = (tableName: string, field: ImportTargetField, value: string): string | null => {
+  if (value.trim() === '') return null;
+
+  if (field.customField) {
+    try {
+      parseCustomFieldInput(field.customField, value);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid value';
+    }
+  }
+
+  if (field.options && !field.options.some(option => option.toLowerCase() === value.trim().toLowerCase())) {
+    return `Expected one of: ${field.options.join(', ')}`;
+  }
+
+  if (DateFormatUtils.getFieldType(field.name) !== 'other' && !DateFormatUtils.convertDateForImport(value)) {
+    return 'Not a recognised date';
+  }
+
+  if (field.name === 'email' && !EMAIL_PATTERN.test(value.trim())) {
+    return 'Not a valid email address';
+  }
+
+  const range = tableName === 'deals' ? NUMBER_RANGES[field.name] : undefined;
+  if (range) {
+    const number = Number(value.replace(/[€$,\s]/g, ''));
+    if (isNaN(number) || (range.integer && !Number.isInteger(number))) return 'Not a number';
+    if (number < range.min || (range.max !== undefined && number > range.max)) {
+      return range.max !== undefined ? `Must be between ${range.min} and ${range.max}` : `Must be at least ${range.min}`;
+    }
+  }
+
+  return null;
+};
+
+export const validateColumnMappings = (
+  tableName: string,
+  data: ParsedCSV,
+  mappings: ColumnMapping[],
+  defaultValues: Record<string, string>,
+  targets: ImportTargetField[]
+): MappingValidation => {
+  const errors: string[] = [];
+  const columnIssues: Record<string, ColumnIssue> = {};
+  const defaultValueIssues: Record<string, string> = {};
+  const targetsByName = new Map(targets.map(target => [target.name, target]));
+
+  const mappedCounts = new Map<string, number>();
+  mappings.forEach(mapping => {
+    if (mapping.target) mappedCounts.set(mapping.target, (mappedCounts.get(mapping.target) || 0) + 1);
+  });
+  mappedCounts.forEach((count, target) => {
+    if (count > 1) errors.push(`${targetsByName.get(target)?.label || target} is mapped from ${count} columns`);
+  });
+
+  for (const target of targets.filter(t => t.required)) {
+    const hasDefault = (defaultValues[target.name] || '').trim() !== '';
+    if (!mappedCounts.has(target.name) && !hasDefault) {
+      errors.push(`${target.label} is required. Map a column to it or give it a default value.`);
+    }
+  }
+
+  Object.entries(defaultValues).forEach(([name, value]) => {
+    const target = targetsByName.get(name);
+    const issue = target ? validateImportValue(tableName, target, value) : null;
+    if (issue) defaultValueIssues[name] = issue;
+  });
+
+  mappings.forEach((mapping, index) => {
+    const target = mapping.target ? targetsByName.get(mapping.target) : undefined;
+    if (!target) return;
+
+    let invalidCount = 0;
+    let example = '';
+    let message = '';
+    const fallback = defaultValues[target.name] || '';
+    for (const row of data.rows) {
+      const value = applyTransform(row[index] ?? '', mapping.transform);
+      const issue = value.trim() === '' && target.required && fallback.trim() === ''
+        ? `${target.label} is required`
+        : validateImportValue(tableName, target, value);
+      if (issue) {
+        invalidCount++;
+        if (!message) {
+          example = value;
+          message = issue;
+        }
+      }
+    }
+    if (invalidCount > 0) columnIssues[mapping.source] = { invalidCount, example, message };
+  });
+
+  return { errors, columnIssues, defaultValueIssues };
+};
+
+/**
+ * Rewrite the file as the importers expect it: one column per mapped field, headed by the field
+ * name, with transforms applied and default values filling empty cells and unmapped fields.
+ * Values of option fields take the option's own casing, since the importers match them exactly.
+ */
+export const applyColumnMappings = (
+  data: ParsedCSV,
+  mappings: ColumnMapping[],
+  defaultValues: Record<string, string>,
+  targets: ImportTargetField[] = []
+): ParsedCSV => {
+  const options = new Map(targets.filter(target => target.options).map(target => [target.name, target.options!]));
+  const canonical = (field: string, value: string) =>
+    options.get(field)?.find(option => option.toLowerCase() === value.trim().toLowerCase()) ?? value;
+
+  const columns = mappings
+    .map((mapping, index) => ({ ...mapping, index }))
+    .filter((mapping): mapping is ColumnMapping & { index: number; target: string } => !!mapping.target);
+  const mapped = new Set(columns.map(column => column.target));
+  const defaultsOnly = Object.entries(defaultValues).filter(([name, value]) => !mapped.has(name) && value.trim() !== '');
+
+  return {
+    headers: [...columns.map(column => column.target), ...defaultsOnly.map(([name]) => name)],
+    rows: data.rows.map(row => [
+      ...columns.map(column => {
+        const value = applyTransform(row[column.index] ?? '', column.transform);
+        return canonical(column.target, value.trim() === '' ? (defaultValues[column.target] || '').trim() : value);
+      }),
+      ...defaultsOnly.map(([name, value]) => canonical(name, value.trim())),
+    ]),
+  };
+};
@@ -0,0 +1,55 @@
+import { CSVParser } from '@/utils/csvParser';
+
+export type ImportRowAction = 'create' | 'update' | 'reject';
+
+export interface ImportPreviewRow {
+  // Line in the file, counting the header as line 1
+  rowNumber: number;
+  action: ImportRowAction;
+  // Name of the record the row creates or updates
+  label: string;
+  reason?: string;
+  row: string[];
+}
+
+export interface ImportPreview {
+  headers: string[];
+  rows: ImportPreviewRow[];
+}
+
+// A row the importer turned down, kept so it can be fixed and imported again
+export interface ImportRejectedRow {
+  rowNumber: number;
+  reason: string;
+  row: string[];
+}
+
+export const countPreviewActions = (preview: ImportPreview): Record<ImportRowAction, number> => {
+  const counts: Record<ImportRowAction, number> = { create: 0, update: 0, reject: 0 };
+  preview.rows.forEach(row => counts[row.action]++);
+  return counts;
+};
+
+/**
+ * The rejected rows with their original columns, followed by the line they came from and why they
+ * were rejected. The extra columns are ignored when the corrected file is imported again.
+ */
+export const buildErrorReportCSV = (headers: string[], rejected: ImportRejectedRow[]): string => {
+  const lines = [[...headers, 'Row', 'Error']];
+  rejected.forEach(({ row, rowNumber, reason }) => {
+    lines.push([...headers.map((_, index) => row[index] ?? ''), String(rowNumber), reason]);
+  });
+  return lines.map(line => line.map(field => CSVParser.escapeCSVField(field)).join(',')).join('\n');
+};
+
+export const downloadErrorReport = (fileName: string, headers: string[], rejected: ImportRejectedRow[]) => {
+  const blob = new Blob([buildErrorReportCSV(headers, rejected)], { type: 'text/csv;charset=utf-8;' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.setAttribute('href', url);
+  a.setAttribute('download', `${fileName.replace(/\.[^.]+$/, '')}_errors.csv`);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,22 @@
+import { toast } from '@/hooks/use-toast';
+
+// A single toast that follows an import from reading the file through to saving its rows
+export const createImportProgressToast = (fileName: string) => {
+  const progress = toast({ title: 'Reading file', description: fileName });
+
+  return {
+    reading: (loaded: number, total: number) =>
+      progress.update({
+        id: progress.id,
+        title: 'Reading file',
+        description: `${fileName} · ${total > 0 ? Math.round((loaded / total) * 100) : 100}%`,
+      }),
+    importing: (processed: number, total: number) =>
+      progress.update({
+        id: progress.id,
+        title: 'Importing records',
+        description: `${processed} of ${total} rows`,
+      }),
+    dismiss: progress.dismiss,
+  };
+};
@@ -1,6 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { loadCustomFieldsForTable, getCustomFieldHeaders, getCustomFieldCells } from './customFieldsCSV';
 
 export class LeadsCSVExporter {
   async exportLeads(leads: any[]): Promise<string> {
@@ -34,10 +35,13 @@ export class LeadsCSVExporter {
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('LeadsCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
+    // Admin-defined fields follow the built-in columns
+    const customFields = await loadCustomFieldsForTable('leads');
+
     const csvRows = [];
     
     // Add headers in exact order
-    csvRows.push(fieldOrder.join(','));
+    csvRows.push([...fieldOrder, ...getCustomFieldHeaders(customFields).map(h => this.escapeCSVValue(h))].join(','));
 
     // Process each lead
     for (const lead of leads) {
@@ -69,6 +73,7 @@ export class LeadsCSVExporter {
         return this.escapeCSVValue(String(value));
       });
 
+      rowValues.push(...getCustomFieldCells(customFields, lead).map(v => this.escapeCSVValue(v)));
       csvRows.push(rowValues.join(','));
     }
 
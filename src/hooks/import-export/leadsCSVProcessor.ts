@@ -1,11 +1,23 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, type ParsedCSV } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomFieldDefinition, CustomFieldValues, getCustomFieldValues } from '@/utils/customFieldUtils';
+import {
+  getMissingRequiredCustomFieldsError,
+  hasCustomFieldValues,
+  loadCustomFieldsForTable,
+  mapCustomFieldHeaders,
+  readCustomFieldValues,
+} from './customFieldsCSV';
+import { findExistingImportKeys, isRecordId } from './duplicateChecker';
+import type { ImportPreview, ImportRejectedRow } from './importPreview';
 
 export interface LeadsProcessingOptions {
   userId: string;
+  // Import batch the created and updated leads are tagged with, so the import can be rolled back
+  batchId?: string;
   onProgress?: (processed: number, total: number) => void;
 }
 
@@ -14,16 +26,26 @@ export interface LeadsProcessingResult {
   updateCount: number;
   errorCount: number;
   errors: string[];
+  rejectedRows: ImportRejectedRow[];
 }
 
+// Built-in lead columns; a custom field sharing one of these names is not read from the CSV
+const LEAD_COLUMNS = [
+  'id', 'lead_name', 'company_name', 'position', 'email', 'phone_no', 'linkedin', 'website',
+  'contact_source', 'lead_status', 'industry', 'country', 'description', 'account_id',
+  'contact_owner', 'created_by', 'modified_by', 'created_time', 'modified_time'
+];
+
 export class LeadsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFields: CustomFieldDefinition[] = [];
+  private customFieldMapping = new Map<number, CustomFieldDefinition>();
 
-  async processCSV(csvText: string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
+  async processCSV(csv: string | ParsedCSV, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
     console.log('LeadsCSVProcessor: Starting processing');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows } = typeof csv === 'string' ? CSVParser.parseCSV(csv) : csv;
       console.log(`LeadsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
@@ -35,23 +57,28 @@ export class LeadsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      this.customFields = await loadCustomFieldsForTable('leads');
+      this.customFieldMapping = mapCustomFieldHeaders(headers, this.customFields, LEAD_COLUMNS);
+
       const result: LeadsProcessingResult = {
         successCount: 0,
         updateCount: 0,
         errorCount: 0,
-        errors: []
+        errors: [],
+        rejectedRows: []
       };
 
       // Process rows in batches
       const batchSize = 20;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, options);
+        const batchResult = await this.processBatch(batch, headers, options, i);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
         result.errorCount += batchResult.errorCount;
         result.errors.push(...batchResult.errors);
+        result.rejectedRows.push(...batchResult.rejectedRows);
 
         if (options.onProgress) {
           options.onProgress(Math.min(i + batchSize, rows.length), rows.length);
@@ -67,20 +94,81 @@ export class LeadsCSVProcessor {
     }
   }
 
+  /**
+   * What importing the file would do to each row, without saving anything: create a lead, update
+   * the lead with the row's ID, or reject the row and why
+   */
+  async previewCSV(csv: string | ParsedCSV): Promise<ImportPreview> {
+    const { headers, rows } = typeof csv === 'string' ? CSVParser.parseCSV(csv) : csv;
+    this.customFields = await loadCustomFieldsForTable('leads');
+    this.customFieldMapping = mapCustomFieldHeaders(headers, this.customFields, LEAD_COLUMNS);
+
+    const idIndex = headers.indexOf('id');
+    const ids = idIndex >= 0 ? rows.map(row => row[idIndex] ?? '') : [];
+    const existing = await findExistingImportKeys('leads', ids);
+    // A later row with the same ID updates the lead an earlier row created
+    const seen = new Set<string>();
+
+    return {
+      headers,
+      rows: rows.map((row, index) => {
+        const rowNumber = index + 2;
+        const rowObj: Record<string, string> = {};
+        headers.forEach((header, i) => {
+          if (row[i] !== undefined) rowObj[header] = row[i];
+        });
+        const lead = this.prepareLead(rowObj, '');
+        const label = lead.lead_name || '';
+        const id = String(rowObj.id ?? '').trim();
+
+        if (!lead.lead_name || lead.lead_name.trim() === '') {
+          return { rowNumber, row, label, action: 'reject' as const, reason: 'Lead name is required' };
+        }
+        if (id && !isRecordId(id)) {
+          return { rowNumber, row, label, action: 'reject' as const, reason: `'${id}' is not a valid lead ID` };
+        }
+        let customFieldValues: CustomFieldValues;
+        try {
+          customFieldValues = readCustomFieldValues(row, this.customFieldMapping);
+        } catch (error) {
+          return { rowNumber, row, label, action: 'reject' as const, reason: error instanceof Error ? error.message : 'Invalid custom field value' };
+        }
+
+        const isUpdate = !!id && (existing.has(id) || seen.has(id));
+        const missingRequired = isUpdate ? null : getMissingRequiredCustomFieldsError(this.customFields, customFieldValues);
+        if (missingRequired) {
+          return { rowNumber, row, label, action: 'reject' as const, reason: missingRequired };
+        }
+        if (id) seen.add(id);
+        return { rowNumber, row, label, action: isUpdate ? 'update' as const : 'create' as const };
+      }),
+    };
+  }
+
   private async processBatch(
     rows: string[][],
     headers: string[],
-    options: LeadsProcessingOptions
+    options: LeadsProcessingOptions,
+    batchOffset: number
   ): Promise<LeadsProcessingResult> {
     
     const result: LeadsProcessingResult = {
       successCount: 0,
       updateCount: 0,
       errorCount: 0,
-      errors: []
+      errors: [],
+      rejectedRows: []
     };
 
-    for (const row of rows) {
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const rowNumber = batchOffset + rowIndex + 2; // +2 for header and 1-based indexing
+      const reject = (reason: string) => {
+        result.errorCount++;
+        result.errors.push(reason);
+        result.rejectedRows.push({ rowNumber, reason, row });
+      };
+
       try {
         // Convert row to object
         const rowObj: Record<string, any> = {};
@@ -93,14 +181,23 @@ export class LeadsCSVProcessor {
         // Prepare lead record (action_items_json is now ignored if present)
         delete rowObj.action_items_json; // Remove if present in old exports
         const leadRecord = this.prepareLead(rowObj, options.userId);
+        if (options.batchId) {
+          leadRecord.import_batch_id = options.batchId;
+        }
+
+        const customFieldValues = readCustomFieldValues(row, this.customFieldMapping);
+        if (hasCustomFieldValues(customFieldValues)) {
+          leadRecord.custom_fields = customFieldValues;
+        }
 
         // Validate required fields - ensure lead_name is present and not empty
         if (!leadRecord.lead_name || leadRecord.lead_name.trim() === '') {
-          result.errorCount++;
-          result.errors.push('Lead name is required');
+          reject('Lead name is required');
           continue;
         }
 
+        const missingRequired = getMissingRequiredCustomFieldsError(this.customFields, customFieldValues);
+
         let leadId: string;
 
         // Check for existing lead by ID only (as per requirements)
@@ -108,26 +205,33 @@ export class LeadsCSVProcessor {
           console.log('Checking for existing lead with ID:', rowObj.id);
           const { data: existingLead } = await supabase
             .from('leads')
-            .select('id')
+            .select('*')
             .eq('id', rowObj.id.trim())
             .single();
 
           if (existingLead) {
             // Update existing lead
             leadId = existingLead.id;
+            // Custom fields missing from the CSV keep their stored values
+            if (leadRecord.custom_fields) {
+              leadRecord.custom_fields = { ...getCustomFieldValues(existingLead), ...leadRecord.custom_fields };
+            }
             const { error: updateError } = await supabase
               .from('leads')
               .update(leadRecord)
               .eq('id', leadId);
 
             if (updateError) {
-              result.errorCount++;
-              result.errors.push(`Update failed: ${updateError.message}`);
+              reject(`Update failed: ${updateError.message}`);
               continue;
             }
             result.updateCount++;
             console.log('Updated existing lead:', leadId);
           } else {
+            if (missingRequired) {
+              reject(missingRequired);
+              continue;
+            }
             // Insert new lead with provided ID - ensure all required fields are present
             const leadToInsert = {
               id: rowObj.id.trim(),
@@ -142,8 +246,7 @@ export class LeadsCSVProcessor {
               .single();
 
             if (insertError) {
-              result.errorCount++;
-              result.errors.push(`Insert failed: ${insertError.message}`);
+              reject(`Insert failed: ${insertError.message}`);
               continue;
             }
             leadId = insertedLead.id;
@@ -151,6 +254,10 @@ export class LeadsCSVProcessor {
             console.log('Inserted new lead with ID:', leadId);
           }
         } else {
+          if (missingRequired) {
+            reject(missingRequired);
+            continue;
+          }
           // Insert new lead without ID (let database generate it) - ensure all required fields are present
           const leadToInsert = {
             lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
@@ -164,8 +271,7 @@ export class LeadsCSVProcessor {
             .single();
 
           if (insertError) {
-            result.errorCount++;
-            result.errors.push(`Insert failed: ${insertError.message}`);
+            reject(`Insert failed: ${insertError.message}`);
             continue;
           }
           leadId = insertedLead.id;
@@ -174,8 +280,7 @@ export class LeadsCSVProcessor {
         }
 
       } catch (error: any) {
-        result.errorCount++;
-        result.errors.push(`Row processing error: ${error.message}`);
+        reject(`Row processing error: ${error.message}`);
       }
     }
 
@@ -1,5 +1,7 @@
 
 import { DealsCSVProcessor } from './dealsCSVProcessor';
+import type { ParsedCSV } from '@/utils/csvParser';
+import type { ImportPreview } from './importPreview';
 
 // Exact field order as specified - Added account_id, contact_id; removed action_items_json
 const DEALS_EXPORT_FIELDS = [
@@ -17,6 +19,7 @@ const DEALS_EXPORT_FIELDS = [
 
 interface DealsProcessOptions {
   userId: string;
+  batchId?: string;
   onProgress?: (processed: number, total: number) => void;
 }
 
@@ -28,12 +31,17 @@ export class SimpleDealsCSVProcessor {
     this.dealsProcessor = new DealsCSVProcessor();
   }
   
-  async processCSV(csvText: string, options: DealsProcessOptions) {
+  async processCSV(csv: string | ParsedCSV, options: DealsProcessOptions) {
     console.log('SimpleDealsCSVProcessor: Starting CSV processing with action items');
     
-    return await this.dealsProcessor.processCSV(csvText, {
+    return await this.dealsProcessor.processCSV(csv, {
       userId: options.userId,
+      batchId: options.batchId,
       onProgress: options.onProgress
     });
   }
+
+  async previewCSV(csv: string | ParsedCSV): Promise<ImportPreview> {
+    return await this.dealsProcessor.previewCSV(csv);
+  }
 }
@@ -3,6 +3,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { getCustomFieldValues } from '@/utils/customFieldUtils';
+import {
+  loadCustomFieldsForTable,
+  mapCustomFieldHeaders,
+  readCustomFieldValues,
+  hasCustomFieldValues,
+  getCustomFieldHeaders,
+  getCustomFieldCells,
+  getMissingRequiredCustomFieldsError,
+} from './import-export/customFieldsCSV';
 
 const validStatuses = ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'];
 const validTags = [
@@ -12,6 +22,14 @@ const validTags = [
   'Vehicle Architecture', 'Connected Car', 'Platform', 'µC/HW'
 ];
 
+// Built-in account columns (normalized export headers); a custom field sharing one of these names is not imported
+const ACCOUNT_COLUMNS = [
+  'id', 'company_name', 'name', 'company', 'email', 'phone', 'company_type', 'industry', 'tags',
+  'country', 'region', 'status', 'website', 'notes', 'last_activity_date', 'linked_contacts',
+  'linked_deals', 'linked_leads', 'tasks_count', 'account_owner', 'created_by', 'modified_by',
+  'created_at', 'updated_at'
+];
+
 export const useAccountsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
@@ -67,6 +85,9 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
 
       // Fetch user IDs by names
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+
+      const customFields = await loadCustomFieldsForTable('accounts');
+      const customFieldMapping = mapCustomFieldHeaders(headers, customFields, ACCOUNT_COLUMNS);
       
       const records: any[] = [];
       const errors: string[] = [];
@@ -99,6 +120,14 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           tags = tagList.filter((t: string) => validTags.includes(t));
         }
 
+        let customFieldValues = {};
+        try {
+          customFieldValues = readCustomFieldValues(values, customFieldMapping);
+        } catch (error) {
+          errors.push(`Row ${i + 1}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+
         // UUID validation regex
         const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
@@ -118,6 +147,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           notes: record.notes || null,
           industry: record.industry || null,
           phone: record.phone || null,
+          custom_fields: hasCustomFieldValues(customFieldValues) ? customFieldValues : undefined,
           // For updates, preserve original created_by; for inserts, use current user (RLS requirement)
           original_created_by: UserNameUtils.resolveUserId(record.created_by, userIdMap, user.id),
           account_owner: UserNameUtils.resolveUserId(record.account_owner, userIdMap, user.id),
@@ -137,18 +167,24 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       for (const record of records) {
         const { id, original_created_by, ...recordWithoutId } = record;
 
+        // Custom fields missing from the CSV keep their stored values
+        const withStoredCustomFields = (existingRecord: { custom_fields?: unknown }) =>
+          recordWithoutId.custom_fields
+            ? { ...recordWithoutId, custom_fields: { ...getCustomFieldValues(existingRecord), ...recordWithoutId.custom_fields } }
+            : recordWithoutId;
+
         // If id is provided, try to update by id first
         if (id) {
           const { data: existingById } = await supabase
             .from('accounts')
-            .select('id')
+            .select('id, custom_fields')
             .eq('id', id)
             .maybeSingle();
 
           if (existingById) {
             const { error: updateError } = await supabase
               .from('accounts')
-              .update({ ...recordWithoutId, created_by: original_created_by, updated_at: new Date().toISOString() })
+              .update({ ...withStoredCustomFields(existingById), created_by: original_created_by, updated_at: new Date().toISOString() })
               .eq('id', id);
             
             if (updateError) {
@@ -163,14 +199,14 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         // Otherwise, check by company_name
         const { data: existing } = await supabase
           .from('accounts')
-          .select('id')
+          .select('id, custom_fields')
           .eq('company_name', record.company_name)
           .maybeSingle();
 
         if (existing) {
           const { error: updateError } = await supabase
             .from('accounts')
-            .update({ ...recordWithoutId, created_by: original_created_by, updated_at: new Date().toISOString() })
+            .update({ ...withStoredCustomFields(existing), created_by: original_created_by, updated_at: new Date().toISOString() })
             .eq('id', existing.id);
           
           if (updateError) {
@@ -179,6 +215,11 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
             updateCount++;
           }
         } else {
+          const missingRequired = getMissingRequiredCustomFieldsError(customFields, record.custom_fields || {});
+          if (missingRequired) {
+            insertErrors.push(`Insert failed for "${record.company_name}": ${missingRequired}`);
+            continue;
+          }
           // For new inserts, MUST use current user as created_by (RLS requirement)
           const insertData = {
             ...recordWithoutId,
@@ -251,6 +292,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       });
 
       const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
+      const customFields = await loadCustomFieldsForTable('accounts');
 
       // Fetch linked data counts for each account
       const accountIds = data.map(a => a.id);
@@ -285,7 +327,8 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         'ID', 'Company Name', 'Email', 'Phone', 'Company Type', 'Industry', 
         'Tags', 'Country', 'Region', 'Status', 'Website', 'Notes',
         'Last Activity Date', 'Linked Contacts', 'Linked Deals', 'Linked Leads', 'Tasks Count',
-        'Account Owner', 'Created By', 'Modified By', 'Created At', 'Updated At'
+        'Account Owner', 'Created By', 'Modified By', 'Created At', 'Updated At',
+        ...getCustomFieldHeaders(customFields).map(escapeCSVField)
       ];
 
       const csvLines = [headers.join(',')];
@@ -314,6 +357,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           account.modified_by ? (userNameMap[account.modified_by] || '') : '',
           account.created_at ? format(new Date(account.created_at), 'yyyy-MM-dd HH:mm:ss') : '',
           account.updated_at ? format(new Date(account.updated_at), 'yyyy-MM-dd HH:mm:ss') : '',
+          ...getCustomFieldCells(customFields, account).map(escapeCSVField),
         ];
         csvLines.push(row.join(','));
       }
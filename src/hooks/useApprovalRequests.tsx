@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { ApprovalStep, canActOnStep, FALLBACK_APPROVAL_STEP } from '@/utils/approvalEngine';
+
+export interface ApprovalAction {
+  id: string;
+  request_id: string | null;
+  step_number: number;
+  approver_id: string;
+  action: string;
+  comments: string | null;
+  acted_at: string | null;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  workflow_id: string | null;
+  entity_type: string;
+  entity_id: string;
+  record_name: string | null;
+  current_step: number | null;
+  status: string | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  completed_at: string | null;
+  proposed_changes: Record<string, unknown>;
+  previous_values: Record<string, unknown> | null;
+  workflow: {
+    name: string;
+    approval_steps: ApprovalStep[];
+  } | null;
+  actions: ApprovalAction[];
+}
+
+const REQUEST_SELECT = '*, approval_workflows(name, approval_steps), approval_actions(*)';
+
+// Flatten the embedded workflow/actions and keep actions in step order
+const mapRequest = (row: Record<string, unknown>): ApprovalRequest => {
+  const { approval_workflows, approval_actions, ...rest } = row as Record<string, unknown> & {
+    approval_workflows: ApprovalRequest['workflow'];
+    approval_actions: ApprovalAction[] | null;
+  };
+
+  return {
+    ...(rest as unknown as Omit<ApprovalRequest, 'workflow' | 'actions'>),
+    proposed_changes: (rest.proposed_changes as Record<string, unknown>) || {},
+    previous_values: (rest.previous_values as Record<string, unknown>) || null,
+    workflow: approval_workflows
+      ? { name: approval_workflows.name, approval_steps: approval_workflows.approval_steps || [] }
+      : null,
+    actions: [...(approval_actions || [])].sort((a, b) =>
+      a.step_number - b.step_number ||
+      new Date(a.acted_at || 0).getTime() - new Date(b.acted_at || 0).getTime()
+    ),
+  };
+};
+
+export const getCurrentStep = (request: ApprovalRequest): ApprovalStep | null => {
+  const steps = request.workflow?.approval_steps || [];
+  if (steps.length === 0) return FALLBACK_APPROVAL_STEP;
+  return steps[(request.current_step || 1) - 1] || null;
+};
+
+// Pending requests the current user can act on, plus everything they submitted
+export const useApprovalRequests = () => {
+  const { user } = useAuth();
+  const { userRole } = usePermissions();
+
+  const query = useQuery({
+    queryKey: ['approval-requests', 'inbox', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_requests')
+        .select(REQUEST_SELECT)
+        .or(`status.eq.pending,submitted_by.eq.${user?.id}`)
+        .order('submitted_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return (data || []).map(row => mapRequest(row as Record<string, unknown>));
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+
+  const requests = useMemo(() => query.data || [], [query.data]);
+
+  const awaitingMyApproval = useMemo(() => requests.filter(request =>
+    request.status === 'pending' && canActOnStep(getCurrentStep(request), userRole, user?.id)
+  ), [requests, userRole, user?.id]);
+
+  const mySubmissions = useMemo(() => requests.filter(request =>
+    request.submitted_by === user?.id
+  ), [requests, user?.id]);
+
+  return {
+    awaitingMyApproval,
+    mySubmissions,
+    loading: query.isLoading,
+    refetch: query.refetch,
+  };
+};
+
+// Every approval request raised against a single record, newest first
+export const useRecordApprovalHistory = (entityType: string, entityId?: string | null) => {
+  const query = useQuery({
+    queryKey: ['approval-requests', 'record', entityType, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_requests')
+        .select(REQUEST_SELECT)
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId)
+        .order('submitted_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(row => mapRequest(row as Record<string, unknown>));
+    },
+    enabled: !!entityId,
+  });
+
+  return {
+    requests: query.data || [],
+    loading: query.isLoading,
+  };
+};
@@ -0,0 +1,145 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  ApprovalEntityType,
+  ApprovalWorkflowDefinition,
+  findTriggeredWorkflow,
+  getChangedFields,
+} from '@/utils/approvalEngine';
+
+export interface ApprovalSubmissionResult {
+  pendingApproval: boolean;
+  requestId?: string;
+  workflowName?: string;
+}
+
+// Save handlers that predate approvals resolve with nothing, which means the change was applied
+export const isPendingApproval = (result: ApprovalSubmissionResult | void): boolean =>
+  !!result && result.pendingApproval;
+
+// Thrown by assertCreateAllowed; the message says which workflow the new record trips and what to do
+export class ApprovalRequiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovalRequiredError';
+  }
+}
+
+const loadEnabledWorkflows = async (entityType: ApprovalEntityType): Promise<ApprovalWorkflowDefinition[]> => {
+  const { data, error } = await supabase
+    .from('approval_workflows')
+    .select('id, name, entity_type, trigger_conditions, approval_steps, is_enabled')
+    .eq('entity_type', entityType)
+    .eq('is_enabled', true)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as unknown as ApprovalWorkflowDefinition[];
+};
+
+interface SubmitForApprovalParams {
+  entityType: ApprovalEntityType;
+  entityId: string;
+  changes: Record<string, unknown>;
+  existing?: Record<string, unknown> | null;
+  recordName?: string | null;
+}
+
+export const useApprovalWorkflow = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  /**
+   * Checks the enabled workflows for the entity and, when one is triggered by the change,
+   * parks the change as a pending approval request instead of letting the caller write it.
+   * Callers must skip their own update whenever `pendingApproval` is true. The database
+   * trigger enforce_approval_workflows rejects gated updates anyway; this keeps them from failing.
+   */
+  const submitIfApprovalRequired = useCallback(async ({
+    entityType,
+    entityId,
+    changes,
+    existing,
+    recordName,
+  }: SubmitForApprovalParams): Promise<ApprovalSubmissionResult> => {
+    const workflows = await loadEnabledWorkflows(entityType);
+    const workflow = findTriggeredWorkflow(workflows, changes, existing || {});
+    if (!workflow) return { pendingApproval: false };
+
+    const { proposed, previous } = getChangedFields(changes, existing || {});
+
+    const { data: request, error } = await supabase
+      .from('approval_requests')
+      .insert({
+        workflow_id: workflow.id,
+        entity_type: entityType,
+        entity_id: entityId,
+        current_step: 1,
+        status: 'pending',
+        submitted_by: user?.id,
+        proposed_changes: JSON.parse(JSON.stringify(proposed)),
+        previous_values: JSON.parse(JSON.stringify(previous)),
+        record_name: recordName || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      // Unique index allows a single pending request per record
+      if (error.code === '23505') {
+        throw new Error('This record already has a change awaiting approval');
+      }
+      throw error;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ['approval-requests'] });
+
+    return { pendingApproval: true, requestId: request.id, workflowName: workflow.name };
+  }, [user?.id, queryClient]);
+
+  /**
+   * New records can't be parked (a request needs an existing record), so creating one that already
+   * meets a workflow's condition is refused, as enforce_approval_workflows does on insert. The user
+   * creates it without the gated value and then submits that change for approval.
+   */
+  const assertCreateAllowed = useCallback(async (
+    entityType: ApprovalEntityType,
+    values: Record<string, unknown>
+  ) => {
+    const workflows = await loadEnabledWorkflows(entityType);
+    const workflow = findTriggeredWorkflow(workflows, values);
+    if (!workflow) return;
+
+    const field = workflow.trigger_conditions?.field;
+    throw new ApprovalRequiredError(
+      `Setting ${field} to ${String(values[field])} needs approval (${workflow.name}). ` +
+      'Create the record without it, then submit the change for approval.'
+    );
+  }, []);
+
+  // Approve or reject the current step; the final approval applies the change server-side
+  const actOnRequest = useCallback(async (
+    requestId: string,
+    action: 'approved' | 'rejected',
+    comments?: string
+  ) => {
+    const { data, error } = await supabase.rpc('act_on_approval_request', {
+      p_request_id: requestId,
+      p_action: action,
+      p_comments: comments || null,
+    });
+
+    if (error) throw error;
+
+    queryClient.invalidateQueries({ queryKey: ['approval-requests'] });
+    return data;
+  }, [queryClient]);
+
+  return {
+    submitIfApprovalRequired,
+    assertCreateAllowed,
+    actOnRequest,
+  };
+};
@@ -0,0 +1,140 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  AttendeeSchedule,
+  BusyInterval,
+  DEFAULT_PROFILE_TIMEZONE,
+  getWorkingWindows,
+} from "@/utils/meetingAvailability";
+import { parseMeetingAttendees } from "@/utils/meetingInvites";
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+  timezone: string;
+}
+
+export const useTeamMembers = () => {
+  return useQuery({
+    queryKey: ['team-member-calendars'],
+    queryFn: async (): Promise<TeamMember[]> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, "Email ID", timezone')
+        .order('full_name');
+      if (error) throw error;
+      return (data || [])
+        .filter(p => p['Email ID'])
+        .map(p => ({
+          id: p.id,
+          name: p.full_name?.trim() || p['Email ID']!.split('@')[0],
+          email: p['Email ID']!,
+          timezone: p.timezone || DEFAULT_PROFILE_TIMEZONE,
+        }));
+    },
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+/**
+ * Busy blocks and working hours of the internal attendees (the organizer plus any participant
+ * who is a CRM user) between from and until. Busy time comes from CRM meetings and, where the
+ * mailbox allows it, Outlook free/busy.
+ */
+export const useAttendeeAvailability = (
+  participantEmails: string[],
+  from: number,
+  until: number,
+  excludeMeetingId?: string,
+  enabled = true
+) => {
+  const { user } = useAuth();
+  const { data: teamMembers = [] } = useTeamMembers();
+
+  const wanted = new Set(participantEmails.map(e => e.toLowerCase()));
+  const internalAttendees = teamMembers.filter(m => m.id === user?.id || wanted.has(m.email.toLowerCase()));
+  if (user?.email && !internalAttendees.some(m => m.id === user.id)) {
+    internalAttendees.push({ id: user.id, name: user.email.split('@')[0], email: user.email, timezone: DEFAULT_PROFILE_TIMEZONE });
+  }
+  // The organizer leads the list
+  internalAttendees.sort((a, b) => Number(b.id === user?.id) - Number(a.id === user?.id));
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['attendee-availability', internalAttendees.map(a => a.id).join(','), from, until, excludeMeetingId],
+    enabled: enabled && internalAttendees.length > 0 && until > from,
+    queryFn: async (): Promise<{ schedules: AttendeeSchedule[]; outlookError: string | null }> => {
+      const fromIso = new Date(from).toISOString();
+      const untilIso = new Date(until).toISOString();
+
+      let meetingsQuery = supabase
+        .from('meetings')
+        .select('id, subject, start_time, end_time, created_by, attendees')
+        .neq('status', 'cancelled')
+        .lt('start_time', untilIso)
+        .gt('end_time', fromIso);
+      if (excludeMeetingId) meetingsQuery = meetingsQuery.neq('id', excludeMeetingId);
+
+      const [meetingsRes, outlookRes] = await Promise.all([
+        meetingsQuery,
+        supabase.functions.invoke('get-attendee-availability', {
+          body: { emails: internalAttendees.map(a => a.email), startTime: fromIso, endTime: untilIso },
+        }),
+      ]);
+      if (meetingsRes.error) throw meetingsRes.error;
+
+      // Outlook free/busy is a bonus: without it the grid still shows CRM meetings
+      let outlookError: string | null = null;
+      const outlookBusy = new Map<string, BusyInterval[]>();
+      if (outlookRes.error || outlookRes.data?.error) {
+        console.error('Error fetching Outlook availability:', outlookRes.error || outlookRes.data?.error);
+        outlookError = 'Outlook calendars could not be checked; only CRM meetings are shown';
+      } else {
+        for (const schedule of outlookRes.data?.schedules || []) {
+          outlookBusy.set(
+            String(schedule.email).toLowerCase(),
+            (schedule.busy || []).map((b: { start: string; end: string; status: string }) => ({
+              start: new Date(b.start).getTime(),
+              end: new Date(b.end).getTime(),
+              source: 'outlook' as const,
+              title: b.status === 'oof' ? 'Out of office' : 'Busy',
+            }))
+          );
+        }
+      }
+
+      const schedules = internalAttendees.map(attendee => {
+        const email = attendee.email.toLowerCase();
+        const crmBusy: BusyInterval[] = (meetingsRes.data || [])
+          .filter(m => m.created_by === attendee.id ||
+            parseMeetingAttendees(m.attendees).some(a => a.email.toLowerCase() === email))
+          .map(m => ({
+            start: new Date(m.start_time).getTime(),
+            end: new Date(m.end_time).getTime(),
+            source: 'crm' as const,
+            title: m.subject,
+          }));
+
+        return {
+          email: attendee.email,
+          name: attendee.id === user?.id ? `${attendee.name} (you)` : attendee.name,
+          timezone: attendee.timezone,
+          busy: [...crmBusy, ...(outlookBusy.get(email) || [])],
+          working: getWorkingWindows(attendee.timezone, from, until),
+        };
+      });
+
+      return { schedules, outlookError };
+    },
+    staleTime: 60 * 1000,
+  });
+
+  return {
+    teamMembers,
+    schedules: data?.schedules || [],
+    outlookError: data?.outlookError || null,
+    isLoading,
+    refresh: refetch,
+  };
+};
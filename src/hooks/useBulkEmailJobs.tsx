@@ -0,0 +1,164 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type BulkEmailJobStatus = 'queued' | 'processing' | 'completed' | 'cancelled';
+
+// 'bounced' isn't stored on the recipient; it's a sent email whose history row later bounced
+export type BulkRecipientResult = 'pending' | 'sending' | 'sent' | 'bounced' | 'failed' | 'skipped' | 'cancelled';
+
+export interface BulkEmailJob {
+  id: string;
+  subject: string;
+  sender_email: string;
+  status: BulkEmailJobStatus;
+  rate_per_minute: number;
+  total_count: number;
+  sent_count: number;
+  failed_count: number;
+  skipped_count: number;
+  resume_at: string | null;
+  last_error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export interface BulkEmailRecipientResult {
+  id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  entity_type: string | null;
+  subject: string;
+  result: BulkRecipientResult;
+  detail: string | null;
+  attempt_count: number;
+  sent_at: string | null;
+}
+
+export const BULK_JOB_STATUS_LABELS: Record<BulkEmailJobStatus, string> = {
+  queued: 'Queued',
+  processing: 'Sending',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const BULK_RECIPIENT_RESULT_LABELS: Record<BulkRecipientResult, string> = {
+  pending: 'Pending',
+  sending: 'Sending',
+  sent: 'Sent',
+  bounced: 'Bounced',
+  failed: 'Failed',
+  skipped: 'Skipped',
+  cancelled: 'Cancelled',
+};
+
+export const BULK_SEND_RATES = [10, 30, 60, 120];
+
+const JOB_COLUMNS = 'id, subject, sender_email, status, rate_per_minute, total_count, sent_count, failed_count, skipped_count, resume_at, last_error, started_at, completed_at, created_at';
+
+const isActive = (job: Pick<BulkEmailJob, 'status'>) => job.status === 'queued' || job.status === 'processing';
+
+// Jobs are sent by the process-bulk-email-jobs edge function; the lists poll while any is still sending
+export const useBulkEmailJobs = () => {
+  const queryClient = useQueryClient();
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey: ['bulk-email-jobs'],
+    queryFn: async (): Promise<BulkEmailJob[]> => {
+      const { data, error } = await supabase
+        .from('bulk_email_jobs')
+        .select(JOB_COLUMNS)
+        .order('created_at', { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return (data || []).map(j => ({ ...j, status: j.status as BulkEmailJobStatus }));
+    },
+    refetchInterval: (query) => (query.state.data || []).some(isActive) ? 5000 : false,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['bulk-email-jobs'] });
+
+  // Recipients already handed to Graph still go out; everything still pending is cancelled
+  const cancelJob = async (id: string) => {
+    const { error: jobError } = await supabase
+      .from('bulk_email_jobs')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', id)
+      .in('status', ['queued', 'processing']);
+    if (jobError) throw jobError;
+
+    const { data, error } = await supabase
+      .from('bulk_email_recipients')
+      .update({ status: 'cancelled' })
+      .eq('job_id', id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+
+    const { data: job } = await supabase.from('bulk_email_jobs').select('skipped_count').eq('id', id).single();
+    await supabase
+      .from('bulk_email_jobs')
+      .update({ skipped_count: (job?.skipped_count || 0) + (data || []).length })
+      .eq('id', id);
+
+    refresh();
+    queryClient.invalidateQueries({ queryKey: ['bulk-email-recipients', id] });
+    return (data || []).length;
+  };
+
+  return {
+    jobs,
+    isLoading,
+    refresh,
+    cancelJob,
+  };
+};
+
+export const useBulkEmailJob = (jobId: string | null) => {
+  const { data: job = null } = useQuery({
+    queryKey: ['bulk-email-job', jobId],
+    queryFn: async (): Promise<BulkEmailJob | null> => {
+      const { data, error } = await supabase.from('bulk_email_jobs').select(JOB_COLUMNS).eq('id', jobId!).single();
+      if (error) throw error;
+      return { ...data, status: data.status as BulkEmailJobStatus };
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => !query.state.data || isActive(query.state.data) ? 3000 : false,
+  });
+
+  return job;
+};
+
+export const useBulkEmailRecipients = (jobId: string | null, poll: boolean) => {
+  const { data: recipients = [], isLoading } = useQuery({
+    queryKey: ['bulk-email-recipients', jobId],
+    queryFn: async (): Promise<BulkEmailRecipientResult[]> => {
+      const { data, error } = await supabase
+        .from('bulk_email_recipients')
+        .select('id, recipient_email, recipient_name, entity_type, subject, status, skip_reason, last_error, attempt_count, sent_at, email_history(status, bounce_reason)')
+        .eq('job_id', jobId!)
+        .order('created_at')
+        .limit(5000);
+      if (error) throw error;
+
+      return (data || []).map(row => {
+        const bounced = row.status === 'sent' && row.email_history?.status === 'bounced';
+        return {
+          id: row.id,
+          recipient_email: row.recipient_email,
+          recipient_name: row.recipient_name,
+          entity_type: row.entity_type,
+          subject: row.subject,
+          result: bounced ? 'bounced' : row.status as BulkRecipientResult,
+          detail: bounced ? row.email_history?.bounce_reason || null : row.skip_reason || row.last_error,
+          attempt_count: row.attempt_count,
+          sent_at: row.sent_at,
+        };
+      });
+    },
+    enabled: !!jobId,
+    refetchInterval: poll ? 5000 : false,
+  });
+
+  return { recipients, isLoading };
+};
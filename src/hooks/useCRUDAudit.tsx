@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
+import { isTriggerAudited } from '@/utils/auditLog';
 
 export const useCRUDAudit = () => {
   const { logSecurityEvent } = useSecurityAudit();
@@ -10,6 +11,9 @@ export const useCRUDAudit = () => {
     recordData?: any,
     recordName?: string
   ) => {
+    // Recorded by the database, with the full row
+    if (isTriggerAudited(tableName)) return;
+
     await logSecurityEvent('CREATE', tableName, recordId, {
       operation: 'INSERT',
       status: 'Success',
@@ -27,6 +31,8 @@ export const useCRUDAudit = () => {
     oldData?: any,
     recordName?: string
   ) => {
+    if (isTriggerAudited(tableName)) return;
+
     // Calculate field changes (old → new)
     const fieldChanges: Record<string, { old: any; new: any }> = {};
     
@@ -61,6 +67,9 @@ export const useCRUDAudit = () => {
     status: string = 'Success',
     recordName?: string
   ) => {
+    // Successful deletes are recorded by the database; blocked attempts never reach it
+    if (status === 'Success' && isTriggerAudited(tableName)) return;
+
     const action = status === 'Success' ? 'DELETE' : 'Unauthorized Delete Attempt';
     
     await logSecurityEvent(action, tableName, recordId, {
@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -107,7 +108,8 @@ export const useColumnPreferences = ({ moduleName, defaultColumns }: UseColumnPr
 
   // Use saved columns if available, otherwise use defaults
   // Filter out any columns that no longer exist in defaultColumns and add any new ones
-  const columns = (() => {
+  // Memoized because tables sync local state from this array; defaultColumns may include custom field columns
+  const columns = useMemo(() => {
     if (!savedColumns) return defaultColumns;
     
     const validFields = new Set(defaultColumns.map(dc => dc.field));
@@ -120,7 +122,7 @@ export const useColumnPreferences = ({ moduleName, defaultColumns }: UseColumnPr
     const missingColumns = defaultColumns.filter(dc => !savedFields.has(dc.field));
     
     return [...validSavedColumns, ...missingColumns];
-  })();
+  }, [savedColumns, defaultColumns]);
 
   return {
     columns,
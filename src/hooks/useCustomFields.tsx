@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CustomFieldDefinition,
+  CustomFieldEntity,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+  getCustomFieldOptions,
+  getCustomFieldValues,
+  normalizeCustomFieldValues,
+  toCustomFieldColumn,
+  validateCustomFields,
+} from "@/utils/customFieldUtils";
+
+// Also used outside React (CSV import/export), so the query lives in a plain function
+export const fetchCustomFields = async (entity: CustomFieldEntity): Promise<CustomFieldDefinition[]> => {
+  const { data, error } = await supabase
+    .from('crm_custom_fields')
+    .select('*')
+    .eq('entity_type', entity)
+    .order('display_order')
+    .order('field_label');
+
+  if (error) throw error;
+  return (data || []).map(field => ({
+    id: field.id,
+    entity_type: field.entity_type as CustomFieldEntity,
+    field_name: field.field_name,
+    field_label: field.field_label,
+    field_type: (field.field_type || 'text') as CustomFieldType,
+    options: getCustomFieldOptions(field.field_options),
+    is_required: !!field.is_required,
+    is_visible: field.is_visible ?? true,
+    display_order: field.display_order ?? 0,
+  }));
+};
+
+// Custom field definitions for one entity; hidden fields are kept out of forms, tables and CSV
+export const useCustomFields = (entity: CustomFieldEntity) => {
+  const query = useQuery({
+    queryKey: ['custom-fields', entity],
+    queryFn: () => fetchCustomFields(entity),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+
+  const fields = useMemo(() => (query.data || []).filter(f => f.is_visible), [query.data]);
+
+  // Optional table columns, hidden until the user turns them on in the column customizer
+  const customColumns = useMemo(
+    () => fields.map((field, index) => ({
+      field: toCustomFieldColumn(field.field_name),
+      label: field.field_label,
+      visible: false,
+      order: 1000 + index,
+    })),
+    [fields]
+  );
+
+  const getField = (name: string) => fields.find(f => f.field_name === name) || null;
+
+  return {
+    fields,
+    customColumns,
+    getField,
+    loading: query.isLoading,
+  };
+};
+
+// Form state for a record's custom field values; resets whenever the edited record changes
+export const useCustomFieldForm = (entity: CustomFieldEntity, record?: { custom_fields?: unknown } | null) => {
+  const { fields } = useCustomFields(entity);
+  const [values, setValues] = useState<CustomFieldValues>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues(getCustomFieldValues(record));
+    setErrors({});
+  }, [record]);
+
+  const setValue = useCallback((fieldName: string, value: CustomFieldValue) => {
+    setValues(prev => ({ ...prev, [fieldName]: value }));
+    setErrors(prev => {
+      if (!prev[fieldName]) return prev;
+      const { [fieldName]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Returns false and shows the messages when any value does not fit its field type
+  const validate = useCallback(() => {
+    const nextErrors = validateCustomFields(fields, values);
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  }, [fields, values]);
+
+  // Values for hidden fields are carried over untouched
+  const getPayload = useCallback(() => normalizeCustomFieldValues(fields, values), [fields, values]);
+
+  return { fields, values, errors, setValue, validate, getPayload };
+};
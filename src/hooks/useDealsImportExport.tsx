@@ -2,9 +2,17 @@
 import { useAuth } from '@/hooks/useAuth';
 import { getExportFilename } from '@/utils/exportUtils';
 import { SimpleDealsCSVProcessor } from './import-export/simpleDealsCSVProcessor';
+import { createImportProgressToast } from './import-export/importProgress';
+import { finishImportBatch, startImportBatch } from './import-export/importBatch';
+import { downloadErrorReport } from './import-export/importPreview';
+import type { DealsProcessingResult } from './import-export/dealsCSVProcessor';
+import { isImportFile, readImportFile } from '@/utils/importFile';
+import type { ParsedCSV } from '@/utils/csvParser';
 import { DealsCSVExporter } from './import-export/dealsCSVExporter';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
 import { supabase } from '@/integrations/supabase/client';
 
 interface DealsImportExportOptions {
@@ -14,8 +22,9 @@ interface DealsImportExportOptions {
 export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) => {
   const { user } = useAuth();
   const { logSecurityEvent } = useSecurityAudit();
+  const { preferences } = useUserPreferences();
   
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, sheet?: string, mapped?: ParsedCSV) => {
     console.log('useDealsImportExport: Starting import process with standardized YYYY-MM-DD date format');
 
     if (!user?.id) {
@@ -41,8 +50,8 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      const errorMsg = 'Please select a CSV file';
+    if (!isImportFile(file)) {
+      const errorMsg = 'Please select a CSV or Excel (.xlsx) file';
       console.error('useDealsImportExport: Invalid file type:', file.type);
       toast({
         title: "Invalid File Type",
@@ -64,40 +73,40 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
         timestamp: new Date().toISOString()
       });
       
-      // Show initial loading toast
-      toast({
-        title: "Import Started",
-        description: `Processing ${file.name} with YYYY-MM-DD date format validation...`,
-      });
+      const progress = createImportProgressToast(file.name);
 
-      const text = await file.text();
-      console.log('useDealsImportExport: File content loaded, length:', text.length);
-      
-      if (!text || text.trim().length === 0) {
-        throw new Error('CSV file is empty or could not be read');
-      }
+      // Files that went through the column-mapping step arrive already read
+      const parsed = mapped ?? await readImportFile(file, { sheet, onProgress: progress.reading });
+      console.log('useDealsImportExport: File parsed, rows:', parsed.rows.length);
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('The file must contain at least a header row and one data row');
       }
 
-      console.log('useDealsImportExport: CSV has', lines.length, 'lines (including header)');
-
+      // Everything the import creates or updates is tagged with the batch so an admin can roll it back
+      const batchId = await startImportBatch('deals', user.id, file.name, parsed.rows.length);
       const processor = new SimpleDealsCSVProcessor();
       console.log('useDealsImportExport: Starting processing with YYYY-MM-DD date format validation');
       
-      const result = await processor.processCSV(text, {
-        userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`useDealsImportExport: Progress ${processed}/${total}`);
-        }
-      });
+      let result: DealsProcessingResult | null = null;
+      try {
+        result = await processor.processCSV(parsed, {
+          userId: user.id,
+          batchId,
+          onProgress: progress.importing
+        });
+      } finally {
+        await finishImportBatch(batchId, result);
+      }
 
       console.log('useDealsImportExport: Processing complete:', result);
 
-      const { successCount, updateCount, errorCount, errors } = result;
+      const { successCount, updateCount, errorCount, errors, rejectedRows } = result;
+      const errorReportAction = rejectedRows.length > 0 ? (
+        <ToastAction altText="Download error report" onClick={() => downloadErrorReport(file.name, parsed.headers, rejectedRows)}>
+          Download Errors
+        </ToastAction>
+      ) : undefined;
 
       // Generate success message
       let message = '';
@@ -120,6 +129,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
         toast({
           title: "Import Successful",
           description: message || "Import completed successfully with standardized date formats",
+          action: errorReportAction,
         });
         
         console.log('useDealsImportExport: Import successful - triggering real-time refresh...');
@@ -152,6 +162,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
           title: "Import Failed",
           description: errorDescription,
           variant: "destructive",
+          action: errorReportAction,
         });
       } else {
         toast({
@@ -197,7 +208,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(data, filename);
+    await exporter.exportToCSV(data, filename, preferences.currency);
   };
 
   const handleExportSelected = async (data: any[], selectedIds: string[]) => {
@@ -217,7 +228,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(selectedData, filename);
+    await exporter.exportToCSV(selectedData, filename, preferences.currency);
   };
 
   const handleExportFiltered = async (filteredData: any[]) => {
@@ -235,7 +246,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(filteredData, filename);
+    await exporter.exportToCSV(filteredData, filename, preferences.currency);
   };
 
   return {
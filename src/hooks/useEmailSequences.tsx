@@ -0,0 +1,218 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { BulkEmailRecipient } from "@/components/BulkEmailModal";
+
+export type EnrollmentStatus = 'active' | 'completed' | 'replied' | 'bounced' | 'stopped' | 'failed';
+
+export interface EmailSequenceStep {
+  id?: string;
+  step_order: number;
+  template_id: string;
+  wait_days: number;
+}
+
+export interface EmailSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  steps: EmailSequenceStep[];
+  activeEnrollments: number;
+}
+
+export interface SequenceEnrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  status: EnrollmentStatus;
+  current_step: number;
+  next_send_at: string | null;
+  last_sent_at: string | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface SequenceInput {
+  name: string;
+  description: string;
+  is_active: boolean;
+  steps: Omit<EmailSequenceStep, 'id' | 'step_order'>[];
+}
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  replied: 'Replied',
+  bounced: 'Bounced',
+  stopped: 'Stopped',
+  failed: 'Failed',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sequences with their ordered steps; sending is done by the process-email-sequences edge function
+export const useEmailSequences = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: sequences = [], isLoading } = useQuery({
+    queryKey: ['email-sequences'],
+    queryFn: async (): Promise<EmailSequence[]> => {
+      const [sequencesRes, stepsRes, activeRes] = await Promise.all([
+        supabase.from('email_sequences').select('id, name, description, is_active, created_by').order('name'),
+        supabase.from('email_sequence_steps').select('id, sequence_id, step_order, template_id, wait_days').order('step_order'),
+        supabase.from('email_sequence_enrollments').select('sequence_id').eq('status', 'active'),
+      ]);
+
+      if (sequencesRes.error) throw sequencesRes.error;
+      if (stepsRes.error) throw stepsRes.error;
+      if (activeRes.error) throw activeRes.error;
+
+      return (sequencesRes.data || []).map(sequence => ({
+        ...sequence,
+        steps: (stepsRes.data || []).filter(step => step.sequence_id === sequence.id),
+        activeEnrollments: (activeRes.data || []).filter(e => e.sequence_id === sequence.id).length,
+      }));
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['email-sequences'] });
+    queryClient.invalidateQueries({ queryKey: ['sequence-enrollments'] });
+  };
+
+  // Steps are rewritten on save; enrolments keep their position by step number
+  const saveSequence = async (input: SequenceInput, sequenceId?: string) => {
+    const payload = {
+      name: input.name.trim(),
+      description: input.description.trim() || null,
+      is_active: input.is_active,
+    };
+
+    let id = sequenceId;
+    if (id) {
+      const { error } = await supabase.from('email_sequences').update(payload).eq('id', id);
+      if (error) throw error;
+      const { error: deleteError } = await supabase.from('email_sequence_steps').delete().eq('sequence_id', id);
+      if (deleteError) throw deleteError;
+    } else {
+      const { data, error } = await supabase
+        .from('email_sequences')
+        .insert({ ...payload, created_by: user?.id })
+        .select('id')
+        .single();
+      if (error) throw error;
+      id = data.id;
+    }
+
+    if (input.steps.length > 0) {
+      const { error } = await supabase.from('email_sequence_steps').insert(
+        input.steps.map((step, index) => ({
+          sequence_id: id!,
+          step_order: index + 1,
+          template_id: step.template_id,
+          wait_days: step.wait_days,
+        }))
+      );
+      if (error) throw error;
+    }
+
+    refresh();
+  };
+
+  const deleteSequence = async (sequenceId: string) => {
+    const { error } = await supabase.from('email_sequences').delete().eq('id', sequenceId);
+    if (error) throw error;
+    refresh();
+  };
+
+  const setSequenceActive = async (sequenceId: string, isActive: boolean) => {
+    const { error } = await supabase.from('email_sequences').update({ is_active: isActive }).eq('id', sequenceId);
+    if (error) throw error;
+    refresh();
+  };
+
+  /**
+   * Enrols leads or contacts; recipients without an email or already active in the sequence are skipped
+   */
+  const enrollRecipients = async (sequence: EmailSequence, recipients: BulkEmailRecipient[]) => {
+    const eligible = recipients.filter(r => r.email && (r.type === 'lead' || r.type === 'contact'));
+
+    const { data: existing, error: existingError } = await supabase
+      .from('email_sequence_enrollments')
+      .select('lead_id, contact_id')
+      .eq('sequence_id', sequence.id)
+      .eq('status', 'active');
+    if (existingError) throw existingError;
+
+    const alreadyEnrolled = new Set((existing || []).flatMap(e => [e.lead_id, e.contact_id]).filter(Boolean));
+    const toEnroll = eligible.filter(r => !alreadyEnrolled.has(r.id));
+    const firstWait = sequence.steps[0]?.wait_days ?? 0;
+
+    if (toEnroll.length > 0) {
+      const { error } = await supabase.from('email_sequence_enrollments').insert(
+        toEnroll.map(r => ({
+          sequence_id: sequence.id,
+          lead_id: r.type === 'lead' ? r.id : null,
+          contact_id: r.type === 'contact' ? r.id : null,
+          recipient_email: r.email!,
+          recipient_name: r.name,
+          sender_email: user?.email || '',
+          next_send_at: new Date(Date.now() + firstWait * DAY_MS).toISOString(),
+          enrolled_by: user?.id,
+        }))
+      );
+      if (error) throw error;
+    }
+
+    refresh();
+    return {
+      enrolled: toEnroll.length,
+      skipped: recipients.length - toEnroll.length,
+    };
+  };
+
+  const stopEnrollment = async (enrollmentId: string) => {
+    const { error } = await supabase
+      .from('email_sequence_enrollments')
+      .update({ status: 'stopped', stopped_at: new Date().toISOString(), next_send_at: null })
+      .eq('id', enrollmentId)
+      .eq('status', 'active');
+    if (error) throw error;
+    refresh();
+  };
+
+  return {
+    sequences,
+    isLoading,
+    saveSequence,
+    deleteSequence,
+    setSequenceActive,
+    enrollRecipients,
+    stopEnrollment,
+  };
+};
+
+export const useSequenceEnrollments = (sequenceId: string | null) => {
+  const { data: enrollments = [], isLoading } = useQuery({
+    queryKey: ['sequence-enrollments', sequenceId],
+    queryFn: async (): Promise<SequenceEnrollment[]> => {
+      const { data, error } = await supabase
+        .from('email_sequence_enrollments')
+        .select('id, sequence_id, lead_id, contact_id, recipient_email, recipient_name, status, current_step, next_send_at, last_sent_at, last_error, created_at')
+        .eq('sequence_id', sequenceId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(e => ({ ...e, status: e.status as EnrollmentStatus }));
+    },
+    enabled: !!sequenceId,
+  });
+
+  return { enrollments, isLoading };
+};
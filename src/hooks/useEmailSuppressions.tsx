@@ -0,0 +1,97 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { normalizeEmail, SuppressionReason } from "@/utils/emailSuppressions";
+
+export interface EmailSuppression {
+  id: string;
+  email: string;
+  reason: SuppressionReason;
+  notes: string | null;
+  contact_id: string | null;
+  lead_id: string | null;
+  created_at: string;
+}
+
+type OptOutTable = 'contacts' | 'leads';
+
+// Lifting an unsubscribe also clears the opt-out flag the unsubscribe page set on the records
+const clearOptOut = async (table: OptOutTable, email: string) => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('id, communication_preferences')
+    .ilike('email', email.replace(/[\\%_]/g, '\\$&'));
+  if (error) throw error;
+
+  for (const record of data || []) {
+    const prefs = record.communication_preferences;
+    if (!prefs || typeof prefs !== 'object' || Array.isArray(prefs) || !prefs.email_opt_out) continue;
+
+    const { error: updateError } = await supabase
+      .from(table)
+      .update({ communication_preferences: { ...prefs, email_opt_out: false, email_opt_out_at: null } })
+      .eq('id', record.id);
+    if (updateError) throw updateError;
+  }
+};
+
+export const useEmailSuppressions = (reason: SuppressionReason | 'all', search: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const term = search.trim().toLowerCase();
+
+  const { data: suppressions = [], isLoading } = useQuery({
+    queryKey: ['email-suppressions', reason, term],
+    queryFn: async (): Promise<EmailSuppression[]> => {
+      let query = supabase
+        .from('email_suppressions')
+        .select('id, email, reason, notes, contact_id, lead_id, created_at')
+        .order('created_at', { ascending: false })
+        .limit(500);
+      if (reason !== 'all') query = query.eq('reason', reason);
+      if (term) query = query.ilike('email', `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(s => ({ ...s, reason: s.reason as SuppressionReason }));
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['email-suppressions'] });
+
+  /**
+   * Returns false when the address is already on the list
+   */
+  const addSuppression = async (email: string, notes: string) => {
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .upsert(
+        { email: normalizeEmail(email), reason: 'manual', notes: notes.trim() || null, created_by: user?.id },
+        { onConflict: 'email', ignoreDuplicates: true }
+      )
+      .select('id');
+    if (error) throw error;
+    refresh();
+    return (data || []).length > 0;
+  };
+
+  const removeSuppression = async (suppression: EmailSuppression) => {
+    const { data, error } = await supabase.from('email_suppressions').delete().eq('id', suppression.id).select('id');
+    if (error) throw error;
+    // RLS filters the delete to nothing for anyone but admins and managers
+    if (!data || data.length === 0) throw new Error('Only admins and managers can remove addresses from the suppression list');
+
+    if (suppression.reason === 'unsubscribed') {
+      await Promise.all([clearOptOut('contacts', suppression.email), clearOptOut('leads', suppression.email)]);
+    }
+    refresh();
+  };
+
+  return {
+    suppressions,
+    isLoading,
+    refresh,
+    addSuppression,
+    removeSuppression,
+  };
+};
@@ -0,0 +1,37 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useUserPreferences } from "@/contexts/UserPreferencesContext";
+import { convertAmount, ExchangeRate } from "@/utils/currencyConversion";
+
+export const fetchExchangeRates = async (): Promise<ExchangeRate[]> => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('id, from_currency, to_currency, rate, effective_date, notes')
+    .order('effective_date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(rate => ({ ...rate, rate: Number(rate.rate) }));
+};
+
+// Exchange rates plus the user's reporting currency (their currency preference)
+export const useExchangeRates = () => {
+  const { preferences } = useUserPreferences();
+  const reportingCurrency = preferences.currency || 'INR';
+
+  const { data: rates = [], isLoading } = useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: fetchExchangeRates,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+
+  // Amount in the reporting currency, or null when no rate connects the two currencies
+  const convert = useCallback(
+    (amount: number | null | undefined, currency: string | null | undefined, onDate?: string) =>
+      convertAmount(amount, currency, reportingCurrency, rates, onDate),
+    [rates, reportingCurrency]
+  );
+
+  return { rates, reportingCurrency, convert, isLoading };
+};
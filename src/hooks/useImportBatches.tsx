@@ -0,0 +1,72 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { ImportBatchStatus, ImportBatchTable } from "@/hooks/import-export/importBatch";
+
+export interface ImportBatch {
+  id: string;
+  user_id: string;
+  entity_type: ImportBatchTable;
+  file_name: string | null;
+  status: ImportBatchStatus;
+  total_rows: number;
+  created_count: number;
+  updated_count: number;
+  error_count: number;
+  created_at: string;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+}
+
+export interface RollbackResult {
+  deleted: number;
+  restored: number;
+  // Records deleted, edited or re-imported since the import, which were left as they are
+  skipped: number;
+}
+
+// Lead and deal imports, newest first. Admins see everyone's.
+export const useImportBatches = (entityType: ImportBatchTable | 'all') => {
+  const queryClient = useQueryClient();
+
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ['import-batches', entityType],
+    queryFn: async (): Promise<ImportBatch[]> => {
+      let query = supabase
+        .from('import_batches')
+        .select('id, user_id, entity_type, file_name, status, total_rows, created_count, updated_count, error_count, created_at, rolled_back_at, rolled_back_by')
+        .order('created_at', { ascending: false })
+        .limit(200);
+      if (entityType !== 'all') query = query.eq('entity_type', entityType);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(batch => ({
+        ...batch,
+        entity_type: batch.entity_type as ImportBatchTable,
+        status: batch.status as ImportBatchStatus,
+      }));
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+
+  const rollbackBatch = async (batch: ImportBatch): Promise<RollbackResult> => {
+    const { data, error } = await supabase.rpc('rollback_import_batch', { p_batch_id: batch.id });
+    if (error) throw error;
+    refresh();
+    queryClient.invalidateQueries({ queryKey: [batch.entity_type] });
+    const counts = (data && typeof data === 'object' && !Array.isArray(data) ? data : {}) as Record<string, unknown>;
+    return {
+      deleted: Number(counts.deleted) || 0,
+      restored: Number(counts.restored) || 0,
+      skipped: Number(counts.skipped) || 0,
+    };
+  };
+
+  return {
+    batches,
+    isLoading,
+    refresh,
+    rollbackBatch,
+  };
+};
@@ -2,6 +2,8 @@
 import { useAuth } from '@/hooks/useAuth';
 import { getExportFilename } from '@/utils/exportUtils';
 import { CSVProcessor } from './import-export/csvProcessor';
+import { createImportProgressToast } from './import-export/importProgress';
+import { isImportFile, readImportFile } from '@/utils/importFile';
 import { CSVExporter } from './import-export/csvExporter';
 import { toast } from '@/hooks/use-toast';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
@@ -16,7 +18,7 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
   const { user } = useAuth();
   const { logSecurityEvent } = useSecurityAudit();
   
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, sheet?: string) => {
     console.log('useImportExport: Starting import process');
     console.log('useImportExport: File details:', { 
       name: file.name, 
@@ -50,8 +52,8 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      const errorMsg = 'Please select a CSV file';
+    if (!isImportFile(file)) {
+      const errorMsg = 'Please select a CSV or Excel (.xlsx) file';
       console.error('useImportExport: Invalid file type:', file.type);
       toast({
         title: "Invalid File Type",
@@ -73,37 +75,22 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
         timestamp: new Date().toISOString()
       });
       
-      // Show initial loading toast
-      toast({
-        title: "Import Started",
-        description: `Processing ${file.name}...`,
-      });
+      const progress = createImportProgressToast(file.name);
 
-      const text = await file.text();
-      console.log('useImportExport: File content loaded, length:', text.length);
-      console.log('useImportExport: First 500 characters:', text.substring(0, 500));
-      
-      if (!text || text.trim().length === 0) {
-        throw new Error('CSV file is empty or could not be read');
-      }
+      const parsed = await readImportFile(file, { sheet, onProgress: progress.reading });
+      console.log('useImportExport: File parsed, rows:', parsed.rows.length);
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        throw new Error('The file must contain at least a header row and one data row');
       }
 
-      console.log('useImportExport: CSV has', lines.length, 'lines');
-
       const processor = new CSVProcessor(tableName);
       console.log('useImportExport: CSV processor created for table:', tableName);
       
-      const result = await processor.processCSV(text, {
+      const result = await processor.processCSV(parsed, {
         tableName,
         userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`useImportExport: Progress ${processed}/${total}`);
-        }
+        onProgress: progress.importing
       });
 
       console.log('useImportExport: Processing complete:', result);
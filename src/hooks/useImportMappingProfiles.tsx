@@ -0,0 +1,83 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Json } from "@/integrations/supabase/types";
+import type { ColumnMapping, ImportMappingProfile, ImportTransform } from "@/hooks/import-export/importMapping";
+
+const toMappings = (value: Json | null): ColumnMapping[] => {
+  const columns = value && typeof value === 'object' && !Array.isArray(value) ? value.columns : null;
+  if (!Array.isArray(columns)) return [];
+  return columns
+    .filter((column): column is { [key: string]: Json } => !!column && typeof column === 'object' && !Array.isArray(column))
+    .map(column => ({
+      source: String(column.source ?? ''),
+      target: typeof column.target === 'string' ? column.target : null,
+      transform: (typeof column.transform === 'string' ? column.transform : 'none') as ImportTransform,
+    }));
+};
+
+const toDefaultValues = (value: Json | null): Record<string, string> =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).map(([field, fieldValue]) => [field, String(fieldValue ?? '')]))
+    : {};
+
+// Named import column mappings for one module, kept in import_export_settings
+export const useImportMappingProfiles = (tableName: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey: ['import-mapping-profiles', tableName],
+    enabled: !!user,
+    queryFn: async (): Promise<ImportMappingProfile[]> => {
+      const { data, error } = await supabase
+        .from('import_export_settings')
+        .select('id, name, source_headers, field_mappings, default_values')
+        .eq('entity_type', tableName)
+        .order('name');
+      if (error) throw error;
+      return (data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        sourceHeaders: row.source_headers || [],
+        mappings: toMappings(row.field_mappings),
+        defaultValues: toDefaultValues(row.default_values),
+      }));
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['import-mapping-profiles', tableName] });
+
+  // Saving under an existing name replaces that profile
+  const saveProfile = async (profile: Omit<ImportMappingProfile, 'id'>) => {
+    if (!user) throw new Error('User not authenticated');
+    const { data, error } = await supabase
+      .from('import_export_settings')
+      .upsert({
+        user_id: user.id,
+        entity_type: tableName,
+        name: profile.name,
+        source_headers: profile.sourceHeaders,
+        field_mappings: { columns: profile.mappings.map(mapping => ({ ...mapping })) },
+        default_values: profile.defaultValues,
+      }, { onConflict: 'user_id,entity_type,name' })
+      .select('id')
+      .single();
+    if (error) throw error;
+    await refresh();
+    return data.id;
+  };
+
+  const deleteProfile = async (id: string) => {
+    const { error } = await supabase.from('import_export_settings').delete().eq('id', id);
+    if (error) throw error;
+    await refresh();
+  };
+
+  return {
+    profiles,
+    isLoading,
+    saveProfile,
+    deleteProfile,
+  };
+};
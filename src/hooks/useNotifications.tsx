@@ -413,7 +413,7 @@ export const useNotifications = () => {
           const newNotification = payload.new as Notification;
           const toastableTypes = [
             'task_assigned', 'task_completed', 'task_updated', 'task_deleted',
-            'email_opened', 'email_replied', 'email_bounced'
+            'email_opened', 'email_replied', 'email_bounced', 'backup_failed', 'meeting_response', 'meeting_booked'
           ];
           
           if (toastableTypes.includes(newNotification.notification_type)) {
@@ -425,13 +425,16 @@ export const useNotifications = () => {
               'email_opened': 'Email Opened',
               'email_replied': 'Email Reply Received',
               'email_bounced': 'Email Delivery Failed',
+              'backup_failed': 'Scheduled Backup Failed',
+              'meeting_response': 'Meeting Response',
+              'meeting_booked': 'Meeting Booked',
             };
             
             toast({
               title: titles[newNotification.notification_type] || 'New Notification',
               description: newNotification.message,
               duration: 5000,
-              variant: newNotification.notification_type === 'email_bounced' ? 'destructive' : 'default',
+              variant: ['email_bounced', 'backup_failed'].includes(newNotification.notification_type) ? 'destructive' : 'default',
             });
           }
         }
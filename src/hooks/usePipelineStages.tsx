@@ -0,0 +1,145 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Deal, DealStage, getStageFormSection, BuiltInDealStage } from "@/types/deal";
+
+export interface PipelineStage {
+  id: string;
+  stage_name: string;
+  stage_order: number;
+  stage_color: string;
+  stage_probability: number;
+  is_active: boolean;
+  is_won_stage: boolean;
+  is_lost_stage: boolean;
+}
+
+export const DEFAULT_STAGE_COLOR = '#94a3b8';
+
+// Mirrors the default pipeline so the board still renders if the table is empty or unreachable
+const DEFAULT_PIPELINE: PipelineStage[] = [
+  { stage_name: 'Lead', stage_color: '#6b7280', stage_probability: 10 },
+  { stage_name: 'Discussions', stage_color: '#10b981', stage_probability: 20 },
+  { stage_name: 'Qualified', stage_color: '#3b82f6', stage_probability: 25 },
+  { stage_name: 'RFQ', stage_color: '#8b5cf6', stage_probability: 40 },
+  { stage_name: 'Offered', stage_color: '#f59e0b', stage_probability: 60 },
+  { stage_name: 'Won', stage_color: '#22c55e', stage_probability: 100, is_won_stage: true },
+  { stage_name: 'Lost', stage_color: '#ef4444', stage_probability: 0, is_lost_stage: true },
+  { stage_name: 'Dropped', stage_color: '#94a3b8', stage_probability: 0, is_lost_stage: true },
+].map((stage, index) => ({
+  id: `default-${stage.stage_name.toLowerCase()}`,
+  stage_order: index,
+  is_active: true,
+  is_won_stage: false,
+  is_lost_stage: false,
+  ...stage,
+}));
+
+// Shared pipeline stages hook - board columns, stage pickers and won/lost handling all read from here
+export const usePipelineStages = () => {
+  const query = useQuery({
+    queryKey: ['pipeline-stages'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pipeline_stages')
+        .select('*')
+        .order('stage_order');
+
+      if (error) throw error;
+      return (data || []).map(stage => ({
+        id: stage.id,
+        stage_name: stage.stage_name,
+        stage_order: stage.stage_order,
+        stage_color: stage.stage_color || DEFAULT_STAGE_COLOR,
+        stage_probability: stage.stage_probability ?? 0,
+        is_active: stage.is_active ?? true,
+        is_won_stage: !!stage.is_won_stage,
+        is_lost_stage: !!stage.is_lost_stage,
+      })) as PipelineStage[];
+    },
+    staleTime: 5 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+
+  const stages = useMemo(
+    () => (query.data && query.data.length > 0 ? query.data : DEFAULT_PIPELINE),
+    [query.data]
+  );
+
+  const activeStages = useMemo(() => stages.filter(s => s.is_active), [stages]);
+  const stageNames = useMemo(() => activeStages.map(s => s.stage_name), [activeStages]);
+  const openStages = useMemo(() => activeStages.filter(s => !s.is_won_stage && !s.is_lost_stage), [activeStages]);
+  const finalStages = useMemo(() => activeStages.filter(s => s.is_won_stage || s.is_lost_stage), [activeStages]);
+
+  // Quick "drop" action on the last open stage targets the last lost stage (Dropped by default)
+  const dropStage = useMemo(
+    () => [...finalStages].reverse().find(s => s.is_lost_stage)?.stage_name || null,
+    [finalStages]
+  );
+
+  const getStage = useCallback(
+    (name?: DealStage | null) => stages.find(s => s.stage_name === name) || null,
+    [stages]
+  );
+
+  const getStageColor = useCallback(
+    (name?: DealStage | null) => getStage(name)?.stage_color || DEFAULT_STAGE_COLOR,
+    [getStage]
+  );
+
+  const isWonStage = useCallback((name?: DealStage | null) => !!getStage(name)?.is_won_stage, [getStage]);
+  const isLostStage = useCallback((name?: DealStage | null) => !!getStage(name)?.is_lost_stage, [getStage]);
+  const isFinalStage = useCallback(
+    (name?: DealStage | null) => isWonStage(name) || isLostStage(name),
+    [isWonStage, isLostStage]
+  );
+
+  // Inactive or deleted stage names still held by deals are not part of the live pipeline
+  const isActiveStage = useCallback((name?: DealStage | null) => stageNames.includes(name || ''), [stageNames]);
+
+  // Next open stage in pipeline order; null once the deal should be closed as won/lost
+  const getNextStage = useCallback((name: DealStage): DealStage | null => {
+    if (isFinalStage(name)) return null;
+    const current = getStage(name);
+    if (!current) return null;
+    const next = openStages.find(s => s.stage_order > current.stage_order);
+    return next?.stage_name || null;
+  }, [getStage, isFinalStage, openStages]);
+
+  // Moving a deal applies the target stage's default probability unless it was changed by hand
+  const getStageChangeUpdates = useCallback((deal: Partial<Deal>, toStage: DealStage): Partial<Deal> => {
+    const updates: Partial<Deal> = { stage: toStage };
+    const target = getStage(toStage);
+    if (!target) return updates;
+
+    const previousDefault = getStage(deal.stage)?.stage_probability;
+    if (deal.probability === null || deal.probability === undefined || deal.probability === previousDefault) {
+      updates.probability = target.stage_probability;
+    }
+    return updates;
+  }, [getStage]);
+
+  const getFormSection = useCallback(
+    (name: DealStage): BuiltInDealStage | null => getStageFormSection(name, getStage(name)),
+    [getStage]
+  );
+
+  return {
+    stages,
+    activeStages,
+    stageNames,
+    openStages,
+    finalStages,
+    dropStage,
+    loading: query.isLoading,
+    getStage,
+    getStageColor,
+    isWonStage,
+    isLostStage,
+    isFinalStage,
+    isActiveStage,
+    getNextStage,
+    getStageChangeUpdates,
+    getFormSection,
+  };
+};
@@ -0,0 +1,118 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type ScheduledEmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export interface ScheduledEmail {
+  id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  sender_email: string;
+  subject: string;
+  body: string | null;
+  entity_type: string | null;
+  entity_id: string | null;
+  scheduled_at: string;
+  timezone: string;
+  status: ScheduledEmailStatus;
+  batch_id: string | null;
+  attempt_count: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface ScheduledEmailUpdate {
+  subject: string;
+  body: string;
+  scheduled_at: string;
+  timezone: string;
+}
+
+export const SCHEDULED_STATUS_LABELS: Record<ScheduledEmailStatus, string> = {
+  pending: 'Scheduled',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Send-later queue; due emails are sent by the process-scheduled-emails edge function
+export const useScheduledEmails = (status: ScheduledEmailStatus | 'all') => {
+  const queryClient = useQueryClient();
+
+  const { data: emails = [], isLoading } = useQuery({
+    queryKey: ['scheduled-emails', status],
+    queryFn: async (): Promise<ScheduledEmail[]> => {
+      let query = supabase
+        .from('scheduled_emails')
+        .select('id, recipient_email, recipient_name, sender_email, subject, body, entity_type, entity_id, scheduled_at, timezone, status, batch_id, attempt_count, last_error, sent_at, created_at')
+        .order('scheduled_at', { ascending: status === 'pending' })
+        .limit(500);
+      if (status !== 'all') query = query.eq('status', status);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(e => ({ ...e, status: e.status as ScheduledEmailStatus }));
+    },
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['scheduled-emails'] });
+
+  /**
+   * Saving a failed or cancelled email queues it again with a fresh set of attempts
+   */
+  const updateScheduledEmail = async (id: string, updates: ScheduledEmailUpdate) => {
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .update({ ...updates, status: 'pending', attempt_count: 0, last_attempt_at: null, last_error: null })
+      .eq('id', id)
+      .in('status', ['pending', 'failed', 'cancelled'])
+      .select('id');
+    if (error) throw error;
+    refresh();
+    // Nothing updated when the processor claimed it in the meantime
+    return (data || []).length > 0;
+  };
+
+  // Only pending emails can be cancelled; one already being sent goes out
+  const cancelScheduledEmail = async (id: string) => {
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+    refresh();
+    return (data || []).length > 0;
+  };
+
+  const cancelBatch = async (batchId: string) => {
+    const { data, error } = await supabase
+      .from('scheduled_emails')
+      .update({ status: 'cancelled' })
+      .eq('batch_id', batchId)
+      .eq('status', 'pending')
+      .select('id');
+    if (error) throw error;
+    refresh();
+    return (data || []).length;
+  };
+
+  const deleteScheduledEmail = async (id: string) => {
+    const { error } = await supabase.from('scheduled_emails').delete().eq('id', id).neq('status', 'sending');
+    if (error) throw error;
+    refresh();
+  };
+
+  return {
+    emails,
+    isLoading,
+    refresh,
+    updateScheduledEmail,
+    cancelScheduledEmail,
+    cancelBatch,
+    deleteScheduledEmail,
+  };
+};
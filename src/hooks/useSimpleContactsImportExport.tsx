@@ -5,6 +5,10 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { GenericCSVProcessor } from './import-export/genericCSVProcessor';
 import { GenericCSVExporter } from './import-export/genericCSVExporter';
+import { loadCustomFieldsForTable } from './import-export/customFieldsCSV';
+import { createImportProgressToast } from './import-export/importProgress';
+import { readImportFile } from '@/utils/importFile';
+import type { ParsedCSV } from '@/utils/csvParser';
 import { getExportFilename } from '@/utils/exportUtils';
 
 // Contacts field order - Removed website, industry, region, country, segment as per requirements
@@ -19,7 +23,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
   const { user } = useAuth();
   const [isImporting, setIsImporting] = useState(false);
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, sheet?: string, mapped?: ParsedCSV) => {
     if (!user?.id) {
       toast({
         title: "Error",
@@ -31,16 +35,16 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
 
     setIsImporting(true);
     
+    const progress = createImportProgressToast(file.name);
     try {
-      const text = await file.text();
+      // Files that went through the column-mapping step arrive already read
+      const parsed = mapped ?? await readImportFile(file, { sheet, onProgress: progress.reading });
       const processor = new GenericCSVProcessor();
       
-      const result = await processor.processCSV(text, {
+      const result = await processor.processCSV(parsed, {
         tableName: 'contacts',
         userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`Progress: ${processed}/${total}`);
-        }
+        onProgress: progress.importing
       });
 
       const { successCount, updateCount, errorCount } = result;
@@ -99,7 +103,8 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
 
       const filename = getExportFilename('contacts', 'all');
       const exporter = new GenericCSVExporter();
-      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS);
+      const customFields = await loadCustomFieldsForTable('contacts');
+      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS, customFields);
 
       toast({
         title: "Export Successful",
@@ -2,8 +2,14 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { LeadsCSVProcessor } from '@/hooks/import-export/leadsCSVProcessor';
+import { ToastAction } from '@/components/ui/toast';
+import { LeadsCSVProcessor, type LeadsProcessingResult } from '@/hooks/import-export/leadsCSVProcessor';
 import { LeadsCSVExporter } from '@/hooks/import-export/leadsCSVExporter';
+import { createImportProgressToast } from '@/hooks/import-export/importProgress';
+import { finishImportBatch, startImportBatch } from '@/hooks/import-export/importBatch';
+import { downloadErrorReport } from '@/hooks/import-export/importPreview';
+import { readImportFile } from '@/utils/importFile';
+import type { ParsedCSV } from '@/utils/csvParser';
 
 interface Lead {
   id: string;
@@ -29,7 +35,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, sheet?: string, mapped?: ParsedCSV) => {
     setIsImporting(true);
 
     try {
@@ -38,16 +44,25 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
+      const progress = createImportProgressToast(file.name);
+      // Files that went through the column-mapping step arrive already read
+      const parsed = mapped ?? await readImportFile(file, { sheet, onProgress: progress.reading });
       console.log('Starting leads import with new processor...');
 
+      // Everything the import creates or updates is tagged with the batch so an admin can roll it back
+      const batchId = await startImportBatch('leads', user.id, file.name, parsed.rows.length);
       const processor = new LeadsCSVProcessor();
-      const result = await processor.processCSV(text, {
-        userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`Processing: ${processed}/${total}`);
-        }
-      });
+      let result: LeadsProcessingResult | null = null;
+      try {
+        result = await processor.processCSV(parsed, {
+          userId: user.id,
+          batchId,
+          onProgress: progress.importing
+        });
+      } finally {
+        progress.dismiss();
+        await finishImportBatch(batchId, result);
+      }
 
       // Show results
       if (result.successCount > 0 || result.updateCount > 0) {
@@ -63,6 +78,11 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
           title: "Import Errors",
           description: `${result.errorCount} errors occurred. Sample: ${errorSample}${result.errors.length > 3 ? '...' : ''}`,
           variant: "destructive",
+          action: (
+            <ToastAction altText="Download error report" onClick={() => downloadErrorReport(file.name, parsed.headers, result.rejectedRows)}>
+              Download Errors
+            </ToastAction>
+          ),
         });
       }
 
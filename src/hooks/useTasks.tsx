@@ -4,6 +4,14 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { Task, CreateTaskData, TaskStatus } from '@/types/task';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getNextOccurrenceDate, getSeriesId, isRecurring, RecurrenceEditScope } from '@/utils/taskRecurrence';
+import { formatDisplayDate } from '@/utils/dateFormatUtils';
+
+// Fields an "all future occurrences" edit copies onto later open occurrences of the series
+const SERIES_FIELDS = [
+  'title', 'description', 'priority', 'due_time', 'assigned_to', 'module_type',
+  'account_id', 'contact_id', 'lead_id', 'meeting_id', 'deal_id', 'recurrence', 'recurrence_end_date',
+] as const;
 
 // Helper to send task notification email
 const sendTaskNotificationEmail = async (
@@ -53,6 +61,151 @@ const getCurrentUserName = async (userId: string): Promise<string> => {
   }
 };
 
+// Helper to create the next occurrence of a recurring task once the current one is completed
+const createNextOccurrence = async (taskId: string, userId: string) => {
+  const { data: completed, error: fetchError } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('id', taskId)
+    .single();
+
+  if (fetchError) throw fetchError;
+  if (!completed?.due_date) return null;
+
+  const seriesId = getSeriesId(completed);
+  const { data: series, error: seriesError } = await supabase
+    .from('tasks')
+    .select('*')
+    .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+    .order('due_date', { ascending: false });
+
+  if (seriesError) throw seriesError;
+
+  // Only the latest occurrence advances the series
+  if ((series || []).some(t => t.due_date && t.due_date > completed.due_date!)) return null;
+
+  // "This occurrence" edits are not copied forward; use the latest regular occurrence as the template
+  const template = (series || []).find(t => !t.recurrence_exception && t.due_date && t.due_date <= completed.due_date!) || completed;
+  if (!isRecurring(template.recurrence) || !template.due_date) return null;
+
+  // Dates count from the start of the series, not the latest occurrence, so a month-end clamp
+  // (Jan 31 -> Feb 28) does not carry into later months
+  const root = (series || []).find(t => t.id === seriesId);
+  const anchorDate = template.recurrence_anchor_date || root?.due_date || template.due_date;
+
+  const nextDueDate = getNextOccurrenceDate(
+    template.recurrence,
+    anchorDate,
+    completed.due_date,
+    template.recurrence_end_date
+  );
+  if (!nextDueDate) return null;
+
+  const { data: next, error } = await supabase
+    .from('tasks')
+    .insert({
+      title: template.title,
+      description: template.description,
+      priority: template.priority,
+      category: template.category,
+      tags: template.tags,
+      due_date: nextDueDate,
+      due_time: template.due_time,
+      assigned_to: template.assigned_to,
+      created_by: template.created_by || userId,
+      module_type: template.module_type,
+      account_id: template.account_id,
+      contact_id: template.contact_id,
+      lead_id: template.lead_id,
+      meeting_id: template.meeting_id,
+      deal_id: template.deal_id,
+      recurrence: template.recurrence,
+      recurrence_end_date: template.recurrence_end_date,
+      recurrence_anchor_date: template.recurrence_anchor_date,
+      parent_task_id: seriesId,
+      status: 'open',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Already generated by another client or the scheduled job
+    if (error.code === '23505') return null;
+    throw error;
+  }
+
+  if (next.assigned_to && next.assigned_to !== userId) {
+    await supabase.from('notifications').insert({
+      user_id: next.assigned_to,
+      message: `New occurrence of recurring task: ${next.title}`,
+      notification_type: 'task_assigned',
+    });
+  }
+
+  return next;
+};
+
+// A "this and future" edit that moves the date or changes the rule restarts the series count from the
+// edited occurrence; returns the new anchor date, or null when the series keeps its own
+const getRestartedAnchorDate = (originalTask: Task, updates: Partial<Task>): string | null => {
+  const dateChanged = !!updates.due_date && updates.due_date !== originalTask.due_date;
+  const ruleChanged = updates.recurrence !== undefined && updates.recurrence !== originalTask.recurrence;
+  return dateChanged || ruleChanged ? updates.due_date || originalTask.due_date : null;
+};
+
+// Helper to apply an "all future occurrences" edit to the later open occurrences of a series
+const updateFutureOccurrences = async (originalTask: Task, updates: Partial<Task>) => {
+  if (!originalTask.due_date) return;
+
+  const seriesId = getSeriesId(originalTask);
+  const { data: later, error } = await supabase
+    .from('tasks')
+    .select('id, due_date')
+    .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+    .gt('due_date', originalTask.due_date)
+    .in('status', ['open', 'in_progress']);
+
+  if (error) throw error;
+  if (!later || later.length === 0) return;
+
+  const recurrence = updates.recurrence !== undefined ? updates.recurrence : originalTask.recurrence;
+  const endDate = updates.recurrence_end_date !== undefined ? updates.recurrence_end_date : originalTask.recurrence_end_date;
+  const dayShift = updates.due_date && updates.due_date !== originalTask.due_date
+    ? Math.round((new Date(updates.due_date).getTime() - new Date(originalTask.due_date).getTime()) / 86400000)
+    : 0;
+
+  const shared: Record<string, unknown> = { recurrence_exception: false };
+  SERIES_FIELDS.forEach(field => {
+    if (updates[field] !== undefined) shared[field] = updates[field];
+  });
+  const anchorDate = getRestartedAnchorDate(originalTask, updates);
+  if (anchorDate) shared.recurrence_anchor_date = anchorDate;
+
+  const toDelete: string[] = [];
+  for (const occurrence of later) {
+    const shifted = new Date(occurrence.due_date!);
+    shifted.setUTCDate(shifted.getUTCDate() + dayShift);
+    const dueDate = shifted.toISOString().slice(0, 10);
+
+    // Stopping the series or ending it earlier removes occurrences it no longer covers
+    if (!isRecurring(recurrence) || (endDate && dueDate > endDate)) {
+      toDelete.push(occurrence.id);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('tasks')
+      .update({ ...shared, due_date: dueDate })
+      .eq('id', occurrence.id);
+    if (updateError) throw updateError;
+  }
+
+  if (toDelete.length > 0) {
+    const { error: deleteError } = await supabase.from('tasks').delete().in('id', toDelete);
+    if (deleteError) throw deleteError;
+  }
+};
+
 export const useTasks = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -152,10 +305,22 @@ export const useTasks = () => {
 
   // Update task mutation
   const updateTaskMutation = useMutation({
-    mutationFn: async ({ taskId, updates, originalTask }: { taskId: string; updates: Partial<Task>; originalTask?: Task }) => {
+    mutationFn: async ({ taskId, updates, originalTask, scope }: { taskId: string; updates: Partial<Task>; originalTask?: Task; scope?: RecurrenceEditScope }) => {
       if (!user?.id) throw new Error('User not authenticated');
 
       const updateData: any = { ...updates };
+
+      // Edits from the task modal on a recurring task apply to this occurrence or the rest of the series
+      const isSeriesEdit = !!scope && !!originalTask && (isRecurring(originalTask.recurrence) || !!originalTask.parent_task_id);
+      if (isSeriesEdit && scope === 'this') {
+        delete updateData.recurrence;
+        delete updateData.recurrence_end_date;
+        updateData.recurrence_exception = true;
+      } else if (isSeriesEdit && scope === 'future') {
+        updateData.recurrence_exception = false;
+        const anchorDate = getRestartedAnchorDate(originalTask!, updates);
+        if (anchorDate) updateData.recurrence_anchor_date = anchorDate;
+      }
       
       // If status is changing to completed, set completed_at
       if (updates.status === 'completed') {
@@ -171,6 +336,19 @@ export const useTasks = () => {
 
       if (error) throw error;
 
+      if (isSeriesEdit && scope === 'future') {
+        await updateFutureOccurrences(originalTask!, updates);
+      }
+
+      let nextOccurrence: Task | null = null;
+      if (updates.status === 'completed' && originalTask?.status !== 'completed') {
+        try {
+          nextOccurrence = await createNextOccurrence(taskId, user.id) as Task | null;
+        } catch (occurrenceError) {
+          console.error('Failed to create next occurrence:', occurrenceError);
+        }
+      }
+
       // Get current user's name for notifications
       const updaterName = await getCurrentUserName(user.id);
 
@@ -298,10 +476,15 @@ export const useTasks = () => {
         }
       }
 
-      return { taskId, updates };
+      return { taskId, updates, nextOccurrence };
     },
-    onSuccess: () => {
-      toast({ title: "Success", description: "Task updated successfully" });
+    onSuccess: ({ nextOccurrence }) => {
+      toast({
+        title: "Success",
+        description: nextOccurrence
+          ? `Task updated. Next occurrence scheduled for ${formatDisplayDate(nextOccurrence.due_date)}`
+          : "Task updated successfully",
+      });
       queryClient.invalidateQueries({ queryKey: ['tasks', user?.id] });
     },
     onError: (error: any) => {
@@ -373,9 +556,9 @@ export const useTasks = () => {
     }
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task) => {
+  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task, scope?: RecurrenceEditScope) => {
     try {
-      await updateTaskMutation.mutateAsync({ taskId, updates, originalTask });
+      await updateTaskMutation.mutateAsync({ taskId, updates, originalTask, scope });
       return true;
     } catch {
       return false;
@@ -2,6 +2,9 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { convertAmount, ExchangeRate, getDealRateDate } from "@/utils/currencyConversion";
 
 interface QuarterlyData {
   q1: number;
@@ -18,23 +21,57 @@ interface YearlyRevenueData {
   totalActual: number;
   totalProjected: number;
   hasDeals: boolean;
+  currency: string;
+  unconvertedDeals: number;
 }
 
+interface RevenueDeal {
+  currency_type?: string | null;
+  signed_contract_date?: string | null;
+  expected_closing_date?: string | null;
+}
+
+// Deal amounts in the reporting currency; deals without a usable rate are counted and left out
+const createDealConverter = (rates: ExchangeRate[], reportingCurrency: string) => {
+  const unconverted = new Set<RevenueDeal>();
+  const convert = (deal: RevenueDeal, amount: unknown): number => {
+    const value = Number(amount);
+    if (!amount || isNaN(value)) return 0;
+    const converted = convertAmount(value, deal.currency_type, reportingCurrency, rates, getDealRateDate(deal));
+    if (converted === null) {
+      unconverted.add(deal);
+      return 0;
+    }
+    return converted;
+  };
+  return { convert, unconvertedCount: () => unconverted.size };
+};
+
 export const useYearlyRevenueData = (selectedYear: number) => {
+  const { rates, reportingCurrency, isLoading: ratesLoading } = useExchangeRates();
+  const { stages, isWonStage, loading: stagesLoading } = usePipelineStages();
+
   const { data: revenueData, isLoading, error } = useQuery({
-    queryKey: ['yearly-revenue', selectedYear],
+    queryKey: ['yearly-revenue', selectedYear, reportingCurrency, rates, stages],
+    enabled: !ratesLoading && !stagesLoading,
     queryFn: async (): Promise<YearlyRevenueData> => {
       console.log('Fetching revenue data for year:', selectedYear);
 
       // Get yearly target
       const { data: targetData } = await supabase
         .from('yearly_revenue_targets')
-        .select('total_target')
+        .select('total_target, currency')
         .eq('year', selectedYear)
         .single();
 
       console.log('Target data:', targetData);
 
+      // Shown as entered if no rate links the target's currency to the reporting currency
+      const target = targetData
+        ? convertAmount(targetData.total_target, targetData.currency, reportingCurrency, rates, `${selectedYear}-01-01`)
+          ?? Number(targetData.total_target)
+        : 0;
+
       // Get all deals and filter by year
       const { data: allDeals } = await supabase
         .from('deals')
@@ -56,17 +93,19 @@ export const useYearlyRevenueData = (selectedYear: number) => {
       if (dealsForYear.length === 0) {
         return {
           year: selectedYear,
-          target: targetData?.total_target || 0,
+          target,
           actualRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           projectedRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           totalActual: 0,
           totalProjected: 0,
-          hasDeals: false
+          hasDeals: false,
+          currency: reportingCurrency,
+          unconvertedDeals: 0
         };
       }
 
       // Separate Won and RFQ deals from filtered results
-      const wonDeals = dealsForYear.filter(deal => deal.stage === 'Won');
+      const wonDeals = dealsForYear.filter(deal => isWonStage(deal.stage));
       const rfqDeals = dealsForYear.filter(deal => deal.stage === 'RFQ');
 
       console.log('Won deals for year:', wonDeals);
@@ -77,43 +116,22 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       let totalActualRevenue = 0;
       let totalProjectedRevenue = 0;
+      const converter = createDealConverter(rates, reportingCurrency);
 
       // Process Won deals for actual revenue
       wonDeals?.forEach(deal => {
         console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue);
         
-        if (deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
-          if (!isNaN(revenue)) {
-            totalActualRevenue += revenue;
-            console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
-            
-            // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
-            if (deal.quarterly_revenue_q1) {
-              const q1Revenue = Number(deal.quarterly_revenue_q1);
-              if (!isNaN(q1Revenue)) {
-                actualRevenue.q1 += q1Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q2) {
-              const q2Revenue = Number(deal.quarterly_revenue_q2);
-              if (!isNaN(q2Revenue)) {
-                actualRevenue.q2 += q2Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q3) {
-              const q3Revenue = Number(deal.quarterly_revenue_q3);
-              if (!isNaN(q3Revenue)) {
-                actualRevenue.q3 += q3Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q4) {
-              const q4Revenue = Number(deal.quarterly_revenue_q4);
-              if (!isNaN(q4Revenue)) {
-                actualRevenue.q4 += q4Revenue;
-              }
-            }
-          }
+        const revenue = converter.convert(deal, deal.total_revenue);
+        if (revenue) {
+          totalActualRevenue += revenue;
+          console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
+
+          // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
+          actualRevenue.q1 += converter.convert(deal, deal.quarterly_revenue_q1);
+          actualRevenue.q2 += converter.convert(deal, deal.quarterly_revenue_q2);
+          actualRevenue.q3 += converter.convert(deal, deal.quarterly_revenue_q3);
+          actualRevenue.q4 += converter.convert(deal, deal.quarterly_revenue_q4);
         }
       });
 
@@ -122,8 +140,8 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         console.log('Processing RFQ deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
         
         if (deal.total_contract_value) {
-          const contractValue = Number(deal.total_contract_value);
-          if (!isNaN(contractValue)) {
+          const contractValue = converter.convert(deal, deal.total_contract_value);
+          if (contractValue) {
             totalProjectedRevenue += contractValue;
             console.log('Added projected revenue:', contractValue, 'Running total:', totalProjectedRevenue);
             
@@ -170,17 +188,19 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       return {
         year: selectedYear,
-        target: targetData?.total_target || 0,
+        target,
         actualRevenue,
         projectedRevenue,
         totalActual: totalActualRevenue,
         totalProjected: totalProjectedRevenue,
-        hasDeals: true
+        hasDeals: true,
+        currency: reportingCurrency,
+        unconvertedDeals: converter.unconvertedCount()
       };
     },
   });
 
-  return { revenueData, isLoading, error };
+  return { revenueData, isLoading: isLoading || ratesLoading || stagesLoading, error };
 };
 
 export const useAvailableYears = () => {
@@ -225,8 +245,12 @@ export const useAvailableYears = () => {
 
 // Hook to get live dashboard stats
 export const useDashboardStats = () => {
+  const { rates, reportingCurrency, isLoading: ratesLoading } = useExchangeRates();
+  const { stages, isWonStage, loading: stagesLoading } = usePipelineStages();
+
   const { data: stats, isLoading } = useQuery({
-    queryKey: ['dashboard-stats'],
+    queryKey: ['dashboard-stats', reportingCurrency, rates, stages],
+    enabled: !ratesLoading && !stagesLoading,
     queryFn: async () => {
       console.log('Fetching dashboard stats...');
       
@@ -240,11 +264,12 @@ export const useDashboardStats = () => {
       
       // Calculate total revenue from Won deals using total_revenue field
       let totalRevenue = 0;
+      const converter = createDealConverter(rates, reportingCurrency);
       deals?.forEach(deal => {
         console.log('Processing deal for dashboard:', deal.deal_name, 'Stage:', deal.stage, 'Total Revenue:', deal.total_revenue);
         
-        if (deal.stage === 'Won' && deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
+        if (isWonStage(deal.stage) && deal.total_revenue) {
+          const revenue = converter.convert(deal, deal.total_revenue);
           totalRevenue += revenue;
           console.log('Adding revenue from Won deal:', revenue, 'Running total:', totalRevenue);
         }
@@ -252,16 +277,18 @@ export const useDashboardStats = () => {
       
       console.log('Final dashboard total revenue:', totalRevenue);
       
-      const wonDeals = deals?.filter(deal => deal.stage === 'Won').length || 0;
+      const wonDeals = deals?.filter(deal => isWonStage(deal.stage)).length || 0;
 
       return {
         totalDeals,
         totalRevenue,
+        currency: reportingCurrency,
+        unconvertedDeals: converter.unconvertedCount(),
         wonDeals,
         todayMeetings: 0 // Remove meetings dependency
       };
     },
   });
 
-  return { stats, isLoading };
+  return { stats, isLoading: isLoading || ratesLoading || stagesLoading };
 };
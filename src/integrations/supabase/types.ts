@@ -73,6 +73,7 @@ export type Database = {
           country: string | null
           created_at: string | null
           created_by: string | null
+          custom_fields: Json
           deal_count: number | null
           email: string | null
           id: string
@@ -95,6 +96,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -117,6 +119,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -253,6 +256,9 @@ export type Database = {
           entity_id: string
           entity_type: string
           id: string
+          previous_values: Json | null
+          proposed_changes: Json
+          record_name: string | null
           status: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -266,6 +272,9 @@ export type Database = {
           entity_id: string
           entity_type: string
           id?: string
+          previous_values?: Json | null
+          proposed_changes?: Json
+          record_name?: string | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -279,6 +288,9 @@ export type Database = {
           entity_id?: string
           entity_type?: string
           id?: string
+          previous_values?: Json | null
+          proposed_changes?: Json
+          record_name?: string | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -339,7 +351,9 @@ export type Database = {
           frequency: string
           id: string
           is_enabled: boolean | null
+          last_error: string | null
           last_run_at: string | null
+          last_status: string | null
           next_run_at: string | null
           retention_days: number | null
           time_of_day: string
@@ -352,7 +366,9 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_error?: string | null
           last_run_at?: string | null
+          last_status?: string | null
           next_run_at?: string | null
           retention_days?: number | null
           time_of_day?: string
@@ -365,7 +381,9 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_error?: string | null
           last_run_at?: string | null
+          last_status?: string | null
           next_run_at?: string | null
           retention_days?: number | null
           time_of_day?: string
@@ -415,6 +433,60 @@ export type Database = {
         }
         Relationships: []
       }
+      booking_pages: {
+        Row: {
+          availability: Json
+          buffer_minutes: number
+          created_at: string
+          description: string | null
+          duration_minutes: number
+          id: string
+          is_active: boolean
+          max_days_ahead: number
+          max_per_day: number | null
+          min_notice_hours: number
+          slug: string
+          timezone: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          availability?: Json
+          buffer_minutes?: number
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          max_days_ahead?: number
+          max_per_day?: number | null
+          min_notice_hours?: number
+          slug: string
+          timezone?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          availability?: Json
+          buffer_minutes?: number
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          max_days_ahead?: number
+          max_per_day?: number | null
+          min_notice_hours?: number
+          slug?: string
+          timezone?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       branding_settings: {
         Row: {
           accent_color: string | null
@@ -457,6 +529,144 @@ export type Database = {
         }
         Relationships: []
       }
+      bulk_email_jobs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          id: string
+          last_error: string | null
+          locked_until: string | null
+          rate_per_minute: number
+          resume_at: string | null
+          sender_email: string
+          sent_count: number
+          skipped_count: number
+          started_at: string | null
+          status: string
+          subject: string
+          total_count: number
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          rate_per_minute?: number
+          resume_at?: string | null
+          sender_email: string
+          sent_count?: number
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          subject: string
+          total_count?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          id?: string
+          last_error?: string | null
+          locked_until?: string | null
+          rate_per_minute?: number
+          resume_at?: string | null
+          sender_email?: string
+          sent_count?: number
+          skipped_count?: number
+          started_at?: string | null
+          status?: string
+          subject?: string
+          total_count?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      bulk_email_recipients: {
+        Row: {
+          attempt_count: number
+          body: string | null
+          created_at: string
+          email_history_id: string | null
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          job_id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          next_attempt_at: string | null
+          recipient_email: string
+          recipient_name: string | null
+          sent_at: string | null
+          skip_reason: string | null
+          status: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          attempt_count?: number
+          body?: string | null
+          created_at?: string
+          email_history_id?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          job_id: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          skip_reason?: string | null
+          status?: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          attempt_count?: number
+          body?: string | null
+          created_at?: string
+          email_history_id?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          job_id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          next_attempt_at?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          skip_reason?: string | null
+          status?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_email_recipients_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_email_recipients_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_email_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       contact_activities: {
         Row: {
           activity_date: string
@@ -517,6 +727,7 @@ export type Database = {
           contact_source: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           email_clicks: number | null
@@ -532,6 +743,8 @@ export type Database = {
           position: string | null
           region: string | null
           score: number | null
+          score_breakdown: Json
+          score_updated_at: string | null
           segment: string | null
           tags: string[] | null
           website: string | null
@@ -545,6 +758,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -560,6 +774,8 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -573,6 +789,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -588,6 +805,8 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -777,6 +996,7 @@ export type Database = {
           created_by: string | null
           currency_type: string | null
           current_status: string | null
+          custom_fields: Json
           customer_challenges: string | null
           customer_name: string | null
           customer_need: string | null
@@ -787,6 +1007,7 @@ export type Database = {
           expected_closing_date: string | null
           handoff_status: string | null
           id: string
+          import_batch_id: string | null
           implementation_start_date: string | null
           internal_comment: string | null
           is_recurring: string | null
@@ -827,6 +1048,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -837,6 +1059,7 @@ export type Database = {
           expected_closing_date?: string | null
           handoff_status?: string | null
           id?: string
+          import_batch_id?: string | null
           implementation_start_date?: string | null
           internal_comment?: string | null
           is_recurring?: string | null
@@ -877,6 +1100,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -887,6 +1111,7 @@ export type Database = {
           expected_closing_date?: string | null
           handoff_status?: string | null
           id?: string
+          import_batch_id?: string | null
           implementation_start_date?: string | null
           internal_comment?: string | null
           is_recurring?: string | null
@@ -931,6 +1156,13 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deals_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       email_history: {
@@ -946,6 +1178,7 @@ export type Database = {
           created_at: string
           delivered_at: string | null
           first_open_ip: string | null
+          graph_message_id: string | null
           id: string
           is_valid_open: boolean | null
           last_reply_at: string | null
@@ -957,9 +1190,11 @@ export type Database = {
           recipient_name: string | null
           replied_at: string | null
           reply_count: number | null
+          send_error: string | null
           sender_email: string
           sent_at: string
           sent_by: string | null
+          sequence_enrollment_id: string | null
           status: string
           subject: string
           thread_id: string | null
@@ -978,6 +1213,7 @@ export type Database = {
           created_at?: string
           delivered_at?: string | null
           first_open_ip?: string | null
+          graph_message_id?: string | null
           id?: string
           is_valid_open?: boolean | null
           last_reply_at?: string | null
@@ -989,9 +1225,11 @@ export type Database = {
           recipient_name?: string | null
           replied_at?: string | null
           reply_count?: number | null
+          send_error?: string | null
           sender_email: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
           status?: string
           subject: string
           thread_id?: string | null
@@ -1010,6 +1248,7 @@ export type Database = {
           created_at?: string
           delivered_at?: string | null
           first_open_ip?: string | null
+          graph_message_id?: string | null
           id?: string
           is_valid_open?: boolean | null
           last_reply_at?: string | null
@@ -1021,9 +1260,11 @@ export type Database = {
           recipient_name?: string | null
           replied_at?: string | null
           reply_count?: number | null
+          send_error?: string | null
           sender_email?: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
           status?: string
           subject?: string
           thread_id?: string | null
@@ -1032,69 +1273,377 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "email_history_account_id_fkey"
-            columns: ["account_id"]
-            isOneToOne: false
-            referencedRelation: "accounts"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "email_history_contact_id_fkey"
+            foreignKeyName: "email_history_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_history_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_history_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_history_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_link_clicks: {
+        Row: {
+          clicked_at: string
+          email_history_id: string
+          id: string
+          ip_address: string | null
+          is_bot: boolean
+          link_id: string
+          recipient_email: string | null
+          url: string
+          user_agent: string | null
+        }
+        Insert: {
+          clicked_at?: string
+          email_history_id: string
+          id?: string
+          ip_address?: string | null
+          is_bot?: boolean
+          link_id: string
+          recipient_email?: string | null
+          url: string
+          user_agent?: string | null
+        }
+        Update: {
+          clicked_at?: string
+          email_history_id?: string
+          id?: string
+          ip_address?: string | null
+          is_bot?: boolean
+          link_id?: string
+          recipient_email?: string | null
+          url?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_link_clicks_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_link_clicks_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "email_links"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_links: {
+        Row: {
+          created_at: string
+          email_history_id: string
+          id: string
+          position: number
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          email_history_id: string
+          id?: string
+          position: number
+          url: string
+        }
+        Update: {
+          created_at?: string
+          email_history_id?: string
+          id?: string
+          position?: number
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_links_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_replies: {
+        Row: {
+          body: string | null
+          body_preview: string | null
+          conversation_id: string | null
+          created_at: string | null
+          email_history_id: string
+          from_email: string
+          from_name: string | null
+          graph_message_id: string | null
+          id: string
+          received_at: string
+          subject: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          body?: string | null
+          body_preview?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          email_history_id: string
+          from_email: string
+          from_name?: string | null
+          graph_message_id?: string | null
+          id?: string
+          received_at: string
+          subject?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          body?: string | null
+          body_preview?: string | null
+          conversation_id?: string | null
+          created_at?: string | null
+          email_history_id?: string
+          from_email?: string
+          from_name?: string | null
+          graph_message_id?: string | null
+          id?: string
+          received_at?: string
+          subject?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_replies_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_enrollments: {
+        Row: {
+          contact_id: string | null
+          created_at: string
+          current_step: number
+          enrolled_by: string | null
+          failure_count: number
+          id: string
+          last_error: string | null
+          last_sent_at: string | null
+          lead_id: string | null
+          next_send_at: string | null
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          sequence_id: string
+          status: string
+          stopped_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          contact_id?: string | null
+          created_at?: string
+          current_step?: number
+          enrolled_by?: string | null
+          failure_count?: number
+          id?: string
+          last_error?: string | null
+          last_sent_at?: string | null
+          lead_id?: string | null
+          next_send_at?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          sequence_id: string
+          status?: string
+          stopped_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          contact_id?: string | null
+          created_at?: string
+          current_step?: number
+          enrolled_by?: string | null
+          failure_count?: number
+          id?: string
+          last_error?: string | null
+          last_sent_at?: string | null
+          lead_id?: string | null
+          next_send_at?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          sequence_id?: string
+          status?: string
+          stopped_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_enrollments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_steps: {
+        Row: {
+          created_at: string
+          id: string
+          sequence_id: string
+          step_order: number
+          template_id: string
+          wait_days: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          sequence_id: string
+          step_order: number
+          template_id: string
+          wait_days?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          sequence_id?: string
+          step_order?: number
+          template_id?: string
+          wait_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequences: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      email_suppressions: {
+        Row: {
+          contact_id: string | null
+          created_at: string
+          created_by: string | null
+          email: string
+          id: string
+          lead_id: string | null
+          notes: string | null
+          reason: string
+          source_email_history_id: string | null
+        }
+        Insert: {
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          email: string
+          id?: string
+          lead_id?: string | null
+          notes?: string | null
+          reason: string
+          source_email_history_id?: string | null
+        }
+        Update: {
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          id?: string
+          lead_id?: string | null
+          notes?: string | null
+          reason?: string
+          source_email_history_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_suppressions_contact_id_fkey"
             columns: ["contact_id"]
             isOneToOne: false
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "email_history_lead_id_fkey"
+            foreignKeyName: "email_suppressions_lead_id_fkey"
             columns: ["lead_id"]
             isOneToOne: false
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      email_replies: {
-        Row: {
-          body_preview: string | null
-          created_at: string | null
-          email_history_id: string
-          from_email: string
-          from_name: string | null
-          graph_message_id: string | null
-          id: string
-          received_at: string
-          subject: string | null
-          updated_at: string | null
-        }
-        Insert: {
-          body_preview?: string | null
-          created_at?: string | null
-          email_history_id: string
-          from_email: string
-          from_name?: string | null
-          graph_message_id?: string | null
-          id?: string
-          received_at: string
-          subject?: string | null
-          updated_at?: string | null
-        }
-        Update: {
-          body_preview?: string | null
-          created_at?: string | null
-          email_history_id?: string
-          from_email?: string
-          from_name?: string | null
-          graph_message_id?: string | null
-          id?: string
-          received_at?: string
-          subject?: string | null
-          updated_at?: string | null
-        }
-        Relationships: [
           {
-            foreignKeyName: "email_replies_email_history_id_fkey"
-            columns: ["email_history_id"]
+            foreignKeyName: "email_suppressions_source_email_history_id_fkey"
+            columns: ["source_email_history_id"]
             isOneToOne: false
             referencedRelation: "email_history"
             referencedColumns: ["id"]
@@ -1131,6 +1680,131 @@ export type Database = {
         }
         Relationships: []
       }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_date: string
+          from_currency: string
+          id: string
+          notes: string | null
+          rate: number
+          to_currency: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency: string
+          id?: string
+          notes?: string | null
+          rate: number
+          to_currency: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          notes?: string | null
+          rate?: number
+          to_currency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      import_batch_records: {
+        Row: {
+          action: string
+          batch_id: string
+          created_at: string
+          id: string
+          previous_data: Json | null
+          record_id: string
+          seq: number
+          written_data: Json
+        }
+        Insert: {
+          action: string
+          batch_id: string
+          created_at?: string
+          id?: string
+          previous_data?: Json | null
+          record_id: string
+          seq?: never
+          written_data: Json
+        }
+        Update: {
+          action?: string
+          batch_id?: string
+          created_at?: string
+          id?: string
+          previous_data?: Json | null
+          record_id?: string
+          seq?: never
+          written_data?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_batch_records_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batches: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_count: number
+          entity_type: string
+          error_count: number
+          file_name: string | null
+          id: string
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          status: string
+          total_rows: number
+          updated_count: number
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_count?: number
+          entity_type: string
+          error_count?: number
+          file_name?: string | null
+          id?: string
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          status?: string
+          total_rows?: number
+          updated_count?: number
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_count?: number
+          entity_type?: string
+          error_count?: number
+          file_name?: string | null
+          id?: string
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          status?: string
+          total_rows?: number
+          updated_count?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       import_export_settings: {
         Row: {
           created_at: string
@@ -1138,7 +1812,9 @@ export type Database = {
           entity_type: string
           field_mappings: Json | null
           id: string
+          name: string
           skip_duplicates: boolean | null
+          source_headers: string[]
           updated_at: string
           user_id: string
         }
@@ -1148,7 +1824,9 @@ export type Database = {
           entity_type: string
           field_mappings?: Json | null
           id?: string
+          name?: string
           skip_duplicates?: boolean | null
+          source_headers?: string[]
           updated_at?: string
           user_id: string
         }
@@ -1158,7 +1836,9 @@ export type Database = {
           entity_type?: string
           field_mappings?: Json | null
           id?: string
+          name?: string
           skip_duplicates?: boolean | null
+          source_headers?: string[]
           updated_at?: string
           user_id?: string
         }
@@ -1290,6 +1970,7 @@ export type Database = {
       leads: {
         Row: {
           account_id: string | null
+          communication_preferences: Json | null
           company_name: string | null
           contact_owner: string | null
           contact_source: string | null
@@ -1297,9 +1978,11 @@ export type Database = {
           country: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           id: string
+          import_batch_id: string | null
           industry: string | null
           lead_name: string
           lead_status: string | null
@@ -1308,10 +1991,14 @@ export type Database = {
           modified_time: string | null
           phone_no: string | null
           position: string | null
+          score: number | null
+          score_breakdown: Json
+          score_updated_at: string | null
           website: string | null
         }
         Insert: {
           account_id?: string | null
+          communication_preferences?: Json | null
           company_name?: string | null
           contact_owner?: string | null
           contact_source?: string | null
@@ -1319,9 +2006,11 @@ export type Database = {
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
+          import_batch_id?: string | null
           industry?: string | null
           lead_name: string
           lead_status?: string | null
@@ -1330,10 +2019,14 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           website?: string | null
         }
         Update: {
           account_id?: string | null
+          communication_preferences?: Json | null
           company_name?: string | null
           contact_owner?: string | null
           contact_source?: string | null
@@ -1341,9 +2034,11 @@ export type Database = {
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
+          import_batch_id?: string | null
           industry?: string | null
           lead_name?: string
           lead_status?: string | null
@@ -1352,6 +2047,9 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number | null
+          score_breakdown?: Json
+          score_updated_at?: string | null
           website?: string | null
         }
         Relationships: [
@@ -1369,6 +2067,13 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "leads_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       maintenance: {
@@ -1505,13 +2210,18 @@ export type Database = {
         Row: {
           account_id: string | null
           attendees: Json | null
+          booked_from_ip: string | null
+          booking_page_id: string | null
           contact_id: string | null
           created_at: string
           created_by: string | null
           deal_id: string | null
           description: string | null
           end_time: string
+          ics_sequence: number
           id: string
+          invite_method: string | null
+          invite_sent_at: string | null
           join_url: string | null
           lead_id: string | null
           notes: string | null
@@ -1519,18 +2229,24 @@ export type Database = {
           start_time: string
           status: string
           subject: string
+          timezone: string | null
           updated_at: string
         }
         Insert: {
           account_id?: string | null
           attendees?: Json | null
+          booked_from_ip?: string | null
+          booking_page_id?: string | null
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
           deal_id?: string | null
           description?: string | null
           end_time: string
+          ics_sequence?: number
           id?: string
+          invite_method?: string | null
+          invite_sent_at?: string | null
           join_url?: string | null
           lead_id?: string | null
           notes?: string | null
@@ -1538,18 +2254,24 @@ export type Database = {
           start_time: string
           status?: string
           subject: string
+          timezone?: string | null
           updated_at?: string
         }
         Update: {
           account_id?: string | null
           attendees?: Json | null
+          booked_from_ip?: string | null
+          booking_page_id?: string | null
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
           deal_id?: string | null
           description?: string | null
           end_time?: string
+          ics_sequence?: number
           id?: string
+          invite_method?: string | null
+          invite_sent_at?: string | null
           join_url?: string | null
           lead_id?: string | null
           notes?: string | null
@@ -1557,9 +2279,17 @@ export type Database = {
           start_time?: string
           status?: string
           subject?: string
+          timezone?: string | null
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "meetings_booking_page_id_fkey"
+            columns: ["booking_page_id"]
+            isOneToOne: false
+            referencedRelation: "booking_pages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "meetings_account_id_fkey"
             columns: ["account_id"]
@@ -1838,6 +2568,53 @@ export type Database = {
         }
         Relationships: []
       }
+      report_schedule_runs: {
+        Row: {
+          created_at: string
+          error_message: string | null
+          id: string
+          period_end: string | null
+          period_start: string | null
+          recipients: Json
+          row_count: number
+          schedule_id: string
+          status: string
+          triggered_by: string
+        }
+        Insert: {
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          period_end?: string | null
+          period_start?: string | null
+          recipients?: Json
+          row_count?: number
+          schedule_id: string
+          status: string
+          triggered_by?: string
+        }
+        Update: {
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          period_end?: string | null
+          period_start?: string | null
+          recipients?: Json
+          row_count?: number
+          schedule_id?: string
+          status?: string
+          triggered_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_schedule_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       report_schedules: {
         Row: {
           created_at: string | null
@@ -1848,6 +2625,8 @@ export type Database = {
           frequency: string
           id: string
           is_enabled: boolean | null
+          last_run_at: string | null
+          last_run_status: string | null
           last_sent_at: string | null
           name: string
           recipients: Json | null
@@ -1864,6 +2643,8 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_run_at?: string | null
+          last_run_status?: string | null
           last_sent_at?: string | null
           name: string
           recipients?: Json | null
@@ -1880,6 +2661,8 @@ export type Database = {
           frequency?: string
           id?: string
           is_enabled?: boolean | null
+          last_run_at?: string | null
+          last_run_status?: string | null
           last_sent_at?: string | null
           name?: string
           recipients?: Json | null
@@ -1919,6 +2702,131 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_emails: {
+        Row: {
+          attachments: Json
+          attempt_count: number
+          batch_id: string | null
+          body: string | null
+          created_at: string
+          created_by: string | null
+          email_history_id: string | null
+          entity_id: string | null
+          entity_type: string | null
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          recipient_email: string
+          recipient_name: string | null
+          scheduled_at: string
+          sender_email: string
+          sent_at: string | null
+          status: string
+          subject: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          attachments?: Json
+          attempt_count?: number
+          batch_id?: string | null
+          body?: string | null
+          created_at?: string
+          created_by?: string | null
+          email_history_id?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          scheduled_at: string
+          sender_email: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          attachments?: Json
+          attempt_count?: number
+          batch_id?: string | null
+          body?: string | null
+          created_at?: string
+          created_by?: string | null
+          email_history_id?: string | null
+          entity_id?: string | null
+          entity_type?: string | null
+          id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          scheduled_at?: string
+          sender_email?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_emails_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scoring_rules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          decay_half_life_days: number | null
+          entity_type: string
+          id: string
+          is_active: boolean
+          match_value: string | null
+          max_points: number | null
+          name: string
+          points: number
+          rule_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          decay_half_life_days?: number | null
+          entity_type?: string
+          id?: string
+          is_active?: boolean
+          match_value?: string | null
+          max_points?: number | null
+          name: string
+          points?: number
+          rule_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          decay_half_life_days?: number | null
+          entity_type?: string
+          id?: string
+          is_active?: boolean
+          match_value?: string | null
+          max_points?: number | null
+          name?: string
+          points?: number
+          rule_type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       security_audit_log: {
         Row: {
           action: string
@@ -2118,7 +3026,9 @@ export type Database = {
           parent_task_id: string | null
           priority: string
           recurrence: string | null
+          recurrence_anchor_date: string | null
           recurrence_end_date: string | null
+          recurrence_exception: boolean
           reminder_date: string | null
           status: string
           tags: string[] | null
@@ -2144,7 +3054,9 @@ export type Database = {
           parent_task_id?: string | null
           priority?: string
           recurrence?: string | null
+          recurrence_anchor_date?: string | null
           recurrence_end_date?: string | null
+          recurrence_exception?: boolean
           reminder_date?: string | null
           status?: string
           tags?: string[] | null
@@ -2170,7 +3082,9 @@ export type Database = {
           parent_task_id?: string | null
           priority?: string
           recurrence?: string | null
+          recurrence_anchor_date?: string | null
           recurrence_end_date?: string | null
+          recurrence_exception?: boolean
           reminder_date?: string | null
           status?: string
           tags?: string[] | null
@@ -2370,6 +3284,7 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          currency: string
           id: string
           total_target: number
           updated_at: string
@@ -2378,6 +3293,7 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          currency?: string
           id?: string
           total_target?: number
           updated_at?: string
@@ -2386,6 +3302,7 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          currency?: string
           id?: string
           total_target?: number
           updated_at?: string
@@ -2398,6 +3315,15 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      act_on_approval_request: {
+        Args: { p_action: string; p_comments?: string; p_request_id: string }
+        Returns: string
+      }
+      approval_condition_matches: {
+        Args: { p_condition: Json; p_value: string }
+        Returns: boolean
+      }
+      audit_ignored_columns: { Args: never; Returns: string[] }
       calculate_account_score: {
         Args: { p_account_id: string }
         Returns: number
@@ -2406,6 +3332,14 @@ export type Database = {
         Args: { p_contact_id: string }
         Returns: number
       }
+      calculate_record_score: {
+        Args: { p_entity_type: string; p_record_id: string }
+        Returns: number
+      }
+      can_act_on_approval_step: {
+        Args: { p_step: Json; p_user_id?: string }
+        Returns: boolean
+      }
       get_my_access_snapshot: {
         Args: never
         Returns: {
@@ -2437,6 +3371,20 @@ export type Database = {
         }
         Returns: undefined
       }
+      reassign_deal_stage: {
+        Args: { p_from_stage: string; p_retire: string; p_to_stage: string }
+        Returns: number
+      }
+      record_meeting_rsvp: {
+        Args: { p_meeting_id: string; p_response: string; p_token: string }
+        Returns: Json
+      }
+      recalculate_all_scores: { Args: never; Returns: number }
+      rollback_import_batch: { Args: { p_batch_id: string }; Returns: Json }
+      score_decay: {
+        Args: { p_event_at: string; p_half_life_days: number }
+        Returns: number
+      }
       update_account_stats: {
         Args: { p_account_id: string }
         Returns: undefined
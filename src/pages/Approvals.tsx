@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { CheckCircle2, XCircle, ExternalLink, Inbox, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { useApprovalRequests, getCurrentStep, ApprovalRequest } from '@/hooks/useApprovalRequests';
+import { useApprovalWorkflow } from '@/hooks/useApprovalWorkflow';
+import { getApprovalRecordRoute, getStepRoleLabel } from '@/utils/approvalEngine';
+import { getApprovalStatusColor } from '@/utils/statusBadgeUtils';
+import { ApprovalChangeDiff } from '@/components/approvals/ApprovalChangeDiff';
+import { ApprovalActionDialog } from '@/components/approvals/ApprovalActionDialog';
+
+const entityLabels: Record<string, string> = {
+  deals: 'Deal',
+  leads: 'Lead',
+  accounts: 'Account',
+};
+
+interface PendingAction {
+  request: ApprovalRequest;
+  action: 'approved' | 'rejected';
+}
+
+interface ApprovalCardProps {
+  request: ApprovalRequest;
+  displayNames: Record<string, string>;
+  onAction?: (request: ApprovalRequest, action: 'approved' | 'rejected') => void;
+}
+
+const ApprovalCard = ({ request, displayNames, onAction }: ApprovalCardProps) => {
+  const totalSteps = request.workflow?.approval_steps.length || 0;
+  const currentStep = getCurrentStep(request);
+  const lastComment = [...request.actions].reverse().find(a => a.comments);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0 space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <h3 className="font-semibold truncate">{request.record_name || 'Untitled record'}</h3>
+              <Badge variant="secondary">{entityLabels[request.entity_type] || request.entity_type}</Badge>
+              <Badge variant="outline" className={`capitalize ${getApprovalStatusColor(request.status)}`}>
+                {request.status || 'pending'}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {request.workflow?.name || 'Approval request'}
+              {request.status === 'pending' && totalSteps > 0 && (
+                <> · Step {request.current_step || 1} of {totalSteps} ({getStepRoleLabel(currentStep)})</>
+              )}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Submitted by {request.submitted_by ? displayNames[request.submitted_by] || 'Unknown User' : 'Unknown User'}
+              {request.submitted_at && ` ${formatDistanceToNow(new Date(request.submitted_at), { addSuffix: true })}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button variant="ghost" size="sm" asChild>
+              <Link to={getApprovalRecordRoute(request.entity_type, request.entity_id)}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                View record
+              </Link>
+            </Button>
+            {onAction && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => onAction(request, 'rejected')}
+                >
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+                <Button size="sm" onClick={() => onAction(request, 'approved')}>
+                  <CheckCircle2 className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ApprovalChangeDiff
+          proposedChanges={request.proposed_changes}
+          previousValues={request.previous_values}
+        />
+        {lastComment && (
+          <p className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">{displayNames[lastComment.approver_id] || 'Unknown User'}:</span>{' '}
+            <span className="italic">"{lastComment.comments}"</span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const EmptyState = ({ icon: Icon, message }: { icon: typeof Inbox; message: string }) => (
+  <div className="text-center py-16 text-muted-foreground">
+    <Icon className="h-12 w-12 mx-auto mb-4 opacity-50" />
+    <p>{message}</p>
+  </div>
+);
+
+const Approvals = () => {
+  const { toast } = useToast();
+  const { awaitingMyApproval, mySubmissions, loading } = useApprovalRequests();
+  const { actOnRequest } = useApprovalWorkflow();
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+
+  const userIds = [...awaitingMyApproval, ...mySubmissions]
+    .flatMap(r => [r.submitted_by, ...r.actions.map(a => a.approver_id)])
+    .filter(Boolean) as string[];
+  const { displayNames } = useUserDisplayNames(userIds);
+
+  const handleConfirm = async (comments: string) => {
+    if (!pendingAction) return;
+    const { request, action } = pendingAction;
+
+    try {
+      const status = await actOnRequest(request.id, action, comments);
+      toast({
+        title: action === 'rejected' ? 'Change Rejected' : 'Change Approved',
+        description: action === 'rejected'
+          ? `The proposed change to ${request.record_name || 'this record'} was rejected.`
+          : status === 'approved'
+            ? `All steps approved. The change to ${request.record_name || 'this record'} has been applied.`
+            : 'Step approved. The request has moved to the next approver.',
+      });
+    } catch (error) {
+      console.error('Error acting on approval request:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update approval request',
+        variant: 'destructive',
+      });
+      throw error;
+    }
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-semibold text-foreground">Approvals</h1>
+            {awaitingMyApproval.length > 0 && (
+              <Badge variant="destructive" className="rounded-full">
+                {awaitingMyApproval.length} awaiting
+              </Badge>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto px-6 py-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="awaiting">
+            <TabsList>
+              <TabsTrigger value="awaiting">Awaiting my approval ({awaitingMyApproval.length})</TabsTrigger>
+              <TabsTrigger value="submitted">My submissions ({mySubmissions.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="awaiting" className="space-y-3 mt-4">
+              {awaitingMyApproval.length === 0 ? (
+                <EmptyState icon={Inbox} message="Nothing is waiting for your approval" />
+              ) : (
+                awaitingMyApproval.map(request => (
+                  <ApprovalCard
+                    key={request.id}
+                    request={request}
+                    displayNames={displayNames}
+                    onAction={(req, action) => setPendingAction({ request: req, action })}
+                  />
+                ))
+              )}
+            </TabsContent>
+
+            <TabsContent value="submitted" className="space-y-3 mt-4">
+              {mySubmissions.length === 0 ? (
+                <EmptyState icon={Send} message="You have not submitted any changes for approval" />
+              ) : (
+                mySubmissions.map(request => (
+                  <ApprovalCard key={request.id} request={request} displayNames={displayNames} />
+                ))
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      {pendingAction && (
+        <ApprovalActionDialog
+          open={!!pendingAction}
+          action={pendingAction.action}
+          recordName={pendingAction.request.record_name || 'this record'}
+          onOpenChange={(open) => !open && setPendingAction(null)}
+          onConfirm={handleConfirm}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams } from "react-router-dom";
+import { formatInTimeZone } from "date-fns-tz";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, CalendarCheck, CalendarX, Clock, Loader2 } from "lucide-react";
+import { getBrowserTimezone } from "@/utils/scheduledSend";
+
+type PageState = 'loading' | 'ready' | 'booked' | 'invalid';
+
+interface BookingPageDetails {
+  title: string;
+  description: string | null;
+  durationMinutes: number;
+  timezone: string;
+  ownerName: string;
+}
+
+interface BookingDetails {
+  start: string;
+  end: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const callBookingPage = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke('booking-page', { body });
+  if (error) throw error;
+  return data;
+};
+
+// Public page behind a user's booking link. Times are shown in the visitor's own timezone.
+const BookMeeting = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const timezone = useMemo(() => getBrowserTimezone(), []);
+  const [state, setState] = useState<PageState>('loading');
+  const [page, setPage] = useState<BookingPageDetails | null>(null);
+  const [slots, setSlots] = useState<string[]>([]);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', email: '', company: '', notes: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [booking, setBooking] = useState<BookingDetails | null>(null);
+
+  const loadSlots = useCallback(async () => {
+    try {
+      const data = await callBookingPage({ action: 'get', slug });
+      if (!data?.success) {
+        setState('invalid');
+        return;
+      }
+      setPage(data.page);
+      setSlots(data.slots || []);
+      setState('ready');
+    } catch (error) {
+      console.error('Error loading booking page:', error);
+      setState('invalid');
+    }
+  }, [slug]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const slotsByDay = useMemo(() => {
+    const days = new Map<string, string[]>();
+    for (const slot of slots) {
+      const day = formatInTimeZone(new Date(slot), timezone, 'yyyy-MM-dd');
+      days.set(day, [...(days.get(day) || []), slot]);
+    }
+    return days;
+  }, [slots, timezone]);
+
+  const activeDay = selectedDay && slotsByDay.has(selectedDay) ? selectedDay : slotsByDay.keys().next().value ?? null;
+
+  const handleBook = async () => {
+    if (!selectedSlot) return;
+    if (!form.name.trim() || !EMAIL_PATTERN.test(form.email.trim())) {
+      setFormError('Please enter your name and a valid email address');
+      return;
+    }
+
+    setSubmitting(true);
+    setFormError(null);
+    try {
+      const data = await callBookingPage({ action: 'book', slug, start: selectedSlot, ...form });
+      if (data?.unavailable) {
+        setFormError(data.error);
+        setSelectedSlot(null);
+        await loadSlots();
+        return;
+      }
+      if (data?.limited) {
+        setFormError(data.error);
+        return;
+      }
+      if (!data?.success) throw new Error(data?.error || 'Booking failed');
+      setBooking({ start: data.start, end: data.end });
+      setState('booked');
+    } catch (error) {
+      console.error('Error booking meeting:', error);
+      setFormError('Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatRange = (start: string, end: string) =>
+    `${formatInTimeZone(new Date(start), timezone, "EEEE d MMMM yyyy, h:mm a")} – ${formatInTimeZone(new Date(end), timezone, "h:mm a")}`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-xl">
+        {state === 'loading' && (
+          <CardContent className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        )}
+
+        {state === 'invalid' && (
+          <CardHeader className="text-center">
+            <CalendarX className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Booking page not available</CardTitle>
+            <CardDescription>This link doesn't exist or is no longer accepting bookings.</CardDescription>
+          </CardHeader>
+        )}
+
+        {state === 'booked' && page && booking && (
+          <CardHeader className="text-center">
+            <CalendarCheck className="h-10 w-10 mx-auto mb-2 text-primary" />
+            <CardTitle>You're booked</CardTitle>
+            <CardDescription>
+              {page.title} with {page.ownerName}
+              <br />
+              {formatRange(booking.start, booking.end)} ({timezone})
+            </CardDescription>
+          </CardHeader>
+        )}
+
+        {state === 'ready' && page && (
+          <>
+            <CardHeader>
+              <CardTitle>{page.title}</CardTitle>
+              <CardDescription className="space-y-1">
+                <span className="block">with {page.ownerName}</span>
+                <span className="flex items-center gap-1"><Clock className="h-3.5 w-3.5" />{page.durationMinutes} minutes</span>
+                {page.description && <span className="block whitespace-pre-wrap">{page.description}</span>}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {selectedSlot ? (
+                <div className="space-y-3">
+                  <Button variant="ghost" size="sm" className="-ml-2" onClick={() => setSelectedSlot(null)}>
+                    <ArrowLeft className="h-4 w-4 mr-1" />
+                    Change time
+                  </Button>
+                  <p className="text-sm font-medium">
+                    {formatRange(selectedSlot, new Date(new Date(selectedSlot).getTime() + page.durationMinutes * 60 * 1000).toISOString())}
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-1.5">
+                      <Label htmlFor="book-name">Name *</Label>
+                      <Input id="book-name" maxLength={200} value={form.name} onChange={e => setForm(f => ({ ...f, name: e.target.value }))} />
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="book-email">Email *</Label>
+                      <Input id="book-email" type="email" maxLength={254} value={form.email} onChange={e => setForm(f => ({ ...f, email: e.target.value }))} />
+                    </div>
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="book-company">Company</Label>
+                    <Input id="book-company" maxLength={200} value={form.company} onChange={e => setForm(f => ({ ...f, company: e.target.value }))} />
+                  </div>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="book-notes">Anything we should know?</Label>
+                    <Textarea id="book-notes" rows={3} maxLength={2000} value={form.notes} onChange={e => setForm(f => ({ ...f, notes: e.target.value }))} />
+                  </div>
+                  {formError && <p className="text-sm text-destructive">{formError}</p>}
+                  <Button className="w-full" onClick={handleBook} disabled={submitting}>
+                    {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Confirm Booking
+                  </Button>
+                </div>
+              ) : slotsByDay.size === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  There are no free times at the moment. Please check back later.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {formError && <p className="text-sm text-destructive">{formError}</p>}
+                  <div className="flex gap-2 overflow-x-auto pb-1">
+                    {[...slotsByDay.keys()].map(day => (
+                      <Button
+                        key={day}
+                        variant={day === activeDay ? 'default' : 'outline'}
+                        size="sm"
+                        className="shrink-0 flex-col h-auto py-1.5"
+                        onClick={() => setSelectedDay(day)}
+                      >
+                        <span className="text-xs">{formatInTimeZone(new Date(slotsByDay.get(day)![0]), timezone, 'EEE')}</span>
+                        <span>{formatInTimeZone(new Date(slotsByDay.get(day)![0]), timezone, 'd MMM')}</span>
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                    {(activeDay ? slotsByDay.get(activeDay) || [] : []).map(slot => (
+                      <Button
+                        key={slot}
+                        variant="outline"
+                        size="sm"
+                        className="font-normal"
+                        onClick={() => {
+                          setFormError(null);
+                          setSelectedSlot(slot);
+                        }}
+                      >
+                        {formatInTimeZone(new Date(slot), timezone, 'h:mm a')}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Times are shown in {timezone}</p>
+                </div>
+              )}
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default BookMeeting;
@@ -1,14 +1,15 @@
 import { ContactTable, ContactTableRef } from "@/components/ContactTable";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Settings, Trash2, Upload, Download, Mail, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Mail, ListOrdered, Plus } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
-import { Input } from "@/components/ui/input";
+import { ImportFileInput } from "@/components/shared/ImportFileInput";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useSimpleContactsImportExport } from "@/hooks/useSimpleContactsImportExport";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 const Contacts = () => {
@@ -19,6 +20,7 @@ const Contacts = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [showSequenceModal, setShowSequenceModal] = useState(false);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -35,16 +37,11 @@ const Contacts = () => {
     fileInputRef.current?.click();
   };
 
-  const handleImportCSV = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
+  const handleImportFile = async (file: File, sheet?: string) => {
     try {
-      await handleImport(file);
-      event.target.value = '';
+      await handleImport(file, sheet);
     } catch (error: any) {
       console.error('Import error:', error);
-      event.target.value = '';
     }
   };
 
@@ -61,9 +58,7 @@ const Contacts = () => {
     setShowBulkDeleteDialog(false);
   };
 
-  const handleBulkEmailClick = async () => {
-    if (selectedContacts.length === 0) return;
-    
+  const fetchSelectedRecipients = async (): Promise<BulkEmailRecipient[] | null> => {
     const { data: contacts, error } = await supabase
       .from('contacts')
       .select('id, contact_name, email')
@@ -75,20 +70,35 @@ const Contacts = () => {
         description: "Failed to fetch contact details",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
-    const recipients: BulkEmailRecipient[] = (contacts || []).map(contact => ({
+    return (contacts || []).map(contact => ({
       id: contact.id,
       name: contact.contact_name,
       email: contact.email || undefined,
       type: 'contact' as const,
     }));
+  };
+
+  const handleBulkEmailClick = async () => {
+    if (selectedContacts.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
 
     setBulkEmailRecipients(recipients);
     setShowBulkEmailModal(true);
   };
 
+  const handleAddToSequenceClick = async () => {
+    if (selectedContacts.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
+
+    setBulkEmailRecipients(recipients);
+    setShowSequenceModal(true);
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Fixed Header */}
@@ -141,7 +151,7 @@ const Contacts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleImportClick} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleExport}>
                     <Download className="w-4 h-4 mr-2" />
@@ -151,6 +161,10 @@ const Contacts = () => {
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedContacts.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleAddToSequenceClick} disabled={selectedContacts.length === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Add to Sequence ({selectedContacts.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
                     disabled={selectedContacts.length === 0}
@@ -171,15 +185,8 @@ const Contacts = () => {
         </div>
       </div>
 
-      {/* Hidden file input for CSV import */}
-      <Input 
-        ref={fileInputRef} 
-        type="file" 
-        accept=".csv" 
-        onChange={handleImportCSV} 
-        className="hidden" 
-        disabled={isImporting} 
-      />
+      {/* Hidden file input for CSV / Excel import */}
+      <ImportFileInput ref={fileInputRef} onFileSelected={handleImportFile} disabled={isImporting} />
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4">
@@ -227,6 +234,16 @@ const Contacts = () => {
           setSelectedContacts([]);
         }}
       />
+
+      {/* Add to Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showSequenceModal}
+        onOpenChange={setShowSequenceModal}
+        recipients={bulkEmailRecipients}
+        onEnrolled={() => {
+          setSelectedContacts([]);
+        }}
+      />
     </div>
   );
 };
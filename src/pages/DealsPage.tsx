@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
@@ -14,8 +14,13 @@ import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Upload, Download, Columns, MoreVertical } from "lucide-react";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { ImportFileInput } from "@/components/shared/ImportFileInput";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
+import type { ParsedCSV } from "@/utils/csvParser";
 import { DeleteConfirmDialog } from "@/components/shared/DeleteConfirmDialog";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useApprovalWorkflow, ApprovalSubmissionResult } from "@/hooks/useApprovalWorkflow";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 const DealsPage = () => {
   const [searchParams] = useSearchParams();
@@ -34,6 +39,8 @@ const DealsPage = () => {
     logUpdate,
     logBulkDelete
   } = useCRUDAudit();
+  const { submitIfApprovalRequired, assertCreateAllowed } = useApprovalWorkflow();
+  const { openStages } = usePipelineStages();
   const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -66,6 +73,20 @@ const DealsPage = () => {
   const { handleImport, handleExportAll, handleExportSelected } = useDealsImportExport({
     onRefresh: () => fetchDeals()
   });
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // A chosen file waits here while its columns are mapped and its rows reviewed
+  const [pendingImport, setPendingImport] = useState<{ file: File; sheet?: string } | null>(null);
+
+  const handleImportMapped = async (data: ParsedCSV) => {
+    if (!pendingImport) return;
+    const { file, sheet } = pendingImport;
+    setPendingImport(null);
+    try {
+      await handleImport(file, sheet, data);
+    } catch (error) {
+      console.error('Import failed:', error);
+    }
+  };
   
   // Get owner parameter from URL - "me" means filter by current user
   const ownerParam = searchParams.get('owner');
@@ -104,7 +125,7 @@ const DealsPage = () => {
     }
   }, [deals, ownerParam, user?.id]);
   // Old fetchDeals removed - using React Query now
-  const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>) => {
+  const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>): Promise<ApprovalSubmissionResult> => {
     try {
       console.log("=== HANDLE UPDATE DEAL DEBUG ===");
       console.log("Deal ID:", dealId);
@@ -120,6 +141,23 @@ const DealsPage = () => {
         modified_by: user?.id
       };
       console.log("Final update data:", updateData);
+
+      // Park the change when an approval workflow is triggered
+      const approval = await submitIfApprovalRequired({
+        entityType: 'deals',
+        entityId: dealId,
+        changes: updateData,
+        existing: existingDeal as unknown as Record<string, unknown>,
+        recordName: existingDeal?.project_name || existingDeal?.deal_name,
+      });
+      if (approval.pendingApproval) {
+        toast({
+          title: "Approval Required",
+          description: `Change submitted for approval (${approval.workflowName})`
+        });
+        return approval;
+      }
+
       const {
         data,
         error
@@ -139,6 +177,7 @@ const DealsPage = () => {
         title: "Success",
         description: "Deal updated successfully"
       });
+      return { pendingApproval: false };
     } catch (error: any) {
       console.error("Update deal error:", error);
       toast({
@@ -149,7 +188,7 @@ const DealsPage = () => {
       throw error;
     }
   };
-  const handleSaveDeal = async (dealData: Partial<Deal>) => {
+  const handleSaveDeal = async (dealData: Partial<Deal>): Promise<ApprovalSubmissionResult | void> => {
     try {
       console.log("=== SAVE DEAL DEBUG ===");
       console.log("Is creating:", isCreating);
@@ -165,6 +204,7 @@ const DealsPage = () => {
           modified_at: new Date().toISOString()
         };
         console.log("Insert data:", insertData);
+        await assertCreateAllowed('deals', insertData);
         const {
           data,
           error
@@ -197,8 +237,9 @@ const DealsPage = () => {
           modified_by: user?.id
         };
         console.log("Update data for existing deal:", updateData);
-        await handleUpdateDeal(selectedDeal.id, updateData);
+        const result = await handleUpdateDeal(selectedDeal.id, updateData);
         await fetchDeals();
+        return result;
       }
     } catch (error: any) {
       console.error("Error in handleSaveDeal:", error);
@@ -373,6 +414,16 @@ const DealsPage = () => {
               </div>
 
               {/* Actions dropdown - Consistent with Accounts pattern */}
+              <ImportFileInput ref={importInputRef} onFileSelected={(file, sheet) => setPendingImport({ file, sheet })} />
+              {pendingImport && (
+                <ImportMappingDialog
+                  file={pendingImport.file}
+                  sheet={pendingImport.sheet}
+                  tableName="deals"
+                  onCancel={() => setPendingImport(null)}
+                  onConfirm={handleImportMapped}
+                />
+              )}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" size="sm">
@@ -386,20 +437,9 @@ const DealsPage = () => {
                       Columns
                     </DropdownMenuItem>
                   )}
-                  <DropdownMenuItem onClick={() => {
-                    const input = document.createElement('input');
-                    input.type = 'file';
-                    input.accept = '.csv';
-                    input.onchange = async (e) => {
-                      const file = (e.target as HTMLInputElement).files?.[0];
-                      if (file) {
-                        await handleImport(file);
-                      }
-                    };
-                    input.click();
-                  }}>
+                  <DropdownMenuItem onClick={() => importInputRef.current?.click()}>
                     <Upload className="w-4 h-4 mr-2" />
-                    Import CSV
+                    Import CSV / Excel
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => {
                     if (selectedDealIds.length > 0) {
@@ -423,7 +463,7 @@ const DealsPage = () => {
                 </DropdownMenuContent>
               </DropdownMenu>
 
-              <Button size="sm" onClick={() => handleCreateDeal('Lead')} className="gap-1.5">
+              <Button size="sm" onClick={() => handleCreateDeal(openStages[0]?.stage_name || 'Lead')} className="gap-1.5">
                 <Plus className="h-4 w-4" />
                 Add Deal
               </Button>
@@ -1,13 +1,16 @@
 import LeadTable, { LeadTableRef } from "@/components/LeadTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus, Trash2, Upload, Download, Mail } from "lucide-react";
+import { Settings, Plus, Trash2, Upload, Download, Mail, ListOrdered } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useSimpleLeadsImportExport } from "@/hooks/useSimpleLeadsImportExport";
+import { ImportFileInput } from "@/components/shared/ImportFileInput";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
 import { LeadDeleteConfirmDialog } from "@/components/LeadDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { supabase } from "@/integrations/supabase/client";
 import { useSearchParams } from "react-router-dom";
 
@@ -23,8 +26,11 @@ const Leads = () => {
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [showSequenceModal, setShowSequenceModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // A chosen file waits here while its columns are mapped and its rows reviewed
+  const [pendingImport, setPendingImport] = useState<{ file: File; sheet?: string } | null>(null);
   const leadTableRef = useRef<LeadTableRef>(null);
   
   const { handleImport, handleExport, isImporting } = useSimpleLeadsImportExport(() => {
@@ -47,10 +53,8 @@ const Leads = () => {
     setShowBulkDeleteDialog(true);
   };
 
-  const handleBulkEmailClick = async () => {
-    if (selectedLeads.length === 0) return;
-    
-    // Fetch lead details for selected leads
+  // Fetch lead details for selected leads
+  const fetchSelectedRecipients = async (): Promise<BulkEmailRecipient[] | null> => {
     const { data: leads, error } = await supabase
       .from('leads')
       .select('id, lead_name, email')
@@ -62,34 +66,33 @@ const Leads = () => {
         description: "Failed to fetch lead details",
         variant: "destructive",
       });
-      return;
+      return null;
     }
 
-    const recipients: BulkEmailRecipient[] = (leads || []).map(lead => ({
+    return (leads || []).map(lead => ({
       id: lead.id,
       name: lead.lead_name,
       email: lead.email || undefined,
       type: 'lead' as const,
     }));
+  };
+
+  const handleBulkEmailClick = async () => {
+    if (selectedLeads.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
 
     setBulkEmailRecipients(recipients);
     setShowBulkEmailModal(true);
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      handleImport(file);
-    } else {
-      toast({
-        title: "Error",
-        description: "Please select a valid CSV file",
-        variant: "destructive"
-      });
-    }
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const handleAddToSequenceClick = async () => {
+    if (selectedLeads.length === 0) return;
+    const recipients = await fetchSelectedRecipients();
+    if (!recipients) return;
+
+    setBulkEmailRecipients(recipients);
+    setShowSequenceModal(true);
   };
 
   const handleBulkDeleteComplete = () => {
@@ -149,7 +152,7 @@ const Leads = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleExport}>
                     <Download className="w-4 h-4 mr-2" />
@@ -159,6 +162,10 @@ const Leads = () => {
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedLeads.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleAddToSequenceClick} disabled={selectedLeads.length === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Add to Sequence ({selectedLeads.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedLeads.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
                     {isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}
@@ -176,13 +183,19 @@ const Leads = () => {
       </div>
 
       {/* Hidden file input */}
-      <input 
-        ref={fileInputRef} 
-        type="file" 
-        accept=".csv" 
-        onChange={handleFileSelect} 
-        className="hidden"
-      />
+      <ImportFileInput ref={fileInputRef} onFileSelected={(file, sheet) => setPendingImport({ file, sheet })} disabled={isImporting} />
+      {pendingImport && (
+        <ImportMappingDialog
+          file={pendingImport.file}
+          sheet={pendingImport.sheet}
+          tableName="leads"
+          onCancel={() => setPendingImport(null)}
+          onConfirm={(data) => {
+            setPendingImport(null);
+            handleImport(pendingImport.file, pendingImport.sheet, data);
+          }}
+        />
+      )}
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4">
@@ -218,6 +231,16 @@ const Leads = () => {
           setSelectedLeads([]);
         }}
       />
+
+      {/* Add to Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showSequenceModal}
+        onOpenChange={setShowSequenceModal}
+        recipients={bulkEmailRecipients}
+        onEnrolled={() => {
+          setSelectedLeads([]);
+        }}
+      />
     </div>
   );
 };
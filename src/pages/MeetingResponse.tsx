@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { formatInTimeZone } from "date-fns-tz";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CalendarCheck, CalendarX, Loader2 } from "lucide-react";
+import { MEETING_RSVP_LABELS, MeetingRsvpResponse } from "@/utils/meetingInvites";
+
+type PageState = 'loading' | 'ready' | 'submitting' | 'error' | 'invalid';
+type Answer = Exclude<MeetingRsvpResponse, 'needs_action'>;
+
+interface MeetingDetails {
+  subject: string;
+  startTime: string;
+  endTime: string;
+  timezone: string | null;
+  joinUrl: string | null;
+  cancelled: boolean;
+  name: string;
+  response: MeetingRsvpResponse;
+}
+
+const ANSWERS: { value: Answer; label: string }[] = [
+  { value: 'accepted', label: 'Yes' },
+  { value: 'tentative', label: 'Maybe' },
+  { value: 'declined', label: 'No' },
+];
+
+const callMeetingRsvp = async (meetingId: string, token: string, response?: Answer) => {
+  const { data, error } = await supabase.functions.invoke('meeting-rsvp', { body: { meetingId, token, response } });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as MeetingDetails;
+};
+
+const formatWhen = (details: MeetingDetails) => {
+  const timezone = details.timezone || 'UTC';
+  return `${formatInTimeZone(new Date(details.startTime), timezone, "EEEE d MMMM yyyy, h:mm a")} – ` +
+    `${formatInTimeZone(new Date(details.endTime), timezone, "h:mm a")} (${timezone})`;
+};
+
+// Public page behind the RSVP links in a calendar invite. The answer in the link is only
+// highlighted; nothing is recorded until a button is pressed, since mail scanners open links too.
+const MeetingResponse = () => {
+  const [searchParams] = useSearchParams();
+  const meetingId = searchParams.get('m') || '';
+  const token = searchParams.get('t') || '';
+  const suggested = searchParams.get('r') as Answer | null;
+  const [state, setState] = useState<PageState>('loading');
+  const [details, setDetails] = useState<MeetingDetails | null>(null);
+
+  useEffect(() => {
+    if (!meetingId || !token) {
+      setState('invalid');
+      return;
+    }
+
+    callMeetingRsvp(meetingId, token)
+      .then(result => {
+        setDetails(result);
+        setState('ready');
+      })
+      .catch(error => {
+        console.error('Error checking meeting link:', error);
+        setState('invalid');
+      });
+  }, [meetingId, token]);
+
+  const handleAnswer = async (answer: Answer) => {
+    setState('submitting');
+    try {
+      const result = await callMeetingRsvp(meetingId, token, answer);
+      setDetails(result);
+      setState('ready');
+    } catch (error) {
+      console.error('Error recording meeting response:', error);
+      setState('error');
+    }
+  };
+
+  const answered = details && details.response !== 'needs_action';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        {state === 'loading' && (
+          <CardContent className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        )}
+
+        {details && (state === 'ready' || state === 'submitting' || state === 'error') && (
+          details.cancelled ? (
+            <CardHeader className="text-center">
+              <CalendarX className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+              <CardTitle>{details.subject}</CardTitle>
+              <CardDescription>This meeting has been cancelled.</CardDescription>
+            </CardHeader>
+          ) : (
+            <>
+              <CardHeader className="text-center">
+                <CalendarCheck className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+                <CardTitle>{details.subject}</CardTitle>
+                <CardDescription>{formatWhen(details)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-center">
+                  {answered
+                    ? <>Your answer: <span className="font-medium">{MEETING_RSVP_LABELS[details.response]}</span>. You can change it below.</>
+                    : <>Hi {details.name}, will you attend?</>}
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {ANSWERS.map(answer => (
+                    <Button
+                      key={answer.value}
+                      variant={(answered ? details.response === answer.value : suggested === answer.value) ? 'default' : 'outline'}
+                      onClick={() => handleAnswer(answer.value)}
+                      disabled={state === 'submitting'}
+                    >
+                      {answer.label}
+                    </Button>
+                  ))}
+                </div>
+                {details.joinUrl && (
+                  <p className="text-xs text-muted-foreground text-center break-all">
+                    Join: <a href={details.joinUrl} className="underline" target="_blank" rel="noopener noreferrer">{details.joinUrl}</a>
+                  </p>
+                )}
+                {state === 'error' && (
+                  <p className="text-sm text-destructive text-center">Something went wrong. Please try again.</p>
+                )}
+              </CardContent>
+            </>
+          )
+        )}
+
+        {state === 'invalid' && (
+          <CardHeader className="text-center">
+            <CalendarX className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Link not valid</CardTitle>
+            <CardDescription>
+              This meeting link is incomplete, or you are no longer invited. Reply to the invite email instead.
+            </CardDescription>
+          </CardHeader>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default MeetingResponse;
@@ -127,6 +127,10 @@ const Notifications = () => {
       navigate('/deals');
     } else if (notification.notification_type === 'lead_update') {
       navigate('/leads');
+    } else if (notification.notification_type === 'backup_failed') {
+      navigate('/settings?tab=admin&section=backup');
+    } else if (notification.notification_type === 'meeting_response' || notification.notification_type === 'meeting_booked') {
+      navigate('/meetings');
     } else {
       navigate('/dashboard');
     }
@@ -148,6 +152,11 @@ const Notifications = () => {
         return '📝';
       case 'task_deleted':
         return '🗑️';
+      case 'backup_failed':
+        return '💾';
+      case 'meeting_response':
+      case 'meeting_booked':
+        return '📅';
       default:
         return '🔔';
     }
@@ -4,6 +4,7 @@ import { useTasks } from '@/hooks/useTasks';
 import { useAuth } from '@/hooks/useAuth';
 import { useTasksImportExport } from '@/hooks/useTasksImportExport';
 import { Task, TaskStatus, CreateTaskData, TaskModuleType, TaskModalContext } from '@/types/task';
+import { RecurrenceEditScope } from '@/utils/taskRecurrence';
 import { TaskModal } from '@/components/tasks/TaskModal';
 import { TaskListView } from '@/components/tasks/TaskListView';
 import { TaskKanbanView } from '@/components/tasks/TaskKanbanView';
@@ -250,8 +251,8 @@ const Tasks = () => {
   };
 
   // Handle task update with return navigation  
-  const handleTaskUpdate = async (taskId: string, data: Partial<Task>, original?: Task) => {
-    const result = await updateTask(taskId, data, original);
+  const handleTaskUpdate = async (taskId: string, data: Partial<Task>, original?: Task, scope?: RecurrenceEditScope) => {
+    const result = await updateTask(taskId, data, original, scope);
     if (result && returnPath && returnViewId) {
       navigateBack();
     }
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Loader2, MailX } from "lucide-react";
+
+type PageState = 'loading' | 'confirm' | 'submitting' | 'done' | 'invalid' | 'error';
+
+const callUnsubscribe = async (token: string, confirm: boolean) => {
+  const { data, error } = await supabase.functions.invoke('unsubscribe-email', { body: { token, confirm } });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as { email: string; unsubscribed: boolean };
+};
+
+// Public page behind the unsubscribe link in bulk and sequence emails. Nothing is recorded until
+// the button is pressed, since mail scanners open links before the recipient does.
+const Unsubscribe = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('t') || '';
+  const [state, setState] = useState<PageState>('loading');
+  const [email, setEmail] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setState('invalid');
+      return;
+    }
+
+    callUnsubscribe(token, false)
+      .then(result => {
+        setEmail(result.email);
+        setState(result.unsubscribed ? 'done' : 'confirm');
+      })
+      .catch(error => {
+        console.error('Error checking unsubscribe link:', error);
+        setState('invalid');
+      });
+  }, [token]);
+
+  const handleUnsubscribe = async () => {
+    setState('submitting');
+    try {
+      const result = await callUnsubscribe(token, true);
+      setEmail(result.email);
+      setState('done');
+    } catch (error) {
+      console.error('Error unsubscribing:', error);
+      setState('error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted p-4">
+      <Card className="w-full max-w-md">
+        {state === 'loading' && (
+          <CardContent className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </CardContent>
+        )}
+
+        {(state === 'confirm' || state === 'submitting' || state === 'error') && (
+          <>
+            <CardHeader className="text-center">
+              <MailX className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+              <CardTitle>Unsubscribe</CardTitle>
+              <CardDescription>
+                Stop receiving emails from us at <span className="font-medium text-foreground">{email}</span>?
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Button className="w-full" onClick={handleUnsubscribe} disabled={state === 'submitting'}>
+                {state === 'submitting' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Unsubscribe
+              </Button>
+              {state === 'error' && (
+                <p className="text-sm text-destructive text-center">Something went wrong. Please try again.</p>
+              )}
+            </CardContent>
+          </>
+        )}
+
+        {state === 'done' && (
+          <CardHeader className="text-center">
+            <CheckCircle2 className="h-10 w-10 mx-auto mb-2 text-green-600" />
+            <CardTitle>You're unsubscribed</CardTitle>
+            <CardDescription>
+              We won't send any more emails to <span className="font-medium text-foreground">{email}</span>.
+            </CardDescription>
+          </CardHeader>
+        )}
+
+        {state === 'invalid' && (
+          <CardHeader className="text-center">
+            <MailX className="h-10 w-10 mx-auto mb-2 text-muted-foreground" />
+            <CardTitle>Link not valid</CardTitle>
+            <CardDescription>
+              This unsubscribe link is incomplete or has expired. Reply to the email and ask to be removed instead.
+            </CardDescription>
+          </CardHeader>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Unsubscribe;
@@ -1,4 +1,10 @@
-export type DealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+import type { CustomFieldValues } from "@/utils/customFieldUtils";
+
+// Stage names come from the configurable pipeline_stages table. The built-in names
+// below are the default pipeline and back the stage-specific deal form sections.
+export type DealStage = string;
+
+export type BuiltInDealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
 
 export interface Deal {
   id: string;
@@ -69,23 +75,32 @@ export interface Deal {
   
   // Dropped stage fields
   drop_reason?: string;
+
+  // Admin-defined fields (crm_custom_fields), keyed by field_name
+  custom_fields?: CustomFieldValues;
 }
 
-export const DEAL_STAGES: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
+export const DEAL_STAGES: BuiltInDealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
+
+interface StageFormFlags {
+  is_won_stage?: boolean | null;
+  is_lost_stage?: boolean | null;
+}
 
-export const STAGE_COLORS = {
-  Lead: 'bg-stage-lead text-stage-lead-foreground border-stage-lead-foreground/20',
-  Discussions: 'bg-stage-discussions text-stage-discussions-foreground border-stage-discussions-foreground/20',
-  Qualified: 'bg-stage-qualified text-stage-qualified-foreground border-stage-qualified-foreground/20',
-  RFQ: 'bg-stage-rfq text-stage-rfq-foreground border-stage-rfq-foreground/20',
-  Offered: 'bg-stage-offered text-stage-offered-foreground border-stage-offered-foreground/20',
-  Won: 'bg-stage-won text-stage-won-foreground border-stage-won-foreground/20',
-  Lost: 'bg-stage-lost text-stage-lost-foreground border-stage-lost-foreground/20',
-  Dropped: 'bg-stage-dropped text-stage-dropped-foreground border-stage-dropped-foreground/20',
+/**
+ * Resolves which built-in form section a configured stage uses. Built-in names keep
+ * their own section; custom won/lost stages reuse the Won/Lost sections, and any other
+ * custom stage has no section of its own.
+ */
+export const getStageFormSection = (stage: DealStage, flags?: StageFormFlags | null): BuiltInDealStage | null => {
+  if ((DEAL_STAGES as string[]).includes(stage)) return stage as BuiltInDealStage;
+  if (flags?.is_won_stage) return 'Won';
+  if (flags?.is_lost_stage) return 'Lost';
+  return null;
 };
 
 export const getStageIndex = (stage: DealStage): number => {
-  return DEAL_STAGES.indexOf(stage);
+  return (DEAL_STAGES as string[]).indexOf(stage);
 };
 
 export const getFieldsForStage = (stage: DealStage): string[] => {
@@ -143,18 +158,3 @@ export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
   };
   return requiredFields[stage] || [];
 };
-
-export const getNextStage = (currentStage: DealStage): DealStage | null => {
-  const stageFlow = {
-    Lead: 'Discussions',
-    Discussions: 'Qualified', 
-    Qualified: 'RFQ',
-    RFQ: 'Offered',
-    Offered: null, // After Offered, user can choose Won/Lost/Dropped
-  };
-  return stageFlow[currentStage] || null;
-};
-
-export const getFinalStageOptions = (): DealStage[] => {
-  return ['Won', 'Lost', 'Dropped'];
-};
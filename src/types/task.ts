@@ -19,6 +19,11 @@ export interface Task {
   lead_id: string | null;
   meeting_id: string | null;
   deal_id: string | null;
+  recurrence: string | null;
+  recurrence_end_date: string | null;
+  recurrence_exception: boolean;
+  recurrence_anchor_date: string | null;
+  parent_task_id: string | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
@@ -48,6 +53,8 @@ export interface CreateTaskData {
   lead_id?: string;
   meeting_id?: string;
   deal_id?: string;
+  recurrence?: string;
+  recurrence_end_date?: string | null;
 }
 
 export interface TaskModalContext {
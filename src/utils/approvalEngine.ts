@@ -0,0 +1,147 @@
+// Shared approval workflow evaluation used by the deal, lead and account save paths
+
+export type ApprovalEntityType = 'deals' | 'leads' | 'accounts';
+
+export const isApprovalEntityType = (entityType: string): entityType is ApprovalEntityType =>
+  entityType === 'deals' || entityType === 'leads' || entityType === 'accounts';
+
+export type ApprovalOperator = '>=' | '>' | '<=' | '<' | '=';
+
+export interface ApprovalTriggerCondition {
+  field: string;
+  operator: ApprovalOperator;
+  value: string | number;
+}
+
+export interface ApprovalStep {
+  step: number;
+  role: string;
+  user_id?: string;
+}
+
+export interface ApprovalWorkflowDefinition {
+  id: string;
+  name: string;
+  entity_type: string;
+  trigger_conditions: ApprovalTriggerCondition | null;
+  approval_steps: ApprovalStep[];
+  is_enabled: boolean | null;
+}
+
+type RecordValues = Record<string, unknown>;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+export const evaluateTriggerCondition = (
+  condition: ApprovalTriggerCondition,
+  value: unknown
+): boolean => {
+  if (isEmpty(value)) return false;
+
+  if (condition.operator === '=') {
+    return String(value).trim().toLowerCase() === String(condition.value).trim().toLowerCase();
+  }
+
+  const actual = Number(value);
+  const expected = Number(condition.value);
+  if (Number.isNaN(actual) || Number.isNaN(expected)) return false;
+
+  switch (condition.operator) {
+    case '>=': return actual >= expected;
+    case '>': return actual > expected;
+    case '<=': return actual <= expected;
+    case '<': return actual < expected;
+    default: return false;
+  }
+};
+
+/**
+ * Returns the first enabled workflow whose trigger field is being changed by `changes`
+ * and whose condition holds for the new value. Edits that leave the trigger field
+ * untouched never require approval, so a large deal can still have its notes updated.
+ */
+export const findTriggeredWorkflow = (
+  workflows: ApprovalWorkflowDefinition[],
+  changes: RecordValues,
+  existing: RecordValues = {}
+): ApprovalWorkflowDefinition | null => {
+  for (const workflow of workflows) {
+    const condition = workflow.trigger_conditions;
+    if (!workflow.is_enabled || !condition?.field) continue;
+    if (!(condition.field in changes)) continue;
+
+    const newValue = changes[condition.field];
+    if (String(newValue ?? '') === String(existing[condition.field] ?? '')) continue;
+
+    if (evaluateTriggerCondition(condition, newValue)) {
+      return workflow;
+    }
+  }
+  return null;
+};
+
+// JSON columns (e.g. custom_fields) would all stringify to "[object Object]", so objects compare as
+// JSON with sorted keys - Postgres does not keep the key order the client sent
+const toComparable = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return String(value ?? '');
+  if (Array.isArray(value)) return `[${value.map(toComparable).join(',')}]`;
+  const entries = Object.keys(value).sort().map(key => `${key}:${toComparable((value as RecordValues)[key])}`);
+  return `{${entries.join(',')}}`;
+};
+
+// Save handlers stamp these on every write; parked with a request they would be applied with the requester's stale values
+const BOOKKEEPING_FIELDS = new Set(['modified_at', 'modified_by', 'modified_time', 'updated_at']);
+
+// Only keep fields whose value actually differs from the stored record
+export const getChangedFields = (changes: RecordValues, existing: RecordValues = {}) => {
+  const proposed: RecordValues = {};
+  const previous: RecordValues = {};
+
+  Object.keys(changes).forEach(key => {
+    if (BOOKKEEPING_FIELDS.has(key)) return;
+    if (toComparable(changes[key]) !== toComparable(existing[key])) {
+      proposed[key] = changes[key];
+      previous[key] = existing[key] ?? null;
+    }
+  });
+
+  return { proposed, previous };
+};
+
+// Requests whose workflow was deleted or has no steps are left to an admin, as act_on_approval_request does
+export const FALLBACK_APPROVAL_STEP: ApprovalStep = { step: 1, role: 'admin' };
+
+export const getStepRoleLabel = (step?: ApprovalStep | null) => {
+  if (!step) return '-';
+  if (step.user_id) return 'Assigned user';
+  return step.role.charAt(0).toUpperCase() + step.role.slice(1);
+};
+
+// Client-side mirror of can_act_on_approval_step, used to filter the approvals inbox
+export const canActOnStep = (
+  step: ApprovalStep | null | undefined,
+  userRole: string,
+  userId?: string | null
+): boolean => {
+  if (!step || !userId) return false;
+  if (userRole === 'admin') return true;
+  if (step.user_id) return step.user_id === userId;
+  return step.role === 'manager' && userRole === 'manager';
+};
+
+// The name shown on an approval request, matching what the deal, lead and account save paths pass
+export const getApprovalRecordName = (entityType: ApprovalEntityType, record: RecordValues): string | null => {
+  const name = entityType === 'deals'
+    ? record.project_name || record.deal_name
+    : entityType === 'leads' ? record.lead_name : record.company_name;
+  return typeof name === 'string' && name ? name : null;
+};
+
+export const getApprovalRecordRoute = (entityType: string, entityId: string) => {
+  switch (entityType) {
+    case 'deals': return `/deals?viewId=${entityId}`;
+    case 'leads': return `/leads?viewId=${entityId}`;
+    case 'accounts': return `/accounts?viewId=${entityId}`;
+    default: return '/dashboard';
+  }
+};
@@ -0,0 +1,141 @@
+export type AuditedTable = 'contacts' | 'deals' | 'leads' | 'accounts' | 'tasks' | 'meetings';
+
+// Inserts, updates and deletes on these tables are written to security_audit_log by database
+// triggers (audit_record_change), whichever path made the change
+export const TRIGGER_AUDITED_TABLES: AuditedTable[] = ['contacts', 'deals', 'leads', 'accounts', 'tasks', 'meetings'];
+
+export const isTriggerAudited = (tableName: string): tableName is AuditedTable =>
+  (TRIGGER_AUDITED_TABLES as string[]).includes(tableName);
+
+// details.source on trigger entries: who made the change. Edge functions name themselves with the
+// x-audit-source header; those without one are recorded as 'edge_function'.
+const AUDIT_SOURCE_LABELS: Record<string, string> = {
+  app: 'CRM app',
+  public: 'Public page',
+  database: 'Database',
+  edge_function: 'Server function',
+  'restore-backup': 'Backup restore',
+  'booking-page': 'Booking page',
+};
+
+export const formatAuditSource = (source: string): string =>
+  AUDIT_SOURCE_LABELS[source] || source.replace(/[-_]/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+type RecordData = Record<string, unknown>;
+
+export interface AuditEntry {
+  id: string;
+  action: string;
+  created_at: string;
+  user_id: string | null;
+  details: {
+    record_data?: RecordData;
+    updated_fields?: RecordData;
+    old_data?: RecordData;
+    field_changes?: Record<string, { old: unknown; new: unknown }>;
+    deleted_data?: RecordData;
+    source?: string;
+  } | null;
+}
+
+export interface RecordVersion {
+  entry: AuditEntry;
+  // The record right after the entry; null once deleted or when the log can't tell
+  snapshot: RecordData | null;
+}
+
+// Old → new values an entry records. Trigger entries carry field_changes; older entries written
+// from the browser may only have updated_fields alongside old_data.
+const entryChanges = (entry: AuditEntry): Record<string, { old: unknown; new: unknown }> => {
+  const details = entry.details;
+  if (!details) return {};
+  if (details.field_changes && typeof details.field_changes === 'object') return details.field_changes;
+  if (details.updated_fields && details.old_data) {
+    return Object.fromEntries(
+      Object.entries(details.updated_fields).map(([field, value]) => [field, { old: details.old_data?.[field], new: value }])
+    );
+  }
+  return {};
+};
+
+/**
+ * The record as it was after each CREATE/UPDATE/DELETE entry, newest first. Works back from the
+ * current row (or the last deleted copy) by undoing each update, so fields that never changed
+ * keep their current values.
+ */
+export const buildRecordVersions = (entries: AuditEntry[], current: RecordData | null): RecordVersion[] => {
+  const newestFirst = [...entries]
+    .filter(entry => ['CREATE', 'UPDATE', 'DELETE'].includes(entry.action))
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+  const versions: RecordVersion[] = [];
+  let state: RecordData | null = current ? { ...current } : null;
+
+  for (const entry of newestFirst) {
+    if (entry.action === 'DELETE') {
+      versions.push({ entry, snapshot: null });
+      state = entry.details?.deleted_data ? { ...entry.details.deleted_data } : state;
+    } else if (entry.action === 'CREATE') {
+      versions.push({ entry, snapshot: state ?? (entry.details?.record_data ? { ...entry.details.record_data } : null) });
+      state = null;
+    } else {
+      versions.push({ entry, snapshot: state ? { ...state } : null });
+      if (state) {
+        for (const [field, change] of Object.entries(entryChanges(entry))) {
+          state[field] = change.old;
+        }
+      }
+    }
+  }
+
+  return versions;
+};
+
+// Never written back when restoring a version; the database keeps these itself
+export const RESTORE_SKIPPED_FIELDS = [
+  'id', 'created_at', 'created_time', 'created_by', 'updated_at', 'modified_at', 'modified_time', 'modified_by',
+  'score', 'score_breakdown', 'score_updated_at', 'email_opens', 'email_clicks', 'engagement_score',
+];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields whose value differs between two versions of a record
+ */
+export const diffRecordVersions = (from: RecordData | null, to: RecordData | null): string[] => {
+  const fields = new Set([...Object.keys(from || {}), ...Object.keys(to || {})]);
+  return [...fields].filter(field => !sameValue(from?.[field], to?.[field]));
+};
+
+/**
+ * The update that takes the current row back to a version
+ */
+export const restorePatch = (current: RecordData, version: RecordData): RecordData =>
+  Object.fromEntries(
+    Object.keys(version)
+      .filter(field => !RESTORE_SKIPPED_FIELDS.includes(field) && field in current && !sameValue(current[field], version[field]))
+      .map(field => [field, version[field]])
+  );
+
+// snake_case column name as Title Case
+export const formatAuditFieldName = (field: string): string =>
+  field
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '(empty)';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
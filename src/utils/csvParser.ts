@@ -1,49 +1,181 @@
-export class CSVParser {
-  static parseCSV(text: string): { headers: string[], rows: string[][] } {
-    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
-    
-    if (lines.length === 0) {
-      return { headers: [], rows: [] };
+export interface ParsedCSV {
+  headers: string[];
+  rows: string[][];
+}
+
+// Delimiters we recognise, in order of preference when counts tie
+export const CSV_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Guess the delimiter from the first record: the candidate that appears most often outside quotes.
+ * Spreadsheets in many European locales save "CSV" with semicolons.
+ */
+export const detectDelimiter = (sample: string): string => {
+  const counts = new Map(CSV_DELIMITERS.map(delimiter => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (const char of sample.replace(/^\uFEFF/, '')) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
     }
+  }
 
-    const headers = this.parseCSVLine(lines[0]);
-    const rows = lines.slice(1).map(line => this.parseCSVLine(line));
-    
-    return { headers, rows };
+  let best = ',';
+  for (const [delimiter, count] of counts) {
+    if (count > counts.get(best)!) best = delimiter;
+  }
+  return best;
+};
+
+/**
+ * RFC 4180 parser that takes the text in chunks, so a file can be read as a stream. Quoted fields
+ * may contain delimiters, line breaks and doubled quotes, and a record may span chunks. Blank
+ * records are skipped and fields are trimmed, as the importers have always expected.
+ */
+export class CSVStreamParser {
+  private delimiter: string | null;
+  private pending = '';
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quoteClosed = false;
+  private skipLineFeed = false;
+  private started = false;
+
+  constructor(private onRecord: (record: string[]) => void, delimiter?: string) {
+    this.delimiter = delimiter || null;
   }
 
-  static parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
+  push(chunk: string) {
+    if (!this.started) {
+      chunk = this.pending + chunk;
+      this.pending = '';
+      if (chunk.charCodeAt(0) === 0xfeff) {
+        chunk = chunk.slice(1);
+      }
+      if (!this.delimiter) {
+        // Wait for the whole first record before guessing the delimiter
+        if (!this.hasCompleteFirstRecord(chunk)) {
+          this.pending = chunk;
+          return;
+        }
+        this.delimiter = detectDelimiter(chunk);
+      }
+      this.started = true;
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      this.consume(chunk[i]);
+    }
+  }
+
+  end() {
+    if (!this.started) {
+      this.started = true;
+      this.delimiter = this.delimiter || detectDelimiter(this.pending);
+      const rest = this.pending.replace(/^\uFEFF/, '');
+      this.pending = '';
+      for (let i = 0; i < rest.length; i++) {
+        this.consume(rest[i]);
+      }
+    }
+    if (this.field !== '' || this.record.length > 0) {
+      this.endRecord();
+    }
+  }
+
+  private hasCompleteFirstRecord(text: string): boolean {
     let inQuotes = false;
-    let i = 0;
+    for (const char of text) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && (char === '\n' || char === '\r')) return true;
+    }
+    return false;
+  }
 
-    while (i < line.length) {
-      const char = line[i];
-      const nextChar = line[i + 1];
+  private consume(char: string) {
+    if (this.skipLineFeed) {
+      this.skipLineFeed = false;
+      if (char === '\n') return;
+    }
 
+    if (this.inQuotes) {
       if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i += 2;
-        } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-          i++;
-        }
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-        i++;
+        this.inQuotes = false;
+        this.quoteClosed = true;
       } else {
-        current += char;
-        i++;
+        this.field += char;
       }
+      return;
     }
-    
-    result.push(current.trim());
-    return result.map(field => field.replace(/^"|"$/g, '')); // Remove surrounding quotes
+
+    if (char === '"') {
+      if (this.quoteClosed) {
+        // "" inside a quoted field is a literal quote
+        this.field += '"';
+        this.inQuotes = true;
+        this.quoteClosed = false;
+      } else if (this.field.trim() === '') {
+        this.field = '';
+        this.inQuotes = true;
+      } else {
+        // Stray quote in an unquoted field; keep it rather than fail the import
+        this.field += char;
+      }
+      return;
+    }
+
+    this.quoteClosed = false;
+    if (char === this.delimiter) {
+      this.endField();
+    } else if (char === '\n' || char === '\r') {
+      this.skipLineFeed = char === '\r';
+      this.endRecord();
+    } else {
+      this.field += char;
+    }
+  }
+
+  private endField() {
+    this.record.push(this.field.trim());
+    this.field = '';
+    this.quoteClosed = false;
+  }
+
+  private endRecord() {
+    this.endField();
+    const record = this.record;
+    this.record = [];
+    if (record.some(field => field !== '')) {
+      this.onRecord(record);
+    }
+  }
+}
+
+export class CSVParser {
+  static parseCSV(text: string, delimiter?: string): ParsedCSV {
+    const records: string[][] = [];
+    const parser = new CSVStreamParser(record => records.push(record), delimiter);
+    parser.push(text);
+    parser.end();
+
+    if (records.length === 0) {
+      return { headers: [], rows: [] };
+    }
+
+    return { headers: records[0], rows: records.slice(1) };
+  }
+
+  static parseCSVLine(line: string, delimiter = ','): string[] {
+    let result: string[] = [];
+    const parser = new CSVStreamParser(record => { result = record; }, delimiter);
+    parser.push(line);
+    parser.end();
+    return result;
   }
 
   static toCSV(data: any[], headers: string[]): string {
@@ -67,7 +199,7 @@ export class CSVParser {
   static escapeCSVField(field: string): string {
     const str = String(field || '');
     // If field contains comma, quote, or newline, wrap in quotes and escape quotes
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
       return `"${str.replace(/"/g, '""')}"`;
     }
     return str;
@@ -0,0 +1,189 @@
+import { parse, isValid, format } from 'date-fns';
+import { GLOBAL_DATE_FORMAT } from '@/utils/dateFormatUtils';
+
+// Admin-defined custom fields (crm_custom_fields). Values live in each record's custom_fields JSONB,
+// keyed by field_name.
+
+export const CUSTOM_FIELD_ENTITIES = ['lead', 'contact', 'account', 'deal'] as const;
+export type CustomFieldEntity = typeof CUSTOM_FIELD_ENTITIES[number];
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'select', 'multiselect', 'boolean'] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Dropdown',
+  multiselect: 'Multi-select',
+  boolean: 'Yes / No',
+};
+
+export interface CustomFieldDefinition {
+  id: string;
+  entity_type: CustomFieldEntity;
+  field_name: string;
+  field_label: string;
+  field_type: CustomFieldType;
+  options: string[];
+  is_required: boolean;
+  is_visible: boolean;
+  display_order: number;
+}
+
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Column keys for custom fields are namespaced so they never collide with built-in columns
+const CUSTOM_COLUMN_PREFIX = 'custom_fields.';
+
+export const toCustomFieldColumn = (fieldName: string) => `${CUSTOM_COLUMN_PREFIX}${fieldName}`;
+
+export const parseCustomFieldColumn = (column: string): string | null =>
+  column.startsWith(CUSTOM_COLUMN_PREFIX) ? column.slice(CUSTOM_COLUMN_PREFIX.length) : null;
+
+// "Renewal Date" -> "renewal_date"
+export const toCustomFieldName = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+/, '')
+    .replace(/_+$/, '');
+
+// field_options is stored either as a plain array or as { options: [...] }
+export const getCustomFieldOptions = (fieldOptions: unknown): string[] => {
+  const raw = Array.isArray(fieldOptions)
+    ? fieldOptions
+    : fieldOptions && typeof fieldOptions === 'object' && Array.isArray((fieldOptions as { options?: unknown }).options)
+      ? (fieldOptions as { options: unknown[] }).options
+      : [];
+  return raw.map(option => String(option).trim()).filter(Boolean);
+};
+
+export const getCustomFieldValues = (record?: { custom_fields?: unknown } | null): CustomFieldValues => {
+  const values = record?.custom_fields;
+  return values && typeof values === 'object' && !Array.isArray(values) ? { ...(values as CustomFieldValues) } : {};
+};
+
+export const isEmptyCustomFieldValue = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Returns an error message, or null when the value is acceptable for the field type
+export const validateCustomFieldValue = (field: CustomFieldDefinition, value: unknown): string | null => {
+  if (isEmptyCustomFieldValue(value)) {
+    return field.is_required && field.field_type !== 'boolean' ? `${field.field_label} is required` : null;
+  }
+
+  switch (field.field_type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? null : `${field.field_label} must be a number`;
+    case 'date':
+      return isValid(parse(String(value), 'yyyy-MM-dd', new Date())) ? null : `${field.field_label} must be a valid date`;
+    case 'select':
+      return field.options.includes(String(value)) ? null : `${field.field_label} must be one of: ${field.options.join(', ')}`;
+    case 'multiselect': {
+      const invalid = (Array.isArray(value) ? value : [value]).filter(v => !field.options.includes(String(v)));
+      return invalid.length === 0 ? null : `${field.field_label} has invalid options: ${invalid.join(', ')}`;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field.field_label} must be yes or no`;
+    default:
+      return null;
+  }
+};
+
+export const validateCustomFields = (fields: CustomFieldDefinition[], values: CustomFieldValues) => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const error = validateCustomFieldValue(field, values[field.field_name]);
+    if (error) errors[field.field_name] = error;
+  });
+  return errors;
+};
+
+// Drops empty values and coerces numbers so the stored JSON is typed consistently
+export const normalizeCustomFieldValues = (fields: CustomFieldDefinition[], values: CustomFieldValues): CustomFieldValues => {
+  const normalized: CustomFieldValues = { ...values };
+  fields.forEach(field => {
+    const value = values[field.field_name];
+    if (isEmptyCustomFieldValue(value)) {
+      delete normalized[field.field_name];
+    } else if (field.field_type === 'number') {
+      normalized[field.field_name] = Number(value);
+    }
+  });
+  return normalized;
+};
+
+const DATE_INPUT_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd-MM-yyyy', 'MM/dd/yyyy'];
+
+// Converts a CSV cell into a typed value; throws with a readable message when it does not fit the field
+export const parseCustomFieldInput = (field: CustomFieldDefinition, raw: string): CustomFieldValue => {
+  const text = raw.trim();
+  if (!text) return null;
+
+  let value: CustomFieldValue = text;
+  switch (field.field_type) {
+    case 'number':
+      value = Number(text.replace(/,/g, ''));
+      break;
+    case 'date': {
+      const parsed = DATE_INPUT_FORMATS.map(f => parse(text, f, new Date())).find(d => isValid(d));
+      value = parsed ? format(parsed, 'yyyy-MM-dd') : text;
+      break;
+    }
+    case 'select':
+      value = field.options.find(o => o.toLowerCase() === text.toLowerCase()) || text;
+      break;
+    case 'multiselect':
+      value = text
+        .split(/[;|]/)
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(part => field.options.find(o => o.toLowerCase() === part.toLowerCase()) || part);
+      break;
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (['true', 'yes', 'y', '1'].includes(lower)) value = true;
+      else if (['false', 'no', 'n', '0'].includes(lower)) value = false;
+      break;
+    }
+  }
+
+  const error = validateCustomFieldValue(field, value);
+  if (error) throw new Error(error);
+  return value;
+};
+
+// Plain-text rendering used by table cells; CSV export keeps ISO dates so files round-trip
+export const formatCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: unknown,
+  target: 'display' | 'csv' = 'display'
+): string => {
+  if (isEmptyCustomFieldValue(value)) return '';
+
+  switch (field.field_type) {
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'multiselect':
+      return (Array.isArray(value) ? value : [value]).join('; ');
+    case 'date': {
+      // Parse as a local calendar date; new Date('yyyy-MM-dd') would shift it across timezones
+      const date = parse(String(value), 'yyyy-MM-dd', new Date());
+      return target === 'csv' || !isValid(date) ? String(value) : format(date, GLOBAL_DATE_FORMAT);
+    }
+    default:
+      return String(value);
+  }
+};
+
+// Reads a table column value, resolving custom field columns from the record's custom_fields
+export const getColumnValue = <T extends { custom_fields?: unknown }>(
+  record: T,
+  column: string
+): T[keyof T] | CustomFieldValue | undefined => {
+  const fieldName = parseCustomFieldColumn(column);
+  return fieldName ? getCustomFieldValues(record)[fieldName] : record[column as keyof T];
+};
@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Addresses send-email refuses to mail. Rows come from the unsubscribe page, from hard bounces
+// (a trigger on email_history) and from the suppression list in Settings → Email Center.
+
+export type SuppressionReason = 'unsubscribed' | 'hard_bounce' | 'manual';
+
+export const SUPPRESSION_REASON_LABELS: Record<SuppressionReason, string> = {
+  unsubscribed: 'Unsubscribed',
+  hard_bounce: 'Hard bounce',
+  manual: 'Suppressed manually',
+};
+
+// The list stores addresses lowercase
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Which of these addresses are suppressed, keyed by normalized address
+ */
+export const fetchSuppressions = async (emails: string[]): Promise<Map<string, SuppressionReason>> => {
+  const addresses = [...new Set(emails.filter(Boolean).map(normalizeEmail))];
+  const suppressed = new Map<string, SuppressionReason>();
+  if (addresses.length === 0) return suppressed;
+
+  // Keep each request's URL short for large bulk sends
+  for (let i = 0; i < addresses.length; i += 200) {
+    const { data, error } = await supabase
+      .from('email_suppressions')
+      .select('email, reason')
+      .in('email', addresses.slice(i, i + 200));
+    if (error) throw error;
+    (data || []).forEach(row => suppressed.set(row.email, row.reason as SuppressionReason));
+  }
+
+  return suppressed;
+};
@@ -0,0 +1,228 @@
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { formatCurrency } from '@/utils/formatUtils';
+import { DEFAULT_DEAL_CURRENCY } from '@/utils/currencyConversion';
+import type { TemplateContext } from '@/utils/emailTemplateEngine';
+
+// Loads the values behind TEMPLATE_VARIABLES for leads, contacts and accounts.
+// Bulk sends load every recipient in a handful of queries rather than one set per recipient.
+
+export type TemplateEntityType = 'lead' | 'contact' | 'account';
+
+export interface TemplateRecordRef {
+  type: TemplateEntityType;
+  id: string;
+}
+
+interface AccountRow {
+  id: string;
+  company_name: string;
+  industry: string | null;
+  website: string | null;
+  country: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+interface DealRow {
+  deal_name: string;
+  stage: string;
+  total_contract_value: number | null;
+  currency_type: string | null;
+  expected_closing_date: string | null;
+  account_id: string | null;
+  contact_id: string | null;
+}
+
+const CLOSED_STAGES = ['Won', 'Lost', 'Dropped'];
+const DISPLAY_DATE = 'dd MMM yyyy';
+
+export const recordKey = (record: TemplateRecordRef) => `${record.type}:${record.id}`;
+
+const splitName = (fullName: string | null | undefined) => {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  return { first: parts[0] || '', last: parts.slice(1).join(' ') };
+};
+
+/**
+ * Base values when only a display name and email are known
+ */
+export const nameContext = (name: string | null | undefined, email?: string | null): TemplateContext => {
+  const { first, last } = splitName(name);
+  return {
+    name,
+    contact_name: name,
+    first_name: first,
+    last_name: last,
+    email,
+    today: format(new Date(), DISPLAY_DATE),
+  };
+};
+
+const accountContext = (account: AccountRow | undefined): TemplateContext =>
+  account
+    ? {
+        account_name: account.company_name,
+        account_industry: account.industry,
+        account_website: account.website,
+        account_country: account.country,
+      }
+    : {};
+
+const dealContext = (deal: DealRow | undefined): TemplateContext =>
+  deal
+    ? {
+        deal_name: deal.deal_name,
+        deal_stage: deal.stage,
+        deal_value: deal.total_contract_value !== null
+          ? formatCurrency(deal.total_contract_value, deal.currency_type || DEFAULT_DEAL_CURRENCY)
+          : null,
+        deal_closing_date: deal.expected_closing_date
+          ? format(new Date(deal.expected_closing_date), DISPLAY_DATE)
+          : null,
+      }
+    : {};
+
+// Prefer the most recently modified open deal, falling back to the latest closed one
+const pickDeal = (deals: DealRow[], match: (deal: DealRow) => boolean) => {
+  const related = deals.filter(match);
+  return related.find(deal => !CLOSED_STAGES.includes(deal.stage)) || related[0];
+};
+
+/**
+ * Template values for each record, keyed by recordKey(); records that no longer exist are left out
+ */
+export const fetchRecordContexts = async (records: TemplateRecordRef[]): Promise<Record<string, TemplateContext>> => {
+  const idsOf = (type: TemplateEntityType) => [...new Set(records.filter(r => r.type === type).map(r => r.id))];
+  const leadIds = idsOf('lead');
+  const contactIds = idsOf('contact');
+
+  const [leadsRes, contactsRes] = await Promise.all([
+    leadIds.length
+      ? supabase
+          .from('leads')
+          .select('id, lead_name, email, phone_no, position, company_name, website, industry, account_id')
+          .in('id', leadIds)
+      : Promise.resolve({ data: [], error: null }),
+    contactIds.length
+      ? supabase
+          .from('contacts')
+          .select('id, contact_name, email, phone_no, position, company_name, website, industry, account_id')
+          .in('id', contactIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (leadsRes.error) throw leadsRes.error;
+  if (contactsRes.error) throw contactsRes.error;
+
+  const leads = leadsRes.data || [];
+  const contacts = contactsRes.data || [];
+
+  const accountIds = [
+    ...new Set([
+      ...idsOf('account'),
+      ...leads.map(l => l.account_id),
+      ...contacts.map(c => c.account_id),
+    ].filter((id): id is string => !!id)),
+  ];
+
+  const dealFilters = [
+    accountIds.length ? `account_id.in.(${accountIds.join(',')})` : null,
+    contactIds.length ? `contact_id.in.(${contactIds.join(',')})` : null,
+  ].filter(Boolean);
+
+  const [accountsRes, dealsRes] = await Promise.all([
+    accountIds.length
+      ? supabase
+          .from('accounts')
+          .select('id, company_name, industry, website, country, email, phone')
+          .in('id', accountIds)
+      : Promise.resolve({ data: [], error: null }),
+    dealFilters.length
+      ? supabase
+          .from('deals')
+          .select('deal_name, stage, total_contract_value, currency_type, expected_closing_date, account_id, contact_id')
+          .or(dealFilters.join(','))
+          .order('modified_at', { ascending: false })
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (accountsRes.error) throw accountsRes.error;
+  if (dealsRes.error) throw dealsRes.error;
+
+  const accounts = new Map((accountsRes.data as AccountRow[] || []).map(a => [a.id, a]));
+  const deals = (dealsRes.data || []) as DealRow[];
+  const contexts: Record<string, TemplateContext> = {};
+
+  leads.forEach(lead => {
+    const account = lead.account_id ? accounts.get(lead.account_id) : undefined;
+    contexts[recordKey({ type: 'lead', id: lead.id })] = {
+      ...nameContext(lead.lead_name, lead.email),
+      lead_name: lead.lead_name,
+      phone: lead.phone_no,
+      position: lead.position,
+      company_name: lead.company_name || account?.company_name,
+      website: lead.website,
+      industry: lead.industry,
+      ...accountContext(account),
+      ...dealContext(account ? pickDeal(deals, d => d.account_id === account.id) : undefined),
+    };
+  });
+
+  contacts.forEach(contact => {
+    const account = contact.account_id ? accounts.get(contact.account_id) : undefined;
+    contexts[recordKey({ type: 'contact', id: contact.id })] = {
+      ...nameContext(contact.contact_name, contact.email),
+      phone: contact.phone_no,
+      position: contact.position,
+      company_name: contact.company_name || account?.company_name,
+      website: contact.website,
+      industry: contact.industry,
+      ...accountContext(account),
+      ...dealContext(
+        pickDeal(deals, d => d.contact_id === contact.id) ||
+        (account ? pickDeal(deals, d => d.account_id === account.id) : undefined)
+      ),
+    };
+  });
+
+  idsOf('account').forEach(id => {
+    const account = accounts.get(id);
+    if (!account) return;
+    contexts[recordKey({ type: 'account', id })] = {
+      ...nameContext(account.company_name, account.email),
+      phone: account.phone,
+      company_name: account.company_name,
+      website: account.website,
+      industry: account.industry,
+      ...accountContext(account),
+      ...dealContext(pickDeal(deals, d => d.account_id === id)),
+    };
+  });
+
+  return contexts;
+};
+
+/**
+ * Sender values from the user's profile and email signature preference
+ */
+export const fetchSenderContext = async (userId: string | undefined, senderEmail: string): Promise<TemplateContext> => {
+  if (!userId) return { sender_email: senderEmail };
+
+  const [profileRes, preferencesRes] = await Promise.all([
+    supabase.from('profiles').select('full_name, phone').eq('id', userId).maybeSingle(),
+    supabase.from('user_preferences').select('email_signature').eq('user_id', userId).maybeSingle(),
+  ]);
+
+  if (profileRes.error) console.warn('Error fetching sender profile:', profileRes.error);
+  if (preferencesRes.error) console.warn('Error fetching email signature:', preferencesRes.error);
+
+  const fullName = profileRes.data?.full_name || '';
+  return {
+    sender_name: fullName,
+    sender_first_name: splitName(fullName).first,
+    sender_email: senderEmail,
+    sender_phone: profileRes.data?.phone,
+    signature: preferencesRes.data?.email_signature,
+  };
+};
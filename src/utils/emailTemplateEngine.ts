@@ -0,0 +1,123 @@
+// Email template rendering shared by single send, bulk send and the template preview.
+// Syntax:
+//   {{first_name}}              variable
+//   {{first_name|there}}        variable with a fallback when it is empty
+//   {{#if deal_stage}}...{{else}}...{{/if}}   section shown when the variable has a value
+//   {{#unless phone}}...{{/unless}}           section shown when it is empty
+// Keep the rendering in sync with supabase/functions/process-email-sequences.
+
+export type TemplateValue = string | number | null | undefined;
+export type TemplateContext = Record<string, TemplateValue>;
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  group: 'Recipient' | 'Account' | 'Deal' | 'Sender' | 'Other';
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'name', description: "Recipient's full name", group: 'Recipient' },
+  { name: 'first_name', description: "Recipient's first name", group: 'Recipient' },
+  { name: 'last_name', description: "Recipient's last name", group: 'Recipient' },
+  { name: 'contact_name', description: "Recipient's full name", group: 'Recipient' },
+  { name: 'lead_name', description: "Lead's name", group: 'Recipient' },
+  { name: 'email', description: "Recipient's email", group: 'Recipient' },
+  { name: 'phone', description: "Recipient's phone", group: 'Recipient' },
+  { name: 'position', description: "Recipient's position", group: 'Recipient' },
+  { name: 'company_name', description: 'Company name', group: 'Recipient' },
+  { name: 'website', description: 'Company website', group: 'Recipient' },
+  { name: 'industry', description: 'Industry', group: 'Recipient' },
+  { name: 'account_name', description: 'Linked account name', group: 'Account' },
+  { name: 'account_industry', description: "Linked account's industry", group: 'Account' },
+  { name: 'account_website', description: "Linked account's website", group: 'Account' },
+  { name: 'account_country', description: "Linked account's country", group: 'Account' },
+  { name: 'deal_name', description: 'Most recent open deal', group: 'Deal' },
+  { name: 'deal_stage', description: "Deal's stage", group: 'Deal' },
+  { name: 'deal_value', description: "Deal's contract value", group: 'Deal' },
+  { name: 'deal_closing_date', description: "Deal's expected closing date", group: 'Deal' },
+  { name: 'sender_name', description: 'Your full name', group: 'Sender' },
+  { name: 'sender_first_name', description: 'Your first name', group: 'Sender' },
+  { name: 'sender_email', description: 'Your email', group: 'Sender' },
+  { name: 'sender_phone', description: 'Your phone', group: 'Sender' },
+  { name: 'signature', description: 'Your email signature', group: 'Sender' },
+  { name: 'today', description: "Today's date", group: 'Other' },
+];
+
+// Values inserted as HTML rather than escaped text
+const HTML_VARIABLES = new Set(['signature']);
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_][a-z0-9_]*)\s*(?:\|([^}]*))?\}\}/gi;
+// Innermost section first: the body may not contain another opening tag
+const SECTION_PATTERN = /\{\{#(if|unless)\s+([a-z_][a-z0-9_]*)\s*\}\}((?:(?!\{\{#(?:if|unless)\b)[\s\S])*?)\{\{\/\1\}\}/i;
+// The rich text editor puts block tags on their own paragraph; drop the wrapper so no empty line is left
+const BLOCK_TAG_PARAGRAPH = /<p[^>]*>\s*(\{\{(?:#(?:if|unless)\s+[a-z0-9_]+|else|\/(?:if|unless))\s*\}\})\s*(?:<br\s*\/?>)?\s*<\/p>/gi;
+
+export interface RenderOptions {
+  // Escape values for an HTML body; subjects are plain text
+  html?: boolean;
+}
+
+export interface RenderResult {
+  output: string;
+  // Variables that rendered empty and had no fallback, including unknown names
+  unresolved: string[];
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const valueOf = (context: TemplateContext, name: string): string => {
+  const value = context[name.toLowerCase()];
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+export const hasValue = (context: TemplateContext, name: string): boolean => valueOf(context, name) !== '';
+
+export const renderTemplate = (text: string, context: TemplateContext, options: RenderOptions = {}): RenderResult => {
+  if (!text) return { output: '', unresolved: [] };
+
+  const unresolved = new Set<string>();
+  let output = options.html ? text.replace(BLOCK_TAG_PARAGRAPH, '$1') : text;
+
+  let section = output.match(SECTION_PATTERN);
+  while (section) {
+    const [whole, kind, name, inner] = section;
+    const [whenTrue, whenFalse = ''] = inner.split(/\{\{\s*else\s*\}\}/i);
+    const show = kind.toLowerCase() === 'if' ? hasValue(context, name) : !hasValue(context, name);
+    output = output.replace(whole, () => (show ? whenTrue : whenFalse));
+    section = output.match(SECTION_PATTERN);
+  }
+
+  output = output.replace(VARIABLE_PATTERN, (_match, rawName: string, fallback?: string) => {
+    const name = rawName.toLowerCase();
+    const value = valueOf(context, name);
+
+    if (value === '') {
+      // The fallback is template text, already HTML in a body
+      if (fallback !== undefined) return fallback.trim();
+      unresolved.add(name);
+      return '';
+    }
+
+    return options.html && !HTML_VARIABLES.has(name) ? escapeHtml(value) : value;
+  });
+
+  return { output, unresolved: [...unresolved] };
+};
+
+/**
+ * Renders a subject and HTML body together, merging their unresolved variables
+ */
+export const renderEmail = (subject: string, body: string, context: TemplateContext) => {
+  const renderedSubject = renderTemplate(subject, context);
+  const renderedBody = renderTemplate(body, context, { html: true });
+  return {
+    subject: renderedSubject.output,
+    body: renderedBody.output,
+    unresolved: [...new Set([...renderedSubject.unresolved, ...renderedBody.unresolved])],
+  };
+};
@@ -0,0 +1,190 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Groups a record's sent emails and the replies to them into conversations.
+// Emails share a conversation through email_history.thread_id (the Graph conversationId);
+// older emails without one form a conversation of their own.
+
+export type ThreadEntityType = 'lead' | 'contact' | 'account';
+
+export interface ThreadMessage {
+  id: string;
+  direction: 'sent' | 'received';
+  fromEmail: string;
+  fromName: string | null;
+  toEmail: string | null;
+  toName: string | null;
+  subject: string;
+  // Sent messages are our own HTML; received ones are plain text from the recipient
+  html: string | null;
+  text: string | null;
+  at: string;
+  status: string | null;
+  // The email_history row this message is, or answers
+  emailHistoryId: string;
+  replyId: string | null;
+}
+
+export interface EmailThread {
+  key: string;
+  subject: string;
+  messages: ThreadMessage[];
+  lastActivityAt: string;
+  // Entity the first email was sent to, so replies stay linked to the same record
+  entity: { type: ThreadEntityType; id: string } | null;
+  mailbox: string;
+}
+
+interface SentRow {
+  id: string;
+  thread_id: string | null;
+  subject: string;
+  body: string | null;
+  sender_email: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  status: string;
+  sent_at: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  account_id: string | null;
+}
+
+interface ReplyRow {
+  id: string;
+  email_history_id: string;
+  from_email: string;
+  from_name: string | null;
+  subject: string | null;
+  body: string | null;
+  body_preview: string | null;
+  received_at: string;
+}
+
+const REPLY_PREFIX = /^\s*((re|fw|fwd|aw|sv)\s*:\s*)+/i;
+
+export const baseSubject = (subject: string | null | undefined) => (subject || '').replace(REPLY_PREFIX, '').trim();
+
+export const replySubject = (subject: string | null | undefined) => `Re: ${baseSubject(subject) || '(no subject)'}`;
+
+const entityOf = (row: SentRow): EmailThread['entity'] =>
+  row.lead_id ? { type: 'lead', id: row.lead_id }
+    : row.contact_id ? { type: 'contact', id: row.contact_id }
+    : row.account_id ? { type: 'account', id: row.account_id }
+    : null;
+
+const buildThreads = (sent: SentRow[], replies: ReplyRow[]): EmailThread[] => {
+  const threads = new Map<string, EmailThread>();
+  const keyByEmail = new Map<string, string>();
+
+  [...sent]
+    .sort((a, b) => a.sent_at.localeCompare(b.sent_at))
+    .forEach(row => {
+      const key = row.thread_id || row.id;
+      keyByEmail.set(row.id, key);
+
+      let thread = threads.get(key);
+      if (!thread) {
+        thread = {
+          key,
+          subject: baseSubject(row.subject) || '(no subject)',
+          messages: [],
+          lastActivityAt: row.sent_at,
+          entity: entityOf(row),
+          mailbox: row.sender_email,
+        };
+        threads.set(key, thread);
+      }
+
+      thread.messages.push({
+        id: row.id,
+        direction: 'sent',
+        fromEmail: row.sender_email,
+        fromName: null,
+        toEmail: row.recipient_email,
+        toName: row.recipient_name,
+        subject: row.subject,
+        html: row.body,
+        text: null,
+        at: row.sent_at,
+        status: row.status,
+        emailHistoryId: row.id,
+        replyId: null,
+      });
+    });
+
+  replies.forEach(reply => {
+    const thread = threads.get(keyByEmail.get(reply.email_history_id) || '');
+    if (!thread) return;
+
+    thread.messages.push({
+      id: reply.id,
+      direction: 'received',
+      fromEmail: reply.from_email,
+      fromName: reply.from_name,
+      toEmail: null,
+      toName: null,
+      subject: reply.subject || thread.subject,
+      html: null,
+      text: reply.body || reply.body_preview,
+      at: reply.received_at,
+      status: null,
+      emailHistoryId: reply.email_history_id,
+      replyId: reply.id,
+    });
+  });
+
+  threads.forEach(thread => {
+    thread.messages.sort((a, b) => a.at.localeCompare(b.at));
+    thread.lastActivityAt = thread.messages[thread.messages.length - 1].at;
+  });
+
+  return [...threads.values()].sort((a, b) => b.lastActivityAt.localeCompare(a.lastActivityAt));
+};
+
+/**
+ * Conversations for a record; an account's also include those with its contacts
+ */
+export const fetchEntityThreads = async (entityType: ThreadEntityType, entityId: string): Promise<EmailThread[]> => {
+  let filter = `${entityType}_id.eq.${entityId}`;
+
+  if (entityType === 'account') {
+    const { data: contacts, error } = await supabase.from('contacts').select('id').eq('account_id', entityId);
+    if (error) throw error;
+    if (contacts && contacts.length > 0) {
+      filter += `,contact_id.in.(${contacts.map(c => c.id).join(',')})`;
+    }
+  }
+
+  const { data: sent, error: sentError } = await supabase
+    .from('email_history')
+    .select('id, thread_id, subject, body, sender_email, recipient_email, recipient_name, status, sent_at, lead_id, contact_id, account_id')
+    .or(filter)
+    .order('sent_at', { ascending: false })
+    .limit(500);
+  if (sentError) throw sentError;
+
+  const sentRows = (sent || []) as SentRow[];
+  if (sentRows.length === 0) return [];
+
+  const { data: replies, error: repliesError } = await supabase
+    .from('email_replies')
+    .select('id, email_history_id, from_email, from_name, subject, body, body_preview, received_at')
+    .in('email_history_id', sentRows.map(row => row.id));
+  if (repliesError) throw repliesError;
+
+  return buildThreads(sentRows, (replies || []) as ReplyRow[]);
+};
+
+/**
+ * The message an in-thread reply answers: the latest one from the other side, else our latest email
+ */
+export const replyTarget = (thread: EmailThread) => {
+  const latest = [...thread.messages].reverse();
+  const received = latest.find(m => m.direction === 'received');
+  if (received) {
+    return { to: received.fromEmail, toName: received.fromName, replyToReplyId: received.replyId!, replyToEmailId: undefined };
+  }
+
+  const sent = latest.find(m => m.direction === 'sent')!;
+  return { to: sent.toEmail || '', toName: sent.toName, replyToReplyId: undefined, replyToEmailId: sent.emailHistoryId };
+};
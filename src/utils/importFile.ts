@@ -0,0 +1,79 @@
+import { CSVParser, type ParsedCSV } from './csvParser';
+import { listXlsxSheets, readXlsxSheet } from './xlsxReader';
+
+// For the accept attribute of import file inputs
+export const IMPORT_FILE_ACCEPT = '.csv,.xlsx';
+
+export const isSpreadsheetFile = (file: File): boolean => file.name.toLowerCase().endsWith('.xlsx');
+
+export const isImportFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.csv') || isSpreadsheetFile(file);
+
+export interface ImportWorkerRequest {
+  file: File;
+  sheet?: string;
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'rows'; rows: string[][] }
+  | { type: 'done'; headers: string[] }
+  | { type: 'error'; message: string };
+
+export interface ReadImportFileOptions {
+  // Workbook sheet to read; the first sheet when not given
+  sheet?: string;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// Sheet names of an .xlsx workbook, so the user can pick one before importing
+export const listImportSheets = (file: File): Promise<string[]> => listXlsxSheets(file);
+
+const readOnMainThread = async (file: File, options: ReadImportFileOptions): Promise<ParsedCSV> => {
+  const result = isSpreadsheetFile(file) ? await readXlsxSheet(file, options.sheet) : CSVParser.parseCSV(await file.text());
+  options.onProgress?.(file.size, file.size);
+  return result;
+};
+
+/**
+ * Parse a CSV or .xlsx import file into a header row and data rows. The file is read in a worker:
+ * CSVs are streamed from disk, and rows come back in chunks as they are parsed, so the worker never
+ * holds a second copy of the file. The whole file still ends up in the returned rows.
+ */
+export const readImportFile = (file: File, options: ReadImportFileOptions = {}): Promise<ParsedCSV> => {
+  if (typeof Worker === 'undefined') {
+    return readOnMainThread(file, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const rows: string[][] = [];
+    const worker = new Worker(new URL('../workers/importFile.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        options.onProgress?.(message.loaded, message.total);
+        return;
+      }
+      if (message.type === 'rows') {
+        for (const row of message.rows) rows.push(row);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve({ headers: message.headers, rows });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      console.error('Import worker failed, parsing on the main thread instead:', event.message);
+      readOnMainThread(file, options).then(resolve, reject);
+    };
+
+    const request: ImportWorkerRequest = { file, sheet: options.sheet };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,95 @@
+import { addDays } from 'date-fns';
+import { fromZonedTime, toZonedTime } from 'date-fns-tz';
+
+// Free/busy maths for the scheduling assistant in MeetingModal. Times are epoch milliseconds so
+// attendees in different timezones can be compared directly.
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export interface BusyInterval extends TimeInterval {
+  source: 'crm' | 'outlook';
+  title?: string;
+}
+
+export interface AttendeeSchedule {
+  email: string;
+  name: string;
+  timezone: string;
+  busy: BusyInterval[];
+  working: TimeInterval[];
+}
+
+// Working hours aren't stored per user, so everyone is assumed to work 9 to 5, Monday to Friday,
+// in their profile timezone
+export const WORKING_HOURS = { start: 9, end: 17 };
+
+// Same fallback the profile settings use when no timezone was saved
+export const DEFAULT_PROFILE_TIMEZONE = 'Asia/Kolkata';
+
+export const SLOT_STEP_MINUTES = 15;
+
+const MINUTE_MS = 60 * 1000;
+
+export const overlaps = (a: TimeInterval, b: TimeInterval) => a.start < b.end && b.start < a.end;
+
+/**
+ * The attendee's working hours between from and until, in their own timezone
+ */
+export const getWorkingWindows = (timezone: string, from: number, until: number): TimeInterval[] => {
+  const windows: TimeInterval[] = [];
+  const first = toZonedTime(new Date(from), timezone);
+
+  // Start a day early so a working day that began before `from` in this timezone is included
+  for (let day = new Date(first.getFullYear(), first.getMonth(), first.getDate() - 1); ; day = addDays(day, 1)) {
+    const start = fromZonedTime(
+      new Date(day.getFullYear(), day.getMonth(), day.getDate(), WORKING_HOURS.start), timezone
+    ).getTime();
+    if (start >= until) break;
+
+    const weekday = day.getDay();
+    if (weekday === 0 || weekday === 6) continue;
+
+    const end = fromZonedTime(
+      new Date(day.getFullYear(), day.getMonth(), day.getDate(), WORKING_HOURS.end), timezone
+    ).getTime();
+    if (end > from) windows.push({ start, end });
+  }
+
+  return windows;
+};
+
+export const isWorking = (schedule: AttendeeSchedule, slot: TimeInterval) =>
+  schedule.working.some(window => window.start <= slot.start && slot.end <= window.end);
+
+export const isBusy = (schedule: AttendeeSchedule, slot: TimeInterval) =>
+  schedule.busy.some(block => overlaps(block, slot));
+
+/**
+ * The first free slots of the given length that fall inside every attendee's working hours.
+ * Suggestions don't overlap each other.
+ */
+export const findFreeSlots = (
+  schedules: AttendeeSchedule[],
+  from: number,
+  until: number,
+  durationMinutes: number,
+  limit = 5
+): TimeInterval[] => {
+  const step = SLOT_STEP_MINUTES * MINUTE_MS;
+  const duration = durationMinutes * MINUTE_MS;
+  const slots: TimeInterval[] = [];
+  if (schedules.length === 0 || duration <= 0) return slots;
+
+  for (let start = Math.ceil(from / step) * step; start + duration <= until && slots.length < limit; start += step) {
+    const slot = { start, end: start + duration };
+    if (schedules.every(schedule => isWorking(schedule, slot) && !isBusy(schedule, slot))) {
+      slots.push(slot);
+      start = slot.end - step;
+    }
+  }
+
+  return slots;
+};
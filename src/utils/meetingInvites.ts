@@ -0,0 +1,52 @@
+// Calendar (.ics) invites for meetings that don't use Teams. Every invited address is an entry in
+// meetings.attendees; send-meeting-invite emails the invite and meeting-rsvp records each answer.
+
+export type MeetingInviteMethod = 'teams' | 'ics';
+
+export type MeetingRsvpResponse = 'needs_action' | 'accepted' | 'tentative' | 'declined';
+
+export interface MeetingAttendee {
+  email: string;
+  name?: string;
+  related?: boolean; // the meeting's lead or contact, as opposed to an added participant
+  response?: MeetingRsvpResponse;
+  responded_at?: string | null;
+  rsvp_token?: string;
+}
+
+export const MEETING_RSVP_LABELS: Record<MeetingRsvpResponse, string> = {
+  needs_action: 'Awaiting reply',
+  accepted: 'Accepted',
+  tentative: 'Tentative',
+  declined: 'Declined',
+};
+
+export const parseMeetingAttendees = (attendees: unknown): MeetingAttendee[] =>
+  Array.isArray(attendees)
+    ? (attendees as MeetingAttendee[]).filter(a => a && typeof a.email === 'string' && a.email)
+    : [];
+
+/**
+ * The attendee list to save for an .ics meeting. Attendees already invited keep their RSVP link;
+ * their answers are kept unless the meeting moved, since they accepted the old time.
+ */
+export const mergeMeetingAttendees = (
+  invitees: { email: string; name: string; related?: boolean }[],
+  existing: MeetingAttendee[],
+  timeChanged: boolean
+): MeetingAttendee[] => {
+  const existingByEmail = new Map(existing.map(a => [a.email.toLowerCase(), a]));
+
+  return invitees.map(invitee => {
+    const previous = existingByEmail.get(invitee.email.toLowerCase());
+    const keepResponse = previous?.response && !timeChanged;
+    return {
+      email: invitee.email,
+      name: invitee.name,
+      ...(invitee.related ? { related: true } : {}),
+      response: keepResponse ? previous.response : 'needs_action',
+      responded_at: keepResponse ? previous.responded_at ?? null : null,
+      rsvp_token: previous?.rsvp_token || crypto.randomUUID(),
+    };
+  });
+};
@@ -0,0 +1,108 @@
+import { addDays, format } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// Send-later times are picked as a wall-clock date and time in the recipient's timezone
+
+export interface ScheduleValue {
+  date: string; // yyyy-MM-dd
+  time: string; // HH:mm
+  timezone: string;
+}
+
+export const SCHEDULE_TIMEZONES = [
+  { value: 'Pacific/Honolulu', label: 'UTC-10:00 Hawaii' },
+  { value: 'America/Anchorage', label: 'UTC-09:00 Alaska' },
+  { value: 'America/Los_Angeles', label: 'UTC-08:00 Pacific Time (US)' },
+  { value: 'America/Denver', label: 'UTC-07:00 Mountain Time (US)' },
+  { value: 'America/Chicago', label: 'UTC-06:00 Central Time (US)' },
+  { value: 'America/Mexico_City', label: 'UTC-06:00 Mexico City' },
+  { value: 'America/New_York', label: 'UTC-05:00 Eastern Time (US)' },
+  { value: 'America/Bogota', label: 'UTC-05:00 Bogota, Lima' },
+  { value: 'America/Halifax', label: 'UTC-04:00 Atlantic Time' },
+  { value: 'America/Sao_Paulo', label: 'UTC-03:00 Sao Paulo' },
+  { value: 'America/Argentina/Buenos_Aires', label: 'UTC-03:00 Buenos Aires' },
+  { value: 'UTC', label: 'UTC+00:00 Coordinated Universal Time' },
+  { value: 'Europe/London', label: 'UTC+00:00 London, Dublin, Lisbon' },
+  { value: 'Europe/Paris', label: 'UTC+01:00 Paris, Madrid' },
+  { value: 'Europe/Berlin', label: 'UTC+01:00 Berlin, Amsterdam, Rome' },
+  { value: 'Africa/Lagos', label: 'UTC+01:00 Lagos' },
+  { value: 'Europe/Helsinki', label: 'UTC+02:00 Helsinki, Kyiv' },
+  { value: 'Europe/Athens', label: 'UTC+02:00 Athens, Bucharest' },
+  { value: 'Africa/Cairo', label: 'UTC+02:00 Cairo' },
+  { value: 'Africa/Johannesburg', label: 'UTC+02:00 Johannesburg' },
+  { value: 'Europe/Istanbul', label: 'UTC+03:00 Istanbul' },
+  { value: 'Europe/Moscow', label: 'UTC+03:00 Moscow' },
+  { value: 'Asia/Riyadh', label: 'UTC+03:00 Riyadh' },
+  { value: 'Asia/Dubai', label: 'UTC+04:00 Dubai' },
+  { value: 'Asia/Karachi', label: 'UTC+05:00 Karachi' },
+  { value: 'Asia/Kolkata', label: 'UTC+05:30 India' },
+  { value: 'Asia/Dhaka', label: 'UTC+06:00 Dhaka' },
+  { value: 'Asia/Bangkok', label: 'UTC+07:00 Bangkok, Jakarta' },
+  { value: 'Asia/Singapore', label: 'UTC+08:00 Singapore, Kuala Lumpur' },
+  { value: 'Asia/Shanghai', label: 'UTC+08:00 Beijing, Shanghai' },
+  { value: 'Asia/Tokyo', label: 'UTC+09:00 Tokyo' },
+  { value: 'Asia/Seoul', label: 'UTC+09:00 Seoul' },
+  { value: 'Australia/Sydney', label: 'UTC+10:00 Sydney, Melbourne' },
+  { value: 'Pacific/Auckland', label: 'UTC+12:00 Auckland' },
+];
+
+// Must be at least this far ahead, so the processor doesn't pick it up before the dialog closes
+const MIN_LEAD_MS = 60 * 1000;
+const DEFAULT_SEND_TIME = '09:00';
+
+export const getBrowserTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+/**
+ * Zones for the picker; the browser's own zone is included even when it is not in the list
+ */
+export const timezoneOptions = (current?: string) => {
+  const extra = [current, getBrowserTimezone()].filter(
+    (tz): tz is string => !!tz && !SCHEDULE_TIMEZONES.some(option => option.value === tz)
+  );
+  return [...new Set(extra)].map(tz => ({ value: tz, label: tz })).concat(SCHEDULE_TIMEZONES);
+};
+
+// Tomorrow at 09:00 in the chosen zone
+export const defaultSchedule = (timezone = getBrowserTimezone()): ScheduleValue => ({
+  date: formatInTimeZone(addDays(new Date(), 1), timezone, 'yyyy-MM-dd'),
+  time: DEFAULT_SEND_TIME,
+  timezone,
+});
+
+export const scheduleFromDate = (isoDate: string, timezone: string): ScheduleValue => ({
+  date: formatInTimeZone(isoDate, timezone, 'yyyy-MM-dd'),
+  time: formatInTimeZone(isoDate, timezone, 'HH:mm'),
+  timezone,
+});
+
+/**
+ * The instant a schedule refers to, or null when the date or time is incomplete
+ */
+export const scheduleToDate = (schedule: ScheduleValue): Date | null => {
+  if (!schedule.date || !schedule.time) return null;
+  const date = fromZonedTime(`${schedule.date}T${schedule.time}:00`, schedule.timezone);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * A user-facing problem with the schedule, or null when it can be queued
+ */
+export const validateSchedule = (schedule: ScheduleValue): string | null => {
+  const date = scheduleToDate(schedule);
+  if (!date) return 'Choose a date and time';
+  if (date.getTime() < Date.now() + MIN_LEAD_MS) return 'The send time must be in the future';
+  return null;
+};
+
+// "Tue 14 Jan 2026, 09:00 (Europe/Paris)"
+export const formatScheduledTime = (isoDate: string, timezone: string) =>
+  `${formatInTimeZone(isoDate, timezone, 'EEE dd MMM yyyy, HH:mm')} (${timezone})`;
+
+// The same instant on the user's own clock
+export const formatLocalTime = (date: Date | string) => format(new Date(date), 'EEE dd MMM yyyy, HH:mm');
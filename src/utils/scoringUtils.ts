@@ -0,0 +1,77 @@
+// Lead and contact scoring rules; scores are computed by calculate_record_score in the database
+
+export type ScoringEntity = 'lead' | 'contact' | 'both';
+
+export type ScoringRuleType =
+  | 'email_open'
+  | 'email_click'
+  | 'email_reply'
+  | 'meeting_held'
+  | 'deal_stage'
+  | 'industry'
+  | 'region';
+
+export interface ScoringRule {
+  id: string;
+  name: string;
+  entity_type: ScoringEntity;
+  rule_type: ScoringRuleType;
+  match_value: string | null;
+  points: number;
+  max_points: number | null;
+  decay_half_life_days: number | null;
+  is_active: boolean;
+}
+
+export interface ScoreBreakdownItem {
+  rule_id: string;
+  name: string;
+  rule_type: ScoringRuleType;
+  count: number;
+  points: number;
+}
+
+export const SCORING_RULE_TYPES: ScoringRuleType[] = [
+  'email_open', 'email_click', 'email_reply', 'meeting_held', 'deal_stage', 'industry', 'region',
+];
+
+export const SCORING_RULE_TYPE_LABELS: Record<ScoringRuleType, string> = {
+  email_open: 'Email opened',
+  email_click: 'Email link clicked',
+  email_reply: 'Email replied',
+  meeting_held: 'Meeting held',
+  deal_stage: 'Deal in stage',
+  industry: 'Industry is',
+  region: 'Region is',
+};
+
+// Event rules score every email or meeting and can decay; match rules score once
+export const isEventRule = (type: ScoringRuleType) =>
+  type === 'email_open' || type === 'email_click' || type === 'email_reply' || type === 'meeting_held';
+
+export const getScoreBreakdown = (value: unknown): ScoreBreakdownItem[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is ScoreBreakdownItem =>
+        !!item && typeof item === 'object' && typeof (item as ScoreBreakdownItem).points === 'number')
+    : [];
+
+// Same thresholds as the engagement score column in the contacts table
+export const getScoreColor = (score: number | null | undefined) =>
+  (score ?? 0) >= 70
+    ? 'text-green-600 dark:text-green-400'
+    : (score ?? 0) >= 40
+      ? 'text-amber-600 dark:text-amber-400'
+      : 'text-muted-foreground';
+
+export const describeScoringRule = (rule: Pick<ScoringRule, 'rule_type' | 'match_value' | 'points' | 'max_points' | 'decay_half_life_days'>) => {
+  const sign = rule.points > 0 ? '+' : '';
+  const parts = isEventRule(rule.rule_type)
+    ? [`${sign}${rule.points} per ${rule.rule_type === 'meeting_held' ? 'meeting' : 'email'}`]
+    : [`${sign}${rule.points} when ${rule.match_value || '—'}`];
+
+  if (rule.max_points != null) parts.push(`max ${rule.max_points}`);
+  if (isEventRule(rule.rule_type) && rule.decay_half_life_days) {
+    parts.push(`halves every ${rule.decay_half_life_days} days`);
+  }
+  return parts.join(' · ');
+};
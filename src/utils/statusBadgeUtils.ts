@@ -1,3 +1,5 @@
+import type { CSSProperties } from 'react';
+
 // Shared status badge utilities for consistent styling across components
 
 // Task Status Utilities
@@ -96,6 +98,13 @@ export const getDealStageColor = (stage?: string | null): string => {
   }
 };
 
+// Pipeline stages carry an admin-configured hex color, so their badges are styled inline
+export const getStageColorStyle = (hex: string): CSSProperties => ({
+  backgroundColor: `${hex}1a`,
+  borderColor: `${hex}4d`,
+  color: hex,
+});
+
 // Module Type Badge Utilities
 export const getModuleTypeColor = (moduleType?: string | null): string => {
   switch (moduleType?.toLowerCase()) {
@@ -172,3 +181,17 @@ export const getAccountStatusBadgeColor = (status?: string | null): string => {
       return 'bg-muted text-muted-foreground border-border';
   }
 };
+
+// Approval Request Status Utilities
+export const getApprovalStatusColor = (status?: string | null): string => {
+  switch (status?.toLowerCase()) {
+    case 'pending':
+      return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800';
+    case 'approved':
+      return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800';
+    case 'rejected':
+      return 'bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-300 border-rose-200 dark:border-rose-800';
+    default:
+      return 'bg-muted text-muted-foreground border-border';
+  }
+};
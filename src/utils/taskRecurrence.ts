@@ -0,0 +1,162 @@
+// Task recurrence rules.
+// `tasks.recurrence` holds either a preset ('none', 'daily', 'weekly', 'monthly', 'yearly')
+// or an RRULE-style string such as 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'.
+// Keep the date logic in sync with supabase/functions/generate-recurring-tasks.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RecurrenceEditScope = 'this' | 'future';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[]; // 0 = Sunday, only used for WEEKLY
+}
+
+export const RECURRENCE_PRESETS = ['daily', 'weekly', 'monthly', 'yearly'] as const;
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+export const isRecurring = (recurrence: string | null | undefined): boolean =>
+  !!recurrence && recurrence !== 'none';
+
+export const isCustomRecurrence = (recurrence: string | null | undefined): boolean =>
+  isRecurring(recurrence) && !(RECURRENCE_PRESETS as readonly string[]).includes(recurrence!);
+
+// Occurrences point at the first task of the series through parent_task_id
+export const getSeriesId = (task: { id: string; parent_task_id?: string | null }): string =>
+  task.parent_task_id || task.id;
+
+export const parseRecurrence = (recurrence: string | null | undefined): RecurrenceRule | null => {
+  if (!isRecurring(recurrence)) return null;
+
+  const preset = recurrence!.toLowerCase();
+  if ((RECURRENCE_PRESETS as readonly string[]).includes(preset)) {
+    return { freq: preset.toUpperCase() as RecurrenceFrequency, interval: 1, byDay: [] };
+  }
+
+  const parts = Object.fromEntries(
+    recurrence!.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key, value = ''] = part.split('=');
+      return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+    })
+  );
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const interval = Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1);
+  const byDay = (parts.BYDAY || '')
+    .split(',')
+    .map(code => WEEKDAY_CODES.indexOf(code))
+    .filter(day => day >= 0)
+    .sort((a, b) => a - b);
+
+  return { freq, interval, byDay: freq === 'WEEKLY' ? byDay : [] };
+};
+
+// Simple rules are stored as presets so existing filters and reports keep working
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+  if (rule.interval === 1 && rule.byDay.length === 0) {
+    return rule.freq.toLowerCase();
+  }
+
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  return parts.join(';');
+};
+
+export const describeRecurrence = (recurrence: string | null | undefined): string => {
+  const rule = parseRecurrence(recurrence);
+  if (!rule) return 'Does not repeat';
+
+  const unit = UNIT_LABELS[rule.freq];
+  let description = rule.interval === 1
+    ? (rule.freq === 'DAILY' ? 'Daily' : `${unit.charAt(0).toUpperCase()}${unit.slice(1)}ly`)
+    : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay.length > 0) {
+    description += ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  return description;
+};
+
+// Due dates are plain yyyy-MM-dd strings; all arithmetic is done in UTC to avoid DST shifts
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const addMonthsClamped = (anchor: number, months: number) => {
+  const date = new Date(anchor);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target.getTime();
+};
+
+/**
+ * First date of the series anchored at `anchorDate` that falls strictly after `afterDate`.
+ * Returns null when the rule is invalid or the next date is past `endDate`.
+ */
+export const getNextOccurrenceDate = (
+  recurrence: string | null | undefined,
+  anchorDate: string,
+  afterDate: string,
+  endDate?: string | null
+): string | null => {
+  const rule = parseRecurrence(recurrence);
+  if (!rule || !anchorDate) return null;
+
+  const anchor = parseDate(anchorDate);
+  const after = Math.max(parseDate(afterDate), anchor);
+  let next: number | null = null;
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const steps = Math.floor((after - anchor) / DAY_MS / rule.interval) + 1;
+      next = anchor + steps * rule.interval * DAY_MS;
+      break;
+    }
+    case 'WEEKLY': {
+      const days = rule.byDay.length > 0 ? rule.byDay : [new Date(anchor).getUTCDay()];
+      const anchorWeekStart = anchor - new Date(anchor).getUTCDay() * DAY_MS;
+      // Two full cycles always contain a matching day
+      for (let candidate = after + DAY_MS; candidate <= after + 14 * rule.interval * DAY_MS; candidate += DAY_MS) {
+        const weekIndex = Math.floor((candidate - anchorWeekStart) / (7 * DAY_MS));
+        if (weekIndex % rule.interval === 0 && days.includes(new Date(candidate).getUTCDay())) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+    case 'MONTHLY':
+    case 'YEARLY': {
+      const monthsPerStep = rule.freq === 'MONTHLY' ? rule.interval : rule.interval * 12;
+      for (let step = 1; next === null; step++) {
+        const candidate = addMonthsClamped(anchor, step * monthsPerStep);
+        if (candidate > after) next = candidate;
+      }
+      break;
+    }
+  }
+
+  if (next === null) return null;
+  if (endDate && next > parseDate(endDate)) return null;
+  return toDateString(next);
+};
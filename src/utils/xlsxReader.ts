@@ -0,0 +1,244 @@
+import type { ParsedCSV } from './csvParser';
+
+/**
+ * Minimal reader for Excel .xlsx workbooks, enough to import a sheet as rows of text. An .xlsx
+ * file is a zip of XML parts; entries are inflated with the browser's DecompressionStream and the
+ * XML is read with regular expressions so this also runs inside a worker, where DOMParser is not
+ * available. Formulas are read from their cached values.
+ */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface XlsxSheet {
+  name: string;
+  path: string;
+}
+
+const textDecoder = new TextDecoder('utf-8');
+
+const readZipDirectory = (buffer: ArrayBuffer): Map<string, ZipEntry> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('This file is not a valid .xlsx workbook');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('This workbook is too large to import. Please save the sheet as CSV instead.');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('This file is not a valid .xlsx workbook');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipEntry = async (buffer: ArrayBuffer, entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(buffer);
+  const start = entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = new Uint8Array(buffer, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return textDecoder.decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error('This workbook uses an unsupported compression method');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const decodeXml = (text: string): string =>
+  text
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9A-Fa-f]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+      if (entity[0] === '#') {
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+      }
+      return ({ lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" } as Record<string, string>)[entity];
+    });
+
+const attribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+};
+
+// Text of a shared or inline string, joining rich-text runs and leaving out phonetic hints
+const stringItemText = (xml: string): string =>
+  [...xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map(match => decodeXml(match[1]))
+    .join('');
+
+// Built-in number formats that display dates or times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const isDateFormatCode = (code: string): boolean => {
+  const unquoted = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dmyhs]/i.test(unquoted) && !/^general$/i.test(unquoted.trim());
+};
+
+// Style indexes (the s attribute on a cell) whose number format is a date
+const readDateStyles = (stylesXml: string | null): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+
+  const customDateFormats = new Set<number>();
+  for (const match of stylesXml.matchAll(/<numFmt\s[^>]*>/g)) {
+    const id = Number(attribute(match[0], 'numFmtId'));
+    if (isDateFormatCode(attribute(match[0], 'formatCode') || '')) customDateFormats.add(id);
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return dateStyles;
+  [...cellXfs[1].matchAll(/<xf\s[^>]*?\/?>/g)].forEach((match, index) => {
+    const formatId = Number(attribute(match[0], 'numFmtId'));
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+  return dateStyles;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Excel stores dates as days since 1899-12-30 (or 1904-01-01), with the time as the fraction
+const serialToDate = (serial: number, date1904: boolean): string => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86400) * 1000);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (Number.isInteger(serial)) return day;
+  return `${day}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+};
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const resolvePartPath = (target: string): string =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+const openWorkbook = async (file: Blob) => {
+  const buffer = await file.arrayBuffer();
+  const entries = readZipDirectory(buffer);
+  const workbookXml = await readZipEntry(buffer, entries, 'xl/workbook.xml');
+  const relsXml = await readZipEntry(buffer, entries, 'xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) {
+    throw new Error('This file is not a valid .xlsx workbook');
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of relsXml.matchAll(/<Relationship\s[^>]*>/g)) {
+    targets.set(attribute(match[0], 'Id') || '', attribute(match[0], 'Target') || '');
+  }
+
+  const sheets: XlsxSheet[] = [...workbookXml.matchAll(/<sheet\s[^>]*>/g)]
+    .map(match => ({
+      name: attribute(match[0], 'name') || '',
+      path: resolvePartPath(targets.get(attribute(match[0], 'r:id') || '') || ''),
+    }))
+    .filter(sheet => entries.has(sheet.path));
+
+  const date1904 = /<workbookPr\s[^>]*date1904="(1|true)"/.test(workbookXml);
+  return { buffer, entries, sheets, date1904 };
+};
+
+export const listXlsxSheets = async (file: Blob): Promise<string[]> => {
+  const { sheets } = await openWorkbook(file);
+  return sheets.map(sheet => sheet.name);
+};
+
+/**
+ * Read a sheet (the first one unless named) as text rows. The first non-empty row is the header.
+ * Date cells come out as YYYY-MM-DD, or YYYY-MM-DDTHH:mm:ss when they carry a time.
+ */
+export const readXlsxSheet = async (file: Blob, sheetName?: string): Promise<ParsedCSV> => {
+  const { buffer, entries, sheets, date1904 } = await openWorkbook(file);
+  const sheet = sheetName ? sheets.find(s => s.name === sheetName) : sheets[0];
+  if (!sheet) {
+    throw new Error(sheetName ? `Sheet "${sheetName}" was not found in the workbook` : 'The workbook has no sheets');
+  }
+
+  const sharedStringsXml = await readZipEntry(buffer, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match => stringItemText(match[1]))
+    : [];
+  const dateStyles = readDateStyles(await readZipEntry(buffer, entries, 'xl/styles.xml'));
+  const sheetXml = (await readZipEntry(buffer, entries, sheet.path)) || '';
+
+  const records: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const record: string[] = [];
+    let nextColumn = 0;
+    for (const cellMatch of (rowMatch[1] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const cellTag = `<c${cellMatch[1]}>`;
+      const body = cellMatch[2] || '';
+      const reference = attribute(cellTag, 'r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+
+      const type = attribute(cellTag, 't');
+      const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (type === 's') {
+        value = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = stringItemText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+      } else if (type === 'b') {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'e') {
+        value = '';
+      } else if (rawValue !== undefined) {
+        value = decodeXml(rawValue);
+        const style = Number(attribute(cellTag, 's') || 0);
+        if ((!type || type === 'n') && dateStyles.has(style) && value !== '' && !isNaN(Number(value))) {
+          value = serialToDate(Number(value), date1904);
+        }
+      }
+
+      while (record.length < column) record.push('');
+      record[column] = value.trim();
+    }
+    if (record.some(value => value !== '')) {
+      records.push(record);
+    }
+  }
+
+  if (records.length === 0) {
+    return { headers: [], rows: [] };
+  }
+  return { headers: records[0], rows: records.slice(1) };
+};
@@ -0,0 +1,71 @@
+import { CSVStreamParser } from '@/utils/csvParser';
+import { readXlsxSheet } from '@/utils/xlsxReader';
+import { isSpreadsheetFile, type ImportWorkerRequest, type ImportWorkerMessage } from '@/utils/importFile';
+
+// Parses an import file off the main thread so large files don't freeze the page
+
+const post = (message: ImportWorkerMessage) => self.postMessage(message);
+
+// Rows go to the main thread as they are parsed, so the worker never holds more than one chunk of the file
+const ROWS_PER_MESSAGE = 1000;
+
+const postRows = (rows: string[][]) => {
+  for (let i = 0; i < rows.length; i += ROWS_PER_MESSAGE) {
+    post({ type: 'rows', rows: rows.slice(i, i + ROWS_PER_MESSAGE) });
+  }
+};
+
+const readCSV = async (file: File): Promise<string[]> => {
+  let headers: string[] | null = null;
+  let pending: string[][] = [];
+  const parser = new CSVStreamParser(record => {
+    if (!headers) {
+      headers = record;
+      return;
+    }
+    pending.push(record);
+    if (pending.length >= ROWS_PER_MESSAGE) {
+      post({ type: 'rows', rows: pending });
+      pending = [];
+    }
+  });
+  const decoder = new TextDecoder('utf-8');
+  const reader = file.stream().getReader();
+  let loaded = 0;
+  let reportedPercent = -1;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+    loaded += value.byteLength;
+
+    const percent = Math.floor((loaded / file.size) * 100);
+    if (percent !== reportedPercent) {
+      reportedPercent = percent;
+      post({ type: 'progress', loaded, total: file.size });
+    }
+  }
+  parser.push(decoder.decode());
+  parser.end();
+  if (pending.length > 0) post({ type: 'rows', rows: pending });
+
+  return headers || [];
+};
+
+const readSpreadsheet = async (file: File, sheet?: string): Promise<string[]> => {
+  const { headers, rows } = await readXlsxSheet(file, sheet);
+  postRows(rows);
+  return headers;
+};
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const { file, sheet } = event.data;
+  try {
+    const headers = isSpreadsheetFile(file) ? await readSpreadsheet(file, sheet) : await readCSV(file);
+    post({ type: 'progress', loaded: file.size, total: file.size });
+    post({ type: 'done', headers });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Could not read the file' });
+  }
+};
@@ -0,0 +1,83 @@
+// Deal value conversion for the edge functions, kept in step with src/utils/currencyConversion.ts
+// so emailed reports add up to the same totals as the dashboards
+
+export interface ExchangeRate {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+// Deals saved before currency_type existed were backfilled as EUR
+export const DEFAULT_DEAL_CURRENCY = "EUR";
+
+// The dashboards fall back to this when the user has no currency preference
+export const DEFAULT_REPORTING_CURRENCY = "INR";
+
+interface DatedDeal {
+  signed_contract_date?: string | null;
+  expected_closing_date?: string | null;
+}
+
+// Date used to pick the rate for a deal: signed date, else expected close, else today
+export const getDealRateDate = (deal: DatedDeal): string =>
+  (deal.signed_contract_date || deal.expected_closing_date || new Date().toISOString()).slice(0, 10);
+
+// Latest rate for the pair effective on or before the date, or the earliest one if the date predates them all
+const findDirectRate = (rates: ExchangeRate[], from: string, to: string, onDate: string): number | null => {
+  let match: { rate: number; date: string } | null = null;
+  let earliest: { rate: number; date: string } | null = null;
+
+  for (const r of rates) {
+    let rate: number;
+    if (r.from_currency === from && r.to_currency === to) rate = Number(r.rate);
+    else if (r.from_currency === to && r.to_currency === from) rate = 1 / Number(r.rate);
+    else continue;
+    if (!isFinite(rate) || rate <= 0) continue;
+
+    if (r.effective_date <= onDate && (!match || r.effective_date > match.date)) {
+      match = { rate, date: r.effective_date };
+    }
+    if (!earliest || r.effective_date < earliest.date) {
+      earliest = { rate, date: r.effective_date };
+    }
+  }
+
+  return (match || earliest)?.rate ?? null;
+};
+
+// The pair directly, its inverse, or a single hop through another currency; null when no rate is defined
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  onDate: string = new Date().toISOString().slice(0, 10)
+): number | null => {
+  if (from === to) return 1;
+
+  const direct = findDirectRate(rates, from, to, onDate);
+  if (direct !== null) return direct;
+
+  const via = new Set(rates.flatMap(r => [r.from_currency, r.to_currency]));
+  via.delete(from);
+  via.delete(to);
+  for (const currency of via) {
+    const first = findDirectRate(rates, from, currency, onDate);
+    const second = first !== null ? findDirectRate(rates, currency, to, onDate) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+
+  return null;
+};
+
+export const convertAmount = (
+  amount: number | null | undefined,
+  from: string | null | undefined,
+  to: string,
+  rates: ExchangeRate[],
+  onDate?: string
+): number | null => {
+  if (amount === null || amount === undefined || isNaN(Number(amount))) return null;
+  const rate = findExchangeRate(rates, from || DEFAULT_DEAL_CURRENCY, to, onDate);
+  return rate === null ? null : Number(amount) * rate;
+};
@@ -0,0 +1,12 @@
+// Scheduled functions have verify_jwt = false, so their URLs are public. Only the scheduler may run
+// them, and it calls with the service role key, as run-scheduled-backups does for create-backup.
+export const isServiceRoleRequest = (req: Request): boolean => {
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!serviceKey && req.headers.get("Authorization") === `Bearer ${serviceKey}`;
+};
+
+export const unauthorizedResponse = (corsHeaders: Record<string, string>): Response =>
+  new Response(JSON.stringify({ success: false, error: "Unauthorized" }), {
+    status: 401,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
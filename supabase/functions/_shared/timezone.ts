@@ -0,0 +1,70 @@
+// Wall-clock and timezone arithmetic shared by the edge functions that schedule or display times,
+// so a daylight-saving fix lands in one place
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  // 0 = Sunday, as Date.getUTCDay()
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MINUTE_MS = 60 * 1000;
+
+// The timezone itself when Intl knows it, otherwise the fallback
+export function resolveTimeZone(timeZone: string | null | undefined, fallback: string): string {
+  if (!timeZone) return fallback;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch (err) {
+    console.error(`Invalid timezone ${timeZone}, defaulting to ${fallback}:`, err);
+    return fallback;
+  }
+}
+
+// Wall-clock fields of an instant in a timezone
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+  }).formatToParts(date);
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+  };
+}
+
+// Minutes the timezone is ahead of UTC at this instant
+export function utcOffsetMinutes(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / MINUTE_MS);
+}
+
+// The instant (epoch ms) a wall-clock time happens in a timezone; checked twice in case the guess
+// and the answer fall either side of a daylight-saving change
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = utcOffsetMinutes(new Date(guess), timeZone);
+  const result = guess - offset * MINUTE_MS;
+  const actualOffset = utcOffsetMinutes(new Date(result), timeZone);
+  return actualOffset === offset ? result : guess - actualOffset * MINUTE_MS;
+}
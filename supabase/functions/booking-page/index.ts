@@ -0,0 +1,366 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { zonedParts, zonedTimeToUtc } from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Serves the public /book/<slug> page. "get" returns the page and its free slots; "book" creates a
+// meeting in one of them for the prospect, linked to their contact or lead (a new lead if the
+// address is unknown), and notifies the page owner.
+interface BookingRequest {
+  action: "get" | "book";
+  slug: string;
+  start?: string; // ISO, for "book"
+  name?: string;
+  email?: string;
+  company?: string;
+  notes?: string;
+}
+
+interface AvailabilityRule {
+  day: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+interface BookingPage {
+  id: string;
+  user_id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  duration_minutes: number;
+  buffer_minutes: number;
+  max_per_day: number | null;
+  min_notice_hours: number;
+  max_days_ahead: number;
+  timezone: string;
+  availability: AvailabilityRule[];
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// The page is public, so what a visitor sends is capped before it becomes a lead or a meeting
+const MAX_NAME_LENGTH = 200;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_COMPANY_LENGTH = 200;
+const MAX_NOTES_LENGTH = 2000;
+
+// Bookings through any page within the window, per prospect email and per visitor IP
+const THROTTLE_WINDOW_MS = 60 * MINUTE_MS;
+const MAX_BOOKINGS_PER_EMAIL = 3;
+const MAX_BOOKINGS_PER_IP = 5;
+
+const jsonResponse = (payload: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const parseTime = (time: string) => {
+  const [hour, minute] = time.split(":").map(Number);
+  return { hour, minute };
+};
+
+function getClientIP(req: Request): string | null {
+  const forwardedFor = req.headers.get("x-forwarded-for");
+  if (forwardedFor) return forwardedFor.split(",")[0].trim();
+  return req.headers.get("x-real-ip") || req.headers.get("cf-connecting-ip");
+}
+
+const dayKey = (instant: number, timeZone: string) => {
+  const p = zonedParts(new Date(instant), timeZone);
+  return `${p.year}-${p.month}-${p.day}`;
+};
+
+async function loadPage(supabase: SupabaseClient, slug: string): Promise<BookingPage | null> {
+  const { data, error } = await supabase
+    .from("booking_pages")
+    .select("id, user_id, slug, title, description, duration_minutes, buffer_minutes, max_per_day, min_notice_hours, max_days_ahead, timezone, availability")
+    .eq("slug", slug.toLowerCase())
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { ...data, availability: Array.isArray(data.availability) ? data.availability as AvailabilityRule[] : [] } : null;
+}
+
+/**
+ * Free slots on the page. A slot is free when it is inside the weekly availability, far enough
+ * ahead, its day hasn't reached max_per_day, and it doesn't overlap (with the buffer either side)
+ * any of the owner's meetings. The overlap test is the one MeetingConflictWarning uses.
+ */
+async function computeSlots(supabase: SupabaseClient, page: BookingPage, now = Date.now()): Promise<Interval[]> {
+  const duration = page.duration_minutes * MINUTE_MS;
+  const buffer = page.buffer_minutes * MINUTE_MS;
+  const step = Math.min(page.duration_minutes, 30) * MINUTE_MS;
+  const earliest = now + page.min_notice_hours * 60 * MINUTE_MS;
+  const until = now + (page.max_days_ahead + 1) * DAY_MS;
+
+  const { data: meetings, error } = await supabase
+    .from("meetings")
+    .select("start_time, end_time, booking_page_id")
+    .eq("created_by", page.user_id)
+    .neq("status", "cancelled")
+    .lt("start_time", new Date(until + buffer).toISOString())
+    .gt("end_time", new Date(now - buffer).toISOString());
+
+  if (error) throw error;
+
+  const busy: Interval[] = (meetings || []).map(m => ({
+    start: new Date(m.start_time).getTime() - buffer,
+    end: new Date(m.end_time).getTime() + buffer,
+  }));
+
+  const bookedPerDay = new Map<string, number>();
+  for (const meeting of meetings || []) {
+    if (meeting.booking_page_id !== page.id) continue;
+    const key = dayKey(new Date(meeting.start_time).getTime(), page.timezone);
+    bookedPerDay.set(key, (bookedPerDay.get(key) || 0) + 1);
+  }
+
+  const today = zonedParts(new Date(now), page.timezone);
+  const slots: Interval[] = [];
+
+  for (let offset = 0; offset <= page.max_days_ahead; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+
+    if (page.max_per_day && (bookedPerDay.get(`${year}-${month}-${day}`) || 0) >= page.max_per_day) continue;
+
+    for (const rule of page.availability.filter(r => r.day === date.getUTCDay())) {
+      const ruleStart = parseTime(rule.start);
+      const ruleEnd = parseTime(rule.end);
+      const windowStart = zonedTimeToUtc(year, month, day, ruleStart.hour, ruleStart.minute, page.timezone);
+      const windowEnd = zonedTimeToUtc(year, month, day, ruleEnd.hour, ruleEnd.minute, page.timezone);
+
+      for (let start = windowStart; start + duration <= windowEnd; start += step) {
+        if (start < earliest) continue;
+        const slot = { start, end: start + duration };
+        if (!busy.some(b => b.start < slot.end && slot.start < b.end)) slots.push(slot);
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start - b.start);
+}
+
+// Cancelled bookings count too, so booking and cancelling can't be used to get around the limit
+async function isThrottled(supabase: SupabaseClient, email: string, ip: string | null): Promise<boolean> {
+  const since = new Date(Date.now() - THROTTLE_WINDOW_MS).toISOString();
+
+  const { count: byEmail, error: emailError } = await supabase
+    .from("meetings")
+    .select("id", { count: "exact", head: true })
+    .not("booking_page_id", "is", null)
+    .gte("created_at", since)
+    .contains("attendees", [{ email }]);
+
+  if (emailError) throw emailError;
+  if ((byEmail || 0) >= MAX_BOOKINGS_PER_EMAIL) return true;
+  if (!ip) return false;
+
+  const { count: byIp, error: ipError } = await supabase
+    .from("meetings")
+    .select("id", { count: "exact", head: true })
+    .eq("booked_from_ip", ip)
+    .gte("created_at", since);
+
+  if (ipError) throw ipError;
+  return (byIp || 0) >= MAX_BOOKINGS_PER_IP;
+}
+
+// The prospect's existing contact or lead, or a new lead owned by the page owner
+async function findOrCreateRecord(
+  supabase: SupabaseClient,
+  page: BookingPage,
+  name: string,
+  email: string,
+  company: string | undefined
+): Promise<{ contactId: string | null; leadId: string | null }> {
+  const pattern = email.replace(/[\\%_]/g, "\\$&");
+
+  const { data: contact } = await supabase.from("contacts").select("id").ilike("email", pattern).limit(1).maybeSingle();
+  if (contact) return { contactId: contact.id, leadId: null };
+
+  const { data: lead } = await supabase.from("leads").select("id").ilike("email", pattern).limit(1).maybeSingle();
+  if (lead) return { contactId: null, leadId: lead.id };
+
+  const { data: created, error } = await supabase
+    .from("leads")
+    .insert({
+      lead_name: name,
+      email,
+      company_name: company || null,
+      contact_source: "Website",
+      lead_status: "New",
+      contact_owner: page.user_id,
+      created_by: page.user_id,
+      description: `Booked a meeting through the booking page /book/${page.slug}`,
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return { contactId: null, leadId: created.id };
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action, slug, start, name, email, company, notes }: BookingRequest = await req.json();
+
+    if (!slug) {
+      return jsonResponse({ error: "This booking link is not valid" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    // Named so the audit trail shows where booked meetings and new leads came from
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { "x-audit-source": "booking-page" } },
+    });
+
+    const page = await loadPage(supabase, slug);
+    if (!page) {
+      return jsonResponse({ error: "This booking page doesn't exist or is no longer available" }, 404);
+    }
+
+    const { data: owner } = await supabase.from("profiles").select("full_name").eq("id", page.user_id).maybeSingle();
+    const ownerName = owner?.full_name || "our team";
+
+    if (action !== "book") {
+      const slots = await computeSlots(supabase, page);
+      return jsonResponse({
+        success: true,
+        page: {
+          title: page.title,
+          description: page.description,
+          durationMinutes: page.duration_minutes,
+          timezone: page.timezone,
+          ownerName,
+        },
+        slots: slots.map(slot => new Date(slot.start).toISOString()),
+      });
+    }
+
+    const trimmedName = name?.trim() || "";
+    const trimmedEmail = email?.trim().toLowerCase() || "";
+    const trimmedCompany = company?.trim() || "";
+    const trimmedNotes = notes?.trim() || "";
+    if (!trimmedName || !EMAIL_PATTERN.test(trimmedEmail) || !start || Number.isNaN(new Date(start).getTime())) {
+      return jsonResponse({ error: "Please enter your name, a valid email address and pick a time" }, 400);
+    }
+    if (
+      trimmedName.length > MAX_NAME_LENGTH ||
+      trimmedEmail.length > MAX_EMAIL_LENGTH ||
+      trimmedCompany.length > MAX_COMPANY_LENGTH ||
+      trimmedNotes.length > MAX_NOTES_LENGTH
+    ) {
+      return jsonResponse({ error: "Some of the details you entered are too long" }, 400);
+    }
+
+    const clientIP = getClientIP(req);
+    if (await isThrottled(supabase, trimmedEmail, clientIP)) {
+      console.warn(`Throttled booking on page ${page.slug} for ${trimmedEmail} from ${clientIP || "unknown IP"}`);
+      return jsonResponse({ success: false, limited: true, error: "Too many bookings in a short time. Please try again later." });
+    }
+
+    // A taken slot is an expected outcome, so it comes back as a 200 the page can act on
+    const startMs = new Date(start).getTime();
+    const slots = await computeSlots(supabase, page);
+    if (!slots.some(slot => slot.start === startMs)) {
+      return jsonResponse({ success: false, unavailable: true, error: "That time is no longer available. Please pick another." });
+    }
+
+    // Linked on insert, so a failure here leaves no meeting behind that points at nobody
+    const { contactId, leadId } = await findOrCreateRecord(supabase, page, trimmedName, trimmedEmail, trimmedCompany || undefined);
+
+    const endMs = startMs + page.duration_minutes * MINUTE_MS;
+    const { data: meeting, error: insertError } = await supabase
+      .from("meetings")
+      .insert({
+        subject: `${page.title} with ${trimmedName}`,
+        description: trimmedNotes || null,
+        start_time: new Date(startMs).toISOString(),
+        end_time: new Date(endMs).toISOString(),
+        timezone: page.timezone,
+        attendees: [{ email: trimmedEmail, name: trimmedName, related: true }],
+        status: "scheduled",
+        created_by: page.user_id,
+        booking_page_id: page.id,
+        booked_from_ip: clientIP,
+        contact_id: contactId,
+        lead_id: leadId,
+      })
+      .select("id, created_at")
+      .single();
+
+    if (insertError) throw insertError;
+
+    // Two prospects can pass the check above for the same slot at once; the later booking yields
+    const buffer = page.buffer_minutes * MINUTE_MS;
+    const { data: clashes } = await supabase
+      .from("meetings")
+      .select("id")
+      .eq("created_by", page.user_id)
+      .neq("status", "cancelled")
+      .neq("id", meeting.id)
+      .lt("start_time", new Date(endMs + buffer).toISOString())
+      .gt("end_time", new Date(startMs - buffer).toISOString())
+      .lte("created_at", meeting.created_at);
+
+    if (clashes && clashes.length > 0) {
+      await supabase.from("meetings").delete().eq("id", meeting.id);
+      return jsonResponse({ success: false, unavailable: true, error: "That time is no longer available. Please pick another." });
+    }
+
+    const when = new Date(startMs).toLocaleString("en-US", {
+      timeZone: page.timezone,
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+    const { error: notifError } = await supabase
+      .from("notifications")
+      .insert({
+        user_id: page.user_id,
+        lead_id: leadId,
+        message: `${trimmedName} (${trimmedEmail}) booked "${page.title}" for ${when} (${page.timezone})`,
+        notification_type: "meeting_booked",
+        status: "unread",
+      });
+
+    if (notifError) {
+      console.error("Error creating booking notification:", notifError);
+    }
+
+    console.log(`Booked meeting ${meeting.id} on page ${page.slug} for ${trimmedEmail}`);
+
+    return jsonResponse({ success: true, start: new Date(startMs).toISOString(), end: new Date(endMs).toISOString(), ownerName });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in booking-page function:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+};
+
+serve(handler);
@@ -33,40 +33,51 @@ Deno.serve(async (req) => {
 
     // Create admin client for backup operations
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
-    // Create user client for auth check
-    const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
-      global: { headers: { Authorization: authHeader } }
-    });
 
-    // Verify user is authenticated and is admin
-    const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
-    if (authError || !user) {
-      throw new Error('Unauthorized');
-    }
+    const { includeAuditLogs = true, scheduleId = null, createdBy = null } = await req.json().catch(() => ({}));
 
-    // Check if user is admin
-    const { data: roleData } = await supabaseAdmin
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .single();
+    // run-scheduled-backups calls in with the service role key; everyone else must be an admin
+    const isScheduled = authHeader === `Bearer ${supabaseServiceKey}`;
+    let ownerId: string | null = createdBy;
 
-    const userRole = roleData?.role || user.user_metadata?.role || 'user';
-    if (userRole !== 'admin') {
-      throw new Error('Only admins can create backups');
-    }
+    if (isScheduled) {
+      console.log('Starting scheduled backup for schedule:', scheduleId);
+    } else {
+      // Create user client for auth check
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+        global: { headers: { Authorization: authHeader } }
+      });
 
-    console.log('Starting backup creation for user:', user.email);
+      // Verify user is authenticated and is admin
+      const { data: { user }, error: authError } = await supabaseUser.auth.getUser();
+      if (authError || !user) {
+        throw new Error('Unauthorized');
+      }
+
+      // Check if user is admin
+      const { data: roleData } = await supabaseAdmin
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user.id)
+        .single();
 
-    const { includeAuditLogs = true } = await req.json().catch(() => ({}));
+      const userRole = roleData?.role || user.user_metadata?.role || 'user';
+      if (userRole !== 'admin') {
+        throw new Error('Only admins can create backups');
+      }
+
+      ownerId = user.id;
+      console.log('Starting backup creation for user:', user.email);
+    }
 
     // Tables to backup
     const tablesToBackup = [
       'accounts',
       'contacts',
       'leads',
+      'pipeline_stages',
       'deals',
+      'deal_stage_history',
       'deal_action_items',
       'lead_action_items',
       'notifications',
@@ -87,7 +98,7 @@ Deno.serve(async (req) => {
     const manifest: BackupManifest = {
       version: '1.0',
       created_at: new Date().toISOString(),
-      created_by: user.id,
+      created_by: ownerId || 'system',
       tables: [],
       total_records: 0,
       include_audit_logs: includeAuditLogs,
@@ -125,7 +136,7 @@ Deno.serve(async (req) => {
     // Generate file name
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     const fileName = `backup_${timestamp}.json`;
-    const filePath = `${user.id}/${fileName}`;
+    const filePath = `${ownerId || 'scheduled'}/${fileName}`;
 
     // Upload to storage
     const { error: uploadError } = await supabaseAdmin.storage
@@ -152,10 +163,10 @@ Deno.serve(async (req) => {
         size_bytes: sizeBytes,
         tables_count: manifest.tables.length,
         records_count: manifest.total_records,
-        backup_type: 'manual',
+        backup_type: isScheduled ? 'scheduled' : 'manual',
         status: 'completed',
         manifest: manifest,
-        created_by: user.id,
+        created_by: ownerId,
       })
       .select()
       .single();
@@ -165,10 +176,11 @@ Deno.serve(async (req) => {
       throw new Error(`Failed to save backup metadata: ${dbError.message}`);
     }
 
-    // Clean up old backups (keep only last 10)
+    // Clean up old manual backups (keep only last 10); scheduled backups follow their schedule's retention_days
     const { data: allBackups } = await supabaseAdmin
       .from('backups')
       .select('id, file_path, created_at')
+      .eq('backup_type', 'manual')
       .order('created_at', { ascending: false });
 
     if (allBackups && allBackups.length > 10) {
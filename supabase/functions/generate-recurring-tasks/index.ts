@@ -0,0 +1,284 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { isServiceRoleRequest, unauthorizedResponse } from "../_shared/serviceAuth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PRESETS = ["daily", "weekly", "monthly", "yearly"];
+const FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+interface RecurringTask {
+  id: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  category: string | null;
+  tags: string[] | null;
+  due_date: string | null;
+  due_time: string | null;
+  assigned_to: string | null;
+  created_by: string | null;
+  module_type: string | null;
+  account_id: string | null;
+  contact_id: string | null;
+  lead_id: string | null;
+  meeting_id: string | null;
+  deal_id: string | null;
+  recurrence: string | null;
+  recurrence_end_date: string | null;
+  recurrence_exception: boolean;
+  recurrence_anchor_date: string | null;
+  parent_task_id: string | null;
+}
+
+interface RecurrenceRule {
+  freq: string;
+  interval: number;
+  byDay: number[];
+}
+
+// Same rule format and date logic as src/utils/taskRecurrence.ts
+const parseRecurrence = (recurrence: string | null): RecurrenceRule | null => {
+  if (!recurrence || recurrence === "none") return null;
+
+  if (PRESETS.includes(recurrence.toLowerCase())) {
+    return { freq: recurrence.toUpperCase(), interval: 1, byDay: [] };
+  }
+
+  const parts = Object.fromEntries(
+    recurrence.replace(/^RRULE:/i, "").split(";").map(part => {
+      const [key, value = ""] = part.split("=");
+      return [key.trim().toUpperCase(), value.trim().toUpperCase()];
+    })
+  );
+
+  if (!FREQUENCIES.includes(parts.FREQ)) return null;
+
+  const byDay = (parts.BYDAY || "")
+    .split(",")
+    .map((code: string) => WEEKDAY_CODES.indexOf(code))
+    .filter((day: number) => day >= 0);
+
+  return {
+    freq: parts.FREQ,
+    interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+    byDay: parts.FREQ === "WEEKLY" ? byDay : [],
+  };
+};
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const addMonthsClamped = (anchor: number, months: number) => {
+  const date = new Date(anchor);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target.getTime();
+};
+
+/**
+ * First date of the series anchored at `anchorDate` that falls strictly after `afterDate`
+ */
+const getNextOccurrenceDate = (
+  recurrence: string | null,
+  anchorDate: string,
+  afterDate: string,
+  endDate: string | null
+): string | null => {
+  const rule = parseRecurrence(recurrence);
+  if (!rule) return null;
+
+  const anchor = parseDate(anchorDate);
+  const after = Math.max(parseDate(afterDate), anchor);
+  let next: number | null = null;
+
+  if (rule.freq === "DAILY") {
+    const steps = Math.floor((after - anchor) / DAY_MS / rule.interval) + 1;
+    next = anchor + steps * rule.interval * DAY_MS;
+  } else if (rule.freq === "WEEKLY") {
+    const days = rule.byDay.length > 0 ? rule.byDay : [new Date(anchor).getUTCDay()];
+    const anchorWeekStart = anchor - new Date(anchor).getUTCDay() * DAY_MS;
+    for (let candidate = after + DAY_MS; candidate <= after + 14 * rule.interval * DAY_MS; candidate += DAY_MS) {
+      const weekIndex = Math.floor((candidate - anchorWeekStart) / (7 * DAY_MS));
+      if (weekIndex % rule.interval === 0 && days.includes(new Date(candidate).getUTCDay())) {
+        next = candidate;
+        break;
+      }
+    }
+  } else {
+    const monthsPerStep = rule.freq === "MONTHLY" ? rule.interval : rule.interval * 12;
+    for (let step = 1; next === null; step++) {
+      const candidate = addMonthsClamped(anchor, step * monthsPerStep);
+      if (candidate > after) next = candidate;
+    }
+  }
+
+  if (next === null) return null;
+  if (endDate && next > parseDate(endDate)) return null;
+  return toDateString(next);
+};
+
+// Today's date (yyyy-MM-dd) in a specific timezone
+const getLocalDate = (timezone: string): string => {
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(new Date());
+  } catch {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: DEFAULT_TIMEZONE }).format(new Date());
+  }
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse(corsHeaders);
+  }
+
+  try {
+    console.log("Starting generate-recurring-tasks function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Any task that is, or has been, part of a series
+    const { data: recurringTasks, error: recurringError } = await supabase
+      .from("tasks")
+      .select("id, parent_task_id")
+      .not("recurrence", "is", null)
+      .neq("recurrence", "none");
+
+    if (recurringError) {
+      console.error("Error fetching recurring tasks:", recurringError);
+      throw recurringError;
+    }
+
+    const seriesIds = [...new Set((recurringTasks || []).map(t => t.parent_task_id || t.id))];
+    if (seriesIds.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No recurring tasks", created: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: profiles } = await supabase.from("profiles").select("id, timezone");
+    const timezoneFor = (userId: string | null) =>
+      (profiles || []).find(p => p.id === userId)?.timezone || DEFAULT_TIMEZONE;
+
+    let created = 0;
+    const errors: string[] = [];
+
+    for (const seriesId of seriesIds) {
+      const { data: series, error: seriesError } = await supabase
+        .from("tasks")
+        .select("*")
+        .or(`id.eq.${seriesId},parent_task_id.eq.${seriesId}`)
+        .not("due_date", "is", null)
+        .order("due_date", { ascending: false });
+
+      if (seriesError || !series || series.length === 0) {
+        if (seriesError) errors.push(`Series ${seriesId}: ${seriesError.message}`);
+        continue;
+      }
+
+      const latest = series[0] as RecurringTask;
+      const template = (series as RecurringTask[]).find(t => !t.recurrence_exception) || latest;
+      if (!parseRecurrence(template.recurrence)) continue;
+
+      // The series advances once its latest occurrence is done or its due date has passed
+      const today = getLocalDate(timezoneFor(template.assigned_to || template.created_by));
+      const isDone = latest.status === "completed" || latest.status === "cancelled";
+      if (!isDone && latest.due_date! >= today) continue;
+
+      // Missed dates are skipped rather than back-filled
+      const yesterday = toDateString(parseDate(today) - DAY_MS);
+      const after = latest.due_date! > yesterday ? latest.due_date! : yesterday;
+      // Dates count from the start of the series, not the latest occurrence, so a month-end clamp
+      // (Jan 31 -> Feb 28) does not carry into later months
+      const root = (series as RecurringTask[]).find(t => t.id === seriesId);
+      const anchorDate = template.recurrence_anchor_date || root?.due_date || template.due_date!;
+      const nextDueDate = getNextOccurrenceDate(template.recurrence, anchorDate, after, template.recurrence_end_date);
+      if (!nextDueDate) continue;
+
+      const { data: next, error: insertError } = await supabase
+        .from("tasks")
+        .insert({
+          title: template.title,
+          description: template.description,
+          priority: template.priority,
+          category: template.category,
+          tags: template.tags,
+          due_date: nextDueDate,
+          due_time: template.due_time,
+          assigned_to: template.assigned_to,
+          created_by: template.created_by,
+          module_type: template.module_type,
+          account_id: template.account_id,
+          contact_id: template.contact_id,
+          lead_id: template.lead_id,
+          meeting_id: template.meeting_id,
+          deal_id: template.deal_id,
+          recurrence: template.recurrence,
+          recurrence_end_date: template.recurrence_end_date,
+          recurrence_anchor_date: template.recurrence_anchor_date,
+          parent_task_id: seriesId,
+          status: "open",
+        })
+        .select("id, title, assigned_to")
+        .single();
+
+      if (insertError) {
+        // Already generated when the occurrence was completed in the app
+        if (insertError.code !== "23505") {
+          console.error(`Failed to create occurrence for series ${seriesId}:`, insertError);
+          errors.push(`Series ${seriesId}: ${insertError.message}`);
+        }
+        continue;
+      }
+
+      created++;
+      console.log(`Created occurrence ${next.id} of series ${seriesId} due ${nextDueDate}`);
+
+      if (next.assigned_to) {
+        await supabase.from("notifications").insert({
+          user_id: next.assigned_to,
+          message: `New occurrence of recurring task: ${next.title}`,
+          notification_type: "task_assigned",
+          status: "unread",
+        });
+      }
+    }
+
+    console.log(`Recurring tasks complete: ${created} created, ${errors.length} errors`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Created ${created} task occurrence(s)`, created, errors }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in generate-recurring-tasks:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
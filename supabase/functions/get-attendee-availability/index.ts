@@ -0,0 +1,157 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Outlook free/busy for the scheduling assistant in MeetingModal. Looked up through the
+// organizer's mailbox with Graph getSchedule, which only sees mailboxes in our own tenant.
+interface AvailabilityRequest {
+  emails: string[];
+  startTime: string; // ISO
+  endTime: string; // ISO
+}
+
+interface BusyBlock {
+  start: string;
+  end: string;
+  status: string;
+}
+
+interface GraphScheduleItem {
+  status: string;
+  start: { dateTime: string };
+  end: { dateTime: string };
+}
+
+interface GraphSchedule {
+  scheduleId: string;
+  scheduleItems?: GraphScheduleItem[];
+  error?: { message?: string };
+}
+
+// Graph accepts at most 20 schedules and a 62-day window per call
+const MAX_SCHEDULES = 20;
+const MAX_RANGE_MS = 62 * 24 * 60 * 60 * 1000;
+
+const BUSY_STATUSES = new Set(["busy", "tentative", "oof", "workingElsewhere"]);
+
+const jsonResponse = (payload: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_TEAMS_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_TEAMS_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_TEAMS_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Missing Azure Teams credentials.");
+  }
+
+  const params = new URLSearchParams();
+  params.append("client_id", clientId);
+  params.append("client_secret", clientSecret);
+  params.append("scope", "https://graph.microsoft.com/.default");
+  params.append("grant_type", "client_credentials");
+
+  const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    console.error("Azure AD token error:", data);
+    throw new Error(data.error_description || "Failed to get access token");
+  }
+
+  return data.access_token;
+}
+
+// Graph returns UTC wall-clock times without an offset when asked for UTC
+const toIso = (dateTime: string) => new Date(dateTime.endsWith("Z") ? dateTime : `${dateTime}Z`).toISOString();
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user?.email) {
+      console.error("Authentication error:", authError);
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    const { emails, startTime, endTime }: AvailabilityRequest = await req.json();
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+
+    if (!Array.isArray(emails) || emails.length === 0 || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+      return jsonResponse({ error: "Missing required fields: emails, startTime, endTime" }, 400);
+    }
+    if (end <= start || end.getTime() - start.getTime() > MAX_RANGE_MS) {
+      return jsonResponse({ error: "The time range must be between 0 and 62 days" }, 400);
+    }
+
+    const accessToken = await getAccessToken();
+    const schedules: { email: string; busy: BusyBlock[]; error?: string }[] = [];
+
+    for (let i = 0; i < emails.length; i += MAX_SCHEDULES) {
+      const batch = emails.slice(i, i + MAX_SCHEDULES);
+      const response = await fetch(
+        `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(user.email)}/calendar/getSchedule`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "Content-Type": "application/json",
+            Prefer: 'outlook.timezone="UTC"',
+          },
+          body: JSON.stringify({
+            schedules: batch,
+            startTime: { dateTime: start.toISOString().slice(0, 19), timeZone: "UTC" },
+            endTime: { dateTime: end.toISOString().slice(0, 19), timeZone: "UTC" },
+            availabilityViewInterval: 15,
+          }),
+        }
+      );
+
+      const data = await response.json();
+      if (!response.ok) {
+        console.error("Graph getSchedule error:", data);
+        throw new Error(data.error?.message || `getSchedule returned ${response.status}`);
+      }
+
+      for (const schedule of (data.value || []) as GraphSchedule[]) {
+        schedules.push({
+          email: schedule.scheduleId,
+          busy: (schedule.scheduleItems || [])
+            .filter(item => BUSY_STATUSES.has(item.status))
+            .map(item => ({ start: toIso(item.start.dateTime), end: toIso(item.end.dateTime), status: item.status })),
+          // Addresses outside the tenant come back with an error instead of items
+          ...(schedule.error ? { error: schedule.error.message || "Free/busy not available" } : {}),
+        });
+      }
+    }
+
+    return jsonResponse({ success: true, schedules });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in get-attendee-availability function:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+};
+
+serve(handler);
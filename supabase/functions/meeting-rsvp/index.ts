@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Called by the public /meeting-response page behind the RSVP links in a meeting invite. The token
+// identifies one attendee of one meeting; without a response it only describes the meeting, so
+// link scanners that fetch the page don't answer for anyone.
+interface RsvpRequest {
+  meetingId: string;
+  token: string;
+  response?: "accepted" | "tentative" | "declined";
+}
+
+interface MeetingAttendee {
+  email: string;
+  name?: string;
+  response?: string;
+  rsvp_token?: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const RESPONSE_LABELS: Record<string, string> = {
+  accepted: "accepted",
+  tentative: "tentatively accepted",
+  declined: "declined",
+};
+
+const jsonResponse = (payload: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { meetingId, token, response }: RsvpRequest = await req.json();
+
+    if (!meetingId || !token || !UUID_PATTERN.test(meetingId) || !UUID_PATTERN.test(token)) {
+      return jsonResponse({ error: "This meeting link is not valid" }, 400);
+    }
+    if (response && !RESPONSE_LABELS[response]) {
+      return jsonResponse({ error: `Unknown response: ${response}` }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select("id, subject, start_time, end_time, timezone, join_url, status, attendees, created_by")
+      .eq("id", meetingId)
+      .maybeSingle();
+
+    if (meetingError) throw meetingError;
+
+    const attendee = meeting && Array.isArray(meeting.attendees)
+      ? (meeting.attendees as MeetingAttendee[]).find(a => a?.rsvp_token === token)
+      : undefined;
+
+    if (!meeting || !attendee) {
+      return jsonResponse({ error: "This meeting link is not valid" }, 404);
+    }
+
+    const details = {
+      subject: meeting.subject,
+      startTime: meeting.start_time,
+      endTime: meeting.end_time,
+      timezone: meeting.timezone,
+      joinUrl: meeting.join_url,
+      cancelled: meeting.status === "cancelled",
+      name: attendee.name || attendee.email,
+    };
+
+    if (!response || details.cancelled) {
+      return jsonResponse({ success: true, ...details, response: attendee.response || "needs_action" });
+    }
+
+    const { data: recorded, error: rsvpError } = await supabase.rpc("record_meeting_rsvp", {
+      p_meeting_id: meeting.id,
+      p_token: token,
+      p_response: response,
+    });
+
+    if (rsvpError) throw rsvpError;
+    if (!recorded) {
+      // The organizer removed this attendee between the lookup and the answer
+      return jsonResponse({ error: "This meeting link is not valid" }, 404);
+    }
+
+    if (meeting.created_by && attendee.response !== response) {
+      const { error: notifError } = await supabase
+        .from("notifications")
+        .insert({
+          user_id: meeting.created_by,
+          message: `${attendee.name || attendee.email} ${RESPONSE_LABELS[response]} your meeting: "${meeting.subject}"`,
+          notification_type: "meeting_response",
+          status: "unread",
+        });
+
+      if (notifError) {
+        console.error("Error creating meeting response notification:", notifError);
+      }
+    }
+
+    console.log(`Recorded ${response} from ${attendee.email} for meeting ${meeting.id}`);
+
+    return jsonResponse({ success: true, ...details, response });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in meeting-rsvp function:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,341 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { isServiceRoleRequest, unauthorizedResponse } from "../_shared/serviceAuth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Stop picking up recipients after this long so the run ends inside the function timeout;
+// the next run (scheduled, or triggered by the next bulk send) carries on where this one stopped
+const RUN_BUDGET_MS = 100 * 1000;
+const LEASE_MS = 3 * 60 * 1000;
+const PAGE_SIZE = 20;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2 * 60 * 1000;
+// A recipient left in 'sending' this long belongs to a run that died; it may or may not have gone out
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface BulkJob {
+  id: string;
+  status: string;
+  sender_email: string;
+  rate_per_minute: number;
+  started_at: string | null;
+  created_by: string | null;
+}
+
+interface BulkRecipient {
+  id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  entity_type: string | null;
+  entity_id: string | null;
+  subject: string;
+  body: string | null;
+  attempt_count: number;
+}
+
+interface SendEmailError {
+  error?: string;
+  retryAfter?: number;
+  suppressed?: boolean;
+  reason?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Same wording as SUPPRESSION_REASON_LABELS in the app, since both end up in the delivery report
+const SKIP_REASONS: Record<string, string> = {
+  unsubscribed: "Unsubscribed",
+  hard_bounce: "Hard bounce",
+  manual: "Suppressed manually",
+};
+
+// Addresses on the suppression list, with the reason shown in the delivery report
+async function findSkipReasons(supabase: SupabaseClient, emails: string[]): Promise<Map<string, string>> {
+  const reasons = new Map<string, string>();
+
+  const { data: suppressed, error } = await supabase
+    .from("email_suppressions")
+    .select("email, reason")
+    .in("email", emails.map(email => email.trim().toLowerCase()));
+
+  if (error) {
+    console.error("Error checking the suppression list:", error);
+  }
+  (suppressed || []).forEach(row => reasons.set(row.email, SKIP_REASONS[row.reason] || "Suppressed"));
+
+  return reasons;
+}
+
+// Recount from the recipient rows so the job totals stay right across overlapping runs
+async function refreshJobCounts(supabase: SupabaseClient, jobId: string) {
+  const { data: rows, error } = await supabase
+    .from("bulk_email_recipients")
+    .select("status")
+    .eq("job_id", jobId);
+
+  if (error) {
+    console.error(`Error counting recipients for job ${jobId}:`, error);
+    return null;
+  }
+
+  const count = (status: string) => (rows || []).filter(r => r.status === status).length;
+  const counts = {
+    sent_count: count("sent"),
+    failed_count: count("failed"),
+    skipped_count: count("skipped") + count("cancelled"),
+  };
+  const open = count("pending") + count("sending");
+
+  await supabase.from("bulk_email_jobs").update(counts).eq("id", jobId);
+  return { ...counts, open };
+}
+
+async function processJob(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  job: BulkJob,
+  deadline: number
+): Promise<{ sent: number; throttled: boolean }> {
+  const spacingMs = Math.ceil(60000 / job.rate_per_minute);
+  let sent = 0;
+
+  await supabase
+    .from("bulk_email_recipients")
+    .update({ status: "failed", last_error: "Interrupted while sending; check Email History before resending" })
+    .eq("job_id", job.id)
+    .eq("status", "sending")
+    .lte("last_attempt_at", new Date(Date.now() - STALE_SENDING_MS).toISOString());
+
+  while (Date.now() < deadline) {
+    // A cancel from the UI takes effect before the next page
+    const { data: current } = await supabase.from("bulk_email_jobs").select("status").eq("id", job.id).single();
+    if (current?.status === "cancelled") break;
+
+    const { data: page, error: pageError } = await supabase
+      .from("bulk_email_recipients")
+      .select("id, recipient_email, recipient_name, entity_type, entity_id, subject, body, attempt_count")
+      .eq("job_id", job.id)
+      .eq("status", "pending")
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
+      .order("created_at")
+      .limit(PAGE_SIZE);
+
+    if (pageError) throw pageError;
+    if (!page || page.length === 0) break;
+
+    const skipReasons = await findSkipReasons(supabase, page.map(r => r.recipient_email));
+
+    for (const recipient of page as BulkRecipient[]) {
+      if (Date.now() >= deadline) break;
+
+      const skipReason = skipReasons.get(recipient.recipient_email.trim().toLowerCase());
+      if (skipReason) {
+        await supabase
+          .from("bulk_email_recipients")
+          .update({ status: "skipped", skip_reason: skipReason })
+          .eq("id", recipient.id)
+          .eq("status", "pending");
+        continue;
+      }
+
+      const { data: claimed } = await supabase
+        .from("bulk_email_recipients")
+        .update({ status: "sending", last_attempt_at: new Date().toISOString(), attempt_count: recipient.attempt_count + 1 })
+        .eq("id", recipient.id)
+        .eq("status", "pending")
+        .select("id");
+      if (!claimed || claimed.length === 0) continue;
+
+      const startedAt = Date.now();
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${supabaseServiceKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          to: recipient.recipient_email,
+          toName: recipient.recipient_name || recipient.recipient_email,
+          subject: recipient.subject,
+          body: recipient.body || "",
+          from: job.sender_email,
+          entityType: recipient.entity_type,
+          entityId: recipient.entity_id,
+          sentBy: job.created_by,
+          marketing: true,
+        }),
+      }).catch((fetchError: unknown) => fetchError instanceof Error ? fetchError : new Error(String(fetchError)));
+
+      if (response instanceof Error || !response.ok) {
+        const result: SendEmailError = response instanceof Error ? {} : await response.json().catch(() => ({}));
+
+        if (result.suppressed) {
+          // Suppressed after the page was checked, e.g. an unsubscribe from an earlier email in this job
+          await supabase
+            .from("bulk_email_recipients")
+            .update({ status: "skipped", skip_reason: SKIP_REASONS[result.reason || ""] || "Suppressed", attempt_count: recipient.attempt_count })
+            .eq("id", recipient.id);
+          continue;
+        }
+
+        if (!(response instanceof Error) && response.status === 429) {
+          // Throttling is not the recipient's fault: put it back without using an attempt and pause the job
+          const retryAfterMs = (Number(result.retryAfter) || 60) * 1000;
+          const resumeAt = new Date(Date.now() + retryAfterMs).toISOString();
+          await supabase
+            .from("bulk_email_recipients")
+            .update({ status: "pending", attempt_count: recipient.attempt_count, next_attempt_at: resumeAt })
+            .eq("id", recipient.id);
+          await supabase
+            .from("bulk_email_jobs")
+            .update({ resume_at: resumeAt, last_error: "Throttled by Microsoft Graph, sending resumes automatically" })
+            .eq("id", job.id);
+          console.warn(`Job ${job.id} throttled, resuming at ${resumeAt}`);
+          return { sent, throttled: true };
+        }
+
+        const message = response instanceof Error
+          ? response.message
+          : result.error || `send-email returned ${response.status}`;
+        const attempts = recipient.attempt_count + 1;
+        console.error(`Failed to send bulk email ${recipient.id} to ${recipient.recipient_email}: ${message}`);
+
+        await supabase
+          .from("bulk_email_recipients")
+          .update(attempts >= MAX_ATTEMPTS
+            ? { status: "failed", last_error: message }
+            : { status: "pending", last_error: message, next_attempt_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() })
+          .eq("id", recipient.id);
+      } else {
+        const result = await response.json().catch(() => ({}));
+        await supabase
+          .from("bulk_email_recipients")
+          .update({ status: "sent", sent_at: new Date().toISOString(), email_history_id: result.emailId || null, last_error: null })
+          .eq("id", recipient.id);
+        sent++;
+      }
+
+      // Keep to the job's rate; send-email itself takes a few seconds, so this often doesn't wait
+      const wait = spacingMs - (Date.now() - startedAt);
+      if (wait > 0) await sleep(Math.min(wait, Math.max(0, deadline - Date.now())));
+    }
+  }
+
+  return { sent, throttled: false };
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    console.log("Starting process-bulk-email-jobs function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // BulkEmailModal passes the job it just queued so it starts without waiting for the schedule
+    const { jobId } = await req.json().catch(() => ({ jobId: undefined }));
+
+    // The scheduler runs every job; a signed-in user may only start a job of their own
+    let requesterId: string | null = null;
+    if (!isServiceRoleRequest(req)) {
+      const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+      const { data: { user } } = token ? await supabase.auth.getUser(token) : { data: { user: null } };
+      if (!user || typeof jobId !== "string") return unauthorizedResponse(corsHeaders);
+      requesterId = user.id;
+    }
+    const deadline = Date.now() + RUN_BUDGET_MS;
+    const now = new Date().toISOString();
+
+    let query = supabase
+      .from("bulk_email_jobs")
+      .select("id, status, rate_per_minute, started_at, created_by, sender_email")
+      .in("status", ["queued", "processing"])
+      .or(`resume_at.is.null,resume_at.lte.${now}`)
+      .order("created_at");
+    if (jobId) query = query.eq("id", jobId);
+    if (requesterId) query = query.eq("created_by", requesterId);
+
+    const { data: jobs, error: jobsError } = await query;
+    if (jobsError) {
+      console.error("Error fetching bulk email jobs:", jobsError);
+      throw jobsError;
+    }
+
+    let sent = 0;
+    const processed: string[] = [];
+    const errors: string[] = [];
+
+    for (const job of (jobs || []) as BulkJob[]) {
+      if (Date.now() >= deadline) break;
+
+      // Take the lease so overlapping runs don't send the same job faster than its rate
+      const { data: leased } = await supabase
+        .from("bulk_email_jobs")
+        .update({
+          status: "processing",
+          started_at: job.started_at || new Date().toISOString(),
+          locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+          resume_at: null,
+        })
+        .eq("id", job.id)
+        .in("status", ["queued", "processing"])
+        .or(`locked_until.is.null,locked_until.lte.${new Date().toISOString()}`)
+        .select("id");
+      if (!leased || leased.length === 0) continue;
+
+      try {
+        const result = await processJob(supabase, supabaseUrl, supabaseServiceKey, job, deadline);
+        sent += result.sent;
+        processed.push(job.id);
+
+        const counts = await refreshJobCounts(supabase, job.id);
+        const finished = counts !== null && counts.open === 0;
+        await supabase
+          .from("bulk_email_jobs")
+          .update({
+            locked_until: null,
+            ...(result.throttled ? {} : { last_error: null }),
+            ...(finished ? { status: "completed", completed_at: new Date().toISOString() } : {}),
+          })
+          .eq("id", job.id)
+          .neq("status", "cancelled");
+
+        // Graph throttles per mailbox, and other jobs may share it; leave them for the next run
+        if (result.throttled) break;
+      } catch (jobError: unknown) {
+        const message = jobError instanceof Error ? jobError.message : String(jobError);
+        console.error(`Error processing bulk email job ${job.id}:`, jobError);
+        errors.push(`Job ${job.id}: ${message}`);
+        await supabase.from("bulk_email_jobs").update({ locked_until: null, last_error: message }).eq("id", job.id);
+      }
+    }
+
+    console.log(`Bulk email run complete: ${sent} sent across ${processed.length} job(s), ${errors.length} errors`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Sent ${sent} bulk email(s)`, sent, jobs: processed, errors }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in process-bulk-email-jobs:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
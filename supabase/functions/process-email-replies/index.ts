@@ -42,6 +42,8 @@ interface ReplyInfo {
   from_name: string | null;
   subject: string;
   body_preview: string;
+  body: string | null; // new text only, without the quoted thread, as plain text
+  conversation_id: string | null;
   received_at: string;
   graph_message_id: string;
   in_reply_to: string | null;
@@ -56,10 +58,14 @@ async function fetchInboxReplies(
   
   try {
     // Fetch recent messages from inbox with headers
-    const searchUrl = `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(senderEmail)}/mailFolders/Inbox/messages?$filter=receivedDateTime ge ${sinceDate}&$select=id,subject,from,receivedDateTime,bodyPreview,internetMessageHeaders,conversationId&$top=100&$orderby=receivedDateTime desc`;
+    const searchUrl = `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(senderEmail)}/mailFolders/Inbox/messages?$filter=receivedDateTime ge ${sinceDate}&$select=id,subject,from,receivedDateTime,bodyPreview,uniqueBody,internetMessageHeaders,conversationId&$top=100&$orderby=receivedDateTime desc`;
 
     const response = await fetch(searchUrl, {
-      headers: { Authorization: `Bearer ${accessToken}` },
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        // Plain text bodies: the CRM shows replies as text rather than rendering external HTML
+        Prefer: 'outlook.body-content-type="text"',
+      },
     });
 
     if (!response.ok) {
@@ -97,6 +103,8 @@ async function fetchInboxReplies(
           from_name: msg.from?.emailAddress?.name || null,
           subject: msg.subject || '',
           body_preview: (msg.bodyPreview || '').substring(0, 500),
+          body: msg.uniqueBody?.content || null,
+          conversation_id: msg.conversationId || null,
           received_at: msg.receivedDateTime,
           graph_message_id: msg.id,
           in_reply_to: replyToMessageId,
@@ -145,7 +153,7 @@ serve(async (req: Request) => {
     
     const { data: sentEmails, error: sentError } = await supabase
       .from('email_history')
-      .select('id, sender_email, recipient_email, subject, message_id, sent_by, reply_count')
+      .select('id, sender_email, recipient_email, subject, message_id, sent_by, reply_count, thread_id')
       .gte('sent_at', sinceDate)
       .not('message_id', 'is', null)
       .not('status', 'eq', 'bounced')
@@ -234,6 +242,8 @@ serve(async (req: Request) => {
               from_name: reply.from_name,
               subject: reply.subject,
               body_preview: reply.body_preview,
+              body: reply.body,
+              conversation_id: reply.conversation_id,
               received_at: reply.received_at,
               graph_message_id: reply.graph_message_id,
             });
@@ -256,6 +266,11 @@ serve(async (req: Request) => {
           if (isFirstReply) {
             updateData.replied_at = reply.received_at;
           }
+
+          // Emails sent before conversation ids were captured join the thread here
+          if (!originalEmail.thread_id && reply.conversation_id) {
+            updateData.thread_id = reply.conversation_id;
+          }
           
           const { error: updateError } = await supabase
             .from('email_history')
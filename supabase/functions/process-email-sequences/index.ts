@@ -0,0 +1,318 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { isServiceRoleRequest, unauthorizedResponse } from "../_shared/serviceAuth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// send-email waits for the sent message ID, so keep each run well inside the function timeout
+const BATCH_SIZE = 20;
+const MAX_FAILURES = 3;
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  sender_email: string;
+  current_step: number;
+  failure_count: number;
+  enrolled_by: string | null;
+}
+
+interface SequenceStep {
+  step_order: number;
+  wait_days: number;
+  email_templates: { subject: string; body: string } | null;
+}
+
+type TemplateContext = Record<string, string | number | null | undefined>;
+
+// Template rendering, kept in sync with src/utils/emailTemplateEngine.ts
+const HTML_VARIABLES = new Set(["signature"]);
+const VARIABLE_PATTERN = /\{\{\s*([a-z_][a-z0-9_]*)\s*(?:\|([^}]*))?\}\}/gi;
+const SECTION_PATTERN = /\{\{#(if|unless)\s+([a-z_][a-z0-9_]*)\s*\}\}((?:(?!\{\{#(?:if|unless)\b)[\s\S])*?)\{\{\/\1\}\}/i;
+const BLOCK_TAG_PARAGRAPH = /<p[^>]*>\s*(\{\{(?:#(?:if|unless)\s+[a-z0-9_]+|else|\/(?:if|unless))\s*\}\})\s*(?:<br\s*\/?>)?\s*<\/p>/gi;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const valueOf = (context: TemplateContext, name: string) => {
+  const value = context[name.toLowerCase()];
+  return value === null || value === undefined ? "" : String(value).trim();
+};
+
+const renderTemplate = (text: string, context: TemplateContext, html: boolean) => {
+  let output = html ? text.replace(BLOCK_TAG_PARAGRAPH, "$1") : text;
+
+  let section = output.match(SECTION_PATTERN);
+  while (section) {
+    const [whole, kind, name, inner] = section;
+    const [whenTrue, whenFalse = ""] = inner.split(/\{\{\s*else\s*\}\}/i);
+    const present = valueOf(context, name) !== "";
+    const show = kind.toLowerCase() === "if" ? present : !present;
+    output = output.replace(whole, () => (show ? whenTrue : whenFalse));
+    section = output.match(SECTION_PATTERN);
+  }
+
+  return output.replace(VARIABLE_PATTERN, (_match, rawName: string, fallback?: string) => {
+    const name = rawName.toLowerCase();
+    const value = valueOf(context, name);
+    if (value === "") return fallback !== undefined ? fallback.trim() : "";
+    return html && !HTML_VARIABLES.has(name) ? escapeHtml(value) : value;
+  });
+};
+
+const CLOSED_STAGES = ["Won", "Lost", "Dropped"];
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" });
+
+const formatMoney = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat("en-GB", { style: "currency", currency, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+// Recipient, linked account, most recent open deal and sender values for one enrolment
+const buildTemplateContext = async (
+  supabase: ReturnType<typeof createClient>,
+  enrollment: Enrollment
+): Promise<TemplateContext> => {
+  const { data: record } = enrollment.lead_id
+    ? await supabase.from("leads").select("lead_name, company_name, position, email, phone_no, website, industry, account_id").eq("id", enrollment.lead_id).maybeSingle()
+    : await supabase.from("contacts").select("contact_name, company_name, position, email, phone_no, website, industry, account_id").eq("id", enrollment.contact_id).maybeSingle();
+
+  const name = (record && ("lead_name" in record ? record.lead_name : record.contact_name)) || enrollment.recipient_name || "";
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  const accountId = record?.account_id || null;
+
+  const [accountRes, dealsRes, profileRes, preferencesRes] = await Promise.all([
+    accountId
+      ? supabase.from("accounts").select("company_name, industry, website, country").eq("id", accountId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    enrollment.contact_id || accountId
+      ? supabase
+          .from("deals")
+          .select("deal_name, stage, total_contract_value, currency_type, expected_closing_date")
+          .or([
+            enrollment.contact_id ? `contact_id.eq.${enrollment.contact_id}` : null,
+            accountId ? `account_id.eq.${accountId}` : null,
+          ].filter(Boolean).join(","))
+          .order("modified_at", { ascending: false })
+          .limit(20)
+      : Promise.resolve({ data: [] }),
+    enrollment.enrolled_by
+      ? supabase.from("profiles").select("full_name, phone").eq("id", enrollment.enrolled_by).maybeSingle()
+      : Promise.resolve({ data: null }),
+    enrollment.enrolled_by
+      ? supabase.from("user_preferences").select("email_signature").eq("user_id", enrollment.enrolled_by).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const account = accountRes.data;
+  const deals = (dealsRes.data || []) as { deal_name: string; stage: string; total_contract_value: number | null; currency_type: string | null; expected_closing_date: string | null }[];
+  const deal = deals.find(d => !CLOSED_STAGES.includes(d.stage)) || deals[0];
+  const senderName = profileRes.data?.full_name || "";
+
+  return {
+    name,
+    contact_name: name,
+    lead_name: enrollment.lead_id ? name : null,
+    first_name: firstName || "",
+    last_name: rest.join(" "),
+    email: enrollment.recipient_email,
+    phone: record?.phone_no,
+    position: record?.position,
+    company_name: record?.company_name || account?.company_name,
+    website: record?.website,
+    industry: record?.industry,
+    account_name: account?.company_name,
+    account_industry: account?.industry,
+    account_website: account?.website,
+    account_country: account?.country,
+    deal_name: deal?.deal_name,
+    deal_stage: deal?.stage,
+    deal_value: deal && deal.total_contract_value !== null ? formatMoney(deal.total_contract_value, deal.currency_type || "EUR") : null,
+    deal_closing_date: deal?.expected_closing_date ? formatDate(deal.expected_closing_date) : null,
+    sender_name: senderName,
+    sender_first_name: senderName.split(/\s+/)[0] || "",
+    sender_email: enrollment.sender_email,
+    sender_phone: profileRes.data?.phone,
+    signature: preferencesRes.data?.email_signature,
+    today: formatDate(new Date().toISOString()),
+  };
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse(corsHeaders);
+  }
+
+  try {
+    console.log("Starting process-email-sequences function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+
+    const { data: due, error: dueError } = await supabase
+      .from("email_sequence_enrollments")
+      .select("id, sequence_id, lead_id, contact_id, recipient_email, recipient_name, sender_email, current_step, failure_count, enrolled_by, email_sequences!inner(is_active)")
+      .eq("status", "active")
+      .eq("email_sequences.is_active", true)
+      .lte("next_send_at", now.toISOString())
+      .order("next_send_at")
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error("Error fetching due enrollments:", dueError);
+      throw dueError;
+    }
+
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No sequence emails due", sent: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let sent = 0;
+    let completed = 0;
+    const errors: string[] = [];
+
+    for (const enrollment of due as Enrollment[]) {
+      // Only touch enrolments still active, so a reply or bounce recorded meanwhile wins
+      const finish = (updates: Record<string, unknown>) =>
+        supabase.from("email_sequence_enrollments").update(updates).eq("id", enrollment.id).eq("status", "active");
+
+      const { data: steps, error: stepsError } = await supabase
+        .from("email_sequence_steps")
+        .select("step_order, wait_days, email_templates(subject, body)")
+        .eq("sequence_id", enrollment.sequence_id)
+        .order("step_order");
+
+      if (stepsError) {
+        errors.push(`Enrollment ${enrollment.id}: ${stepsError.message}`);
+        continue;
+      }
+
+      const orderedSteps = (steps || []) as unknown as SequenceStep[];
+      const step = orderedSteps[enrollment.current_step];
+      if (!step) {
+        // Steps were removed after enrolment
+        await finish({ status: "completed", next_send_at: null });
+        completed++;
+        continue;
+      }
+
+      // Don't keep mailing an address that has already bounced
+      const { count: bounced } = await supabase
+        .from("email_history")
+        .select("id", { count: "exact", head: true })
+        .eq("recipient_email", enrollment.recipient_email)
+        .eq("status", "bounced");
+
+      if (bounced) {
+        await finish({ status: "bounced", stopped_at: now.toISOString(), next_send_at: null });
+        continue;
+      }
+
+      if (!step.email_templates) {
+        const message = `Template for step ${enrollment.current_step + 1} not found`;
+        errors.push(`Enrollment ${enrollment.id}: ${message}`);
+        await finish({ status: "failed", last_error: message, next_send_at: null });
+        continue;
+      }
+
+      try {
+        const context = await buildTemplateContext(supabase, enrollment);
+
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${supabaseServiceKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: enrollment.recipient_email,
+            toName: context.name || enrollment.recipient_email,
+            subject: renderTemplate(step.email_templates.subject, context, false),
+            body: renderTemplate(step.email_templates.body, context, true),
+            from: enrollment.sender_email,
+            entityType: enrollment.lead_id ? "lead" : "contact",
+            entityId: enrollment.lead_id || enrollment.contact_id,
+            sequenceEnrollmentId: enrollment.id,
+            sentBy: enrollment.enrolled_by,
+            marketing: true,
+          }),
+        });
+
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}));
+          if (result.suppressed) {
+            // Unsubscribed or hard-bounced since enrolment
+            await finish({ status: result.reason === "hard_bounce" ? "bounced" : "stopped", stopped_at: now.toISOString(), last_error: result.error, next_send_at: null });
+            console.log(`Stopped enrollment ${enrollment.id}: ${result.error}`);
+            continue;
+          }
+          throw new Error(result.error || `send-email returned ${response.status}`);
+        }
+
+        const nextStep = orderedSteps[enrollment.current_step + 1];
+        await finish({
+          current_step: enrollment.current_step + 1,
+          last_sent_at: new Date().toISOString(),
+          failure_count: 0,
+          last_error: null,
+          status: nextStep ? "active" : "completed",
+          next_send_at: nextStep ? new Date(Date.now() + nextStep.wait_days * DAY_MS).toISOString() : null,
+        });
+
+        sent++;
+        if (!nextStep) completed++;
+        console.log(`Sent step ${enrollment.current_step + 1} of enrollment ${enrollment.id} to ${enrollment.recipient_email}`);
+      } catch (sendError: unknown) {
+        const message = sendError instanceof Error ? sendError.message : String(sendError);
+        const failures = enrollment.failure_count + 1;
+        console.error(`Failed to send sequence email for enrollment ${enrollment.id}:`, sendError);
+        errors.push(`Enrollment ${enrollment.id}: ${message}`);
+
+        await finish(failures >= MAX_FAILURES
+          ? { status: "failed", failure_count: failures, last_error: message, next_send_at: null }
+          : { failure_count: failures, last_error: message, next_send_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString() });
+      }
+    }
+
+    console.log(`Email sequences complete: ${sent} sent, ${completed} completed, ${errors.length} errors`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Sent ${sent} sequence email(s)`, sent, completed, errors }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in process-email-sequences:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
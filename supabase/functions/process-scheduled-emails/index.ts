@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { isServiceRoleRequest, unauthorizedResponse } from "../_shared/serviceAuth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// send-email waits for the sent message ID, so keep each run well inside the function timeout
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+// A row left in 'sending' this long belongs to a run that died; it may or may not have gone out
+const STALE_SENDING_MS = 30 * 60 * 1000;
+
+interface ScheduledEmail {
+  id: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  sender_email: string;
+  subject: string;
+  body: string | null;
+  attachments: unknown[] | null;
+  entity_type: string | null;
+  entity_id: string | null;
+  batch_id: string | null;
+  attempt_count: number;
+  created_by: string | null;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse(corsHeaders);
+  }
+
+  try {
+    console.log("Starting process-scheduled-emails function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+
+    // Not retried automatically, to avoid a duplicate; the user can reschedule from the Scheduled view
+    const { error: staleError } = await supabase
+      .from("scheduled_emails")
+      .update({ status: "failed", last_error: "Interrupted while sending; check Email History before rescheduling" })
+      .eq("status", "sending")
+      .lte("last_attempt_at", new Date(now.getTime() - STALE_SENDING_MS).toISOString());
+
+    if (staleError) {
+      console.error("Error releasing stale scheduled emails:", staleError);
+    }
+
+    const retryBefore = new Date(now.getTime() - RETRY_DELAY_MS).toISOString();
+    const { data: due, error: dueError } = await supabase
+      .from("scheduled_emails")
+      .select("id, recipient_email, recipient_name, sender_email, subject, body, attachments, entity_type, entity_id, batch_id, attempt_count, created_by")
+      .eq("status", "pending")
+      .lte("scheduled_at", now.toISOString())
+      .or(`last_attempt_at.is.null,last_attempt_at.lte.${retryBefore}`)
+      .order("scheduled_at")
+      .limit(BATCH_SIZE);
+
+    if (dueError) {
+      console.error("Error fetching due scheduled emails:", dueError);
+      throw dueError;
+    }
+
+    if (!due || due.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No scheduled emails due", sent: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let sent = 0;
+    let failed = 0;
+    const errors: string[] = [];
+
+    for (const email of due as ScheduledEmail[]) {
+      // Claim the row; one edited or cancelled since it was fetched is no longer pending
+      const { data: claimed, error: claimError } = await supabase
+        .from("scheduled_emails")
+        .update({ status: "sending", last_attempt_at: new Date().toISOString(), attempt_count: email.attempt_count + 1 })
+        .eq("id", email.id)
+        .eq("status", "pending")
+        .select("id");
+
+      if (claimError) {
+        errors.push(`Scheduled email ${email.id}: ${claimError.message}`);
+        continue;
+      }
+      if (!claimed || claimed.length === 0) continue;
+
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${supabaseServiceKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: email.recipient_email,
+            toName: email.recipient_name || email.recipient_email,
+            subject: email.subject,
+            body: email.body || "",
+            from: email.sender_email,
+            attachments: email.attachments || [],
+            entityType: email.entity_type,
+            entityId: email.entity_id,
+            sentBy: email.created_by,
+            // A bulk send scheduled for later is a campaign like any other bulk send
+            marketing: !!email.batch_id,
+          }),
+        });
+
+        const result = await response.json().catch(() => ({}));
+        if (result.suppressed) {
+          // Retrying won't help until someone lifts the suppression
+          await supabase.from("scheduled_emails").update({ status: "failed", last_error: result.error }).eq("id", email.id);
+          failed++;
+          console.log(`Scheduled email ${email.id} not sent: ${result.error}`);
+          continue;
+        }
+        if (!response.ok) {
+          throw new Error(result.error || `send-email returned ${response.status}`);
+        }
+
+        const sentAt = new Date().toISOString();
+        await supabase
+          .from("scheduled_emails")
+          .update({ status: "sent", sent_at: sentAt, email_history_id: result.emailId || null, last_error: null })
+          .eq("id", email.id);
+
+        // Mirrors what SendEmailModal does after an immediate send
+        if (email.entity_type === "contact" && email.entity_id) {
+          await supabase.from("contacts").update({ last_contacted_at: sentAt }).eq("id", email.entity_id);
+        }
+
+        sent++;
+        console.log(`Sent scheduled email ${email.id} to ${email.recipient_email}`);
+      } catch (sendError: unknown) {
+        const message = sendError instanceof Error ? sendError.message : String(sendError);
+        const attempts = email.attempt_count + 1;
+        console.error(`Failed to send scheduled email ${email.id}:`, sendError);
+        errors.push(`Scheduled email ${email.id}: ${message}`);
+
+        // Back to pending for a retry after RETRY_DELAY_MS, until the attempts run out
+        await supabase
+          .from("scheduled_emails")
+          .update({ status: attempts >= MAX_ATTEMPTS ? "failed" : "pending", last_error: message })
+          .eq("id", email.id);
+        if (attempts >= MAX_ATTEMPTS) failed++;
+      }
+    }
+
+    console.log(`Scheduled emails complete: ${sent} sent, ${failed} failed, ${errors.length} errors`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Sent ${sent} scheduled email(s)`, sent, failed, errors }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in process-scheduled-emails:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,53 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { isServiceRoleRequest, unauthorizedResponse } from "../_shared/serviceAuth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Nightly rescoring of every lead and contact; event triggers keep scores current during the day,
+// this run applies recency decay and picks up meetings that have since ended
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse(corsHeaders);
+  }
+
+  try {
+    console.log("Starting recalculate-scores function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const startedAt = Date.now();
+    const { data: recordCount, error } = await supabase.rpc("recalculate_all_scores");
+
+    if (error) {
+      console.error("Error recalculating scores:", error);
+      throw error;
+    }
+
+    console.log(`Recalculated ${recordCount} scores in ${Date.now() - startedAt}ms`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Recalculated ${recordCount} scores`, recordCount }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in recalculate-scores:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
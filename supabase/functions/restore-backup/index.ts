@@ -1,10 +1,117 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Tables to restore in order (respecting foreign key constraints)
+const RESTORE_ORDER = [
+  'profiles',
+  'user_roles',
+  'user_preferences',
+  'dashboard_preferences',
+  'accounts',
+  'contacts',
+  'leads',
+  'pipeline_stages',
+  'deals',
+  'deal_stage_history',
+  'deal_action_items',
+  'lead_action_items',
+  'notifications',
+  'saved_filters',
+  'yearly_revenue_targets',
+  'page_permissions',
+];
+
+// Current users are never removed by a restore
+const NEVER_DELETE = ['profiles', 'user_roles'];
+
+// overwrite:     table ends up matching the backup (existing rows overwritten, newer rows deleted)
+// skip_existing: rows still present keep their current values; missing rows come back, newer rows are deleted
+// only_missing:  only rows missing from the table come back; nothing is overwritten or deleted
+const STRATEGIES = ['overwrite', 'skip_existing', 'only_missing'];
+type Strategy = 'overwrite' | 'skip_existing' | 'only_missing';
+
+const BATCH_SIZE = 100;
+const PAGE_SIZE = 1000;
+
+type Row = Record<string, unknown>;
+
+interface TablePlan {
+  table: string;
+  backupRows: number;
+  toInsert: Row[];
+  toOverwrite: Row[];
+  toDelete: string[];
+  unchanged: number;
+  skipped: number;
+}
+
+// Key order differs between the backup file and a fresh select, so compare with sorted keys
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const obj = value as Row;
+  return `{${Object.keys(obj).sort().map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+};
+
+// Only the columns present in the backup row are compared; columns added since are ignored
+const isSameRow = (backupRow: Row, currentRow: Row) =>
+  Object.keys(backupRow).every(key => stableStringify(backupRow[key]) === stableStringify(currentRow[key]));
+
+async function fetchCurrentRows(supabase: SupabaseClient, table: string): Promise<Map<string, Row>> {
+  const rows = new Map<string, Row>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+    (data || []).forEach((row: Row) => rows.set(String(row.id), row));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function planTable(supabase: SupabaseClient, table: string, backupRows: Row[], strategy: Strategy): Promise<TablePlan> {
+  const current = await fetchCurrentRows(supabase, table);
+  const backupIds = new Set(backupRows.map(row => String(row.id)));
+  const plan: TablePlan = { table, backupRows: backupRows.length, toInsert: [], toOverwrite: [], toDelete: [], unchanged: 0, skipped: 0 };
+
+  for (const row of backupRows) {
+    const existing = current.get(String(row.id));
+    if (!existing) {
+      plan.toInsert.push(row);
+    } else if (isSameRow(row, existing)) {
+      plan.unchanged++;
+    } else if (strategy === 'overwrite') {
+      plan.toOverwrite.push(row);
+    } else {
+      plan.skipped++;
+    }
+  }
+
+  if (strategy !== 'only_missing' && !NEVER_DELETE.includes(table)) {
+    plan.toDelete = [...current.keys()].filter(id => !backupIds.has(id));
+  }
+
+  return plan;
+}
+
+const toReport = (plan: TablePlan) => ({
+  table: plan.table,
+  backup_rows: plan.backupRows,
+  inserted: plan.toInsert.length,
+  overwritten: plan.toOverwrite.length,
+  deleted: plan.toDelete.length,
+  unchanged: plan.unchanged,
+  skipped: plan.skipped,
+});
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -19,9 +126,6 @@ Deno.serve(async (req) => {
       throw new Error('Missing authorization header');
     }
 
-    // Create admin client for restore operations
-    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
-    
     // Create user client for auth check
     const supabaseUser = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
       global: { headers: { Authorization: authHeader } }
@@ -33,6 +137,11 @@ Deno.serve(async (req) => {
       throw new Error('Unauthorized');
     }
 
+    // Create admin client for restore operations; the audit triggers attribute its changes to the admin
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      global: { headers: { 'x-audit-source': 'restore-backup', 'x-audit-actor': user.id } }
+    });
+
     // Check if user is admin
     const { data: roleData } = await supabaseAdmin
       .from('user_roles')
@@ -45,12 +154,15 @@ Deno.serve(async (req) => {
       throw new Error('Only admins can restore backups');
     }
 
-    const { backupId } = await req.json();
+    const { backupId, tables, strategy = 'overwrite', dryRun = false } = await req.json();
     if (!backupId) {
       throw new Error('Backup ID is required');
     }
+    if (!STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown merge strategy: ${strategy}`);
+    }
 
-    console.log('Starting restore for backup:', backupId, 'by user:', user.email);
+    console.log(`Starting ${dryRun ? 'dry-run ' : ''}restore for backup:`, backupId, 'strategy:', strategy, 'by user:', user.email);
 
     // Get backup metadata
     const { data: backup, error: backupError } = await supabaseAdmin
@@ -82,6 +194,41 @@ Deno.serve(async (req) => {
       throw new Error('Invalid backup file format');
     }
 
+    // Optional: include audit logs if they were in the backup
+    const restoreOrder = [...RESTORE_ORDER];
+    if (manifest.include_audit_logs && backupData['security_audit_log']) {
+      restoreOrder.push('security_audit_log');
+    }
+
+    // Selected tables (all by default), kept in foreign key order
+    const requested: string[] | null = Array.isArray(tables) && tables.length > 0 ? tables : null;
+    const unknownTables = (requested || []).filter(t => !restoreOrder.includes(t));
+    if (unknownTables.length > 0) {
+      throw new Error(`Tables cannot be restored: ${unknownTables.join(', ')}`);
+    }
+    const selectedTables = restoreOrder.filter(t => backupData[t] && (!requested || requested.includes(t)));
+    if (selectedTables.length === 0) {
+      throw new Error('None of the selected tables are in this backup');
+    }
+
+    // Work out what each table would go through before touching anything
+    const plans: TablePlan[] = [];
+    for (const tableName of selectedTables) {
+      plans.push(await planTable(supabaseAdmin, tableName, backupData[tableName], strategy));
+    }
+
+    const report = plans.map(toReport);
+
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({ success: true, dry_run: true, strategy, tables: report }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
+    }
+
     // Log restore start
     await supabaseAdmin.rpc('log_security_event', {
       p_action: 'RESTORE_STARTED',
@@ -89,90 +236,54 @@ Deno.serve(async (req) => {
       p_resource_id: backupId,
       p_details: {
         backup_file: backup.file_name,
-        tables_count: manifest.tables.length,
-        records_count: manifest.total_records,
+        strategy,
+        tables: selectedTables,
+        records_count: plans.reduce((sum, p) => sum + p.backupRows, 0),
       }
     });
 
-    // Tables to restore in order (respecting foreign key constraints)
-    const restoreOrder = [
-      'profiles',
-      'user_roles',
-      'user_preferences',
-      'dashboard_preferences',
-      'accounts',
-      'contacts',
-      'leads',
-      'deals',
-      'deal_action_items',
-      'lead_action_items',
-      'notifications',
-      'saved_filters',
-      'yearly_revenue_targets',
-      'page_permissions',
-    ];
-
-    // Optional: include audit logs if they were in the backup
-    if (manifest.include_audit_logs && backupData['security_audit_log']) {
-      restoreOrder.push('security_audit_log');
-    }
-
     const errors: string[] = [];
     const restoredTables: string[] = [];
 
-    // Restore each table
-    for (const tableName of restoreOrder) {
-      if (!backupData[tableName]) {
-        console.log(`Skipping ${tableName} - not in backup`);
-        continue;
-      }
+    // Children first when deleting, so rows are not blocked by references from rows about to go
+    for (const plan of [...plans].reverse()) {
+      for (let i = 0; i < plan.toDelete.length; i += BATCH_SIZE) {
+        const batch = plan.toDelete.slice(i, i + BATCH_SIZE);
+        const { error: deleteError } = await supabaseAdmin
+          .from(plan.table)
+          .delete()
+          .in('id', batch);
 
-      try {
-        const records = backupData[tableName];
-        
-        if (records.length === 0) {
-          console.log(`Skipping ${tableName} - no records`);
-          restoredTables.push(tableName);
-          continue;
+        if (deleteError) {
+          console.warn(`Warning deleting ${plan.table}:`, deleteError.message);
+          errors.push(`${plan.table}: ${deleteError.message}`);
         }
+      }
+    }
 
-        // Delete existing data first (for non-critical tables)
-        // Skip deletion for profiles and user_roles to preserve current users
-        if (!['profiles', 'user_roles'].includes(tableName)) {
-          const { error: deleteError } = await supabaseAdmin
-            .from(tableName)
-            .delete()
-            .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all
-
-          if (deleteError) {
-            console.warn(`Warning deleting ${tableName}:`, deleteError.message);
-          }
-        }
+    // Parents first when writing
+    for (const plan of plans) {
+      const rows = [...plan.toInsert, ...plan.toOverwrite];
+      let tableFailed = false;
 
-        // Insert backup data in batches
-        const batchSize = 100;
-        for (let i = 0; i < records.length; i += batchSize) {
-          const batch = records.slice(i, i + batchSize);
-          
-          const { error: insertError } = await supabaseAdmin
-            .from(tableName)
-            .upsert(batch, { 
-              onConflict: 'id',
-              ignoreDuplicates: false 
-            });
-
-          if (insertError) {
-            console.warn(`Warning inserting ${tableName}:`, insertError.message);
-            errors.push(`${tableName}: ${insertError.message}`);
-          }
-        }
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        const batch = rows.slice(i, i + BATCH_SIZE);
+        const { error: upsertError } = await supabaseAdmin
+          .from(plan.table)
+          .upsert(batch, {
+            onConflict: 'id',
+            ignoreDuplicates: false
+          });
 
-        restoredTables.push(tableName);
-        console.log(`Restored ${tableName}: ${records.length} records`);
-      } catch (err: any) {
-        console.error(`Error restoring ${tableName}:`, err);
-        errors.push(`${tableName}: ${err.message}`);
+        if (upsertError) {
+          console.warn(`Warning inserting ${plan.table}:`, upsertError.message);
+          errors.push(`${plan.table}: ${upsertError.message}`);
+          tableFailed = true;
+        }
       }
+
+      if (!tableFailed) restoredTables.push(plan.table);
+      console.log(`Restored ${plan.table}: ${plan.toInsert.length} inserted, ${plan.toOverwrite.length} overwritten, ${plan.toDelete.length} deleted`);
     }
 
     // Log restore completion
@@ -182,7 +293,9 @@ Deno.serve(async (req) => {
       p_resource_id: backupId,
       p_details: {
         backup_file: backup.file_name,
+        strategy,
         restored_tables: restoredTables,
+        summary: report,
         errors: errors,
         success: errors.length === 0,
       }
@@ -193,6 +306,9 @@ Deno.serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         success: errors.length === 0,
+        dry_run: false,
+        strategy,
+        tables: report,
         restored_tables: restoredTables,
         errors: errors,
         message: errors.length === 0 
@@ -0,0 +1,246 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { resolveTimeZone, zonedParts, zonedTimeToUtc } from "../_shared/timezone.ts";
+import { isServiceRoleRequest, unauthorizedResponse } from "../_shared/serviceAuth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BackupSchedule {
+  id: string;
+  frequency: string;
+  day_of_week: number | null;
+  time_of_day: string;
+  retention_days: number | null;
+  is_enabled: boolean | null;
+  next_run_at: string | null;
+  created_by: string | null;
+}
+
+interface ScheduleResult {
+  scheduleId: string;
+  status: "completed" | "failed" | "initialized" | "skipped";
+  nextRunAt?: string;
+  pruned?: number;
+  error?: string;
+}
+
+/**
+ * The first scheduled run strictly after `from`, in the schedule owner's timezone
+ */
+const getNextRunAt = (schedule: BackupSchedule, from: Date, timezone: string): Date => {
+  const [hours, minutes] = (schedule.time_of_day || "00:00").split(":").map(Number);
+  const local = zonedParts(from, timezone);
+  const today = Date.UTC(local.year, local.month - 1, local.day);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(today + offset * DAY_MS);
+    if (schedule.frequency === "weekly" && day.getUTCDay() !== (schedule.day_of_week ?? 0)) continue;
+
+    const candidate = new Date(zonedTimeToUtc(
+      day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hours || 0, minutes || 0, timezone
+    ));
+    if (candidate > from) return candidate;
+  }
+
+  // Unreachable for daily/weekly schedules; fall back to a day later
+  return new Date(from.getTime() + DAY_MS);
+};
+
+// Scheduled backups past the schedule's retention window are removed from storage and the backups table
+async function pruneExpiredBackups(supabase: SupabaseClient, retentionDays: number): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+
+  const { data: expired, error } = await supabase
+    .from("backups")
+    .select("id, file_path")
+    .eq("backup_type", "scheduled")
+    .lt("created_at", cutoff);
+
+  if (error) throw error;
+  if (!expired || expired.length === 0) return 0;
+
+  const { error: storageError } = await supabase.storage
+    .from("backups")
+    .remove(expired.map(b => b.file_path));
+  if (storageError) throw new Error(`Failed to delete backup files: ${storageError.message}`);
+
+  const { error: deleteError } = await supabase
+    .from("backups")
+    .delete()
+    .in("id", expired.map(b => b.id));
+  if (deleteError) throw new Error(`Failed to delete backup records: ${deleteError.message}`);
+
+  console.log(`Pruned ${expired.length} backup(s) older than ${retentionDays} days`);
+  return expired.length;
+}
+
+// Failures go to every admin's notification bell
+async function notifyAdmins(supabase: SupabaseClient, message: string) {
+  const { data: admins, error } = await supabase
+    .from("user_roles")
+    .select("user_id")
+    .eq("role", "admin");
+
+  if (error || !admins || admins.length === 0) {
+    console.error("No admins to notify about backup failure:", error);
+    return;
+  }
+
+  const { error: notifError } = await supabase
+    .from("notifications")
+    .insert(admins.map(a => ({
+      user_id: a.user_id,
+      message,
+      notification_type: "backup_failed",
+      status: "unread",
+    })));
+
+  if (notifError) {
+    console.error("Failed to create backup failure notifications:", notifError);
+  }
+}
+
+const errorMessageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isServiceRoleRequest(req)) {
+    return unauthorizedResponse(corsHeaders);
+  }
+
+  try {
+    console.log("Starting run-scheduled-backups function...");
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: schedules, error: schedulesError } = await supabase
+      .from("backup_schedules")
+      .select("*")
+      .eq("is_enabled", true);
+
+    if (schedulesError) {
+      console.error("Error fetching backup schedules:", schedulesError);
+      throw schedulesError;
+    }
+
+    if (!schedules || schedules.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No enabled backup schedules", results: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Schedule times are in the owner's timezone, like task reminders
+    const ownerIds = [...new Set(schedules.map(s => s.created_by).filter(Boolean))];
+    const { data: owners } = ownerIds.length
+      ? await supabase.from("profiles").select("id, timezone").in("id", ownerIds)
+      : { data: [] };
+    const timezoneFor = (schedule: BackupSchedule) =>
+      resolveTimeZone((owners || []).find(o => o.id === schedule.created_by)?.timezone, DEFAULT_TIMEZONE);
+
+    const now = new Date();
+    const results: ScheduleResult[] = [];
+
+    for (const schedule of schedules as BackupSchedule[]) {
+      const timezone = timezoneFor(schedule);
+      const nextRunAt = getNextRunAt(schedule, now, timezone).toISOString();
+
+      // A new or edited schedule has no next run yet: set it and wait for it
+      if (!schedule.next_run_at) {
+        await supabase.from("backup_schedules").update({ next_run_at: nextRunAt }).eq("id", schedule.id);
+        results.push({ scheduleId: schedule.id, status: "initialized", nextRunAt });
+        continue;
+      }
+
+      if (new Date(schedule.next_run_at) > now) continue;
+
+      // Advance next_run_at first; the conditional update stops an overlapping invocation from running it twice
+      const { data: claimed, error: claimError } = await supabase
+        .from("backup_schedules")
+        .update({ next_run_at: nextRunAt })
+        .eq("id", schedule.id)
+        .eq("next_run_at", schedule.next_run_at)
+        .select("id");
+
+      if (claimError || !claimed || claimed.length === 0) {
+        console.log(`Skipping schedule ${schedule.id} - already claimed by another run`);
+        results.push({ scheduleId: schedule.id, status: "skipped" });
+        continue;
+      }
+
+      const result: ScheduleResult = { scheduleId: schedule.id, status: "completed", nextRunAt };
+      const failures: string[] = [];
+
+      // Same backup logic as the manual "Export All Data" button
+      const { data: backupResponse, error: backupError } = await supabase.functions.invoke("create-backup", {
+        body: { includeAuditLogs: true, scheduleId: schedule.id, createdBy: schedule.created_by },
+      });
+
+      if (backupError || !backupResponse?.success) {
+        const message = backupError ? errorMessageOf(backupError) : backupResponse?.error || "Unknown error";
+        console.error(`Scheduled backup ${schedule.id} failed:`, message);
+        failures.push(`Backup failed: ${message}`);
+      } else {
+        console.log(`Scheduled backup ${schedule.id} created: ${backupResponse.backup?.file_name}`);
+      }
+
+      try {
+        result.pruned = await pruneExpiredBackups(supabase, schedule.retention_days || 30);
+      } catch (err) {
+        console.error(`Retention pruning for schedule ${schedule.id} failed:`, err);
+        failures.push(`Retention cleanup failed: ${errorMessageOf(err)}`);
+      }
+
+      if (failures.length > 0) {
+        result.status = "failed";
+        result.error = failures.join("; ");
+        await notifyAdmins(supabase, `Scheduled backup did not complete. ${result.error}`);
+      }
+
+      const { error: updateError } = await supabase
+        .from("backup_schedules")
+        .update({
+          last_run_at: now.toISOString(),
+          last_status: result.status,
+          last_error: result.error || null,
+        })
+        .eq("id", schedule.id);
+
+      if (updateError) {
+        console.error(`Failed to update schedule ${schedule.id}:`, updateError);
+      }
+
+      results.push(result);
+    }
+
+    const completed = results.filter(r => r.status === "completed").length;
+    const failed = results.filter(r => r.status === "failed").length;
+    console.log(`Scheduled backups complete: ${completed} completed, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ success: true, message: `Ran ${completed + failed} scheduled backup(s)`, results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = errorMessageOf(error);
+    console.error("Error in run-scheduled-backups:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -21,6 +21,83 @@ interface EmailRequest {
   attachments?: EmailAttachment[];
   entityType?: string; // 'lead', 'contact', 'account'
   entityId?: string;
+  sequenceEnrollmentId?: string; // set when sent by process-email-sequences
+  sentBy?: string; // only honoured for service-role callers, which have no user session
+  replyToEmailId?: string; // email_history id of our email being answered in-thread
+  replyToReplyId?: string; // email_replies id of the recipient's reply being answered in-thread
+  marketing?: boolean; // bulk and sequence emails; adds the unsubscribe link
+}
+
+// Graph rate-limited the mailbox; callers that batch (process-bulk-email-jobs) wait and retry
+class GraphThrottledError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super(`Microsoft Graph is throttling this mailbox, retry after ${retryAfterSeconds}s`);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+const SUPPRESSION_REASONS: Record<string, string> = {
+  unsubscribed: "the recipient unsubscribed",
+  hard_bounce: "the address hard-bounced",
+  manual: "it was added to the suppression list",
+};
+
+interface ThreadTarget {
+  threadId: string;
+  mailbox: string; // Graph message ids are only valid in the mailbox that holds the message
+  graphMessageId: string | null;
+}
+
+// Where an in-thread reply belongs: the conversation, and the Graph message to reply to
+async function resolveThreadTarget(
+  supabase: ReturnType<typeof createClient>,
+  replyToEmailId?: string,
+  replyToReplyId?: string
+): Promise<ThreadTarget | null> {
+  if (replyToReplyId) {
+    const { data: reply, error } = await supabase
+      .from("email_replies")
+      .select("graph_message_id, conversation_id, email_history(id, thread_id, sender_email)")
+      .eq("id", replyToReplyId)
+      .maybeSingle();
+
+    if (error || !reply?.email_history) {
+      console.warn(`Reply ${replyToReplyId} not found, sending as a new thread:`, error);
+      return null;
+    }
+
+    const original = reply.email_history as { id: string; thread_id: string | null; sender_email: string };
+    return {
+      threadId: original.thread_id || reply.conversation_id || original.id,
+      mailbox: original.sender_email,
+      graphMessageId: reply.graph_message_id,
+    };
+  }
+
+  if (replyToEmailId) {
+    const { data: original, error } = await supabase
+      .from("email_history")
+      .select("id, thread_id, sender_email, graph_message_id")
+      .eq("id", replyToEmailId)
+      .maybeSingle();
+
+    if (error || !original) {
+      console.warn(`Email ${replyToEmailId} not found, sending as a new thread:`, error);
+      return null;
+    }
+
+    return {
+      threadId: original.thread_id || original.id,
+      mailbox: original.sender_email,
+      graphMessageId: original.graph_message_id,
+    };
+  }
+
+  return null;
 }
 
 async function getAccessToken(): Promise<string> {
@@ -150,8 +227,63 @@ function wrapEmailContent(htmlBody: string): string {
   return `<div style="font-family: Calibri, Arial, Helvetica, sans-serif; font-size: 11pt; line-height: 1.15; color: #000000;">${processed}</div>`;
 }
 
-async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailHistoryId: string): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/sendMail`;
+// Rewrite http(s) links to the click redirect; the targets are stored in email_links so the
+// redirect only ever sends recipients to URLs that were actually in the email
+const LINK_PATTERN = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(https?:\/\/[^"']+)\2/gi;
+const MAX_TRACKED_LINKS = 50;
+
+async function addClickTracking(
+  supabase: ReturnType<typeof createClient>,
+  htmlBody: string,
+  emailHistoryId: string
+): Promise<string> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const links: { id: string; email_history_id: string; url: string; position: number }[] = [];
+
+  const rewritten = htmlBody.replace(LINK_PATTERN, (match, prefix, quote, href) => {
+    if (links.length >= MAX_TRACKED_LINKS) return match;
+    const id = crypto.randomUUID();
+    links.push({
+      id,
+      email_history_id: emailHistoryId,
+      url: href.replace(/&amp;/g, "&"),
+      position: links.length + 1,
+    });
+    return `${prefix}${quote}${supabaseUrl}/functions/v1/track-email-click?l=${id}${quote}`;
+  });
+
+  if (links.length === 0) return htmlBody;
+
+  const { error } = await supabase.from("email_links").insert(links);
+  if (error) {
+    // Send the original links rather than redirects that can't be resolved
+    console.warn("Failed to store tracked links, sending without click tracking:", error);
+    return htmlBody;
+  }
+
+  console.log(`Click tracking enabled for ${links.length} link(s)`);
+  return rewritten;
+}
+
+// Links to the public unsubscribe page; the email_history id identifies the recipient, like the open pixel
+function addUnsubscribeFooter(htmlBody: string, emailHistoryId: string, from: string): string {
+  const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+  const unsubscribeUrl = `${appUrl}/unsubscribe?t=${emailHistoryId}`;
+  return `${htmlBody}<p><br></p><p style="margin: 12px 0 0 0; font-size: 8pt; color: #777777;">You are receiving this email from ${from}. ` +
+    `<a href="${unsubscribeUrl}" style="color: #777777;">Unsubscribe</a> from future emails.</p>`;
+}
+
+// With replyToGraphId the message goes out through Graph's reply action, so Outlook keeps it in the
+// same conversation with the right In-Reply-To and References headers
+async function sendEmail(
+  accessToken: string,
+  emailRequest: EmailRequest,
+  emailHistoryId: string,
+  replyToGraphId: string | null = null
+): Promise<void> {
+  const graphUrl = replyToGraphId
+    ? `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/messages/${encodeURIComponent(replyToGraphId)}/reply`
+    : `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/sendMail`;
 
   // Build attachments array for Microsoft Graph API
   const attachments = emailRequest.attachments?.map(att => ({
@@ -188,8 +320,11 @@ async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailH
         },
       ],
     },
-    saveToSentItems: true,
   };
+  // The reply action always saves to Sent Items and rejects this flag
+  if (!replyToGraphId) {
+    emailPayload.saveToSentItems = true;
+  }
 
   // Add attachments if present
   if (attachments.length > 0) {
@@ -197,7 +332,7 @@ async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailH
     console.log(`Adding ${attachments.length} attachment(s) to email`);
   }
 
-  console.log(`Sending email to ${emailRequest.to} with open tracking...`);
+  console.log(`Sending email to ${emailRequest.to} with open tracking${replyToGraphId ? ' as an in-thread reply' : ''}...`);
 
   const response = await fetch(graphUrl, {
     method: "POST",
@@ -208,6 +343,12 @@ async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailH
     body: JSON.stringify(emailPayload),
   });
 
+  if (response.status === 429 || (response.status === 503 && response.headers.has("Retry-After"))) {
+    const retryAfter = parseInt(response.headers.get("Retry-After") || "", 10);
+    console.warn(`Graph throttled sending from ${emailRequest.from} (${response.status})`);
+    throw new GraphThrottledError(Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : DEFAULT_RETRY_AFTER_SECONDS);
+  }
+
   if (!response.ok) {
     const errorText = await response.text();
     console.error("Failed to send email:", errorText);
@@ -224,7 +365,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { to, subject, body, toName, from, attachments, entityType, entityId }: EmailRequest = await req.json();
+    const { to, subject, body, toName, from, attachments, entityType, entityId, sequenceEnrollmentId, sentBy, replyToEmailId, replyToReplyId, marketing }: EmailRequest = await req.json();
 
     if (!to || !subject || !from) {
       return new Response(
@@ -257,14 +398,43 @@ const handler = async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Opted-out and hard-bounced addresses aren't mailed, except to answer a reply they sent us
+    if (!replyToReplyId) {
+      const { data: suppression } = await supabase
+        .from("email_suppressions")
+        .select("reason")
+        .eq("email", cleanedTo.toLowerCase())
+        .maybeSingle();
+
+      if (suppression) {
+        console.warn(`Not sending to suppressed address ${cleanedTo} (${suppression.reason})`);
+        return new Response(
+          JSON.stringify({
+            error: `${cleanedTo} can't be emailed because ${SUPPRESSION_REASONS[suppression.reason] || "it is suppressed"}`,
+            suppressed: true,
+            reason: suppression.reason,
+          }),
+          {
+            status: 422,
+            headers: { "Content-Type": "application/json", ...corsHeaders },
+          }
+        );
+      }
+    }
+
     // Get the user ID from the authorization header
     const authHeader = req.headers.get("authorization");
     let userId: string | null = null;
     
     if (authHeader) {
       const token = authHeader.replace("Bearer ", "");
-      const { data: { user } } = await supabase.auth.getUser(token);
-      userId = user?.id || null;
+      if (token === supabaseServiceKey) {
+        // Scheduled senders act on behalf of the user who set them up
+        userId = sentBy || null;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser(token);
+        userId = user?.id || null;
+      }
     }
 
     // Create email history record first to get the ID for tracking
@@ -290,6 +460,15 @@ const handler = async (req: Request): Promise<Response> => {
       emailHistoryData.account_id = entityId;
     }
 
+    if (sequenceEnrollmentId) {
+      emailHistoryData.sequence_enrollment_id = sequenceEnrollmentId;
+    }
+
+    const threadTarget = await resolveThreadTarget(supabase, replyToEmailId, replyToReplyId);
+    if (threadTarget) {
+      emailHistoryData.thread_id = threadTarget.threadId;
+    }
+
     const { data: emailRecord, error: insertError } = await supabase
       .from("email_history")
       .insert(emailHistoryData)
@@ -306,12 +485,47 @@ const handler = async (req: Request): Promise<Response> => {
     // Get access token from Azure AD
     const accessToken = await getAccessToken();
 
+    // The unsubscribe link is added after click tracking so it always points straight at the page
+    const clickTrackedBody = await addClickTracking(supabase, body, emailRecord.id);
+    const trackedBody = marketing ? addUnsubscribeFooter(clickTrackedBody, emailRecord.id, from) : clickTrackedBody;
+
+    // Graph can only reply from the mailbox that holds the original; from any other mailbox the
+    // email still shares the thread in the CRM but starts a new conversation in Outlook
+    const replyToGraphId = threadTarget?.graphMessageId && threadTarget.mailbox.toLowerCase() === from.toLowerCase()
+      ? threadTarget.graphMessageId
+      : null;
+
     // Send email via Microsoft Graph API with tracking pixel and click tracking
-    await sendEmail(accessToken, { to, subject, body, toName, from, attachments }, emailRecord.id);
+    const outgoing = { to, subject, body: trackedBody, toName, from, attachments };
+    try {
+      if (replyToGraphId) {
+        try {
+          await sendEmail(accessToken, outgoing, emailRecord.id, replyToGraphId);
+        } catch (replyError) {
+          if (replyError instanceof GraphThrottledError) throw replyError;
+          // The original may have been deleted or moved out of the mailbox
+          console.warn("In-thread reply failed, sending as a new message:", replyError);
+          await sendEmail(accessToken, outgoing, emailRecord.id);
+        }
+      } else {
+        await sendEmail(accessToken, outgoing, emailRecord.id);
+      }
+    } catch (sendError) {
+      // A timeout or 5xx may come after Graph accepted the message, so the record stays as the audit
+      // of the attempt (and keeps any email_links pointing at it); it just no longer looks sent
+      const sendErrorMessage = sendError instanceof Error ? sendError.message : String(sendError);
+      await supabase
+        .from("email_history")
+        .update({ status: "failed", send_error: sendErrorMessage.slice(0, 1000) })
+        .eq("id", emailRecord.id);
+      throw sendError;
+    }
 
     // Fetch the sent message to get its Message-ID for reply tracking
     // Use improved logic with retries and no problematic filter
     let messageId: string | null = null;
+    let graphMessageId: string | null = null;
+    let conversationId: string | null = null;
     let retries = 0;
     const maxRetries = 3;
 
@@ -322,7 +536,7 @@ const handler = async (req: Request): Promise<Response> => {
       
       try {
         // Fetch most recent sent emails WITHOUT filter (more reliable)
-        const sentItemsUrl = `https://graph.microsoft.com/v1.0/users/${from}/mailFolders/SentItems/messages?$top=5&$orderby=sentDateTime desc&$select=internetMessageId,subject,sentDateTime`;
+        const sentItemsUrl = `https://graph.microsoft.com/v1.0/users/${from}/mailFolders/SentItems/messages?$top=5&$orderby=sentDateTime desc&$select=id,internetMessageId,conversationId,subject,sentDateTime`;
         
         const sentResponse = await fetch(sentItemsUrl, {
           headers: { Authorization: `Bearer ${accessToken}` },
@@ -336,6 +550,8 @@ const handler = async (req: Request): Promise<Response> => {
             const timeDiff = Date.now() - msgTime.getTime();
             if (msg.subject === subject && timeDiff < 30000) {
               messageId = msg.internetMessageId;
+              graphMessageId = msg.id;
+              conversationId = msg.conversationId || null;
               console.log(`Captured Message-ID on attempt ${retries}: ${messageId}`);
               break;
             }
@@ -352,14 +568,21 @@ const handler = async (req: Request): Promise<Response> => {
       console.warn(`Could not capture Message-ID for email to ${cleanedTo} after ${maxRetries} attempts`);
     }
 
-    // Update email history to mark as sent with Message-ID
+    // Update email history to mark as sent with Message-ID and the Graph ids used for threading
+    const sentUpdate: Record<string, unknown> = {
+      status: "sent",
+      is_valid_open: true,
+      message_id: messageId,
+      graph_message_id: graphMessageId,
+    };
+    // An in-thread reply keeps the thread it was given, so it stays grouped with older emails
+    if (!threadTarget && conversationId) {
+      sentUpdate.thread_id = conversationId;
+    }
+
     await supabase
       .from("email_history")
-      .update({ 
-        status: "sent",
-        is_valid_open: true,
-        message_id: messageId,
-      })
+      .update(sentUpdate)
       .eq("id", emailRecord.id);
 
     console.log(`Email marked as sent for record: ${emailRecord.id}${messageId ? ` with Message-ID: ${messageId}` : ' (no Message-ID captured)'}`);
@@ -394,6 +617,15 @@ const handler = async (req: Request): Promise<Response> => {
     );
   } catch (error: any) {
     console.error("Error in send-email function:", error);
+    if (error instanceof GraphThrottledError) {
+      return new Response(
+        JSON.stringify({ error: error.message, retryAfter: error.retryAfterSeconds }),
+        {
+          status: 429,
+          headers: { "Content-Type": "application/json", "Retry-After": String(error.retryAfterSeconds), ...corsHeaders },
+        }
+      );
+    }
     return new Response(
       JSON.stringify({ error: error.message || "Failed to send email" }),
       {
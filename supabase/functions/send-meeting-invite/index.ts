@@ -0,0 +1,353 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { utcOffsetMinutes, zonedParts } from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Emails an iCalendar invite for a meeting that doesn't use Teams. REQUEST goes to every attendee in
+// meetings.attendees (a new invite, or an update once one was sent); CANCEL withdraws it. Attendees
+// removed from the meeting since the last send are passed in so they get a CANCEL of their own.
+interface InviteRequest {
+  meetingId: string;
+  method: "REQUEST" | "CANCEL";
+  removedAttendees?: { email: string; name?: string }[];
+}
+
+interface MeetingAttendee {
+  email: string;
+  name?: string;
+  related?: boolean;
+  response?: "needs_action" | "accepted" | "tentative" | "declined";
+  responded_at?: string | null;
+  rsvp_token?: string;
+}
+
+interface Meeting {
+  id: string;
+  subject: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  join_url: string | null;
+  timezone: string | null;
+  attendees: unknown;
+  lead_id: string | null;
+  contact_id: string | null;
+  ics_sequence: number;
+  invite_sent_at: string | null;
+}
+
+interface Organizer {
+  email: string;
+  name: string;
+}
+
+const PARTSTAT: Record<string, string> = {
+  needs_action: "NEEDS-ACTION",
+  accepted: "ACCEPTED",
+  tentative: "TENTATIVE",
+  declined: "DECLINED",
+};
+
+const jsonResponse = (payload: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// RFC 5545 TEXT values
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+function formatLocal(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function buildIcs(meeting: Meeting, organizer: Organizer, attendees: MeetingAttendee[], method: "REQUEST" | "CANCEL", sequence: number): string {
+  const start = new Date(meeting.start_time);
+  const end = new Date(meeting.end_time);
+  const timeZone = meeting.timezone || "UTC";
+  const startOffset = utcOffsetMinutes(start, timeZone);
+  const endOffset = utcOffsetMinutes(end, timeZone);
+
+  // The VTIMEZONE only describes the offset in force for this meeting. A meeting that spans a
+  // daylight-saving change would need the full rules, so it's sent in UTC instead.
+  const useTzid = timeZone !== "UTC" && startOffset === endOffset;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "PRODID:-//CRM//Meetings//EN",
+    "VERSION:2.0",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+  ];
+
+  if (useTzid) {
+    lines.push(
+      "BEGIN:VTIMEZONE",
+      `TZID:${timeZone}`,
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${formatOffset(startOffset)}`,
+      `TZOFFSETTO:${formatOffset(startOffset)}`,
+      "END:STANDARD",
+      "END:VTIMEZONE",
+    );
+  }
+
+  lines.push(
+    "BEGIN:VEVENT",
+    `UID:${meeting.id}@crm`,
+    `SEQUENCE:${sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    useTzid ? `DTSTART;TZID=${timeZone}:${formatLocal(start, timeZone)}` : `DTSTART:${formatUtc(start)}`,
+    useTzid ? `DTEND;TZID=${timeZone}:${formatLocal(end, timeZone)}` : `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(meeting.subject)}`,
+  );
+
+  if (meeting.description) lines.push(`DESCRIPTION:${escapeText(meeting.description)}`);
+  if (meeting.join_url) {
+    lines.push(`LOCATION:${escapeText(meeting.join_url)}`, `URL:${meeting.join_url}`);
+  }
+
+  lines.push(`ORGANIZER;CN="${organizer.name.replace(/"/g, "'")}":mailto:${organizer.email}`);
+  for (const attendee of attendees) {
+    const partstat = method === "CANCEL" ? "NEEDS-ACTION" : PARTSTAT[attendee.response || "needs_action"];
+    lines.push(
+      `ATTENDEE;CN="${(attendee.name || attendee.email).replace(/"/g, "'")}";ROLE=REQ-PARTICIPANT;PARTSTAT=${partstat};RSVP=TRUE:mailto:${attendee.email}`,
+    );
+  }
+
+  lines.push(
+    `STATUS:${method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  );
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function formatWhen(meeting: Meeting): string {
+  const timeZone = meeting.timezone || "UTC";
+  const options: Intl.DateTimeFormatOptions = { timeZone, hour: "numeric", minute: "2-digit" };
+  const day = new Date(meeting.start_time).toLocaleDateString("en-US", { timeZone, weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  const startTime = new Date(meeting.start_time).toLocaleTimeString("en-US", options);
+  const endTime = new Date(meeting.end_time).toLocaleTimeString("en-US", options);
+  return `${day}, ${startTime} – ${endTime} (${timeZone})`;
+}
+
+function buildEmailBody(meeting: Meeting, organizer: Organizer, attendee: MeetingAttendee, method: "REQUEST" | "CANCEL", isUpdate: boolean): string {
+  const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+  const when = escapeHtml(formatWhen(meeting));
+  const intro = method === "CANCEL"
+    ? `${escapeHtml(organizer.name)} has cancelled this meeting.`
+    : isUpdate
+      ? `${escapeHtml(organizer.name)} has updated this meeting.`
+      : `${escapeHtml(organizer.name)} has invited you to a meeting.`;
+
+  let html = `<p>Hi ${escapeHtml(attendee.name || attendee.email)},</p>` +
+    `<p>${intro}</p>` +
+    `<p><strong>${escapeHtml(meeting.subject)}</strong><br>${when}</p>`;
+
+  if (method === "REQUEST") {
+    if (meeting.join_url) {
+      html += `<p>Join: <a href="${escapeHtml(meeting.join_url)}">${escapeHtml(meeting.join_url)}</a></p>`;
+    }
+    if (meeting.description) {
+      html += `<p>${escapeHtml(meeting.description).replace(/\n/g, "<br>")}</p>`;
+    }
+    if (attendee.rsvp_token) {
+      const rsvpUrl = (response: string) =>
+        `${appUrl}/meeting-response?m=${meeting.id}&t=${attendee.rsvp_token}&r=${response}`;
+      html += `<p>Will you attend? ` +
+        `<a href="${rsvpUrl("accepted")}">Yes</a> · ` +
+        `<a href="${rsvpUrl("tentative")}">Maybe</a> · ` +
+        `<a href="${rsvpUrl("declined")}">No</a></p>`;
+    }
+    html += `<p style="font-size: 9pt; color: #777777;">The attached invite.ics adds the meeting to your calendar.</p>`;
+  }
+
+  return html;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    // Act as the organizer so the meeting is only reachable through their own access to it
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user?.email) {
+      console.error("Authentication error:", authError);
+      return jsonResponse({ error: "Authentication required" }, 401);
+    }
+
+    const { meetingId, method, removedAttendees = [] }: InviteRequest = await req.json();
+    if (!meetingId || (method !== "REQUEST" && method !== "CANCEL")) {
+      return jsonResponse({ error: "Missing required fields: meetingId, method" }, 400);
+    }
+
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select("id, subject, description, start_time, end_time, join_url, timezone, attendees, lead_id, contact_id, ics_sequence, invite_sent_at")
+      .eq("id", meetingId)
+      .maybeSingle();
+
+    if (meetingError) throw meetingError;
+    if (!meeting) {
+      return jsonResponse({ error: "Meeting not found" }, 404);
+    }
+
+    const organizer: Organizer = {
+      email: user.email,
+      name: user.user_metadata?.full_name || user.email.split("@")[0],
+    };
+    const attendees: MeetingAttendee[] = Array.isArray(meeting.attendees)
+      ? (meeting.attendees as MeetingAttendee[]).filter(a => a?.email)
+      : [];
+
+    // Calendars only apply an update or cancellation with a higher SEQUENCE than they already hold
+    const isUpdate = !!meeting.invite_sent_at;
+    const sequence = method === "CANCEL" || isUpdate ? meeting.ics_sequence + 1 : meeting.ics_sequence;
+
+    const sends: { attendee: MeetingAttendee; method: "REQUEST" | "CANCEL"; listed: MeetingAttendee[] }[] =
+      attendees.map(attendee => ({ attendee, method, listed: attendees }));
+    if (method === "REQUEST" && isUpdate) {
+      for (const removed of removedAttendees) {
+        sends.push({ attendee: removed, method: "CANCEL", listed: [removed] });
+      }
+    }
+
+    if (sends.length === 0) {
+      return jsonResponse({ error: "The meeting has no attendees to invite" }, 400);
+    }
+
+    let sent = 0;
+    const failed: { email: string; error: string }[] = [];
+
+    // One email per attendee so each gets their own RSVP links
+    for (const { attendee, method: sendMethod, listed } of sends) {
+      const ics = buildIcs(meeting, organizer, listed, sendMethod, sequence);
+      const subjectPrefix = sendMethod === "CANCEL" ? "Cancelled" : isUpdate ? "Updated invitation" : "Invitation";
+
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+          method: "POST",
+          headers: {
+            Authorization: authHeader,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            to: attendee.email,
+            toName: attendee.name || attendee.email,
+            subject: `${subjectPrefix}: ${meeting.subject}`,
+            body: buildEmailBody(meeting, organizer, attendee, sendMethod, isUpdate),
+            from: organizer.email,
+            attachments: [{
+              name: sendMethod === "CANCEL" ? "cancel.ics" : "invite.ics",
+              contentType: `text/calendar; charset=utf-8; method=${sendMethod}`,
+              contentBytes: toBase64(ics),
+            }],
+            ...(attendee.related && meeting.lead_id ? { entityType: "lead", entityId: meeting.lead_id } : {}),
+            ...(attendee.related && meeting.contact_id ? { entityType: "contact", entityId: meeting.contact_id } : {}),
+          }),
+        });
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(result.error || `send-email returned ${response.status}`);
+        }
+        sent++;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error sending ${sendMethod} for meeting ${meeting.id} to ${attendee.email}:`, errorMessage);
+        failed.push({ email: attendee.email, error: errorMessage });
+      }
+    }
+
+    // Only move the sequence on once calendars have actually seen it
+    if (sent > 0) {
+      const { error: updateError } = await supabase
+        .from("meetings")
+        .update({
+          invite_method: "ics",
+          ics_sequence: sequence,
+          invite_sent_at: new Date().toISOString(),
+        })
+        .eq("id", meeting.id);
+
+      if (updateError) {
+        console.error(`Error recording invite for meeting ${meeting.id}:`, updateError);
+      }
+    }
+
+    console.log(`Meeting ${meeting.id} ${method}: ${sent} sent, ${failed.length} failed`);
+
+    return jsonResponse({ success: failed.length === 0, sent, failed });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in send-meeting-invite function:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,982 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { resolveTimeZone, zonedParts, type ZonedParts } from "../_shared/timezone.ts";
+import {
+  convertAmount,
+  DEFAULT_REPORTING_CURRENCY,
+  getDealRateDate,
+  type ExchangeRate,
+} from "../_shared/currencyConversion.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+// Azure Graph API email functions (same as send-email)
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured");
+  }
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+  const params = new URLSearchParams({
+    client_id: clientId,
+    client_secret: clientSecret,
+    scope: "https://graph.microsoft.com/.default",
+    grant_type: "client_credentials",
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Azure token error:", errorText);
+    throw new Error(`Failed to get Azure access token: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.access_token;
+}
+
+interface EmailAttachment {
+  name: string;
+  contentType: string;
+  contentBytes: string; // Base64 encoded
+}
+
+async function sendEmailViaGraph(
+  accessToken: string,
+  to: string,
+  subject: string,
+  body: string,
+  from: string,
+  attachments: EmailAttachment[]
+): Promise<void> {
+  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
+
+  const emailPayload = {
+    message: {
+      subject,
+      body: {
+        contentType: "HTML",
+        content: body,
+      },
+      toRecipients: [{ emailAddress: { address: to, name: to } }],
+      attachments: attachments.map(att => ({
+        "@odata.type": "#microsoft.graph.fileAttachment",
+        name: att.name,
+        contentType: att.contentType,
+        contentBytes: att.contentBytes,
+      })),
+    },
+    saveToSentItems: true,
+  };
+
+  const response = await fetch(graphUrl, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(emailPayload),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Graph API error:", errorText);
+    throw new Error(`Failed to send email via Graph API: ${response.status}`);
+  }
+
+  console.log(`Report email sent successfully to ${to}`);
+}
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  report_type: string;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  recipients: unknown;
+  is_enabled: boolean | null;
+  last_sent_at: string | null;
+  last_run_at: string | null;
+  created_by: string | null;
+  created_at: string | null;
+}
+
+interface DealRow {
+  id: string;
+  deal_name: string | null;
+  customer_name: string | null;
+  stage: string | null;
+  total_contract_value: number | null;
+  total_revenue: number | null;
+  currency_type: string | null;
+  probability: number | null;
+  expected_closing_date: string | null;
+  signed_contract_date: string | null;
+  created_by: string | null;
+  created_at: string | null;
+  modified_at: string | null;
+}
+
+interface LeadRow {
+  id: string;
+  lead_name: string | null;
+  company_name: string | null;
+  lead_status: string | null;
+  contact_source: string | null;
+  contact_owner: string | null;
+  created_by: string | null;
+  created_time: string | null;
+  modified_time: string | null;
+}
+
+interface StageRow {
+  stage_name: string;
+  stage_order: number | null;
+  stage_probability: number | null;
+  is_won_stage: boolean | null;
+  is_lost_stage: boolean | null;
+}
+
+interface ReportTable {
+  heading: string;
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+interface ReportContent {
+  title: string;
+  summary: { label: string; value: string | number }[];
+  tables: ReportTable[];
+  // The CSV attachment carries the record-level detail behind the summary
+  csv: { headers: string[]; rows: (string | number | null)[][] };
+}
+
+interface ReportContext {
+  supabase: SupabaseClient;
+  periodStart: Date;
+  periodEnd: Date;
+  stages: StageRow[];
+  wonStages: Set<string>;
+  lostStages: Set<string>;
+  userNames: Record<string, string>;
+  rates: ExchangeRate[];
+  // Amounts are reported in the schedule owner's currency preference, as on their dashboard
+  currency: string;
+  // Deals left out of the totals because no rate connects their currency to the report's
+  unconverted: Set<string>;
+}
+
+interface RecipientResult {
+  email: string;
+  status: "sent" | "failed";
+  error?: string;
+}
+
+const reportTitles: Record<string, string> = {
+  deals_summary: "Deals Summary",
+  leads_activity: "Leads Activity",
+  pipeline_status: "Pipeline Status",
+  revenue_forecast: "Revenue Forecast",
+  team_performance: "Team Performance",
+};
+
+// ---------- Scheduling ----------
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// "YYYY-MM-DD HH:mm" keys compare correctly as strings
+const toLocalKey = (date: Date, timezone: string): string => {
+  const p = zonedParts(date, timezone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * The most recent scheduled send time at or before now, as a local "YYYY-MM-DD HH:mm" key
+ */
+const getLatestOccurrence = (schedule: ReportSchedule, now: ZonedParts): string | null => {
+  const [hours, minutes] = (schedule.time_of_day || "08:00").split(":").map(Number);
+  const timeKey = `${pad(hours || 0)}:${pad(minutes || 0)}`;
+  const reachedToday = `${pad(now.hour)}:${pad(now.minute)}` >= timeKey;
+  const today = Date.UTC(now.year, now.month - 1, now.day);
+
+  let date: number;
+  switch (schedule.frequency) {
+    case "daily":
+      date = reachedToday ? today : today - DAY_MS;
+      break;
+    case "weekly": {
+      let daysBack = (now.weekday - (schedule.day_of_week ?? 1) + 7) % 7;
+      if (daysBack === 0 && !reachedToday) daysBack = 7;
+      date = today - daysBack * DAY_MS;
+      break;
+    }
+    case "monthly": {
+      // Short months send on their last day
+      const dayOfMonth = schedule.day_of_month ?? 1;
+      const thisMonth = Date.UTC(now.year, now.month - 1, Math.min(dayOfMonth, daysInMonth(now.year, now.month)));
+      if (thisMonth < today || (thisMonth === today && reachedToday)) {
+        date = thisMonth;
+      } else {
+        const year = now.month === 1 ? now.year - 1 : now.year;
+        const month = now.month === 1 ? 12 : now.month - 1;
+        date = Date.UTC(year, month - 1, Math.min(dayOfMonth, daysInMonth(year, month)));
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+
+  return `${new Date(date).toISOString().slice(0, 10)} ${timeKey}`;
+};
+
+const isScheduleDue = (schedule: ReportSchedule, timezone: string, now: Date): boolean => {
+  const occurrence = getLatestOccurrence(schedule, zonedParts(now, timezone));
+  if (!occurrence) return false;
+
+  // A new schedule waits for its first occurrence instead of sending immediately
+  if (schedule.created_at && toLocalKey(new Date(schedule.created_at), timezone) > occurrence) return false;
+
+  const lastRun = schedule.last_run_at || schedule.last_sent_at;
+  return !lastRun || toLocalKey(new Date(lastRun), timezone) < occurrence;
+};
+
+const getPeriodStart = (frequency: string, end: Date): Date => {
+  const start = new Date(end);
+  if (frequency === "monthly") {
+    start.setUTCMonth(start.getUTCMonth() - 1);
+  } else {
+    start.setTime(end.getTime() - (frequency === "weekly" ? 7 : 1) * DAY_MS);
+  }
+  return start;
+};
+
+// ---------- Data helpers ----------
+
+// PostgREST caps responses, so large tables are read page by page
+async function fetchAll<T>(
+  buildQuery: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+const DEAL_COLUMNS =
+  "id, deal_name, customer_name, stage, total_contract_value, total_revenue, currency_type, probability, expected_closing_date, signed_contract_date, created_by, created_at, modified_at";
+
+// Deals are in mixed currencies, so every amount is converted before it is added up
+const dealValue = (deal: DealRow, ctx: ReportContext) => {
+  const amount = Number(deal.total_contract_value ?? deal.total_revenue ?? 0) || 0;
+  if (amount === 0) return 0;
+  const converted = convertAmount(amount, deal.currency_type, ctx.currency, ctx.rates, getDealRateDate(deal));
+  if (converted === null) {
+    ctx.unconverted.add(deal.id);
+    return 0;
+  }
+  return converted;
+};
+
+const dealProbability = (deal: DealRow, ctx: ReportContext) => {
+  if (deal.probability !== null && deal.probability !== undefined) return deal.probability;
+  return ctx.stages.find(s => s.stage_name === deal.stage)?.stage_probability ?? 0;
+};
+
+const isOpenDeal = (deal: DealRow, ctx: ReportContext) =>
+  !ctx.wonStages.has(deal.stage || "") && !ctx.lostStages.has(deal.stage || "");
+
+const inPeriod = (value: string | null, ctx: ReportContext) =>
+  !!value && new Date(value) >= ctx.periodStart && new Date(value) <= ctx.periodEnd;
+
+const formatAmount = (value: number) => value.toLocaleString("en-US", { maximumFractionDigits: 0 });
+
+const formatDate = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+const userName = (id: string | null, ctx: ReportContext) => (id ? ctx.userNames[id] || "Unknown User" : "");
+
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, T[]>();
+  items.forEach(item => {
+    const k = key(item) || "Not set";
+    counts.set(k, [...(counts.get(k) || []), item]);
+  });
+  return counts;
+};
+
+const dealCsvRow = (deal: DealRow, ctx: ReportContext): (string | number | null)[] => [
+  deal.deal_name,
+  deal.customer_name,
+  deal.stage,
+  Number(deal.total_contract_value ?? deal.total_revenue ?? 0) || 0,
+  deal.currency_type,
+  ctx.unconverted.has(deal.id) ? "" : Math.round(dealValue(deal, ctx)),
+  dealProbability(deal, ctx),
+  formatDate(deal.expected_closing_date),
+  userName(deal.created_by, ctx),
+  formatDate(deal.created_at),
+  formatDate(deal.modified_at),
+];
+
+const dealCsvHeaders = (ctx: ReportContext) => [
+  "Deal Name", "Customer", "Stage", "Value", "Currency", `Value (${ctx.currency})`, "Probability (%)",
+  "Expected Closing Date", "Owner", "Created At", "Modified At",
+];
+
+// ---------- Report builders ----------
+
+async function buildDealsSummary(ctx: ReportContext): Promise<ReportContent> {
+  const start = ctx.periodStart.toISOString();
+  const deals = await fetchAll<DealRow>((from, to) =>
+    ctx.supabase
+      .from("deals")
+      .select(DEAL_COLUMNS)
+      .or(`created_at.gte.${start},modified_at.gte.${start}`)
+      .order("modified_at", { ascending: false })
+      .range(from, to)
+  );
+
+  const created = deals.filter(d => inPeriod(d.created_at, ctx));
+  const won = deals.filter(d => ctx.wonStages.has(d.stage || ""));
+  const lost = deals.filter(d => ctx.lostStages.has(d.stage || ""));
+  const byStage = countBy(deals, d => d.stage || "");
+
+  return {
+    title: "Deals Summary",
+    summary: [
+      { label: "New deals", value: created.length },
+      { label: "Deals updated", value: deals.length },
+      { label: "Won", value: won.length },
+      { label: "Lost", value: lost.length },
+      { label: `Won value (${ctx.currency})`, value: formatAmount(won.reduce((sum, d) => sum + dealValue(d, ctx), 0)) },
+    ],
+    tables: [{
+      heading: "Activity by stage",
+      headers: ["Stage", "Deals", `Value (${ctx.currency})`],
+      rows: [...byStage.entries()].map(([stage, items]) => [
+        stage, items.length, formatAmount(items.reduce((sum, d) => sum + dealValue(d, ctx), 0)),
+      ]),
+    }],
+    csv: { headers: dealCsvHeaders(ctx), rows: deals.map(d => dealCsvRow(d, ctx)) },
+  };
+}
+
+async function buildLeadsActivity(ctx: ReportContext): Promise<ReportContent> {
+  const start = ctx.periodStart.toISOString();
+  const leads = await fetchAll<LeadRow>((from, to) =>
+    ctx.supabase
+      .from("leads")
+      .select("id, lead_name, company_name, lead_status, contact_source, contact_owner, created_by, created_time, modified_time")
+      .or(`created_time.gte.${start},modified_time.gte.${start}`)
+      .order("created_time", { ascending: false })
+      .range(from, to)
+  );
+
+  const created = leads.filter(l => inPeriod(l.created_time, ctx));
+  const byStatus = countBy(leads, l => l.lead_status || "");
+  const bySource = countBy(created, l => l.contact_source || "");
+
+  return {
+    title: "Leads Activity",
+    summary: [
+      { label: "New leads", value: created.length },
+      { label: "Leads updated", value: leads.length },
+      { label: "Converted", value: byStatus.get("Converted")?.length || 0 },
+    ],
+    tables: [
+      {
+        heading: "By status",
+        headers: ["Status", "Leads"],
+        rows: [...byStatus.entries()].map(([status, items]) => [status, items.length]),
+      },
+      {
+        heading: "New leads by source",
+        headers: ["Source", "Leads"],
+        rows: [...bySource.entries()].map(([source, items]) => [source, items.length]),
+      },
+    ],
+    csv: {
+      headers: ["Lead Name", "Company", "Status", "Source", "Owner", "Created At", "Modified At"],
+      rows: leads.map(l => [
+        l.lead_name,
+        l.company_name,
+        l.lead_status,
+        l.contact_source,
+        userName(l.contact_owner || l.created_by, ctx),
+        formatDate(l.created_time),
+        formatDate(l.modified_time),
+      ]),
+    },
+  };
+}
+
+async function fetchOpenDeals(ctx: ReportContext): Promise<DealRow[]> {
+  const deals = await fetchAll<DealRow>((from, to) =>
+    ctx.supabase.from("deals").select(DEAL_COLUMNS).order("created_at").range(from, to)
+  );
+  return deals.filter(d => isOpenDeal(d, ctx));
+}
+
+async function buildPipelineStatus(ctx: ReportContext): Promise<ReportContent> {
+  const openDeals = await fetchOpenDeals(ctx);
+  const byStage = countBy(openDeals, d => d.stage || "");
+  const weighted = (items: DealRow[]) =>
+    items.reduce((sum, d) => sum + dealValue(d, ctx) * dealProbability(d, ctx) / 100, 0);
+
+  // Pipeline order first, then any stage no longer configured
+  const stageNames = [
+    ...ctx.stages.map(s => s.stage_name).filter(name => byStage.has(name)),
+    ...[...byStage.keys()].filter(name => !ctx.stages.some(s => s.stage_name === name)),
+  ];
+
+  return {
+    title: "Pipeline Status",
+    summary: [
+      { label: "Open deals", value: openDeals.length },
+      { label: `Pipeline value (${ctx.currency})`, value: formatAmount(openDeals.reduce((sum, d) => sum + dealValue(d, ctx), 0)) },
+      { label: `Weighted value (${ctx.currency})`, value: formatAmount(weighted(openDeals)) },
+    ],
+    tables: [{
+      heading: "Open deals by stage",
+      headers: ["Stage", "Deals", `Value (${ctx.currency})`, `Weighted value (${ctx.currency})`],
+      rows: stageNames.map(name => {
+        const items = byStage.get(name) || [];
+        return [name, items.length, formatAmount(items.reduce((sum, d) => sum + dealValue(d, ctx), 0)), formatAmount(weighted(items))];
+      }),
+    }],
+    csv: { headers: dealCsvHeaders(ctx), rows: openDeals.map(d => dealCsvRow(d, ctx)) },
+  };
+}
+
+async function buildRevenueForecast(ctx: ReportContext): Promise<ReportContent> {
+  const today = ctx.periodEnd.toISOString().slice(0, 10);
+  const horizon = new Date(ctx.periodEnd.getTime() + 90 * DAY_MS).toISOString().slice(0, 10);
+
+  const openDeals = await fetchOpenDeals(ctx);
+  const forecastDeals = openDeals.filter(d =>
+    d.expected_closing_date && d.expected_closing_date >= today && d.expected_closing_date <= horizon
+  );
+  const overdueDeals = openDeals.filter(d => d.expected_closing_date && d.expected_closing_date < today);
+  const weightedValue = (d: DealRow) => dealValue(d, ctx) * dealProbability(d, ctx) / 100;
+  const byMonth = countBy(forecastDeals, d => (d.expected_closing_date || "").slice(0, 7));
+
+  return {
+    title: "Revenue Forecast",
+    summary: [
+      { label: "Deals closing in 90 days", value: forecastDeals.length },
+      { label: `Best case (${ctx.currency})`, value: formatAmount(forecastDeals.reduce((sum, d) => sum + dealValue(d, ctx), 0)) },
+      { label: `Weighted forecast (${ctx.currency})`, value: formatAmount(forecastDeals.reduce((sum, d) => sum + weightedValue(d), 0)) },
+      { label: "Past expected close", value: overdueDeals.length },
+    ],
+    tables: [{
+      heading: "Expected closings by month",
+      headers: ["Month", "Deals", `Best case (${ctx.currency})`, `Weighted (${ctx.currency})`],
+      rows: [...byMonth.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, items]) => [
+          month,
+          items.length,
+          formatAmount(items.reduce((sum, d) => sum + dealValue(d, ctx), 0)),
+          formatAmount(items.reduce((sum, d) => sum + weightedValue(d), 0)),
+        ]),
+    }],
+    csv: {
+      headers: [...dealCsvHeaders(ctx), `Weighted Value (${ctx.currency})`],
+      rows: [...forecastDeals, ...overdueDeals].map(d => [...dealCsvRow(d, ctx), Math.round(weightedValue(d))]),
+    },
+  };
+}
+
+async function buildTeamPerformance(ctx: ReportContext): Promise<ReportContent> {
+  const start = ctx.periodStart.toISOString();
+  const end = ctx.periodEnd.toISOString();
+
+  const [leads, deals, tasks, meetings] = await Promise.all([
+    fetchAll<{ created_by: string | null }>((from, to) =>
+      ctx.supabase.from("leads").select("created_by").gte("created_time", start).range(from, to)
+    ),
+    fetchAll<DealRow>((from, to) =>
+      ctx.supabase
+        .from("deals")
+        .select(DEAL_COLUMNS)
+        .or(`created_at.gte.${start},modified_at.gte.${start}`)
+        .range(from, to)
+    ),
+    fetchAll<{ assigned_to: string | null }>((from, to) =>
+      ctx.supabase
+        .from("tasks")
+        .select("assigned_to")
+        .eq("status", "completed")
+        .gte("completed_at", start)
+        .lte("completed_at", end)
+        .range(from, to)
+    ),
+    fetchAll<{ created_by: string | null }>((from, to) =>
+      ctx.supabase
+        .from("meetings")
+        .select("created_by")
+        .gte("start_time", start)
+        .lte("start_time", end)
+        .range(from, to)
+    ),
+  ]);
+
+  const stats = new Map<string, { leads: number; deals: number; won: number; wonValue: number; tasks: number; meetings: number }>();
+  const statFor = (userId: string | null) => {
+    const key = userId || "";
+    if (!stats.has(key)) stats.set(key, { leads: 0, deals: 0, won: 0, wonValue: 0, tasks: 0, meetings: 0 });
+    return stats.get(key)!;
+  };
+
+  leads.forEach(l => statFor(l.created_by).leads++);
+  deals.forEach(d => {
+    if (inPeriod(d.created_at, ctx)) statFor(d.created_by).deals++;
+    if (ctx.wonStages.has(d.stage || "")) {
+      statFor(d.created_by).won++;
+      statFor(d.created_by).wonValue += dealValue(d, ctx);
+    }
+  });
+  tasks.forEach(t => statFor(t.assigned_to).tasks++);
+  meetings.forEach(m => statFor(m.created_by).meetings++);
+
+  const rows = [...stats.entries()]
+    .map(([userId, s]) => ({ name: userId ? ctx.userNames[userId] || "Unknown User" : "Unassigned", ...s }))
+    .sort((a, b) => b.wonValue - a.wonValue || b.deals - a.deals);
+  const headers = ["Team Member", "New Leads", "New Deals", "Deals Won", `Won Value (${ctx.currency})`, "Tasks Completed", "Meetings"];
+
+  return {
+    title: "Team Performance",
+    summary: [
+      { label: "Team members active", value: rows.length },
+      { label: "Deals won", value: rows.reduce((sum, r) => sum + r.won, 0) },
+      { label: `Won value (${ctx.currency})`, value: formatAmount(rows.reduce((sum, r) => sum + r.wonValue, 0)) },
+    ],
+    tables: [{
+      heading: "By team member",
+      headers,
+      rows: rows.map(r => [r.name, r.leads, r.deals, r.won, formatAmount(r.wonValue), r.tasks, r.meetings]),
+    }],
+    csv: {
+      headers,
+      rows: rows.map(r => [r.name, r.leads, r.deals, r.won, Math.round(r.wonValue), r.tasks, r.meetings]),
+    },
+  };
+}
+
+const reportBuilders: Record<string, (ctx: ReportContext) => Promise<ReportContent>> = {
+  deals_summary: buildDealsSummary,
+  leads_activity: buildLeadsActivity,
+  pipeline_status: buildPipelineStatus,
+  revenue_forecast: buildRevenueForecast,
+  team_performance: buildTeamPerformance,
+};
+
+// ---------- Rendering ----------
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeCsv = (value: unknown): string => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (csv: ReportContent["csv"]): string =>
+  [csv.headers, ...csv.rows].map(row => row.map(escapeCsv).join(",")).join("\r\n");
+
+const toBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const generateReportHtml = (schedule: ReportSchedule, report: ReportContent, ctx: ReportContext, appUrl: string): string => {
+  const period = `${formatDate(ctx.periodStart.toISOString())} – ${formatDate(ctx.periodEnd.toISOString())}`;
+
+  const renderTable = (table: ReportTable) => `
+      <h2 style="margin: 24px 0 12px; color: #1f2937; font-size: 16px; font-weight: 600;">${escapeHtml(table.heading)}</h2>
+      ${table.rows.length === 0 ? `
+      <p style="margin: 0; color: #6b7280; font-size: 14px;">No data for this period.</p>
+      ` : `
+      <table style="width: 100%; border-collapse: collapse; font-size: 13px;">
+        <thead>
+          <tr style="background: #f3f4f6;">
+            ${table.headers.map((h, i) => `<th style="padding: 8px; text-align: ${i === 0 ? "left" : "right"}; color: #4b5563; font-weight: 600;">${escapeHtml(h)}</th>`).join("")}
+          </tr>
+        </thead>
+        <tbody>
+          ${table.rows.map(row => `
+          <tr style="border-bottom: 1px solid #e5e7eb;">
+            ${row.map((cell, i) => `<td style="padding: 8px; text-align: ${i === 0 ? "left" : "right"}; color: #1f2937;">${escapeHtml(cell)}</td>`).join("")}
+          </tr>`).join("")}
+        </tbody>
+      </table>
+      `}`;
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(report.title)}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 680px; margin: 0 auto; padding: 20px;">
+    <!-- Header -->
+    <div style="background: linear-gradient(135deg, #3b82f6, #1d4ed8); padding: 32px; border-radius: 12px 12px 0 0; text-align: center;">
+      <h1 style="margin: 0; color: white; font-size: 24px; font-weight: 600;">📊 ${escapeHtml(report.title)}</h1>
+      <p style="margin: 8px 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">${escapeHtml(schedule.name)} · ${escapeHtml(period)}</p>
+    </div>
+
+    <!-- Content -->
+    <div style="background: white; padding: 24px; border-radius: 0 0 12px 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+      <!-- Summary -->
+      <table style="width: 100%; border-collapse: separate; border-spacing: 8px;">
+        <tr>
+          ${report.summary.map(item => `
+          <td style="padding: 12px; background: #f3f4f6; border-radius: 8px; text-align: center; vertical-align: top;">
+            <div style="font-size: 20px; font-weight: 600; color: #1f2937;">${escapeHtml(item.value)}</div>
+            <div style="font-size: 12px; color: #6b7280; margin-top: 4px;">${escapeHtml(item.label)}</div>
+          </td>`).join("")}
+        </tr>
+      </table>
+
+      ${report.tables.map(renderTable).join("")}
+
+      ${ctx.unconverted.size > 0 ? `
+      <p style="margin: 24px 0 0; font-size: 13px; color: #b45309;">
+        Totals exclude ${ctx.unconverted.size} deal${ctx.unconverted.size !== 1 ? "s" : ""} with no exchange rate to ${escapeHtml(ctx.currency)}.
+      </p>` : ""}
+
+      <p style="margin: 24px 0 0; font-size: 13px; color: #6b7280;">
+        The attached CSV contains ${report.csv.rows.length} row${report.csv.rows.length !== 1 ? "s" : ""} of detail.
+      </p>
+
+      <!-- CTA Button -->
+      <div style="text-align: center; margin-top: 24px;">
+        <a href="${appUrl}" style="display: inline-block; padding: 12px 32px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px;">
+          Open CRM →
+        </a>
+      </div>
+    </div>
+
+    <!-- Footer -->
+    <div style="text-align: center; padding: 24px;">
+      <p style="margin: 0; font-size: 12px; color: #9ca3af;">
+        You're receiving this scheduled report because you are on its recipient list.<br>
+        <a href="${appUrl}/settings" style="color: #6b7280; text-decoration: underline;">Manage scheduled reports</a>
+      </p>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+};
+
+// ---------- Delivery ----------
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const getRecipients = (recipients: unknown): string[] =>
+  Array.isArray(recipients) ? recipients.map(r => String(r).trim()).filter(Boolean) : [];
+
+async function runSchedule(
+  supabase: SupabaseClient,
+  schedule: ReportSchedule,
+  shared: Omit<ReportContext, "supabase" | "periodStart" | "periodEnd" | "currency" | "unconverted">,
+  currency: string,
+  senderFor: (schedule: ReportSchedule) => string | null,
+  triggeredBy: "schedule" | "manual",
+  appUrl: string
+) {
+  const periodEnd = new Date();
+  const ctx: ReportContext = {
+    ...shared,
+    supabase,
+    periodStart: getPeriodStart(schedule.frequency, periodEnd),
+    periodEnd,
+    currency,
+    unconverted: new Set(),
+  };
+
+  const recipientResults: RecipientResult[] = [];
+  let rowCount = 0;
+  let errorMessage: string | null = null;
+
+  try {
+    const builder = reportBuilders[schedule.report_type];
+    if (!builder) throw new Error(`Unknown report type: ${schedule.report_type}`);
+
+    const recipients = getRecipients(schedule.recipients);
+    if (recipients.length === 0) throw new Error("Schedule has no recipients");
+
+    const sender = senderFor(schedule);
+    if (!sender) throw new Error("No sender mailbox: set REPORTS_SENDER_EMAIL or give the schedule owner an email");
+
+    const report = await builder(ctx);
+    rowCount = report.csv.rows.length;
+
+    const html = generateReportHtml(schedule, report, ctx, appUrl);
+    const fileDate = formatDate(periodEnd.toISOString());
+    const attachment: EmailAttachment = {
+      name: `${schedule.report_type}_${fileDate}.csv`,
+      contentType: "text/csv",
+      // BOM so spreadsheet apps read the file as UTF-8
+      contentBytes: toBase64("\uFEFF" + toCsv(report.csv)),
+    };
+    const subject = `📊 ${schedule.name} – ${reportTitles[schedule.report_type] || report.title} (${fileDate})`;
+
+    const accessToken = await getAccessToken();
+    for (const email of recipients) {
+      if (!emailRegex.test(email)) {
+        recipientResults.push({ email, status: "failed", error: "Invalid email address" });
+        continue;
+      }
+      try {
+        await sendEmailViaGraph(accessToken, email, subject, html, sender, [attachment]);
+        recipientResults.push({ email, status: "sent" });
+      } catch (err) {
+        console.error(`Failed to send report ${schedule.id} to ${email}:`, err);
+        recipientResults.push({ email, status: "failed", error: String(err) });
+      }
+    }
+  } catch (err) {
+    console.error(`Report ${schedule.id} failed:`, err);
+    errorMessage = err instanceof Error ? err.message : String(err);
+  }
+
+  const sentCount = recipientResults.filter(r => r.status === "sent").length;
+  const status = sentCount === 0 ? "failed" : sentCount < recipientResults.length ? "partial" : "sent";
+  if (!errorMessage && status !== "sent") {
+    errorMessage = `${recipientResults.length - sentCount} of ${recipientResults.length} recipient(s) failed`;
+  }
+
+  const { error: runError } = await supabase.from("report_schedule_runs").insert({
+    schedule_id: schedule.id,
+    status,
+    triggered_by: triggeredBy,
+    period_start: ctx.periodStart.toISOString(),
+    period_end: ctx.periodEnd.toISOString(),
+    row_count: rowCount,
+    recipients: recipientResults,
+    error_message: errorMessage,
+  });
+  if (runError) console.error(`Failed to log run for schedule ${schedule.id}:`, runError);
+
+  const scheduleUpdate: Record<string, string> = {
+    last_run_at: periodEnd.toISOString(),
+    last_run_status: status,
+  };
+  if (sentCount > 0) scheduleUpdate.last_sent_at = periodEnd.toISOString();
+
+  const { error: updateError } = await supabase.from("report_schedules").update(scheduleUpdate).eq("id", schedule.id);
+  if (updateError) console.error(`Failed to update schedule ${schedule.id}:`, updateError);
+
+  return { scheduleId: schedule.id, status, sent: sentCount, failed: recipientResults.length - sentCount, error: errorMessage };
+}
+
+// Only admins may send a report on demand
+async function assertAdmin(req: Request, supabase: SupabaseClient) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) throw new Error("Unauthorized");
+
+  const { data: { user } } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+  if (!user) throw new Error("Unauthorized");
+
+  const { data: roleData } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .single();
+
+  if ((roleData?.role || user.user_metadata?.role) !== "admin") {
+    throw new Error("Only admins can send reports");
+  }
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // A scheduleId sends that report now; otherwise every due schedule is processed
+    let scheduleId: string | null = null;
+    try {
+      const body = await req.json();
+      scheduleId = typeof body?.scheduleId === "string" ? body.scheduleId : null;
+    } catch {
+      // No body or invalid JSON: scheduled run
+    }
+
+    console.log(`Starting send-scheduled-reports function... (schedule: ${scheduleId || "all due"})`);
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (scheduleId) await assertAdmin(req, supabase);
+
+    let query = supabase.from("report_schedules").select("*");
+    query = scheduleId ? query.eq("id", scheduleId) : query.eq("is_enabled", true);
+    const { data: schedules, error: schedulesError } = await query;
+
+    if (schedulesError) {
+      console.error("Error fetching report schedules:", schedulesError);
+      throw schedulesError;
+    }
+
+    if (!schedules || schedules.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No report schedules to process", results: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Schedule times are in the owner's timezone, like task reminders
+    const ownerIds = [...new Set(schedules.map(s => s.created_by).filter(Boolean))];
+    const { data: owners } = ownerIds.length
+      ? await supabase.from("profiles").select('id, "Email ID", timezone').in("id", ownerIds)
+      : { data: [] };
+    const ownerById = new Map((owners || []).map(o => [o.id, o]));
+    const timezoneFor = (schedule: ReportSchedule) =>
+      resolveTimeZone(schedule.created_by ? ownerById.get(schedule.created_by)?.timezone : null, DEFAULT_TIMEZONE);
+
+    const now = new Date();
+    const dueSchedules = scheduleId
+      ? (schedules as ReportSchedule[])
+      : (schedules as ReportSchedule[]).filter(s => isScheduleDue(s, timezoneFor(s), now));
+
+    console.log(`${dueSchedules.length} of ${schedules.length} schedule(s) due`);
+
+    if (dueSchedules.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, message: "No reports due", results: [] }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Lookups shared by every report in this run
+    const { data: stageRows } = await supabase
+      .from("pipeline_stages")
+      .select("stage_name, stage_order, stage_probability, is_won_stage, is_lost_stage")
+      .order("stage_order");
+    const stages = (stageRows || []) as StageRow[];
+    const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+    const lostStages = new Set(stages.filter(s => s.is_lost_stage).map(s => s.stage_name));
+    if (wonStages.size === 0) wonStages.add("Won");
+    if (lostStages.size === 0) ["Lost", "Dropped"].forEach(s => lostStages.add(s));
+
+    const profiles = await fetchAll<{ id: string; full_name: string | null; "Email ID": string | null }>((from, to) =>
+      supabase.from("profiles").select('id, full_name, "Email ID"').range(from, to)
+    );
+    const userNames = Object.fromEntries(
+      profiles.map(p => [p.id, p.full_name || p["Email ID"] || "Unknown User"])
+    );
+
+    const { data: rateRows, error: ratesError } = await supabase
+      .from("exchange_rates")
+      .select("from_currency, to_currency, rate, effective_date");
+    if (ratesError) throw ratesError;
+    const rates = (rateRows || []).map(r => ({ ...r, rate: Number(r.rate) })) as ExchangeRate[];
+
+    const { data: ownerPreferences } = ownerIds.length
+      ? await supabase.from("user_preferences").select("user_id, currency").in("user_id", ownerIds)
+      : { data: [] };
+    const currencyByOwner = new Map((ownerPreferences || []).map(p => [p.user_id, p.currency]));
+    const currencyFor = (schedule: ReportSchedule) =>
+      (schedule.created_by && currencyByOwner.get(schedule.created_by)) || DEFAULT_REPORTING_CURRENCY;
+
+    // Reports go out from a shared mailbox when configured, otherwise from the schedule owner
+    const sharedSender = Deno.env.get("REPORTS_SENDER_EMAIL") || null;
+    const senderFor = (schedule: ReportSchedule) =>
+      sharedSender || (schedule.created_by && ownerById.get(schedule.created_by)?.["Email ID"]) || null;
+
+    const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+    const results = [];
+
+    for (const schedule of dueSchedules) {
+      // Claim the occurrence so an overlapping invocation does not send it twice
+      if (!scheduleId) {
+        let claim = supabase
+          .from("report_schedules")
+          .update({ last_run_at: now.toISOString() })
+          .eq("id", schedule.id);
+        claim = schedule.last_run_at ? claim.eq("last_run_at", schedule.last_run_at) : claim.is("last_run_at", null);
+        const { data: claimed, error: claimError } = await claim.select("id");
+
+        if (claimError || !claimed || claimed.length === 0) {
+          console.log(`Skipping schedule ${schedule.id} - already claimed by another run`);
+          continue;
+        }
+      }
+
+      results.push(
+        await runSchedule(
+          supabase,
+          schedule,
+          { stages, wonStages, lostStages, userNames, rates },
+          currencyFor(schedule),
+          senderFor,
+          scheduleId ? "manual" : "schedule",
+          appUrl
+        )
+      );
+    }
+
+    const sentCount = results.filter(r => r.status !== "failed").length;
+    console.log(`Scheduled reports complete: ${sentCount} delivered, ${results.length - sentCount} failed`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Processed ${results.length} report(s)`,
+        results,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in send-scheduled-reports:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      {
+        status: errorMessage === "Unauthorized" ? 401 : errorMessage.startsWith("Only admins") ? 403 : 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Link scanners (Safe Links, gateways, previewers) follow every link before the recipient does
+const BOT_USER_AGENTS = [
+  'microsoft-exchange',
+  'msexchange',
+  'barracuda',
+  'proofpoint',
+  'mimecast',
+  'fireeye',
+  'googleimageproxy',
+  'ymailproxy',
+  'outlookproxy',
+  'appengine-google',
+  'googlebot',
+  'bingbot',
+  'facebookexternalhit',
+  'twitterbot',
+  'linkedinbot',
+  'slackbot',
+  'whatsapp',
+  'telegrambot',
+  'discordbot',
+  'python-requests',
+  'curl',
+  'wget',
+  'go-http-client',
+  'okhttp',
+  'java/',
+  'headlesschrome',
+  'phantomjs',
+  'atp-',
+  'safelinks',
+  'safe links',
+  'protection.outlook',
+  'defender',
+  'safebrowsing',
+  'mailscanner',
+  'messagelabs',
+  'symantec',
+  'trend micro',
+  'sophos',
+  'mcafee',
+];
+
+// Clicks this soon after sending are almost always a scanner
+const MIN_CLICK_DELAY_SECONDS = 5;
+
+const NOT_FOUND_HTML = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Link not found</title></head>
+<body style="font-family: Arial, sans-serif; text-align: center; padding: 48px;">
+<h2>This link is no longer available</h2></body></html>`;
+
+function isBotUserAgent(userAgent: string | null): boolean {
+  if (!userAgent) return true; // No user agent = suspicious
+
+  const lowerUA = userAgent.toLowerCase();
+  return BOT_USER_AGENTS.some(bot => lowerUA.includes(bot));
+}
+
+function getClientIP(req: Request): string {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim();
+  }
+
+  return req.headers.get('x-real-ip') || req.headers.get('cf-connecting-ip') || 'unknown';
+}
+
+const redirect = (url: string) =>
+  new Response(null, {
+    status: 302,
+    headers: { Location: url, "Cache-Control": "no-store" },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  const linkId = new URL(req.url).searchParams.get("l");
+
+  if (!linkId) {
+    return new Response(NOT_FOUND_HTML, { status: 404, headers: { "Content-Type": "text/html; charset=utf-8" } });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const { data: link, error: linkError } = await supabase
+    .from("email_links")
+    .select("id, url, email_history_id")
+    .eq("id", linkId)
+    .maybeSingle();
+
+  if (linkError || !link) {
+    console.error(`Tracked link ${linkId} not found:`, linkError);
+    return new Response(NOT_FOUND_HTML, { status: 404, headers: { "Content-Type": "text/html; charset=utf-8" } });
+  }
+
+  // The recipient always gets redirected; tracking failures are only logged
+  try {
+    const userAgent = req.headers.get('user-agent');
+    const clientIP = getClientIP(req);
+
+    const { data: emailData, error: fetchError } = await supabase
+      .from("email_history")
+      .select("click_count, clicked_at, sent_at, contact_id, recipient_email")
+      .eq("id", link.email_history_id)
+      .single();
+
+    if (fetchError) {
+      console.error("Error fetching email record:", fetchError);
+      return redirect(link.url);
+    }
+
+    const now = new Date();
+    const secondsSinceSend = (now.getTime() - new Date(emailData.sent_at || 0).getTime()) / 1000;
+    const isBot = isBotUserAgent(userAgent) || secondsSinceSend < MIN_CLICK_DELAY_SECONDS;
+
+    const { error: clickError } = await supabase
+      .from("email_link_clicks")
+      .insert({
+        link_id: link.id,
+        email_history_id: link.email_history_id,
+        url: link.url,
+        recipient_email: emailData.recipient_email,
+        clicked_at: now.toISOString(),
+        ip_address: clientIP,
+        user_agent: userAgent,
+        is_bot: isBot,
+      });
+
+    if (clickError) {
+      console.error("Error recording link click:", clickError);
+    }
+
+    if (isBot) {
+      console.log(`Bot/scanner click on link ${link.id}, not counted - UA: ${userAgent?.substring(0, 50)}`);
+      return redirect(link.url);
+    }
+
+    const isFirstClick = !emailData.clicked_at;
+    const updateData: Record<string, unknown> = {
+      click_count: (emailData.click_count || 0) + 1,
+    };
+    if (isFirstClick) {
+      updateData.clicked_at = now.toISOString();
+    }
+
+    const { error: updateError } = await supabase
+      .from("email_history")
+      .update(updateData)
+      .eq("id", link.email_history_id);
+
+    if (updateError) {
+      console.error("Error updating email history:", updateError);
+    } else {
+      console.log(`Tracked click on ${link.url} for email ${link.email_history_id}`);
+    }
+
+    if (emailData.contact_id) {
+      const { data: contact } = await supabase
+        .from("contacts")
+        .select("email_clicks, engagement_score")
+        .eq("id", emailData.contact_id)
+        .single();
+
+      if (contact) {
+        // Engagement is scored once per email, like opens
+        await supabase
+          .from("contacts")
+          .update({
+            email_clicks: (contact.email_clicks || 0) + 1,
+            engagement_score: isFirstClick
+              ? Math.min((contact.engagement_score || 0) + 10, 100)
+              : contact.engagement_score,
+          })
+          .eq("id", emailData.contact_id);
+      }
+    }
+  } catch (error) {
+    console.error("Error tracking email click:", error);
+  }
+
+  return redirect(link.url);
+};
+
+serve(handler);
@@ -0,0 +1,131 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Called by the public /unsubscribe page. The token is the email_history id from the link in the
+// email; without confirm it only reports which address the link is for, so link scanners that
+// fetch the page don't unsubscribe anyone.
+interface UnsubscribeRequest {
+  token: string;
+  confirm?: boolean;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Show enough of the address for the recipient to recognise it without exposing it to anyone with the link
+const maskEmail = (email: string) => {
+  const [local, domain] = email.split("@");
+  if (!domain) return email;
+  return `${local.slice(0, 2)}${"*".repeat(Math.max(local.length - 2, 1))}@${domain}`;
+};
+
+const jsonResponse = (payload: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+// Record the opt-out on every contact and lead with this address, not just the one emailed
+async function recordOptOut(supabase: SupabaseClient, table: "contacts" | "leads", email: string, at: string) {
+  const { data: records, error } = await supabase
+    .from(table)
+    .select("id, communication_preferences")
+    .ilike("email", email.replace(/[\\%_]/g, "\\$&"));
+
+  if (error) {
+    console.error(`Error finding ${table} for ${email}:`, error);
+    return;
+  }
+
+  for (const record of records || []) {
+    const current = record.communication_preferences && typeof record.communication_preferences === "object"
+      ? record.communication_preferences as Record<string, unknown>
+      : {};
+    const { error: updateError } = await supabase
+      .from(table)
+      .update({ communication_preferences: { ...current, email_opt_out: true, email_opt_out_at: at } })
+      .eq("id", record.id);
+
+    if (updateError) {
+      console.error(`Error recording opt-out on ${table} ${record.id}:`, updateError);
+    }
+  }
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { token, confirm }: UnsubscribeRequest = await req.json();
+
+    if (!token || !UUID_PATTERN.test(token)) {
+      return jsonResponse({ error: "This unsubscribe link is not valid" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: email, error: emailError } = await supabase
+      .from("email_history")
+      .select("id, recipient_email, contact_id, lead_id")
+      .eq("id", token)
+      .maybeSingle();
+
+    if (emailError) throw emailError;
+    if (!email) {
+      return jsonResponse({ error: "This unsubscribe link is not valid" }, 404);
+    }
+
+    const address = email.recipient_email.trim().toLowerCase();
+
+    const { data: existing } = await supabase
+      .from("email_suppressions")
+      .select("reason")
+      .eq("email", address)
+      .maybeSingle();
+
+    if (!confirm || existing?.reason === "unsubscribed") {
+      return jsonResponse({ success: true, email: maskEmail(address), unsubscribed: existing?.reason === "unsubscribed" });
+    }
+
+    const now = new Date().toISOString();
+
+    // A bounce or manual entry already suppresses the address; the opt-out is the stronger reason to keep
+    const { error: suppressError } = await supabase
+      .from("email_suppressions")
+      .upsert({
+        email: address,
+        reason: "unsubscribed",
+        source_email_history_id: email.id,
+        contact_id: email.contact_id,
+        lead_id: email.lead_id,
+        notes: null,
+        created_at: now,
+      }, { onConflict: "email" });
+
+    if (suppressError) throw suppressError;
+
+    await recordOptOut(supabase, "contacts", address, now);
+    await recordOptOut(supabase, "leads", address, now);
+
+    console.log(`Recorded unsubscribe for ${address} from email ${email.id}`);
+
+    return jsonResponse({ success: true, email: maskEmail(address), unsubscribed: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Error in unsubscribe-email function:", error);
+    return jsonResponse({ success: false, error: errorMessage }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,284 @@
+-- Store the parked change on each approval request so it can be applied once every step approves
+ALTER TABLE public.approval_requests ADD COLUMN IF NOT EXISTS proposed_changes JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.approval_requests ADD COLUMN IF NOT EXISTS previous_values JSONB;
+ALTER TABLE public.approval_requests ADD COLUMN IF NOT EXISTS record_name TEXT;
+
+-- Only one pending request per record at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_requests_one_pending
+  ON public.approval_requests(entity_type, entity_id)
+  WHERE status = 'pending';
+
+-- A workflow without steps would leave its requests with nobody to act on them
+ALTER TABLE public.approval_workflows DROP CONSTRAINT IF EXISTS approval_workflows_has_steps;
+ALTER TABLE public.approval_workflows ADD CONSTRAINT approval_workflows_has_steps
+  CHECK (jsonb_typeof(approval_steps) = 'array' AND jsonb_array_length(approval_steps) > 0) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_status ON public.approval_requests(status);
+CREATE INDEX IF NOT EXISTS idx_approval_actions_request_id ON public.approval_actions(request_id);
+
+-- Submitters only open requests, at the first step of an enabled workflow for the same entity.
+-- From then on the request and its actions are written by act_on_approval_request alone, so
+-- nobody can edit the parked change after approvers have seen it or record approvals themselves.
+DROP POLICY IF EXISTS "Users can create approval requests" ON public.approval_requests;
+CREATE POLICY "Users can create approval requests" ON public.approval_requests
+  FOR INSERT WITH CHECK (
+    submitted_by = auth.uid()
+    AND status = 'pending'
+    AND current_step = 1
+    AND completed_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.approval_workflows w
+      WHERE w.id = workflow_id AND w.entity_type = approval_requests.entity_type AND w.is_enabled = true
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins and approvers can update approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Approvers can create approval actions" ON public.approval_actions;
+
+-- Whether a user may act on a workflow step: admins always, managers on manager steps,
+-- and the named user when the step is assigned to a specific person
+CREATE OR REPLACE FUNCTION public.can_act_on_approval_step(p_step jsonb, p_user_id uuid DEFAULT auth.uid())
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_step IS NULL OR p_user_id IS NULL THEN false
+    WHEN public.get_user_role(p_user_id) = 'admin' THEN true
+    WHEN p_step->>'user_id' IS NOT NULL THEN (p_step->>'user_id')::uuid = p_user_id
+    WHEN p_step->>'role' = 'manager' THEN public.get_user_role(p_user_id) = 'manager'
+    ELSE false
+  END;
+$$;
+
+-- Record an approve/reject action on the current step, advance the request and,
+-- after the last step approves, apply the parked change to the target record
+CREATE OR REPLACE FUNCTION public.act_on_approval_request(
+  p_request_id uuid,
+  p_action text,
+  p_comments text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+  v_steps jsonb;
+  v_step jsonb;
+  v_total_steps integer;
+  v_status text;
+  v_set_clause text;
+  v_stale_clause text;
+  v_stale boolean := false;
+  -- Stamped by the save handlers; never applied from a parked change
+  v_bookkeeping text[] := ARRAY['modified_at', 'modified_by', 'modified_time', 'updated_at'];
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Approval request is already %', v_request.status;
+  END IF;
+
+  SELECT approval_steps INTO v_steps FROM public.approval_workflows WHERE id = v_request.workflow_id;
+  v_total_steps := COALESCE(jsonb_array_length(v_steps), 0);
+  IF v_total_steps = 0 THEN
+    -- The workflow was deleted or lost its steps; an admin settles the request in one action
+    v_step := jsonb_build_object('step', 1, 'role', 'admin');
+  ELSE
+    v_step := v_steps -> (COALESCE(v_request.current_step, 1) - 1);
+  END IF;
+
+  IF NOT public.can_act_on_approval_step(v_step, auth.uid()) THEN
+    RAISE EXCEPTION 'You are not an approver for step % of this request', v_request.current_step;
+  END IF;
+
+  INSERT INTO public.approval_actions (request_id, step_number, approver_id, action, comments)
+  VALUES (v_request.id, COALESCE(v_request.current_step, 1), auth.uid(), p_action, p_comments);
+
+  IF p_action = 'rejected' THEN
+    v_status := 'rejected';
+  ELSIF COALESCE(v_request.current_step, 1) < v_total_steps THEN
+    UPDATE public.approval_requests
+    SET current_step = COALESCE(current_step, 1) + 1
+    WHERE id = v_request.id;
+    RETURN 'pending';
+  ELSE
+    v_status := 'approved';
+  END IF;
+
+  UPDATE public.approval_requests
+  SET status = v_status, completed_at = now()
+  WHERE id = v_request.id;
+
+  IF v_status = 'approved' THEN
+    IF v_request.entity_type NOT IN ('deals', 'leads', 'accounts') THEN
+      RAISE EXCEPTION 'Unsupported approval entity type: %', v_request.entity_type;
+    END IF;
+
+    -- Refuse to overwrite fields someone has edited since the request was submitted; the
+    -- approver rejects it instead and the change is resubmitted against the current record
+    IF v_request.previous_values IS NOT NULL THEN
+      SELECT string_agg(format('t.%I IS DISTINCT FROM r.%I', c.column_name, c.column_name), ' OR ')
+      INTO v_stale_clause
+      FROM information_schema.columns c
+      WHERE c.table_schema = 'public'
+        AND c.table_name = v_request.entity_type
+        AND c.column_name <> 'id'
+        AND c.column_name <> ALL (v_bookkeeping)
+        AND c.column_name IN (SELECT jsonb_object_keys(v_request.previous_values));
+
+      IF v_stale_clause IS NOT NULL THEN
+        EXECUTE format(
+          'SELECT EXISTS (SELECT 1 FROM public.%I t, jsonb_populate_record(NULL::public.%I, $1) r WHERE t.id = $2 AND (%s))',
+          v_request.entity_type, v_request.entity_type, v_stale_clause
+        ) INTO v_stale USING v_request.previous_values, v_request.entity_id;
+      END IF;
+
+      IF v_stale THEN
+        RAISE EXCEPTION 'This record was edited after the change was submitted. Reject the request so it can be resubmitted.';
+      END IF;
+    END IF;
+
+    SELECT string_agg(format('%I = r.%I', c.column_name, c.column_name), ', ')
+    INTO v_set_clause
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = v_request.entity_type
+      AND c.column_name <> 'id'
+      AND c.column_name <> ALL (v_bookkeeping)
+      AND c.column_name IN (SELECT jsonb_object_keys(v_request.proposed_changes));
+
+    IF v_set_clause IS NOT NULL THEN
+      -- Lets the change past enforce_approval_workflows for the rest of this transaction only
+      PERFORM set_config('app.applying_approval', 'on', true);
+      EXECUTE format(
+        'UPDATE public.%I t SET %s FROM jsonb_populate_record(NULL::public.%I, $1) r WHERE t.id = $2',
+        v_request.entity_type, v_set_clause, v_request.entity_type
+      ) USING v_request.proposed_changes, v_request.entity_id;
+      PERFORM set_config('app.applying_approval', 'off', true);
+    END IF;
+  END IF;
+
+  IF v_request.submitted_by IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, message, notification_type)
+    VALUES (
+      v_request.submitted_by,
+      format('Your change to %s was %s', COALESCE(v_request.record_name, v_request.entity_type), v_status),
+      'approval'
+    );
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+
+-- Server-side mirror of evaluateTriggerCondition in approvalEngine.ts
+CREATE OR REPLACE FUNCTION public.approval_condition_matches(p_condition jsonb, p_value text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_actual numeric;
+  v_expected numeric;
+BEGIN
+  IF p_value IS NULL OR p_value = '' THEN
+    RETURN false;
+  END IF;
+
+  IF p_condition->>'operator' = '=' THEN
+    RETURN lower(trim(p_value)) = lower(trim(p_condition->>'value'));
+  END IF;
+
+  BEGIN
+    v_actual := p_value::numeric;
+    v_expected := (p_condition->>'value')::numeric;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN false;
+  END;
+
+  RETURN CASE p_condition->>'operator'
+    WHEN '>=' THEN v_actual >= v_expected
+    WHEN '>' THEN v_actual > v_expected
+    WHEN '<=' THEN v_actual <= v_expected
+    WHEN '<' THEN v_actual < v_expected
+    ELSE false
+  END;
+END;
+$$;
+
+-- Reject writes that trip an enabled workflow, whatever path they come from (inline edits, imports,
+-- restores, direct API calls). Only act_on_approval_request applying an approved change and the
+-- service role get through; the client hook just parks the change before it reaches this point.
+-- A new record that already meets a condition is refused too: it is created without the gated
+-- value, and setting that value is then a change that goes through approval.
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claims jsonb := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+  v_workflow record;
+  v_field text;
+  v_new_value text;
+  v_old_value text;
+BEGIN
+  IF current_setting('app.applying_approval', true) = 'on' OR v_claims->>'role' = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT name, trigger_conditions
+    FROM public.approval_workflows
+    WHERE entity_type = TG_TABLE_NAME
+      AND is_enabled = true
+      AND trigger_conditions->>'field' IS NOT NULL
+    ORDER BY created_at
+  LOOP
+    v_field := v_workflow.trigger_conditions->>'field';
+    v_new_value := to_jsonb(NEW)->>v_field;
+    v_old_value := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD)->>v_field END;
+
+    IF COALESCE(v_new_value, '') <> COALESCE(v_old_value, '')
+      AND public.approval_condition_matches(v_workflow.trigger_conditions, v_new_value) THEN
+      IF TG_OP = 'INSERT' THEN
+        RAISE EXCEPTION 'Creating a record with % set to % needs approval (%)', v_field, v_new_value, v_workflow.name
+          USING ERRCODE = 'check_violation',
+                HINT = 'Create the record without that value, then submit the change for approval';
+      END IF;
+      RAISE EXCEPTION 'Changing % to % needs approval (%)', v_field, v_new_value, v_workflow.name
+        USING ERRCODE = 'check_violation',
+              HINT = 'Submit the change for approval instead of saving it directly';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows ON public.deals;
+CREATE TRIGGER enforce_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows ON public.leads;
+CREATE TRIGGER enforce_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows ON public.accounts;
+CREATE TRIGGER enforce_approval_workflows
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
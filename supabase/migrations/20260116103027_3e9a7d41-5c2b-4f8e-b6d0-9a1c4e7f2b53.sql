@@ -0,0 +1,5 @@
+-- Add page permission for the approvals inbox
+INSERT INTO page_permissions (page_name, route, description, admin_access, manager_access, user_access)
+VALUES 
+  ('Approvals', '/approvals', 'Review and act on approval requests', true, true, true)
+ON CONFLICT (route) DO NOTHING;
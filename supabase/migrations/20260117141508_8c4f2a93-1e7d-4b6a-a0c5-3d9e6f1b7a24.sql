@@ -0,0 +1,94 @@
+-- Drive deal stages from the configurable pipeline_stages table
+
+-- 1. Deal stages are no longer limited to the original hard-coded list
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_stage_check;
+
+-- Deals store the stage name, so names must stay unique
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipeline_stages_stage_name_unique
+  ON public.pipeline_stages (lower(stage_name));
+
+-- The seed placed Discussions after Offered, unlike the flow the deal board has always used.
+-- Realign it only while the admin has not reordered the default stages.
+DO $$
+BEGIN
+  IF (SELECT string_agg(stage_name, ',' ORDER BY stage_order) FROM public.pipeline_stages)
+     = 'Lead,Qualified,RFQ,Offered,Discussions,Won,Lost,Dropped' THEN
+    UPDATE public.pipeline_stages s
+    SET stage_order = v.new_order
+    FROM (VALUES ('Lead', 0), ('Discussions', 1), ('Qualified', 2), ('RFQ', 3), ('Offered', 4)) AS v(stage_name, new_order)
+    WHERE s.stage_name = v.stage_name;
+
+    UPDATE public.pipeline_stages
+    SET stage_probability = 20
+    WHERE stage_name = 'Discussions' AND stage_probability = 80;
+  END IF;
+END $$;
+
+-- 2. Renaming a stage carries its deals along with it
+CREATE OR REPLACE FUNCTION public.sync_deal_stage_on_rename()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.stage_name IS DISTINCT FROM OLD.stage_name THEN
+    -- The deals keep their stage under its new name; that is not a stage change to approve
+    PERFORM set_config('app.applying_approval', 'on', true);
+    UPDATE public.deals
+    SET stage = NEW.stage_name
+    WHERE stage = OLD.stage_name;
+    PERFORM set_config('app.applying_approval', 'off', true);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_sync_deal_stage_on_rename ON public.pipeline_stages;
+CREATE TRIGGER trigger_sync_deal_stage_on_rename
+AFTER UPDATE OF stage_name ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_deal_stage_on_rename();
+
+-- 3. Move every deal out of a stage and deactivate or delete it in the same transaction, so a
+-- failure never leaves the deals moved while the stage stays as it was
+CREATE OR REPLACE FUNCTION public.reassign_deal_stage(p_from_stage text, p_to_stage text, p_retire text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can reassign deal stages';
+  END IF;
+
+  IF p_retire NOT IN ('deactivate', 'delete') THEN
+    RAISE EXCEPTION 'Invalid stage action: %', p_retire;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE stage_name = p_to_stage AND COALESCE(is_active, true) AND stage_name <> p_from_stage
+  ) THEN
+    RAISE EXCEPTION 'Stage "%" is not an active pipeline stage', p_to_stage;
+  END IF;
+
+  -- An admin retiring a stage moves its deals wholesale, past any stage-based approval workflow
+  PERFORM set_config('app.applying_approval', 'on', true);
+  UPDATE public.deals
+  SET stage = p_to_stage,
+      modified_at = now(),
+      modified_by = auth.uid()
+  WHERE stage = p_from_stage;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  PERFORM set_config('app.applying_approval', 'off', true);
+
+  IF p_retire = 'delete' THEN
+    DELETE FROM public.pipeline_stages WHERE stage_name = p_from_stage;
+  ELSE
+    UPDATE public.pipeline_stages SET is_active = false WHERE stage_name = p_from_stage;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Store values for admin-defined custom fields (crm_custom_fields) on each record
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS custom_fields jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Only the supported entities and field types can be defined
+ALTER TABLE public.crm_custom_fields DROP CONSTRAINT IF EXISTS crm_custom_fields_entity_type_check;
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_entity_type_check
+  CHECK (entity_type IN ('lead', 'contact', 'account', 'deal'));
+
+ALTER TABLE public.crm_custom_fields DROP CONSTRAINT IF EXISTS crm_custom_fields_field_type_check;
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_field_type_check
+  CHECK (field_type IN ('text', 'number', 'date', 'select', 'multiselect', 'boolean'));
+
+-- Field names become JSON keys and CSV/column identifiers
+ALTER TABLE public.crm_custom_fields DROP CONSTRAINT IF EXISTS crm_custom_fields_field_name_check;
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_field_name_check
+  CHECK (field_name ~ '^[a-z][a-z0-9_]*$');
+
+CREATE INDEX IF NOT EXISTS idx_crm_custom_fields_entity_order
+  ON public.crm_custom_fields (entity_type, display_order);
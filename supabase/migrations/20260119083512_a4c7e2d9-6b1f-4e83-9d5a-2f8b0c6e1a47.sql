@@ -0,0 +1,28 @@
+-- Delivery tracking for scheduled reports sent by the send-scheduled-reports edge function
+
+-- last_run_at marks the last attempted occurrence so a failing schedule is not retried every run;
+-- last_sent_at keeps meaning "last successful delivery"
+ALTER TABLE public.report_schedules ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ;
+ALTER TABLE public.report_schedules ADD COLUMN IF NOT EXISTS last_run_status TEXT;
+
+CREATE TABLE IF NOT EXISTS public.report_schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES public.report_schedules(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'partial', 'failed')),
+  triggered_by TEXT NOT NULL DEFAULT 'schedule' CHECK (triggered_by IN ('schedule', 'manual')),
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  recipients JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ email, status, error }]
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedule_runs_schedule
+  ON public.report_schedule_runs (schedule_id, created_at DESC);
+
+ALTER TABLE public.report_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the edge function with the service role
+CREATE POLICY "Admins can view report schedule runs" ON public.report_schedule_runs
+  FOR SELECT USING (is_user_admin());
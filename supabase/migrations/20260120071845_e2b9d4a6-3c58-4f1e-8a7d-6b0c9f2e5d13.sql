@@ -0,0 +1,7 @@
+-- Outcome of the last scheduled backup run (run-scheduled-backups edge function)
+ALTER TABLE public.backup_schedules ADD COLUMN IF NOT EXISTS last_status TEXT;
+ALTER TABLE public.backup_schedules ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+-- Retention pruning looks up scheduled backups by age
+CREATE INDEX IF NOT EXISTS idx_backups_type_created_at
+  ON public.backups (backup_type, created_at);
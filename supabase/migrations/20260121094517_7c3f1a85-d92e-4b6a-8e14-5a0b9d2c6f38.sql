@@ -0,0 +1,17 @@
+-- Recurring tasks: occurrences link to the first task of their series through parent_task_id
+
+-- Marks an occurrence edited with "this occurrence only" so its changes are not copied forward
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS recurrence_exception BOOLEAN NOT NULL DEFAULT false;
+
+-- Date the series' rule counts from; null means the first task's due date. A "this and future" edit
+-- that moves the date or changes the rule restarts the count from the edited occurrence.
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS recurrence_anchor_date DATE;
+
+-- One occurrence per series and date; stops the app and the scheduled job generating the same occurrence twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tasks_series_occurrence
+  ON public.tasks (parent_task_id, due_date)
+  WHERE parent_task_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence
+  ON public.tasks (recurrence)
+  WHERE recurrence IS NOT NULL AND recurrence <> 'none';
@@ -0,0 +1,324 @@
+-- Configurable lead and contact scoring
+-- Scores are recalculated by triggers when emails, meetings, deals or the record change,
+-- and nightly by the recalculate-scores edge function so recency decay keeps moving
+
+CREATE TABLE IF NOT EXISTS public.scoring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  entity_type TEXT NOT NULL DEFAULT 'both' CHECK (entity_type IN ('lead', 'contact', 'both')),
+  rule_type TEXT NOT NULL CHECK (rule_type IN (
+    'email_open', 'email_click', 'email_reply', 'meeting_held', 'deal_stage', 'industry', 'region'
+  )),
+  match_value TEXT, -- stage, industry or region compared case-insensitively
+  points INTEGER NOT NULL DEFAULT 0, -- per event for email/meeting rules, once for match rules
+  max_points INTEGER, -- cap on what one rule can contribute
+  decay_half_life_days INTEGER, -- event points halve every N days; NULL keeps full value
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view scoring rules"
+ON public.scoring_rules FOR SELECT USING (true);
+
+CREATE POLICY "Admins can insert scoring rules"
+ON public.scoring_rules FOR INSERT WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can update scoring rules"
+ON public.scoring_rules FOR UPDATE USING (is_user_admin());
+
+CREATE POLICY "Admins can delete scoring rules"
+ON public.scoring_rules FOR DELETE USING (is_user_admin());
+
+CREATE TRIGGER update_scoring_rules_updated_at
+BEFORE UPDATE ON public.scoring_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starter rules; admins tune or replace them in Settings
+INSERT INTO public.scoring_rules (name, rule_type, points, max_points, decay_half_life_days) VALUES
+  ('Email opened', 'email_open', 2, 20, 30),
+  ('Email link clicked', 'email_click', 5, 25, 30),
+  ('Email replied', 'email_reply', 10, 30, 60),
+  ('Meeting held', 'meeting_held', 15, 30, 90);
+
+-- Score output: contacts already have a score column, leads get one
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS score INTEGER DEFAULT 0;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS score_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS score_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Weight of an event after recency decay (1 = full points)
+CREATE OR REPLACE FUNCTION public.score_decay(p_event_at TIMESTAMP WITH TIME ZONE, p_half_life_days INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_half_life_days IS NULL OR p_half_life_days <= 0 THEN 1
+    ELSE power(0.5, GREATEST(EXTRACT(EPOCH FROM now() - p_event_at), 0) / 86400.0 / p_half_life_days)
+  END::NUMERIC;
+$$;
+
+-- Recalculate one lead or contact from the active rules and store the score with its breakdown
+CREATE OR REPLACE FUNCTION public.calculate_record_score(p_entity_type TEXT, p_record_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rule RECORD;
+  v_industry TEXT;
+  v_region TEXT;
+  v_country TEXT;
+  v_account_id UUID;
+  v_count INTEGER;
+  v_points NUMERIC;
+  v_total NUMERIC := 0;
+  v_breakdown JSONB := '[]'::jsonb;
+  v_score INTEGER;
+BEGIN
+  IF p_entity_type = 'contact' THEN
+    SELECT industry, region, account_id INTO v_industry, v_region, v_account_id
+    FROM public.contacts WHERE id = p_record_id;
+  ELSIF p_entity_type = 'lead' THEN
+    -- Leads have no region column; region rules match their account's region or their country
+    SELECT l.industry, a.region, l.country, l.account_id INTO v_industry, v_region, v_country, v_account_id
+    FROM public.leads l
+    LEFT JOIN public.accounts a ON a.id = l.account_id
+    WHERE l.id = p_record_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown entity type: %', p_entity_type;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM public.scoring_rules
+    WHERE is_active AND entity_type IN (p_entity_type, 'both')
+    ORDER BY created_at
+  LOOP
+    v_count := 0;
+    v_points := 0;
+
+    IF v_rule.rule_type IN ('email_open', 'email_click', 'email_reply') THEN
+      SELECT COUNT(*), COALESCE(SUM(public.score_decay(event_at, v_rule.decay_half_life_days)), 0)
+      INTO v_count, v_points
+      FROM (
+        SELECT CASE v_rule.rule_type
+          WHEN 'email_open' THEN CASE WHEN is_valid_open IS DISTINCT FROM false THEN opened_at END
+          WHEN 'email_click' THEN clicked_at
+          ELSE replied_at
+        END AS event_at
+        FROM public.email_history
+        WHERE (p_entity_type = 'contact' AND contact_id = p_record_id)
+           OR (p_entity_type = 'lead' AND lead_id = p_record_id)
+      ) events
+      WHERE event_at IS NOT NULL;
+      v_points := v_points * v_rule.points;
+
+    ELSIF v_rule.rule_type = 'meeting_held' THEN
+      SELECT COUNT(*), COALESCE(SUM(public.score_decay(start_time, v_rule.decay_half_life_days)), 0)
+      INTO v_count, v_points
+      FROM public.meetings
+      WHERE ((p_entity_type = 'contact' AND contact_id = p_record_id)
+          OR (p_entity_type = 'lead' AND lead_id = p_record_id))
+        AND status <> 'cancelled'
+        AND end_time < now();
+      v_points := v_points * v_rule.points;
+
+    ELSIF v_rule.rule_type = 'deal_stage' THEN
+      -- Deals belong to the record's account, or directly to a contact
+      SELECT COUNT(*) INTO v_count
+      FROM public.deals
+      WHERE lower(stage) = lower(trim(v_rule.match_value))
+        AND ((p_entity_type = 'contact' AND contact_id = p_record_id)
+          OR (v_account_id IS NOT NULL AND account_id = v_account_id));
+      IF v_count > 0 THEN
+        v_points := v_rule.points;
+      END IF;
+
+    ELSIF v_rule.rule_type = 'industry' THEN
+      IF lower(trim(v_industry)) = lower(trim(v_rule.match_value)) THEN
+        v_count := 1;
+        v_points := v_rule.points;
+      END IF;
+
+    ELSIF v_rule.rule_type = 'region' THEN
+      IF lower(trim(v_rule.match_value)) IN (lower(trim(v_region)), lower(trim(v_country))) THEN
+        v_count := 1;
+        v_points := v_rule.points;
+      END IF;
+    END IF;
+
+    IF v_rule.max_points IS NOT NULL THEN
+      v_points := CASE
+        WHEN v_rule.points >= 0 THEN LEAST(v_points, v_rule.max_points)
+        ELSE GREATEST(v_points, -abs(v_rule.max_points))
+      END;
+    END IF;
+
+    IF v_count > 0 AND round(v_points, 1) <> 0 THEN
+      v_total := v_total + v_points;
+      v_breakdown := v_breakdown || jsonb_build_object(
+        'rule_id', v_rule.id,
+        'name', v_rule.name,
+        'rule_type', v_rule.rule_type,
+        'count', v_count,
+        'points', round(v_points, 1)
+      );
+    END IF;
+  END LOOP;
+
+  v_score := GREATEST(0, LEAST(100, round(v_total)))::INTEGER;
+
+  IF p_entity_type = 'contact' THEN
+    UPDATE public.contacts
+    SET score = v_score, score_breakdown = v_breakdown, score_updated_at = now()
+    WHERE id = p_record_id;
+  ELSE
+    UPDATE public.leads
+    SET score = v_score, score_breakdown = v_breakdown, score_updated_at = now()
+    WHERE id = p_record_id;
+  END IF;
+
+  RETURN v_score;
+END;
+$$;
+
+-- Recalculate every lead and contact (nightly job and the "Recalculate now" button)
+CREATE OR REPLACE FUNCTION public.recalculate_all_scores()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  -- Service role calls have no auth.uid()
+  IF auth.uid() IS NOT NULL AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate all scores';
+  END IF;
+
+  FOR v_id IN SELECT id FROM public.contacts LOOP
+    PERFORM public.calculate_record_score('contact', v_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  FOR v_id IN SELECT id FROM public.leads LOOP
+    PERFORM public.calculate_record_score('lead', v_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Event triggers: rescore the leads and contacts an email, meeting or deal belongs to
+CREATE OR REPLACE FUNCTION public.rescore_related_records()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF TG_TABLE_NAME IN ('email_history', 'meetings') THEN
+    IF TG_OP <> 'DELETE' THEN
+      IF NEW.contact_id IS NOT NULL THEN PERFORM public.calculate_record_score('contact', NEW.contact_id); END IF;
+      IF NEW.lead_id IS NOT NULL THEN PERFORM public.calculate_record_score('lead', NEW.lead_id); END IF;
+    END IF;
+    IF TG_OP <> 'INSERT' THEN
+      IF OLD.contact_id IS NOT NULL AND OLD.contact_id IS DISTINCT FROM NEW.contact_id THEN
+        PERFORM public.calculate_record_score('contact', OLD.contact_id);
+      END IF;
+      IF OLD.lead_id IS NOT NULL AND OLD.lead_id IS DISTINCT FROM NEW.lead_id THEN
+        PERFORM public.calculate_record_score('lead', OLD.lead_id);
+      END IF;
+    END IF;
+
+  ELSIF TG_TABLE_NAME = 'deals' THEN
+    -- Only deal stage rules depend on deals; skip the work when there are none
+    IF NOT EXISTS (SELECT 1 FROM public.scoring_rules WHERE is_active AND rule_type = 'deal_stage') THEN
+      RETURN NULL;
+    END IF;
+
+    FOR v_id IN
+      SELECT id FROM public.contacts
+      WHERE (TG_OP <> 'DELETE' AND (id = NEW.contact_id OR account_id = NEW.account_id))
+         OR (TG_OP <> 'INSERT' AND (id = OLD.contact_id OR account_id = OLD.account_id))
+    LOOP
+      PERFORM public.calculate_record_score('contact', v_id);
+    END LOOP;
+
+    FOR v_id IN
+      SELECT id FROM public.leads
+      WHERE (TG_OP <> 'DELETE' AND account_id = NEW.account_id)
+         OR (TG_OP <> 'INSERT' AND account_id = OLD.account_id)
+    LOOP
+      PERFORM public.calculate_record_score('lead', v_id);
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rescore_on_email_history_change
+AFTER INSERT OR DELETE OR UPDATE OF opened_at, clicked_at, replied_at, is_valid_open, contact_id, lead_id
+ON public.email_history
+FOR EACH ROW
+EXECUTE FUNCTION public.rescore_related_records();
+
+CREATE TRIGGER rescore_on_meeting_change
+AFTER INSERT OR DELETE OR UPDATE OF status, start_time, end_time, contact_id, lead_id
+ON public.meetings
+FOR EACH ROW
+EXECUTE FUNCTION public.rescore_related_records();
+
+CREATE TRIGGER rescore_on_deal_change
+AFTER INSERT OR DELETE OR UPDATE OF stage, contact_id, account_id
+ON public.deals
+FOR EACH ROW
+EXECUTE FUNCTION public.rescore_related_records();
+
+-- Industry, region and account changes on the record itself
+CREATE OR REPLACE FUNCTION public.rescore_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.calculate_record_score(
+    CASE WHEN TG_TABLE_NAME = 'contacts' THEN 'contact' ELSE 'lead' END,
+    NEW.id
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rescore_contact_on_change
+AFTER INSERT OR UPDATE OF industry, region, account_id
+ON public.contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.rescore_record();
+
+CREATE TRIGGER rescore_lead_on_change
+AFTER INSERT OR UPDATE OF industry, country, account_id
+ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.rescore_record();
+
+-- Existing records are scored by the nightly recalculate-scores run, or sooner from "Recalculate now"
+-- in the scoring settings; rescoring every row here would hold its locks for the whole deploy
@@ -0,0 +1,41 @@
+-- Manually maintained exchange rates for converting deal values into a reporting currency
+-- A rate applies from its effective date until the next rate for the same pair
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0), -- 1 unit of from_currency in to_currency
+  effective_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_pair_date_unique UNIQUE (from_currency, to_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+ON public.exchange_rates (from_currency, to_currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates FOR SELECT USING (true);
+
+CREATE POLICY "Admins can insert exchange rates"
+ON public.exchange_rates FOR INSERT WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can update exchange rates"
+ON public.exchange_rates FOR UPDATE USING (is_user_admin());
+
+CREATE POLICY "Admins can delete exchange rates"
+ON public.exchange_rates FOR DELETE USING (is_user_admin());
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Revenue targets were entered in EUR; record the currency so they convert like deal values
+ALTER TABLE public.yearly_revenue_targets ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'EUR';
@@ -0,0 +1,153 @@
+-- Multi-step email sequences (cadences) for leads and contacts
+-- The process-email-sequences edge function sends due steps through send-email;
+-- a reply or bounce on any email to the recipient stops their active enrolments
+
+CREATE TABLE IF NOT EXISTS public.email_sequences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true, -- inactive sequences hold their enrolments until re-activated
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  template_id UUID NOT NULL REFERENCES public.email_templates(id) ON DELETE RESTRICT,
+  wait_days INTEGER NOT NULL DEFAULT 0 CHECK (wait_days >= 0), -- days after enrolment or the previous step
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT email_sequence_steps_order_unique UNIQUE (sequence_id, step_order)
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  sender_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'replied', 'bounced', 'stopped', 'failed')),
+  current_step INTEGER NOT NULL DEFAULT 0, -- number of steps already sent
+  next_send_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  stopped_at TIMESTAMP WITH TIME ZONE,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enrolled_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT email_sequence_enrollments_target CHECK (lead_id IS NOT NULL OR contact_id IS NOT NULL)
+);
+
+-- A record can only be actively enrolled in a sequence once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sequence_enrollments_active_lead
+ON public.email_sequence_enrollments (sequence_id, lead_id)
+WHERE status = 'active' AND lead_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sequence_enrollments_active_contact
+ON public.email_sequence_enrollments (sequence_id, contact_id)
+WHERE status = 'active' AND contact_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_due
+ON public.email_sequence_enrollments (next_send_at)
+WHERE status = 'active';
+
+ALTER TABLE public.email_history
+ADD COLUMN IF NOT EXISTS sequence_enrollment_id UUID REFERENCES public.email_sequence_enrollments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.email_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email sequences"
+ON public.email_sequences FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert email sequences"
+ON public.email_sequences FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update sequences, managers and admins can update all"
+ON public.email_sequences FOR UPDATE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete sequences, managers and admins can delete all"
+ON public.email_sequences FOR DELETE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can view email sequence steps"
+ON public.email_sequence_steps FOR SELECT USING (true);
+
+CREATE POLICY "Sequence owners can manage steps"
+ON public.email_sequence_steps FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.email_sequences s
+  WHERE s.id = sequence_id AND (is_user_admin() OR is_user_manager() OR s.created_by = auth.uid())
+))
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.email_sequences s
+  WHERE s.id = sequence_id AND (is_user_admin() OR is_user_manager() OR s.created_by = auth.uid())
+));
+
+CREATE POLICY "Authenticated users can view sequence enrollments"
+ON public.email_sequence_enrollments FOR SELECT USING (true);
+
+CREATE POLICY "Users can enroll records in sequences"
+ON public.email_sequence_enrollments FOR INSERT WITH CHECK (enrolled_by = auth.uid());
+
+CREATE POLICY "Users can update enrollments, managers and admins can update all"
+ON public.email_sequence_enrollments FOR UPDATE USING (is_user_admin() OR is_user_manager() OR enrolled_by = auth.uid());
+
+CREATE POLICY "Users can delete enrollments, managers and admins can delete all"
+ON public.email_sequence_enrollments FOR DELETE USING (is_user_admin() OR is_user_manager() OR enrolled_by = auth.uid());
+
+CREATE TRIGGER update_email_sequences_updated_at
+BEFORE UPDATE ON public.email_sequences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_sequence_enrollments_updated_at
+BEFORE UPDATE ON public.email_sequence_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- process-email-replies sets status 'replied' and sync-email-bounces sets 'bounced';
+-- either one ends every active enrolment for that recipient
+CREATE OR REPLACE FUNCTION public.stop_sequences_on_email_outcome()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT;
+BEGIN
+  IF NEW.status = 'bounced' AND OLD.status IS DISTINCT FROM 'bounced' THEN
+    v_reason := 'bounced';
+  ELSIF COALESCE(NEW.reply_count, 0) > COALESCE(OLD.reply_count, 0)
+     OR (NEW.status = 'replied' AND OLD.status IS DISTINCT FROM 'replied') THEN
+    v_reason := 'replied';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.email_sequence_enrollments
+  SET status = v_reason,
+      stopped_at = now(),
+      next_send_at = NULL
+  WHERE status = 'active'
+    AND (
+      id = NEW.sequence_enrollment_id
+      OR (NEW.lead_id IS NOT NULL AND lead_id = NEW.lead_id)
+      OR (NEW.contact_id IS NOT NULL AND contact_id = NEW.contact_id)
+      OR lower(recipient_email) = lower(NEW.recipient_email)
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stop_sequences_on_email_outcome
+AFTER UPDATE OF status, reply_count ON public.email_history
+FOR EACH ROW
+EXECUTE FUNCTION public.stop_sequences_on_email_outcome();
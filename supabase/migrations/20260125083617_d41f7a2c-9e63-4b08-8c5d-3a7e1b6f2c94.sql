@@ -0,0 +1,47 @@
+-- Click tracking: send-email stores each outbound link and rewrites it to
+-- track-email-click?l=<link id>, which records the click and redirects to the stored URL
+-- (redirect targets never come from the query string, so the function can't be used as an open redirect)
+
+CREATE TABLE IF NOT EXISTS public.email_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email_history_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  position INTEGER NOT NULL, -- order of the link in the message body
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.email_link_clicks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  link_id UUID NOT NULL REFERENCES public.email_links(id) ON DELETE CASCADE,
+  email_history_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  recipient_email TEXT,
+  clicked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ip_address TEXT,
+  user_agent TEXT,
+  is_bot BOOLEAN NOT NULL DEFAULT false -- link scanners; kept for auditing but not counted
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_links_email_history_id ON public.email_links(email_history_id);
+CREATE INDEX IF NOT EXISTS idx_email_link_clicks_email_history_id ON public.email_link_clicks(email_history_id);
+CREATE INDEX IF NOT EXISTS idx_email_link_clicks_link_id ON public.email_link_clicks(link_id);
+
+ALTER TABLE public.email_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_link_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge functions with the service role
+CREATE POLICY "Authenticated users can view email links"
+ON public.email_links FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can delete email links"
+ON public.email_links FOR DELETE
+USING (is_user_admin());
+
+CREATE POLICY "Authenticated users can view email link clicks"
+ON public.email_link_clicks FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can delete email link clicks"
+ON public.email_link_clicks FOR DELETE
+USING (is_user_admin());
@@ -0,0 +1,53 @@
+-- Send-later queue for emails composed in the single and bulk send dialogs
+-- The process-scheduled-emails edge function sends due rows through send-email
+
+CREATE TABLE IF NOT EXISTS public.scheduled_emails (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  sender_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT,
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb, -- same shape send-email accepts
+  entity_type TEXT CHECK (entity_type IN ('lead', 'contact', 'account')),
+  entity_id UUID,
+  scheduled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- zone the send time was chosen in, for display and editing
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  batch_id UUID, -- shared by the emails of one bulk send
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_due
+ON public.scheduled_emails (scheduled_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_emails_batch
+ON public.scheduled_emails (batch_id)
+WHERE batch_id IS NOT NULL;
+
+ALTER TABLE public.scheduled_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their scheduled emails, managers and admins can view all"
+ON public.scheduled_emails FOR SELECT USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can schedule emails"
+ON public.scheduled_emails FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their scheduled emails, managers and admins can update all"
+ON public.scheduled_emails FOR UPDATE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete their scheduled emails, managers and admins can delete all"
+ON public.scheduled_emails FOR DELETE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE TRIGGER update_scheduled_emails_updated_at
+BEFORE UPDATE ON public.scheduled_emails
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
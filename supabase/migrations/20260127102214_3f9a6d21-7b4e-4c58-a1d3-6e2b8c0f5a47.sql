@@ -0,0 +1,9 @@
+-- Threaded conversations: Graph ids needed to reply in-thread, and reply bodies for the conversation view
+-- email_history.thread_id holds the Graph conversationId (or the root email's id when Graph didn't return one)
+
+ALTER TABLE public.email_history
+ADD COLUMN IF NOT EXISTS graph_message_id TEXT; -- id of the sent item in the sender's mailbox
+
+ALTER TABLE public.email_replies
+ADD COLUMN IF NOT EXISTS body TEXT, -- plain text of the new part of the reply, without the quoted history
+ADD COLUMN IF NOT EXISTS conversation_id TEXT;
@@ -0,0 +1,99 @@
+-- Server-side bulk email: BulkEmailModal queues a job with one rendered row per recipient and
+-- process-bulk-email-jobs sends them at the job's rate, so closing the tab doesn't stop a campaign
+
+CREATE TABLE IF NOT EXISTS public.bulk_email_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject TEXT NOT NULL, -- as composed, before per-recipient variables
+  sender_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'completed', 'cancelled')),
+  rate_per_minute INTEGER NOT NULL DEFAULT 30 CHECK (rate_per_minute BETWEEN 1 AND 600),
+  total_count INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  resume_at TIMESTAMP WITH TIME ZONE, -- set when Graph throttles the sender
+  locked_until TIMESTAMP WITH TIME ZONE, -- lease held by the run currently sending this job
+  last_error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.bulk_email_recipients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.bulk_email_jobs(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  entity_type TEXT CHECK (entity_type IN ('lead', 'contact', 'account')),
+  entity_id UUID,
+  subject TEXT NOT NULL,
+  body TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped', 'cancelled')),
+  skip_reason TEXT,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_email_jobs_active
+ON public.bulk_email_jobs (created_at)
+WHERE status IN ('queued', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_bulk_email_recipients_job_status
+ON public.bulk_email_recipients (job_id, status);
+
+ALTER TABLE public.bulk_email_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bulk_email_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their bulk email jobs, managers and admins can view all"
+ON public.bulk_email_jobs FOR SELECT USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can create bulk email jobs"
+ON public.bulk_email_jobs FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their bulk email jobs, managers and admins can update all"
+ON public.bulk_email_jobs FOR UPDATE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete their bulk email jobs, managers and admins can delete all"
+ON public.bulk_email_jobs FOR DELETE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Bulk email job owners can view recipients"
+ON public.bulk_email_recipients FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.bulk_email_jobs j
+  WHERE j.id = job_id AND (is_user_admin() OR is_user_manager() OR j.created_by = auth.uid())
+));
+
+CREATE POLICY "Bulk email job owners can add recipients"
+ON public.bulk_email_recipients FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.bulk_email_jobs j
+  WHERE j.id = job_id AND j.created_by = auth.uid()
+));
+
+CREATE POLICY "Bulk email job owners can update recipients"
+ON public.bulk_email_recipients FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.bulk_email_jobs j
+  WHERE j.id = job_id AND (is_user_admin() OR is_user_manager() OR j.created_by = auth.uid())
+));
+
+CREATE TRIGGER update_bulk_email_jobs_updated_at
+BEFORE UPDATE ON public.bulk_email_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_bulk_email_recipients_updated_at
+BEFORE UPDATE ON public.bulk_email_recipients
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- send-email marks a failed send instead of deleting its history record; this is why it failed
+ALTER TABLE public.email_history ADD COLUMN IF NOT EXISTS send_error TEXT;
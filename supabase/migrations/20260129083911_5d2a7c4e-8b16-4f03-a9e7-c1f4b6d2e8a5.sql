@@ -0,0 +1,62 @@
+-- Email suppression list: addresses send-email refuses to mail, whether the recipient unsubscribed,
+-- the address hard-bounced, or someone added it by hand. Opt-outs are also recorded on the
+-- contact or lead in communication_preferences so they show up on the record itself.
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS communication_preferences JSONB;
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE CHECK (email = lower(email)), -- stored lowercase so lookups are exact
+  reason TEXT NOT NULL CHECK (reason IN ('unsubscribed', 'hard_bounce', 'manual')),
+  source_email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email suppressions"
+ON public.email_suppressions FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can suppress addresses"
+ON public.email_suppressions FOR INSERT WITH CHECK (auth.uid() IS NOT NULL AND reason = 'manual' AND created_by = auth.uid());
+
+-- Lifting a suppression means mailing someone who asked not to be, so it's kept to admins and managers
+CREATE POLICY "Admins and managers can remove email suppressions"
+ON public.email_suppressions FOR DELETE USING (is_user_admin() OR is_user_manager());
+
+-- Every path that records a hard bounce (mark-email-bounced, sync-email-bounces, process-bounce-checks)
+-- updates email_history, so suppressing here covers them all
+CREATE OR REPLACE FUNCTION public.suppress_hard_bounced_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.bounce_type = 'hard' AND (TG_OP = 'INSERT' OR OLD.bounce_type IS DISTINCT FROM 'hard') THEN
+    INSERT INTO public.email_suppressions (email, reason, source_email_history_id, contact_id, lead_id, notes)
+    VALUES (lower(trim(NEW.recipient_email)), 'hard_bounce', NEW.id, NEW.contact_id, NEW.lead_id, NEW.bounce_reason)
+    ON CONFLICT (email) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER suppress_hard_bounced_email
+AFTER INSERT OR UPDATE OF bounce_type ON public.email_history
+FOR EACH ROW
+EXECUTE FUNCTION public.suppress_hard_bounced_email();
+
+-- Addresses that hard-bounced before the list existed
+INSERT INTO public.email_suppressions (email, reason, source_email_history_id, contact_id, lead_id, notes, created_at)
+SELECT DISTINCT ON (lower(trim(recipient_email)))
+  lower(trim(recipient_email)), 'hard_bounce', id, contact_id, lead_id, bounce_reason, COALESCE(bounced_at, sent_at, now())
+FROM public.email_history
+WHERE bounce_type = 'hard'
+ORDER BY lower(trim(recipient_email)), bounced_at DESC NULLS LAST
+ON CONFLICT (email) DO NOTHING;
@@ -0,0 +1,54 @@
+-- Calendar (.ics) invites for meetings that don't use Teams. send-meeting-invite emails an
+-- iCalendar REQUEST or CANCEL to every attendee; attendees answer through the RSVP links in the
+-- invite, and each answer is kept on their entry in meetings.attendees.
+
+ALTER TABLE public.meetings
+ADD COLUMN IF NOT EXISTS timezone TEXT, -- the organizer's timezone picker, used for the invite's TZID
+ADD COLUMN IF NOT EXISTS invite_method TEXT CHECK (invite_method IN ('teams', 'ics')),
+ADD COLUMN IF NOT EXISTS ics_sequence INTEGER NOT NULL DEFAULT 0, -- iCalendar SEQUENCE, bumped on every update or cancel
+ADD COLUMN IF NOT EXISTS invite_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- Meetings created before this all went through Teams
+UPDATE public.meetings SET invite_method = 'teams' WHERE join_url IS NOT NULL AND invite_method IS NULL;
+
+-- Record one attendee's answer. The row lock keeps answers arriving together from overwriting each other,
+-- which a read-modify-write of the attendees array in the edge function would not.
+CREATE OR REPLACE FUNCTION public.record_meeting_rsvp(p_meeting_id UUID, p_token TEXT, p_response TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attendees JSONB;
+  v_index INTEGER;
+  v_attendee JSONB;
+BEGIN
+  IF p_response NOT IN ('accepted', 'tentative', 'declined') THEN
+    RAISE EXCEPTION 'Unknown response: %', p_response;
+  END IF;
+
+  SELECT attendees INTO v_attendees FROM public.meetings WHERE id = p_meeting_id FOR UPDATE;
+  IF v_attendees IS NULL OR jsonb_typeof(v_attendees) <> 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT ordinality - 1, value INTO v_index, v_attendee
+  FROM jsonb_array_elements(v_attendees) WITH ORDINALITY
+  WHERE value->>'rsvp_token' = p_token;
+
+  IF v_index IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_attendee := v_attendee || jsonb_build_object('response', p_response, 'responded_at', now());
+  UPDATE public.meetings
+  SET attendees = jsonb_set(v_attendees, ARRAY[v_index::TEXT], v_attendee)
+  WHERE id = p_meeting_id;
+
+  RETURN v_attendee;
+END;
+$$;
+
+-- Only the public RSVP edge function (service role) records answers
+REVOKE EXECUTE ON FUNCTION public.record_meeting_rsvp(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,60 @@
+-- Public booking pages: each user can publish one page at /book/<slug> where prospects pick a free
+-- slot. The booking-page edge function serves it with the service role, so there is no public
+-- access to the table itself.
+
+CREATE TABLE IF NOT EXISTS public.booking_pages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  title TEXT NOT NULL,
+  description TEXT,
+  duration_minutes INTEGER NOT NULL DEFAULT 30 CHECK (duration_minutes BETWEEN 10 AND 240),
+  buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 120), -- kept free before and after other meetings
+  max_per_day INTEGER CHECK (max_per_day > 0), -- bookings through the page per day; null for no limit
+  min_notice_hours INTEGER NOT NULL DEFAULT 4 CHECK (min_notice_hours >= 0),
+  max_days_ahead INTEGER NOT NULL DEFAULT 30 CHECK (max_days_ahead BETWEEN 1 AND 90),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  -- Weekly availability in the page's timezone: [{ "day": 1, "start": "09:00", "end": "17:00" }, ...], day 0 = Sunday
+  availability JSONB NOT NULL DEFAULT '[
+    {"day": 1, "start": "09:00", "end": "17:00"},
+    {"day": 2, "start": "09:00", "end": "17:00"},
+    {"day": 3, "start": "09:00", "end": "17:00"},
+    {"day": 4, "start": "09:00", "end": "17:00"},
+    {"day": 5, "start": "09:00", "end": "17:00"}
+  ]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking page or admins all"
+ON public.booking_pages FOR SELECT USING (user_id = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Users can create their own booking page"
+ON public.booking_pages FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own booking page"
+ON public.booking_pages FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own booking page"
+ON public.booking_pages FOR DELETE USING (user_id = auth.uid());
+
+CREATE TRIGGER update_booking_pages_updated_at
+BEFORE UPDATE ON public.booking_pages
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Meetings booked by a prospect point back at the page, which is what max_per_day counts
+ALTER TABLE public.meetings
+ADD COLUMN IF NOT EXISTS booking_page_id UUID REFERENCES public.booking_pages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_meetings_booking_page_id ON public.meetings(booking_page_id, start_time)
+WHERE booking_page_id IS NOT NULL;
+
+-- Where a booking came from, so the public page can throttle repeat bookings per visitor
+ALTER TABLE public.meetings
+ADD COLUMN IF NOT EXISTS booked_from_ip TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_meetings_booked_from_ip ON public.meetings(booked_from_ip, created_at)
+WHERE booked_from_ip IS NOT NULL;
@@ -0,0 +1,210 @@
+-- Record changes to the core CRM tables are audited by triggers instead of from the browser, so
+-- every path (kanban drags, inline edits, merges, backup restores, edge functions) is captured.
+-- Entries keep the shape useCRUDAudit wrote, so AuditLogsSettings and RecordChangeHistory read
+-- both the old and the new ones.
+
+-- Bookkeeping and system-maintained columns (scoring, email tracking) rewritten behind the user's
+-- back. Changes to these alone are not edits: the audit skips them and import rollback ignores them.
+CREATE OR REPLACE FUNCTION public.audit_ignored_columns()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY[
+    'modified_time', 'modified_by', 'updated_at', 'modified_at',
+    'score', 'score_breakdown', 'score_updated_at',
+    'email_opens', 'email_clicks', 'engagement_score'
+  ];
+$$;
+
+CREATE OR REPLACE FUNCTION public.audit_record_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Changes to these alone are not worth an entry
+  v_ignored TEXT[] := public.audit_ignored_columns();
+  v_claims JSONB := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+  v_headers JSONB := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  v_role TEXT := COALESCE(v_claims->>'role', 'database');
+  v_actor UUID := auth.uid();
+  v_source TEXT;
+  v_old JSONB;
+  v_new JSONB;
+  v_row JSONB;
+  v_changes JSONB := '{}'::jsonb;
+  v_key TEXT;
+  v_details JSONB;
+BEGIN
+  -- Edge functions run as the service role; they may say who they act for and name themselves
+  IF v_role = 'service_role' THEN
+    v_source := COALESCE(v_headers->>'x-audit-source', 'edge_function');
+    IF v_actor IS NULL AND v_headers->>'x-audit-actor' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      v_actor := (v_headers->>'x-audit-actor')::uuid;
+    END IF;
+  ELSIF v_role = 'authenticated' THEN
+    v_source := 'app';
+  ELSIF v_role = 'anon' THEN
+    v_source := 'public';
+  ELSE
+    v_source := 'database';
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old := to_jsonb(OLD);
+    v_new := to_jsonb(NEW);
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      IF v_key <> ALL (v_ignored) AND (v_new->v_key) IS DISTINCT FROM (v_old->v_key) THEN
+        v_changes := v_changes || jsonb_build_object(v_key, jsonb_build_object('old', v_old->v_key, 'new', v_new->v_key));
+      END IF;
+    END LOOP;
+
+    IF v_changes = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+    v_row := v_new;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_row := to_jsonb(NEW);
+  ELSE
+    v_row := to_jsonb(OLD);
+  END IF;
+
+  v_details := jsonb_build_object(
+    'operation', TG_OP,
+    'status', 'Success',
+    'timestamp', now(),
+    'module', initcap(TG_TABLE_NAME),
+    'record_name', v_row->>TG_ARGV[0],
+    'source', v_source
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    v_details := v_details || jsonb_build_object('record_data', v_row);
+  ELSIF TG_OP = 'UPDATE' THEN
+    v_details := v_details || jsonb_build_object('field_changes', v_changes);
+  ELSE
+    v_details := v_details || jsonb_build_object('deleted_data', v_row);
+  END IF;
+
+  INSERT INTO public.security_audit_log (user_id, action, resource_type, resource_id, details, ip_address, user_agent)
+  VALUES (
+    v_actor,
+    CASE TG_OP WHEN 'INSERT' THEN 'CREATE' ELSE TG_OP END,
+    TG_TABLE_NAME,
+    v_row->>'id',
+    v_details,
+    inet_client_addr(),
+    v_headers->>'user-agent'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- The argument is the column holding the record's display name
+DROP TRIGGER IF EXISTS audit_contacts_changes ON public.contacts;
+CREATE TRIGGER audit_contacts_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.contacts
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('contact_name');
+
+DROP TRIGGER IF EXISTS audit_deals_changes ON public.deals;
+CREATE TRIGGER audit_deals_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.deals
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('deal_name');
+
+DROP TRIGGER IF EXISTS audit_leads_changes ON public.leads;
+CREATE TRIGGER audit_leads_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('lead_name');
+
+DROP TRIGGER IF EXISTS audit_accounts_changes ON public.accounts;
+CREATE TRIGGER audit_accounts_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.accounts
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('company_name');
+
+DROP TRIGGER IF EXISTS audit_tasks_changes ON public.tasks;
+CREATE TRIGGER audit_tasks_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('title');
+
+DROP TRIGGER IF EXISTS audit_meetings_changes ON public.meetings;
+CREATE TRIGGER audit_meetings_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.meetings
+FOR EACH ROW EXECUTE FUNCTION public.audit_record_change('subject');
+
+-- Clients can no longer write record changes for these tables themselves, through the RPC or directly
+CREATE OR REPLACE FUNCTION public.log_security_event(
+    p_action TEXT,
+    p_resource_type TEXT,
+    p_resource_id TEXT DEFAULT NULL,
+    p_details JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+    IF p_action IN ('CREATE', 'UPDATE', 'DELETE')
+       AND p_resource_type IN ('contacts', 'deals', 'leads', 'accounts', 'tasks', 'meetings') THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.security_audit_log (
+        user_id,
+        action,
+        resource_type,
+        resource_id,
+        details,
+        ip_address
+    ) VALUES (
+        auth.uid(),
+        p_action,
+        p_resource_type,
+        p_resource_id,
+        p_details,
+        inet_client_addr()
+    );
+END;
+$$;
+
+DROP POLICY IF EXISTS "Users can insert audit logs" ON public.security_audit_log;
+DROP POLICY IF EXISTS "Allow audit logging for authenticated users" ON public.security_audit_log;
+
+CREATE POLICY "Users can insert their own audit logs"
+ON public.security_audit_log FOR INSERT TO authenticated
+WITH CHECK (
+  user_id = auth.uid()
+  AND NOT (
+    action IN ('CREATE', 'UPDATE', 'DELETE')
+    AND resource_type IN ('contacts', 'deals', 'leads', 'accounts', 'tasks', 'meetings')
+  )
+);
+
+-- Entries are append-only for signed-in users. The service role (backup restore, user clean-up)
+-- and cascades from deleted users, which run as the table owner, are still allowed.
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_tampering()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Audit log entries cannot be changed or removed';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON public.security_audit_log;
+CREATE TRIGGER prevent_audit_log_changes
+BEFORE UPDATE OR DELETE ON public.security_audit_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_tampering();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON public.security_audit_log;
+CREATE TRIGGER prevent_audit_log_truncate
+BEFORE TRUNCATE ON public.security_audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_tampering();
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_log_resource
+ON public.security_audit_log(resource_type, resource_id, created_at DESC);
@@ -0,0 +1,11 @@
+-- Import column mappings are saved as named profiles, several per module. source_headers holds the
+-- columns of the file a profile was saved from, so the next file from the same source picks it up.
+ALTER TABLE public.import_export_settings
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL DEFAULT 'Default',
+  ADD COLUMN IF NOT EXISTS source_headers TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.import_export_settings
+  DROP CONSTRAINT IF EXISTS import_export_settings_user_id_entity_type_key;
+
+ALTER TABLE public.import_export_settings
+  ADD CONSTRAINT import_export_settings_user_id_entity_type_name_key UNIQUE (user_id, entity_type, name);
@@ -0,0 +1,195 @@
+-- Lead and deal imports are recorded as batches so an admin can undo a mistaken one. Every row an
+-- import creates or updates is tagged with the batch, and import_batch_records keeps what an
+-- updated row looked like before, so rolling back deletes the new rows and restores the old ones.
+-- The records are written by a trigger in the same transaction as the row, never by the client.
+
+CREATE TABLE IF NOT EXISTS public.import_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('leads', 'deals')),
+  file_name TEXT,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'failed', 'rolled_back')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_by UUID
+);
+
+CREATE TABLE IF NOT EXISTS public.import_batch_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id UUID NOT NULL REFERENCES public.import_batches(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated')),
+  seq BIGINT GENERATED ALWAYS AS IDENTITY, -- write order; rollback undoes the writes last to first
+  previous_data JSONB, -- the whole row before an update
+  written_data JSONB NOT NULL, -- the whole row as the import left it, to tell whether it was edited since
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_created_at ON public.import_batches(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_batch_records_batch ON public.import_batch_records(batch_id, seq);
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.deals
+ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES public.import_batches(id) ON DELETE SET NULL;
+
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_batch_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import batches, admins all"
+ON public.import_batches FOR SELECT USING (user_id = auth.uid() OR is_user_admin());
+
+CREATE POLICY "Users can start their own import batches"
+ON public.import_batches FOR INSERT WITH CHECK (user_id = auth.uid() AND status = 'in_progress');
+
+-- The importer fills in the counts when it finishes; only rollback_import_batch marks a batch rolled back
+CREATE POLICY "Users can finish their own import batches"
+ON public.import_batches FOR UPDATE
+USING (user_id = auth.uid() AND status = 'in_progress')
+WITH CHECK (user_id = auth.uid() AND status IN ('in_progress', 'completed', 'failed'));
+
+CREATE POLICY "Users can view records of their own import batches, admins all"
+ON public.import_batch_records FOR SELECT USING (
+  is_user_admin() OR EXISTS (
+    SELECT 1 FROM public.import_batches b WHERE b.id = batch_id AND b.user_id = auth.uid()
+  )
+);
+
+-- No insert policy: records come only from record_import_batch_write, so previous_data is the real
+-- row and a record exists exactly when its write committed.
+CREATE OR REPLACE FUNCTION public.record_import_batch_write()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.import_batch_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only writes by the user running the batch, while it runs, belong to it; later edits just keep the tag
+  IF NOT EXISTS (
+    SELECT 1 FROM public.import_batches b
+    WHERE b.id = NEW.import_batch_id
+      AND b.entity_type = TG_TABLE_NAME
+      AND b.user_id = auth.uid()
+      AND b.status = 'in_progress'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.import_batch_records (batch_id, record_id, action, previous_data, written_data)
+  VALUES (
+    NEW.import_batch_id,
+    NEW.id,
+    CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'updated' END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    to_jsonb(NEW)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_import_batch_write ON public.leads;
+CREATE TRIGGER record_import_batch_write
+AFTER INSERT OR UPDATE ON public.leads
+FOR EACH ROW EXECUTE FUNCTION public.record_import_batch_write();
+
+DROP TRIGGER IF EXISTS record_import_batch_write ON public.deals;
+CREATE TRIGGER record_import_batch_write
+AFTER INSERT OR UPDATE ON public.deals
+FOR EACH ROW EXECUTE FUNCTION public.record_import_batch_write();
+
+-- Undo an import in one transaction, last write first. A row is only undone while it is still
+-- exactly what the import wrote, audit_ignored_columns aside: rows deleted, edited or re-imported
+-- since are left alone and counted as skipped, so nobody's later work is lost.
+CREATE OR REPLACE FUNCTION public.rollback_import_batch(p_batch_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch public.import_batches%ROWTYPE;
+  v_record public.import_batch_records%ROWTYPE;
+  -- Scoring and email tracking rewrite imported rows nightly; that is not someone editing them
+  v_ignored TEXT[] := public.audit_ignored_columns();
+  v_current JSONB;
+  v_columns TEXT;
+  v_deleted INTEGER := 0;
+  v_restored INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can roll back imports';
+  END IF;
+
+  SELECT * INTO v_batch FROM public.import_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch not found';
+  END IF;
+  IF v_batch.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'This import has already been rolled back';
+  END IF;
+
+  -- Marked first, so an abandoned batch stops taking records while its own writes are undone
+  UPDATE public.import_batches
+  SET status = 'rolled_back', rolled_back_at = now(), rolled_back_by = auth.uid()
+  WHERE id = p_batch_id;
+
+  -- Undoing an import is not an edit for the approval workflows to hold back
+  PERFORM set_config('app.applying_approval', 'on', true);
+
+  FOR v_record IN
+    SELECT * FROM public.import_batch_records
+    WHERE batch_id = p_batch_id
+    ORDER BY seq DESC
+  LOOP
+    EXECUTE format('SELECT to_jsonb(t) FROM public.%I AS t WHERE t.id = $1 FOR UPDATE', v_batch.entity_type)
+    INTO v_current
+    USING v_record.record_id;
+
+    -- Undoing a later write of the same batch puts the row back to what this one wrote, so chains still match
+    IF v_current IS NULL OR (
+      SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb)
+      FROM jsonb_each(v_current)
+      WHERE v_record.written_data ? key AND key <> ALL (v_ignored)
+    ) IS DISTINCT FROM (v_record.written_data - v_ignored) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    IF v_record.action = 'created' THEN
+      EXECUTE format('DELETE FROM public.%I WHERE id = $1', v_batch.entity_type)
+      USING v_record.record_id;
+      v_deleted := v_deleted + 1;
+    ELSE
+      -- Only the columns the snapshot has, so a column added since the import keeps its value
+      SELECT string_agg(format('%I', column_name), ', ' ORDER BY ordinal_position) INTO v_columns
+      FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = v_batch.entity_type
+        AND column_name <> 'id' AND is_generated = 'NEVER'
+        AND v_record.previous_data ? column_name;
+
+      EXECUTE format(
+        'UPDATE public.%1$I AS t SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)) WHERE t.id = $2',
+        v_batch.entity_type, v_columns
+      )
+      USING v_record.previous_data, v_record.record_id;
+      v_restored := v_restored + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.applying_approval', 'off', true);
+
+  RETURN jsonb_build_object('deleted', v_deleted, 'restored', v_restored, 'skipped', v_skipped);
+END;
+$$;